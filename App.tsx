@@ -18,6 +18,7 @@ import { supabase } from './services/supabase';
 import { secureStorage } from './services/secureStorage';
 import { configureNotifications, notificationService } from './services/notifications';
 import { useNotifications } from './hooks/useNotifications';
+import { useAlertEngine } from './hooks/useAlertEngine';
 import { ThemeProvider } from './contexts/ThemeContext';
 import { useTheme } from './hooks/useTheme';
 import type { RootStackParamList } from './navigation/types';
@@ -35,6 +36,9 @@ function AppContent() {
     navigationRef,
   });
 
+  // Check price alerts on the device while signed in and the app is open
+  useAlertEngine({ enabled: isAuthenticated });
+
   // Configure notifications on app start
   useEffect(() => {
     configureNotifications();
@@ -1,21 +1,44 @@
 /**
  * Realtime Status Component
  * 
- * Displays connection status and last updated timestamp
+ * Displays connection status and last updated timestamp, and the
+ * connection's health and latency when given
  * Requirements: 5
  */
 
 import React from 'react';
 import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
+import type { RealtimeHealth } from '@/utils/realtimeSubscriptions';
+import type { PriceSource } from '@/utils/priceProvider';
 
 interface RealtimeStatusProps {
   isConnected: boolean;
   lastUpdated: Date | null;
   error?: string | null;
   onReconnect?: () => void;
+  health?: RealtimeHealth;
+  latencyMs?: number | null;
+  /** Where prices are coming from, e.g. polling while realtime is down */
+  source?: PriceSource | null;
 }
 
+const HEALTH_LABELS: Record<RealtimeHealth, string> = {
+  live: 'Live',
+  connecting: 'Connecting…',
+  reconnecting: 'Reconnecting…',
+  offline: 'Offline',
+  paused: 'Paused',
+};
+
+const HEALTH_COLORS: Record<RealtimeHealth, string> = {
+  live: '#10B981',
+  connecting: '#F59E0B',
+  reconnecting: '#F59E0B',
+  offline: '#EF4444',
+  paused: '#9CA3AF',
+};
+
 function formatLastUpdated(date: Date | null): string {
   if (!date) return 'Never';
   
@@ -32,18 +55,33 @@ export function RealtimeStatus({
   isConnected, 
   lastUpdated, 
   error, 
-  onReconnect 
+  onReconnect,
+  health,
+  latencyMs,
+  source,
 }: RealtimeStatusProps): React.ReactElement {
+  const status = health ?? (isConnected ? 'live' : 'offline');
+
   return (
     <View style={styles.container}>
       <View style={styles.statusRow}>
         <View style={[
           styles.statusDot,
-          { backgroundColor: isConnected ? '#10B981' : '#EF4444' }
+          { backgroundColor: HEALTH_COLORS[status] }
         ]} />
         <Text style={styles.statusText}>
-          {isConnected ? 'Live' : 'Offline'}
+          {HEALTH_LABELS[status]}
         </Text>
+        {status === 'live' && latencyMs != null && (
+          <Text style={styles.lastUpdated}>
+            • {Math.round(latencyMs)} ms
+          </Text>
+        )}
+        {source === 'polling' && (
+          <Text style={styles.lastUpdated}>
+            • Polling for prices
+          </Text>
+        )}
         {lastUpdated && (
           <Text style={styles.lastUpdated}>
             • Updated {formatLastUpdated(lastUpdated)}
@@ -9,20 +9,35 @@
 import React, { useState } from 'react';
 import { View, Text, StyleSheet, Dimensions } from 'react-native';
 import { LineChart } from 'react-native-chart-kit';
+import { getBenchmarkColor, getBenchmarkName } from '@/utils/benchmarks';
+import { downsampleLine } from '@/utils/priceCharts';
 
 const screenWidth = Dimensions.get('window').width;
 
+/** Points drawn across the chart; more crowd the dots together */
+const MAX_CHART_POINTS = 30;
+
+/** Date labels along the bottom */
+const MAX_LABELS = 6;
+
 interface DataPoint {
   timestamp: string;
   value: number;
 }
 
+interface BenchmarkOverlay {
+  symbol: string;
+  /** Rebased onto the portfolio series, one point per data point */
+  data: DataPoint[];
+}
+
 interface PortfolioLineChartProps {
   data: DataPoint[];
   timePeriod: string;
+  benchmarks?: BenchmarkOverlay[];
 }
 
-export default function PortfolioLineChart({ data, timePeriod }: PortfolioLineChartProps) {
+export default function PortfolioLineChart({ data, timePeriod, benchmarks = [] }: PortfolioLineChartProps) {
   const [selectedPoint, setSelectedPoint] = useState<{ value: number; date: string } | null>(null);
 
   if (!data || data.length === 0) {
@@ -37,17 +52,33 @@ export default function PortfolioLineChart({ data, timePeriod }: PortfolioLineCh
     );
   }
 
+  // Thinned over the whole period, keeping its highs and lows
+  const series = data.map((point) => ({ timestamp: point.timestamp, price: point.value }));
+  const positions = new Map(series.map((point, index) => [point, index]));
+  const shown = downsampleLine(series, MAX_CHART_POINTS).map((point) => positions.get(point) as number);
+  const labelEvery = Math.ceil(shown.length / MAX_LABELS);
+
   const chartData = {
-    labels: data.slice(-7).map((point) => {
-      const date = new Date(point.timestamp);
+    labels: shown.map((index, position) => {
+      if (position % labelEvery !== 0) return '';
+      const date = new Date(data[index].timestamp);
       return `${date.getMonth() + 1}/${date.getDate()}`;
     }),
     datasets: [
       {
-        data: data.slice(-7).map((point) => point.value),
+        data: shown.map((index) => data[index].value),
         color: (opacity = 1) => `rgba(10, 126, 164, ${opacity})`,
         strokeWidth: 2,
       },
+      ...benchmarks
+        .map((benchmark, index) => ({ benchmark, color: getBenchmarkColor(index) }))
+        .filter(({ benchmark }) => benchmark.data.length === data.length)
+        .map(({ benchmark, color }) => ({
+          data: shown.map((at) => benchmark.data[at].value),
+          color: (opacity = 1) => `rgba(${color}, ${opacity})`,
+          strokeWidth: 1.5,
+          withDots: false,
+        })),
     ],
   };
 
@@ -73,11 +104,13 @@ export default function PortfolioLineChart({ data, timePeriod }: PortfolioLineCh
     },
   };
 
-  const handleDataPointClick = (data: { index: number; value: number; x: number; y: number }) => {
-    const point = chartData.labels[data.index];
+  const handleDataPointClick = (clicked: { index: number; value: number; x: number; y: number }) => {
+    // Only the portfolio line is selectable
+    if (clicked.value !== chartData.datasets[0].data[clicked.index]) return;
+    const date = new Date(data[shown[clicked.index]].timestamp);
     setSelectedPoint({
-      value: data.value,
-      date: point,
+      value: clicked.value,
+      date: `${date.getMonth() + 1}/${date.getDate()}`,
     });
   };
 
@@ -91,9 +124,8 @@ export default function PortfolioLineChart({ data, timePeriod }: PortfolioLineCh
   };
 
   // Calculate trend for accessibility
-  const displayData = data.slice(-7);
-  const trendDirection = displayData.length >= 2 
-    ? (displayData[displayData.length - 1].value >= displayData[0].value ? 'upward' : 'downward')
+  const trendDirection = data.length >= 2 
+    ? (data[data.length - 1].value >= data[0].value ? 'upward' : 'downward')
     : 'neutral';
 
   return (
@@ -138,6 +170,21 @@ export default function PortfolioLineChart({ data, timePeriod }: PortfolioLineCh
           fromZero={false}
         />
       </View>
+      {benchmarks.length > 0 && (
+        <View style={styles.legend}>
+          {benchmarks.map((benchmark, index) => (
+            <View key={benchmark.symbol} style={styles.legendItem}>
+              <View
+                style={[
+                  styles.legendSwatch,
+                  { backgroundColor: `rgb(${getBenchmarkColor(index)})` },
+                ]}
+              />
+              <Text style={styles.legendLabel}>{getBenchmarkName(benchmark.symbol)}</Text>
+            </View>
+          ))}
+        </View>
+      )}
     </View>
   );
 }
@@ -164,6 +211,25 @@ const styles = StyleSheet.create({
     marginVertical: 8,
     borderRadius: 16,
   },
+  legend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  legendSwatch: {
+    width: 12,
+    height: 3,
+    borderRadius: 2,
+    marginRight: 6,
+  },
+  legendLabel: {
+    fontSize: 12,
+    color: '#687076',
+  },
   tooltip: {
     backgroundColor: '#11181C',
     borderRadius: 8,
@@ -0,0 +1,341 @@
+// mobile/components/charts/PriceChart.tsx
+/**
+ * Price Chart Component
+ *
+ * An asset's price over a period as a line or OHLC candles, with traded
+ * volume beneath when it is recorded, markers on the highest and lowest
+ * prices, and a crosshair that follows a finger along the chart.
+ */
+
+import React, { useMemo, useRef, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, PanResponder, LayoutChangeEvent } from 'react-native';
+import Svg, { Circle, Line, Path, Rect } from 'react-native-svg';
+import {
+  buildCandles,
+  downsampleLine,
+  findExtremes,
+  formatChartTime,
+  getCandleIndex,
+  getNearestIndex,
+  toChartY,
+  type Candle,
+  type PricePoint,
+} from '@/utils/priceCharts';
+
+type ChartMode = 'line' | 'candles';
+
+interface PriceChartProps {
+  points: PricePoint[];
+  /** Selected period, e.g. '1D', for the time labels */
+  period: string;
+  formatPrice: (value: number) => string;
+  height?: number;
+}
+
+const VOLUME_HEIGHT = 48;
+const UP_COLOR = '#10B981';
+const DOWN_COLOR = '#EF4444';
+const LINE_COLOR = '#0a7ea4';
+
+export default function PriceChart({ points, period, formatPrice, height = 200 }: PriceChartProps) {
+  const [mode, setMode] = useState<ChartMode>('line');
+  const [width, setWidth] = useState(0);
+  const [activeIndex, setActiveIndex] = useState<number | null>(null);
+
+  const line = useMemo(() => downsampleLine(points), [points]);
+  const candles = useMemo(() => buildCandles(points), [points]);
+  const hasVolume = candles.some((candle) => candle.volume !== null);
+  const count = mode === 'line' ? line.length : candles.length;
+
+  // Read by the responder, which is created once
+  const layoutRef = useRef({ width, count, mode });
+  layoutRef.current = { width, count, mode };
+
+  const panResponder = useMemo(() => {
+    const pickIndex = (x: number) => {
+      const { width: chartWidth, count: chartCount, mode: chartMode } = layoutRef.current;
+      return chartMode === 'line'
+        ? getNearestIndex(x, chartWidth, chartCount)
+        : getCandleIndex(x, chartWidth, chartCount);
+    };
+    return PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      // Keeps the scroll view from taking over a horizontal scrub
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: (event) => setActiveIndex(pickIndex(event.nativeEvent.locationX)),
+      onPanResponderMove: (event) => setActiveIndex(pickIndex(event.nativeEvent.locationX)),
+      onPanResponderRelease: () => setActiveIndex(null),
+      onPanResponderTerminate: () => setActiveIndex(null),
+    });
+  }, []);
+
+  if (points.length === 0) {
+    return (
+      <View
+        style={styles.emptyContainer}
+        accessible={true}
+        accessibilityLabel="Price chart with no price history available"
+      >
+        <Text style={styles.emptyText}>No price history available</Text>
+      </View>
+    );
+  }
+
+  const handleLayout = (event: LayoutChangeEvent) => setWidth(event.nativeEvent.layout.width);
+
+  // Room above and below for the high and low markers
+  const low = mode === 'line' ? Math.min(...line.map((p) => p.price)) : Math.min(...candles.map((c) => c.low));
+  const high = mode === 'line' ? Math.max(...line.map((p) => p.price)) : Math.max(...candles.map((c) => c.high));
+  const padding = (high - low) * 0.1 || Math.abs(high) * 0.01 || 1;
+  const yMin = low - padding;
+  const yMax = high + padding;
+  const y = (value: number) => toChartY(value, yMin, yMax, height);
+
+  const step = count > 1 ? width / (count - 1) : 0;
+  const xAt = (index: number) => (count > 1 ? index * step : width / 2);
+  const slot = candles.length > 0 ? width / candles.length : width;
+  const candleX = (index: number) => slot * index + slot / 2;
+
+  const extremes =
+    mode === 'line'
+      ? findExtremes(line)
+      : (() => {
+          const highs = findExtremes(candles.map((c) => ({ timestamp: c.start, price: c.high })));
+          const lows = findExtremes(candles.map((c) => ({ timestamp: c.start, price: c.low })));
+          return highs && lows ? { max: highs.max, min: lows.min } : null;
+        })();
+  const markerX = (index: number) => (mode === 'line' ? xAt(index) : candleX(index));
+
+  const linePath = line
+    .map((point, index) => `${index === 0 ? 'M' : 'L'}${xAt(index).toFixed(1)},${y(point.price).toFixed(1)}`)
+    .join(' ');
+
+  const maxVolume = Math.max(0, ...candles.map((c) => c.volume ?? 0));
+
+  // The crosshair's point, else the latest
+  const readoutIndex = activeIndex ?? count - 1;
+  const activeCandle: Candle | undefined = mode === 'candles' ? candles[readoutIndex] : undefined;
+  const activePoint: PricePoint | undefined = mode === 'line' ? line[readoutIndex] : undefined;
+  const readoutTime = activeCandle?.start ?? activePoint?.timestamp;
+  const crosshairX = activeIndex === null ? null : mode === 'line' ? xAt(activeIndex) : candleX(activeIndex);
+
+  const first = line[0].price;
+  const last = line[line.length - 1].price;
+  const trendDirection = last >= first ? 'upward' : 'downward';
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.toolbar}>
+        <View style={styles.readout}>
+          {activeCandle ? (
+            <Text style={styles.readoutValue}>
+              O {formatPrice(activeCandle.open)}  H {formatPrice(activeCandle.high)}  L{' '}
+              {formatPrice(activeCandle.low)}  C {formatPrice(activeCandle.close)}
+            </Text>
+          ) : (
+            activePoint && <Text style={styles.readoutValue}>{formatPrice(activePoint.price)}</Text>
+          )}
+          {readoutTime && (
+            <Text style={styles.readoutTime}>
+              {formatChartTime(readoutTime, period)}
+              {activeCandle?.volume != null && ` • Vol ${activeCandle.volume.toLocaleString('en-US')}`}
+            </Text>
+          )}
+        </View>
+        <View style={styles.modeSelector}>
+          {(['line', 'candles'] as ChartMode[]).map((option) => (
+            <TouchableOpacity
+              key={option}
+              style={[styles.modeButton, mode === option && styles.modeButtonActive]}
+              onPress={() => {
+                setMode(option);
+                setActiveIndex(null);
+              }}
+              accessibilityRole="button"
+              accessibilityState={{ selected: mode === option }}
+            >
+              <Text style={[styles.modeButtonText, mode === option && styles.modeButtonTextActive]}>
+                {option === 'line' ? 'Line' : 'Candles'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      <View
+        onLayout={handleLayout}
+        {...panResponder.panHandlers}
+        accessible={true}
+        accessibilityRole="image"
+        accessibilityLabel={`Price chart for ${period} showing ${trendDirection} trend`}
+        accessibilityHint="Drag across the chart to see prices at each point"
+      >
+        {width > 0 && (
+          <Svg width={width} height={height}>
+            {mode === 'line' ? (
+              <Path d={linePath} stroke={LINE_COLOR} strokeWidth={2} fill="none" />
+            ) : (
+              candles.map((candle, index) => {
+                const color = candle.close >= candle.open ? UP_COLOR : DOWN_COLOR;
+                const bodyTop = y(Math.max(candle.open, candle.close));
+                const bodyHeight = Math.max(1, y(Math.min(candle.open, candle.close)) - bodyTop);
+                const bodyWidth = Math.max(1, slot * 0.6);
+                return (
+                  <React.Fragment key={candle.start}>
+                    <Line
+                      x1={candleX(index)}
+                      x2={candleX(index)}
+                      y1={y(candle.high)}
+                      y2={y(candle.low)}
+                      stroke={color}
+                      strokeWidth={1}
+                    />
+                    <Rect
+                      x={candleX(index) - bodyWidth / 2}
+                      y={bodyTop}
+                      width={bodyWidth}
+                      height={bodyHeight}
+                      fill={color}
+                    />
+                  </React.Fragment>
+                );
+              })
+            )}
+
+            {extremes && (
+              <>
+                <Circle
+                  cx={markerX(extremes.max.index)}
+                  cy={y(extremes.max.point.price)}
+                  r={3.5}
+                  fill={UP_COLOR}
+                />
+                <Circle
+                  cx={markerX(extremes.min.index)}
+                  cy={y(extremes.min.point.price)}
+                  r={3.5}
+                  fill={DOWN_COLOR}
+                />
+              </>
+            )}
+
+            {crosshairX !== null && (
+              <>
+                <Line x1={crosshairX} x2={crosshairX} y1={0} y2={height} stroke="#9CA3AF" strokeWidth={1} strokeDasharray="4 3" />
+                {activePoint && (
+                  <Circle cx={crosshairX} cy={y(activePoint.price)} r={4} fill="#FFFFFF" stroke={LINE_COLOR} strokeWidth={2} />
+                )}
+              </>
+            )}
+          </Svg>
+        )}
+
+        {width > 0 && hasVolume && (
+          <Svg width={width} height={VOLUME_HEIGHT} style={styles.volume}>
+            {candles.map((candle, index) => {
+              const barHeight = maxVolume > 0 ? ((candle.volume ?? 0) / maxVolume) * VOLUME_HEIGHT : 0;
+              const barWidth = Math.max(1, slot * 0.6);
+              return (
+                <Rect
+                  key={candle.start}
+                  x={candleX(index) - barWidth / 2}
+                  y={VOLUME_HEIGHT - barHeight}
+                  width={barWidth}
+                  height={barHeight}
+                  fill={candle.close >= candle.open ? UP_COLOR : DOWN_COLOR}
+                  opacity={mode === 'candles' && activeIndex !== null && activeIndex !== index ? 0.3 : 0.6}
+                />
+              );
+            })}
+          </Svg>
+        )}
+      </View>
+
+      {extremes && (
+        <View style={styles.extremes}>
+          <Text style={styles.extremeText}>
+            <Text style={{ color: UP_COLOR }}>● </Text>
+            High {formatPrice(extremes.max.point.price)}
+          </Text>
+          <Text style={styles.extremeText}>
+            <Text style={{ color: DOWN_COLOR }}>● </Text>
+            Low {formatPrice(extremes.min.point.price)}
+          </Text>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#FFFFFF',
+  },
+  emptyContainer: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 40,
+    alignItems: 'center',
+    justifyContent: 'center',
+    minHeight: 200,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#9CA3AF',
+  },
+  toolbar: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  readout: {
+    flex: 1,
+    marginRight: 8,
+  },
+  readoutValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#11181C',
+  },
+  readoutTime: {
+    fontSize: 12,
+    color: '#687076',
+    marginTop: 2,
+  },
+  modeSelector: {
+    flexDirection: 'row',
+    backgroundColor: '#F3F4F6',
+    borderRadius: 8,
+    padding: 2,
+  },
+  modeButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 6,
+  },
+  modeButtonActive: {
+    backgroundColor: '#FFFFFF',
+  },
+  modeButtonText: {
+    fontSize: 12,
+    color: '#687076',
+  },
+  modeButtonTextActive: {
+    color: '#0a7ea4',
+    fontWeight: '600',
+  },
+  volume: {
+    marginTop: 4,
+  },
+  extremes: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 8,
+  },
+  extremeText: {
+    fontSize: 12,
+    color: '#687076',
+  },
+});
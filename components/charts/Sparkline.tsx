@@ -0,0 +1,47 @@
+// mobile/components/charts/Sparkline.tsx
+/**
+ * Sparkline Component
+ *
+ * A tiny line of recent prices for list rows, green when the price ended
+ * up and red when it ended down
+ */
+
+import React from 'react';
+import { View } from 'react-native';
+import Svg, { Path } from 'react-native-svg';
+import { buildSparklinePath } from '@/utils/priceCharts';
+
+interface SparklineProps {
+  values: number[];
+  width?: number;
+  height?: number;
+}
+
+export default function Sparkline({ values, width = 64, height = 24 }: SparklineProps) {
+  if (values.length < 2) {
+    return <View style={{ width, height }} />;
+  }
+
+  const isUp = values[values.length - 1] >= values[0];
+  // Inset by the stroke so the line is not clipped at its highest and lowest
+  const inset = 1;
+
+  return (
+    <View
+      style={{ width, height }}
+      accessible={true}
+      accessibilityRole="image"
+      accessibilityLabel={`Recent price trend ${isUp ? 'up' : 'down'}`}
+    >
+      <Svg width={width} height={height}>
+        <Path
+          d={buildSparklinePath(values, width, height - inset * 2)}
+          transform={`translate(0, ${inset})`}
+          stroke={isUp ? '#10B981' : '#EF4444'}
+          strokeWidth={1.5}
+          fill="none"
+        />
+      </Svg>
+    </View>
+  );
+}
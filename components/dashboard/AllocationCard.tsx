@@ -9,6 +9,7 @@ import React from 'react';
 import { View, Text, StyleSheet, Dimensions } from 'react-native';
 import { PieChart } from 'react-native-chart-kit';
 import { Colors, Typography, Spacing, BorderRadius } from '../../constants/theme';
+import { ASSET_TYPE_INFO, isAssetType } from '../../utils/assetTypes';
 
 const screenWidth = Dimensions.get('window').width;
 
@@ -26,7 +27,8 @@ export interface AllocationCardProps {
 /**
  * Maps asset type to predefined color from theme
  * stock → #1E3A8A, crypto → #059669, real_estate → #F59E0B,
- * fixed_income → #8B5CF6, commodity → #EC4899
+ * fixed_income → #8B5CF6, commodity → #EC4899, etf → #0D9488,
+ * mutual_fund → #6366F1, bond → #7C3AED, option → #B45309, forex → #0EA5E9
  */
 export function getAssetTypeColor(type: string): string {
   const colorMap: Record<string, string> = {
@@ -35,14 +37,21 @@ export function getAssetTypeColor(type: string): string {
     real_estate: Colors.light.allocationRealEstate,
     fixed_income: Colors.light.allocationFixedIncome,
     commodity: Colors.light.allocationCommodities,
+    etf: Colors.light.allocationEtfs,
+    mutual_fund: Colors.light.allocationMutualFunds,
+    bond: Colors.light.allocationBonds,
+    option: Colors.light.allocationOptions,
+    forex: Colors.light.allocationForex,
   };
   return colorMap[type.toLowerCase()] || Colors.light.textSecondary;
 }
 
 /**
- * Formats asset type name for display (replaces underscores with spaces, capitalizes)
+ * Formats asset type name for display; unknown types have underscores
+ * replaced with spaces and each word capitalized
  */
 function formatAssetTypeName(type: string): string {
+  if (isAssetType(type)) return ASSET_TYPE_INFO[type].groupLabel;
   return type
     .replace(/_/g, ' ')
     .split(' ')
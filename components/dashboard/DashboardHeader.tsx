@@ -10,12 +10,17 @@ import { View, Text, StyleSheet } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { Ionicons } from '@expo/vector-icons';
 import { Colors, Typography, Spacing } from '../../constants/theme';
+import { DEFAULT_CURRENCY } from '../../utils/currency';
 
 export interface DashboardHeaderProps {
   userName: string;
   totalValue: number;
+  /** Liabilities already deducted from totalValue, shown as net worth when above zero */
+  debt?: number;
   dailyChange: number;
   dailyChangePercent: number;
+  /** Currency the values are in, defaults to USD */
+  currency?: string;
 }
 
 /**
@@ -35,12 +40,12 @@ export function getGreeting(hour: number = new Date().getHours()): string {
 }
 
 /**
- * Formats currency value with $ symbol and thousand separators
+ * Formats currency value with its symbol and thousand separators
  */
-export function formatCurrency(value: number): string {
+export function formatCurrency(value: number, currency: string = DEFAULT_CURRENCY): string {
   return new Intl.NumberFormat('en-US', {
     style: 'currency',
-    currency: 'USD',
+    currency,
     minimumFractionDigits: 2,
     maximumFractionDigits: 2,
   }).format(value);
@@ -57,8 +62,10 @@ export function getChangeColor(value: number): string {
 export function DashboardHeader({
   userName,
   totalValue,
+  debt = 0,
   dailyChange,
   dailyChangePercent,
+  currency = DEFAULT_CURRENCY,
 }: DashboardHeaderProps) {
   const greeting = getGreeting();
   const changeColor = getChangeColor(dailyChange);
@@ -66,6 +73,10 @@ export function DashboardHeader({
   const trendIcon = isPositive ? 'trending-up' : 'trending-down';
   const changeSign = isPositive ? '+' : '';
   const trendDescription = isPositive ? 'up' : 'down';
+  const valueLabel = debt > 0 ? 'Net Worth' : 'Total Portfolio Value';
+  const valueDescription = debt > 0
+    ? `Net worth ${formatCurrency(totalValue, currency)}, after ${formatCurrency(debt, currency)} of liabilities`
+    : `Total portfolio value ${formatCurrency(totalValue, currency)}`;
 
   return (
     <LinearGradient
@@ -73,7 +84,7 @@ export function DashboardHeader({
       style={styles.container}
       accessible={true}
       accessibilityRole="header"
-      accessibilityLabel={`Portfolio summary. ${greeting} ${userName}. Total portfolio value ${formatCurrency(totalValue)}. Today's change ${changeSign}${formatCurrency(Math.abs(dailyChange))}, ${trendDescription} ${Math.abs(dailyChangePercent).toFixed(2)} percent`}
+      accessibilityLabel={`Portfolio summary. ${greeting} ${userName}. ${valueDescription}. Today's change ${changeSign}${formatCurrency(Math.abs(dailyChange), currency)}, ${trendDescription} ${Math.abs(dailyChangePercent).toFixed(2)} percent`}
     >
       <View 
         style={styles.greetingContainer}
@@ -91,18 +102,23 @@ export function DashboardHeader({
       <View 
         style={styles.valueContainer}
         accessible={true}
-        accessibilityLabel={`Total portfolio value ${formatCurrency(totalValue)}`}
+        accessibilityLabel={valueDescription}
       >
-        <Text style={styles.valueLabel}>Total Portfolio Value</Text>
+        <Text style={styles.valueLabel}>{valueLabel}</Text>
         <Text style={styles.valueAmount}>
-          {formatCurrency(totalValue)}
+          {formatCurrency(totalValue, currency)}
         </Text>
+        {debt > 0 && (
+          <Text style={styles.debtText}>
+            After {formatCurrency(debt, currency)} of liabilities
+          </Text>
+        )}
       </View>
 
       <View 
         style={styles.changeContainer} 
         accessible={true}
-        accessibilityLabel={`Daily change ${changeSign}${formatCurrency(Math.abs(dailyChange))}, ${trendDescription} ${Math.abs(dailyChangePercent).toFixed(2)} percent`}
+        accessibilityLabel={`Daily change ${changeSign}${formatCurrency(Math.abs(dailyChange), currency)}, ${trendDescription} ${Math.abs(dailyChangePercent).toFixed(2)} percent`}
         accessibilityHint="Shows today's portfolio value change"
       >
         <Ionicons 
@@ -112,7 +128,7 @@ export function DashboardHeader({
           accessibilityElementsHidden={true}
         />
         <Text style={[styles.changeAmount, { color: changeColor }]}>
-          {changeSign}{formatCurrency(Math.abs(dailyChange))}
+          {changeSign}{formatCurrency(Math.abs(dailyChange), currency)}
         </Text>
         <Text style={[styles.changePercent, { color: changeColor }]}>
           ({changeSign}{dailyChangePercent.toFixed(2)}%)
@@ -156,6 +172,11 @@ const styles = StyleSheet.create({
     fontWeight: Typography.fontWeights.bold,
     color: Colors.light.dashboardHeaderText,
   },
+  debtText: {
+    fontSize: Typography.fontSizes.sm,
+    color: Colors.light.dashboardHeaderSubtext,
+    marginTop: Spacing.xs,
+  },
   changeContainer: {
     flexDirection: 'row',
     alignItems: 'center',
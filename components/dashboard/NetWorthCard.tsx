@@ -0,0 +1,161 @@
+/**
+ * NetWorthCard Component
+ *
+ * White card showing net worth as holdings less liabilities, with the
+ * balance owed per kind of liability and a link to manage them.
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors, Typography, Spacing, BorderRadius } from '../../constants/theme';
+import { DEFAULT_CURRENCY } from '../../utils/currency';
+import { LIABILITY_TYPES, LIABILITY_TYPE_LABELS, type NetWorth } from '../../utils/liabilities';
+import { formatCurrency } from './DashboardHeader';
+
+export interface NetWorthCardProps {
+  netWorth: NetWorth;
+  /** Currency the values are in, defaults to USD */
+  currency?: string;
+  onManage: () => void;
+}
+
+/**
+ * Lists the kinds of liability with a balance, largest first
+ */
+export function getLiabilityBreakdown(netWorth: NetWorth): { label: string; amount: number }[] {
+  return LIABILITY_TYPES
+    .filter((type) => netWorth.byType[type] > 0)
+    .map((type) => ({ label: LIABILITY_TYPE_LABELS[type], amount: netWorth.byType[type] }))
+    .sort((a, b) => b.amount - a.amount);
+}
+
+/**
+ * Share of the holdings owed as liabilities, as a percentage
+ * Null when there are no holdings to compare against.
+ */
+export function getDebtRatio(netWorth: NetWorth): number | null {
+  return netWorth.totalAssets > 0 ? (netWorth.totalLiabilities / netWorth.totalAssets) * 100 : null;
+}
+
+export function NetWorthCard({
+  netWorth,
+  currency = DEFAULT_CURRENCY,
+  onManage,
+}: NetWorthCardProps) {
+  const breakdown = getLiabilityBreakdown(netWorth);
+  const debtRatio = getDebtRatio(netWorth);
+
+  return (
+    <View style={styles.container}>
+      <View
+        style={styles.header}
+        accessible={true}
+        accessibilityLabel={`Net worth ${formatCurrency(netWorth.netWorth, currency)}. Holdings ${formatCurrency(netWorth.totalAssets, currency)}, liabilities ${formatCurrency(netWorth.totalLiabilities, currency)}`}
+      >
+        <Text style={styles.title}>Net Worth</Text>
+        <Text style={[styles.netWorth, netWorth.netWorth < 0 && { color: Colors.light.error }]}>
+          {formatCurrency(netWorth.netWorth, currency)}
+        </Text>
+      </View>
+
+      <View style={styles.row}>
+        <Text style={styles.rowLabel}>Holdings</Text>
+        <Text style={styles.rowValue}>{formatCurrency(netWorth.totalAssets, currency)}</Text>
+      </View>
+      <View style={styles.row}>
+        <Text style={styles.rowLabel}>Liabilities</Text>
+        <Text style={styles.rowValue}>
+          {netWorth.totalLiabilities > 0 ? '−' : ''}{formatCurrency(netWorth.totalLiabilities, currency)}
+        </Text>
+      </View>
+      {breakdown.map((item) => (
+        <View key={item.label} style={styles.row}>
+          <Text style={styles.subLabel}>{item.label}</Text>
+          <Text style={styles.subValue}>{formatCurrency(item.amount, currency)}</Text>
+        </View>
+      ))}
+      {debtRatio !== null && netWorth.totalLiabilities > 0 && (
+        <Text style={styles.ratioText}>{debtRatio.toFixed(1)}% of holdings owed</Text>
+      )}
+
+      <TouchableOpacity
+        style={styles.manageButton}
+        onPress={onManage}
+        accessibilityRole="button"
+        accessibilityLabel="Manage liabilities"
+      >
+        <Text style={styles.manageText}>
+          {netWorth.totalLiabilities > 0 ? 'Manage liabilities' : 'Add a loan or mortgage'}
+        </Text>
+        <Ionicons name="chevron-forward" size={16} color={Colors.light.tint} />
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: Colors.light.card,
+    borderRadius: BorderRadius.xl,
+    padding: Spacing.base,
+    marginHorizontal: Spacing.base,
+    marginTop: Spacing.base,
+  },
+  header: {
+    marginBottom: Spacing.md,
+  },
+  title: {
+    fontSize: Typography.fontSizes.lg,
+    fontWeight: Typography.fontWeights.semibold,
+    color: Colors.light.text,
+    marginBottom: Spacing.xs,
+  },
+  netWorth: {
+    fontSize: Typography.fontSizes['2xl'],
+    fontWeight: Typography.fontWeights.bold,
+    color: Colors.light.text,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: Spacing.xs,
+  },
+  rowLabel: {
+    fontSize: Typography.fontSizes.md,
+    color: Colors.light.text,
+  },
+  rowValue: {
+    fontSize: Typography.fontSizes.md,
+    fontWeight: Typography.fontWeights.semibold,
+    color: Colors.light.text,
+  },
+  subLabel: {
+    fontSize: Typography.fontSizes.sm,
+    color: Colors.light.textSecondary,
+    paddingLeft: Spacing.md,
+  },
+  subValue: {
+    fontSize: Typography.fontSizes.sm,
+    color: Colors.light.textSecondary,
+  },
+  ratioText: {
+    fontSize: Typography.fontSizes.sm,
+    color: Colors.light.textTertiary,
+    marginTop: Spacing.xs,
+  },
+  manageButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    marginTop: Spacing.md,
+    gap: Spacing.xs,
+  },
+  manageText: {
+    fontSize: Typography.fontSizes.md,
+    fontWeight: Typography.fontWeights.medium,
+    color: Colors.light.tint,
+  },
+});
+
+export default NetWorthCard;
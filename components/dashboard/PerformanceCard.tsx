@@ -9,22 +9,43 @@ import React from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, Dimensions } from 'react-native';
 import { LineChart } from 'react-native-chart-kit';
 import { Colors, Typography, Spacing, BorderRadius } from '../../constants/theme';
+import { getBenchmarkColor, getBenchmarkName } from '../../utils/benchmarks';
+import { downsampleLine } from '../../utils/priceCharts';
 
 const screenWidth = Dimensions.get('window').width;
 
+/** Points drawn across the chart; more crowd the dots together */
+const MAX_CHART_POINTS = 30;
+
+/** Date labels along the bottom */
+const MAX_LABELS = 6;
+
 export type TimePeriod = '1D' | '1W' | '1M' | '3M' | '1Y' | 'ALL';
 
 const TIME_PERIODS: TimePeriod[] = ['1D', '1W', '1M', '3M', '1Y', 'ALL'];
 
+// Net worth line, drawn apart from the benchmark colors
+const NET_WORTH_COLOR = '14, 165, 233';
+
 export interface PerformanceDataPoint {
   timestamp: string;
   value: number;
 }
 
+export interface PerformanceBenchmark {
+  symbol: string;
+  /** Rebased onto the portfolio series, one point per data point */
+  data: PerformanceDataPoint[];
+  alpha: number | null;
+}
+
 export interface PerformanceCardProps {
   data: PerformanceDataPoint[];
   selectedPeriod: TimePeriod;
   onPeriodChange: (period: TimePeriod) => void;
+  benchmarks?: PerformanceBenchmark[];
+  /** Portfolio value less liabilities, one point per data point */
+  netWorth?: PerformanceDataPoint[];
 }
 
 /**
@@ -40,6 +61,37 @@ export function getTrendColor(data: PerformanceDataPoint[]): string {
   return endValue >= startValue ? Colors.light.success : Colors.light.error;
 }
 
+/**
+ * Formats alpha as a signed percentage, or a dash when it is unknown
+ */
+export function formatAlpha(alpha: number | null): string {
+  if (alpha === null || !Number.isFinite(alpha)) return '—';
+  const percent = alpha * 100;
+  return `${percent >= 0 ? '+' : ''}${percent.toFixed(2)}%`;
+}
+
+/**
+ * Change of a series from its first to its last point, as a fraction
+ * Null when the first value is zero or there are fewer than two points.
+ */
+export function getSeriesChange(data: PerformanceDataPoint[]): number | null {
+  if (data.length < 2 || data[0].value === 0) return null;
+  return (data[data.length - 1].value - data[0].value) / Math.abs(data[0].value);
+}
+
+/**
+ * Indexes of the points drawn for a series, thinned over the whole period
+ * so its highs and lows are kept
+ */
+export function getDisplayIndices(
+  data: PerformanceDataPoint[],
+  maxPoints: number = MAX_CHART_POINTS
+): number[] {
+  const series = data.map((point) => ({ timestamp: point.timestamp, price: point.value }));
+  const positions = new Map(series.map((point, index) => [point, index]));
+  return downsampleLine(series, maxPoints).map((point) => positions.get(point) as number);
+}
+
 /**
  * Formats date labels for x-axis based on timestamp
  */
@@ -53,13 +105,22 @@ export function PerformanceCard({
   data,
   selectedPeriod,
   onPeriodChange,
+  benchmarks = [],
+  netWorth = [],
 }: PerformanceCardProps) {
   const trendColor = getTrendColor(data);
   const hasData = data && data.length > 0;
 
-  // Prepare chart data - limit to reasonable number of points for display
-  const displayData = hasData ? data.slice(-7) : [];
-  const chartLabels = displayData.map((point) => formatDateLabel(point.timestamp));
+  // Thinned over the whole period, with a label on every few points
+  const shown = hasData ? getDisplayIndices(data) : [];
+  const displayData = shown.map((index) => data[index]);
+  const labelEvery = Math.max(Math.ceil(shown.length / MAX_LABELS), 1);
+  // The net worth series shares the portfolio's timestamps, so it is thinned the same way
+  const showNetWorth = hasData && netWorth.length === data.length;
+  const netWorthChange = showNetWorth ? getSeriesChange(netWorth) : null;
+  const chartLabels = displayData.map((point, position) =>
+    position % labelEvery === 0 ? formatDateLabel(point.timestamp) : ''
+  );
   const chartValues = displayData.map((point) => point.value);
 
   const chartData = {
@@ -73,6 +134,24 @@ export function PerformanceCard({
         },
         strokeWidth: 2,
       },
+      // Benchmarks share the portfolio's timestamps, so they are thinned the same way
+      ...benchmarks
+        .map((benchmark, index) => ({ benchmark, color: getBenchmarkColor(index) }))
+        .filter(({ benchmark }) => benchmark.data.length === data.length)
+        .map(({ benchmark, color }) => ({
+          data: shown.map((index) => benchmark.data[index].value),
+          color: (opacity = 1) => `rgba(${color}, ${opacity})`,
+          strokeWidth: 1.5,
+          withDots: false,
+        })),
+      ...(showNetWorth
+        ? [{
+          data: shown.map((index) => netWorth[index].value),
+          color: (opacity = 1) => `rgba(${NET_WORTH_COLOR}, ${opacity})`,
+          strokeWidth: 2,
+          withDots: false,
+        }]
+        : []),
     ],
   };
 
@@ -174,6 +253,56 @@ export function PerformanceCard({
             withHorizontalLabels={true}
             fromZero={false}
           />
+          {(benchmarks.length > 0 || showNetWorth) && (
+            <View style={styles.legend}>
+              {showNetWorth && (
+                <View
+                  style={styles.legendItem}
+                  accessible={true}
+                  accessibilityLabel={`Net worth, change ${formatAlpha(netWorthChange)}`}
+                >
+                  <View style={[styles.legendSwatch, { backgroundColor: `rgb(${NET_WORTH_COLOR})` }]} />
+                  <Text style={styles.legendLabel}>Net worth</Text>
+                  <Text
+                    style={[
+                      styles.legendAlpha,
+                      netWorthChange !== null && {
+                        color: netWorthChange >= 0 ? Colors.light.success : Colors.light.error,
+                      },
+                    ]}
+                  >
+                    {formatAlpha(netWorthChange)}
+                  </Text>
+                </View>
+              )}
+              {benchmarks.map((benchmark, index) => (
+                <View
+                  key={benchmark.symbol}
+                  style={styles.legendItem}
+                  accessible={true}
+                  accessibilityLabel={`${getBenchmarkName(benchmark.symbol)} benchmark, alpha ${formatAlpha(benchmark.alpha)}`}
+                >
+                  <View
+                    style={[
+                      styles.legendSwatch,
+                      { backgroundColor: `rgb(${getBenchmarkColor(index)})` },
+                    ]}
+                  />
+                  <Text style={styles.legendLabel}>vs {getBenchmarkName(benchmark.symbol)}</Text>
+                  <Text
+                    style={[
+                      styles.legendAlpha,
+                      benchmark.alpha !== null && {
+                        color: benchmark.alpha >= 0 ? Colors.light.success : Colors.light.error,
+                      },
+                    ]}
+                  >
+                    {formatAlpha(benchmark.alpha)}
+                  </Text>
+                </View>
+              ))}
+            </View>
+          )}
         </View>
       ) : (
         <View 
@@ -233,6 +362,30 @@ const styles = StyleSheet.create({
     borderRadius: BorderRadius.xl,
     marginLeft: -Spacing.base,
   },
+  legend: {
+    marginTop: Spacing.xs,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: Spacing.xs,
+  },
+  legendSwatch: {
+    width: 12,
+    height: 3,
+    borderRadius: 2,
+    marginRight: Spacing.sm,
+  },
+  legendLabel: {
+    flex: 1,
+    fontSize: Typography.fontSizes.sm,
+    color: Colors.light.textSecondary,
+  },
+  legendAlpha: {
+    fontSize: Typography.fontSizes.sm,
+    fontWeight: Typography.fontWeights.semibold,
+    color: Colors.light.textTertiary,
+  },
   emptyContainer: {
     height: 180,
     alignItems: 'center',
@@ -1,7 +1,9 @@
 /**
  * StatsCard Component
  * 
- * Colored card showing total invested or risk score.
+ * Colored card showing total invested, risk score, daily change, all-time
+ * return, realized/unrealized gains, time/money-weighted returns, or
+ * received/projected income.
  * Requirements: 5.1, 5.2, 5.3, 5.4, 5.5, 5.6, 5.7, 5.8, 5.9, 5.10, 5.11
  */
 
@@ -9,24 +11,60 @@ import React from 'react';
 import { View, Text, StyleSheet } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { Colors, Typography, Spacing, BorderRadius } from '../../constants/theme';
+import { DEFAULT_CURRENCY, getCurrencySymbol } from '../../utils/currency';
 
-export type StatsType = 'invested' | 'risk';
+export type StatsType =
+  | 'invested'
+  | 'risk'
+  | 'realized'
+  | 'unrealized'
+  | 'daily'
+  | 'return'
+  | 'twr'
+  | 'xirr'
+  | 'income'
+  | 'projected';
 
 export interface StatsCardProps {
   type: StatsType;
   value: number | string;
   subtitle: string;
+  /** Currency of monetary values, defaults to USD */
+  currency?: string;
 }
 
 /**
  * Returns background color based on stats type
  * Total Invested: light blue (#DBEAFE) per requirement 5.2
  * Risk Score: light yellow (#FEF3C7) per requirement 5.7
+ * Realized Gain: light green, Unrealized Gain: light purple
+ * Today's Change: light sky blue, All-Time Return: light pink
+ * Time-Weighted: light teal, Money-Weighted: light orange
+ * Income Received: light lime, Projected Income: light indigo
  */
 export function getStatsBackgroundColor(type: StatsType): string {
-  return type === 'invested' 
-    ? Colors.light.cardTotalInvested 
-    : Colors.light.cardRiskScore;
+  switch (type) {
+    case 'invested':
+      return Colors.light.cardTotalInvested;
+    case 'realized':
+      return Colors.light.cardRealizedGain;
+    case 'unrealized':
+      return Colors.light.cardUnrealizedGain;
+    case 'daily':
+      return Colors.light.cardDailyChange;
+    case 'return':
+      return Colors.light.cardAllTimeReturn;
+    case 'twr':
+      return Colors.light.cardTimeWeighted;
+    case 'xirr':
+      return Colors.light.cardMoneyWeighted;
+    case 'income':
+      return Colors.light.cardIncome;
+    case 'projected':
+      return Colors.light.cardProjectedIncome;
+    default:
+      return Colors.light.cardRiskScore;
+  }
 }
 
 /**
@@ -34,7 +72,28 @@ export function getStatsBackgroundColor(type: StatsType): string {
  * Per requirements 5.3 and 5.8
  */
 export function getStatsLabel(type: StatsType): string {
-  return type === 'invested' ? 'Total Invested' : 'Risk Score';
+  switch (type) {
+    case 'invested':
+      return 'Total Invested';
+    case 'realized':
+      return 'Realized Gain';
+    case 'unrealized':
+      return 'Unrealized Gain';
+    case 'daily':
+      return "Today's Change";
+    case 'return':
+      return 'All-Time Return';
+    case 'twr':
+      return 'Time-Weighted';
+    case 'xirr':
+      return 'Money-Weighted';
+    case 'income':
+      return 'Income Received';
+    case 'projected':
+      return 'Projected Income';
+    default:
+      return 'Risk Score';
+  }
 }
 
 /**
@@ -42,18 +101,60 @@ export function getStatsLabel(type: StatsType): string {
  * Dollar sign for invested (5.6), warning for risk (5.11)
  */
 export function getStatsIconName(type: StatsType): keyof typeof Ionicons.glyphMap {
-  return type === 'invested' ? 'cash-outline' : 'warning-outline';
+  switch (type) {
+    case 'invested':
+      return 'cash-outline';
+    case 'realized':
+      return 'checkmark-done-outline';
+    case 'unrealized':
+      return 'hourglass-outline';
+    case 'daily':
+      return 'today-outline';
+    case 'return':
+      return 'trending-up-outline';
+    case 'twr':
+      return 'timer-outline';
+    case 'xirr':
+      return 'cash-outline';
+    case 'income':
+      return 'wallet-outline';
+    case 'projected':
+      return 'calendar-outline';
+    default:
+      return 'warning-outline';
+  }
 }
 
 /**
  * Formats value for display based on type
- * Invested: currency format
+ * Invested/Income/Projected: currency format
+ * Realized/Unrealized/Daily/Return: signed currency format
+ * TWR/XIRR: signed percentage, given as a fraction
  * Risk: X/10 format per requirement 5.9
  */
-export function formatStatsValue(type: StatsType, value: number | string): string {
-  if (type === 'invested') {
+export function formatStatsValue(
+  type: StatsType,
+  value: number | string,
+  currency: string = DEFAULT_CURRENCY
+): string {
+  const symbol = getCurrencySymbol(currency);
+  if (type === 'invested' || type === 'income' || type === 'projected') {
+    if (typeof value === 'number') {
+      return `${symbol}${value.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
+    }
+    return String(value);
+  }
+  if (type === 'realized' || type === 'unrealized' || type === 'daily' || type === 'return') {
+    if (typeof value === 'number') {
+      const sign = value < 0 ? '-' : '+';
+      return `${sign}${symbol}${Math.abs(value).toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
+    }
+    return String(value);
+  }
+  if (type === 'twr' || type === 'xirr') {
     if (typeof value === 'number') {
-      return `$${value.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
+      const percent = value * 100;
+      return `${percent >= 0 ? '+' : ''}${percent.toFixed(2)}%`;
     }
     return String(value);
   }
@@ -78,20 +179,31 @@ export function StatsCard({
   type,
   value,
   subtitle,
+  currency = DEFAULT_CURRENCY,
 }: StatsCardProps) {
   const backgroundColor = getStatsBackgroundColor(type);
   const label = getStatsLabel(type);
   const iconName = getStatsIconName(type);
-  const formattedValue = formatStatsValue(type, value);
+  const formattedValue = formatStatsValue(type, value, currency);
   
   // For risk type, use getRiskLevelText if subtitle not provided
   const displaySubtitle = type === 'risk' && typeof value === 'number' 
     ? getRiskLevelText(value) 
     : subtitle;
 
-  const accessibilityHintText = type === 'invested' 
-    ? 'Total amount you have invested in your portfolio'
-    : 'Your portfolio risk assessment score';
+  const accessibilityHints: Record<StatsType, string> = {
+    invested: 'Total amount you have invested in your portfolio',
+    risk: 'Your portfolio risk assessment score',
+    realized: 'Gains locked in by selling assets',
+    unrealized: 'Gains on assets you still hold',
+    daily: 'Change in portfolio value since the previous close',
+    return: 'Total gain since you started investing, including sales',
+    twr: 'Return of your investments, unaffected by when you added or withdrew money',
+    xirr: 'Annualized return on the money you put in, accounting for its timing',
+    income: 'Dividends, interest, rent and rewards paid by your assets',
+    projected: 'Income expected from interest-paying assets',
+  };
+  const accessibilityHintText = accessibilityHints[type];
 
   return (
     <View
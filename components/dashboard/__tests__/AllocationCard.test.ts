@@ -143,6 +143,11 @@ describe('AllocationCard Property Tests', () => {
    * - real_estate → #F59E0B
    * - fixed_income → #8B5CF6
    * - commodity → #EC4899
+   * - etf → #0D9488
+   * - mutual_fund → #6366F1
+   * - bond → #7C3AED
+   * - option → #B45309
+   * - forex → #0EA5E9
    */
   it('should map asset types to correct predefined colors', () => {
     // Define expected color mapping
@@ -152,11 +157,16 @@ describe('AllocationCard Property Tests', () => {
       real_estate: '#F59E0B',
       fixed_income: '#8B5CF6',
       commodity: '#EC4899',
+      etf: '#0D9488',
+      mutual_fund: '#6366F1',
+      bond: '#7C3AED',
+      option: '#B45309',
+      forex: '#0EA5E9',
     };
 
     fc.assert(
       fc.property(
-        fc.constantFrom('stock', 'crypto', 'real_estate', 'fixed_income', 'commodity'),
+        fc.constantFrom(...Object.keys(expectedColorMap)),
         (assetType) => {
           // Get color from the function
           const actualColor = getAssetTypeColor(assetType);
@@ -27,7 +27,14 @@ jest.mock('react-native-chart-kit', () => ({
 }));
 
 import * as fc from 'fast-check';
-import { TimePeriod, PerformanceDataPoint, getTrendColor } from '../PerformanceCard';
+import {
+  TimePeriod,
+  PerformanceDataPoint,
+  getTrendColor,
+  formatAlpha,
+  getSeriesChange,
+  getDisplayIndices,
+} from '../PerformanceCard';
 
 // Mock Colors from theme
 const Colors = {
@@ -183,4 +190,64 @@ describe('PerformanceCard Property Tests', () => {
     ];
     expect(getTrendColor(negativeData)).toBe(Colors.light.error);
   });
+
+  /**
+   * Property: alpha is shown with its sign
+   * For any finite alpha, the label starts with '+' exactly when alpha is
+   * non-negative and ends with a percent sign.
+   */
+  it('should format alpha with an explicit sign', () => {
+    fc.assert(
+      fc.property(fc.double({ min: -10, max: 10, noNaN: true }), (alpha) => {
+        const label = formatAlpha(alpha);
+        return label.startsWith('+') === (alpha * 100 >= 0) && label.endsWith('%');
+      }),
+      { numRuns: 100 }
+    );
+    expect(formatAlpha(0.0525)).toBe('+5.25%');
+    expect(formatAlpha(null)).toBe('—');
+  });
+
+  it('should measure the change of a series from its first point', () => {
+    expect(getSeriesChange([
+      { timestamp: '2024-01-01', value: 100 },
+      { timestamp: '2024-01-02', value: 125 },
+    ])).toBeCloseTo(0.25, 10);
+    expect(getSeriesChange([
+      { timestamp: '2024-01-01', value: -200 },
+      { timestamp: '2024-01-02', value: -100 },
+    ])).toBeCloseTo(0.5, 10);
+    expect(getSeriesChange([{ timestamp: '2024-01-01', value: 100 }])).toBeNull();
+    expect(getSeriesChange([
+      { timestamp: '2024-01-01', value: 0 },
+      { timestamp: '2024-01-02', value: 10 },
+    ])).toBeNull();
+  });
+
+  /**
+   * Property: the chart spans the whole period
+   * For any series, the points drawn are in order, include the first and
+   * last point and never exceed the chart's limit.
+   */
+  it('should thin a series over its whole period', () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.double({ min: 1, max: 1000000, noNaN: true }), { minLength: 1, maxLength: 400 }),
+        (values) => {
+          const data = values.map((value, index) => ({
+            timestamp: new Date(Date.UTC(2020, 0, 1 + index)).toISOString(),
+            value,
+          }));
+          const shown = getDisplayIndices(data);
+          return (
+            shown.length <= 30 &&
+            shown[0] === 0 &&
+            shown[shown.length - 1] === data.length - 1 &&
+            shown.every((index, position) => position === 0 || index > shown[position - 1])
+          );
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
 });
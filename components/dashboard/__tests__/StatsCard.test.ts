@@ -23,7 +23,7 @@ jest.mock('@expo/vector-icons', () => ({
 }));
 
 import * as fc from 'fast-check';
-import { formatStatsValue, getRiskLevelText } from '../StatsCard';
+import { formatStatsValue, getRiskLevelText, getStatsLabel } from '../StatsCard';
 
 describe('StatsCard Property Tests', () => {
   /**
@@ -92,4 +92,25 @@ describe('StatsCard Property Tests', () => {
     expect(formatStatsValue('risk', 5)).toBe('5/10');
     expect(formatStatsValue('risk', 10)).toBe('10/10');
   });
+
+  it('should format realized and unrealized gains with a sign', () => {
+    expect(formatStatsValue('realized', 1234)).toBe('+$1,234');
+    expect(formatStatsValue('unrealized', -56)).toBe('-$56');
+    expect(formatStatsValue('unrealized', 0)).toBe('+$0');
+    expect(formatStatsValue('daily', -12.4)).toBe('-$12');
+    expect(formatStatsValue('return', 5000)).toBe('+$5,000');
+  });
+
+  it('should format time- and money-weighted returns as signed percentages', () => {
+    expect(formatStatsValue('twr', 0.1234)).toBe('+12.34%');
+    expect(formatStatsValue('xirr', -0.05)).toBe('-5.00%');
+    expect(formatStatsValue('twr', '—')).toBe('—');
+  });
+
+  it('should format received and projected income as currency', () => {
+    expect(formatStatsValue('income', 1234.4)).toBe('$1,234');
+    expect(formatStatsValue('projected', 50, 'EUR')).toBe('€50');
+    expect(getStatsLabel('income')).toBe('Income Received');
+    expect(getStatsLabel('projected')).toBe('Projected Income');
+  });
 });
@@ -7,8 +7,11 @@
 export { DashboardHeader, getGreeting, formatCurrency, getChangeColor } from './DashboardHeader';
 export type { DashboardHeaderProps } from './DashboardHeader';
 
-export { PerformanceCard, getTrendColor } from './PerformanceCard';
-export type { PerformanceCardProps, PerformanceDataPoint, TimePeriod } from './PerformanceCard';
+export { PerformanceCard, getTrendColor, formatAlpha, getSeriesChange } from './PerformanceCard';
+export type { PerformanceCardProps, PerformanceDataPoint, PerformanceBenchmark, TimePeriod } from './PerformanceCard';
+
+export { NetWorthCard, getLiabilityBreakdown, getDebtRatio } from './NetWorthCard';
+export type { NetWorthCardProps } from './NetWorthCard';
 
 export { AllocationCard, getAssetTypeColor } from './AllocationCard';
 export type { AllocationCardProps, AllocationItem } from './AllocationCard';
@@ -100,6 +100,14 @@ export const Colors = {
     cardWorstPerformer: '#FEE2E2',
     cardTotalInvested: '#DBEAFE',
     cardRiskScore: '#FEF3C7',
+    cardRealizedGain: '#D1FAE5',
+    cardUnrealizedGain: '#EDE9FE',
+    cardDailyChange: '#E0F2FE',
+    cardAllTimeReturn: '#FCE7F3',
+    cardTimeWeighted: '#CCFBF1',
+    cardMoneyWeighted: '#FFEDD5',
+    cardIncome: '#ECFCCB',
+    cardProjectedIncome: '#E0E7FF',
     
     // Allocation chart colors
     allocationStocks: '#1E3A8A',
@@ -107,6 +115,11 @@ export const Colors = {
     allocationRealEstate: '#F59E0B',
     allocationFixedIncome: '#8B5CF6',
     allocationCommodities: '#EC4899',
+    allocationEtfs: '#0D9488',
+    allocationMutualFunds: '#6366F1',
+    allocationBonds: '#7C3AED',
+    allocationOptions: '#B45309',
+    allocationForex: '#0EA5E9',
     
     // Tab bar colors
     tabBarActive: '#1E3A8A',
@@ -190,6 +203,14 @@ export const Colors = {
     cardWorstPerformer: '#FEE2E2',
     cardTotalInvested: '#DBEAFE',
     cardRiskScore: '#FEF3C7',
+    cardRealizedGain: '#D1FAE5',
+    cardUnrealizedGain: '#EDE9FE',
+    cardDailyChange: '#E0F2FE',
+    cardAllTimeReturn: '#FCE7F3',
+    cardTimeWeighted: '#CCFBF1',
+    cardMoneyWeighted: '#FFEDD5',
+    cardIncome: '#ECFCCB',
+    cardProjectedIncome: '#E0E7FF',
     
     // Allocation chart colors
     allocationStocks: '#1E3A8A',
@@ -197,6 +218,11 @@ export const Colors = {
     allocationRealEstate: '#F59E0B',
     allocationFixedIncome: '#8B5CF6',
     allocationCommodities: '#EC4899',
+    allocationEtfs: '#0D9488',
+    allocationMutualFunds: '#6366F1',
+    allocationBonds: '#7C3AED',
+    allocationOptions: '#B45309',
+    allocationForex: '#0EA5E9',
     
     // Tab bar colors
     tabBarActive: '#60A5FA',
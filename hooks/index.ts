@@ -17,4 +17,6 @@ export { useErrorHandler } from './useErrorHandler';
 export type { ErrorState, UseErrorHandlerOptions, UseErrorHandlerReturn } from './useErrorHandler';
 export { useOfflineStatus } from './useOfflineStatus';
 export { useSyncManager } from './useSyncManager';
+export { useCurrency } from './useCurrency';
+export { useAlertEngine } from './useAlertEngine';
 export type { SyncState, UseSyncManagerOptions, UseSyncManagerReturn } from './useSyncManager';
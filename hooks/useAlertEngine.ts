@@ -0,0 +1,222 @@
+/**
+ * Alert Engine Hook
+ *
+ * Runs the on-device alert engine while the app is open: loads the active
+ * price alerts and the daily closes their conditions look back over, checks
+ * them against realtime prices and shows a local notification when one
+ * fires. Portfolio alerts are checked whenever a price revalues one of the
+ * alerted portfolios' holdings. Firings are saved to the alert so the server does not fire a
+ * one-shot alert again, and pushes for the same firing are not shown twice.
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { AppState } from 'react-native';
+import { alertService, assetService, portfolioService, priceHistoryService } from '@/services/api';
+import {
+  getCachedAlerts,
+  getCachedAssets,
+  getCachedPortfolios,
+  getCachedSnapshots,
+  type Asset,
+  type PortfolioSnapshot,
+  type PriceAlert,
+} from '@/services/offlineStorage';
+import { alertNotificationLedger, scheduleLocalNotification } from '@/services/notifications';
+import { useAppSelector } from '@/store/hooks';
+import { createAlertEngine, toDailyCloses, type PriceTick } from '@/utils/alertEngine';
+import {
+  getAlertCondition,
+  getHistoryStartDate,
+  getRequiredHistory,
+  type MarketHistory,
+} from '@/utils/alertConditions';
+import { getPreviousValue } from '@/utils/portfolioAlerts';
+import { toRebalanceHoldings } from '@/utils/rebalancing';
+import { getAlertSubject } from '@/utils/watchlists';
+import { getAssetIdsForPrice, type ListingRef } from '@/utils/realtimeSubscriptions';
+import { useCurrency } from './useCurrency';
+import { useRealtimePrices } from './useRealtimePrices';
+
+/** How far back to look for the previous close of an alerted portfolio */
+const SNAPSHOT_LOOKBACK_DAYS = 7;
+
+/** A portfolio with alerts on it, revalued as its holdings' prices arrive */
+interface AlertedPortfolio {
+  name: string;
+  assets: Asset[];
+  snapshots: PortfolioSnapshot[];
+}
+
+interface UseAlertEngineOptions {
+  enabled?: boolean;
+}
+
+interface UseAlertEngineReturn {
+  /** Reloads the alerts, e.g. after one is created or re-armed */
+  refresh: () => Promise<void>;
+  isConnected: boolean;
+}
+
+export function useAlertEngine(options: UseAlertEngineOptions = {}): UseAlertEngineReturn {
+  const { enabled = true } = options;
+  const assets = useAppSelector((state) => state.assets.assets);
+  const { currency, rates } = useCurrency();
+  // Symbols alerted on without a holding, and those held in alerted
+  // portfolios, which the price channels must also join
+  const [watch, setWatch] = useState<ListingRef[]>([]);
+
+  // Read when an alert fires, so new holdings do not recreate the engine
+  const assetsRef = useRef(new Map<string, { symbol?: string; name: string }>());
+  assetsRef.current = new Map(assets.map((asset) => [asset.id, asset]));
+  const portfoliosRef = useRef(new Map<string, AlertedPortfolio>());
+  const fxRef = useRef({ currency, rates });
+  fxRef.current = { currency, rates };
+
+  const engine = useMemo(
+    () =>
+      createAlertEngine({
+        ledger: alertNotificationLedger,
+        getSubject: (alert) => getAlertSubject(alert, assetsRef.current, portfoliosRef.current),
+        notify: (data) =>
+          scheduleLocalNotification(data.title, data.body, data).catch((error) =>
+            console.warn('[useAlertEngine] Failed to show alert notification:', error)
+          ),
+        onTrigger: (alert, updates) =>
+          alertService.updateAlert(alert.id, updates).catch((error) =>
+            console.warn('[useAlertEngine] Failed to save alert firing:', error)
+          ),
+      }),
+    []
+  );
+
+  const checkPortfolio = useCallback((portfolioId: string) => {
+    const portfolio = portfoliosRef.current.get(portfolioId);
+    if (!portfolio) return;
+    const fx = fxRef.current;
+    const holdings = toRebalanceHoldings(portfolio.assets, fx);
+    // Checked only once every holding can be valued, so a missing rate does not look like a move
+    if (holdings.length < portfolio.assets.length) return;
+    engine.checkPortfolio(portfolioId, {
+      holdings,
+      previousValue: getPreviousValue(portfolio.snapshots, portfolioId, new Date().toISOString().slice(0, 10), fx),
+    });
+  }, [engine]);
+
+  const loadPortfolios = useCallback(async (portfolioIds: string[]) => {
+    const since = new Date(Date.now() - SNAPSHOT_LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    const [portfolios, snapshots, holdings] = await Promise.all([
+      portfolioService
+        .getPortfolios()
+        .then((remote) => remote || [])
+        .catch(async () => (await getCachedPortfolios()) || []),
+      portfolioService.getSnapshots(portfolioIds, since).catch(() => getCachedSnapshots(portfolioIds)),
+      Promise.all(
+        portfolioIds.map((portfolioId) =>
+          assetService
+            .getAssets(portfolioId)
+            .then((remote): Asset[] => remote || [])
+            .catch(() => getCachedAssets(portfolioId))
+        )
+      ),
+    ]);
+
+    const loaded = new Map<string, AlertedPortfolio>();
+    portfolioIds.forEach((portfolioId, i) => {
+      loaded.set(portfolioId, {
+        name: portfolios.find((portfolio) => portfolio.id === portfolioId)?.name ?? 'Portfolio',
+        assets: holdings[i],
+        snapshots: snapshots.filter((snapshot) => snapshot.portfolio_id === portfolioId),
+      });
+    });
+    portfoliosRef.current = loaded;
+    return loaded;
+  }, []);
+
+  const refresh = useCallback(async () => {
+    const alerts: PriceAlert[] = await alertService
+      .getAlerts()
+      .then((remote) => remote || [])
+      .catch(async () => (await getCachedAlerts()) || []);
+    const priced = alerts.filter((alert) => alert.is_active && getAlertCondition(alert) !== null);
+    const portfolioAlerts = alerts.filter((alert) => alert.is_active && alert.portfolio_id && alert.portfolio_rule);
+    engine.setAlerts([...priced, ...portfolioAlerts]);
+
+    const portfolioIds = Array.from(new Set(portfolioAlerts.map((alert) => alert.portfolio_id as string)));
+    const portfolios = await loadPortfolios(portfolioIds).catch((error) => {
+      console.warn('[useAlertEngine] Failed to load alerted portfolios:', error);
+      return new Map<string, AlertedPortfolio>();
+    });
+    // The first check only records where each rule stands
+    portfolioIds.forEach(checkPortfolio);
+
+    const held = Array.from(portfolios.values()).flatMap((portfolio) =>
+      portfolio.assets
+        .filter((asset) => asset.symbol)
+        .map((asset) => ({
+          symbol: asset.symbol as string,
+          exchange: typeof asset.metadata?.exchange === 'string' ? asset.metadata.exchange : undefined,
+          asset_type: asset.asset_type,
+        }))
+    );
+    setWatch([
+      ...priced
+        .filter((alert) => !alert.asset_id && alert.symbol)
+        .map((alert) => ({
+          symbol: alert.symbol as string,
+          exchange: alert.exchange ?? undefined,
+          asset_type: alert.asset_type ?? undefined,
+        })),
+      ...held,
+    ]);
+
+    // Only conditions that look back past the previous price need daily closes,
+    // read back as far as the longest of them looks
+    const lookbacks = priced
+      .filter((alert) => alert.asset_id)
+      .map((alert) => ({ assetId: alert.asset_id as string, closes: getRequiredHistory(getAlertCondition(alert)!) }))
+      .filter(({ closes }) => closes > 2);
+    const assetIds = Array.from(new Set(lookbacks.map(({ assetId }) => assetId)));
+    const since = getHistoryStartDate(Math.max(0, ...lookbacks.map(({ closes }) => closes)));
+    const rows = await priceHistoryService.getPriceHistoryForAssets(assetIds, since).catch(() => []);
+    const history: Record<string, MarketHistory> = {};
+    assetIds.forEach((assetId) => {
+      history[assetId] = { closes: toDailyCloses(rows.filter((row) => row.asset_id === assetId)) };
+    });
+    engine.setHistory(history);
+  }, [engine, loadPortfolios, checkPortfolio]);
+
+  // Revalues the alerted portfolios holding the priced listing, then checks them
+  const handlePrice = useCallback((tick: PriceTick) => {
+    engine.handleTick(tick);
+
+    portfoliosRef.current.forEach((portfolio, portfolioId) => {
+      const assetIds = new Set([
+        ...(tick.asset_id ? [tick.asset_id] : []),
+        ...(tick.symbol ? getAssetIdsForPrice(portfolio.assets, { symbol: tick.symbol, exchange: tick.exchange }) : []),
+      ]);
+      if (!portfolio.assets.some((asset) => assetIds.has(asset.id))) return;
+
+      portfolio.assets = portfolio.assets.map((asset) =>
+        assetIds.has(asset.id) ? { ...asset, current_price: tick.price } : asset
+      );
+      checkPortfolio(portfolioId);
+    });
+  }, [engine, checkPortfolio]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    refresh();
+
+    // Alerts may have been changed on another device while in the background
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') refresh();
+    });
+    return () => subscription.remove();
+  }, [enabled, refresh]);
+
+  const { isConnected } = useRealtimePrices({ enabled, watch, onPrice: handlePrice });
+
+  return { refresh, isConnected };
+}
+
+export default useAlertEngine;
@@ -0,0 +1,73 @@
+/**
+ * Currency Hook
+ *
+ * Loads the user's preferred currency and the latest FX rates, and converts
+ * amounts from an asset's currency into the preferred one.
+ */
+
+import { useEffect, useState, useCallback } from 'react';
+import { profileService } from '@/services/api';
+import { fxService } from '@/services/fxService';
+import { getUserProfile } from '@/services/offlineStorage';
+import { convertAmount, DEFAULT_CURRENCY, formatMoney, type FxRates } from '@/utils/currency';
+
+interface UseCurrencyReturn {
+  /** The user's preferred currency */
+  currency: string;
+  rates: FxRates;
+  isLoading: boolean;
+  /**
+   * Converts an amount in `from` (USD when absent) into the preferred
+   * currency; null when there is no rate between them
+   */
+  convert: (amount: number, from?: string) => number | null;
+  /** Formats an amount already in the preferred currency */
+  format: (amount: number) => string;
+  refresh: () => Promise<void>;
+}
+
+export function useCurrency(): UseCurrencyReturn {
+  const [currency, setCurrency] = useState(DEFAULT_CURRENCY);
+  const [rates, setRates] = useState<FxRates>({});
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    try {
+      const [preference, table] = await Promise.all([
+        profileService
+          .getProfile()
+          .then((profile) => profile?.currency_preference as string | undefined)
+          .catch(async () => (await getUserProfile())?.currency_preference),
+        fxService.getLatestRates(),
+      ]);
+      setCurrency(preference || DEFAULT_CURRENCY);
+      setRates(table?.rates ?? {});
+    } catch (error) {
+      console.error('[useCurrency] Failed to load currency settings:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const convert = useCallback(
+    (amount: number, from: string = DEFAULT_CURRENCY) => convertAmount(amount, from, currency, rates),
+    [currency, rates]
+  );
+
+  const format = useCallback((amount: number) => formatMoney(amount, currency), [currency]);
+
+  return {
+    currency,
+    rates,
+    isLoading,
+    convert,
+    format,
+    refresh,
+  };
+}
+
+export default useCurrency;
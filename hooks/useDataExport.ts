@@ -1,14 +1,40 @@
 /**
  * Data Export Hook
  * 
- * Manages portfolio data export state and operations
+ * Manages portfolio data export state and operations.
+ * CSV and JSON exports are generated on the device from the latest data,
+ * falling back to the offline cache, so they also work without a connection.
+ * PDF reports are still rendered by the data-export Edge Function.
  * Requirements: Task 65 - Data Export
  */
 
 import { useState, useCallback } from 'react';
 import { Share, Platform } from 'react-native';
 import * as Linking from 'expo-linking';
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
 import { supabase } from '@/services/supabase';
+import { alertService, assetService, portfolioService } from '@/services/api';
+import {
+  cacheAlerts,
+  cacheAssets,
+  cachePortfolios,
+  cacheTransactions,
+  getCachedAlerts,
+  getCachedAssets,
+  getCachedPortfolios,
+  getTransactions,
+} from '@/services/offlineStorage';
+import type { Asset, AssetTransaction } from '@/services/offlineStorage';
+import {
+  buildExportData,
+  getExportFilename,
+  toCsv,
+  toJson,
+  type ExportFilter,
+  type ExportSource,
+  type LocalExportFormat,
+} from '@/utils/dataExport';
 
 // ============================================================================
 // Types
@@ -36,12 +62,120 @@ interface UseDataExportReturn {
   error: string | null;
   /** Success state after export */
   success: boolean;
-  /** Export data in specified format */
-  exportData: (format: ExportFormat) => Promise<boolean>;
+  /** Export data in specified format, optionally limited to some portfolios and dates */
+  exportData: (format: ExportFormat, filter?: Partial<ExportFilter>) => Promise<boolean>;
   /** Reset state */
   reset: () => void;
 }
 
+const MIME_TYPES: Record<LocalExportFormat, string> = {
+  csv: 'text/csv',
+  json: 'application/json',
+};
+
+// ============================================================================
+// Local Export
+// ============================================================================
+
+/**
+ * Hand a generated text file to the share sheet, or download it on web.
+ * On devices the content is written to a file in the cache first, so apps
+ * receive a real file rather than a very long message.
+ */
+export async function shareTextFile(content: string, filename: string, mimeType: string): Promise<void> {
+  if (Platform.OS === 'web') {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  } else {
+    if (!(await Sharing.isAvailableAsync())) {
+      throw new Error('Sharing is not available on this device');
+    }
+    const file = new File(Paths.cache, filename);
+    file.create({ overwrite: true });
+    file.write(content);
+    await Sharing.shareAsync(file.uri, { mimeType, dialogTitle: filename });
+  }
+}
+
+/**
+ * Load the data to export, preferring the server and falling back to the
+ * offline cache for anything that cannot be fetched
+ */
+async function loadExportSource(portfolioIds?: string[]): Promise<ExportSource> {
+  const portfolios = await portfolioService
+    .getPortfolios()
+    .then(async (remote) => {
+      await cachePortfolios(remote || []);
+      return remote || [];
+    })
+    .catch(async () => (await getCachedPortfolios()) || []);
+
+  const selectedIds = portfolioIds ?? portfolios.map((p: { id: string }) => p.id);
+  const assetLists: Asset[][] = await Promise.all(
+    selectedIds.map((portfolioId) =>
+      assetService
+        .getAssets(portfolioId)
+        .then(async (remote) => {
+          await cacheAssets(portfolioId, remote || []);
+          return remote || [];
+        })
+        .catch(() => getCachedAssets(portfolioId))
+    )
+  );
+  const assets = assetLists.flat();
+  const assetIds = assets.map((a) => a.id);
+
+  const [transactions, alerts] = await Promise.all([
+    assetService
+      .getTransactionsForAssets(assetIds)
+      .then(async (remote) => {
+        await cacheTransactions(assetIds, remote);
+        return remote;
+      })
+      .catch(async (): Promise<AssetTransaction[]> =>
+        ((await getTransactions()) || []).filter((t) => assetIds.includes(t.asset_id))
+      ),
+    alertService
+      .getAlerts()
+      .then(async (remote) => {
+        await cacheAlerts(remote || []);
+        return remote || [];
+      })
+      .catch(() => getCachedAlerts()),
+  ]);
+
+  return { portfolios, assets, transactions, alerts };
+}
+
+/**
+ * Generate the export on the device and hand it to the share sheet
+ * (or download it on web)
+ */
+async function exportLocally(format: LocalExportFormat, filter: Partial<ExportFilter>): Promise<void> {
+  const source = await loadExportSource(filter.portfolioIds);
+  const generatedAt = new Date().toISOString();
+  const data = buildExportData(
+    source,
+    {
+      portfolioIds: filter.portfolioIds ?? source.portfolios.map((p) => p.id),
+      startDate: filter.startDate,
+      endDate: filter.endDate,
+    },
+    generatedAt
+  );
+
+  if (data.portfolios.length === 0) {
+    throw new Error('No portfolio data available to export');
+  }
+
+  const content = format === 'csv' ? toCsv(data) : toJson(data);
+  await shareTextFile(content, getExportFilename(format, generatedAt), MIME_TYPES[format]);
+}
+
 // ============================================================================
 // Hook Implementation
 // ============================================================================
@@ -63,12 +197,21 @@ export function useDataExport(): UseDataExportReturn {
   /**
    * Export portfolio data in specified format
    */
-  const exportData = useCallback(async (format: ExportFormat): Promise<boolean> => {
+  const exportData = useCallback(async (
+    format: ExportFormat,
+    filter: Partial<ExportFilter> = {}
+  ): Promise<boolean> => {
     setIsLoading(true);
     setError(null);
     setSuccess(false);
 
     try {
+      if (format !== 'pdf') {
+        await exportLocally(format, filter);
+        setSuccess(true);
+        return true;
+      }
+
       // Call data-export Edge Function
       const { data, error: functionError } = await supabase.functions.invoke<ExportResponse>(
         'data-export',
@@ -102,16 +102,28 @@ export function useNotifications(
       }
 
       try {
-        if (target.screen === 'AssetDetailView' && target.params) {
-          nav.navigate('AssetDetailView' as never, target.params as never);
-        } else if (target.screen === 'Alerts') {
-          nav.navigate('Main' as never, { screen: 'Alerts' } as never);
-        } else if (target.screen === 'Insights') {
-          nav.navigate('Main' as never, { screen: 'Insights' } as never);
-        } else if (target.screen === 'Assets') {
-          nav.navigate('Main' as never, { screen: 'Assets' } as never);
-        } else {
-          nav.navigate('Main' as never, { screen: 'Dashboard' } as never);
+        switch (target.screen) {
+          case 'AssetDetailView':
+            nav.navigate('AssetDetailView', target.params);
+            break;
+          case 'AlertHistory':
+            nav.navigate('AlertHistory', target.params);
+            break;
+          case 'Alerts':
+            nav.navigate('Alerts');
+            break;
+          case 'Rebalance':
+            nav.navigate('Rebalance', target.params);
+            break;
+          case 'Insights':
+            nav.navigate('Main', { screen: 'Insights' });
+            break;
+          case 'Portfolio':
+            nav.navigate('Main', { screen: 'Portfolio', params: target.params });
+            break;
+          default:
+            // The assets list has no tab of its own; it opens from the dashboard
+            nav.navigate('Main', { screen: 'Dashboard' });
         }
       } catch (error) {
         // Navigation might fail if not ready, silently ignore
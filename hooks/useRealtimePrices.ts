@@ -1,109 +1,290 @@
 /**
  * Real-time Price Updates Hook
- * 
+ *
  * Subscribes to Supabase Realtime for price updates
- * Updates asset prices in real-time
+ * Updates asset prices in real-time, and tracks the prices of watched
+ * symbols that are not held
+ * Subscribes to the shared channel of each held (or watched) listing,
+ * and pauses while offline or in the background
+ * While channels fail to join or rejoin, held and watched prices are
+ * polled instead
  * Requirements: 5
  */
 
-import { useEffect, useState, useCallback, useRef } from 'react';
-import { supabase } from '@/services/supabase';
-import { useAppDispatch } from '@/store/hooks';
+import { useEffect, useState, useCallback, useMemo, useRef } from 'react';
+import { AppState } from 'react-native';
+import { priceHistoryService, symbolDirectoryService } from '@/services/api';
+import { priceChannels, type PriceChannelSubscriber } from '@/services/priceChannels';
+import { useAppDispatch, useAppSelector } from '@/store/hooks';
 import { updateAssetPrice } from '@/store/slices/assetsSlice';
-import type { RealtimeChannel } from '@supabase/supabase-js';
+import { applyPriceUpdate, type WatchedPrice } from '@/utils/watchlists';
+import { parseQuote } from '@/utils/symbolSearch';
+import type { PriceTick } from '@/utils/alertEngine';
+import {
+  CONNECT_FALLBACK_AFTER_MS,
+  createPollingProvider,
+  needsFallback,
+  type PriceProvider,
+  type PriceSource,
+} from '@/utils/priceProvider';
+import {
+  diffTopics,
+  getAssetIdsForPrice,
+  getPriceTopic,
+  getRealtimeHealth,
+  getSubscriptionListings,
+  updateLatency,
+  type ListingRef,
+  type RealtimeHealth,
+} from '@/utils/realtimeSubscriptions';
+import { useOfflineStatus } from './useOfflineStatus';
 
 interface UseRealtimePricesOptions {
+  /** Only join the symbols held in this portfolio */
   portfolioId?: string;
   enabled?: boolean;
+  /** Symbols to track prices for without a holding, e.g. from watchlists */
+  watch?: ListingRef[];
+  /** Called with every price received, e.g. to check alerts on the device */
+  onPrice?: (tick: PriceTick) => void;
+  /** Where prices come from while realtime is down; polls held and watched prices by default */
+  fallback?: PriceProvider | null;
+}
+
+interface PriceUpdatePayload {
+  asset_id?: string;
+  symbol?: string;
+  exchange?: string;
+  price?: number;
+  currency?: string;
+  timestamp?: string;
 }
 
 interface UseRealtimePricesReturn {
   lastUpdated: Date | null;
+  /** Latest prices of the watched symbols, keyed by listing key */
+  symbolPrices: Record<string, WatchedPrice>;
   isConnected: boolean;
+  health: RealtimeHealth;
+  /** Where prices are coming from now, if anywhere */
+  source: PriceSource | null;
+  /** Average time from a price being sent to it arriving, in milliseconds */
+  latencyMs: number | null;
   connectionError: string | null;
+  /** Rejoins every channel now, without waiting for the backoff */
   reconnect: () => void;
 }
 
 export function useRealtimePrices(options: UseRealtimePricesOptions = {}): UseRealtimePricesReturn {
-  const { enabled = true } = options;
+  const { portfolioId, enabled = true, watch, onPrice } = options;
   const dispatch = useAppDispatch();
-  
+  const assets = useAppSelector((state) => state.assets.assets);
+  const { isOnline } = useOfflineStatus();
+
+  const [isActive, setIsActive] = useState(AppState.currentState !== 'background');
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
-  const [isConnected, setIsConnected] = useState(false);
+  const [symbolPrices, setSymbolPrices] = useState<Record<string, WatchedPrice>>({});
+  const [joinedCount, setJoinedCount] = useState(0);
+  const [hasDropped, setHasDropped] = useState(false);
+  const [latencyMs, setLatencyMs] = useState<number | null>(null);
   const [connectionError, setConnectionError] = useState<string | null>(null);
-  
-  const channelRef = useRef<RealtimeChannel | null>(null);
+  const [connectStalled, setConnectStalled] = useState(false);
+
+  const listings = useMemo(
+    () => getSubscriptionListings(assets, portfolioId, watch),
+    [assets, portfolioId, watch]
+  );
+  const listingsByTopic = useMemo(
+    () => new Map(listings.map((listing) => [getPriceTopic(listing), listing])),
+    [listings]
+  );
+  // Joined and left by topic, so a new array with the same symbols does not resubscribe
+  const topicsKey = Array.from(listingsByTopic.keys()).join('|');
+  const listingsRef = useRef(listingsByTopic);
+  listingsRef.current = listingsByTopic;
+
+  // Leave functions of the shared channels this instance is subscribed to
+  const subscriptionsRef = useRef(new Map<string, () => void>());
+  // Read by the handler so a new watch list does not resubscribe
+  const watchRef = useRef(watch);
+  watchRef.current = watch;
+  const assetsRef = useRef(assets);
+  assetsRef.current = assets;
+  const onPriceRef = useRef(onPrice);
+  onPriceRef.current = onPrice;
+
+  const active = enabled && isOnline && isActive;
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (state) => {
+      setIsActive(state !== 'background');
+    });
+    return () => subscription.remove();
+  }, []);
 
-  const handlePriceUpdate = useCallback((payload: { payload?: { asset_id?: string; price?: number; timestamp?: string } }) => {
-    const data = payload.payload || payload;
-    const assetId = data.asset_id;
+  const applyPrice = useCallback((data: PriceUpdatePayload, source: PriceSource) => {
     const price = data.price;
     const timestamp = data.timestamp;
-    
-    if (assetId && price !== undefined) {
-      dispatch(updateAssetPrice({
-        id: assetId,
-        price: price,
-      }));
-      setLastUpdated(new Date(timestamp || Date.now()));
+    if (price === undefined) return;
+
+    if (timestamp && source === 'realtime') {
+      setLatencyMs((prev) => updateLatency(prev, Date.now() - new Date(timestamp).getTime()));
     }
-  }, [dispatch]);
 
-  const subscribe = useCallback(() => {
-    if (!enabled) return;
-
-    try {
-      setConnectionError(null);
-      
-      const channel = supabase
-        .channel('price-updates')
-        .on('broadcast', { event: 'price-update' }, handlePriceUpdate)
-        .subscribe((status) => {
-          if (status === 'SUBSCRIBED') {
-            setIsConnected(true);
-            setConnectionError(null);
-          } else if (status === 'CHANNEL_ERROR') {
-            setIsConnected(false);
-            setConnectionError('Failed to connect to price updates');
-          } else if (status === 'TIMED_OUT') {
-            setIsConnected(false);
-            setConnectionError('Connection timed out');
-          }
-        });
-
-      channelRef.current = channel;
-    } catch (error: unknown) {
-      const errorMessage = error instanceof Error ? error.message : 'Failed to subscribe to price updates';
-      setConnectionError(errorMessage);
-      setIsConnected(false);
+    // Symbol prices apply to every holding of that listing
+    const assetIds = data.asset_id
+      ? [data.asset_id]
+      : data.symbol
+      ? getAssetIdsForPrice(assetsRef.current, { symbol: data.symbol, exchange: data.exchange })
+      : [];
+
+    if (assetIds.length > 0) {
+      assetIds.forEach((assetId) => {
+        onPriceRef.current?.({ asset_id: assetId, symbol: data.symbol, exchange: data.exchange, price, timestamp });
+        dispatch(updateAssetPrice({
+          id: assetId,
+          price: price,
+          timestamp,
+          source,
+        }));
+      });
+      setLastUpdated(new Date(timestamp || Date.now()));
+    } else if (data.symbol) {
+      onPriceRef.current?.({ symbol: data.symbol, exchange: data.exchange, price, timestamp });
     }
-  }, [enabled, handlePriceUpdate]);
 
-  const unsubscribe = useCallback(async () => {
-    if (channelRef.current) {
-      await supabase.removeChannel(channelRef.current);
-      channelRef.current = null;
-      setIsConnected(false);
+    const watched = watchRef.current;
+    if (data.symbol && watched && watched.length > 0) {
+      const update = { symbol: data.symbol, exchange: data.exchange, price, currency: data.currency, timestamp };
+      setSymbolPrices((prev) => applyPriceUpdate(prev, watched, update));
+      setLastUpdated(new Date(timestamp || Date.now()));
     }
+  }, [dispatch]);
+
+  const handlePriceUpdate = useCallback((payload: { payload?: PriceUpdatePayload }) => {
+    applyPrice((payload.payload || payload) as PriceUpdatePayload, 'realtime');
+  }, [applyPrice]);
+
+  const refreshJoined = useCallback(() => {
+    const states = Array.from(subscriptionsRef.current.keys()).map((topic) => priceChannels.getState(topic));
+    setJoinedCount(states.filter((state) => state.joined).length);
+    const error = states.find((state) => state.error)?.error ?? null;
+    setHasDropped(error !== null);
+    setConnectionError(error);
   }, []);
 
-  const reconnect = useCallback(() => {
-    unsubscribe().then(() => {
-      subscribe();
-    });
-  }, [subscribe, unsubscribe]);
+  // One subscriber for every channel this instance joins
+  const subscriber = useMemo<PriceChannelSubscriber>(
+    () => ({
+      onPrice: (payload) => handlePriceUpdate(payload as { payload?: PriceUpdatePayload }),
+      onStatus: refreshJoined,
+    }),
+    [handlePriceUpdate, refreshJoined]
+  );
+
+  const leave = useCallback((topic: string) => {
+    const unsubscribe = subscriptionsRef.current.get(topic);
+    subscriptionsRef.current.delete(topic);
+    unsubscribe?.();
+  }, []);
+
+  const join = useCallback((topic: string) => {
+    const listing = listingsRef.current.get(topic);
+    if (!listing) return;
+    subscriptionsRef.current.set(topic, priceChannels.subscribe(listing, subscriber));
+  }, [subscriber]);
+
+  useEffect(() => {
+    const current = Array.from(subscriptionsRef.current.keys());
+    if (!active) {
+      current.forEach(leave);
+      refreshJoined();
+      return;
+    }
+
+    const { join: joining, leave: leaving } = diffTopics(current, topicsKey ? topicsKey.split('|') : []);
+    leaving.forEach(leave);
+    joining.forEach(join);
+    refreshJoined();
+  }, [active, topicsKey, join, leave, refreshJoined]);
 
   useEffect(() => {
-    subscribe();
-    
+    const subscriptions = subscriptionsRef.current;
     return () => {
-      unsubscribe();
+      Array.from(subscriptions.keys()).forEach(leave);
     };
-  }, [subscribe, unsubscribe]);
+  }, [leave]);
+
+  const reconnect = useCallback(() => {
+    Array.from(subscriptionsRef.current.keys()).forEach(priceChannels.reconnect);
+    refreshJoined();
+  }, [refreshJoined]);
+
+  const health = getRealtimeHealth({
+    enabled,
+    isOnline,
+    isActive,
+    wanted: listingsByTopic.size,
+    joined: joinedCount,
+    hasDropped,
+  });
+
+  // A first join that never answers falls back like a failed one
+  useEffect(() => {
+    setConnectStalled(false);
+    if (health !== 'connecting') return;
+    const timer = setTimeout(() => setConnectStalled(true), CONNECT_FALLBACK_AFTER_MS);
+    return () => clearTimeout(timer);
+  }, [health]);
+
+  // Held prices in scope batched into one query per poll, and a quote for
+  // each watched symbol that is not held
+  const pollingProvider = useMemo(
+    () =>
+      createPollingProvider({
+        fetchPrices: async () => {
+          const assetIds = assetsRef.current
+            .filter((asset) => asset.symbol && (!portfolioId || asset.portfolio_id === portfolioId))
+            .map((asset) => asset.id);
+          const unheld = (watchRef.current ?? []).filter(
+            (listing) => listing.asset_type && getAssetIdsForPrice(assetsRef.current, listing).length === 0
+          );
+          const [rows, quotes] = await Promise.all([
+            priceHistoryService.getLatestPrices(assetIds),
+            Promise.all(
+              unheld.map((listing) =>
+                symbolDirectoryService
+                  .getQuote(listing.symbol, listing.asset_type!, listing.exchange)
+                  .then((data) => parseQuote(data, { ...listing, name: listing.symbol, asset_type: listing.asset_type! }))
+                  .catch(() => null)
+              )
+            ),
+          ]);
+          const held: PriceTick[] = rows.map((row) => ({ asset_id: row.asset_id, price: row.price, timestamp: row.timestamp }));
+          const watched: PriceTick[] = quotes.flatMap((quote) =>
+            quote ? [{ symbol: quote.symbol, exchange: quote.exchange, price: quote.price, timestamp: quote.as_of }] : []
+          );
+          return [...held, ...watched];
+        },
+        onError: (error) => console.warn('[useRealtimePrices] Failed to poll prices:', error),
+      }),
+    [portfolioId]
+  );
+  const fallback = options.fallback === undefined ? pollingProvider : options.fallback;
+  const isPolling = !!fallback && needsFallback(health, connectStalled);
+
+  useEffect(() => {
+    if (!isPolling || !fallback) return;
+    return fallback.start((tick) => applyPrice(tick, fallback.source));
+  }, [isPolling, fallback, applyPrice]);
 
   return {
     lastUpdated,
-    isConnected,
+    symbolPrices,
+    isConnected: health === 'live',
+    health,
+    source: health === 'live' ? 'realtime' : isPolling && fallback ? fallback.source : null,
+    latencyMs,
     connectionError,
     reconnect,
   };
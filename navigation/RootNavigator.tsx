@@ -12,8 +12,15 @@ import AuthStack from './AuthStack';
 import MainTabs from './MainTabs';
 import AddAssetStack from './AddAssetStack';
 import CreateAlertScreen from '@/screens/alerts/CreateAlertScreen';
+import AlertHistoryScreen from '@/screens/alerts/AlertHistoryScreen';
+import AlertsScreen from '@/screens/main/AlertsScreen';
 import { AIChatScreen } from '@/screens/chat';
 import { EditProfileScreen } from '@/screens/profile';
+import { IncomeCalendarScreen } from '@/screens/income';
+import { LiabilitiesScreen } from '@/screens/liabilities';
+import { WatchlistsScreen } from '@/screens/watchlists';
+import { RebalanceScreen } from '@/screens/rebalance';
+import { ImportAssetsScreen } from '@/screens/import';
 
 const Stack = createStackNavigator<RootStackParamList>();
 
@@ -37,6 +44,16 @@ export default function RootNavigator({ isAuthenticated }: RootNavigatorProps) {
             component={CreateAlertScreen}
             options={{ presentation: 'modal' }}
           />
+          <Stack.Screen
+            name="Alerts"
+            component={AlertsScreen}
+            options={{ presentation: 'modal' }}
+          />
+          <Stack.Screen
+            name="AlertHistory"
+            component={AlertHistoryScreen}
+            options={{ presentation: 'modal' }}
+          />
           <Stack.Screen
             name="AIChat"
             component={AIChatScreen}
@@ -47,6 +64,31 @@ export default function RootNavigator({ isAuthenticated }: RootNavigatorProps) {
             component={EditProfileScreen}
             options={{ presentation: 'modal' }}
           />
+          <Stack.Screen
+            name="IncomeCalendar"
+            component={IncomeCalendarScreen}
+            options={{ presentation: 'modal' }}
+          />
+          <Stack.Screen
+            name="Liabilities"
+            component={LiabilitiesScreen}
+            options={{ presentation: 'modal' }}
+          />
+          <Stack.Screen
+            name="Watchlists"
+            component={WatchlistsScreen}
+            options={{ presentation: 'modal' }}
+          />
+          <Stack.Screen
+            name="Rebalance"
+            component={RebalanceScreen}
+            options={{ presentation: 'modal' }}
+          />
+          <Stack.Screen
+            name="ImportAssets"
+            component={ImportAssetsScreen}
+            options={{ presentation: 'modal' }}
+          />
         </>
       ) : (
         <Stack.Screen name="Auth" component={AuthStack} />
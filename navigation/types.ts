@@ -9,13 +9,31 @@ import { StackScreenProps } from '@react-navigation/stack';
 import { BottomTabScreenProps } from '@react-navigation/bottom-tabs';
 import { CompositeScreenProps } from '@react-navigation/native';
 
+/** A watched symbol that is not held, as passed to screens acting on it */
+export interface WatchedSymbolParams {
+  symbol: string;
+  name: string;
+  asset_type: string;
+  exchange?: string;
+  currency?: string;
+  current_price?: number;
+}
+
 // Root Stack Navigator
 export type RootStackParamList = {
   Auth: NavigatorScreenParams<AuthStackParamList>;
   Main: NavigatorScreenParams<MainTabParamList>;
   AddAsset: NavigatorScreenParams<AddAssetStackParamList>;
   AssetDetailView: { assetId: string; portfolioId: string };
-  CreateAlert: { preselectedAssetId?: string } | undefined;
+  CreateAlert: { preselectedAssetId?: string; watchedSymbol?: WatchedSymbolParams } | undefined;
+  Alerts: undefined;
+  /** triggerId highlights the firing a notification was opened from */
+  AlertHistory: { alertId: string; triggerId?: string };
+  IncomeCalendar: undefined;
+  Liabilities: undefined;
+  Watchlists: undefined;
+  Rebalance: { portfolioId?: string } | undefined;
+  ImportAssets: { portfolioId?: string } | undefined;
   EditProfile: undefined;
   AIChat: undefined;
 };
@@ -32,7 +50,7 @@ export type AuthStackParamList = {
 // Assets can be accessed via FAB, Alerts via Profile screen
 export type MainTabParamList = {
   Dashboard: undefined;
-  Portfolio: undefined;
+  Portfolio: { portfolioId?: string } | undefined;
   Insights: undefined;
   Profile: undefined;
 };
@@ -47,6 +65,12 @@ export type AddAssetStackParamList = {
     symbol?: string;
     name?: string;
     currentPrice?: number;
+    /** Exchange the symbol was chosen on, for tickers listed on several */
+    exchange?: string;
+    /** Currency of the live price */
+    currency?: string;
+    /** When the live price was observed (ISO timestamp) */
+    priceAsOf?: string;
   };
 };
 
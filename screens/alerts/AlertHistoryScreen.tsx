@@ -0,0 +1,509 @@
+/**
+ * Alert History Screen
+ *
+ * When an alert fired, at what price, and whether its push notification
+ * reached the device. Also snoozes the alert, re-arms it after it fired,
+ * and switches it between firing once and firing every time.
+ * Opened from the alerts list and from price alert notifications.
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  FlatList,
+  SafeAreaView,
+  ActivityIndicator,
+  RefreshControl,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { RootStackScreenProps } from '@/navigation/types';
+import { alertService, assetService, portfolioService } from '@/services/api';
+import {
+  cacheAlertTriggers,
+  getCachedAlerts,
+  getCachedAlertTriggers,
+} from '@/services/offlineStorage';
+import type { AlertDeliveryStatus, AlertTrigger, PriceAlert } from '@/services/offlineStorage';
+import {
+  ALERT_FREQUENCIES,
+  ALERT_FREQUENCY_LABELS,
+  DELIVERY_STATUS_LABELS,
+  SNOOZE_OPTIONS,
+  getAlertFrequency,
+  getAlertStatus,
+  getRearmUpdates,
+  getSnoozeUpdates,
+  sortTriggers,
+  summarizeTriggers,
+  type AlertStateUpdates,
+} from '@/utils/alertHistory';
+import { getAlertSubject } from '@/utils/watchlists';
+
+type Props = RootStackScreenProps<'AlertHistory'>;
+
+const DELIVERY_ICONS: Record<AlertDeliveryStatus, keyof typeof Ionicons.glyphMap> = {
+  pending: 'time-outline',
+  sent: 'paper-plane-outline',
+  delivered: 'checkmark-circle-outline',
+  failed: 'close-circle-outline',
+  opened: 'eye-outline',
+};
+
+const DELIVERY_COLORS: Record<AlertDeliveryStatus, string> = {
+  pending: '#9CA3AF',
+  sent: '#687076',
+  delivered: '#10B981',
+  failed: '#DC2626',
+  opened: '#0a7ea4',
+};
+
+function formatPrice(value: number): string {
+  return `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+export default function AlertHistoryScreen({ navigation, route }: Props) {
+  const { alertId, triggerId } = route.params;
+  const [alert, setAlert] = useState<PriceAlert | null>(null);
+  const [subject, setSubject] = useState('');
+  const [triggers, setTriggers] = useState<AlertTrigger[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadHistory = useCallback(async () => {
+    try {
+      setError(null);
+      const alerts: PriceAlert[] = await alertService
+        .getAlerts()
+        .then((remote) => remote || [])
+        .catch(() => getCachedAlerts());
+      const found = alerts.find((a) => a.id === alertId) ?? null;
+      setAlert(found);
+
+      if (found) {
+        const assets = new Map<string, { symbol?: string; name: string }>();
+        if (found.asset_id) {
+          const asset = await assetService.getAsset(found.asset_id).catch(() => null);
+          if (asset) assets.set(found.asset_id, asset);
+        }
+        const portfolios = new Map<string, { name: string }>();
+        if (found.portfolio_id) {
+          const portfolio = await portfolioService.getPortfolio(found.portfolio_id).catch(() => null);
+          if (portfolio) portfolios.set(found.portfolio_id, portfolio);
+        }
+        setSubject(getAlertSubject(found, assets, portfolios));
+      }
+
+      const history = await alertService
+        .getTriggers(alertId)
+        .then(async (remote) => {
+          await cacheAlertTriggers(alertId, remote);
+          return remote;
+        })
+        .catch(() => getCachedAlertTriggers(alertId));
+      setTriggers(sortTriggers(history));
+    } catch (err: any) {
+      setError(err.message || 'Failed to load alert history');
+    } finally {
+      setIsLoading(false);
+      setIsRefreshing(false);
+    }
+  }, [alertId]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  // Opened from a notification, so it evidently arrived
+  useEffect(() => {
+    if (!triggerId) return;
+    alertService
+      .markTriggerOpened(triggerId)
+      .then(() => {
+        setTriggers((prev) =>
+          prev.map((t) => (t.id === triggerId ? { ...t, delivery_status: 'opened', opened_at: new Date().toISOString() } : t))
+        );
+      })
+      .catch(() => {
+        // The history still shows the delivery status the server recorded
+      });
+  }, [triggerId]);
+
+  const handleRefresh = () => {
+    setIsRefreshing(true);
+    loadHistory();
+  };
+
+  const applyUpdates = async (updates: AlertStateUpdates & { frequency?: PriceAlert['frequency'] }) => {
+    if (!alert) return;
+    setIsUpdating(true);
+    try {
+      await alertService.updateAlert(alert.id, updates);
+      setAlert({ ...alert, ...updates });
+    } catch (err: any) {
+      Alert.alert('Error', err.message || 'Failed to update alert');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#0a7ea4" />
+          <Text style={styles.loadingText}>Loading history...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const status = alert ? getAlertStatus(alert) : null;
+  const frequency = alert ? getAlertFrequency(alert) : 'once';
+  const summary = summarizeTriggers(triggers);
+
+  const getStatusText = (): string => {
+    switch (status) {
+      case 'active':
+        return frequency === 'once'
+          ? 'Active. Switches off after it fires.'
+          : 'Active. Fires every time the condition is met.';
+      case 'snoozed':
+        return `Snoozed until ${new Date(alert!.snoozed_until!).toLocaleString()}`;
+      case 'fired':
+        return 'Fired. Re-arm it to be alerted again.';
+      case 'paused':
+        return 'Switched off.';
+      default:
+        return '';
+    }
+  };
+
+  const renderTrigger = ({ item }: { item: AlertTrigger }) => (
+    <View style={[styles.triggerCard, item.id === triggerId && styles.triggerCardHighlighted]}>
+      <View style={styles.triggerInfo}>
+        <Text style={styles.triggerDate}>{new Date(item.triggered_at).toLocaleString()}</Text>
+        <Text style={styles.triggerDetail}>
+          At {formatPrice(item.price)} · condition {item.condition_value}
+        </Text>
+      </View>
+      <View style={styles.deliveryBadge}>
+        <Ionicons name={DELIVERY_ICONS[item.delivery_status]} size={14} color={DELIVERY_COLORS[item.delivery_status]} />
+        <Text style={[styles.deliveryText, { color: DELIVERY_COLORS[item.delivery_status] }]}>
+          {DELIVERY_STATUS_LABELS[item.delivery_status]}
+        </Text>
+      </View>
+    </View>
+  );
+
+  const renderHeader = () =>
+    alert ? (
+      <View>
+        <View style={styles.card}>
+          <Text style={styles.subject}>{subject}</Text>
+          <Text style={styles.statusText}>{getStatusText()}</Text>
+
+          {(status === 'fired' || status === 'paused') && (
+            <TouchableOpacity
+              style={styles.primaryButton}
+              onPress={() => applyUpdates(getRearmUpdates())}
+              disabled={isUpdating}
+            >
+              <Ionicons name="refresh" size={18} color="#FFFFFF" />
+              <Text style={styles.primaryButtonText}>Re-arm Alert</Text>
+            </TouchableOpacity>
+          )}
+
+          {status === 'active' && (
+            <>
+              <Text style={styles.label}>Snooze for</Text>
+              <View style={styles.chipRow}>
+                {SNOOZE_OPTIONS.map((option) => (
+                  <TouchableOpacity
+                    key={option.hours}
+                    style={styles.chip}
+                    onPress={() => applyUpdates(getSnoozeUpdates(option.hours))}
+                    disabled={isUpdating}
+                  >
+                    <Text style={styles.chipText}>{option.label}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </>
+          )}
+
+          {status === 'snoozed' && (
+            <TouchableOpacity
+              style={styles.secondaryButton}
+              onPress={() => applyUpdates({ snoozed_until: null })}
+              disabled={isUpdating}
+            >
+              <Text style={styles.secondaryButtonText}>Resume Now</Text>
+            </TouchableOpacity>
+          )}
+
+          <Text style={styles.label}>Fire</Text>
+          <View style={styles.chipRow}>
+            {ALERT_FREQUENCIES.map((option) => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.chip, frequency === option && styles.chipActive]}
+                onPress={() => applyUpdates({ frequency: option })}
+                disabled={isUpdating || frequency === option}
+              >
+                <Text style={[styles.chipText, frequency === option && styles.chipTextActive]}>
+                  {ALERT_FREQUENCY_LABELS[option]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        <View style={styles.summaryRow}>
+          <Text style={styles.sectionTitle}>
+            Fired {summary.count} {summary.count === 1 ? 'time' : 'times'}
+          </Text>
+          {summary.deliveryRate !== null && (
+            <Text style={styles.summaryText}>{summary.deliveryRate.toFixed(0)}% delivered</Text>
+          )}
+        </View>
+      </View>
+    ) : null;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Ionicons name="arrow-back" size={24} color="#11181C" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Alert History</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      {error && (
+        <View style={styles.errorBanner}>
+          <Text style={styles.errorText}>{error}</Text>
+        </View>
+      )}
+
+      {!alert && !error ? (
+        <View style={styles.emptyContainer}>
+          <Ionicons name="notifications-off-outline" size={48} color="#D1D5DB" />
+          <Text style={styles.emptyTitle}>Alert Not Found</Text>
+          <Text style={styles.emptySubtitle}>This alert may have been deleted.</Text>
+        </View>
+      ) : (
+        <FlatList
+          data={triggers}
+          keyExtractor={(item) => item.id}
+          renderItem={renderTrigger}
+          ListHeaderComponent={renderHeader}
+          contentContainerStyle={styles.list}
+          refreshControl={<RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} />}
+          ListEmptyComponent={
+            <Text style={styles.emptySubtitle}>This alert has not fired yet.</Text>
+          }
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F5F5',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#687076',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 16,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  backButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#11181C',
+  },
+  headerSpacer: {
+    width: 32,
+  },
+  errorBanner: {
+    backgroundColor: '#FEE2E2',
+    padding: 12,
+    marginHorizontal: 16,
+    marginTop: 12,
+    borderRadius: 8,
+  },
+  errorText: {
+    color: '#DC2626',
+    fontSize: 14,
+  },
+  list: {
+    padding: 16,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  subject: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#11181C',
+  },
+  statusText: {
+    fontSize: 14,
+    color: '#687076',
+    marginTop: 4,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#687076',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    backgroundColor: '#FFFFFF',
+  },
+  chipActive: {
+    borderColor: '#0a7ea4',
+    backgroundColor: '#0a7ea4',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#687076',
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#0a7ea4',
+    paddingVertical: 12,
+    borderRadius: 8,
+    marginTop: 16,
+  },
+  primaryButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#0a7ea4',
+    marginTop: 16,
+  },
+  secondaryButtonText: {
+    color: '#0a7ea4',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#687076',
+  },
+  summaryText: {
+    fontSize: 13,
+    color: '#687076',
+  },
+  triggerCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 8,
+  },
+  triggerCardHighlighted: {
+    borderWidth: 2,
+    borderColor: '#0a7ea4',
+  },
+  triggerInfo: {
+    flex: 1,
+  },
+  triggerDate: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#11181C',
+  },
+  triggerDetail: {
+    fontSize: 13,
+    color: '#687076',
+    marginTop: 2,
+  },
+  deliveryBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  deliveryText: {
+    fontSize: 12,
+    fontWeight: '500',
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#11181C',
+    marginTop: 16,
+  },
+  emptySubtitle: {
+    fontSize: 14,
+    color: '#687076',
+    textAlign: 'center',
+    marginTop: 8,
+  },
+});
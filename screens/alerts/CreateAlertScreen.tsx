@@ -1,7 +1,10 @@
 /**
  * Create Alert Screen
  * 
- * Multi-step flow for creating price alerts
+ * Multi-step flow for creating price alerts, on a holding or on a watched
+ * symbol that is not held, or on a whole portfolio. The condition step
+ * builds price, indicator and volume rules combined with AND or OR, or the
+ * value, drawdown, drift or concentration rule of a portfolio alert.
  * Requirements: 7
  */
 
@@ -22,12 +25,50 @@ import {
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { alertService, assetService, portfolioService, subscriptionService } from '@/services/api';
+import { getAssetTypeInfo } from '@/utils/assetTypes';
+import { WATCHLIST_ALERT_TYPES } from '@/utils/watchlists';
+import { ALERT_FREQUENCIES, ALERT_FREQUENCY_LABELS } from '@/utils/alertHistory';
+import {
+  MAX_CONDITION_RULES,
+  RULE_FIELDS,
+  RULE_KINDS,
+  RULE_KIND_LABELS,
+  createRule,
+  describeRule,
+  getConditionAlertType,
+  getConditionValue,
+  setRuleField,
+  validateCondition,
+} from '@/utils/alertConditions';
+import {
+  PORTFOLIO_RULE_FIELDS,
+  createPortfolioRule,
+  describePortfolioRule,
+  getDriftDefaults,
+  getPortfolioRuleValue,
+  getTypeWeights,
+  isPortfolioAlertType,
+  validatePortfolioRule,
+} from '@/utils/portfolioAlerts';
+import { toRebalanceHoldings } from '@/utils/rebalancing';
+import { useCurrency } from '@/hooks/useCurrency';
+import type {
+  AlertCondition,
+  AlertFrequency,
+  AlertRule,
+  AlertRuleKind,
+  Portfolio,
+  PortfolioAlertRule,
+  PortfolioAlertType,
+} from '@/services/offlineStorage';
+import type { WatchedSymbolParams } from '@/navigation/types';
 
 interface CreateAlertScreenProps {
   navigation: any;
   route?: {
     params?: {
       preselectedAssetId?: string;
+      watchedSymbol?: WatchedSymbolParams;
     };
   };
 }
@@ -38,10 +79,13 @@ interface Asset {
   asset_type: string;
   symbol?: string;
   name: string;
+  quantity: number;
+  purchase_price: number;
   current_price?: number;
+  currency?: string;
 }
 
-type AlertType = 'price_target' | 'percentage_change' | 'maturity_reminder';
+type AlertType = 'price_target' | 'percentage_change' | 'condition' | 'maturity_reminder' | PortfolioAlertType;
 
 interface AlertTypeOption {
   type: AlertType;
@@ -54,7 +98,7 @@ const ALERT_TYPES: AlertTypeOption[] = [
   {
     type: 'price_target',
     label: 'Price Target',
-    description: 'Get notified when price reaches a specific value',
+    description: 'Get notified when price crosses above or below a value',
     icon: 'trending-up',
   },
   {
@@ -63,6 +107,12 @@ const ALERT_TYPES: AlertTypeOption[] = [
     description: 'Get notified when price changes by a percentage',
     icon: 'analytics',
   },
+  {
+    type: 'condition',
+    label: 'Custom Condition',
+    description: 'Combine moving averages, RSI, 52-week levels and volume',
+    icon: 'options',
+  },
   {
     type: 'maturity_reminder',
     label: 'Maturity Reminder',
@@ -71,19 +121,62 @@ const ALERT_TYPES: AlertTypeOption[] = [
   },
 ];
 
+const PORTFOLIO_ALERT_OPTIONS: AlertTypeOption[] = [
+  {
+    type: 'portfolio_value',
+    label: 'Portfolio Value',
+    description: 'Get notified when the total value crosses above or below a level',
+    icon: 'wallet',
+  },
+  {
+    type: 'portfolio_drawdown',
+    label: 'Daily Drawdown',
+    description: 'Get notified when the portfolio falls more than a percentage in a day',
+    icon: 'trending-down',
+  },
+  {
+    type: 'allocation_drift',
+    label: 'Allocation Drift',
+    description: "Get notified when an asset type's weight leaves its band",
+    icon: 'pie-chart',
+  },
+  {
+    type: 'concentration',
+    label: 'Concentration',
+    description: 'Get notified when a single holding grows past a limit',
+    icon: 'warning',
+  },
+];
+
+/** Rule the condition builder starts from for each alert type */
+const STARTING_RULES: Record<'price_target' | 'percentage_change' | 'condition', AlertRuleKind> = {
+  price_target: 'price_cross',
+  percentage_change: 'percent_change',
+  condition: 'ma_cross',
+};
+
 const FREE_ALERT_LIMIT = 3;
 
 export default function CreateAlertScreen({ navigation, route }: CreateAlertScreenProps) {
   const preselectedAssetId = route?.params?.preselectedAssetId;
+  const watchedSymbol = route?.params?.watchedSymbol;
+  const { currency, rates, format } = useCurrency();
   
-  // Step management
-  const [step, setStep] = useState<'asset' | 'type' | 'condition'>('asset');
+  // Step management; a watched symbol needs no asset
+  const [step, setStep] = useState<'asset' | 'type' | 'condition'>(watchedSymbol ? 'type' : 'asset');
   
   // Data
   const [assets, setAssets] = useState<Asset[]>([]);
+  const [portfolios, setPortfolios] = useState<Portfolio[]>([]);
   const [selectedAsset, setSelectedAsset] = useState<Asset | null>(null);
+  const [selectedPortfolio, setSelectedPortfolio] = useState<Portfolio | null>(null);
   const [selectedType, setSelectedType] = useState<AlertType | null>(null);
   const [conditionValue, setConditionValue] = useState('');
+  const [condition, setCondition] = useState<AlertCondition | null>(null);
+  const [portfolioRule, setPortfolioRule] = useState<PortfolioAlertRule | null>(null);
+  // Text typed into rule fields, keyed by rule index and field
+  const [fieldText, setFieldText] = useState<Record<string, string>>({});
+  const [frequency, setFrequency] = useState<AlertFrequency>('once');
   
   // State
   const [isLoading, setIsLoading] = useState(true);
@@ -114,6 +207,7 @@ export default function CreateAlertScreen({ navigation, route }: CreateAlertScre
       }
       
       setAssets(allAssets);
+      setPortfolios(portfolios || []);
       
       // If preselected asset, find and select it
       if (preselectedAssetId) {
@@ -136,45 +230,144 @@ export default function CreateAlertScreen({ navigation, route }: CreateAlertScre
 
   const canCreateAlert = isPremium || currentAlertCount < FREE_ALERT_LIMIT;
 
+  const subjectName = selectedPortfolio
+    ? selectedPortfolio.name
+    : selectedAsset
+    ? selectedAsset.symbol || selectedAsset.name
+    : watchedSymbol?.symbol;
+  const subjectPrice = selectedAsset ? selectedAsset.current_price : watchedSymbol?.current_price;
+  // Without a holding only price-based alerts apply
+  const alertTypes = selectedPortfolio
+    ? PORTFOLIO_ALERT_OPTIONS
+    : watchedSymbol
+    ? ALERT_TYPES.filter(t => (WATCHLIST_ALERT_TYPES as readonly string[]).includes(t.type))
+    : ALERT_TYPES;
+
+  // Holdings of the selected portfolio valued in the preferred currency
+  const portfolioHoldings = selectedPortfolio
+    ? toRebalanceHoldings(assets.filter(a => a.portfolio_id === selectedPortfolio.id), { currency, rates })
+    : [];
+
+  const isConditionComplete = selectedType === 'maturity_reminder' ? !!conditionValue : !!condition || !!portfolioRule;
+
   const handleSelectAsset = (asset: Asset) => {
     setSelectedAsset(asset);
+    setSelectedPortfolio(null);
+    setStep('type');
+  };
+
+  const handleSelectPortfolio = (portfolio: Portfolio) => {
+    setSelectedPortfolio(portfolio);
+    setSelectedAsset(null);
     setStep('type');
   };
 
   const handleSelectType = (type: AlertType) => {
     setSelectedType(type);
     setConditionValue('');
+    setCondition(
+      type === 'maturity_reminder' || isPortfolioAlertType(type)
+        ? null
+        : { operator: 'and', rules: [createRule(STARTING_RULES[type], subjectPrice)] }
+    );
+    setPortfolioRule(
+      isPortfolioAlertType(type)
+        ? createPortfolioRule(type, portfolioHoldings, selectedPortfolio?.allocation_targets)
+        : null
+    );
+    setFieldText({});
     setStep('condition');
   };
 
   const handleBack = () => {
-    if (step === 'type') {
+    if (step === 'type' && watchedSymbol) {
+      navigation.goBack();
+    } else if (step === 'type') {
       setStep('asset');
       setSelectedAsset(null);
+      setSelectedPortfolio(null);
     } else if (step === 'condition') {
       setStep('type');
       setSelectedType(null);
       setConditionValue('');
+      setCondition(null);
+      setPortfolioRule(null);
     } else {
       navigation.goBack();
     }
   };
 
+  const updateRule = (index: number, rule: AlertRule) => {
+    setCondition((prev) =>
+      prev ? { ...prev, rules: prev.rules.map((r, i) => (i === index ? rule : r)) } : prev
+    );
+  };
+
+  const handleChangeRuleKind = (index: number, kind: AlertRuleKind) => {
+    updateRule(index, createRule(kind, subjectPrice));
+    setFieldText({});
+  };
+
+  const handleChangeRuleField = (index: number, rule: AlertRule, key: string, text: string) => {
+    setFieldText((prev) => ({ ...prev, [`${index}.${key}`]: text }));
+    updateRule(index, setRuleField(rule, key, parseFloat(text)));
+  };
+
+  const handleAddRule = () => {
+    setCondition((prev) =>
+      prev ? { ...prev, rules: [...prev.rules, createRule('price_cross', subjectPrice)] } : prev
+    );
+  };
+
+  const handleRemoveRule = (index: number) => {
+    setCondition((prev) => (prev ? { ...prev, rules: prev.rules.filter((_, i) => i !== index) } : prev));
+    setFieldText({});
+  };
+
+  const handleChangePortfolioField = (rule: PortfolioAlertRule, key: string, text: string) => {
+    setFieldText((prev) => ({ ...prev, [`0.${key}`]: text }));
+    setPortfolioRule({ ...rule, [key]: parseFloat(text) } as PortfolioAlertRule);
+  };
+
+  const handleChangeDriftType = (assetType: string) => {
+    setPortfolioRule({
+      kind: 'allocation_drift',
+      asset_type: assetType,
+      ...getDriftDefaults(assetType, portfolioHoldings, selectedPortfolio?.allocation_targets),
+    });
+    setFieldText({});
+  };
+
+  const getFieldText = (index: number, rule: AlertRule | PortfolioAlertRule, key: string): string => {
+    const typed = fieldText[`${index}.${key}`];
+    if (typed !== undefined) return typed;
+    const value = (rule as unknown as Record<string, number>)[key];
+    return Number.isFinite(value) && value !== 0 ? String(value) : '';
+  };
+
   const validateConditionValue = (): boolean => {
-    const value = parseFloat(conditionValue);
-    
-    if (isNaN(value)) {
-      Alert.alert('Invalid Value', 'Please enter a valid number');
-      return false;
+    if (portfolioRule) {
+      const ruleError = validatePortfolioRule(portfolioRule);
+      if (ruleError) {
+        Alert.alert('Invalid Condition', ruleError);
+        return false;
+      }
+      return true;
     }
 
-    if (selectedType === 'price_target' && value <= 0) {
-      Alert.alert('Invalid Value', 'Price target must be greater than 0');
-      return false;
+    if (condition) {
+      const conditionError = validateCondition(condition);
+      if (conditionError) {
+        Alert.alert('Invalid Condition', conditionError);
+        return false;
+      }
+      return true;
     }
 
-    if (selectedType === 'percentage_change' && (value === 0 || value < -100)) {
-      Alert.alert('Invalid Value', 'Percentage change must be non-zero and greater than -100%');
+    const value = parseFloat(conditionValue);
+    
+    if (isNaN(value)) {
+      Alert.alert('Invalid Value', 'Please enter a valid number');
       return false;
     }
 
@@ -187,7 +380,7 @@ export default function CreateAlertScreen({ navigation, route }: CreateAlertScre
   };
 
   const handleSubmit = async () => {
-    if (!selectedAsset || !selectedType || !conditionValue) {
+    if ((!selectedAsset && !selectedPortfolio && !watchedSymbol) || !selectedType || !isConditionComplete) {
       Alert.alert('Error', 'Please complete all fields');
       return;
     }
@@ -212,10 +405,32 @@ export default function CreateAlertScreen({ navigation, route }: CreateAlertScre
     setError(null);
 
     try {
-      await alertService.createAlert({
-        asset_id: selectedAsset.id,
-        alert_type: selectedType,
-        condition_value: parseFloat(conditionValue),
+      await alertService.createAlert(portfolioRule && selectedPortfolio ? {
+        asset_id: null,
+        portfolio_id: selectedPortfolio.id,
+        alert_type: portfolioRule.kind,
+        condition_value: getPortfolioRuleValue(portfolioRule),
+        portfolio_rule: portfolioRule,
+        frequency,
+        is_active: true,
+      } : {
+        ...(selectedAsset
+          ? { asset_id: selectedAsset.id }
+          : {
+              asset_id: null,
+              symbol: watchedSymbol?.symbol,
+              exchange: watchedSymbol?.exchange ?? null,
+              asset_type: watchedSymbol?.asset_type,
+            }),
+        ...(condition
+          ? {
+              alert_type: getConditionAlertType(condition),
+              condition_value: getConditionValue(condition),
+              condition,
+            }
+          : { alert_type: selectedType, condition_value: parseFloat(conditionValue) }),
+        // A maturity date only passes once
+        frequency: condition ? frequency : 'once',
         is_active: true,
       });
 
@@ -232,56 +447,48 @@ export default function CreateAlertScreen({ navigation, route }: CreateAlertScre
     }
   };
 
-  const getConditionLabel = (): string => {
-    switch (selectedType) {
-      case 'price_target':
-        return 'Target Price';
-      case 'percentage_change':
-        return 'Percentage Change (%)';
-      case 'maturity_reminder':
-        return 'Days Before Maturity';
-      default:
-        return 'Value';
-    }
-  };
-
-  const getConditionPlaceholder = (): string => {
-    switch (selectedType) {
-      case 'price_target':
-        return selectedAsset?.current_price 
-          ? `Current: ${selectedAsset.current_price.toFixed(2)}`
-          : 'Enter target price';
-      case 'percentage_change':
-        return 'e.g., 10 or -5';
-      case 'maturity_reminder':
-        return 'e.g., 30';
-      default:
-        return 'Enter value';
-    }
-  };
-
-  const getConditionHint = (): string => {
-    switch (selectedType) {
-      case 'price_target':
-        return 'You will be notified when the asset price reaches this value.';
-      case 'percentage_change':
-        return 'Enter a positive value for price increase or negative for decrease.';
-      case 'maturity_reminder':
-        return 'You will be reminded this many days before the asset matures.';
-      default:
-        return '';
-    }
-  };
-
   const getAlertTypeColor = (alertType: AlertType): string => {
     switch (alertType) {
       case 'price_target': return '#10B981';
       case 'percentage_change': return '#F59E0B';
+      case 'condition': return '#8B5CF6';
       case 'maturity_reminder': return '#6366F1';
+      case 'portfolio_value': return '#0EA5E9';
+      case 'portfolio_drawdown': return '#DC2626';
+      case 'allocation_drift': return '#14B8A6';
+      case 'concentration': return '#F97316';
       default: return '#687076';
     }
   };
 
+  const renderPortfolioItem = (portfolio: Portfolio) => (
+    <TouchableOpacity
+      key={portfolio.id}
+      style={[
+        styles.assetItem,
+        selectedPortfolio?.id === portfolio.id && styles.assetItemSelected,
+      ]}
+      onPress={() => handleSelectPortfolio(portfolio)}
+    >
+      <View style={styles.assetIcon}>
+        <Ionicons name="briefcase" size={24} color="#0a7ea4" />
+      </View>
+      <View style={styles.assetInfo}>
+        <Text style={styles.assetName}>{portfolio.name}</Text>
+        <Text style={styles.assetType}>Whole portfolio</Text>
+      </View>
+      <Ionicons name="chevron-forward" size={20} color="#687076" />
+    </TouchableOpacity>
+  );
+
+  const renderAssetListHeader = () => (
+    <>
+      <Text style={styles.sectionLabel}>Portfolios</Text>
+      {portfolios.map(renderPortfolioItem)}
+      <Text style={styles.sectionLabel}>Holdings</Text>
+    </>
+  );
+
   const renderAssetItem = ({ item }: { item: Asset }) => (
     <TouchableOpacity
       style={[
@@ -292,14 +499,14 @@ export default function CreateAlertScreen({ navigation, route }: CreateAlertScre
     >
       <View style={styles.assetIcon}>
         <Ionicons 
-          name={getAssetTypeIcon(item.asset_type)} 
+          name={getAssetTypeInfo(item.asset_type).icon} 
           size={24} 
           color="#0a7ea4" 
         />
       </View>
       <View style={styles.assetInfo}>
         <Text style={styles.assetName}>{item.symbol || item.name}</Text>
-        <Text style={styles.assetType}>{formatAssetType(item.asset_type)}</Text>
+        <Text style={styles.assetType}>{getAssetTypeInfo(item.asset_type).label}</Text>
       </View>
       {item.current_price && (
         <Text style={styles.assetPrice}>
@@ -330,6 +537,148 @@ export default function CreateAlertScreen({ navigation, route }: CreateAlertScre
     </TouchableOpacity>
   );
 
+  const renderRule = (rule: AlertRule, index: number, removable: boolean) => (
+    <View key={index} style={styles.ruleCard}>
+      <View style={styles.ruleHeader}>
+        <Text style={styles.ruleTitle}>{describeRule(rule)}</Text>
+        {removable && (
+          <TouchableOpacity onPress={() => handleRemoveRule(index)} accessibilityLabel="Remove rule">
+            <Ionicons name="close-circle" size={20} color="#9CA3AF" />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+        {RULE_KINDS.map((kind) => (
+          <TouchableOpacity
+            key={kind}
+            style={[styles.chip, rule.kind === kind && styles.chipActive]}
+            onPress={() => handleChangeRuleKind(index, kind)}
+          >
+            <Text style={[styles.chipText, rule.kind === kind && styles.chipTextActive]}>
+              {RULE_KIND_LABELS[kind]}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+
+      {'direction' in rule && (
+        <View style={[styles.chipRow, styles.ruleOptions]}>
+          {(['above', 'below'] as const).map((direction) => (
+            <TouchableOpacity
+              key={direction}
+              style={[styles.chip, rule.direction === direction && styles.chipActive]}
+              onPress={() => updateRule(index, { ...rule, direction })}
+            >
+              <Text style={[styles.chipText, rule.direction === direction && styles.chipTextActive]}>
+                {direction === 'above' ? 'Above' : 'Below'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      {rule.kind === 'week_52' && (
+        <View style={[styles.chipRow, styles.ruleOptions]}>
+          {(['high', 'low'] as const).map((extreme) => (
+            <TouchableOpacity
+              key={extreme}
+              style={[styles.chip, rule.extreme === extreme && styles.chipActive]}
+              onPress={() => updateRule(index, { ...rule, extreme })}
+            >
+              <Text style={[styles.chipText, rule.extreme === extreme && styles.chipTextActive]}>
+                {extreme === 'high' ? 'New high' : 'New low'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      {RULE_FIELDS[rule.kind].length > 0 && (
+        <View style={styles.ruleFields}>
+          {RULE_FIELDS[rule.kind].map((field) => (
+            <View key={field.key} style={styles.ruleField}>
+              <Text style={styles.ruleFieldLabel}>{field.label}</Text>
+              <TextInput
+                style={styles.ruleInput}
+                value={getFieldText(index, rule, field.key)}
+                onChangeText={(text) => handleChangeRuleField(index, rule, field.key, text)}
+                placeholder={field.key === 'price' && subjectPrice ? subjectPrice.toFixed(2) : '0'}
+                placeholderTextColor="#9CA3AF"
+                keyboardType={field.integer ? 'number-pad' : 'numeric'}
+              />
+            </View>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+
+  const renderPortfolioRule = (rule: PortfolioAlertRule) => (
+    <View style={styles.inputContainer}>
+      <View style={styles.ruleCard}>
+        <Text style={[styles.ruleTitle, styles.ruleHeader]}>
+          {describePortfolioRule(rule, format, (type) => getAssetTypeInfo(type).label)}
+        </Text>
+
+        {rule.kind === 'portfolio_value' && (
+          <View style={styles.chipRow}>
+            {(['above', 'below'] as const).map((direction) => (
+              <TouchableOpacity
+                key={direction}
+                style={[styles.chip, rule.direction === direction && styles.chipActive]}
+                onPress={() => setPortfolioRule({ ...rule, direction })}
+              >
+                <Text style={[styles.chipText, rule.direction === direction && styles.chipTextActive]}>
+                  {direction === 'above' ? 'Above' : 'Below'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
+        {rule.kind === 'allocation_drift' && (
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+            {Object.keys(getTypeWeights(portfolioHoldings)).map((assetType) => (
+              <TouchableOpacity
+                key={assetType}
+                style={[styles.chip, rule.asset_type === assetType && styles.chipActive]}
+                onPress={() => handleChangeDriftType(assetType)}
+              >
+                <Text style={[styles.chipText, rule.asset_type === assetType && styles.chipTextActive]}>
+                  {getAssetTypeInfo(assetType).label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        )}
+
+        <View style={styles.ruleFields}>
+          {PORTFOLIO_RULE_FIELDS[rule.kind].map((field) => (
+            <View key={field.key} style={styles.ruleField}>
+              <Text style={styles.ruleFieldLabel}>{field.label}</Text>
+              <TextInput
+                style={styles.ruleInput}
+                value={getFieldText(0, rule, field.key)}
+                onChangeText={(text) => handleChangePortfolioField(rule, field.key, text)}
+                placeholder="0"
+                placeholderTextColor="#9CA3AF"
+                keyboardType="numeric"
+              />
+            </View>
+          ))}
+        </View>
+      </View>
+      <Text style={styles.inputHint}>
+        {rule.kind === 'portfolio_value'
+          ? `Value of the holdings in ${currency}, checked against the previous close.`
+          : rule.kind === 'allocation_drift'
+          ? 'The target starts from the portfolio\'s allocation target when one is set.'
+          : 'Weights are measured on the value of the holdings.'}
+      </Text>
+    </View>
+  );
+
   const renderPremiumUpsell = () => (
     <View style={styles.premiumBanner}>
       <View style={styles.premiumIconContainer}>
@@ -413,7 +762,7 @@ export default function CreateAlertScreen({ navigation, route }: CreateAlertScre
       {/* Step 1: Asset Selection */}
       {step === 'asset' && (
         <View style={styles.stepContainer}>
-          <Text style={styles.stepTitle}>Choose an asset for your alert</Text>
+          <Text style={styles.stepTitle}>Choose a portfolio or asset for your alert</Text>
           {assets.length === 0 ? (
             <View style={styles.emptyContainer}>
               <Ionicons name="wallet-outline" size={48} color="#D1D5DB" />
@@ -426,6 +775,7 @@ export default function CreateAlertScreen({ navigation, route }: CreateAlertScre
             <FlatList
               data={assets}
               renderItem={renderAssetItem}
+              ListHeaderComponent={renderAssetListHeader}
               keyExtractor={(item) => item.id}
               contentContainerStyle={styles.assetList}
               showsVerticalScrollIndicator={false}
@@ -438,16 +788,16 @@ export default function CreateAlertScreen({ navigation, route }: CreateAlertScre
       {step === 'type' && (
         <ScrollView style={styles.stepContainer} showsVerticalScrollIndicator={false}>
           <Text style={styles.stepTitle}>Select alert type</Text>
-          {selectedAsset && (
+          {subjectName && (
             <View style={styles.selectedAssetBadge}>
               <Ionicons name="checkmark-circle" size={16} color="#10B981" />
               <Text style={styles.selectedAssetText}>
-                {selectedAsset.symbol || selectedAsset.name}
+                {subjectName}
               </Text>
             </View>
           )}
           <View style={styles.alertTypeList}>
-            {ALERT_TYPES.map(renderAlertTypeItem)}
+            {alertTypes.map(renderAlertTypeItem)}
           </View>
         </ScrollView>
       )}
@@ -464,42 +814,105 @@ export default function CreateAlertScreen({ navigation, route }: CreateAlertScre
             {/* Selected asset and type summary */}
             <View style={styles.summaryContainer}>
               <View style={styles.summaryRow}>
-                <Text style={styles.summaryLabel}>Asset:</Text>
+                <Text style={styles.summaryLabel}>
+                  {selectedPortfolio ? 'Portfolio:' : selectedAsset ? 'Asset:' : 'Symbol:'}
+                </Text>
                 <Text style={styles.summaryValue}>
-                  {selectedAsset?.symbol || selectedAsset?.name}
+                  {subjectName}
                 </Text>
               </View>
               <View style={styles.summaryRow}>
                 <Text style={styles.summaryLabel}>Alert Type:</Text>
                 <Text style={styles.summaryValue}>
-                  {ALERT_TYPES.find(t => t.type === selectedType)?.label}
+                  {alertTypes.find(t => t.type === selectedType)?.label}
                 </Text>
               </View>
             </View>
 
             {/* Condition input */}
-            <View style={styles.inputContainer}>
-              <Text style={styles.inputLabel}>{getConditionLabel()}</Text>
-              <TextInput
-                style={styles.input}
-                value={conditionValue}
-                onChangeText={setConditionValue}
-                placeholder={getConditionPlaceholder()}
-                placeholderTextColor="#9CA3AF"
-                keyboardType="numeric"
-                autoFocus
-              />
-              <Text style={styles.inputHint}>{getConditionHint()}</Text>
-            </View>
+            {portfolioRule ? (
+              renderPortfolioRule(portfolioRule)
+            ) : condition ? (
+              <View style={styles.inputContainer}>
+                {condition.rules.length > 1 && (
+                  <>
+                    <Text style={styles.inputLabel}>Trigger when</Text>
+                    <View style={[styles.chipRow, styles.operatorRow]}>
+                      {(['and', 'or'] as const).map((operator) => (
+                        <TouchableOpacity
+                          key={operator}
+                          style={[styles.chip, condition.operator === operator && styles.chipActive]}
+                          onPress={() => setCondition({ ...condition, operator })}
+                        >
+                          <Text style={[styles.chipText, condition.operator === operator && styles.chipTextActive]}>
+                            {operator === 'and' ? 'All rules match' : 'Any rule matches'}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                  </>
+                )}
+
+                {condition.rules.map((rule, index) => renderRule(rule, index, condition.rules.length > 1))}
+
+                {condition.rules.length < MAX_CONDITION_RULES && (
+                  <TouchableOpacity style={styles.addRuleButton} onPress={handleAddRule}>
+                    <Ionicons name="add-circle-outline" size={18} color="#0a7ea4" />
+                    <Text style={styles.addRuleText}>Add Rule</Text>
+                  </TouchableOpacity>
+                )}
+                <Text style={styles.inputHint}>
+                  Indicators use daily closes; crossings fire on the day the level is crossed.
+                </Text>
+              </View>
+            ) : (
+              <View style={styles.inputContainer}>
+                <Text style={styles.inputLabel}>Days Before Maturity</Text>
+                <TextInput
+                  style={styles.input}
+                  value={conditionValue}
+                  onChangeText={setConditionValue}
+                  placeholder="e.g., 30"
+                  placeholderTextColor="#9CA3AF"
+                  keyboardType="numeric"
+                  autoFocus
+                />
+                <Text style={styles.inputHint}>You will be reminded this many days before the asset matures.</Text>
+              </View>
+            )}
+
+            {selectedType !== 'maturity_reminder' && (
+              <View style={styles.inputContainer}>
+                <Text style={styles.inputLabel}>Notify me</Text>
+                <View style={styles.chipRow}>
+                  {ALERT_FREQUENCIES.map((option) => (
+                    <TouchableOpacity
+                      key={option}
+                      style={[styles.chip, frequency === option && styles.chipActive]}
+                      onPress={() => setFrequency(option)}
+                    >
+                      <Text style={[styles.chipText, frequency === option && styles.chipTextActive]}>
+                        {ALERT_FREQUENCY_LABELS[option]}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+                <Text style={styles.inputHint}>
+                  {frequency === 'once'
+                    ? 'The alert switches off after it fires until you re-arm it.'
+                    : 'The alert stays on and fires each time the condition is met.'}
+                </Text>
+              </View>
+            )}
 
             {/* Submit button */}
             <TouchableOpacity
               style={[
                 styles.submitButton,
-                (!conditionValue || isSubmitting || !canCreateAlert) && styles.submitButtonDisabled,
+                (!isConditionComplete || isSubmitting || !canCreateAlert) && styles.submitButtonDisabled,
               ]}
               onPress={handleSubmit}
-              disabled={!conditionValue || isSubmitting || !canCreateAlert}
+              disabled={!isConditionComplete || isSubmitting || !canCreateAlert}
             >
               {isSubmitting ? (
                 <ActivityIndicator size="small" color="#FFFFFF" />
@@ -517,35 +930,6 @@ export default function CreateAlertScreen({ navigation, route }: CreateAlertScre
   );
 }
 
-// Helper functions
-function getAssetTypeIcon(assetType: string): keyof typeof Ionicons.glyphMap {
-  switch (assetType) {
-    case 'stock': return 'trending-up';
-    case 'crypto': return 'logo-bitcoin';
-    case 'bond': return 'document-text';
-    case 'mutual_fund': return 'pie-chart';
-    case 'etf': return 'layers';
-    case 'real_estate': return 'home';
-    case 'commodity': return 'cube';
-    case 'forex': return 'swap-horizontal';
-    default: return 'wallet';
-  }
-}
-
-function formatAssetType(assetType: string): string {
-  const typeMap: Record<string, string> = {
-    stock: 'Stock',
-    crypto: 'Cryptocurrency',
-    bond: 'Bond',
-    mutual_fund: 'Mutual Fund',
-    etf: 'ETF',
-    real_estate: 'Real Estate',
-    commodity: 'Commodity',
-    forex: 'Forex',
-  };
-  return typeMap[assetType] || assetType;
-}
-
 const styles = StyleSheet.create({
   container: {
     flex: 1,
@@ -692,6 +1076,14 @@ const styles = StyleSheet.create({
     color: '#11181C',
     marginBottom: 16,
   },
+  sectionLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#687076',
+    textTransform: 'uppercase',
+    marginBottom: 8,
+    marginTop: 8,
+  },
   emptyContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -849,6 +1241,87 @@ const styles = StyleSheet.create({
     color: '#687076',
     marginTop: 8,
   },
+  chipRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    backgroundColor: '#FFFFFF',
+  },
+  chipActive: {
+    borderColor: '#0a7ea4',
+    backgroundColor: '#0a7ea4',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#687076',
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  operatorRow: {
+    marginBottom: 12,
+  },
+  ruleCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+  },
+  ruleHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  ruleTitle: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#11181C',
+  },
+  ruleOptions: {
+    marginTop: 12,
+  },
+  ruleFields: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 12,
+  },
+  ruleField: {
+    flex: 1,
+  },
+  ruleFieldLabel: {
+    fontSize: 12,
+    color: '#687076',
+    marginBottom: 4,
+  },
+  ruleInput: {
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 16,
+    color: '#11181C',
+  },
+  addRuleButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 6,
+    paddingVertical: 4,
+  },
+  addRuleText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#0a7ea4',
+  },
   submitButton: {
     flexDirection: 'row',
     alignItems: 'center',
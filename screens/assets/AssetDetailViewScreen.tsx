@@ -2,7 +2,7 @@
  * Asset Detail View Screen
  * 
  * Displays detailed information about an existing asset
- * Includes performance chart, key metrics, and edit/delete actions
+ * Includes performance chart, key metrics, transaction ledger, and edit/delete actions
  * Requirements: 3, 4
  */
 
@@ -17,13 +17,75 @@ import {
   ActivityIndicator,
   Alert,
   RefreshControl,
-  Dimensions,
+  Modal,
+  TextInput,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
-import { LineChart } from 'react-native-chart-kit';
-import { assetService, priceHistoryService } from '@/services/api';
-
-const { width: SCREEN_WIDTH } = Dimensions.get('window');
+import PriceChart from '@/components/charts/PriceChart';
+import { assetService, liabilityService, priceHistoryService, profileService } from '@/services/api';
+import { fxService } from '@/services/fxService';
+import { fixedIncomeService } from '@/services/fixedIncomeService';
+import { realEstateService } from '@/services/realEstateService';
+import {
+  addToOfflineQueue,
+  cacheIncomeEvents,
+  cacheLiabilities,
+  cacheTransactions,
+  getCachedIncomeEvents,
+  getCachedLiabilities,
+  getCachedTransactions,
+} from '@/services/offlineStorage';
+import type {
+  AssetTransaction,
+  CostBasisMethod,
+  IncomeEvent,
+  IncomeType,
+  Liability,
+  TransactionType,
+} from '@/services/offlineStorage';
+import {
+  calculateUnrealizedGain,
+  derivePosition,
+  getAssetLedger,
+  isInflow,
+  validateDeletion,
+  validateTransaction,
+  TRANSACTION_TYPE_LABELS,
+  COST_BASIS_METHOD_LABELS,
+  DEFAULT_COST_BASIS_METHOD,
+} from '@/utils/ledger';
+import {
+  calculateFxBreakdown,
+  DEFAULT_CURRENCY,
+  formatMoney,
+  getFxRate,
+  type FxContext,
+} from '@/utils/currency';
+import { buildReturnsInput, calculatePeriodReturn } from '@/utils/returns';
+import { getAssetTypeInfo } from '@/utils/assetTypes';
+import { useOfflineStatus } from '@/hooks/useOfflineStatus';
+import {
+  addMonths,
+  getDefaultIncomeType,
+  INCOME_TYPE_LABELS,
+  INCOME_TYPES,
+  PAYMENT_FREQUENCY_LABELS,
+  projectIncome,
+  sumIncome,
+} from '@/utils/income';
+import {
+  buildCashFlowSchedule,
+  DAY_COUNT_LABELS,
+  isFixedIncomeType,
+  valueFixedIncome,
+} from '@/utils/fixedIncome';
+import {
+  buildAmortizationSchedule,
+  isRealEstateType,
+  summarizeAmortization,
+  valueRealEstate,
+} from '@/utils/realEstate';
+import { getLiabilityTerms } from '@/utils/liabilities';
 
 interface AssetDetailViewScreenProps {
   route: {
@@ -45,6 +107,7 @@ interface Asset {
   purchase_price: number;
   purchase_date: string;
   current_price?: number;
+  currency?: string;
   metadata?: Record<string, any>;
   created_at: string;
   updated_at: string;
@@ -53,26 +116,124 @@ interface Asset {
 interface PriceHistoryPoint {
   timestamp: string;
   price: number;
+  volume?: number | null;
 }
 
 const TIME_PERIODS = ['1D', '1W', '1M', '3M', '1Y', 'ALL'] as const;
 type TimePeriod = typeof TIME_PERIODS[number];
 
+const TRANSACTION_TYPES: TransactionType[] = ['buy', 'sell', 'transfer_in', 'transfer_out'];
+
+// Upcoming fixed income payments, or mortgage years, listed before summarising the rest
+const MAX_SCHEDULE_ROWS = 8;
+
+function formatDate(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
 export default function AssetDetailViewScreen({ route, navigation }: AssetDetailViewScreenProps) {
   const { assetId, portfolioId } = route.params;
+  const { isOffline } = useOfflineStatus();
   
   const [asset, setAsset] = useState<Asset | null>(null);
   const [priceHistory, setPriceHistory] = useState<PriceHistoryPoint[]>([]);
+  const [transactions, setTransactions] = useState<AssetTransaction[]>([]);
+  const [costBasisMethod, setCostBasisMethod] = useState<CostBasisMethod>(DEFAULT_COST_BASIS_METHOD);
+  const [fx, setFx] = useState<FxContext>({ currency: DEFAULT_CURRENCY, rates: {} });
   const [selectedPeriod, setSelectedPeriod] = useState<TimePeriod>('1M');
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // Transaction form state
+  const [transactionModalVisible, setTransactionModalVisible] = useState(false);
+  const [transactionType, setTransactionType] = useState<TransactionType>('buy');
+  const [transactionQuantity, setTransactionQuantity] = useState('');
+  const [transactionPrice, setTransactionPrice] = useState('');
+  const [transactionFees, setTransactionFees] = useState('');
+  const [transactionDate, setTransactionDate] = useState(formatDate(new Date()));
+  const [transactionLotId, setTransactionLotId] = useState<string | undefined>(undefined);
+  const [isSavingTransaction, setIsSavingTransaction] = useState(false);
+
+  // Income form state
+  const [incomeEvents, setIncomeEvents] = useState<IncomeEvent[]>([]);
+  const [linkedLiabilities, setLinkedLiabilities] = useState<Liability[]>([]);
+  const [incomeModalVisible, setIncomeModalVisible] = useState(false);
+  const [incomeType, setIncomeType] = useState<IncomeType>('dividend');
+  const [incomeAmount, setIncomeAmount] = useState('');
+  const [incomeDate, setIncomeDate] = useState(formatDate(new Date()));
+  const [isSavingIncome, setIsSavingIncome] = useState(false);
+
+  // Revaluation modal state
+  const [revaluationModalVisible, setRevaluationModalVisible] = useState(false);
+  const [revaluationValue, setRevaluationValue] = useState('');
+  const [revaluationDate, setRevaluationDate] = useState(formatDate(new Date()));
+  const [isSavingRevaluation, setIsSavingRevaluation] = useState(false);
+
+  const fetchTransactions = useCallback(async (): Promise<AssetTransaction[]> => {
+    try {
+      const ledger = await assetService.getTransactions(assetId);
+      setTransactions(ledger);
+      await cacheTransactions([assetId], ledger);
+      return ledger;
+    } catch {
+      // Fall back to the cached ledger when the server is unreachable
+      const cached = await getCachedTransactions(assetId);
+      setTransactions(cached);
+      return cached;
+    }
+  }, [assetId]);
+
+  const fetchIncomeEvents = useCallback(async () => {
+    try {
+      const events = await assetService.getIncomeEvents([assetId]);
+      setIncomeEvents(events);
+      await cacheIncomeEvents([assetId], events);
+    } catch {
+      // Fall back to the cached income when the server is unreachable
+      setIncomeEvents(await getCachedIncomeEvents([assetId]));
+    }
+  }, [assetId]);
+
   const fetchAssetData = useCallback(async () => {
     try {
       setError(null);
-      const assetData = await assetService.getAsset(assetId);
+      const [assetData] = await fixedIncomeService.refreshValuations([await assetService.getAsset(assetId)]);
       setAsset(assetData);
+      const ledger = await fetchTransactions();
+      await fetchIncomeEvents();
+
+      // Loans recorded against a property replace the mortgage entered on it
+      if (isRealEstateType(assetData.asset_type)) {
+        const liabilities = await liabilityService
+          .getLiabilities()
+          .then(async (remote) => {
+            await cacheLiabilities(remote);
+            return remote;
+          })
+          .catch(() => getCachedLiabilities());
+        setLinkedLiabilities(liabilities.filter((liability) => liability.asset_id === assetId));
+      }
+
+      const profile = await profileService.getProfile().catch(() => null);
+      setCostBasisMethod(profile?.cost_basis_method || DEFAULT_COST_BASIS_METHOD);
+
+      // Totals are shown in the preferred currency, with cost at acquisition-date rates
+      const preferredCurrency = profile?.currency_preference || DEFAULT_CURRENCY;
+      if ((assetData.currency || DEFAULT_CURRENCY) !== preferredCurrency) {
+        const latestRates = await fxService.getLatestRates();
+        const historicalRates = await fxService.getRatesForDates(
+          getAssetLedger(assetData, ledger)
+            .filter((t) => isInflow(t.transaction_type))
+            .map((t) => t.transaction_date)
+        );
+        setFx({ currency: preferredCurrency, rates: latestRates?.rates ?? {}, historicalRates });
+      } else {
+        setFx({ currency: preferredCurrency, rates: {} });
+      }
       
       // Fetch price history
       const history = await priceHistoryService.getPriceHistory(assetId, selectedPeriod);
@@ -83,7 +244,7 @@ export default function AssetDetailViewScreen({ route, navigation }: AssetDetail
       setIsLoading(false);
       setIsRefreshing(false);
     }
-  }, [assetId, selectedPeriod]);
+  }, [assetId, selectedPeriod, fetchTransactions, fetchIncomeEvents]);
 
   useEffect(() => {
     fetchAssetData();
@@ -125,69 +286,270 @@ export default function AssetDetailViewScreen({ route, navigation }: AssetDetail
     );
   };
 
+  const openTransactionModal = (type: TransactionType) => {
+    setTransactionType(type);
+    setTransactionQuantity('');
+    setTransactionPrice(asset?.current_price?.toString() || '');
+    setTransactionFees('');
+    setTransactionDate(formatDate(new Date()));
+    setTransactionLotId(undefined);
+    setTransactionModalVisible(true);
+  };
+
+  const handleSaveTransaction = async () => {
+    if (!asset) return;
+
+    const input = {
+      transaction_type: transactionType,
+      quantity: Number(transactionQuantity),
+      price: Number(transactionPrice),
+      fees: transactionFees.trim() ? Number(transactionFees) : 0,
+      transaction_date: transactionDate.trim(),
+      lot_id: !isInflow(transactionType) && costBasisMethod === 'specific' ? transactionLotId : undefined,
+    };
+
+    const validationError = validateTransaction(getAssetLedger(asset, transactions), input);
+    if (validationError) {
+      Alert.alert('Invalid Transaction', validationError);
+      return;
+    }
+
+    setIsSavingTransaction(true);
+    try {
+      // Legacy assets have no stored ledger yet, so persist the opening lot first
+      const opening = transactions.length === 0 && asset.quantity > 0
+        ? {
+          transaction_type: 'buy' as const,
+          quantity: asset.quantity,
+          price: asset.purchase_price,
+          fees: 0,
+          transaction_date: asset.purchase_date,
+        }
+        : null;
+
+      if (isOffline) {
+        if (opening) await addToOfflineQueue({ type: 'CREATE_TRANSACTION', payload: { assetId, ...opening } });
+        await addToOfflineQueue({ type: 'CREATE_TRANSACTION', payload: { assetId, ...input } });
+        setTransactionModalVisible(false);
+        Alert.alert('Saved Offline', "The transaction will be recorded when you're back online.");
+        return;
+      }
+
+      if (opening) await assetService.addTransaction(assetId, opening);
+      await assetService.addTransaction(assetId, input);
+      setTransactionModalVisible(false);
+      await fetchAssetData();
+    } catch (err: any) {
+      Alert.alert('Error', err.message || 'Failed to save transaction');
+    } finally {
+      setIsSavingTransaction(false);
+    }
+  };
+
+  const openIncomeModal = () => {
+    setIncomeType(getDefaultIncomeType(asset?.asset_type || ''));
+    setIncomeAmount('');
+    setIncomeDate(formatDate(new Date()));
+    setIncomeModalVisible(true);
+  };
+
+  const handleSaveIncome = async () => {
+    if (!asset) return;
+
+    const amount = Number(incomeAmount);
+    if (!incomeAmount.trim() || isNaN(amount) || amount <= 0) {
+      Alert.alert('Invalid Income', 'Amount must be a positive number');
+      return;
+    }
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(incomeDate.trim())) {
+      Alert.alert('Invalid Income', 'Invalid date format (use YYYY-MM-DD)');
+      return;
+    }
+
+    setIsSavingIncome(true);
+    try {
+      await assetService.addIncomeEvent(assetId, {
+        income_type: incomeType,
+        amount,
+        currency: asset.currency || DEFAULT_CURRENCY,
+        payment_date: incomeDate.trim(),
+      });
+      setIncomeModalVisible(false);
+      await fetchIncomeEvents();
+    } catch (err: any) {
+      Alert.alert('Error', err.message || 'Failed to save income');
+    } finally {
+      setIsSavingIncome(false);
+    }
+  };
+
+  const openRevaluationModal = () => {
+    setRevaluationValue('');
+    setRevaluationDate(formatDate(new Date()));
+    setRevaluationModalVisible(true);
+  };
+
+  const handleSaveRevaluation = async () => {
+    if (!asset) return;
+
+    const value = Number(revaluationValue);
+    const date = revaluationDate.trim();
+    if (!revaluationValue.trim() || isNaN(value) || value <= 0) {
+      Alert.alert('Invalid Valuation', 'Value must be a positive number');
+      return;
+    }
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(Date.parse(date))) {
+      Alert.alert('Invalid Valuation', 'Invalid date format (use YYYY-MM-DD)');
+      return;
+    }
+    if (date > formatDate(new Date())) {
+      Alert.alert('Invalid Valuation', 'Valuation date cannot be in the future');
+      return;
+    }
+
+    setIsSavingRevaluation(true);
+    try {
+      await realEstateService.recordRevaluation(asset, value, date);
+      setRevaluationModalVisible(false);
+      await fetchAssetData();
+    } catch (err: any) {
+      Alert.alert('Error', err.message || 'Failed to save valuation');
+    } finally {
+      setIsSavingRevaluation(false);
+    }
+  };
+
+  const handleDeleteIncome = (event: IncomeEvent) => {
+    Alert.alert(
+      'Delete Income',
+      `Delete this ${INCOME_TYPE_LABELS[event.income_type].toLowerCase()} of ${formatMoney(event.amount, event.currency)}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await assetService.deleteIncomeEvent(event.id);
+              await fetchIncomeEvents();
+            } catch (err: any) {
+              Alert.alert('Error', err.message || 'Failed to delete income');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleDeleteTransaction = (transaction: AssetTransaction) => {
+    const validationError = validateDeletion(transactions, transaction.id);
+    if (validationError) {
+      Alert.alert('Cannot Delete Transaction', validationError);
+      return;
+    }
+
+    Alert.alert(
+      'Delete Transaction',
+      `Delete this ${TRANSACTION_TYPE_LABELS[transaction.transaction_type].toLowerCase()} of ${transaction.quantity} units?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              if (isOffline) {
+                await addToOfflineQueue({
+                  type: 'DELETE_TRANSACTION',
+                  payload: { assetId, transactionId: transaction.id },
+                });
+                // Show the ledger without it until the queued delete is synced
+                const remaining = transactions.filter((t) => t.id !== transaction.id);
+                setTransactions(remaining);
+                await cacheTransactions([assetId], remaining);
+                Alert.alert('Saved Offline', "The transaction will be deleted when you're back online.");
+                return;
+              }
+              await assetService.deleteTransaction(assetId, transaction.id);
+              await fetchAssetData();
+            } catch (err: any) {
+              Alert.alert('Error', err.message || 'Failed to delete transaction');
+            }
+          },
+        },
+      ]
+    );
+  };
+
   const calculateMetrics = () => {
     if (!asset) return null;
     
-    const currentPrice = asset.current_price || asset.purchase_price;
-    const totalValue = asset.quantity * currentPrice;
-    const totalCost = asset.quantity * asset.purchase_price;
+    const position = derivePosition(getAssetLedger(asset, transactions), costBasisMethod);
+    const currentPrice = asset.current_price || position.averageCost;
+    const nativeGain = calculateUnrealizedGain(position, currentPrice);
+    const priceChangePercent = position.costBasis > 0 ? ((nativeGain / position.costBasis) * 100) : 0;
+
+    // Totals in the preferred currency, or in the asset's own currency when
+    // there is no rate between them; prices stay in the asset's currency
+    const assetCurrency = asset.currency || DEFAULT_CURRENCY;
+    const preferredRate = getFxRate(assetCurrency, fx.currency, fx.rates);
+    const totalsFx: FxContext = preferredRate === null ? { currency: assetCurrency, rates: {} } : fx;
+    const rate = preferredRate ?? 1;
+    // totalsFx always has a rate for the asset's currency
+    const breakdown = calculateFxBreakdown(position.lots, currentPrice, assetCurrency, totalsFx)!;
+    const totalValue = breakdown.marketValue;
+    const totalCost = breakdown.costBasis;
     const gainLoss = totalValue - totalCost;
     const gainLossPercent = totalCost > 0 ? ((gainLoss / totalCost) * 100) : 0;
+    const incomeReceived = sumIncome(incomeEvents, totalsFx);
+
+    // Holding-level returns over the selected chart period
+    const periodReturn = calculatePeriodReturn(
+      buildReturnsInput(
+        [asset],
+        transactions,
+        priceHistory.map((point) => ({ asset_id: asset.id, price: point.price, timestamp: point.timestamp })),
+        [],
+        totalsFx,
+        incomeEvents
+      ),
+      selectedPeriod
+    );
     
     return {
       currentPrice,
+      priceChangePercent,
       totalValue,
       totalCost,
       gainLoss,
       gainLossPercent,
+      priceGain: breakdown.priceGain,
+      fxGain: breakdown.fxGain,
+      isForeign: assetCurrency !== totalsFx.currency,
+      totalsCurrency: totalsFx.currency,
+      isMissingRate: preferredRate === null,
+      realizedGain: position.realizedGain * rate,
+      quantity: position.quantity,
+      averageCost: position.averageCost,
+      firstAcquiredDate: position.firstAcquiredDate,
+      lots: position.lots,
+      twr: periodReturn.twr,
+      xirr: periodReturn.xirr,
+      incomeReceived,
+      totalReturn: gainLoss + position.realizedGain * rate + incomeReceived,
     };
   };
 
-  const getAssetTypeColor = (): string => {
-    switch (asset?.asset_type) {
-      case 'stock': return '#4CAF50';
-      case 'crypto': return '#FF9800';
-      case 'commodity': return '#9C27B0';
-      case 'real_estate': return '#2196F3';
-      case 'fixed_income': return '#607D8B';
-      default: return '#687076';
-    }
-  };
+  // Prices are in the asset's currency, totals in the preferred currency
+  const formatCurrency = (value: number): string => formatMoney(value, asset?.currency || DEFAULT_CURRENCY);
 
-  const formatCurrency = (value: number): string => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2,
-    }).format(value);
-  };
+  const formatTotal = (value: number): string => formatMoney(value, metrics?.totalsCurrency ?? fx.currency);
 
   const formatPercent = (value: number): string => {
     const sign = value >= 0 ? '+' : '';
     return `${sign}${value.toFixed(2)}%`;
   };
 
-  const getChartData = () => {
-    if (priceHistory.length === 0) {
-      // Return dummy data if no history
-      return {
-        labels: [''],
-        datasets: [{ data: [asset?.current_price || asset?.purchase_price || 0] }],
-      };
-    }
-    
-    const labels = priceHistory.map((_, index) => 
-      index % Math.ceil(priceHistory.length / 5) === 0 ? '' : ''
-    );
-    const data = priceHistory.map((p: PriceHistoryPoint) => p.price);
-    
-    return {
-      labels,
-      datasets: [{ data }],
-    };
-  };
-
   if (isLoading) {
     return (
       <SafeAreaView style={styles.container}>
@@ -214,6 +576,16 @@ export default function AssetDetailViewScreen({ route, navigation }: AssetDetail
   }
 
   const metrics = calculateMetrics();
+  const today = formatDate(new Date());
+  const upcomingPayments = projectIncome(asset, today, addMonths(today, 12)).slice(0, 4);
+  const fixedIncome = isFixedIncomeType(asset.asset_type) ? valueFixedIncome(asset, today) : null;
+  const cashFlows = fixedIncome ? buildCashFlowSchedule(fixedIncome.terms, today) : [];
+  const property = isRealEstateType(asset.asset_type)
+    ? valueRealEstate(asset, today, linkedLiabilities.length > 0 ? linkedLiabilities.map(getLiabilityTerms) : undefined)
+    : null;
+  const mortgageYears = property
+    ? summarizeAmortization(...property.loans.map((loan) => buildAmortizationSchedule(loan, today)))
+    : [];
 
   return (
     <SafeAreaView style={styles.container}>
@@ -241,19 +613,19 @@ export default function AssetDetailViewScreen({ route, navigation }: AssetDetail
       >
         {/* Asset Info Card */}
         <View style={styles.assetCard}>
-          <View style={[styles.assetTypeIndicator, { backgroundColor: getAssetTypeColor() }]} />
+          <View style={[styles.assetTypeIndicator, { backgroundColor: getAssetTypeInfo(asset.asset_type).color }]} />
           <View style={styles.assetInfo}>
             <Text style={styles.assetSymbol}>{asset.symbol || asset.name}</Text>
             <Text style={styles.assetName}>{asset.name}</Text>
-            <Text style={styles.assetType}>{asset.asset_type.replace('_', ' ').toUpperCase()}</Text>
+            <Text style={styles.assetType}>{getAssetTypeInfo(asset.asset_type).label.toUpperCase()}</Text>
           </View>
           <View style={styles.priceContainer}>
             <Text style={styles.currentPrice}>{formatCurrency(metrics?.currentPrice || 0)}</Text>
             <Text style={[
               styles.priceChange,
-              { color: (metrics?.gainLossPercent || 0) >= 0 ? '#10B981' : '#EF4444' }
+              { color: (metrics?.priceChangePercent || 0) >= 0 ? '#10B981' : '#EF4444' }
             ]}>
-              {formatPercent(metrics?.gainLossPercent || 0)}
+              {formatPercent(metrics?.priceChangePercent || 0)}
             </Text>
           </View>
         </View>
@@ -285,24 +657,10 @@ export default function AssetDetailViewScreen({ route, navigation }: AssetDetail
 
           {/* Chart */}
           <View style={styles.chartContainer}>
-            <LineChart
-              data={getChartData()}
-              width={SCREEN_WIDTH - 48}
-              height={200}
-              chartConfig={{
-                backgroundColor: '#FFFFFF',
-                backgroundGradientFrom: '#FFFFFF',
-                backgroundGradientTo: '#FFFFFF',
-                decimalPlaces: 2,
-                color: (opacity = 1) => `rgba(10, 126, 164, ${opacity})`,
-                labelColor: (opacity = 1) => `rgba(104, 112, 118, ${opacity})`,
-                style: { borderRadius: 16 },
-                propsForDots: { r: '0' },
-              }}
-              bezier
-              style={styles.chart}
-              withInnerLines={false}
-              withOuterLines={false}
+            <PriceChart
+              points={priceHistory}
+              period={selectedPeriod}
+              formatPrice={formatCurrency}
             />
           </View>
         </View>
@@ -310,47 +668,445 @@ export default function AssetDetailViewScreen({ route, navigation }: AssetDetail
         {/* Key Metrics */}
         <View style={styles.metricsSection}>
           <Text style={styles.sectionTitle}>Key Metrics</Text>
+          {metrics?.isMissingRate && (
+            <Text style={styles.emptyIncomeText}>
+              No exchange rate from {metrics.totalsCurrency} to {fx.currency} yet, so totals are in {metrics.totalsCurrency}.
+            </Text>
+          )}
           
           <View style={styles.metricsGrid}>
             <View style={styles.metricCard}>
               <Text style={styles.metricLabel}>Total Value</Text>
-              <Text style={styles.metricValue}>{formatCurrency(metrics?.totalValue || 0)}</Text>
+              <Text style={styles.metricValue}>{formatTotal(metrics?.totalValue || 0)}</Text>
             </View>
             
             <View style={styles.metricCard}>
               <Text style={styles.metricLabel}>Total Cost</Text>
-              <Text style={styles.metricValue}>{formatCurrency(metrics?.totalCost || 0)}</Text>
+              <Text style={styles.metricValue}>{formatTotal(metrics?.totalCost || 0)}</Text>
             </View>
             
             <View style={styles.metricCard}>
-              <Text style={styles.metricLabel}>Gain/Loss</Text>
+              <Text style={styles.metricLabel}>Unrealized Gain</Text>
               <Text style={[
                 styles.metricValue,
                 { color: (metrics?.gainLoss || 0) >= 0 ? '#10B981' : '#EF4444' }
               ]}>
-                {formatCurrency(metrics?.gainLoss || 0)}
+                {formatTotal(metrics?.gainLoss || 0)}
+              </Text>
+            </View>
+
+            {metrics?.isForeign && (
+              <>
+                <View style={styles.metricCard}>
+                  <Text style={styles.metricLabel}>Price Gain</Text>
+                  <Text style={[
+                    styles.metricValue,
+                    { color: metrics.priceGain >= 0 ? '#10B981' : '#EF4444' }
+                  ]}>
+                    {formatTotal(metrics.priceGain)}
+                  </Text>
+                </View>
+
+                <View style={styles.metricCard}>
+                  <Text style={styles.metricLabel}>FX Gain</Text>
+                  <Text style={[
+                    styles.metricValue,
+                    { color: metrics.fxGain >= 0 ? '#10B981' : '#EF4444' }
+                  ]}>
+                    {formatTotal(metrics.fxGain)}
+                  </Text>
+                </View>
+              </>
+            )}
+
+            <View style={styles.metricCard}>
+              <Text style={styles.metricLabel}>{selectedPeriod} Time-Weighted</Text>
+              <Text style={[
+                styles.metricValue,
+                { color: (metrics?.twr ?? 0) >= 0 ? '#10B981' : '#EF4444' }
+              ]}>
+                {metrics?.twr != null ? formatPercent(metrics.twr * 100) : '—'}
+              </Text>
+            </View>
+
+            <View style={styles.metricCard}>
+              <Text style={styles.metricLabel}>{selectedPeriod} Money-Weighted</Text>
+              <Text style={[
+                styles.metricValue,
+                { color: (metrics?.xirr ?? 0) >= 0 ? '#10B981' : '#EF4444' }
+              ]}>
+                {metrics?.xirr != null ? formatPercent(metrics.xirr * 100) : '—'}
+              </Text>
+            </View>
+
+            <View style={styles.metricCard}>
+              <Text style={styles.metricLabel}>Realized Gain</Text>
+              <Text style={[
+                styles.metricValue,
+                { color: (metrics?.realizedGain || 0) >= 0 ? '#10B981' : '#EF4444' }
+              ]}>
+                {formatTotal(metrics?.realizedGain || 0)}
               </Text>
             </View>
             
+            <View style={styles.metricCard}>
+              <Text style={styles.metricLabel}>Income Received</Text>
+              <Text style={styles.metricValue}>{formatTotal(metrics?.incomeReceived || 0)}</Text>
+            </View>
+
+            <View style={styles.metricCard}>
+              <Text style={styles.metricLabel}>Total Return</Text>
+              <Text style={[
+                styles.metricValue,
+                { color: (metrics?.totalReturn || 0) >= 0 ? '#10B981' : '#EF4444' }
+              ]}>
+                {formatTotal(metrics?.totalReturn || 0)}
+              </Text>
+            </View>
+
             <View style={styles.metricCard}>
               <Text style={styles.metricLabel}>Quantity</Text>
-              <Text style={styles.metricValue}>{asset.quantity.toLocaleString()}</Text>
+              <Text style={styles.metricValue}>{(metrics?.quantity || 0).toLocaleString()}</Text>
             </View>
             
             <View style={styles.metricCard}>
-              <Text style={styles.metricLabel}>Purchase Price</Text>
-              <Text style={styles.metricValue}>{formatCurrency(asset.purchase_price)}</Text>
+              <Text style={styles.metricLabel}>Average Cost</Text>
+              <Text style={styles.metricValue}>{formatCurrency(metrics?.averageCost || 0)}</Text>
             </View>
             
             <View style={styles.metricCard}>
-              <Text style={styles.metricLabel}>Purchase Date</Text>
+              <Text style={styles.metricLabel}>First Purchase</Text>
               <Text style={styles.metricValue}>
-                {new Date(asset.purchase_date).toLocaleDateString()}
+                {metrics?.firstAcquiredDate
+                  ? new Date(metrics.firstAcquiredDate).toLocaleDateString()
+                  : '—'}
               </Text>
             </View>
           </View>
         </View>
 
+        {/* Fixed Income Valuation */}
+        {fixedIncome && (
+          <View style={styles.metricsSection}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>Fixed Income</Text>
+              <Text style={styles.sectionSubtitle}>
+                {PAYMENT_FREQUENCY_LABELS[fixedIncome.terms.frequency]}
+                {' • '}{DAY_COUNT_LABELS[fixedIncome.terms.dayCount]}
+              </Text>
+            </View>
+
+            {!!asset.metadata?.closed_at && (
+              <Text style={styles.emptyIncomeText}>
+                Matured on {new Date(asset.metadata.closed_at).toLocaleDateString()}.
+                {' '}Proceeds of {formatCurrency(Number(asset.metadata.redemption_proceeds) || 0)} were recorded.
+              </Text>
+            )}
+
+            <View style={styles.metricsGrid}>
+              <View style={styles.metricCard}>
+                <Text style={styles.metricLabel}>Face Value</Text>
+                <Text style={styles.metricValue}>{formatCurrency(fixedIncome.terms.faceValue)}</Text>
+              </View>
+
+              <View style={styles.metricCard}>
+                <Text style={styles.metricLabel}>Coupon Rate</Text>
+                <Text style={styles.metricValue}>{fixedIncome.terms.couponRate.toFixed(2)}%</Text>
+              </View>
+
+              {!fixedIncome.isMatured && (
+                <>
+                  <View style={styles.metricCard}>
+                    <Text style={styles.metricLabel}>Yield to Maturity</Text>
+                    <Text style={styles.metricValue}>
+                      {fixedIncome.yieldToMaturity !== null ? `${fixedIncome.yieldToMaturity.toFixed(2)}%` : '—'}
+                    </Text>
+                  </View>
+
+                  <View style={styles.metricCard}>
+                    <Text style={styles.metricLabel}>Accrued Interest</Text>
+                    <Text style={styles.metricValue}>{formatCurrency(fixedIncome.accruedInterest)}</Text>
+                  </View>
+
+                  <View style={styles.metricCard}>
+                    <Text style={styles.metricLabel}>Current Value</Text>
+                    <Text style={styles.metricValue}>{formatCurrency(fixedIncome.currentValue)}</Text>
+                  </View>
+
+                  <View style={styles.metricCard}>
+                    <Text style={styles.metricLabel}>Next Coupon</Text>
+                    <Text style={styles.metricValue}>
+                      {fixedIncome.nextCouponDate ? new Date(fixedIncome.nextCouponDate).toLocaleDateString() : '—'}
+                    </Text>
+                  </View>
+                </>
+              )}
+
+              <View style={styles.metricCard}>
+                <Text style={styles.metricLabel}>Maturity</Text>
+                <Text style={styles.metricValue}>
+                  {new Date(fixedIncome.terms.maturityDate).toLocaleDateString()}
+                </Text>
+              </View>
+            </View>
+
+            {cashFlows.length > 0 && (
+              <>
+                <View style={[styles.sectionHeader, styles.scheduleHeader]}>
+                  <Text style={styles.scheduleTitle}>Cash-Flow Schedule</Text>
+                  <Text style={styles.sectionSubtitle}>
+                    {cashFlows.length} {cashFlows.length === 1 ? 'payment' : 'payments'} left
+                  </Text>
+                </View>
+                {cashFlows.slice(0, MAX_SCHEDULE_ROWS).map((flow) => (
+                  <View key={flow.date} style={styles.transactionRow}>
+                    <View style={styles.transactionInfo}>
+                      <Text style={styles.transactionType}>
+                        {flow.principal > 0 ? (flow.coupon > 0 ? 'Coupon + Principal' : 'Principal') : 'Coupon'}
+                      </Text>
+                      <Text style={styles.transactionDate}>{new Date(flow.date).toLocaleDateString()}</Text>
+                    </View>
+                    <Text style={styles.transactionPrice}>{formatCurrency(flow.total)}</Text>
+                  </View>
+                ))}
+                {cashFlows.length > MAX_SCHEDULE_ROWS && (
+                  <Text style={styles.emptyIncomeText}>
+                    Final payment of {formatCurrency(cashFlows[cashFlows.length - 1].total)} on
+                    {' '}{new Date(fixedIncome.terms.maturityDate).toLocaleDateString()}
+                  </Text>
+                )}
+              </>
+            )}
+          </View>
+        )}
+
+        {/* Real Estate Valuation */}
+        {property && (
+          <View style={styles.metricsSection}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>Property</Text>
+              <TouchableOpacity onPress={openRevaluationModal}>
+                <Text style={styles.sectionAction}>Record Valuation</Text>
+              </TouchableOpacity>
+            </View>
+
+            <View style={styles.metricsGrid}>
+              <View style={styles.metricCard}>
+                <Text style={styles.metricLabel}>Property Value</Text>
+                <Text style={styles.metricValue}>{formatCurrency(property.propertyValue)}</Text>
+              </View>
+
+              <View style={styles.metricCard}>
+                <Text style={styles.metricLabel}>Last Valued</Text>
+                <Text style={styles.metricValue}>
+                  {new Date(asset.metadata?.valued_at || asset.purchase_date).toLocaleDateString()}
+                </Text>
+              </View>
+
+              <View style={styles.metricCard}>
+                <Text style={styles.metricLabel}>Mortgage Balance</Text>
+                <Text style={styles.metricValue}>{formatCurrency(property.mortgageBalance)}</Text>
+              </View>
+
+              <View style={styles.metricCard}>
+                <Text style={styles.metricLabel}>Equity</Text>
+                <Text style={styles.metricValue}>{formatCurrency(property.equity)}</Text>
+              </View>
+
+              <View style={styles.metricCard}>
+                <Text style={styles.metricLabel}>Loan to Value</Text>
+                <Text style={styles.metricValue}>
+                  {property.loanToValue !== null ? `${property.loanToValue.toFixed(1)}%` : '—'}
+                </Text>
+              </View>
+
+              {property.mortgageBalance > 0 && (
+                <>
+                  <View style={styles.metricCard}>
+                    <Text style={styles.metricLabel}>Monthly Payment</Text>
+                    <Text style={styles.metricValue}>{formatCurrency(property.monthlyPayment)}</Text>
+                  </View>
+
+                  <View style={styles.metricCard}>
+                    <Text style={styles.metricLabel}>Paid Off</Text>
+                    <Text style={styles.metricValue}>
+                      {property.payoffDate ? new Date(property.payoffDate).toLocaleDateString() : 'Interest only'}
+                    </Text>
+                  </View>
+                </>
+              )}
+
+              <View style={styles.metricCard}>
+                <Text style={styles.metricLabel}>Annual Rent</Text>
+                <Text style={styles.metricValue}>{formatCurrency(property.annualRent)}</Text>
+              </View>
+
+              <View style={styles.metricCard}>
+                <Text style={styles.metricLabel}>Annual Expenses</Text>
+                <Text style={styles.metricValue}>{formatCurrency(property.annualExpenses)}</Text>
+              </View>
+
+              <View style={styles.metricCard}>
+                <Text style={styles.metricLabel}>Net Operating Income</Text>
+                <Text style={styles.metricValue}>{formatCurrency(property.netOperatingIncome)}</Text>
+              </View>
+
+              <View style={styles.metricCard}>
+                <Text style={styles.metricLabel}>Cap Rate</Text>
+                <Text style={styles.metricValue}>
+                  {property.capRate !== null ? `${property.capRate.toFixed(2)}%` : '—'}
+                </Text>
+              </View>
+
+              <View style={styles.metricCard}>
+                <Text style={styles.metricLabel}>Net Yield on Equity</Text>
+                <Text style={[
+                  styles.metricValue,
+                  property.netYield !== null && { color: property.netYield >= 0 ? '#10B981' : '#EF4444' }
+                ]}>
+                  {property.netYield !== null ? formatPercent(property.netYield) : '—'}
+                </Text>
+              </View>
+            </View>
+
+            {mortgageYears.length > 0 && (
+              <>
+                <View style={[styles.sectionHeader, styles.scheduleHeader]}>
+                  <Text style={styles.scheduleTitle}>Amortization</Text>
+                  <Text style={styles.sectionSubtitle}>
+                    {formatCurrency(property.monthlyPayment)} per month
+                  </Text>
+                </View>
+                {mortgageYears.slice(0, MAX_SCHEDULE_ROWS).map((year) => (
+                  <View key={year.year} style={styles.transactionRow}>
+                    <View style={styles.transactionInfo}>
+                      <Text style={styles.transactionType}>{year.year}</Text>
+                      <Text style={styles.transactionDate}>
+                        {formatCurrency(year.principal)} principal • {formatCurrency(year.interest)} interest
+                      </Text>
+                    </View>
+                    <Text style={styles.transactionPrice}>{formatCurrency(year.balance)}</Text>
+                  </View>
+                ))}
+                {mortgageYears.length > MAX_SCHEDULE_ROWS && (
+                  <Text style={styles.emptyIncomeText}>
+                    Repaid in full by {mortgageYears[mortgageYears.length - 1].year}
+                  </Text>
+                )}
+              </>
+            )}
+          </View>
+        )}
+
+        {/* Transaction Ledger */}
+        <View style={styles.metricsSection}>
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>Transactions</Text>
+            <Text style={styles.sectionSubtitle}>
+              {metrics?.lots.length || 0} open {metrics?.lots.length === 1 ? 'lot' : 'lots'}
+              {' • '}{COST_BASIS_METHOD_LABELS[costBasisMethod]}
+            </Text>
+          </View>
+
+          <View style={styles.transactionActions}>
+            <TouchableOpacity
+              style={[styles.transactionActionButton, styles.buyButton]}
+              onPress={() => openTransactionModal('buy')}
+            >
+              <Ionicons name="add" size={16} color="#FFFFFF" />
+              <Text style={styles.transactionActionText}>Buy</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.transactionActionButton, styles.sellButton]}
+              onPress={() => openTransactionModal('sell')}
+              disabled={(metrics?.quantity || 0) <= 0}
+            >
+              <Ionicons name="remove" size={16} color="#FFFFFF" />
+              <Text style={styles.transactionActionText}>Sell</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.transactionActionButton, styles.transferButton]}
+              onPress={() => openTransactionModal('transfer_in')}
+            >
+              <Ionicons name="swap-horizontal" size={16} color="#0a7ea4" />
+              <Text style={[styles.transactionActionText, styles.transferButtonText]}>Transfer</Text>
+            </TouchableOpacity>
+          </View>
+
+          {getAssetLedger(asset, transactions).slice().reverse().map((transaction) => {
+            const inflow = isInflow(transaction.transaction_type);
+            const isStored = transactions.some((t) => t.id === transaction.id);
+            return (
+              <TouchableOpacity
+                key={transaction.id}
+                style={styles.transactionRow}
+                onLongPress={isStored ? () => handleDeleteTransaction(transaction) : undefined}
+                accessibilityHint={isStored ? 'Long press to delete this transaction' : undefined}
+              >
+                <View style={styles.transactionInfo}>
+                  <Text style={styles.transactionType}>
+                    {TRANSACTION_TYPE_LABELS[transaction.transaction_type]}
+                  </Text>
+                  <Text style={styles.transactionDate}>
+                    {new Date(transaction.transaction_date).toLocaleDateString()}
+                  </Text>
+                </View>
+                <View style={styles.transactionAmounts}>
+                  <Text style={[styles.transactionQuantity, { color: inflow ? '#10B981' : '#EF4444' }]}>
+                    {inflow ? '+' : '-'}{transaction.quantity.toLocaleString()}
+                  </Text>
+                  <Text style={styles.transactionPrice}>
+                    @ {formatCurrency(transaction.price)}
+                  </Text>
+                </View>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        {/* Income */}
+        <View style={styles.metricsSection}>
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>Income</Text>
+            <TouchableOpacity onPress={openIncomeModal}>
+              <Text style={styles.sectionAction}>Record Income</Text>
+            </TouchableOpacity>
+          </View>
+
+          {upcomingPayments.map((payment) => (
+            <View key={payment.date} style={styles.transactionRow}>
+              <View style={styles.transactionInfo}>
+                <Text style={styles.transactionType}>
+                  {INCOME_TYPE_LABELS[payment.income_type]} (projected)
+                </Text>
+                <Text style={styles.transactionDate}>{new Date(payment.date).toLocaleDateString()}</Text>
+              </View>
+              <Text style={styles.transactionPrice}>{formatMoney(payment.amount, payment.currency)}</Text>
+            </View>
+          ))}
+
+          {incomeEvents.length === 0 && upcomingPayments.length === 0 && (
+            <Text style={styles.emptyIncomeText}>No income recorded yet</Text>
+          )}
+
+          {incomeEvents.slice().reverse().map((event) => (
+            <TouchableOpacity
+              key={event.id}
+              style={styles.transactionRow}
+              onLongPress={() => handleDeleteIncome(event)}
+              accessibilityHint="Long press to delete this income"
+            >
+              <View style={styles.transactionInfo}>
+                <Text style={styles.transactionType}>{INCOME_TYPE_LABELS[event.income_type]}</Text>
+                <Text style={styles.transactionDate}>{new Date(event.payment_date).toLocaleDateString()}</Text>
+              </View>
+              <Text style={[styles.transactionQuantity, { color: '#10B981' }]}>
+                +{formatMoney(event.amount, event.currency)}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
         {/* Additional Info for Non-Listed Assets */}
         {asset.metadata && Object.keys(asset.metadata).length > 0 && (
           <View style={styles.additionalSection}>
@@ -366,6 +1122,234 @@ export default function AssetDetailViewScreen({ route, navigation }: AssetDetail
           </View>
         )}
       </ScrollView>
+
+      {/* Add Transaction Modal */}
+      <Modal
+        visible={transactionModalVisible}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={() => setTransactionModalVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>Record Transaction</Text>
+
+            <View style={styles.typeSelector}>
+              {TRANSACTION_TYPES.map((type) => (
+                <TouchableOpacity
+                  key={type}
+                  style={[styles.typeChip, transactionType === type && styles.typeChipActive]}
+                  onPress={() => setTransactionType(type)}
+                >
+                  <Text style={[styles.typeChipText, transactionType === type && styles.typeChipTextActive]}>
+                    {TRANSACTION_TYPE_LABELS[type]}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {!isInflow(transactionType) && costBasisMethod === 'specific' && (metrics?.lots.length || 0) > 0 && (
+              <>
+                <Text style={styles.inputLabel}>Sell From Lot</Text>
+                <View style={styles.typeSelector}>
+                  {metrics?.lots.map((lot) => (
+                    <TouchableOpacity
+                      key={lot.transactionId}
+                      style={[styles.typeChip, transactionLotId === lot.transactionId && styles.typeChipActive]}
+                      onPress={() => setTransactionLotId(lot.transactionId)}
+                    >
+                      <Text style={[styles.typeChipText, transactionLotId === lot.transactionId && styles.typeChipTextActive]}>
+                        {new Date(lot.acquiredDate).toLocaleDateString()} • {lot.quantity.toLocaleString()} @ {formatCurrency(lot.costPerUnit)}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </>
+            )}
+
+            <Text style={styles.inputLabel}>Quantity</Text>
+            <TextInput
+              style={styles.input}
+              value={transactionQuantity}
+              onChangeText={setTransactionQuantity}
+              placeholder="0"
+              keyboardType="decimal-pad"
+              placeholderTextColor="#9CA3AF"
+            />
+
+            <Text style={styles.inputLabel}>
+              {transactionType === 'transfer_in' ? 'Cost per Unit' : 'Price per Unit'}
+            </Text>
+            <TextInput
+              style={styles.input}
+              value={transactionPrice}
+              onChangeText={setTransactionPrice}
+              placeholder="0.00"
+              keyboardType="decimal-pad"
+              placeholderTextColor="#9CA3AF"
+            />
+
+            <Text style={styles.inputLabel}>Fees (optional)</Text>
+            <TextInput
+              style={styles.input}
+              value={transactionFees}
+              onChangeText={setTransactionFees}
+              placeholder="0.00"
+              keyboardType="decimal-pad"
+              placeholderTextColor="#9CA3AF"
+            />
+
+            <Text style={styles.inputLabel}>Date</Text>
+            <TextInput
+              style={styles.input}
+              value={transactionDate}
+              onChangeText={setTransactionDate}
+              placeholder="YYYY-MM-DD"
+              placeholderTextColor="#9CA3AF"
+            />
+
+            <View style={styles.modalButtons}>
+              <TouchableOpacity
+                style={[styles.modalButton, styles.cancelButton]}
+                onPress={() => setTransactionModalVisible(false)}
+              >
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.modalButton, styles.saveButton]}
+                onPress={handleSaveTransaction}
+                disabled={isSavingTransaction}
+              >
+                {isSavingTransaction ? (
+                  <ActivityIndicator size="small" color="#FFFFFF" />
+                ) : (
+                  <Text style={styles.saveButtonText}>Save</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      {/* Record Income Modal */}
+      <Modal
+        visible={incomeModalVisible}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={() => setIncomeModalVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>Record Income</Text>
+
+            <View style={styles.typeSelector}>
+              {INCOME_TYPES.map((type) => (
+                <TouchableOpacity
+                  key={type}
+                  style={[styles.typeChip, incomeType === type && styles.typeChipActive]}
+                  onPress={() => setIncomeType(type)}
+                >
+                  <Text style={[styles.typeChipText, incomeType === type && styles.typeChipTextActive]}>
+                    {INCOME_TYPE_LABELS[type]}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.inputLabel}>Amount ({asset.currency || DEFAULT_CURRENCY})</Text>
+            <TextInput
+              style={styles.input}
+              value={incomeAmount}
+              onChangeText={setIncomeAmount}
+              placeholder="0.00"
+              keyboardType="decimal-pad"
+              placeholderTextColor="#9CA3AF"
+            />
+
+            <Text style={styles.inputLabel}>Payment Date</Text>
+            <TextInput
+              style={styles.input}
+              value={incomeDate}
+              onChangeText={setIncomeDate}
+              placeholder="YYYY-MM-DD"
+              placeholderTextColor="#9CA3AF"
+            />
+
+            <View style={styles.modalButtons}>
+              <TouchableOpacity
+                style={[styles.modalButton, styles.cancelButton]}
+                onPress={() => setIncomeModalVisible(false)}
+              >
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.modalButton, styles.saveButton]}
+                onPress={handleSaveIncome}
+                disabled={isSavingIncome}
+              >
+                {isSavingIncome ? (
+                  <ActivityIndicator size="small" color="#FFFFFF" />
+                ) : (
+                  <Text style={styles.saveButtonText}>Save</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      {/* Record Valuation Modal */}
+      <Modal
+        visible={revaluationModalVisible}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={() => setRevaluationModalVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>Record Valuation</Text>
+
+            <Text style={styles.inputLabel}>Property Value ({asset.currency || DEFAULT_CURRENCY})</Text>
+            <TextInput
+              style={styles.input}
+              value={revaluationValue}
+              onChangeText={setRevaluationValue}
+              placeholder={property ? property.propertyValue.toFixed(2) : '0.00'}
+              keyboardType="decimal-pad"
+              placeholderTextColor="#9CA3AF"
+            />
+
+            <Text style={styles.inputLabel}>Valuation Date</Text>
+            <TextInput
+              style={styles.input}
+              value={revaluationDate}
+              onChangeText={setRevaluationDate}
+              placeholder="YYYY-MM-DD"
+              placeholderTextColor="#9CA3AF"
+            />
+
+            <View style={styles.modalButtons}>
+              <TouchableOpacity
+                style={[styles.modalButton, styles.cancelButton]}
+                onPress={() => setRevaluationModalVisible(false)}
+              >
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.modalButton, styles.saveButton]}
+                onPress={handleSaveRevaluation}
+                disabled={isSavingRevaluation}
+              >
+                {isSavingRevaluation ? (
+                  <ActivityIndicator size="small" color="#FFFFFF" />
+                ) : (
+                  <Text style={styles.saveButtonText}>Save</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
     </SafeAreaView>
   );
 }
@@ -520,10 +1504,7 @@ const styles = StyleSheet.create({
     color: '#FFFFFF',
   },
   chartContainer: {
-    alignItems: 'center',
-  },
-  chart: {
-    borderRadius: 16,
+    alignSelf: 'stretch',
   },
   metricsSection: {
     backgroundColor: '#FFFFFF',
@@ -553,6 +1534,179 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#11181C',
   },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+  },
+  sectionSubtitle: {
+    fontSize: 12,
+    color: '#687076',
+  },
+  sectionAction: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#0a7ea4',
+  },
+  scheduleHeader: {
+    marginTop: 16,
+  },
+  scheduleTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#11181C',
+  },
+  emptyIncomeText: {
+    fontSize: 14,
+    color: '#687076',
+    paddingVertical: 8,
+  },
+  transactionActions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 12,
+  },
+  transactionActionButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 4,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  buyButton: {
+    backgroundColor: '#10B981',
+  },
+  sellButton: {
+    backgroundColor: '#EF4444',
+  },
+  transferButton: {
+    backgroundColor: '#F3F4F6',
+  },
+  transactionActionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  transferButtonText: {
+    color: '#0a7ea4',
+  },
+  transactionRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  transactionInfo: {
+    flex: 1,
+  },
+  transactionType: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#11181C',
+  },
+  transactionDate: {
+    fontSize: 12,
+    color: '#687076',
+    marginTop: 2,
+  },
+  transactionAmounts: {
+    alignItems: 'flex-end',
+  },
+  transactionQuantity: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  transactionPrice: {
+    fontSize: 12,
+    color: '#687076',
+    marginTop: 2,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#FFFFFF',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 24,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#11181C',
+    marginBottom: 16,
+  },
+  typeSelector: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  typeChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#F3F4F6',
+  },
+  typeChipActive: {
+    backgroundColor: '#0a7ea4',
+  },
+  typeChipText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#687076',
+  },
+  typeChipTextActive: {
+    color: '#FFFFFF',
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#374151',
+    marginBottom: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    color: '#11181C',
+    marginBottom: 12,
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 8,
+  },
+  modalButton: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  cancelButton: {
+    backgroundColor: '#F3F4F6',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#687076',
+  },
+  saveButton: {
+    backgroundColor: '#0a7ea4',
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
   additionalSection: {
     backgroundColor: '#FFFFFF',
     marginHorizontal: 16,
@@ -3,7 +3,9 @@
  * 
  * Form for entering asset details
  * - Listed assets: quantity, purchase price, date
- * - Non-listed assets: name, value, purchase date + conditional fields
+ * - Hand-entered units (e.g. options): name, quantity, price, date
+ * - Non-listed assets: name, value, purchase date
+ * Each asset type adds its own metadata fields.
  * Requirements: 3, 4
  */
 
@@ -26,34 +28,54 @@ import { AddAssetStackScreenProps } from '@/navigation/types';
 import { assetService } from '@/services/api';
 import { useAppDispatch } from '@/store/hooks';
 import { addAsset } from '@/store/slices/assetsSlice';
+import { DEFAULT_CURRENCY, SUPPORTED_CURRENCIES, formatMoney, getCurrencySymbol } from '@/utils/currency';
+import { formatListing } from '@/utils/symbolSearch';
+import {
+  getAssetTypeInfo,
+  getDefaultMetadataValues,
+  parseAssetMetadata,
+  type MetadataField,
+} from '@/utils/assetTypes';
 
 type Props = AddAssetStackScreenProps<'AssetDetails'>;
 
-// Non-listed asset types
-const NON_LISTED_TYPES = ['real_estate', 'fixed_income', 'other'];
-
 export default function AssetDetailsScreen({ navigation, route }: Props) {
-  const { portfolioId, assetType, symbol, name: initialName, currentPrice } = route.params;
+  const {
+    portfolioId,
+    assetType,
+    symbol,
+    name: initialName,
+    currentPrice,
+    exchange,
+    currency: quoteCurrency,
+    priceAsOf,
+  } = route.params;
   const dispatch = useAppDispatch();
 
-  const isNonListed = NON_LISTED_TYPES.includes(assetType);
+  const typeInfo = getAssetTypeInfo(assetType);
+  // Entered by hand rather than picked from ticker search
+  const isManual = typeInfo.entry !== 'search';
+  // Valued as a whole rather than as units at a price
+  const isNonListed = typeInfo.entry === 'value';
 
   // Common fields
   const [assetName, setAssetName] = useState(initialName || '');
   const [quantity, setQuantity] = useState(isNonListed ? '1' : '');
   const [purchasePrice, setPurchasePrice] = useState(currentPrice?.toString() || '');
   const [purchaseDate, setPurchaseDate] = useState(formatDate(new Date()));
+  const [currency, setCurrency] = useState(
+    quoteCurrency && SUPPORTED_CURRENCIES.some((option) => option.code === quoteCurrency)
+      ? quoteCurrency
+      : DEFAULT_CURRENCY
+  );
   
   // Non-listed asset fields
   const [currentValue, setCurrentValue] = useState('');
   
-  // Fixed income specific fields
-  const [maturityDate, setMaturityDate] = useState('');
-  const [interestRate, setInterestRate] = useState('');
-  
-  // Real estate specific fields
-  const [propertyAddress, setPropertyAddress] = useState('');
-  const [propertyType, setPropertyType] = useState('');
+  // Asset type specific fields, keyed by metadata key
+  const [metadataValues, setMetadataValues] = useState<Record<string, string>>(() =>
+    getDefaultMetadataValues(assetType, symbol)
+  );
   
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
@@ -68,8 +90,8 @@ export default function AssetDetailsScreen({ navigation, route }: Props) {
   function validateForm(): boolean {
     const newErrors: Record<string, string> = {};
 
-    // Non-listed assets require name
-    if (isNonListed && !assetName.trim()) {
+    // Hand-entered assets require name
+    if (isManual && !assetName.trim()) {
       newErrors.assetName = 'Asset name is required';
     }
 
@@ -104,25 +126,8 @@ export default function AssetDetailsScreen({ navigation, route }: Props) {
       newErrors.purchaseDate = 'Invalid date format (use YYYY-MM-DD)';
     }
 
-    // Fixed income: validate maturity date if provided
-    if (assetType === 'fixed_income' && maturityDate.trim()) {
-      if (!/^\d{4}-\d{2}-\d{2}$/.test(maturityDate)) {
-        newErrors.maturityDate = 'Invalid date format (use YYYY-MM-DD)';
-      } else {
-        const maturity = new Date(maturityDate);
-        const purchase = new Date(purchaseDate);
-        if (maturity <= purchase) {
-          newErrors.maturityDate = 'Maturity date must be after purchase date';
-        }
-      }
-    }
-
-    // Fixed income: validate interest rate if provided
-    if (assetType === 'fixed_income' && interestRate.trim()) {
-      if (isNaN(Number(interestRate)) || Number(interestRate) < 0 || Number(interestRate) > 100) {
-        newErrors.interestRate = 'Interest rate must be between 0 and 100';
-      }
-    }
+    // Asset type specific fields
+    Object.assign(newErrors, parseAssetMetadata(assetType, metadataValues, purchaseDate).errors);
 
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
@@ -134,36 +139,25 @@ export default function AssetDetailsScreen({ navigation, route }: Props) {
     setIsSubmitting(true);
 
     try {
-      // Build metadata for non-listed assets
-      const metadata: Record<string, any> = {};
+      // Build metadata from the asset type specific fields
+      const metadata: Record<string, any> = parseAssetMetadata(assetType, metadataValues, purchaseDate).metadata;
       
-      if (assetType === 'fixed_income') {
-        if (maturityDate.trim()) {
-          metadata.maturity_date = maturityDate;
-        }
-        if (interestRate.trim()) {
-          metadata.interest_rate = Number(interestRate);
-        }
-      }
-      
-      if (assetType === 'real_estate') {
-        if (propertyAddress.trim()) {
-          metadata.property_address = propertyAddress.trim();
-        }
-        if (propertyType.trim()) {
-          metadata.property_type = propertyType.trim();
-        }
+      if (!isManual && exchange) {
+        metadata.exchange = exchange;
       }
 
       const assetData = {
         portfolio_id: portfolioId,
         asset_type: assetType,
-        symbol: isNonListed ? undefined : symbol,
-        name: isNonListed ? assetName.trim() : (initialName || symbol || ''),
+        symbol: isManual ? undefined : symbol,
+        name: isManual ? assetName.trim() : (initialName || symbol || ''),
         quantity: isNonListed ? 1 : Number(quantity),
         purchase_price: isNonListed ? Number(currentValue) : Number(purchasePrice),
         purchase_date: purchaseDate,
-        current_price: isNonListed ? Number(currentValue) : undefined,
+        current_price: isNonListed
+          ? Number(currentValue)
+          : isManual ? Number(purchasePrice) : currentPrice,
+        currency,
         metadata: Object.keys(metadata).length > 0 ? metadata : undefined,
       };
 
@@ -171,7 +165,7 @@ export default function AssetDetailsScreen({ navigation, route }: Props) {
 
       dispatch(addAsset(newAsset));
 
-      const displayName = isNonListed ? assetName : symbol;
+      const displayName = isManual ? assetName : symbol;
       Alert.alert(
         'Success',
         `${displayName} has been added to your portfolio.`,
@@ -196,59 +190,90 @@ export default function AssetDetailsScreen({ navigation, route }: Props) {
     navigation.goBack();
   };
 
-  const getAssetTypeColor = (): string => {
-    switch (assetType) {
-      case 'stock':
-        return '#4CAF50';
-      case 'crypto':
-        return '#FF9800';
-      case 'commodity':
-        return '#9C27B0';
-      case 'real_estate':
-        return '#2196F3';
-      case 'fixed_income':
-        return '#607D8B';
-      case 'other':
-        return '#795548';
-      default:
-        return '#687076';
-    }
-  };
-
-  const getAssetTypeLabel = (): string => {
-    switch (assetType) {
-      case 'stock':
-        return 'Stock';
-      case 'crypto':
-        return 'Cryptocurrency';
-      case 'commodity':
-        return 'Commodity';
-      case 'real_estate':
-        return 'Real Estate';
-      case 'fixed_income':
-        return 'Fixed Income';
-      case 'other':
-        return 'Other Asset';
-      default:
-        return 'Asset';
+  const updateMetadataValue = (key: string, value: string) => {
+    setMetadataValues((prev) => ({ ...prev, [key]: value }));
+    if (errors[key]) {
+      setErrors((prev) => ({ ...prev, [key]: '' }));
     }
   };
 
   const calculateTotalValue = (): string => {
     if (isNonListed) {
       const value = Number(currentValue) || 0;
-      return new Intl.NumberFormat('en-US', {
-        style: 'currency',
-        currency: 'USD',
-      }).format(value);
+      return formatMoney(value, currency);
     }
     const qty = Number(quantity) || 0;
     const price = Number(purchasePrice) || 0;
     const total = qty * price;
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-    }).format(total);
+    return formatMoney(total, currency);
+  };
+
+  const renderMetadataField = (field: MetadataField) => {
+    const value = metadataValues[field.key] ?? '';
+    const label = `${field.label}${field.unit ? ` (${field.unit})` : ''}${field.required ? ' *' : ''}`;
+
+    let input: React.ReactNode;
+    if (field.kind === 'choice') {
+      input = (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+          {field.options?.map((option) => (
+            <TouchableOpacity
+              key={option.value}
+              style={[styles.currencyChip, value === option.value && styles.currencyChipSelected]}
+              onPress={() => updateMetadataValue(field.key, option.value)}
+            >
+              <Text
+                style={[
+                  styles.currencyChipText,
+                  value === option.value && styles.currencyChipTextSelected,
+                ]}
+              >
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      );
+    } else if (field.unit) {
+      input = (
+        <View style={styles.priceInputContainer}>
+          <TextInput
+            style={[styles.priceInput, errors[field.key] && styles.inputError]}
+            placeholder={field.placeholder}
+            value={value}
+            onChangeText={(text) => updateMetadataValue(field.key, text)}
+            keyboardType="decimal-pad"
+            placeholderTextColor="#9CA3AF"
+          />
+          <Text style={styles.currencySymbol}>{field.unit}</Text>
+        </View>
+      );
+    } else {
+      input = (
+        <TextInput
+          style={[styles.input, errors[field.key] && styles.inputError]}
+          placeholder={field.placeholder}
+          value={value}
+          onChangeText={(text) => updateMetadataValue(field.key, text)}
+          keyboardType={field.kind === 'number' ? 'decimal-pad' : 'default'}
+          autoCapitalize={field.uppercase ? 'characters' : 'sentences'}
+          placeholderTextColor="#9CA3AF"
+          multiline={field.multiline}
+          numberOfLines={field.multiline ? 2 : undefined}
+        />
+      );
+    }
+
+    return (
+      <View key={field.key} style={styles.inputGroup}>
+        <Text style={styles.inputLabel}>{label}</Text>
+        {input}
+        {errors[field.key] && (
+          <Text style={styles.errorText}>{errors[field.key]}</Text>
+        )}
+        {field.hint && <Text style={styles.inputHint}>{field.hint}</Text>}
+      </View>
+    );
   };
 
   return (
@@ -261,7 +286,7 @@ export default function AssetDetailsScreen({ navigation, route }: Props) {
           <TouchableOpacity onPress={handleClose} style={styles.backButton}>
             <Ionicons name="arrow-back" size={24} color="#11181C" />
           </TouchableOpacity>
-          <Text style={styles.headerTitle}>Add {getAssetTypeLabel()}</Text>
+          <Text style={styles.headerTitle}>Add {typeInfo.label}</Text>
           <View style={styles.placeholder} />
         </View>
 
@@ -269,39 +294,36 @@ export default function AssetDetailsScreen({ navigation, route }: Props) {
           {/* Asset Info Card - Only for listed assets with symbol */}
           {!isNonListed && symbol && (
             <View style={styles.assetCard}>
-              <View style={[styles.assetTypeIndicator, { backgroundColor: getAssetTypeColor() }]} />
+              <View style={[styles.assetTypeIndicator, { backgroundColor: typeInfo.color }]} />
               <View style={styles.assetInfo}>
-                <Text style={styles.assetSymbol}>{symbol}</Text>
+                <Text style={styles.assetSymbol}>{formatListing({ symbol, exchange })}</Text>
                 <Text style={styles.assetName}>{initialName}</Text>
-                <Text style={styles.assetTypeLabel}>{getAssetTypeLabel()}</Text>
+                <Text style={styles.assetTypeLabel}>{typeInfo.label}</Text>
               </View>
               {currentPrice && (
                 <View style={styles.priceInfo}>
-                  <Text style={styles.priceLabel}>Current Price</Text>
+                  <Text style={styles.priceLabel}>Live Price</Text>
                   <Text style={styles.priceValue}>
-                    ${currentPrice.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                    {formatMoney(currentPrice, quoteCurrency || DEFAULT_CURRENCY)}
                   </Text>
+                  {priceAsOf && (
+                    <Text style={styles.priceAsOf}>
+                      as of {new Date(priceAsOf).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                    </Text>
+                  )}
                 </View>
               )}
             </View>
           )}
 
-          {/* Non-Listed Asset Type Indicator */}
-          {isNonListed && (
+          {/* Hand-Entered Asset Type Indicator */}
+          {isManual && (
             <View style={styles.assetTypeCard}>
-              <View style={[styles.assetTypeIconContainer, { backgroundColor: getAssetTypeColor() + '20' }]}>
-                <Ionicons 
-                  name={assetType === 'real_estate' ? 'home' : assetType === 'fixed_income' ? 'document-text' : 'ellipsis-horizontal'} 
-                  size={28} 
-                  color={getAssetTypeColor()} 
-                />
+              <View style={[styles.assetTypeIconContainer, { backgroundColor: typeInfo.color + '20' }]}>
+                <Ionicons name={typeInfo.icon} size={28} color={typeInfo.color} />
               </View>
-              <Text style={styles.assetTypeTitle}>{getAssetTypeLabel()}</Text>
-              <Text style={styles.assetTypeDescription}>
-                {assetType === 'real_estate' && 'Add property investments to your portfolio'}
-                {assetType === 'fixed_income' && 'Track bonds, CDs, and other fixed income assets'}
-                {assetType === 'other' && 'Add custom assets with manual valuation'}
-              </Text>
+              <Text style={styles.assetTypeTitle}>{typeInfo.label}</Text>
+              <Text style={styles.assetTypeDescription}>{typeInfo.description}</Text>
             </View>
           )}
 
@@ -311,17 +333,13 @@ export default function AssetDetailsScreen({ navigation, route }: Props) {
               {isNonListed ? 'Asset Details' : 'Transaction Details'}
             </Text>
 
-            {/* Asset Name - Only for non-listed assets */}
-            {isNonListed && (
+            {/* Asset Name - Only for hand-entered assets */}
+            {isManual && (
               <View style={styles.inputGroup}>
                 <Text style={styles.inputLabel}>Asset Name *</Text>
                 <TextInput
                   style={[styles.input, errors.assetName && styles.inputError]}
-                  placeholder={
-                    assetType === 'real_estate' ? 'e.g., Downtown Apartment' :
-                    assetType === 'fixed_income' ? 'e.g., Treasury Bond 2025' :
-                    'Enter asset name'
-                  }
+                  placeholder={typeInfo.nameExample ?? 'Enter asset name'}
                   value={assetName}
                   onChangeText={(text) => {
                     setAssetName(text);
@@ -337,12 +355,35 @@ export default function AssetDetailsScreen({ navigation, route }: Props) {
               </View>
             )}
 
+            {/* Currency the asset is priced in */}
+            <View style={styles.inputGroup}>
+              <Text style={styles.inputLabel}>Currency</Text>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                {SUPPORTED_CURRENCIES.map((option) => (
+                  <TouchableOpacity
+                    key={option.code}
+                    style={[styles.currencyChip, currency === option.code && styles.currencyChipSelected]}
+                    onPress={() => setCurrency(option.code)}
+                  >
+                    <Text
+                      style={[
+                        styles.currencyChipText,
+                        currency === option.code && styles.currencyChipTextSelected,
+                      ]}
+                    >
+                      {option.code}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+            </View>
+
             {/* Current Value - For non-listed assets */}
             {isNonListed && (
               <View style={styles.inputGroup}>
-                <Text style={styles.inputLabel}>Current Value (USD) *</Text>
+                <Text style={styles.inputLabel}>Current Value ({currency}) *</Text>
                 <View style={styles.priceInputContainer}>
-                  <Text style={styles.currencySymbol}>$</Text>
+                  <Text style={styles.currencySymbol}>{getCurrencySymbol(currency)}</Text>
                   <TextInput
                     style={[styles.priceInput, errors.currentValue && styles.inputError]}
                     placeholder="0.00"
@@ -363,10 +404,10 @@ export default function AssetDetailsScreen({ navigation, route }: Props) {
               </View>
             )}
 
-            {/* Quantity - Only for listed assets */}
+            {/* Quantity - Only for assets held in units */}
             {!isNonListed && (
               <View style={styles.inputGroup}>
-                <Text style={styles.inputLabel}>Quantity *</Text>
+                <Text style={styles.inputLabel}>{typeInfo.quantityLabel ?? 'Quantity'} *</Text>
                 <TextInput
                   style={[styles.input, errors.quantity && styles.inputError]}
                   placeholder="Enter quantity"
@@ -386,12 +427,12 @@ export default function AssetDetailsScreen({ navigation, route }: Props) {
               </View>
             )}
 
-            {/* Purchase Price - Only for listed assets */}
+            {/* Purchase Price - Only for assets held in units */}
             {!isNonListed && (
               <View style={styles.inputGroup}>
-                <Text style={styles.inputLabel}>Purchase Price (USD) *</Text>
+                <Text style={styles.inputLabel}>{typeInfo.priceLabel ?? 'Purchase Price'} ({currency}) *</Text>
                 <View style={styles.priceInputContainer}>
-                  <Text style={styles.currencySymbol}>$</Text>
+                  <Text style={styles.currencySymbol}>{getCurrencySymbol(currency)}</Text>
                   <TextInput
                     style={[styles.priceInput, errors.purchasePrice && styles.inputError]}
                     placeholder="0.00"
@@ -434,84 +475,11 @@ export default function AssetDetailsScreen({ navigation, route }: Props) {
             </View>
           </View>
 
-          {/* Fixed Income Specific Fields */}
-          {assetType === 'fixed_income' && (
-            <View style={styles.formSection}>
-              <Text style={styles.sectionTitle}>Fixed Income Details</Text>
-              
-              <View style={styles.inputGroup}>
-                <Text style={styles.inputLabel}>Maturity Date</Text>
-                <TextInput
-                  style={[styles.input, errors.maturityDate && styles.inputError]}
-                  placeholder="YYYY-MM-DD"
-                  value={maturityDate}
-                  onChangeText={(text) => {
-                    setMaturityDate(text);
-                    if (errors.maturityDate) {
-                      setErrors((prev) => ({ ...prev, maturityDate: '' }));
-                    }
-                  }}
-                  placeholderTextColor="#9CA3AF"
-                />
-                {errors.maturityDate && (
-                  <Text style={styles.errorText}>{errors.maturityDate}</Text>
-                )}
-                <Text style={styles.inputHint}>A reminder will be created 30 days before maturity</Text>
-              </View>
-
-              <View style={styles.inputGroup}>
-                <Text style={styles.inputLabel}>Interest Rate (%)</Text>
-                <View style={styles.priceInputContainer}>
-                  <TextInput
-                    style={[styles.priceInput, errors.interestRate && styles.inputError]}
-                    placeholder="0.00"
-                    value={interestRate}
-                    onChangeText={(text) => {
-                      setInterestRate(text);
-                      if (errors.interestRate) {
-                        setErrors((prev) => ({ ...prev, interestRate: '' }));
-                      }
-                    }}
-                    keyboardType="decimal-pad"
-                    placeholderTextColor="#9CA3AF"
-                  />
-                  <Text style={styles.currencySymbol}>%</Text>
-                </View>
-                {errors.interestRate && (
-                  <Text style={styles.errorText}>{errors.interestRate}</Text>
-                )}
-              </View>
-            </View>
-          )}
-
-          {/* Real Estate Specific Fields */}
-          {assetType === 'real_estate' && (
+          {/* Asset Type Specific Fields */}
+          {typeInfo.metadataFields.length > 0 && (
             <View style={styles.formSection}>
-              <Text style={styles.sectionTitle}>Property Details</Text>
-              
-              <View style={styles.inputGroup}>
-                <Text style={styles.inputLabel}>Property Address</Text>
-                <TextInput
-                  style={styles.input}
-                  placeholder="Enter property address"
-                  value={propertyAddress}
-                  onChangeText={setPropertyAddress}
-                  placeholderTextColor="#9CA3AF"
-                  multiline
-                  numberOfLines={2}
-                />
-              </View>
-
-              <View style={styles.inputGroup}>
-                <Text style={styles.inputLabel}>Property Type</Text>
-                <TextInput
-                  style={styles.input}
-                  placeholder="e.g., Residential, Commercial, Land"
-                  value={propertyType}
-                  onChangeText={setPropertyType}
-                  placeholderTextColor="#9CA3AF"
-                />
-              </View>
+              <Text style={styles.sectionTitle}>{typeInfo.label} Details</Text>
+              {typeInfo.metadataFields.map(renderMetadataField)}
             </View>
           )}
 
@@ -630,6 +598,11 @@ const styles = StyleSheet.create({
     color: '#11181C',
     marginTop: 2,
   },
+  priceAsOf: {
+    fontSize: 11,
+    color: '#9CA3AF',
+    marginTop: 2,
+  },
   assetTypeCard: {
     backgroundColor: '#FFFFFF',
     margin: 16,
@@ -715,6 +688,24 @@ const styles = StyleSheet.create({
     color: '#687076',
     marginRight: 4,
   },
+  currencyChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#F3F4F6',
+    marginRight: 8,
+  },
+  currencyChipSelected: {
+    backgroundColor: '#0a7ea4',
+  },
+  currencyChipText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#374151',
+  },
+  currencyChipTextSelected: {
+    color: '#FFFFFF',
+  },
   priceInput: {
     flex: 1,
     paddingVertical: 12,
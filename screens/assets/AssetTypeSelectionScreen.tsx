@@ -12,85 +12,28 @@ import {
   StyleSheet,
   TouchableOpacity,
   SafeAreaView,
+  ScrollView,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { AddAssetStackScreenProps } from '@/navigation/types';
+import type { AssetType } from '@/services/offlineStorage';
+import { ASSET_TYPES, ASSET_TYPE_INFO } from '@/utils/assetTypes';
 
 type Props = AddAssetStackScreenProps<'AssetTypeSelection'>;
 
-interface AssetTypeOption {
-  type: string;
-  label: string;
-  description: string;
-  icon: keyof typeof Ionicons.glyphMap;
-  color: string;
-  isListed: boolean;
-}
-
-const ASSET_TYPES: AssetTypeOption[] = [
-  {
-    type: 'stock',
-    label: 'Stocks',
-    description: 'Public company shares',
-    icon: 'trending-up',
-    color: '#4CAF50',
-    isListed: true,
-  },
-  {
-    type: 'crypto',
-    label: 'Cryptocurrency',
-    description: 'Bitcoin, Ethereum, etc.',
-    icon: 'logo-bitcoin',
-    color: '#FF9800',
-    isListed: true,
-  },
-  {
-    type: 'commodity',
-    label: 'Commodities',
-    description: 'Gold, Silver, Oil, etc.',
-    icon: 'diamond',
-    color: '#9C27B0',
-    isListed: true,
-  },
-  {
-    type: 'real_estate',
-    label: 'Real Estate',
-    description: 'Property investments',
-    icon: 'home',
-    color: '#2196F3',
-    isListed: false,
-  },
-  {
-    type: 'fixed_income',
-    label: 'Fixed Income',
-    description: 'Bonds, CDs, etc.',
-    icon: 'document-text',
-    color: '#607D8B',
-    isListed: false,
-  },
-  {
-    type: 'other',
-    label: 'Other',
-    description: 'Custom assets',
-    icon: 'ellipsis-horizontal',
-    color: '#795548',
-    isListed: false,
-  },
-];
-
 export default function AssetTypeSelectionScreen({ navigation, route }: Props) {
   const { portfolioId } = route.params;
 
-  const handleSelectType = (assetType: AssetTypeOption) => {
-    if (assetType.isListed) {
+  const handleSelectType = (assetType: AssetType) => {
+    if (ASSET_TYPE_INFO[assetType].entry === 'search') {
       navigation.navigate('TickerSearch', {
         portfolioId,
-        assetType: assetType.type,
+        assetType,
       });
     } else {
       navigation.navigate('AssetDetails', {
         portfolioId,
-        assetType: assetType.type,
+        assetType,
       });
     }
   };
@@ -109,28 +52,39 @@ export default function AssetTypeSelectionScreen({ navigation, route }: Props) {
         <View style={styles.placeholder} />
       </View>
 
-      <View style={styles.content}>
+      <ScrollView style={styles.content} contentContainerStyle={styles.contentContainer}>
         <Text style={styles.subtitle}>What type of asset would you like to add?</Text>
 
         <View style={styles.optionsContainer}>
-          {ASSET_TYPES.map((assetType) => (
-            <TouchableOpacity
-              key={assetType.type}
-              style={styles.optionCard}
-              onPress={() => handleSelectType(assetType)}
-            >
-              <View style={[styles.iconContainer, { backgroundColor: assetType.color + '20' }]}>
-                <Ionicons name={assetType.icon} size={28} color={assetType.color} />
-              </View>
-              <View style={styles.optionInfo}>
-                <Text style={styles.optionLabel}>{assetType.label}</Text>
-                <Text style={styles.optionDescription}>{assetType.description}</Text>
-              </View>
-              <Ionicons name="chevron-forward" size={20} color="#9CA3AF" />
-            </TouchableOpacity>
-          ))}
+          {ASSET_TYPES.map((assetType) => {
+            const info = ASSET_TYPE_INFO[assetType];
+            return (
+              <TouchableOpacity
+                key={assetType}
+                style={styles.optionCard}
+                onPress={() => handleSelectType(assetType)}
+              >
+                <View style={[styles.iconContainer, { backgroundColor: info.color + '20' }]}>
+                  <Ionicons name={info.icon} size={28} color={info.color} />
+                </View>
+                <View style={styles.optionInfo}>
+                  <Text style={styles.optionLabel}>{info.groupLabel}</Text>
+                  <Text style={styles.optionDescription}>{info.description}</Text>
+                </View>
+                <Ionicons name="chevron-forward" size={20} color="#9CA3AF" />
+              </TouchableOpacity>
+            );
+          })}
         </View>
-      </View>
+
+        <TouchableOpacity
+          style={styles.importButton}
+          onPress={() => navigation.navigate('ImportAssets', { portfolioId })}
+        >
+          <Ionicons name="document-text-outline" size={20} color="#0a7ea4" />
+          <Text style={styles.importButtonText}>Import from CSV</Text>
+        </TouchableOpacity>
+      </ScrollView>
     </SafeAreaView>
   );
 }
@@ -162,6 +116,8 @@ const styles = StyleSheet.create({
   },
   content: {
     flex: 1,
+  },
+  contentContainer: {
     padding: 16,
   },
   subtitle: {
@@ -184,6 +140,19 @@ const styles = StyleSheet.create({
     shadowRadius: 2,
     elevation: 2,
   },
+  importButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    marginTop: 24,
+    paddingVertical: 12,
+  },
+  importButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#0a7ea4',
+  },
   iconContainer: {
     width: 48,
     height: 48,
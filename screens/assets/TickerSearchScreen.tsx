@@ -2,11 +2,12 @@
  * Ticker Search Screen
  * 
  * Search for listed assets (stocks, crypto, commodities) by symbol
- * Implements auto-complete for symbols
+ * Shows local matches as the user types, then results from the symbol
+ * directory once typing pauses. Works offline from the cached index.
  * Requirements: 3
  */
 
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   View,
   Text,
@@ -17,135 +18,102 @@ import {
   ActivityIndicator,
   SafeAreaView,
   Keyboard,
+  Alert,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { AddAssetStackScreenProps } from '@/navigation/types';
-import { supabase } from '@/services/supabase';
+import { symbolSearchService } from '@/services/symbolSearch';
+import type { SymbolListing } from '@/services/offlineStorage';
+import {
+  SEARCH_DEBOUNCE_MS,
+  formatListing,
+  getAmbiguousSymbols,
+  getListingKey,
+  getPopularListings,
+} from '@/utils/symbolSearch';
+import { getAssetTypeInfo } from '@/utils/assetTypes';
 
 type Props = AddAssetStackScreenProps<'TickerSearch'>;
 
-interface SearchResult {
-  symbol: string;
-  name: string;
-  price?: number;
-  type: string;
-}
-
-// Common stock symbols for auto-complete suggestions
-const POPULAR_STOCKS = [
-  { symbol: 'AAPL', name: 'Apple Inc.', type: 'stock' },
-  { symbol: 'GOOGL', name: 'Alphabet Inc.', type: 'stock' },
-  { symbol: 'MSFT', name: 'Microsoft Corporation', type: 'stock' },
-  { symbol: 'AMZN', name: 'Amazon.com Inc.', type: 'stock' },
-  { symbol: 'TSLA', name: 'Tesla Inc.', type: 'stock' },
-  { symbol: 'META', name: 'Meta Platforms Inc.', type: 'stock' },
-  { symbol: 'NVDA', name: 'NVIDIA Corporation', type: 'stock' },
-  { symbol: 'JPM', name: 'JPMorgan Chase & Co.', type: 'stock' },
-];
-
-const POPULAR_CRYPTO = [
-  { symbol: 'BTC', name: 'Bitcoin', type: 'crypto' },
-  { symbol: 'ETH', name: 'Ethereum', type: 'crypto' },
-  { symbol: 'SOL', name: 'Solana', type: 'crypto' },
-  { symbol: 'XRP', name: 'Ripple', type: 'crypto' },
-  { symbol: 'ADA', name: 'Cardano', type: 'crypto' },
-  { symbol: 'DOGE', name: 'Dogecoin', type: 'crypto' },
-  { symbol: 'DOT', name: 'Polkadot', type: 'crypto' },
-  { symbol: 'MATIC', name: 'Polygon', type: 'crypto' },
-];
-
-const COMMODITIES = [
-  { symbol: 'XAU', name: 'Gold', type: 'commodity' },
-  { symbol: 'XAG', name: 'Silver', type: 'commodity' },
-  { symbol: 'XPT', name: 'Platinum', type: 'commodity' },
-  { symbol: 'XPD', name: 'Palladium', type: 'commodity' },
-];
-
 export default function TickerSearchScreen({ navigation, route }: Props) {
   const { portfolioId, assetType } = route.params;
   const [searchQuery, setSearchQuery] = useState('');
-  const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
+  const [searchResults, setSearchResults] = useState<SymbolListing[]>(() => getPopularListings(assetType));
   const [isLoading, setIsLoading] = useState(false);
+  const [isOfflineResults, setIsOfflineResults] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [selectedSymbol, setSelectedSymbol] = useState<SearchResult | null>(null);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
   const [isValidating, setIsValidating] = useState(false);
 
-  const getPopularAssets = useCallback((): SearchResult[] => {
-    switch (assetType) {
-      case 'stock':
-        return POPULAR_STOCKS;
-      case 'crypto':
-        return POPULAR_CRYPTO;
-      case 'commodity':
-        return COMMODITIES;
-      default:
-        return [];
-    }
-  }, [assetType]);
+  // Only the latest search may update the results
+  const searchIdRef = useRef(0);
 
-  const getAssetTypeLabel = (): string => {
-    switch (assetType) {
-      case 'stock':
-        return 'Stock';
-      case 'crypto':
-        return 'Cryptocurrency';
-      case 'commodity':
-        return 'Commodity';
-      default:
-        return 'Asset';
-    }
-  };
+  const typeInfo = getAssetTypeInfo(assetType);
 
   useEffect(() => {
-    if (!searchQuery.trim()) {
-      setSearchResults(getPopularAssets());
+    const searchId = ++searchIdRef.current;
+    const query = searchQuery.trim();
+
+    if (!query) {
+      setSearchResults(getPopularListings(assetType));
+      setIsLoading(false);
+      setIsOfflineResults(false);
       return;
     }
 
-    const query = searchQuery.toUpperCase();
-    const popularAssets = getPopularAssets();
-    const filtered = popularAssets.filter(
-      (asset) =>
-        asset.symbol.includes(query) ||
-        asset.name.toUpperCase().includes(query)
-    );
-    setSearchResults(filtered);
-  }, [searchQuery, getPopularAssets]);
+    // Show local matches straight away, then ask the directory once typing pauses
+    symbolSearchService.searchLocal(query, assetType).then((listings) => {
+      if (searchId === searchIdRef.current) setSearchResults(listings);
+    });
 
-  const validateAndFetchPrice = async (symbol: string): Promise<number | null> => {
-    try {
-      const { data, error } = await supabase.functions.invoke('stock-price-handler', {
-        body: null,
-        method: 'GET',
-      });
+    setIsLoading(true);
+    const timer = setTimeout(async () => {
+      const result = await symbolSearchService.search(query, assetType);
+      if (searchId !== searchIdRef.current) return;
+      setSearchResults(result.listings);
+      setIsOfflineResults(result.source === 'local');
+      setIsLoading(false);
+    }, SEARCH_DEBOUNCE_MS);
 
-      // For now, return null as we'll validate on the backend when creating the asset
-      return null;
-    } catch {
-      return null;
-    }
+    return () => clearTimeout(timer);
+  }, [searchQuery, assetType]);
+
+  const ambiguousSymbols = getAmbiguousSymbols(searchResults);
+
+  const navigateToDetails = (listing: SymbolListing, quote?: { price: number; currency: string; as_of: string }) => {
+    navigation.navigate('AssetDetails', {
+      portfolioId,
+      assetType,
+      symbol: listing.symbol,
+      name: listing.name,
+      exchange: listing.exchange,
+      currentPrice: quote?.price,
+      currency: quote?.currency ?? listing.currency,
+      priceAsOf: quote?.as_of,
+    });
   };
 
-  const handleSelectSymbol = async (result: SearchResult) => {
+  const handleSelectSymbol = async (listing: SymbolListing) => {
     Keyboard.dismiss();
-    setSelectedSymbol(result);
+    setSelectedKey(getListingKey(listing));
     setIsValidating(true);
     setError(null);
 
     try {
-      // Navigate to asset details with the selected symbol
-      navigation.navigate('AssetDetails', {
-        portfolioId,
-        assetType,
-        symbol: result.symbol,
-        name: result.name,
-        currentPrice: result.price,
-      });
-    } catch (err) {
-      setError('Failed to validate symbol. Please try again.');
+      const quote = await symbolSearchService.getQuote(listing);
+      navigateToDetails(listing, quote);
+    } catch {
+      Alert.alert(
+        'Price Unavailable',
+        `A live price for ${formatListing(listing)} could not be fetched. You can still add it and enter the price yourself.`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Continue', onPress: () => navigateToDetails(listing) },
+        ]
+      );
     } finally {
       setIsValidating(false);
-      setSelectedSymbol(null);
+      setSelectedKey(null);
     }
   };
 
@@ -168,8 +136,9 @@ export default function TickerSearchScreen({ navigation, route }: Props) {
     navigation.goBack();
   };
 
-  const renderSearchResult = ({ item }: { item: SearchResult }) => {
-    const isSelected = selectedSymbol?.symbol === item.symbol;
+  const renderSearchResult = ({ item }: { item: SymbolListing }) => {
+    const isSelected = selectedKey === getListingKey(item);
+    const isAmbiguous = ambiguousSymbols.has(item.symbol);
 
     return (
       <TouchableOpacity
@@ -178,9 +147,19 @@ export default function TickerSearchScreen({ navigation, route }: Props) {
         disabled={isValidating}
       >
         <View style={styles.resultInfo}>
-          <Text style={styles.resultSymbol}>{item.symbol}</Text>
+          <View style={styles.resultSymbolRow}>
+            <Text style={styles.resultSymbol}>{item.symbol}</Text>
+            {item.exchange && (
+              <View style={[styles.exchangeBadge, isAmbiguous && styles.exchangeBadgeAmbiguous]}>
+                <Text style={[styles.exchangeText, isAmbiguous && styles.exchangeTextAmbiguous]}>
+                  {item.exchange}
+                </Text>
+              </View>
+            )}
+          </View>
           <Text style={styles.resultName} numberOfLines={1}>
             {item.name}
+            {isAmbiguous && item.currency ? ` · ${item.currency}` : ''}
           </Text>
         </View>
         {isSelected && isValidating ? (
@@ -198,7 +177,7 @@ export default function TickerSearchScreen({ navigation, route }: Props) {
         <TouchableOpacity onPress={handleClose} style={styles.backButton}>
           <Ionicons name="arrow-back" size={24} color="#11181C" />
         </TouchableOpacity>
-        <Text style={styles.headerTitle}>Search {getAssetTypeLabel()}</Text>
+        <Text style={styles.headerTitle}>Search {typeInfo.label}</Text>
         <View style={styles.placeholder} />
       </View>
 
@@ -206,7 +185,7 @@ export default function TickerSearchScreen({ navigation, route }: Props) {
         <Ionicons name="search" size={20} color="#9CA3AF" style={styles.searchIcon} />
         <TextInput
           style={styles.searchInput}
-          placeholder={`Enter ${assetType === 'crypto' ? 'symbol (e.g., BTC)' : 'ticker symbol (e.g., AAPL)'}`}
+          placeholder={`Enter ${assetType === 'stock' ? 'ticker symbol' : 'symbol'} (e.g., ${typeInfo.symbolExample ?? 'AAPL'})`}
           value={searchQuery}
           onChangeText={setSearchQuery}
           autoCapitalize="characters"
@@ -229,10 +208,17 @@ export default function TickerSearchScreen({ navigation, route }: Props) {
 
       <View style={styles.content}>
         {!searchQuery.trim() && (
-          <Text style={styles.sectionTitle}>Popular {getAssetTypeLabel()}s</Text>
+          <Text style={styles.sectionTitle}>Popular {typeInfo.groupLabel}</Text>
+        )}
+
+        {searchQuery.trim() && isOfflineResults && !isLoading && (
+          <View style={styles.offlineHint}>
+            <Ionicons name="cloud-offline-outline" size={14} color="#92400E" />
+            <Text style={styles.offlineHintText}>Showing saved results while offline</Text>
+          </View>
         )}
 
-        {isLoading ? (
+        {isLoading && searchResults.length === 0 ? (
           <View style={styles.loadingContainer}>
             <ActivityIndicator size="large" color="#0a7ea4" />
             <Text style={styles.loadingText}>Searching...</Text>
@@ -240,7 +226,7 @@ export default function TickerSearchScreen({ navigation, route }: Props) {
         ) : (
           <FlatList
             data={searchResults}
-            keyExtractor={(item) => item.symbol}
+            keyExtractor={(item) => getListingKey(item)}
             renderItem={renderSearchResult}
             contentContainerStyle={styles.listContent}
             ListEmptyComponent={
@@ -383,11 +369,44 @@ const styles = StyleSheet.create({
   resultInfo: {
     flex: 1,
   },
+  resultSymbolRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 2,
+  },
   resultSymbol: {
     fontSize: 16,
     fontWeight: '700',
     color: '#11181C',
-    marginBottom: 2,
+  },
+  exchangeBadge: {
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 4,
+    backgroundColor: '#F3F4F6',
+  },
+  exchangeBadgeAmbiguous: {
+    backgroundColor: '#E0F2FE',
+  },
+  exchangeText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#687076',
+  },
+  exchangeTextAmbiguous: {
+    color: '#0a7ea4',
+  },
+  offlineHint: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginHorizontal: 16,
+    marginBottom: 12,
+  },
+  offlineHintText: {
+    fontSize: 13,
+    color: '#92400E',
   },
   resultName: {
     fontSize: 14,
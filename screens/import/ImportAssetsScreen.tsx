@@ -0,0 +1,654 @@
+/**
+ * Import Assets Screen
+ *
+ * Imports holdings from a broker or exchange CSV export in three steps:
+ * pick or paste the file, map its columns to asset fields, then review a
+ * preview that flags invalid rows and duplicates before anything is saved.
+ * Assets are created one by one, or queued for sync when the device is
+ * offline. Rows already saved are remembered, so an import that stops part
+ * way can be retried without saving them twice.
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+  Switch,
+  Platform,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as DocumentPicker from 'expo-document-picker';
+import { File } from 'expo-file-system';
+import { RootStackScreenProps } from '@/navigation/types';
+import { portfolioService, assetService } from '@/services/api';
+import { addToOfflineQueue, cacheAssets, getCachedAssets, getCachedPortfolios } from '@/services/offlineStorage';
+import { useOfflineStatus } from '@/hooks/useOfflineStatus';
+import { ASSET_TYPES, ASSET_TYPE_INFO } from '@/utils/assetTypes';
+import {
+  buildImportPreview,
+  detectDateOrder,
+  IMPORT_FIELD_LABELS,
+  IMPORT_FIELDS,
+  isAmbiguousDate,
+  isImportable,
+  parseCsvRows,
+  suggestMapping,
+  type ColumnMapping,
+  type CsvRow,
+  type DateOrder,
+  type ExistingAsset,
+  type ImportField,
+  type ImportRow,
+} from '@/utils/csvImport';
+
+type Props = RootStackScreenProps<'ImportAssets'>;
+
+type Step = 'paste' | 'map' | 'preview';
+
+interface Portfolio {
+  id: string;
+  name: string;
+}
+
+const ASSET_TYPE_OPTIONS = ASSET_TYPES.map((type) => ({ type, label: ASSET_TYPE_INFO[type].groupLabel }));
+
+const DATE_ORDER_OPTIONS: { order: DateOrder; label: string }[] = [
+  { order: 'mdy', label: 'MM/DD/YYYY' },
+  { order: 'dmy', label: 'DD/MM/YYYY' },
+];
+
+const CSV_MIME_TYPES = ['text/csv', 'text/comma-separated-values', 'text/plain', 'application/vnd.ms-excel'];
+
+export default function ImportAssetsScreen({ navigation, route }: Props) {
+  const { isOffline } = useOfflineStatus();
+  const [step, setStep] = useState<Step>('paste');
+  const [portfolios, setPortfolios] = useState<Portfolio[]>([]);
+  const [portfolioId, setPortfolioId] = useState<string | null>(route.params?.portfolioId ?? null);
+  const [existingAssets, setExistingAssets] = useState<ExistingAsset[]>([]);
+
+  const [csvText, setCsvText] = useState('');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<CsvRow[]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [defaultAssetType, setDefaultAssetType] = useState('stock');
+  // Chosen by the user when the file's slash dates could read either way
+  const [dateOrder, setDateOrder] = useState<DateOrder | null>(null);
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+
+  const [isImporting, setIsImporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+  // Lines saved by an earlier attempt, which a retry skips
+  const [importedLines, setImportedLines] = useState<Set<number>>(new Set());
+
+  const loadPortfolios = useCallback(async () => {
+    const data: Portfolio[] = await portfolioService
+      .getPortfolios()
+      .catch(async () => (await getCachedPortfolios()) || []);
+    setPortfolios(data || []);
+    setPortfolioId((current) => current ?? data?.[0]?.id ?? null);
+  }, []);
+
+  useEffect(() => {
+    loadPortfolios();
+  }, [loadPortfolios]);
+
+  useEffect(() => {
+    if (!portfolioId) return;
+    assetService
+      .getAssets(portfolioId)
+      .then(async (remote) => {
+        await cacheAssets(portfolioId, remote || []);
+        return remote || [];
+      })
+      .catch(() => getCachedAssets(portfolioId))
+      .then(setExistingAssets);
+  }, [portfolioId]);
+
+  const dateTexts = mapping.purchase_date === undefined
+    ? []
+    : dataRows.map((row) => row.cells[mapping.purchase_date!]);
+  const hasAmbiguousDates = dateTexts.some((text) => !!text && isAmbiguousDate(text));
+  const effectiveDateOrder = dateOrder ?? detectDateOrder(dateTexts);
+
+  const preview: ImportRow[] = step === 'preview' && portfolioId
+    ? buildImportPreview(
+      dataRows,
+      mapping,
+      {
+        portfolioId,
+        defaultAssetType,
+        today: new Date().toISOString().slice(0, 10),
+        dateOrder: effectiveDateOrder ?? undefined,
+      },
+      existingAssets
+    )
+    : [];
+  const cellsByLine = new Map(dataRows.map((row) => [row.line, row.cells]));
+  const importable = preview.filter((row) => isImportable(row, includeDuplicates) && !importedLines.has(row.line));
+  const invalidCount = preview.filter((row) => !row.asset).length;
+  const duplicateCount = preview.filter(
+    (row) => row.asset && (row.duplicateOfAssetId !== undefined || row.duplicateOfLine !== undefined)
+  ).length;
+
+  const handlePickFile = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({ type: CSV_MIME_TYPES, copyToCacheDirectory: true });
+      if (result.canceled) return;
+      const picked = result.assets[0];
+      const text = Platform.OS === 'web' && picked.file ? await picked.file.text() : await new File(picked.uri).text();
+      setCsvText(text);
+      setFileName(picked.name);
+    } catch (err) {
+      console.error('Failed to read CSV file:', err);
+      Alert.alert('Error', 'Could not read the selected file');
+    }
+  };
+
+  const handleParse = () => {
+    const rows = parseCsvRows(csvText);
+    if (rows.length < 2) {
+      Alert.alert('Error', 'Paste a CSV with a header row and at least one holding');
+      return;
+    }
+    if (!portfolioId) {
+      Alert.alert('Error', 'Select a portfolio to import into');
+      return;
+    }
+    setHeaders(rows[0].cells);
+    setDataRows(rows.slice(1));
+    setMapping(suggestMapping(rows[0].cells));
+    setDateOrder(null);
+    setImportedLines(new Set());
+    setStep('map');
+  };
+
+  const handleMapField = (field: ImportField, column: number | undefined) => {
+    setMapping((current) => {
+      const next = { ...current };
+      if (column === undefined) delete next[field];
+      else next[field] = column;
+      return next;
+    });
+  };
+
+  const handleReview = () => {
+    if (mapping.symbol === undefined && mapping.name === undefined) {
+      Alert.alert('Error', 'Map a column to Symbol or Name');
+      return;
+    }
+    if (mapping.quantity === undefined || mapping.purchase_price === undefined) {
+      Alert.alert('Error', 'Map columns to Quantity and Purchase Price');
+      return;
+    }
+    if (hasAmbiguousDates && !effectiveDateOrder) {
+      Alert.alert('Error', 'Choose the date format your file uses');
+      return;
+    }
+    setStep('preview');
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    setProgress(0);
+    const failedLines: number[] = [];
+    const savedLines = new Set(importedLines);
+
+    for (const row of importable) {
+      try {
+        if (isOffline) {
+          await addToOfflineQueue({ type: 'CREATE_ASSET', payload: { ...row.asset } });
+        } else {
+          await assetService.createAsset(row.asset!);
+        }
+        savedLines.add(row.line);
+      } catch (err) {
+        console.error('Failed to import asset:', err);
+        failedLines.push(row.line);
+      }
+      setProgress((current) => current + 1);
+    }
+
+    setImportedLines(savedLines);
+    setIsImporting(false);
+    const saved = importable.length - failedLines.length;
+    const message = isOffline
+      ? `${saved} assets will be added when you're back online.`
+      : `${saved} assets imported.`;
+    if (failedLines.length > 0) {
+      Alert.alert(
+        'Import Incomplete',
+        `${message} Lines ${failedLines.join(', ')} could not be saved. Import again to retry them; saved lines are skipped.`
+      );
+    } else {
+      Alert.alert('Import Complete', message, [{ text: 'OK', onPress: () => navigation.goBack() }]);
+    }
+  };
+
+  const getRowStatus = (row: ImportRow): { label: string; color: string } => {
+    if (importedLines.has(row.line)) return { label: 'Imported', color: '#059669' };
+    if (!row.asset) return { label: row.errors.join(' • '), color: '#DC2626' };
+    if (row.duplicateOfAssetId !== undefined) return { label: 'Already in portfolio', color: '#D97706' };
+    if (row.duplicateOfLine !== undefined) return { label: `Same as line ${row.duplicateOfLine}`, color: '#D97706' };
+    return { label: 'Ready', color: '#059669' };
+  };
+
+  const renderPaste = () => (
+    <ScrollView style={styles.content} contentContainerStyle={styles.contentContainer} keyboardShouldPersistTaps="handled">
+      <Text style={styles.sectionTitle}>Portfolio</Text>
+      <View style={styles.chipRow}>
+        {portfolios.map((p) => (
+          <TouchableOpacity
+            key={p.id}
+            style={[styles.chip, p.id === portfolioId && styles.chipActive]}
+            onPress={() => setPortfolioId(p.id)}
+          >
+            <Text style={[styles.chipText, p.id === portfolioId && styles.chipTextActive]}>{p.name}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Text style={styles.sectionTitle}>CSV</Text>
+      <Text style={styles.hint}>
+        Export your holdings from your broker or exchange, then choose the file or paste its contents here, including
+        the header row.
+      </Text>
+      <TouchableOpacity style={styles.fileButton} onPress={handlePickFile}>
+        <Ionicons name="document-text-outline" size={18} color="#0a7ea4" />
+        <Text style={styles.fileButtonText} numberOfLines={1}>{fileName ?? 'Choose CSV File'}</Text>
+      </TouchableOpacity>
+      <TextInput
+        style={styles.csvInput}
+        placeholder={'Symbol,Quantity,Average Cost\nAAPL,10,150.00'}
+        value={csvText}
+        onChangeText={(text) => {
+          setCsvText(text);
+          setFileName(null);
+        }}
+        multiline
+        autoCapitalize="none"
+        autoCorrect={false}
+        textAlignVertical="top"
+      />
+
+      <TouchableOpacity
+        style={[styles.primaryButton, !csvText.trim() && styles.primaryButtonDisabled]}
+        onPress={handleParse}
+        disabled={!csvText.trim()}
+      >
+        <Text style={styles.primaryButtonText}>Continue</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+
+  const renderMap = () => (
+    <ScrollView style={styles.content} contentContainerStyle={styles.contentContainer}>
+      <Text style={styles.hint}>
+        {dataRows.length} rows found. Check which column holds each field; unmapped fields use the defaults.
+      </Text>
+      {IMPORT_FIELDS.map((field) => (
+        <View key={field} style={styles.mappingField}>
+          <Text style={styles.mappingLabel}>{IMPORT_FIELD_LABELS[field]}</Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.mappingOptions}>
+            <TouchableOpacity
+              style={[styles.chip, mapping[field] === undefined && styles.chipActive]}
+              onPress={() => handleMapField(field, undefined)}
+            >
+              <Text style={[styles.chipText, mapping[field] === undefined && styles.chipTextActive]}>None</Text>
+            </TouchableOpacity>
+            {headers.map((header, column) => (
+              <TouchableOpacity
+                key={`${header}-${column}`}
+                style={[styles.chip, mapping[field] === column && styles.chipActive]}
+                onPress={() => handleMapField(field, column)}
+              >
+                <Text style={[styles.chipText, mapping[field] === column && styles.chipTextActive]}>
+                  {header || `Column ${column + 1}`}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        </View>
+      ))}
+
+      <Text style={styles.mappingLabel}>Default asset type</Text>
+      <View style={styles.chipRow}>
+        {ASSET_TYPE_OPTIONS.map((option) => (
+          <TouchableOpacity
+            key={option.type}
+            style={[styles.chip, defaultAssetType === option.type && styles.chipActive]}
+            onPress={() => setDefaultAssetType(option.type)}
+          >
+            <Text style={[styles.chipText, defaultAssetType === option.type && styles.chipTextActive]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {hasAmbiguousDates && (
+        <>
+          <Text style={styles.mappingLabel}>Date format</Text>
+          <Text style={styles.hint}>Some purchase dates could be read either way, such as 03/05/2024.</Text>
+          <View style={styles.chipRow}>
+            {DATE_ORDER_OPTIONS.map((option) => (
+              <TouchableOpacity
+                key={option.order}
+                style={[styles.chip, effectiveDateOrder === option.order && styles.chipActive]}
+                onPress={() => setDateOrder(option.order)}
+              >
+                <Text style={[styles.chipText, effectiveDateOrder === option.order && styles.chipTextActive]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </>
+      )}
+
+      <TouchableOpacity style={styles.primaryButton} onPress={handleReview}>
+        <Text style={styles.primaryButtonText}>Review Import</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+
+  const renderPreview = () => (
+    <View style={styles.content}>
+      <View style={styles.summaryRow}>
+        <View style={styles.summaryItem}>
+          <Text style={[styles.summaryValue, { color: '#059669' }]}>{importable.length}</Text>
+          <Text style={styles.summaryLabel}>To import</Text>
+        </View>
+        <View style={styles.summaryItem}>
+          <Text style={[styles.summaryValue, { color: '#D97706' }]}>{duplicateCount}</Text>
+          <Text style={styles.summaryLabel}>Duplicates</Text>
+        </View>
+        <View style={styles.summaryItem}>
+          <Text style={[styles.summaryValue, { color: '#DC2626' }]}>{invalidCount}</Text>
+          <Text style={styles.summaryLabel}>Errors</Text>
+        </View>
+      </View>
+
+      <View style={styles.toggleRow}>
+        <Text style={styles.toggleLabel}>Import duplicates anyway</Text>
+        <Switch value={includeDuplicates} onValueChange={setIncludeDuplicates} />
+      </View>
+
+      {isOffline && (
+        <View style={styles.offlineBanner}>
+          <Ionicons name="cloud-offline-outline" size={16} color="#92400E" />
+          <Text style={styles.offlineText}>Offline. Assets will be saved when you reconnect.</Text>
+        </View>
+      )}
+
+      <ScrollView style={styles.previewList} contentContainerStyle={styles.contentContainer}>
+        {preview.map((row) => {
+          const status = getRowStatus(row);
+          const skipped = !isImportable(row, includeDuplicates) || importedLines.has(row.line);
+          return (
+            <View key={row.line} style={[styles.previewRow, skipped && styles.previewRowSkipped]}>
+              <Text style={styles.previewLine}>{row.line}</Text>
+              <View style={styles.previewInfo}>
+                <Text style={styles.previewName}>
+                  {row.asset ? `${row.asset.symbol || row.asset.name} • ${row.asset.quantity} @ ${row.asset.purchase_price} ${row.asset.currency}` : cellsByLine.get(row.line)?.join(', ')}
+                </Text>
+                <Text style={[styles.previewStatus, { color: status.color }]}>{status.label}</Text>
+              </View>
+            </View>
+          );
+        })}
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <TouchableOpacity
+          style={[styles.primaryButton, (importable.length === 0 || isImporting) && styles.primaryButtonDisabled]}
+          onPress={handleImport}
+          disabled={importable.length === 0 || isImporting}
+        >
+          {isImporting ? (
+            <Text style={styles.primaryButtonText}>Importing {progress} of {importable.length}...</Text>
+          ) : (
+            <Text style={styles.primaryButtonText}>
+              Import {importable.length} {importable.length === 1 ? 'Asset' : 'Assets'}
+            </Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  const handleBack = () => {
+    if (step === 'preview') setStep('map');
+    else if (step === 'map') setStep('paste');
+    else navigation.goBack();
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.headerButton} onPress={handleBack} disabled={isImporting}>
+          <Ionicons name={step === 'paste' ? 'close' : 'arrow-back'} size={24} color="#11181C" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Import CSV</Text>
+        <View style={styles.headerButton}>
+          {isImporting && <ActivityIndicator size="small" color="#0a7ea4" />}
+        </View>
+      </View>
+
+      {step === 'paste' && renderPaste()}
+      {step === 'map' && renderMap()}
+      {step === 'preview' && renderPreview()}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F5F5',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 16,
+    paddingBottom: 12,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  headerButton: {
+    minWidth: 60,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#11181C',
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#11181C',
+    marginBottom: 8,
+  },
+  hint: {
+    fontSize: 14,
+    color: '#687076',
+    marginBottom: 12,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 20,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  chipActive: {
+    backgroundColor: '#0a7ea4',
+    borderColor: '#0a7ea4',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#687076',
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+  },
+  fileButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#0a7ea4',
+    backgroundColor: '#FFFFFF',
+    marginBottom: 12,
+  },
+  fileButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#0a7ea4',
+  },
+  csvInput: {
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 13,
+    fontFamily: 'monospace',
+    minHeight: 200,
+    marginBottom: 20,
+  },
+  primaryButton: {
+    backgroundColor: '#0a7ea4',
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  primaryButtonDisabled: {
+    opacity: 0.5,
+  },
+  primaryButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  mappingField: {
+    marginBottom: 16,
+  },
+  mappingLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#11181C',
+    marginBottom: 8,
+  },
+  mappingOptions: {
+    gap: 8,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    backgroundColor: '#FFFFFF',
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  summaryItem: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  summaryValue: {
+    fontSize: 22,
+    fontWeight: '700',
+  },
+  summaryLabel: {
+    fontSize: 13,
+    color: '#687076',
+    marginTop: 2,
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: '#FFFFFF',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  toggleLabel: {
+    fontSize: 15,
+    color: '#11181C',
+  },
+  offlineBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#FEF3C7',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  offlineText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#92400E',
+  },
+  previewList: {
+    flex: 1,
+  },
+  previewRow: {
+    flexDirection: 'row',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  previewRowSkipped: {
+    opacity: 0.6,
+  },
+  previewLine: {
+    width: 32,
+    fontSize: 13,
+    color: '#9CA3AF',
+  },
+  previewInfo: {
+    flex: 1,
+  },
+  previewName: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#11181C',
+  },
+  previewStatus: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  footer: {
+    padding: 16,
+    backgroundColor: '#FFFFFF',
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+  },
+});
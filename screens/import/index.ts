@@ -0,0 +1,7 @@
+/**
+ * Import Screens Index
+ * 
+ * Central export for import screens
+ */
+
+export { default as ImportAssetsScreen } from './ImportAssetsScreen';
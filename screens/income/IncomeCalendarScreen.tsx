@@ -0,0 +1,360 @@
+/**
+ * Income Calendar Screen
+ *
+ * Shows income received over the past year and the payments projected from
+ * interest-paying assets over the next twelve months, month by month
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { RootStackScreenProps } from '@/navigation/types';
+import { portfolioService, assetService } from '@/services/api';
+import { cacheIncomeEvents, getCachedIncomeEvents } from '@/services/offlineStorage';
+import type { IncomeEvent } from '@/services/offlineStorage';
+import { useCurrency } from '@/hooks/useCurrency';
+import {
+  addMonths,
+  buildIncomeCalendar,
+  INCOME_TYPE_LABELS,
+  projectIncome,
+  sumIncome,
+  type IncomeMonth,
+} from '@/utils/income';
+
+type Props = RootStackScreenProps<'IncomeCalendar'>;
+
+interface Asset {
+  id: string;
+  portfolio_id: string;
+  asset_type: string;
+  symbol?: string;
+  name: string;
+  quantity: number;
+  purchase_price: number;
+  purchase_date: string;
+  currency?: string;
+  metadata?: Record<string, any>;
+}
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+function formatMonth(month: string): string {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return `${MONTH_NAMES[monthIndex - 1]} ${year}`;
+}
+
+export default function IncomeCalendarScreen({ navigation }: Props) {
+  const { currency, rates, format } = useCurrency();
+  const [assets, setAssets] = useState<Asset[]>([]);
+  const [incomeEvents, setIncomeEvents] = useState<IncomeEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadIncome = useCallback(async () => {
+    try {
+      setError(null);
+      const portfolios = await portfolioService.getPortfolios();
+
+      let allAssets: Asset[] = [];
+      for (const portfolio of portfolios || []) {
+        const portfolioAssets = await assetService.getAssets(portfolio.id);
+        allAssets = [...allAssets, ...(portfolioAssets || [])];
+      }
+
+      const assetIds = allAssets.map((asset) => asset.id);
+      const events = await assetService
+        .getIncomeEvents(assetIds)
+        .then(async (remote) => {
+          await cacheIncomeEvents(assetIds, remote);
+          return remote;
+        })
+        .catch(() => getCachedIncomeEvents(assetIds));
+
+      setAssets(allAssets);
+      setIncomeEvents(events);
+    } catch (err) {
+      console.error('Failed to load income:', err);
+      setError('Failed to load income. Please try again.');
+    } finally {
+      setIsLoading(false);
+      setIsRefreshing(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadIncome();
+  }, [loadIncome]);
+
+  const handleRefresh = () => {
+    setIsRefreshing(true);
+    loadIncome();
+  };
+
+  const fx = { currency, rates };
+  const today = new Date().toISOString().slice(0, 10);
+  const yearAgo = addMonths(today, -12);
+  const nextYear = addMonths(today, 12);
+
+  const receivedEvents = incomeEvents
+    .filter((event) => event.payment_date.slice(0, 10) > yearAgo)
+    .sort((a, b) => b.payment_date.localeCompare(a.payment_date));
+  const payments = assets.flatMap((asset) => projectIncome(asset, today, nextYear));
+  const calendar: IncomeMonth[] = buildIncomeCalendar(payments, today, nextYear, fx);
+  const receivedTotal = sumIncome(receivedEvents, fx);
+  const projectedTotal = sumIncome(payments, fx);
+
+  const getAssetName = (assetId: string): string => {
+    const asset = assets.find((a) => a.id === assetId);
+    return asset?.symbol || asset?.name || 'Unknown asset';
+  };
+
+  if (isLoading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#0a7ea4" />
+        <Text style={styles.loadingText}>Loading income...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.headerButton} onPress={() => navigation.goBack()}>
+          <Ionicons name="close" size={24} color="#11181C" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Income</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      {error && (
+        <View style={styles.errorBanner}>
+          <Text style={styles.errorText}>{error}</Text>
+          <TouchableOpacity onPress={loadIncome}>
+            <Text style={styles.retryText}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      <ScrollView
+        style={styles.content}
+        contentContainerStyle={styles.contentContainer}
+        refreshControl={<RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} />}
+      >
+        <View style={styles.summaryRow}>
+          <View style={styles.summaryCard}>
+            <Text style={styles.summaryLabel}>Last 12 Months</Text>
+            <Text style={styles.summaryValue}>{format(receivedTotal)}</Text>
+          </View>
+          <View style={styles.summaryCard}>
+            <Text style={styles.summaryLabel}>Next 12 Months</Text>
+            <Text style={styles.summaryValue}>{format(projectedTotal)}</Text>
+          </View>
+        </View>
+
+        {/* Projected Calendar */}
+        <Text style={styles.sectionTitle}>Projected Payments</Text>
+        {payments.length === 0 ? (
+          <Text style={styles.emptyText}>
+            Add an interest rate to bonds and other interest-paying assets to project their income.
+          </Text>
+        ) : (
+          calendar.map((month) => (
+            <View key={month.month} style={styles.monthCard}>
+              <View style={styles.monthHeader}>
+                <Text style={styles.monthTitle}>{formatMonth(month.month)}</Text>
+                <Text style={[styles.monthTotal, month.total === 0 && styles.monthTotalEmpty]}>
+                  {format(month.total)}
+                </Text>
+              </View>
+              {month.payments.map((payment) => (
+                <View key={`${payment.asset_id}-${payment.date}`} style={styles.paymentRow}>
+                  <Text style={styles.paymentName}>
+                    {getAssetName(payment.asset_id)} • {INCOME_TYPE_LABELS[payment.income_type]}
+                  </Text>
+                  <Text style={styles.paymentDate}>{new Date(payment.date).toLocaleDateString()}</Text>
+                </View>
+              ))}
+            </View>
+          ))
+        )}
+
+        {/* Received Income */}
+        <Text style={styles.sectionTitle}>Received</Text>
+        {receivedEvents.length === 0 ? (
+          <Text style={styles.emptyText}>No income recorded in the last 12 months.</Text>
+        ) : (
+          receivedEvents.map((event) => (
+            <View key={event.id} style={styles.receivedRow}>
+              <View>
+                <Text style={styles.paymentName}>{getAssetName(event.asset_id)}</Text>
+                <Text style={styles.paymentDate}>
+                  {INCOME_TYPE_LABELS[event.income_type]} • {new Date(event.payment_date).toLocaleDateString()}
+                </Text>
+              </View>
+              <Text style={styles.receivedAmount}>
+                {format(sumIncome([event], fx))}
+              </Text>
+            </View>
+          ))
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F5F5',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F5F5F5',
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#687076',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 16,
+    paddingBottom: 12,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  headerButton: {
+    minWidth: 60,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#11181C',
+  },
+  errorBanner: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: '#FEE2E2',
+    padding: 12,
+    marginHorizontal: 16,
+    marginTop: 12,
+    borderRadius: 8,
+  },
+  errorText: {
+    color: '#DC2626',
+    flex: 1,
+  },
+  retryText: {
+    color: '#0a7ea4',
+    fontWeight: '600',
+    marginLeft: 12,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 24,
+  },
+  summaryCard: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+  },
+  summaryLabel: {
+    fontSize: 13,
+    color: '#687076',
+    marginBottom: 4,
+  },
+  summaryValue: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#11181C',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#11181C',
+    marginBottom: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#687076',
+    marginBottom: 24,
+  },
+  monthCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 8,
+  },
+  monthHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  monthTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#11181C',
+  },
+  monthTotal: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#059669',
+  },
+  monthTotalEmpty: {
+    color: '#9CA3AF',
+  },
+  paymentRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 8,
+  },
+  paymentName: {
+    fontSize: 14,
+    color: '#11181C',
+  },
+  paymentDate: {
+    fontSize: 13,
+    color: '#687076',
+  },
+  receivedRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 8,
+  },
+  receivedAmount: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#059669',
+  },
+});
@@ -0,0 +1,7 @@
+/**
+ * Income Screens Index
+ * 
+ * Central export for income-related screens
+ */
+
+export { default as IncomeCalendarScreen } from './IncomeCalendarScreen';
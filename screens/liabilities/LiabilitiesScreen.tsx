@@ -0,0 +1,591 @@
+/**
+ * Liabilities Screen
+ *
+ * Lists loans, credit lines and mortgages with their balance today, and
+ * records or edits them. A liability can be linked to a real estate holding
+ * it is secured on, replacing any mortgage entered on that property.
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  RefreshControl,
+  Modal,
+  TextInput,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { RootStackScreenProps } from '@/navigation/types';
+import { portfolioService, assetService, liabilityService } from '@/services/api';
+import { cacheLiabilities, getCachedLiabilities } from '@/services/offlineStorage';
+import type { Liability, LiabilityType } from '@/services/offlineStorage';
+import { useCurrency } from '@/hooks/useCurrency';
+import { DEFAULT_CURRENCY, formatMoney } from '@/utils/currency';
+import {
+  calculateNetWorth,
+  collectLiabilities,
+  getLiabilityBalance,
+  LIABILITY_TYPES,
+  LIABILITY_TYPE_LABELS,
+  validateLiability,
+  type DebtAsset,
+  type LiabilityInput,
+} from '@/utils/liabilities';
+import { isRealEstateType } from '@/utils/realEstate';
+
+type Props = RootStackScreenProps<'Liabilities'>;
+
+const LIABILITY_ICONS: Record<LiabilityType, keyof typeof Ionicons.glyphMap> = {
+  mortgage: 'home-outline',
+  loan: 'cash-outline',
+  credit_line: 'card-outline',
+};
+
+function formatDate(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+export default function LiabilitiesScreen({ navigation }: Props) {
+  const { currency, rates, format } = useCurrency();
+  const [liabilities, setLiabilities] = useState<Liability[]>([]);
+  const [properties, setProperties] = useState<DebtAsset[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Form state
+  const [formVisible, setFormVisible] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [liabilityType, setLiabilityType] = useState<LiabilityType>('loan');
+  const [balance, setBalance] = useState('');
+  const [balanceDate, setBalanceDate] = useState(formatDate(new Date()));
+  const [interestRate, setInterestRate] = useState('');
+  const [termMonths, setTermMonths] = useState('');
+  const [creditLimit, setCreditLimit] = useState('');
+  const [linkedAssetId, setLinkedAssetId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadLiabilities = useCallback(async () => {
+    try {
+      setError(null);
+      const recorded = await liabilityService
+        .getLiabilities()
+        .then(async (remote) => {
+          await cacheLiabilities(remote);
+          return remote;
+        })
+        .catch(() => getCachedLiabilities());
+      setLiabilities(recorded);
+
+      const portfolios = await portfolioService.getPortfolios();
+      let allAssets: DebtAsset[] = [];
+      for (const portfolio of portfolios || []) {
+        const portfolioAssets = await assetService.getAssets(portfolio.id);
+        allAssets = [...allAssets, ...(portfolioAssets || [])];
+      }
+      setProperties(allAssets.filter((asset) => isRealEstateType(asset.asset_type)));
+    } catch (err) {
+      console.error('Failed to load liabilities:', err);
+      setError('Failed to load liabilities. Please try again.');
+    } finally {
+      setIsLoading(false);
+      setIsRefreshing(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadLiabilities();
+  }, [loadLiabilities]);
+
+  const handleRefresh = () => {
+    setIsRefreshing(true);
+    loadLiabilities();
+  };
+
+  const openForm = (liability?: Liability) => {
+    setEditingId(liability?.id ?? null);
+    setName(liability?.name ?? '');
+    setLiabilityType(liability?.liability_type ?? 'loan');
+    setBalance(liability ? String(liability.balance) : '');
+    setBalanceDate(liability?.balance_date.slice(0, 10) ?? formatDate(new Date()));
+    setInterestRate(liability ? String(liability.interest_rate) : '');
+    setTermMonths(liability?.term_months ? String(liability.term_months) : '');
+    setCreditLimit(liability?.credit_limit ? String(liability.credit_limit) : '');
+    setLinkedAssetId(liability?.asset_id ?? null);
+    setFormVisible(true);
+  };
+
+  const handleSave = async () => {
+    const linkedProperty = properties.find((property) => property.id === linkedAssetId);
+    const isCreditLine = liabilityType === 'credit_line';
+    const input: LiabilityInput = {
+      name: name.trim(),
+      liability_type: liabilityType,
+      balance: Number(balance),
+      balance_date: balanceDate.trim(),
+      interest_rate: interestRate.trim() ? Number(interestRate) : 0,
+      term_months: !isCreditLine && termMonths.trim() ? Number(termMonths) : null,
+      credit_limit: isCreditLine && creditLimit.trim() ? Number(creditLimit) : null,
+      currency: linkedProperty?.currency || currency,
+      asset_id: isCreditLine ? null : linkedAssetId,
+    };
+
+    if (!balance.trim()) {
+      Alert.alert('Invalid Liability', 'Balance is required');
+      return;
+    }
+    const validationError = validateLiability(input);
+    if (validationError) {
+      Alert.alert('Invalid Liability', validationError);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      if (editingId) {
+        await liabilityService.updateLiability(editingId, input);
+      } else {
+        await liabilityService.createLiability(input);
+      }
+      setFormVisible(false);
+      await loadLiabilities();
+    } catch (err: any) {
+      Alert.alert('Error', err.message || 'Failed to save liability');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = (liability: Liability) => {
+    Alert.alert(
+      'Delete Liability',
+      `Are you sure you want to delete ${liability.name}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await liabilityService.deleteLiability(liability.id);
+              await loadLiabilities();
+            } catch (err: any) {
+              Alert.alert('Error', err.message || 'Failed to delete liability');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const today = formatDate(new Date());
+  // Mortgages entered on a property are listed too, but edited on the asset
+  const debts = collectLiabilities(liabilities, properties);
+  const total = calculateNetWorth(0, debts, today, { currency, rates }).totalLiabilities;
+
+  const getPropertyName = (assetId?: string | null): string | null =>
+    properties.find((property) => property.id === assetId)?.name ?? null;
+
+  if (isLoading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#0a7ea4" />
+        <Text style={styles.loadingText}>Loading liabilities...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.headerButton} onPress={() => navigation.goBack()}>
+          <Ionicons name="close" size={24} color="#11181C" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Liabilities</Text>
+        <TouchableOpacity style={[styles.headerButton, styles.headerButtonRight]} onPress={() => openForm()}>
+          <Ionicons name="add" size={24} color="#0a7ea4" />
+        </TouchableOpacity>
+      </View>
+
+      {error && (
+        <View style={styles.errorBanner}>
+          <Text style={styles.errorText}>{error}</Text>
+          <TouchableOpacity onPress={loadLiabilities}>
+            <Text style={styles.retryText}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      <ScrollView
+        style={styles.content}
+        contentContainerStyle={styles.contentContainer}
+        refreshControl={<RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} />}
+      >
+        <View style={styles.summaryCard}>
+          <Text style={styles.summaryLabel}>Total Owed</Text>
+          <Text style={styles.summaryValue}>{format(total)}</Text>
+        </View>
+
+        {debts.length === 0 ? (
+          <Text style={styles.emptyText}>
+            Record loans, credit lines and mortgages to see your net worth on the dashboard.
+          </Text>
+        ) : (
+          debts.map((debt) => {
+            const isRecorded = liabilities.some((liability) => liability.id === debt.id);
+            const propertyName = getPropertyName(debt.asset_id);
+            return (
+              <TouchableOpacity
+                key={debt.id}
+                style={styles.liabilityRow}
+                onPress={() => (isRecorded ? openForm(debt) : null)}
+                onLongPress={() => (isRecorded ? handleDelete(debt) : null)}
+                disabled={!isRecorded}
+                accessibilityRole="button"
+                accessibilityHint={isRecorded ? 'Tap to edit, long press to delete' : 'Edit this mortgage on the property'}
+              >
+                <View style={styles.liabilityIcon}>
+                  <Ionicons name={LIABILITY_ICONS[debt.liability_type]} size={20} color="#0a7ea4" />
+                </View>
+                <View style={styles.liabilityInfo}>
+                  <Text style={styles.liabilityName}>{debt.name}</Text>
+                  <Text style={styles.liabilityMeta}>
+                    {LIABILITY_TYPE_LABELS[debt.liability_type]} • {debt.interest_rate.toFixed(2)}%
+                    {propertyName && isRecorded ? ` • ${propertyName}` : ''}
+                    {!isRecorded ? ' • Entered on property' : ''}
+                  </Text>
+                </View>
+                <Text style={styles.liabilityBalance}>
+                  {formatMoney(getLiabilityBalance(debt, today), debt.currency || DEFAULT_CURRENCY)}
+                </Text>
+              </TouchableOpacity>
+            );
+          })
+        )}
+      </ScrollView>
+
+      {/* Liability Form */}
+      <Modal
+        visible={formVisible}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setFormVisible(false)}
+      >
+        <View style={styles.container}>
+          <View style={styles.header}>
+            <TouchableOpacity style={styles.headerButton} onPress={() => setFormVisible(false)}>
+              <Text style={styles.cancelText}>Cancel</Text>
+            </TouchableOpacity>
+            <Text style={styles.headerTitle}>{editingId ? 'Edit Liability' : 'New Liability'}</Text>
+            <TouchableOpacity
+              style={[styles.headerButton, styles.headerButtonRight]}
+              onPress={handleSave}
+              disabled={isSaving}
+            >
+              {isSaving ? (
+                <ActivityIndicator size="small" color="#0a7ea4" />
+              ) : (
+                <Text style={styles.saveText}>Save</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView contentContainerStyle={styles.contentContainer} keyboardShouldPersistTaps="handled">
+            <Text style={styles.inputLabel}>Type</Text>
+            <View style={styles.chipRow}>
+              {LIABILITY_TYPES.map((type) => (
+                <TouchableOpacity
+                  key={type}
+                  style={[styles.chip, liabilityType === type && styles.chipActive]}
+                  onPress={() => setLiabilityType(type)}
+                >
+                  <Text style={[styles.chipText, liabilityType === type && styles.chipTextActive]}>
+                    {LIABILITY_TYPE_LABELS[type]}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.inputLabel}>Name</Text>
+            <TextInput
+              style={styles.input}
+              value={name}
+              onChangeText={setName}
+              placeholder="e.g., Car Loan"
+              placeholderTextColor="#9CA3AF"
+            />
+
+            <Text style={styles.inputLabel}>Balance</Text>
+            <TextInput
+              style={styles.input}
+              value={balance}
+              onChangeText={setBalance}
+              placeholder="0.00"
+              keyboardType="decimal-pad"
+              placeholderTextColor="#9CA3AF"
+            />
+
+            <Text style={styles.inputLabel}>Balance As Of</Text>
+            <TextInput
+              style={styles.input}
+              value={balanceDate}
+              onChangeText={setBalanceDate}
+              placeholder="YYYY-MM-DD"
+              placeholderTextColor="#9CA3AF"
+            />
+
+            <Text style={styles.inputLabel}>Interest Rate (%)</Text>
+            <TextInput
+              style={styles.input}
+              value={interestRate}
+              onChangeText={setInterestRate}
+              placeholder="0.00"
+              keyboardType="decimal-pad"
+              placeholderTextColor="#9CA3AF"
+            />
+
+            {liabilityType === 'credit_line' ? (
+              <>
+                <Text style={styles.inputLabel}>Credit Limit</Text>
+                <TextInput
+                  style={styles.input}
+                  value={creditLimit}
+                  onChangeText={setCreditLimit}
+                  placeholder="Optional"
+                  keyboardType="decimal-pad"
+                  placeholderTextColor="#9CA3AF"
+                />
+              </>
+            ) : (
+              <>
+                <Text style={styles.inputLabel}>Remaining Term (months)</Text>
+                <TextInput
+                  style={styles.input}
+                  value={termMonths}
+                  onChangeText={setTermMonths}
+                  placeholder="Leave empty for interest-only"
+                  keyboardType="number-pad"
+                  placeholderTextColor="#9CA3AF"
+                />
+
+                {properties.length > 0 && (
+                  <>
+                    <Text style={styles.inputLabel}>Secured On</Text>
+                    <View style={styles.chipRow}>
+                      <TouchableOpacity
+                        style={[styles.chip, linkedAssetId === null && styles.chipActive]}
+                        onPress={() => setLinkedAssetId(null)}
+                      >
+                        <Text style={[styles.chipText, linkedAssetId === null && styles.chipTextActive]}>None</Text>
+                      </TouchableOpacity>
+                      {properties.map((property) => (
+                        <TouchableOpacity
+                          key={property.id}
+                          style={[styles.chip, linkedAssetId === property.id && styles.chipActive]}
+                          onPress={() => setLinkedAssetId(property.id)}
+                        >
+                          <Text style={[styles.chipText, linkedAssetId === property.id && styles.chipTextActive]}>
+                            {property.name}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                    <Text style={styles.hintText}>
+                      A linked loan replaces the mortgage entered on the property.
+                    </Text>
+                  </>
+                )}
+              </>
+            )}
+          </ScrollView>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F5F5',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F5F5F5',
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#687076',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 16,
+    paddingBottom: 12,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  headerButton: {
+    minWidth: 60,
+  },
+  headerButtonRight: {
+    alignItems: 'flex-end',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#11181C',
+  },
+  cancelText: {
+    fontSize: 16,
+    color: '#687076',
+  },
+  saveText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#0a7ea4',
+  },
+  errorBanner: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: '#FEE2E2',
+    padding: 12,
+    marginHorizontal: 16,
+    marginTop: 12,
+    borderRadius: 8,
+  },
+  errorText: {
+    color: '#DC2626',
+    flex: 1,
+  },
+  retryText: {
+    color: '#0a7ea4',
+    fontWeight: '600',
+    marginLeft: 12,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  summaryCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  summaryLabel: {
+    fontSize: 13,
+    color: '#687076',
+    marginBottom: 4,
+  },
+  summaryValue: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#DC2626',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#687076',
+  },
+  liabilityRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 8,
+  },
+  liabilityIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#E0F2FE',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  liabilityInfo: {
+    flex: 1,
+  },
+  liabilityName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#11181C',
+  },
+  liabilityMeta: {
+    fontSize: 13,
+    color: '#687076',
+    marginTop: 2,
+  },
+  liabilityBalance: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#11181C',
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#11181C',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#11181C',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    backgroundColor: '#FFFFFF',
+  },
+  chipActive: {
+    borderColor: '#0a7ea4',
+    backgroundColor: '#0a7ea4',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#687076',
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  hintText: {
+    fontSize: 12,
+    color: '#687076',
+    marginTop: 8,
+  },
+});
@@ -0,0 +1 @@
+export { default as LiabilitiesScreen } from './LiabilitiesScreen';
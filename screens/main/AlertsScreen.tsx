@@ -1,7 +1,8 @@
 /**
  * Alerts Screen
  * 
- * Displays list of user's price alerts with CRUD operations
+ * Displays list of user's price alerts with CRUD operations, whether each
+ * is snoozed or has fired, and opens an alert's trigger history
  * Requirements: 7
  */
 
@@ -19,18 +20,44 @@ import {
   Switch,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
-import { MainTabScreenProps } from '@/navigation/types';
-import { alertService, assetService } from '@/services/api';
+import { RootStackScreenProps } from '@/navigation/types';
+import { alertService, assetService, portfolioService } from '@/services/api';
+import { cacheAlerts, getCachedAlerts, getCachedPortfolios } from '@/services/offlineStorage';
+import { getAlertSubject } from '@/utils/watchlists';
+import {
+  ALERT_FREQUENCY_LABELS,
+  getAlertFrequency,
+  getAlertStatus,
+  getRearmUpdates,
+} from '@/utils/alertHistory';
+import { describeCondition } from '@/utils/alertConditions';
+import { PORTFOLIO_ALERT_LABELS, describePortfolioRule } from '@/utils/portfolioAlerts';
+import { getAssetTypeInfo } from '@/utils/assetTypes';
+import { useCurrency } from '@/hooks/useCurrency';
+import type {
+  AlertCondition,
+  AlertFrequency,
+  PortfolioAlertRule,
+  PortfolioAlertType,
+} from '@/services/offlineStorage';
 
-type Props = MainTabScreenProps<'Alerts'>;
+type Props = RootStackScreenProps<'Alerts'>;
 
 interface AlertItem {
   id: string;
-  asset_id: string;
-  alert_type: 'price_target' | 'percentage_change' | 'maturity_reminder';
+  /** Null for alerts on a watched symbol or a whole portfolio */
+  asset_id: string | null;
+  symbol?: string | null;
+  exchange?: string | null;
+  portfolio_id?: string | null;
+  alert_type: 'price_target' | 'percentage_change' | 'condition' | 'maturity_reminder' | PortfolioAlertType;
   condition_value: number;
+  condition?: AlertCondition | null;
+  portfolio_rule?: PortfolioAlertRule | null;
   is_active: boolean;
-  triggered_at?: string;
+  frequency?: AlertFrequency;
+  snoozed_until?: string | null;
+  triggered_at?: string | null;
   created_at: string;
 }
 
@@ -44,18 +71,27 @@ interface AssetInfo {
 const ALERT_TYPE_LABELS: Record<string, string> = {
   price_target: 'Price Target',
   percentage_change: 'Percentage Change',
+  condition: 'Custom Condition',
   maturity_reminder: 'Maturity Reminder',
+  ...PORTFOLIO_ALERT_LABELS,
 };
 
 const ALERT_TYPE_ICONS: Record<string, keyof typeof Ionicons.glyphMap> = {
   price_target: 'trending-up',
   percentage_change: 'analytics',
+  condition: 'options',
   maturity_reminder: 'calendar',
+  portfolio_value: 'wallet',
+  portfolio_drawdown: 'trending-down',
+  allocation_drift: 'pie-chart',
+  concentration: 'warning',
 };
 
 export default function AlertsScreen({ navigation }: Props) {
+  const { format } = useCurrency();
   const [alerts, setAlerts] = useState<AlertItem[]>([]);
   const [assets, setAssets] = useState<Map<string, AssetInfo>>(new Map());
+  const [portfolios, setPortfolios] = useState<Map<string, { name: string }>>(new Map());
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -63,11 +99,17 @@ export default function AlertsScreen({ navigation }: Props) {
   const fetchAlerts = useCallback(async () => {
     try {
       setError(null);
-      const alertsData = await alertService.getAlerts();
+      const alertsData = await alertService
+        .getAlerts()
+        .then(async (remote) => {
+          await cacheAlerts(remote || []);
+          return remote;
+        })
+        .catch(async () => (await getCachedAlerts()) as AlertItem[]);
       setAlerts(alertsData || []);
       
       // Fetch asset info for each alert
-      const assetIds = [...new Set(alertsData?.map((a: AlertItem) => a.asset_id) || [])];
+      const assetIds = [...new Set(alertsData?.map((a: AlertItem) => a.asset_id).filter(Boolean) || [])] as string[];
       const assetMap = new Map<string, AssetInfo>();
       
       for (const assetId of assetIds) {
@@ -80,6 +122,11 @@ export default function AlertsScreen({ navigation }: Props) {
       }
       
       setAssets(assetMap);
+
+      if (alertsData?.some((a: AlertItem) => a.portfolio_id)) {
+        const portfolioData = await portfolioService.getPortfolios().catch(() => getCachedPortfolios());
+        setPortfolios(new Map((portfolioData || []).map((p: { id: string; name: string }) => [p.id, p])));
+      }
     } catch (err: any) {
       setError(err.message || 'Failed to load alerts');
     } finally {
@@ -92,6 +139,14 @@ export default function AlertsScreen({ navigation }: Props) {
     fetchAlerts();
   }, [fetchAlerts]);
 
+  // Pick up snoozes and re-arms made from an alert's history
+  useEffect(() => {
+    const unsubscribe = navigation.addListener('focus', () => {
+      if (!isLoading) fetchAlerts();
+    });
+    return unsubscribe;
+  }, [navigation, fetchAlerts, isLoading]);
+
   const handleRefresh = () => {
     setIsRefreshing(true);
     fetchAlerts();
@@ -103,10 +158,12 @@ export default function AlertsScreen({ navigation }: Props) {
   };
 
   const handleToggleAlert = async (alertId: string, isActive: boolean) => {
+    // Switching an alert back on re-arms it
+    const updates = isActive ? getRearmUpdates() : { is_active: false };
     try {
-      await alertService.updateAlert(alertId, { is_active: isActive });
+      await alertService.updateAlert(alertId, updates);
       setAlerts(prev => 
-        prev.map(a => a.id === alertId ? { ...a, is_active: isActive } : a)
+        prev.map(a => a.id === alertId ? { ...a, ...updates } : a)
       );
     } catch (err: any) {
       Alert.alert('Error', err.message || 'Failed to update alert');
@@ -136,6 +193,10 @@ export default function AlertsScreen({ navigation }: Props) {
   };
 
   const formatConditionValue = (alert: AlertItem): string => {
+    if (alert.portfolio_rule) {
+      return describePortfolioRule(alert.portfolio_rule, format, (type) => getAssetTypeInfo(type).label);
+    }
+    if (alert.condition) return describeCondition(alert.condition);
     switch (alert.alert_type) {
       case 'price_target':
         return `$${alert.condition_value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
@@ -152,17 +213,26 @@ export default function AlertsScreen({ navigation }: Props) {
     switch (alertType) {
       case 'price_target': return '#10B981';
       case 'percentage_change': return '#F59E0B';
+      case 'condition': return '#8B5CF6';
       case 'maturity_reminder': return '#6366F1';
+      case 'portfolio_value': return '#0EA5E9';
+      case 'portfolio_drawdown': return '#DC2626';
+      case 'allocation_drift': return '#14B8A6';
+      case 'concentration': return '#F97316';
       default: return '#687076';
     }
   };
 
   const renderAlertItem = ({ item }: { item: AlertItem }) => {
-    const asset = assets.get(item.asset_id);
-    const assetName = asset?.symbol || asset?.name || 'Unknown Asset';
+    const assetName = getAlertSubject(item, assets, portfolios);
+    const status = getAlertStatus(item);
     
     return (
-      <View style={[styles.alertCard, !item.is_active && styles.alertCardInactive]}>
+      <TouchableOpacity
+        style={[styles.alertCard, !item.is_active && styles.alertCardInactive]}
+        onPress={() => navigation.navigate('AlertHistory', { alertId: item.id })}
+        accessibilityHint="Shows when this alert fired"
+      >
         <View style={styles.alertHeader}>
           <View style={[styles.alertTypeIcon, { backgroundColor: getAlertTypeColor(item.alert_type) }]}>
             <Ionicons 
@@ -173,7 +243,9 @@ export default function AlertsScreen({ navigation }: Props) {
           </View>
           <View style={styles.alertInfo}>
             <Text style={styles.alertAssetName}>{assetName}</Text>
-            <Text style={styles.alertType}>{ALERT_TYPE_LABELS[item.alert_type] || item.alert_type}</Text>
+            <Text style={styles.alertType}>
+              {ALERT_TYPE_LABELS[item.alert_type] || item.alert_type} · {ALERT_FREQUENCY_LABELS[getAlertFrequency(item)]}
+            </Text>
           </View>
           <Switch
             value={item.is_active}
@@ -193,6 +265,16 @@ export default function AlertsScreen({ navigation }: Props) {
             <Ionicons name="checkmark-circle" size={14} color="#10B981" />
             <Text style={styles.triggeredText}>
               Triggered {new Date(item.triggered_at).toLocaleDateString()}
+              {status === 'fired' ? ' · switch on to re-arm' : ''}
+            </Text>
+          </View>
+        )}
+
+        {status === 'snoozed' && item.snoozed_until && (
+          <View style={styles.triggeredBadge}>
+            <Ionicons name="moon-outline" size={14} color="#6366F1" />
+            <Text style={styles.snoozedText}>
+              Snoozed until {new Date(item.snoozed_until).toLocaleString()}
             </Text>
           </View>
         )}
@@ -206,7 +288,7 @@ export default function AlertsScreen({ navigation }: Props) {
             <Text style={styles.deleteText}>Delete</Text>
           </TouchableOpacity>
         </View>
-      </View>
+      </TouchableOpacity>
     );
   };
 
@@ -252,6 +334,9 @@ export default function AlertsScreen({ navigation }: Props) {
   return (
     <SafeAreaView style={styles.container}>
       <View style={styles.header}>
+        <TouchableOpacity style={styles.closeButton} onPress={() => navigation.goBack()}>
+          <Ionicons name="close" size={24} color="#11181C" />
+        </TouchableOpacity>
         <Text style={styles.headerTitle}>Alerts</Text>
         <TouchableOpacity style={styles.addButton} onPress={handleCreateAlert}>
           <Ionicons name="add" size={24} color="#0a7ea4" />
@@ -320,6 +405,9 @@ const styles = StyleSheet.create({
     borderBottomWidth: 1,
     borderBottomColor: '#E5E7EB',
   },
+  closeButton: {
+    padding: 8,
+  },
   headerTitle: {
     fontSize: 24,
     fontWeight: '700',
@@ -401,6 +489,10 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#10B981',
   },
+  snoozedText: {
+    fontSize: 12,
+    color: '#6366F1',
+  },
   alertActions: {
     flexDirection: 'row',
     justifyContent: 'flex-end',
@@ -18,17 +18,28 @@ import {
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { MainTabScreenProps } from '@/navigation/types';
-import { assetService } from '@/services/api';
+import { assetService, priceHistoryService } from '@/services/api';
+import { fixedIncomeService } from '@/services/fixedIncomeService';
 import { useAppDispatch, useAppSelector } from '@/store/hooks';
-import { setAssets, setLoading, setError } from '@/store/slices/assetsSlice';
+import { setAssets, setLoading, setError, setPriceQuotes } from '@/store/slices/assetsSlice';
 import { useRealtimePrices } from '@/hooks/useRealtimePrices';
+import { useCurrency } from '@/hooks/useCurrency';
+import { DEFAULT_CURRENCY, formatMoney } from '@/utils/currency';
 import { RealtimeStatus } from '@/components/RealtimeStatus';
+import type { AssetType } from '@/services/offlineStorage';
+import { ASSET_TYPES, ASSET_TYPE_INFO, getAssetTypeInfo } from '@/utils/assetTypes';
+import { formatPriceAsOf, getLatestQuotes, isQuoteStale } from '@/utils/priceProvider';
+import { getSparklines } from '@/utils/priceCharts';
+import Sparkline from '@/components/charts/Sparkline';
 
 type Props = MainTabScreenProps<'Assets'>;
 
-type AssetType = 'all' | 'stock' | 'crypto' | 'commodity' | 'real_estate' | 'fixed_income' | 'other';
+type AssetTypeFilter = 'all' | AssetType;
 type SortOption = 'name' | 'value' | 'performance';
 
+/** How far back the row sparklines go */
+const SPARKLINE_DAYS = 7;
+
 interface Asset {
   id: string;
   portfolio_id: string;
@@ -39,49 +50,48 @@ interface Asset {
   purchase_price: number;
   purchase_date: string;
   current_price?: number;
+  currency?: string;
   metadata?: Record<string, any>;
   created_at: string;
   updated_at: string;
 }
 
-const ASSET_TYPE_LABELS: Record<string, string> = {
-  all: 'All',
-  stock: 'Stocks',
-  crypto: 'Crypto',
-  commodity: 'Commodities',
-  real_estate: 'Real Estate',
-  fixed_income: 'Fixed Income',
-  other: 'Other',
-};
-
-const ASSET_TYPE_COLORS: Record<string, string> = {
-  stock: '#4CAF50',
-  crypto: '#FF9800',
-  commodity: '#9C27B0',
-  real_estate: '#2196F3',
-  fixed_income: '#607D8B',
-  other: '#795548',
-};
-
-const FILTER_TYPES: AssetType[] = ['all', 'stock', 'crypto', 'commodity', 'real_estate', 'fixed_income', 'other'];
+const FILTER_TYPES: AssetTypeFilter[] = ['all', ...ASSET_TYPES];
+
+// Value in the asset's own currency
+function calculateNativeValue(asset: Asset): number {
+  return (asset.current_price || asset.purchase_price) * asset.quantity;
+}
+
+// Price performance in the asset's own currency
+function calculatePerformance(asset: Asset): number {
+  const currentValue = calculateNativeValue(asset);
+  const costBasis = asset.purchase_price * asset.quantity;
+  return costBasis > 0 ? ((currentValue - costBasis) / costBasis) * 100 : 0;
+}
 
 export default function AssetsScreen({ navigation }: Props) {
   const dispatch = useAppDispatch();
-  const { assets, isLoading, error } = useAppSelector((state) => state.assets);
+  const { assets, isLoading, error, quotes } = useAppSelector((state) => state.assets);
   const { selectedPortfolioId, portfolios } = useAppSelector((state) => state.portfolio);
 
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
-  const [selectedType, setSelectedType] = useState<AssetType>('all');
+  const [selectedType, setSelectedType] = useState<AssetTypeFilter>('all');
   const [sortBy, setSortBy] = useState<SortOption>('value');
   const [sortAscending, setSortAscending] = useState(false);
+  const [sparklines, setSparklines] = useState<Record<string, number[]>>({});
 
   const selectedPortfolio = portfolios.find((p) => p.id === selectedPortfolioId);
+  const { currency, convert, format } = useCurrency();
 
   // Real-time price updates subscription
   const { 
     lastUpdated: realtimeLastUpdated, 
     isConnected, 
+    health,
+    latencyMs,
+    source: priceSource,
     connectionError, 
     reconnect 
   } = useRealtimePrices({ 
@@ -95,7 +105,20 @@ export default function AssetsScreen({ navigation }: Props) {
     try {
       dispatch(setLoading(true));
       const data = await assetService.getAssets(selectedPortfolioId);
-      dispatch(setAssets(data || []));
+      const loaded = await fixedIncomeService.refreshValuations(data || []);
+      dispatch(setAssets(loaded));
+
+      // The past week's prices of listed holdings, for the row sparklines and
+      // when each price was last quoted until live prices arrive
+      const quoted = loaded.filter((asset: Asset) => asset.symbol).map((asset: Asset) => asset.id);
+      const since = new Date(Date.now() - SPARKLINE_DAYS * 24 * 60 * 60 * 1000).toISOString();
+      priceHistoryService
+        .getPriceHistoryForAssets(quoted, since)
+        .then((rows) => {
+          setSparklines(getSparklines(rows));
+          dispatch(setPriceQuotes(getLatestQuotes(rows)));
+        })
+        .catch(() => undefined);
     } catch (err) {
       dispatch(setError('Failed to load assets'));
     }
@@ -111,15 +134,15 @@ export default function AssetsScreen({ navigation }: Props) {
     setIsRefreshing(false);
   };
 
-  const calculateAssetValue = (asset: Asset): number => {
-    return (asset.current_price || asset.purchase_price) * asset.quantity;
-  };
+  // Value in the user's preferred currency; null without an exchange rate
+  const calculateAssetValue = useCallback(
+    (asset: Asset): number | null => convert(calculateNativeValue(asset), asset.currency),
+    [convert]
+  );
 
-  const calculatePerformance = (asset: Asset): number => {
-    const currentValue = calculateAssetValue(asset);
-    const costBasis = asset.purchase_price * asset.quantity;
-    return costBasis > 0 ? ((currentValue - costBasis) / costBasis) * 100 : 0;
-  };
+  const totalValue = assets.reduce((sum, asset) => sum + (calculateAssetValue(asset) ?? 0), 0);
+  // Holdings the total leaves out for want of an exchange rate
+  const unconvertedCount = assets.filter((asset) => calculateAssetValue(asset) === null).length;
 
   const filteredAndSortedAssets = useMemo(() => {
     let result = [...assets];
@@ -144,7 +167,7 @@ export default function AssetsScreen({ navigation }: Props) {
           comparison = a.name.localeCompare(b.name);
           break;
         case 'value':
-          comparison = calculateAssetValue(b) - calculateAssetValue(a);
+          comparison = (calculateAssetValue(b) ?? 0) - (calculateAssetValue(a) ?? 0);
           break;
         case 'performance':
           comparison = calculatePerformance(b) - calculatePerformance(a);
@@ -154,16 +177,7 @@ export default function AssetsScreen({ navigation }: Props) {
     });
 
     return result;
-  }, [assets, searchQuery, selectedType, sortBy, sortAscending]);
-
-  const formatCurrency = (value: number): string => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2,
-    }).format(value);
-  };
+  }, [assets, searchQuery, selectedType, sortBy, sortAscending, calculateAssetValue]);
 
   const formatPercent = (value: number): string => {
     const sign = value >= 0 ? '+' : '';
@@ -190,12 +204,15 @@ export default function AssetsScreen({ navigation }: Props) {
 
   const renderAssetCard = ({ item }: { item: Asset }) => {
     const value = calculateAssetValue(item);
+    const assetCurrency = item.currency || DEFAULT_CURRENCY;
     const performance = calculatePerformance(item);
-    const typeColor = ASSET_TYPE_COLORS[item.asset_type] || ASSET_TYPE_COLORS.other;
+    const typeInfo = getAssetTypeInfo(item.asset_type);
+    const quote = quotes[item.id];
+    const isStale = !!quote && isQuoteStale(quote, item.asset_type);
 
     return (
       <TouchableOpacity style={styles.assetCard}>
-        <View style={[styles.assetTypeIndicator, { backgroundColor: typeColor }]} />
+        <View style={[styles.assetTypeIndicator, { backgroundColor: typeInfo.color }]} />
         <View style={styles.assetInfo}>
           <View style={styles.assetHeader}>
             <Text style={styles.assetName} numberOfLines={1}>
@@ -204,11 +221,37 @@ export default function AssetsScreen({ navigation }: Props) {
             {item.symbol && <Text style={styles.assetSymbol}>{item.symbol}</Text>}
           </View>
           <Text style={styles.assetType}>
-            {ASSET_TYPE_LABELS[item.asset_type] || 'Other'} • {item.quantity} units
+            {typeInfo.groupLabel} • {item.quantity} units
           </Text>
+          {quote && (
+            <Text style={[styles.assetAsOf, isStale && styles.assetStale]}>
+              {isStale && <Ionicons name="warning-outline" size={11} color="#D97706" />}
+              {isStale ? ' Stale price ' : 'Price '}
+              {formatPriceAsOf(quote.as_of)}
+            </Text>
+          )}
         </View>
+        {sparklines[item.id] && (
+          <View style={styles.assetSparkline}>
+            <Sparkline values={sparklines[item.id]} />
+          </View>
+        )}
         <View style={styles.assetValues}>
-          <Text style={styles.assetValue}>{formatCurrency(value)}</Text>
+          {value !== null ? (
+            <>
+              <Text style={styles.assetValue}>{format(value)}</Text>
+              {assetCurrency !== currency && (
+                <Text style={styles.assetNativeValue}>
+                  {formatMoney(calculateNativeValue(item), assetCurrency)}
+                </Text>
+              )}
+            </>
+          ) : (
+            <>
+              <Text style={styles.assetValue}>{formatMoney(calculateNativeValue(item), assetCurrency)}</Text>
+              <Text style={styles.assetNativeValue}>No {assetCurrency} rate</Text>
+            </>
+          )}
           <Text
             style={[
               styles.assetPerformance,
@@ -222,7 +265,7 @@ export default function AssetsScreen({ navigation }: Props) {
     );
   };
 
-  const renderFilterChip = (type: AssetType) => {
+  const renderFilterChip = (type: AssetTypeFilter) => {
     const isSelected = selectedType === type;
     return (
       <TouchableOpacity
@@ -231,7 +274,7 @@ export default function AssetsScreen({ navigation }: Props) {
         onPress={() => setSelectedType(type)}
       >
         <Text style={[styles.filterChipText, isSelected && styles.filterChipTextSelected]}>
-          {ASSET_TYPE_LABELS[type]}
+          {type === 'all' ? 'All' : ASSET_TYPE_INFO[type].groupLabel}
         </Text>
       </TouchableOpacity>
     );
@@ -265,7 +308,10 @@ export default function AssetsScreen({ navigation }: Props) {
         <View>
           <Text style={styles.headerTitle}>Assets</Text>
           {selectedPortfolio && (
-            <Text style={styles.headerSubtitle}>{selectedPortfolio.name}</Text>
+            <Text style={styles.headerSubtitle}>
+              {selectedPortfolio.name} • {format(totalValue)}
+              {unconvertedCount > 0 && ` (excludes ${unconvertedCount} without a rate)`}
+            </Text>
           )}
         </View>
         <TouchableOpacity style={styles.addButton} onPress={handleAddAsset}>
@@ -279,6 +325,9 @@ export default function AssetsScreen({ navigation }: Props) {
         lastUpdated={realtimeLastUpdated}
         error={connectionError}
         onReconnect={reconnect}
+        health={health}
+        latencyMs={latencyMs}
+        source={priceSource}
       />
 
       {/* Search Bar */}
@@ -563,6 +612,17 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#687076',
   },
+  assetAsOf: {
+    fontSize: 11,
+    color: '#9CA3AF',
+    marginTop: 2,
+  },
+  assetStale: {
+    color: '#D97706',
+  },
+  assetSparkline: {
+    marginHorizontal: 8,
+  },
   assetValues: {
     alignItems: 'flex-end',
   },
@@ -572,6 +632,11 @@ const styles = StyleSheet.create({
     color: '#11181C',
     marginBottom: 4,
   },
+  assetNativeValue: {
+    fontSize: 12,
+    color: '#687076',
+    marginBottom: 4,
+  },
   assetPerformance: {
     fontSize: 14,
     fontWeight: '600',
@@ -18,13 +18,71 @@ import {
   TouchableOpacity,
 } from 'react-native';
 import { MainTabScreenProps } from '@/navigation/types';
-import { portfolioService, assetService, subscriptionService } from '@/services/api';
+import {
+  portfolioService,
+  assetService,
+  subscriptionService,
+  profileService,
+  priceHistoryService,
+  benchmarkService,
+  liabilityService,
+} from '@/services/api';
+import { fxService } from '@/services/fxService';
+import { fixedIncomeService } from '@/services/fixedIncomeService';
+import {
+  cacheBenchmarkPrices,
+  cacheIncomeEvents,
+  cacheLiabilities,
+  cacheSnapshots,
+  getCachedBenchmarkPrices,
+  getCachedIncomeEvents,
+  getCachedLiabilities,
+  getCachedSnapshots,
+} from '@/services/offlineStorage';
+import type {
+  AssetTransaction,
+  BenchmarkPrice,
+  CostBasisMethod,
+  IncomeEvent,
+  PortfolioSnapshot,
+} from '@/services/offlineStorage';
+import { derivePosition, isInflow, DEFAULT_COST_BASIS_METHOD } from '@/utils/ledger';
+import {
+  calculateFxBreakdown,
+  DEFAULT_CURRENCY,
+  getFxRate,
+  getMissingRates,
+  type FxContext,
+} from '@/utils/currency';
+import {
+  buildReturnsInput,
+  calculateReturns,
+  getPeriodStartDate,
+  toDay,
+  type PeriodReturn,
+  type ReturnPeriod,
+} from '@/utils/returns';
+import {
+  fillSnapshotGaps,
+  getFirstActivityDate,
+  getHistoryDates,
+  getPriceHistoryStart,
+  sumSnapshots,
+  type ValuePoint,
+} from '@/utils/portfolioHistory';
+import { addMonths, projectIncome, sumIncome } from '@/utils/income';
+import { buildBenchmarkSeries } from '@/utils/benchmarks';
+import { getAssetTypeInfo } from '@/utils/assetTypes';
+import { formatPriceAsOf, getLatestQuotes, summarizeQuotes } from '@/utils/priceProvider';
+import { buildNetWorthSeries, calculateNetWorth, collectLiabilities, type NetWorth } from '@/utils/liabilities';
 import {
   DashboardHeader,
   PerformanceCard,
+  NetWorthCard,
   AllocationCard,
   PerformerCard,
   StatsCard,
+  formatStatsValue,
   getAssetTypeColor,
 } from '@/components/dashboard';
 import type { TimePeriod, AllocationItem } from '@/components/dashboard';
@@ -34,13 +92,19 @@ type Props = MainTabScreenProps<'Dashboard'>;
 
 interface Asset {
   id: string;
+  portfolio_id: string;
   name: string;
   symbol?: string;
   asset_type: string;
   current_price: number;
   purchase_price: number;
+  purchase_date: string;
   quantity: number;
+  currency?: string;
+  previous_close?: number | null;
   metadata?: Record<string, any>;
+  created_at: string;
+  updated_at: string;
 }
 
 interface PortfolioSummary {
@@ -48,21 +112,50 @@ interface PortfolioSummary {
   totalInvested: number;
   todayChange: number;
   todayChangePercent: number;
+  allTimeReturn: number;
+  allTimeReturnPercent: number;
+  realizedGain: number;
+  unrealizedGain: number;
+  /** Part of the unrealized gain caused by exchange rate moves */
+  fxGain: number;
+  /** Dividends, interest, rent and rewards received */
+  incomeReceived: number;
   bestPerformer: { name: string; changePercent: number } | null;
   worstPerformer: { name: string; changePercent: number } | null;
 }
 
 /**
  * Calculates portfolio summary from assets
+ * Assets with a transaction ledger use the positions and realized gains
+ * derived from it under the given cost-basis method. Today's change is
+ * measured against each asset's previous close (its stored previous_close,
+ * else the closes from price history); assets with neither count as unchanged.
+ * Amounts are converted from each asset's currency into fx.currency, with
+ * cost valued at the rates on the acquisition dates; holdings in a currency
+ * without a rate are left out. Income received counts towards the all-time
+ * return.
  * Requirements: 10.2, 10.3, 10.4
  */
-export function calculateSummary(assets: Asset[]): PortfolioSummary {
+export function calculateSummary(
+  assets: Asset[],
+  transactions: AssetTransaction[] = [],
+  costBasisMethod: CostBasisMethod = DEFAULT_COST_BASIS_METHOD,
+  previousCloses: Record<string, number> = {},
+  fx: FxContext = { currency: DEFAULT_CURRENCY, rates: {} },
+  incomeEvents: IncomeEvent[] = []
+): PortfolioSummary {
   if (assets.length === 0) {
     return {
       totalValue: 0,
       totalInvested: 0,
       todayChange: 0,
       todayChangePercent: 0,
+      allTimeReturn: 0,
+      allTimeReturnPercent: 0,
+      realizedGain: 0,
+      unrealizedGain: 0,
+      fxGain: 0,
+      incomeReceived: 0,
       bestPerformer: null,
       worstPerformer: null,
     };
@@ -70,17 +163,42 @@ export function calculateSummary(assets: Asset[]): PortfolioSummary {
 
   let totalValue = 0;
   let totalInvested = 0;
+  let realizedGain = 0;
+  let realizedCostBasis = 0;
+  let todayChange = 0;
+  let previousValue = 0;
+  let fxGain = 0;
   let bestPerformer: PortfolioSummary['bestPerformer'] = null;
   let worstPerformer: PortfolioSummary['worstPerformer'] = null;
 
   assets.forEach((asset) => {
-    const currentPrice = asset.current_price || asset.purchase_price;
-    const assetValue = currentPrice * asset.quantity;
-    const assetCost = asset.purchase_price * asset.quantity;
+    const ledger = transactions.filter((t) => t.asset_id === asset.id);
+    const position = ledger.length > 0 ? derivePosition(ledger, costBasisMethod) : null;
+    const quantity = position ? position.quantity : asset.quantity;
+    const currentPrice = asset.current_price || (position ? position.averageCost : asset.purchase_price);
+    const assetCurrency = asset.currency || DEFAULT_CURRENCY;
+    const rate = getFxRate(assetCurrency, fx.currency, fx.rates);
+    const lots = position
+      ? position.lots
+      : [{ acquiredDate: asset.purchase_date || '', quantity: asset.quantity, costPerUnit: asset.purchase_price }];
+    const breakdown = calculateFxBreakdown(lots, currentPrice, assetCurrency, fx);
+    if (rate === null || !breakdown) return;
+    const assetValue = breakdown.marketValue;
+    const assetCost = breakdown.costBasis;
     const changePercent = assetCost > 0 ? ((assetValue - assetCost) / assetCost) * 100 : 0;
 
     totalValue += assetValue;
     totalInvested += assetCost;
+    fxGain += breakdown.fxGain;
+    // Realized amounts are converted at today's rate
+    realizedGain += position ? position.realizedGain * rate : 0;
+    realizedCostBasis += position ? position.realizedCostBasis * rate : 0;
+
+    const previousClose = asset.previous_close ?? previousCloses[asset.id];
+    if (previousClose !== undefined && previousClose > 0) {
+      todayChange += (currentPrice - previousClose) * quantity * rate;
+      previousValue += previousClose * quantity * rate;
+    }
 
     // Track best performer (highest percentage change)
     if (!bestPerformer || changePercent > bestPerformer.changePercent) {
@@ -92,30 +210,55 @@ export function calculateSummary(assets: Asset[]): PortfolioSummary {
     }
   });
 
-  const todayChange = totalValue - totalInvested;
-  const todayChangePercent = totalInvested > 0 ? (todayChange / totalInvested) * 100 : 0;
+  const todayChangePercent = previousValue > 0 ? (todayChange / previousValue) * 100 : 0;
+  const unrealizedGain = totalValue - totalInvested;
+  const heldAssetIds = assets.map((asset) => asset.id);
+  const incomeReceived = sumIncome(incomeEvents.filter((event) => heldAssetIds.includes(event.asset_id)), fx);
+  const allTimeReturn = unrealizedGain + realizedGain + incomeReceived;
+  const totalCost = totalInvested + realizedCostBasis;
+  const allTimeReturnPercent = totalCost > 0 ? (allTimeReturn / totalCost) * 100 : 0;
 
   return {
     totalValue,
     totalInvested,
     todayChange,
     todayChangePercent,
+    allTimeReturn,
+    allTimeReturnPercent,
+    realizedGain,
+    unrealizedGain,
+    fxGain,
+    incomeReceived,
     bestPerformer,
     worstPerformer,
   };
 }
 
+/**
+ * Formats a percentage with an explicit sign, e.g. +1.25%
+ */
+function formatSignedPercent(value: number): string {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+}
+
 /**
  * Calculates asset allocation percentages by type
+ * Values are converted into fx.currency so mixed-currency holdings compare;
+ * holdings in a currency without a rate are left out
  * Requirements: 10.5
  */
-export function calculateAllocation(assets: Asset[]): AllocationItem[] {
+export function calculateAllocation(
+  assets: Asset[],
+  fx: FxContext = { currency: DEFAULT_CURRENCY, rates: {} }
+): AllocationItem[] {
   const typeValues: Record<string, number> = {};
   let totalValue = 0;
 
   assets.forEach((asset) => {
     const currentPrice = asset.current_price || asset.purchase_price;
-    const assetValue = currentPrice * asset.quantity;
+    const rate = getFxRate(asset.currency || DEFAULT_CURRENCY, fx.currency, fx.rates);
+    if (rate === null) return;
+    const assetValue = currentPrice * asset.quantity * rate;
     const type = asset.asset_type || 'other';
     typeValues[type] = (typeValues[type] || 0) + assetValue;
     totalValue += assetValue;
@@ -136,21 +279,12 @@ export function calculateAllocation(assets: Asset[]): AllocationItem[] {
 export function calculateRiskScore(allocation: AllocationItem[]): number {
   if (allocation.length === 0) return 5;
 
-  // Risk weights by asset type (higher = riskier)
-  const riskWeights: Record<string, number> = {
-    crypto: 9,
-    stock: 6,
-    commodity: 5,
-    real_estate: 4,
-    fixed_income: 2,
-    other: 5,
-  };
-
   let weightedRisk = 0;
   let totalPercentage = 0;
 
   allocation.forEach((item) => {
-    const weight = riskWeights[item.type.toLowerCase()] || 5;
+    // Risk weight by asset type (higher = riskier)
+    const weight = getAssetTypeInfo(item.type).riskWeight;
     weightedRisk += weight * item.percentage;
     totalPercentage += item.percentage;
   });
@@ -172,12 +306,31 @@ export default function DashboardScreen({ navigation }: Props) {
     totalInvested: 0,
     todayChange: 0,
     todayChangePercent: 0,
+    allTimeReturn: 0,
+    allTimeReturnPercent: 0,
+    realizedGain: 0,
+    unrealizedGain: 0,
+    fxGain: 0,
+    incomeReceived: 0,
     bestPerformer: null,
     worstPerformer: null,
   });
+  const [projectedIncome, setProjectedIncome] = useState(0);
+  const [currency, setCurrency] = useState(DEFAULT_CURRENCY);
+  const [returns, setReturns] = useState<Record<ReturnPeriod, PeriodReturn> | null>(null);
   const [allocation, setAllocation] = useState<AllocationItem[]>([]);
-  const [priceHistory, setPriceHistory] = useState<{ timestamp: string; value: number }[]>([]);
+  const [valueHistory, setValueHistory] = useState<ValuePoint[]>([]);
+  const [netWorth, setNetWorth] = useState<NetWorth | null>(null);
+  const [netWorthHistory, setNetWorthHistory] = useState<ValuePoint[]>([]);
+  const [benchmarkSymbols, setBenchmarkSymbols] = useState<string[]>([]);
+  const [benchmarkPrices, setBenchmarkPrices] = useState<BenchmarkPrice[]>([]);
   const [riskScore, setRiskScore] = useState<number>(5);
+  const [priceStatus, setPriceStatus] = useState<{ asOf: string | null; staleCount: number }>({
+    asOf: null,
+    staleCount: 0,
+  });
+  // Currencies whose amounts the totals leave out for want of a rate
+  const [missingRates, setMissingRates] = useState<string[]>([]);
   const [isPremium, setIsPremium] = useState(false);
 
   const loadDashboardData = useCallback(async () => {
@@ -195,18 +348,147 @@ export default function DashboardScreen({ navigation }: Props) {
         const portfolioAssets = await assetService.getAssets(portfolio.id);
         allAssets = [...allAssets, ...(portfolioAssets || [])];
       }
-
-      const calculatedSummary = calculateSummary(allAssets);
-      const calculatedAllocation = calculateAllocation(allAssets);
+      // Accrue fixed income and close matured holdings before valuing the portfolio
+      allAssets = await fixedIncomeService.refreshValuations(allAssets);
+
+      const portfolioIds: string[] = (portfolios || []).map((portfolio: { id: string }) => portfolio.id);
+      const assetIds = allAssets.map((asset) => asset.id);
+      const [transactions, profile, latestRates, previousCloses, cashFlows, snapshots, incomeEvents, liabilities] = await Promise.all([
+        // Without the ledger, each asset is valued from its stored position
+        assetService.getTransactionsForAssets(assetIds).catch(() => [] as AssetTransaction[]),
+        profileService.getProfile().catch(() => null),
+        fxService.getLatestRates(),
+        // Assets with a stored previous_close do not need the history lookup
+        priceHistoryService
+          .getPreviousCloses(allAssets.filter((asset) => asset.previous_close == null).map((asset) => asset.id))
+          .catch(() => ({} as Record<string, number>)),
+        portfolioService.getCashFlows(portfolioIds).catch(() => []),
+        portfolioService
+          .getSnapshots(portfolioIds)
+          .then(async (remote) => {
+            await cacheSnapshots(portfolioIds, remote);
+            return remote;
+          })
+          .catch(() => getCachedSnapshots(portfolioIds)),
+        assetService
+          .getIncomeEvents(assetIds)
+          .then(async (remote) => {
+            await cacheIncomeEvents(assetIds, remote);
+            return remote;
+          })
+          .catch(() => getCachedIncomeEvents(assetIds)),
+        liabilityService
+          .getLiabilities()
+          .then(async (remote) => {
+            await cacheLiabilities(remote);
+            return remote;
+          })
+          .catch(() => getCachedLiabilities()),
+      ]);
+
+      const costBasisMethod: CostBasisMethod = profile?.cost_basis_method || DEFAULT_COST_BASIS_METHOD;
+      const preferredCurrency = (profile?.currency_preference as string) || DEFAULT_CURRENCY;
+
+      // Foreign holdings need the rates on each acquisition date to split out FX gains
+      const foreignAssets = allAssets.filter((asset) => (asset.currency || DEFAULT_CURRENCY) !== preferredCurrency);
+      const acquisitionDates = foreignAssets.flatMap((asset) => {
+        const inflows = transactions.filter((t) => t.asset_id === asset.id && isInflow(t.transaction_type));
+        if (inflows.length > 0) return inflows.map((t) => t.transaction_date);
+        return asset.purchase_date ? [asset.purchase_date] : [];
+      });
+      const historicalRates = await fxService.getRatesForDates(acquisitionDates);
+
+      const fx: FxContext = {
+        currency: preferredCurrency,
+        rates: latestRates?.rates ?? {},
+        historicalRates,
+      };
+
+      // Daily value history from stored snapshots, rebuilt where they are missing
+      const today = toDay(new Date());
+      const firstDates = [
+        getFirstActivityDate(buildReturnsInput(allAssets, transactions, [], [], fx)),
+        ...snapshots.map((snapshot: PortfolioSnapshot) => snapshot.snapshot_date),
+      ].filter((date): date is string => !!date);
+      const historyDates = getHistoryDates(firstDates.length > 0 ? firstDates.sort()[0] : today, today);
+
+      // Listed prices from where the selected period or a missing snapshot needs
+      // them; hand-entered valuations are sparse, so all of them are read
+      const priceStart = getPriceHistoryStart(
+        getPeriodStartDate(selectedPeriod),
+        portfolioIds,
+        snapshots,
+        historyDates,
+        fx
+      );
+      const priceRows = await Promise.all([
+        priceHistoryService.getPriceHistoryForAssets(
+          allAssets.filter((asset) => asset.symbol).map((asset) => asset.id),
+          priceStart ?? undefined
+        ),
+        priceHistoryService.getPriceHistoryForAssets(allAssets.filter((asset) => !asset.symbol).map((asset) => asset.id)),
+      ])
+        .then(([listed, valued]) => [...listed, ...valued])
+        .catch(() => []);
+
+      const calculatedSummary = calculateSummary(allAssets, transactions, costBasisMethod, previousCloses, fx, incomeEvents);
+      const calculatedAllocation = calculateAllocation(allAssets, fx);
+      const calculatedReturns = calculateReturns(
+        buildReturnsInput(allAssets, transactions, priceRows, cashFlows, fx, incomeEvents)
+      );
       const calculatedRiskScore = calculateRiskScore(calculatedAllocation);
+      // Only listed holdings have quotes; hand-valued ones are not expected to move
+      setPriceStatus(summarizeQuotes(allAssets.filter((asset) => asset.symbol), getLatestQuotes(priceRows)));
       
-      // Generate mock price history based on total value
-      const mockPriceHistory = Array.from({ length: 30 }, (_, i) => ({
-        timestamp: new Date(Date.now() - (29 - i) * 24 * 60 * 60 * 1000).toISOString(),
-        value: calculatedSummary.totalValue * (0.9 + Math.random() * 0.2),
+
+      const portfolioInputs = portfolioIds.map((portfolioId) => ({
+        portfolioId,
+        input: buildReturnsInput(allAssets.filter((asset) => asset.portfolio_id === portfolioId), transactions, priceRows, [], fx),
       }));
-      
-      setPriceHistory(mockPriceHistory);
+      const dailySnapshots = portfolioInputs.flatMap(({ portfolioId, input }) =>
+        fillSnapshotGaps(portfolioId, snapshots, input, historyDates, fx)
+      );
+
+      // Record today's values so the history no longer has to be rebuilt
+      portfolioService
+        .saveSnapshots(dailySnapshots.filter((snapshot) => snapshot.snapshot_date === today))
+        .catch((err) => console.error('Failed to save portfolio snapshots:', err));
+
+      const history = sumSnapshots(dailySnapshots);
+      setValueHistory(history);
+
+      // Net worth deducts loans, credit lines and mortgages from the holdings
+      const debts = collectLiabilities(liabilities, allAssets);
+      setMissingRates(
+        getMissingRates(
+          [...allAssets, ...incomeEvents, ...debts].map((item) => item.currency || DEFAULT_CURRENCY),
+          fx
+        )
+      );
+      setNetWorth(calculateNetWorth(calculatedSummary.totalValue, debts, today, fx));
+      setNetWorthHistory(debts.length > 0 ? buildNetWorthSeries(history, debts, fx) : []);
+
+      // Benchmarks picked on any portfolio, priced over the whole history
+      const symbols: string[] = Array.from(new Set(
+        (portfolios || []).flatMap((portfolio: { benchmark_symbols?: string[] }) => portfolio.benchmark_symbols || [])
+      ));
+      const prices = symbols.length > 0
+        ? await benchmarkService
+          .getPriceHistory(symbols, historyDates[0])
+          .then(async (remote) => {
+            await cacheBenchmarkPrices(symbols, remote);
+            return remote;
+          })
+          .catch(() => getCachedBenchmarkPrices(symbols))
+        : [];
+      setBenchmarkSymbols(symbols);
+      setBenchmarkPrices(prices);
+
+      // Income expected over the next twelve months
+      const nextYear = addMonths(today, 12);
+      setProjectedIncome(sumIncome(allAssets.flatMap((asset) => projectIncome(asset, today, nextYear)), fx));
+      setCurrency(preferredCurrency);
+      setReturns(calculatedReturns);
       setSummary(calculatedSummary);
       setAllocation(calculatedAllocation);
       setRiskScore(calculatedRiskScore);
@@ -216,7 +498,7 @@ export default function DashboardScreen({ navigation }: Props) {
       setIsLoading(false);
       setIsRefreshing(false);
     }
-  }, []);
+  }, [selectedPeriod]);
 
   useEffect(() => {
     loadDashboardData();
@@ -231,6 +513,17 @@ export default function DashboardScreen({ navigation }: Props) {
     setSelectedPeriod(period);
   }, []);
 
+  const periodStart = getPeriodStartDate(selectedPeriod);
+  const periodHistory = periodStart
+    ? valueHistory.filter((point) => toDay(point.timestamp) >= periodStart)
+    : valueHistory;
+  const periodNetWorth = periodStart
+    ? netWorthHistory.filter((point) => toDay(point.timestamp) >= periodStart)
+    : netWorthHistory;
+  const benchmarks = returns
+    ? buildBenchmarkSeries(benchmarkSymbols, benchmarkPrices, periodHistory, returns[selectedPeriod])
+    : [];
+
   if (isLoading) {
     return (
       <View style={styles.loadingContainer}>
@@ -261,9 +554,11 @@ export default function DashboardScreen({ navigation }: Props) {
       {/* Gradient Header with Portfolio Summary */}
       <DashboardHeader
         userName={userName}
-        totalValue={summary.totalValue}
+        totalValue={netWorth?.netWorth ?? summary.totalValue}
+        debt={netWorth?.totalLiabilities}
         dailyChange={summary.todayChange}
         dailyChangePercent={summary.todayChangePercent}
+        currency={currency}
       />
 
       {/* Scrollable Content */}
@@ -279,13 +574,43 @@ export default function DashboardScreen({ navigation }: Props) {
         }
         showsVerticalScrollIndicator={false}
       >
+        {/* How current the prices behind the totals are */}
+        {priceStatus.asOf && (
+          <View style={styles.priceStatusRow}>
+            <Text style={styles.priceStatusText}>Prices {formatPriceAsOf(priceStatus.asOf)}</Text>
+            {priceStatus.staleCount > 0 && (
+              <Text style={styles.priceStatusStale}>
+                {' '}• {priceStatus.staleCount} stale {priceStatus.staleCount === 1 ? 'quote' : 'quotes'}
+              </Text>
+            )}
+          </View>
+        )}
+        {missingRates.length > 0 && (
+          <View style={styles.priceStatusRow}>
+            <Text style={styles.priceStatusStale}>
+              Totals leave out amounts in {missingRates.join(', ')}: no exchange rate yet
+            </Text>
+          </View>
+        )}
+
         {/* Performance Card with Chart */}
         <PerformanceCard
-          data={priceHistory}
+          data={periodHistory}
           selectedPeriod={selectedPeriod}
           onPeriodChange={handlePeriodChange}
+          benchmarks={benchmarks}
+          netWorth={periodNetWorth}
         />
 
+        {/* Net Worth Card (holdings less liabilities) */}
+        {netWorth && (
+          <NetWorthCard
+            netWorth={netWorth}
+            currency={currency}
+            onManage={() => navigation.navigate('Liabilities')}
+          />
+        )}
+
         {/* Asset Allocation Card with Donut Chart */}
         <AllocationCard data={allocation} />
 
@@ -324,6 +649,7 @@ export default function DashboardScreen({ navigation }: Props) {
             type="invested"
             value={summary.totalInvested}
             subtitle="Capital"
+            currency={currency}
           />
           <View style={styles.cardSpacer} />
           <StatsCard
@@ -333,6 +659,92 @@ export default function DashboardScreen({ navigation }: Props) {
           />
         </View>
 
+        {/* Return Cards Row (Today's Change and All-Time Return side-by-side) */}
+        <View style={styles.cardsRow}>
+          <StatsCard
+            type="daily"
+            value={summary.todayChange}
+            subtitle={formatSignedPercent(summary.todayChangePercent)}
+            currency={currency}
+          />
+          <View style={styles.cardSpacer} />
+          <StatsCard
+            type="return"
+            value={summary.allTimeReturn}
+            subtitle={formatSignedPercent(summary.allTimeReturnPercent)}
+            currency={currency}
+          />
+        </View>
+
+        {/* Period Return Cards Row (TWR and XIRR for the selected period) */}
+        <View style={styles.cardsRow}>
+          <StatsCard
+            type="twr"
+            value={returns?.[selectedPeriod].twr ?? '—'}
+            subtitle={`${selectedPeriod} return`}
+          />
+          <View style={styles.cardSpacer} />
+          <StatsCard
+            type="xirr"
+            value={returns?.[selectedPeriod].xirr ?? '—'}
+            subtitle={`${selectedPeriod} XIRR, annualized`}
+          />
+        </View>
+
+        {/* Gain Cards Row (Realized and Unrealized side-by-side) */}
+        <View style={styles.cardsRow}>
+          <StatsCard
+            type="realized"
+            value={summary.realizedGain}
+            subtitle="From sales"
+            currency={currency}
+          />
+          <View style={styles.cardSpacer} />
+          <StatsCard
+            type="unrealized"
+            value={summary.unrealizedGain}
+            subtitle={
+              summary.fxGain !== 0
+                ? `Incl. ${formatStatsValue('unrealized', summary.fxGain, currency)} FX`
+                : 'On holdings'
+            }
+            currency={currency}
+          />
+        </View>
+
+        {/* Income Cards Row (Received and Projected side-by-side) */}
+        <View style={styles.cardsRow}>
+          <StatsCard
+            type="income"
+            value={summary.incomeReceived}
+            subtitle="Included in return"
+            currency={currency}
+          />
+          <View style={styles.cardSpacer} />
+          <StatsCard
+            type="projected"
+            value={projectedIncome}
+            subtitle="Next 12 months"
+            currency={currency}
+          />
+        </View>
+        <TouchableOpacity
+          style={styles.linkButton}
+          onPress={() => navigation.navigate('IncomeCalendar')}
+          accessibilityRole="button"
+          accessibilityLabel="View income calendar"
+        >
+          <Text style={styles.linkButtonText}>View income calendar</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.linkButton}
+          onPress={() => navigation.navigate('Watchlists')}
+          accessibilityRole="button"
+          accessibilityLabel="View watchlists"
+        >
+          <Text style={styles.linkButtonText}>View watchlists</Text>
+        </TouchableOpacity>
+
         {/* Bottom spacing for tab bar */}
         <View style={styles.bottomSpacer} />
       </ScrollView>
@@ -351,6 +763,19 @@ const styles = StyleSheet.create({
   scrollContent: {
     paddingBottom: Spacing.xl,
   },
+  priceStatusRow: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    paddingTop: Spacing.sm,
+  },
+  priceStatusText: {
+    fontSize: 12,
+    color: Colors.light.textSecondary,
+  },
+  priceStatusStale: {
+    fontSize: 12,
+    color: Colors.light.warning,
+  },
   loadingContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -410,6 +835,17 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: Colors.light.textTertiary,
   },
+  linkButton: {
+    alignSelf: 'flex-end',
+    marginHorizontal: Spacing.base,
+    marginTop: Spacing.sm,
+    paddingVertical: Spacing.xs,
+  },
+  linkButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.light.tint,
+  },
   bottomSpacer: {
     height: Spacing['2xl'],
   },
@@ -6,7 +6,8 @@
  * - Risk analysis
  * - Geographic exposure chart
  * - Sector exposure chart
- * - AI recommendation cards
+ * - AI recommendation cards, plus rebalance cards for portfolios that have
+ *   drifted outside their target allocation bands
  * 
  * Requirements: Task 58 - Premium Insights Screen
  */
@@ -23,8 +24,11 @@ import {
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { MainTabScreenProps } from '@/navigation/types';
-import { insightsService } from '@/services/api';
+import { insightsService, portfolioService, assetService } from '@/services/api';
+import type { AllocationTargets } from '@/services/offlineStorage';
 import { usePurchases } from '@/hooks/usePurchases';
+import { useCurrency } from '@/hooks/useCurrency';
+import { buildRebalanceRecommendation, calculateDrift, toRebalanceHoldings } from '@/utils/rebalancing';
 import { PremiumPaywall, SubscriptionPlan } from '@/components/PremiumPaywall';
 
 type Props = MainTabScreenProps<'Insights'>;
@@ -46,6 +50,8 @@ interface Recommendation {
   title: string;
   description: string;
   priority: 'high' | 'medium' | 'low';
+  /** Set on rebalance cards built from a portfolio's target allocation */
+  portfolio_id?: string;
 }
 
 interface InsightsData {
@@ -85,11 +91,13 @@ const SECTOR_COLORS = ['#4CAF50', '#2196F3', '#FF9800', '#9C27B0', '#607D8B', '#
 
 export default function InsightsScreen({ navigation }: Props) {
   const { isPremium, purchase, restore, isLoading: isPurchaseLoading } = usePurchases();
+  const { currency, rates } = useCurrency();
   
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [insights, setInsights] = useState<InsightsData | null>(null);
+  const [driftRecommendations, setDriftRecommendations] = useState<Recommendation[]>([]);
   const [showPaywall, setShowPaywall] = useState(false);
 
   const loadInsights = useCallback(async () => {
@@ -128,15 +136,42 @@ export default function InsightsScreen({ navigation }: Props) {
     }
   }, [isPremium]);
 
+  const loadDriftRecommendations = useCallback(async () => {
+    if (!isPremium) return;
+
+    try {
+      const portfolios: { id: string; name: string; allocation_targets?: AllocationTargets }[] =
+        (await portfolioService.getPortfolios()) || [];
+      const recommendations: Recommendation[] = [];
+      for (const portfolio of portfolios) {
+        if (!portfolio.allocation_targets?.targets.length) continue;
+        const assets = await assetService.getAssets(portfolio.id);
+        const drift = calculateDrift(toRebalanceHoldings(assets || [], { currency, rates }), portfolio.allocation_targets);
+        const recommendation = buildRebalanceRecommendation(portfolio.id, portfolio.name, drift);
+        if (recommendation) recommendations.push({ ...recommendation, portfolio_id: portfolio.id });
+      }
+      setDriftRecommendations(recommendations);
+    } catch (err) {
+      console.error('Failed to check allocation drift:', err);
+    }
+  }, [isPremium, currency, rates]);
+
   useEffect(() => {
     if (!isPurchaseLoading) {
       loadInsights();
     }
   }, [isPurchaseLoading, loadInsights]);
 
+  useEffect(() => {
+    if (!isPurchaseLoading) {
+      loadDriftRecommendations();
+    }
+  }, [isPurchaseLoading, loadDriftRecommendations]);
+
   const handleRefresh = () => {
     setIsRefreshing(true);
     loadInsights();
+    loadDriftRecommendations();
   };
 
   const handleSubscribe = async (plan: SubscriptionPlan) => {
@@ -228,6 +263,8 @@ export default function InsightsScreen({ navigation }: Props) {
     );
   }
 
+  const recommendations = [...driftRecommendations, ...(insights.recommendations || [])];
+
   return (
     <ScrollView
       style={styles.container}
@@ -363,10 +400,10 @@ export default function InsightsScreen({ navigation }: Props) {
       )}
 
       {/* AI Recommendations */}
-      {insights.recommendations && insights.recommendations.length > 0 && (
+      {recommendations.length > 0 && (
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>AI Recommendations</Text>
-          {insights.recommendations.map((rec) => (
+          {recommendations.map((rec) => (
             <View 
               key={rec.id} 
               style={[
@@ -401,6 +438,17 @@ export default function InsightsScreen({ navigation }: Props) {
                 </View>
               </View>
               <Text style={styles.recommendationDescription}>{rec.description}</Text>
+              {rec.type === 'rebalance' && (
+                <TouchableOpacity
+                  style={styles.recommendationAction}
+                  onPress={() => navigation.navigate('Rebalance', { portfolioId: rec.portfolio_id })}
+                  accessibilityRole="button"
+                  accessibilityLabel="Plan rebalancing trades"
+                >
+                  <Text style={styles.recommendationActionText}>Plan Trades</Text>
+                  <Ionicons name="chevron-forward" size={16} color="#0a7ea4" />
+                </TouchableOpacity>
+              )}
             </View>
           ))}
         </View>
@@ -682,4 +730,16 @@ const styles = StyleSheet.create({
     color: '#687076',
     lineHeight: 20,
   },
+  recommendationAction: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    marginTop: 12,
+  },
+  recommendationActionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#0a7ea4',
+    marginRight: 4,
+  },
 });
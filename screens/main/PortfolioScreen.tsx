@@ -1,7 +1,9 @@
 /**
  * Portfolio Screen
  * 
- * Displays list of user portfolios with CRUD operations
+ * Displays list of user portfolios with CRUD operations, their time- and
+ * money-weighted returns and alpha against their chosen benchmarks, and
+ * recorded contributions and withdrawals
  * Requirements: 2
  */
 
@@ -17,10 +19,30 @@ import {
   Alert,
   ActivityIndicator,
   RefreshControl,
+  ScrollView,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { MainTabScreenProps } from '@/navigation/types';
-import { portfolioService } from '@/services/api';
+import { portfolioService, assetService, priceHistoryService, benchmarkService } from '@/services/api';
+import {
+  cacheBenchmarkPrices,
+  cacheCashFlows,
+  getCachedBenchmarkPrices,
+  getCachedCashFlows,
+  type Asset,
+  type BenchmarkPrice,
+  type CashFlowType,
+  type PortfolioCashFlow,
+} from '@/services/offlineStorage';
+import { useCurrency } from '@/hooks/useCurrency';
+import {
+  buildReturnsInput,
+  calculateReturns,
+  RETURN_PERIODS,
+  type PeriodReturn,
+  type ReturnPeriod,
+} from '@/utils/returns';
+import { BENCHMARK_OPTIONS, calculateAlpha, getBenchmarkReturn } from '@/utils/benchmarks';
 import { useAppDispatch, useAppSelector } from '@/store/hooks';
 import {
   setPortfolios,
@@ -34,16 +56,32 @@ import {
 
 type Props = MainTabScreenProps<'Portfolio'>;
 
+type PortfolioReturns = Record<ReturnPeriod, PeriodReturn>;
+
 interface Portfolio {
   id: string;
   name: string;
   user_id: string;
   total_value?: number;
+  benchmark_symbols?: string[];
   created_at: string;
   updated_at: string;
 }
 
-export default function PortfolioScreen({ navigation }: Props) {
+function formatDate(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+function formatReturn(value: number | null): string {
+  if (value === null) return '—';
+  const percent = value * 100;
+  return `${percent >= 0 ? '+' : ''}${percent.toFixed(2)}%`;
+}
+
+export default function PortfolioScreen({ navigation, route }: Props) {
   const dispatch = useAppDispatch();
   const { portfolios, selectedPortfolioId, isLoading, error } = useAppSelector(
     (state) => state.portfolio
@@ -53,8 +91,86 @@ export default function PortfolioScreen({ navigation }: Props) {
   const [modalVisible, setModalVisible] = useState(false);
   const [editingPortfolio, setEditingPortfolio] = useState<Portfolio | null>(null);
   const [portfolioName, setPortfolioName] = useState('');
+  const [benchmarkSymbols, setBenchmarkSymbols] = useState<string[]>([]);
   const [isSaving, setIsSaving] = useState(false);
 
+  // Returns state
+  const { currency, rates, format } = useCurrency();
+  const [selectedPeriod, setSelectedPeriod] = useState<ReturnPeriod>('1Y');
+  const [returnsByPortfolio, setReturnsByPortfolio] = useState<Record<string, PortfolioReturns>>({});
+  const [cashFlows, setCashFlows] = useState<PortfolioCashFlow[]>([]);
+  const [benchmarkPrices, setBenchmarkPrices] = useState<BenchmarkPrice[]>([]);
+
+  // Cash flow form state
+  const [cashFlowPortfolio, setCashFlowPortfolio] = useState<Portfolio | null>(null);
+  const [cashFlowType, setCashFlowType] = useState<CashFlowType>('contribution');
+  const [cashFlowAmount, setCashFlowAmount] = useState('');
+  const [cashFlowDate, setCashFlowDate] = useState(formatDate(new Date()));
+  const [isSavingCashFlow, setIsSavingCashFlow] = useState(false);
+
+  // Opened from a portfolio alert: select the alerted portfolio
+  const routePortfolioId = route.params?.portfolioId;
+  useEffect(() => {
+    if (routePortfolioId) dispatch(selectPortfolio(routePortfolioId));
+  }, [routePortfolioId, dispatch]);
+
+  const loadReturns = useCallback(async () => {
+    if (portfolios.length === 0) return;
+
+    try {
+      const portfolioIds = portfolios.map((portfolio) => portfolio.id);
+      let allAssets: Asset[] = [];
+      for (const portfolioId of portfolioIds) {
+        const portfolioAssets = await assetService.getAssets(portfolioId);
+        allAssets = [...allAssets, ...(portfolioAssets || [])];
+      }
+
+      const assetIds = allAssets.map((asset) => asset.id);
+      const symbols = Array.from(new Set(portfolios.flatMap((portfolio) => portfolio.benchmark_symbols || [])));
+      const [transactions, priceRows, flows, prices] = await Promise.all([
+        assetService.getTransactionsForAssets(assetIds),
+        priceHistoryService.getPriceHistoryForAssets(assetIds),
+        portfolioService
+          .getCashFlows(portfolioIds)
+          .then(async (remote) => {
+            await cacheCashFlows(portfolioIds, remote);
+            return remote;
+          })
+          .catch(() => getCachedCashFlows(portfolioIds)),
+        benchmarkService
+          .getPriceHistory(symbols)
+          .then(async (remote) => {
+            await cacheBenchmarkPrices(symbols, remote);
+            return remote;
+          })
+          .catch(() => getCachedBenchmarkPrices(symbols)),
+      ]);
+
+      const results: Record<string, PortfolioReturns> = {};
+      portfolioIds.forEach((portfolioId) => {
+        results[portfolioId] = calculateReturns(
+          buildReturnsInput(
+            allAssets.filter((asset) => asset.portfolio_id === portfolioId),
+            transactions,
+            priceRows,
+            flows.filter((flow) => flow.portfolio_id === portfolioId),
+            { currency, rates }
+          )
+        );
+      });
+
+      setCashFlows(flows);
+      setBenchmarkPrices(prices);
+      setReturnsByPortfolio(results);
+    } catch (err) {
+      console.error('Failed to load portfolio returns:', err);
+    }
+  }, [portfolios, currency, rates]);
+
+  useEffect(() => {
+    loadReturns();
+  }, [loadReturns]);
+
   const loadPortfolios = useCallback(async () => {
     try {
       dispatch(setLoading(true));
@@ -78,12 +194,14 @@ export default function PortfolioScreen({ navigation }: Props) {
   const openCreateModal = () => {
     setEditingPortfolio(null);
     setPortfolioName('');
+    setBenchmarkSymbols([]);
     setModalVisible(true);
   };
 
   const openEditModal = (portfolio: Portfolio) => {
     setEditingPortfolio(portfolio);
     setPortfolioName(portfolio.name);
+    setBenchmarkSymbols(portfolio.benchmark_symbols || []);
     setModalVisible(true);
   };
 
@@ -98,11 +216,12 @@ export default function PortfolioScreen({ navigation }: Props) {
       if (editingPortfolio) {
         const updated = await portfolioService.updatePortfolio(
           editingPortfolio.id,
-          portfolioName.trim()
+          portfolioName.trim(),
+          benchmarkSymbols
         );
         dispatch(updatePortfolio(updated));
       } else {
-        const created = await portfolioService.createPortfolio(portfolioName.trim());
+        const created = await portfolioService.createPortfolio(portfolioName.trim(), benchmarkSymbols);
         dispatch(addPortfolio(created));
       }
       setModalVisible(false);
@@ -115,6 +234,12 @@ export default function PortfolioScreen({ navigation }: Props) {
     }
   };
 
+  const toggleBenchmark = (symbol: string) => {
+    setBenchmarkSymbols((current) =>
+      current.includes(symbol) ? current.filter((s) => s !== symbol) : [...current, symbol]
+    );
+  };
+
   const handleDelete = (portfolio: Portfolio) => {
     Alert.alert(
       'Delete Portfolio',
@@ -141,8 +266,74 @@ export default function PortfolioScreen({ navigation }: Props) {
     dispatch(selectPortfolio(portfolioId));
   };
 
+  const openCashFlowModal = (portfolio: Portfolio) => {
+    setCashFlowPortfolio(portfolio);
+    setCashFlowType('contribution');
+    setCashFlowAmount('');
+    setCashFlowDate(formatDate(new Date()));
+  };
+
+  const handleSaveCashFlow = async () => {
+    if (!cashFlowPortfolio) return;
+
+    const amount = Number(cashFlowAmount);
+    if (!cashFlowAmount.trim() || isNaN(amount) || amount <= 0) {
+      Alert.alert('Error', 'Amount must be a positive number');
+      return;
+    }
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(cashFlowDate.trim())) {
+      Alert.alert('Error', 'Invalid date format (use YYYY-MM-DD)');
+      return;
+    }
+
+    setIsSavingCashFlow(true);
+    try {
+      await portfolioService.addCashFlow(cashFlowPortfolio.id, {
+        flow_type: cashFlowType,
+        amount,
+        flow_date: cashFlowDate.trim(),
+      });
+      setCashFlowAmount('');
+      await loadReturns();
+    } catch (err) {
+      Alert.alert('Error', 'Failed to save cash flow');
+    } finally {
+      setIsSavingCashFlow(false);
+    }
+  };
+
+  const handleDeleteCashFlow = (cashFlow: PortfolioCashFlow) => {
+    Alert.alert(
+      'Delete Cash Flow',
+      `Delete this ${cashFlow.flow_type} of ${format(cashFlow.amount)}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await portfolioService.deleteCashFlow(cashFlow.id);
+              await loadReturns();
+            } catch (err) {
+              Alert.alert('Error', 'Failed to delete cash flow');
+            }
+          },
+        },
+      ]
+    );
+  };
+
   const renderPortfolioItem = ({ item }: { item: Portfolio }) => {
     const isSelected = item.id === selectedPortfolioId;
+    const periodReturn = returnsByPortfolio[item.id]?.[selectedPeriod];
+    const benchmark = item.benchmark_symbols?.[0];
+    const alpha = periodReturn && benchmark
+      ? calculateAlpha(
+        periodReturn.twr,
+        getBenchmarkReturn(benchmarkPrices, benchmark, periodReturn.startDate, periodReturn.endDate)
+      )
+      : null;
 
     return (
       <TouchableOpacity
@@ -162,8 +353,40 @@ export default function PortfolioScreen({ navigation }: Props) {
           <Text style={styles.portfolioDate}>
             Created {new Date(item.created_at).toLocaleDateString()}
           </Text>
+          {periodReturn && (
+            <View style={styles.returnsRow}>
+              <Text style={styles.returnLabel}>TWR </Text>
+              <Text style={[styles.returnValue, (periodReturn.twr ?? 0) < 0 && styles.returnNegative]}>
+                {formatReturn(periodReturn.twr)}
+              </Text>
+              <Text style={styles.returnLabel}>  XIRR </Text>
+              <Text style={[styles.returnValue, (periodReturn.xirr ?? 0) < 0 && styles.returnNegative]}>
+                {formatReturn(periodReturn.xirr)}
+              </Text>
+            </View>
+          )}
+          {alpha !== null && (
+            <View style={styles.returnsRow}>
+              <Text style={styles.returnLabel}>vs {benchmark} </Text>
+              <Text style={[styles.returnValue, alpha < 0 && styles.returnNegative]}>
+                {formatReturn(alpha)}
+              </Text>
+            </View>
+          )}
         </View>
         <View style={styles.portfolioActions}>
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => navigation.navigate('Rebalance', { portfolioId: item.id })}
+          >
+            <Ionicons name="pie-chart-outline" size={20} color="#687076" />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => openCashFlowModal(item)}
+          >
+            <Ionicons name="swap-vertical-outline" size={20} color="#687076" />
+          </TouchableOpacity>
           <TouchableOpacity
             style={styles.actionButton}
             onPress={() => openEditModal(item)}
@@ -199,6 +422,23 @@ export default function PortfolioScreen({ navigation }: Props) {
         </TouchableOpacity>
       </View>
 
+      {/* Return Period Selector */}
+      {portfolios.length > 0 && (
+        <View style={styles.periodSelector}>
+          {RETURN_PERIODS.map((period) => (
+            <TouchableOpacity
+              key={period}
+              style={[styles.periodButton, selectedPeriod === period && styles.periodButtonActive]}
+              onPress={() => setSelectedPeriod(period)}
+            >
+              <Text style={[styles.periodButtonText, selectedPeriod === period && styles.periodButtonTextActive]}>
+                {period}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
       {error && (
         <View style={styles.errorBanner}>
           <Text style={styles.errorText}>{error}</Text>
@@ -250,6 +490,23 @@ export default function PortfolioScreen({ navigation }: Props) {
               autoFocus
               maxLength={50}
             />
+            <Text style={styles.fieldLabel}>Benchmarks</Text>
+            <View style={styles.benchmarkRow}>
+              {BENCHMARK_OPTIONS.map((option) => {
+                const isActive = benchmarkSymbols.includes(option.symbol);
+                return (
+                  <TouchableOpacity
+                    key={option.symbol}
+                    style={[styles.benchmarkChip, isActive && styles.flowTypeButtonActive]}
+                    onPress={() => toggleBenchmark(option.symbol)}
+                  >
+                    <Text style={[styles.flowTypeText, isActive && styles.flowTypeTextActive]}>
+                      {option.name}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
             <View style={styles.modalActions}>
               <TouchableOpacity
                 style={styles.cancelButton}
@@ -275,6 +532,87 @@ export default function PortfolioScreen({ navigation }: Props) {
           </View>
         </View>
       </Modal>
+
+      {/* Cash Flow Modal */}
+      <Modal
+        visible={cashFlowPortfolio !== null}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={() => setCashFlowPortfolio(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>Cash Flows</Text>
+            <Text style={styles.modalSubtitle}>{cashFlowPortfolio?.name}</Text>
+
+            <View style={styles.flowTypeRow}>
+              {(['contribution', 'withdrawal'] as CashFlowType[]).map((type) => (
+                <TouchableOpacity
+                  key={type}
+                  style={[styles.flowTypeButton, cashFlowType === type && styles.flowTypeButtonActive]}
+                  onPress={() => setCashFlowType(type)}
+                >
+                  <Text style={[styles.flowTypeText, cashFlowType === type && styles.flowTypeTextActive]}>
+                    {type === 'contribution' ? 'Contribution' : 'Withdrawal'}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <TextInput
+              style={styles.input}
+              placeholder={`Amount (${currency})`}
+              value={cashFlowAmount}
+              onChangeText={setCashFlowAmount}
+              keyboardType="decimal-pad"
+            />
+            <TextInput
+              style={styles.input}
+              placeholder="YYYY-MM-DD"
+              value={cashFlowDate}
+              onChangeText={setCashFlowDate}
+            />
+
+            <ScrollView style={styles.flowList}>
+              {cashFlows
+                .filter((flow) => flow.portfolio_id === cashFlowPortfolio?.id)
+                .sort((a, b) => b.flow_date.localeCompare(a.flow_date))
+                .map((flow) => (
+                  <TouchableOpacity
+                    key={flow.id}
+                    style={styles.flowRow}
+                    onLongPress={() => handleDeleteCashFlow(flow)}
+                  >
+                    <Text style={styles.flowDate}>{new Date(flow.flow_date).toLocaleDateString()}</Text>
+                    <Text style={[styles.flowAmount, flow.flow_type === 'withdrawal' && styles.returnNegative]}>
+                      {flow.flow_type === 'withdrawal' ? '-' : '+'}{format(flow.amount)}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+            </ScrollView>
+
+            <View style={styles.modalActions}>
+              <TouchableOpacity
+                style={styles.cancelButton}
+                onPress={() => setCashFlowPortfolio(null)}
+                disabled={isSavingCashFlow}
+              >
+                <Text style={styles.cancelButtonText}>Close</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.saveButton, isSavingCashFlow && styles.saveButtonDisabled]}
+                onPress={handleSaveCashFlow}
+                disabled={isSavingCashFlow}
+              >
+                {isSavingCashFlow ? (
+                  <ActivityIndicator size="small" color="#FFFFFF" />
+                ) : (
+                  <Text style={styles.saveButtonText}>Record</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
     </View>
   );
 }
@@ -385,6 +723,46 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#687076',
   },
+  returnsRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 6,
+  },
+  returnLabel: {
+    fontSize: 12,
+    color: '#687076',
+  },
+  returnValue: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#059669',
+  },
+  returnNegative: {
+    color: '#DC2626',
+  },
+  periodSelector: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 12,
+  },
+  periodButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#FFFFFF',
+  },
+  periodButtonActive: {
+    backgroundColor: '#0a7ea4',
+  },
+  periodButtonText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#687076',
+  },
+  periodButtonTextActive: {
+    color: '#FFFFFF',
+  },
   portfolioActions: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -451,6 +829,76 @@ const styles = StyleSheet.create({
     fontSize: 16,
     marginBottom: 16,
   },
+  modalSubtitle: {
+    fontSize: 14,
+    color: '#687076',
+    marginTop: -8,
+    marginBottom: 16,
+  },
+  fieldLabel: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#687076',
+    marginBottom: 8,
+  },
+  benchmarkRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  benchmarkChip: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  flowTypeRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  flowTypeButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    alignItems: 'center',
+  },
+  flowTypeButtonActive: {
+    backgroundColor: '#0a7ea4',
+    borderColor: '#0a7ea4',
+  },
+  flowTypeText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#687076',
+  },
+  flowTypeTextActive: {
+    color: '#FFFFFF',
+  },
+  flowList: {
+    maxHeight: 160,
+    marginBottom: 16,
+  },
+  flowRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  flowDate: {
+    fontSize: 14,
+    color: '#687076',
+  },
+  flowAmount: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#059669',
+  },
   modalActions: {
     flexDirection: 'row',
     justifyContent: 'flex-end',
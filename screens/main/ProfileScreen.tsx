@@ -24,6 +24,7 @@ import { usePurchases } from '@/hooks/usePurchases';
 import {
   CurrencySelectionModal,
   LanguageSelectionModal,
+  CostBasisMethodModal,
   NotificationToggle,
   DarkModeToggle,
   ChartViewSelector,
@@ -32,7 +33,10 @@ import {
   loadChartViewPreference,
 } from '@/screens/settings/SettingsModals';
 import { DataExportModal } from '@/screens/settings/DataExportModal';
+import { BackupRestoreModal } from '@/screens/settings/BackupRestoreModal';
 import AccountDeletionModal from '@/screens/settings/AccountDeletionModal';
+import type { CostBasisMethod } from '@/services/offlineStorage';
+import { COST_BASIS_METHOD_LABELS, DEFAULT_COST_BASIS_METHOD } from '@/utils/ledger';
 
 type Props = MainTabScreenProps<'Profile'>;
 
@@ -44,6 +48,7 @@ interface UserProfile {
   avatar_url: string | null;
   currency_preference: string | null;
   language_preference: string | null;
+  cost_basis_method: CostBasisMethod | null;
 }
 
 interface SettingsRow {
@@ -68,7 +73,9 @@ export default function ProfileScreen({ navigation }: Props) {
   // Modal visibility states
   const [showCurrencyModal, setShowCurrencyModal] = useState(false);
   const [showLanguageModal, setShowLanguageModal] = useState(false);
+  const [showCostBasisModal, setShowCostBasisModal] = useState(false);
   const [showExportModal, setShowExportModal] = useState(false);
+  const [showBackupModal, setShowBackupModal] = useState(false);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
 
   // Settings states
@@ -154,6 +161,7 @@ export default function ProfileScreen({ navigation }: Props) {
   // Settings handlers
   const handleCurrency = () => setShowCurrencyModal(true);
   const handleLanguage = () => setShowLanguageModal(true);
+  const handleCostBasis = () => setShowCostBasisModal(true);
   const handleExportData = () => {
     if (!isPremium) {
       Alert.alert(
@@ -165,6 +173,7 @@ export default function ProfileScreen({ navigation }: Props) {
     }
     setShowExportModal(true);
   };
+  const handleBackupRestore = () => setShowBackupModal(true);
   const handleClearCache = async () => {
     try {
       await AsyncStorage.clear();
@@ -187,6 +196,10 @@ export default function ProfileScreen({ navigation }: Props) {
     setProfile(prev => prev ? { ...prev, language_preference: language } : null);
   };
 
+  const handleCostBasisChange = (method: CostBasisMethod) => {
+    setProfile(prev => prev ? { ...prev, cost_basis_method: method } : null);
+  };
+
   const handleAccountDeleted = () => {
     setShowDeleteModal(false);
     // Auth state change will handle navigation to sign-in
@@ -211,12 +224,20 @@ export default function ProfileScreen({ navigation }: Props) {
       rows: [
         { label: 'Currency', value: profile?.currency_preference || 'USD', onPress: handleCurrency },
         { label: 'Language', value: getLanguageName(profile?.language_preference || 'en'), onPress: handleLanguage },
+        { label: 'Cost Basis', value: COST_BASIS_METHOD_LABELS[profile?.cost_basis_method || DEFAULT_COST_BASIS_METHOD], onPress: handleCostBasis },
+      ],
+    },
+    {
+      title: 'Notifications',
+      rows: [
+        { label: 'Price Alerts', onPress: () => navigation.navigate('Alerts') },
       ],
     },
     {
       title: 'Data',
       rows: [
         { label: 'Export Data', onPress: handleExportData },
+        { label: 'Backup & Restore', onPress: handleBackupRestore },
         { label: 'Clear Cache', onPress: handleClearCache },
       ],
     },
@@ -388,11 +409,24 @@ export default function ProfileScreen({ navigation }: Props) {
         onLanguageChange={handleLanguageChange}
       />
 
+      <CostBasisMethodModal
+        visible={showCostBasisModal}
+        onClose={() => setShowCostBasisModal(false)}
+        currentMethod={profile?.cost_basis_method || DEFAULT_COST_BASIS_METHOD}
+        onMethodChange={handleCostBasisChange}
+      />
+
       <DataExportModal
         visible={showExportModal}
         onClose={() => setShowExportModal(false)}
       />
 
+      <BackupRestoreModal
+        visible={showBackupModal}
+        onClose={() => setShowBackupModal(false)}
+        onRestored={loadProfileData}
+      />
+
       <AccountDeletionModal
         visible={showDeleteModal}
         onClose={() => setShowDeleteModal(false)}
@@ -0,0 +1,636 @@
+/**
+ * Rebalance Screen
+ *
+ * Sets a portfolio's target weights per asset type and per asset with a
+ * drift band, shows how far the holdings have drifted, and lists the buy
+ * and sell trades that bring them back to target. The contributions-only
+ * mode spends new money on underweight holdings and never sells.
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { RootStackScreenProps } from '@/navigation/types';
+import { portfolioService, assetService } from '@/services/api';
+import type { AllocationTarget, AllocationTargets } from '@/services/offlineStorage';
+import { useCurrency } from '@/hooks/useCurrency';
+import { ASSET_TYPES, ASSET_TYPE_INFO, isAssetType } from '@/utils/assetTypes';
+import {
+  calculateDrift,
+  DEFAULT_DRIFT_BAND,
+  getTargetTotal,
+  needsRebalance,
+  planRebalance,
+  toRebalanceHoldings,
+  validateTargets,
+  type RebalanceMode,
+} from '@/utils/rebalancing';
+
+type Props = RootStackScreenProps<'Rebalance'>;
+
+interface Portfolio {
+  id: string;
+  name: string;
+  allocation_targets?: AllocationTargets;
+}
+
+interface Asset {
+  id: string;
+  portfolio_id: string;
+  asset_type: string;
+  symbol?: string;
+  name: string;
+  quantity: number;
+  purchase_price: number;
+  current_price?: number;
+  currency?: string;
+}
+
+function formatAssetType(type: string): string {
+  return isAssetType(type) ? ASSET_TYPE_INFO[type].groupLabel : type;
+}
+
+function formatWeight(value: number): string {
+  return `${value.toFixed(1)}%`;
+}
+
+function formatDrift(value: number): string {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(1)} pts`;
+}
+
+export default function RebalanceScreen({ navigation, route }: Props) {
+  const { currency, rates, format } = useCurrency();
+  const [portfolios, setPortfolios] = useState<Portfolio[]>([]);
+  const [portfolioId, setPortfolioId] = useState<string | null>(route.params?.portfolioId ?? null);
+  const [assets, setAssets] = useState<Asset[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Draft targets, kept as text while editing
+  const [typeWeights, setTypeWeights] = useState<Record<string, string>>({});
+  const [assetWeights, setAssetWeights] = useState<Record<string, string>>({});
+  const [driftBand, setDriftBand] = useState(String(DEFAULT_DRIFT_BAND));
+
+  const [mode, setMode] = useState<RebalanceMode>('full');
+  const [contribution, setContribution] = useState('');
+
+  const portfolio = portfolios.find((p) => p.id === portfolioId) ?? null;
+
+  const loadPortfolios = useCallback(async () => {
+    try {
+      setError(null);
+      const data: Portfolio[] = (await portfolioService.getPortfolios()) || [];
+      setPortfolios(data);
+      setPortfolioId((current) => current ?? data[0]?.id ?? null);
+    } catch (err) {
+      console.error('Failed to load portfolios:', err);
+      setError('Failed to load portfolios. Please try again.');
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPortfolios();
+  }, [loadPortfolios]);
+
+  useEffect(() => {
+    if (!portfolio) return;
+
+    const saved = portfolio.allocation_targets;
+    const toText = (scope: AllocationTarget['scope']) =>
+      (saved?.targets || [])
+        .filter((target) => target.scope === scope)
+        .reduce((weights, target) => ({ ...weights, [target.key]: String(target.weight) }), {} as Record<string, string>);
+    setTypeWeights(toText('asset_type'));
+    setAssetWeights(toText('asset'));
+    setDriftBand(String(saved?.drift_band ?? DEFAULT_DRIFT_BAND));
+
+    setIsLoading(true);
+    assetService
+      .getAssets(portfolio.id)
+      .then((data) => setAssets(data || []))
+      .catch(() => setError('Failed to load assets. Please try again.'))
+      .finally(() => setIsLoading(false));
+  }, [portfolio]);
+
+  const buildTargets = (): AllocationTargets => {
+    // Per-target bands set elsewhere are kept when weights are edited
+    const savedBands = new Map(
+      (portfolio?.allocation_targets?.targets || []).map((target) => [`${target.scope}:${target.key}`, target.drift_band])
+    );
+    const toTargets = (scope: AllocationTarget['scope'], weights: Record<string, string>): AllocationTarget[] =>
+      Object.entries(weights)
+        .filter(([, text]) => text.trim() !== '')
+        .map(([key, text]) => {
+          const band = savedBands.get(`${scope}:${key}`);
+          return { scope, key, weight: parseFloat(text), ...(band !== undefined && { drift_band: band }) };
+        });
+    return {
+      targets: [...toTargets('asset_type', typeWeights), ...toTargets('asset', assetWeights)],
+      drift_band: parseFloat(driftBand),
+    };
+  };
+
+  const holdings = toRebalanceHoldings(assets, { currency, rates });
+  const allocation = buildTargets();
+  const hasTargets = allocation.targets.length > 0;
+  const validationError = hasTargets
+    ? validateTargets(holdings, allocation.targets) ??
+      (!Number.isFinite(allocation.drift_band) || allocation.drift_band < 0 ? 'Enter a valid drift band' : null)
+    : null;
+  const drift = hasTargets && !validationError ? calculateDrift(holdings, allocation) : [];
+  const contributionAmount = parseFloat(contribution) || 0;
+  const trades = hasTargets && !validationError
+    ? planRebalance(holdings, allocation.targets, mode, contributionAmount)
+    : [];
+
+  const assetTypes = Array.from(new Set([
+    ...ASSET_TYPES,
+    ...assets.map((asset) => asset.asset_type),
+  ]));
+
+  const getAssetName = (assetId: string): string => {
+    const asset = assets.find((a) => a.id === assetId);
+    return asset?.symbol || asset?.name || 'Unknown asset';
+  };
+
+  const getDriftLabel = (scope: AllocationTarget['scope'], key: string): string =>
+    scope === 'asset_type' ? formatAssetType(key) : getAssetName(key);
+
+  const handleSave = async () => {
+    if (!portfolio) return;
+    if (validationError) {
+      Alert.alert('Error', validationError);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const updated = await portfolioService.updateAllocationTargets(portfolio.id, allocation);
+      setPortfolios((current) => current.map((p) => (p.id === updated.id ? updated : p)));
+      Alert.alert('Saved', 'Target allocation updated');
+    } catch (err) {
+      console.error('Failed to save target allocation:', err);
+      Alert.alert('Error', 'Failed to save target allocation');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.headerButton} onPress={() => navigation.goBack()}>
+          <Ionicons name="close" size={24} color="#11181C" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Rebalance</Text>
+        <TouchableOpacity
+          style={[styles.headerButton, styles.headerButtonRight]}
+          onPress={handleSave}
+          disabled={isSaving || !portfolio}
+        >
+          {isSaving ? (
+            <ActivityIndicator size="small" color="#0a7ea4" />
+          ) : (
+            <Text style={styles.saveText}>Save</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+
+      {error && (
+        <View style={styles.errorBanner}>
+          <Text style={styles.errorText}>{error}</Text>
+          <TouchableOpacity onPress={loadPortfolios}>
+            <Text style={styles.retryText}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {portfolios.length > 1 && (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.portfolioBar} contentContainerStyle={styles.portfolioBarContent}>
+          {portfolios.map((p) => (
+            <TouchableOpacity
+              key={p.id}
+              style={[styles.chip, p.id === portfolioId && styles.chipActive]}
+              onPress={() => setPortfolioId(p.id)}
+            >
+              <Text style={[styles.chipText, p.id === portfolioId && styles.chipTextActive]}>{p.name}</Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      )}
+
+      {isLoading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#0a7ea4" />
+        </View>
+      ) : (
+        <ScrollView style={styles.content} contentContainerStyle={styles.contentContainer}>
+          {/* Drift */}
+          <Text style={styles.sectionTitle}>Drift</Text>
+          {!hasTargets ? (
+            <Text style={styles.emptyText}>Set target weights below to see how far this portfolio has drifted.</Text>
+          ) : validationError ? (
+            <Text style={styles.warningText}>{validationError}</Text>
+          ) : (
+            <View style={styles.card}>
+              {!needsRebalance(drift) && (
+                <Text style={styles.onTargetText}>Everything is within its drift band.</Text>
+              )}
+              {drift.map((item) => (
+                <View key={`${item.scope}-${item.key}`} style={styles.driftRow}>
+                  <View style={styles.driftInfo}>
+                    <Text style={styles.driftLabel}>{getDriftLabel(item.scope, item.key)}</Text>
+                    <Text style={styles.driftWeights}>
+                      {formatWeight(item.currentWeight)} of {formatWeight(item.targetWeight)} target • ±{item.band} pts
+                    </Text>
+                  </View>
+                  <Text style={[styles.driftValue, item.outOfBand && styles.driftValueOut]}>
+                    {formatDrift(item.drift)}
+                  </Text>
+                </View>
+              ))}
+            </View>
+          )}
+
+          {/* Trades */}
+          <Text style={styles.sectionTitle}>Trades</Text>
+          <View style={styles.modeRow}>
+            {(['full', 'contributions_only'] as RebalanceMode[]).map((option) => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.modeButton, mode === option && styles.modeButtonActive]}
+                onPress={() => setMode(option)}
+              >
+                <Text style={[styles.modeText, mode === option && styles.modeTextActive]}>
+                  {option === 'full' ? 'Full Rebalance' : 'New Contributions Only'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <TextInput
+            style={styles.input}
+            placeholder={`New contribution (${currency})`}
+            value={contribution}
+            onChangeText={setContribution}
+            keyboardType="decimal-pad"
+          />
+          {trades.length === 0 ? (
+            <Text style={styles.emptyText}>
+              {mode === 'contributions_only' && contributionAmount <= 0
+                ? 'Enter a contribution to see where to invest it.'
+                : 'No trades needed.'}
+            </Text>
+          ) : (
+            <View style={styles.card}>
+              {trades.map((trade) => (
+                <View key={trade.asset_id} style={styles.tradeRow}>
+                  <View style={[styles.sideBadge, trade.side === 'sell' && styles.sideBadgeSell]}>
+                    <Text style={[styles.sideText, trade.side === 'sell' && styles.sideTextSell]}>
+                      {trade.side.toUpperCase()}
+                    </Text>
+                  </View>
+                  <View style={styles.tradeInfo}>
+                    <Text style={styles.tradeName}>{getAssetName(trade.asset_id)}</Text>
+                    <Text style={styles.tradeQuantity}>{trade.quantity.toFixed(4)} units</Text>
+                  </View>
+                  <Text style={styles.tradeValue}>{format(trade.value)}</Text>
+                </View>
+              ))}
+            </View>
+          )}
+
+          {/* Targets */}
+          <Text style={styles.sectionTitle}>Targets</Text>
+          <View style={styles.card}>
+            <Text style={styles.cardSubtitle}>By asset type</Text>
+            {assetTypes.map((type) => (
+              <View key={type} style={styles.targetRow}>
+                <Text style={styles.targetLabel}>{formatAssetType(type)}</Text>
+                <TextInput
+                  style={styles.targetInput}
+                  placeholder="—"
+                  value={typeWeights[type] ?? ''}
+                  onChangeText={(text) => setTypeWeights((current) => ({ ...current, [type]: text }))}
+                  keyboardType="decimal-pad"
+                />
+                <Text style={styles.targetUnit}>%</Text>
+              </View>
+            ))}
+
+            {assets.length > 0 && <Text style={styles.cardSubtitle}>By asset (optional)</Text>}
+            {assets.map((asset) => (
+              <View key={asset.id} style={styles.targetRow}>
+                <Text style={styles.targetLabel}>{asset.symbol || asset.name}</Text>
+                <TextInput
+                  style={styles.targetInput}
+                  placeholder="—"
+                  value={assetWeights[asset.id] ?? ''}
+                  onChangeText={(text) => setAssetWeights((current) => ({ ...current, [asset.id]: text }))}
+                  keyboardType="decimal-pad"
+                />
+                <Text style={styles.targetUnit}>%</Text>
+              </View>
+            ))}
+
+            <View style={[styles.targetRow, styles.bandRow]}>
+              <Text style={styles.targetLabel}>Drift band</Text>
+              <TextInput
+                style={styles.targetInput}
+                value={driftBand}
+                onChangeText={setDriftBand}
+                keyboardType="decimal-pad"
+              />
+              <Text style={styles.targetUnit}>pts</Text>
+            </View>
+            {hasTargets && (
+              <Text style={styles.totalText}>
+                Total {formatWeight(getTargetTotal(holdings, allocation.targets))}
+              </Text>
+            )}
+          </View>
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F5F5',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 16,
+    paddingBottom: 12,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  headerButton: {
+    minWidth: 60,
+  },
+  headerButtonRight: {
+    alignItems: 'flex-end',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#11181C',
+  },
+  saveText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#0a7ea4',
+  },
+  errorBanner: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: '#FEE2E2',
+    padding: 12,
+    marginHorizontal: 16,
+    marginTop: 12,
+    borderRadius: 8,
+  },
+  errorText: {
+    color: '#DC2626',
+    flex: 1,
+  },
+  retryText: {
+    color: '#0a7ea4',
+    fontWeight: '600',
+    marginLeft: 12,
+  },
+  portfolioBar: {
+    flexGrow: 0,
+    backgroundColor: '#FFFFFF',
+  },
+  portfolioBarContent: {
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#F3F4F6',
+  },
+  chipActive: {
+    backgroundColor: '#0a7ea4',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#687076',
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#11181C',
+    marginBottom: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#687076',
+    marginBottom: 24,
+  },
+  warningText: {
+    fontSize: 14,
+    color: '#DC2626',
+    marginBottom: 24,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 24,
+  },
+  cardSubtitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#687076',
+    textTransform: 'uppercase',
+    marginTop: 8,
+    marginBottom: 4,
+  },
+  onTargetText: {
+    fontSize: 14,
+    color: '#059669',
+    marginBottom: 8,
+  },
+  driftRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  driftInfo: {
+    flex: 1,
+  },
+  driftLabel: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#11181C',
+  },
+  driftWeights: {
+    fontSize: 13,
+    color: '#687076',
+    marginTop: 2,
+  },
+  driftValue: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#687076',
+  },
+  driftValueOut: {
+    color: '#DC2626',
+  },
+  modeRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 12,
+  },
+  modeButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    backgroundColor: '#FFFFFF',
+    alignItems: 'center',
+  },
+  modeButtonActive: {
+    backgroundColor: '#0a7ea4',
+    borderColor: '#0a7ea4',
+  },
+  modeText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#687076',
+  },
+  modeTextActive: {
+    color: '#FFFFFF',
+  },
+  input: {
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 12,
+  },
+  tradeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  sideBadge: {
+    backgroundColor: '#D1FAE5',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 6,
+    marginRight: 12,
+  },
+  sideBadgeSell: {
+    backgroundColor: '#FEE2E2',
+  },
+  sideText: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#059669',
+  },
+  sideTextSell: {
+    color: '#DC2626',
+  },
+  tradeInfo: {
+    flex: 1,
+  },
+  tradeName: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#11181C',
+  },
+  tradeQuantity: {
+    fontSize: 13,
+    color: '#687076',
+    marginTop: 2,
+  },
+  tradeValue: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#11181C',
+  },
+  targetRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  bandRow: {
+    marginTop: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#F3F4F6',
+    paddingTop: 12,
+  },
+  targetLabel: {
+    flex: 1,
+    fontSize: 15,
+    color: '#11181C',
+  },
+  targetInput: {
+    width: 72,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    fontSize: 15,
+    textAlign: 'right',
+  },
+  targetUnit: {
+    width: 28,
+    marginLeft: 6,
+    fontSize: 14,
+    color: '#687076',
+  },
+  totalText: {
+    fontSize: 13,
+    color: '#687076',
+    textAlign: 'right',
+    marginTop: 8,
+  },
+});
@@ -0,0 +1,7 @@
+/**
+ * Rebalance Screens Index
+ * 
+ * Central export for rebalancing screens
+ */
+
+export { default as RebalanceScreen } from './RebalanceScreen';
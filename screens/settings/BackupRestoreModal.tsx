@@ -0,0 +1,586 @@
+/**
+ * Backup and Restore Modal
+ *
+ * Creates a versioned JSON backup of the account and local settings, and
+ * restores a pasted backup by merging it into the account or replacing it
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ActivityIndicator,
+  ScrollView,
+  TextInput,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { shareTextFile } from '@/hooks/useDataExport';
+import { useOfflineStatus } from '@/hooks/useOfflineStatus';
+import { backupService, type RestoreResult } from '@/services/backupService';
+import { getBackupFilename, parseBackup, type ParsedBackup, type RestoreMode } from '@/utils/backup';
+import { loadLocalSettings, saveLocalSettings } from './SettingsModals';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface BackupRestoreModalProps {
+  visible: boolean;
+  onClose: () => void;
+  /** Called after a backup was restored, to reload account data */
+  onRestored: () => void;
+}
+
+interface ModeOption {
+  value: RestoreMode;
+  label: string;
+  description: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const MODE_OPTIONS: ModeOption[] = [
+  {
+    value: 'merge',
+    label: 'Merge',
+    description: 'Add what is missing and keep your current data',
+  },
+  {
+    value: 'replace',
+    label: 'Replace',
+    description: 'Restore the backup, then delete your other portfolios, watchlists, liabilities and alerts',
+  },
+];
+
+// Validation errors shown before the rest are summarized
+const MAX_ERRORS_SHOWN = 5;
+
+// ============================================================================
+// Component
+// ============================================================================
+
+export function BackupRestoreModal({
+  visible,
+  onClose,
+  onRestored,
+}: BackupRestoreModalProps): React.ReactElement {
+  const { isOffline } = useOfflineStatus();
+  const [isBackingUp, setIsBackingUp] = useState(false);
+  const [backupText, setBackupText] = useState('');
+  const [parsed, setParsed] = useState<ParsedBackup | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [result, setResult] = useState<RestoreResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const isRestoring = progress !== null;
+  const isBusy = isBackingUp || isRestoring;
+
+  // Reset state when modal opens
+  useEffect(() => {
+    if (visible) {
+      setBackupText('');
+      setParsed(null);
+      setMode('merge');
+      setProgress(null);
+      setResult(null);
+      setError(null);
+    }
+  }, [visible]);
+
+  const handleCreateBackup = async () => {
+    setIsBackingUp(true);
+    setError(null);
+    try {
+      const { backup, warnings } = await backupService.createBackup(await loadLocalSettings());
+      await shareTextFile(
+        JSON.stringify(backup, null, 2),
+        getBackupFilename(backup.created_at),
+        'application/json'
+      );
+      if (warnings.length > 0) {
+        Alert.alert('Backup Incomplete', warnings.join('\n'));
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create backup');
+    } finally {
+      setIsBackingUp(false);
+    }
+  };
+
+  const handleTextChange = (text: string) => {
+    setBackupText(text);
+    setParsed(null);
+    setResult(null);
+  };
+
+  const handleCheck = () => {
+    const checked = parseBackup(backupText.trim());
+    setParsed(checked);
+    if (checked.backup?.incomplete) setMode('merge');
+    setError(null);
+  };
+
+  const runRestore = async () => {
+    const backup = parsed?.backup;
+    if (!backup) return;
+
+    setError(null);
+    setProgress({ done: 0, total: 1 });
+    try {
+      const restored = await backupService.restoreBackup(backup, mode, (done, total) =>
+        setProgress({ done, total })
+      );
+      await saveLocalSettings(backup.settings);
+      setResult(restored);
+      onRestored();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Restore failed');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleRestore = () => {
+    if (mode === 'replace') {
+      Alert.alert(
+        'Replace Account Data',
+        'Once the backup is restored, all of your other portfolios, assets, watchlists, liabilities and alerts will be deleted. This cannot be undone.',
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Replace', style: 'destructive', onPress: runRestore },
+        ]
+      );
+      return;
+    }
+    runRestore();
+  };
+
+  const backup = parsed?.backup;
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity
+            style={styles.closeButton}
+            onPress={onClose}
+            accessibilityLabel="Close backup modal"
+            accessibilityRole="button"
+            disabled={isRestoring}
+          >
+            <Ionicons name="close" size={24} color="#11181C" />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Backup & Restore</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        <ScrollView style={styles.content} contentContainerStyle={styles.contentContainer}>
+          {/* Backup */}
+          <Text style={styles.sectionTitle}>Back Up</Text>
+          <Text style={styles.sectionDescription}>
+            Save your portfolios, assets with their transactions and income, watchlists, liabilities, alerts, preferences and app settings to a JSON file.
+          </Text>
+          <TouchableOpacity
+            style={[styles.secondaryButton, isBusy && styles.buttonDisabled]}
+            onPress={handleCreateBackup}
+            accessibilityLabel="Create backup"
+            accessibilityRole="button"
+            disabled={isBusy}
+          >
+            {isBackingUp ? (
+              <ActivityIndicator color="#0a7ea4" size="small" />
+            ) : (
+              <>
+                <Ionicons name="cloud-download-outline" size={20} color="#0a7ea4" />
+                <Text style={styles.secondaryButtonText}>Create Backup</Text>
+              </>
+            )}
+          </TouchableOpacity>
+
+          {/* Restore */}
+          <Text style={[styles.sectionTitle, styles.restoreTitle]}>Restore</Text>
+          <Text style={styles.sectionDescription}>
+            Paste the contents of a backup file. Older backups and JSON exports are converted automatically.
+          </Text>
+
+          {isOffline && (
+            <View style={styles.offlineBanner}>
+              <Ionicons name="cloud-offline-outline" size={16} color="#92400E" />
+              <Text style={styles.offlineText}>Connect to the internet to restore a backup.</Text>
+            </View>
+          )}
+
+          <TextInput
+            style={styles.backupInput}
+            value={backupText}
+            onChangeText={handleTextChange}
+            placeholder="Paste backup JSON here"
+            placeholderTextColor="#9CA3AF"
+            multiline
+            autoCapitalize="none"
+            autoCorrect={false}
+            editable={!isBusy}
+            accessibilityLabel="Backup contents"
+          />
+
+          <TouchableOpacity
+            style={[styles.secondaryButton, (!backupText.trim() || isBusy) && styles.buttonDisabled]}
+            onPress={handleCheck}
+            accessibilityLabel="Check backup"
+            accessibilityRole="button"
+            disabled={!backupText.trim() || isBusy}
+          >
+            <Ionicons name="shield-checkmark-outline" size={20} color="#0a7ea4" />
+            <Text style={styles.secondaryButtonText}>Check Backup</Text>
+          </TouchableOpacity>
+
+          {/* Validation Errors */}
+          {parsed && parsed.errors.length > 0 && (
+            <View style={styles.errorContainer}>
+              <Ionicons name="alert-circle" size={20} color="#DC2626" />
+              <View style={styles.messageBody}>
+                {parsed.errors.slice(0, MAX_ERRORS_SHOWN).map((message) => (
+                  <Text key={message} style={styles.errorText}>{message}</Text>
+                ))}
+                {parsed.errors.length > MAX_ERRORS_SHOWN && (
+                  <Text style={styles.errorText}>
+                    and {parsed.errors.length - MAX_ERRORS_SHOWN} more problems
+                  </Text>
+                )}
+              </View>
+            </View>
+          )}
+
+          {/* Backup Summary */}
+          {backup && (
+            <>
+              <View style={styles.summaryCard}>
+                <Text style={styles.summaryTitle}>
+                  Backup from {new Date(backup.created_at).toLocaleDateString()}
+                </Text>
+                <Text style={styles.summaryText}>
+                  {backup.portfolios.length} portfolios, {backup.assets.length} assets, {backup.transactions.length} transactions, {backup.watchlists.length} watchlists, {backup.liabilities.length} liabilities, {backup.alerts.length} alerts
+                </Text>
+                {parsed?.migratedFrom !== undefined && (
+                  <Text style={styles.summaryNote}>
+                    Converted from schema version {parsed.migratedFrom}
+                  </Text>
+                )}
+                {backup.incomplete && (
+                  <Text style={styles.summaryNote}>
+                    Made before transaction history was backed up, so it can only be merged
+                  </Text>
+                )}
+              </View>
+
+              <Text style={styles.fieldLabel}>Restore Mode</Text>
+              <View style={styles.modeOptions}>
+                {MODE_OPTIONS.map((option) => {
+                  // Backups without ledgers cannot replace what they would delete
+                  const isUnavailable = option.value === 'replace' && !!backup.incomplete;
+                  return (
+                    <TouchableOpacity
+                      key={option.value}
+                      style={[
+                        styles.modeOption,
+                        mode === option.value && styles.modeOptionSelected,
+                        isUnavailable && styles.buttonDisabled,
+                      ]}
+                      onPress={() => setMode(option.value)}
+                      accessibilityRole="radio"
+                      accessibilityState={{ selected: mode === option.value, disabled: isUnavailable }}
+                      disabled={isBusy || isUnavailable}
+                    >
+                      <Text style={styles.modeLabel}>{option.label}</Text>
+                      <Text style={styles.modeDescription}>{option.description}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </>
+          )}
+
+          {/* Error Message */}
+          {error && (
+            <View style={styles.errorContainer}>
+              <Ionicons name="alert-circle" size={20} color="#DC2626" />
+              <Text style={[styles.errorText, styles.messageBody]}>{error}</Text>
+            </View>
+          )}
+
+          {/* Restore Result */}
+          {result && (
+            <View style={styles.successContainer}>
+              <Ionicons name="checkmark-circle" size={20} color="#10B981" />
+              <View style={styles.messageBody}>
+                <Text style={styles.successText}>
+                  Restored {result.portfolios} portfolios, {result.assets} assets, {result.transactions} transactions, {result.watchlists} watchlists, {result.liabilities} liabilities and {result.alerts} alerts.
+                </Text>
+                {result.skippedAssets + result.skippedAlerts + result.skippedWatchlists + result.skippedLiabilities > 0 && (
+                  <Text style={styles.successDetail}>
+                    Skipped {result.skippedAssets} assets, {result.skippedWatchlists} watchlists, {result.skippedLiabilities} liabilities and {result.skippedAlerts} alerts already in your account.
+                  </Text>
+                )}
+              </View>
+            </View>
+          )}
+        </ScrollView>
+
+        {/* Footer */}
+        {backup && !result && (
+          <View style={styles.footer}>
+            <TouchableOpacity
+              style={[styles.restoreButton, (isBusy || isOffline) && styles.restoreButtonDisabled]}
+              onPress={handleRestore}
+              accessibilityLabel="Restore backup"
+              accessibilityRole="button"
+              disabled={isBusy || isOffline}
+            >
+              {progress ? (
+                <>
+                  <ActivityIndicator color="#FFFFFF" size="small" />
+                  <Text style={styles.restoreButtonText}>
+                    Restoring {progress.done} of {progress.total}
+                  </Text>
+                </>
+              ) : (
+                <>
+                  <Ionicons name="refresh-outline" size={20} color="#FFFFFF" />
+                  <Text style={styles.restoreButtonText}>Restore</Text>
+                </>
+              )}
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+    </Modal>
+  );
+}
+
+// ============================================================================
+// Styles
+// ============================================================================
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 16,
+    paddingBottom: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  closeButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#11181C',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    paddingHorizontal: 20,
+    paddingTop: 24,
+    paddingBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#11181C',
+    marginBottom: 8,
+  },
+  restoreTitle: {
+    marginTop: 32,
+  },
+  sectionDescription: {
+    fontSize: 14,
+    color: '#687076',
+    marginBottom: 16,
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderColor: '#0a7ea4',
+    paddingVertical: 12,
+    borderRadius: 12,
+    gap: 8,
+  },
+  secondaryButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#0a7ea4',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  offlineBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#FEF3C7',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 12,
+  },
+  offlineText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#92400E',
+  },
+  backupInput: {
+    minHeight: 140,
+    maxHeight: 240,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 12,
+    fontFamily: 'monospace',
+    color: '#11181C',
+    textAlignVertical: 'top',
+    marginBottom: 12,
+  },
+  summaryCard: {
+    backgroundColor: '#F0F9FF',
+    borderRadius: 12,
+    padding: 16,
+    marginTop: 20,
+  },
+  summaryTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#11181C',
+    marginBottom: 4,
+  },
+  summaryText: {
+    fontSize: 14,
+    color: '#687076',
+  },
+  summaryNote: {
+    fontSize: 13,
+    color: '#0a7ea4',
+    marginTop: 6,
+  },
+  fieldLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#11181C',
+    marginTop: 24,
+    marginBottom: 8,
+  },
+  modeOptions: {
+    gap: 12,
+  },
+  modeOption: {
+    padding: 16,
+    borderWidth: 2,
+    borderColor: '#E5E7EB',
+    borderRadius: 12,
+  },
+  modeOptionSelected: {
+    borderColor: '#0a7ea4',
+    backgroundColor: '#F0F9FF',
+  },
+  modeLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#11181C',
+    marginBottom: 2,
+  },
+  modeDescription: {
+    fontSize: 13,
+    color: '#687076',
+  },
+  messageBody: {
+    flex: 1,
+    gap: 4,
+  },
+  errorContainer: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    backgroundColor: '#FEF2F2',
+    padding: 12,
+    borderRadius: 8,
+    marginTop: 20,
+    gap: 8,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#DC2626',
+  },
+  successContainer: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    backgroundColor: '#ECFDF5',
+    padding: 12,
+    borderRadius: 8,
+    marginTop: 20,
+    gap: 8,
+  },
+  successText: {
+    fontSize: 14,
+    color: '#10B981',
+    fontWeight: '500',
+  },
+  successDetail: {
+    fontSize: 13,
+    color: '#047857',
+  },
+  footer: {
+    paddingHorizontal: 20,
+    paddingTop: 16,
+    paddingBottom: 34,
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+    backgroundColor: '#FFFFFF',
+  },
+  restoreButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#0a7ea4',
+    paddingVertical: 16,
+    borderRadius: 12,
+    gap: 8,
+  },
+  restoreButtonDisabled: {
+    backgroundColor: '#9CA3AF',
+  },
+  restoreButtonText: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
+
+export default BackupRestoreModal;
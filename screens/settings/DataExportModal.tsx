@@ -1,7 +1,8 @@
 /**
  * Data Export Modal
  * 
- * Modal for exporting portfolio data in CSV, JSON, or PDF format
+ * Modal for exporting portfolio data in CSV, JSON, or PDF format.
+ * CSV and JSON exports can be limited to some portfolios and a date range.
  * Requirements: Task 65 - Data Export
  */
 
@@ -13,9 +14,13 @@ import {
   Modal,
   TouchableOpacity,
   ActivityIndicator,
+  ScrollView,
+  TextInput,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useDataExport, ExportFormat } from '@/hooks/useDataExport';
+import { portfolioService } from '@/services/api';
+import { cachePortfolios, getCachedPortfolios } from '@/services/offlineStorage';
 
 // ============================================================================
 // Types
@@ -26,6 +31,11 @@ export interface DataExportModalProps {
   onClose: () => void;
 }
 
+interface PortfolioOption {
+  id: string;
+  name: string;
+}
+
 interface FormatOption {
   value: ExportFormat;
   label: string;
@@ -58,6 +68,8 @@ const FORMAT_OPTIONS: FormatOption[] = [
   },
 ];
 
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
 // ============================================================================
 // Component
 // ============================================================================
@@ -67,16 +79,49 @@ export function DataExportModal({
   onClose,
 }: DataExportModalProps): React.ReactElement {
   const [selectedFormat, setSelectedFormat] = useState<ExportFormat>('csv');
+  const [portfolios, setPortfolios] = useState<PortfolioOption[]>([]);
+  const [selectedPortfolioIds, setSelectedPortfolioIds] = useState<string[]>([]);
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [rangeError, setRangeError] = useState<string | null>(null);
   const { isLoading, error, success, exportData, reset } = useDataExport();
 
+  const isLocalFormat = selectedFormat !== 'pdf';
+
   // Reset state when modal opens
   useEffect(() => {
     if (visible) {
       reset();
       setSelectedFormat('csv');
+      setStartDate('');
+      setEndDate('');
+      setRangeError(null);
     }
   }, [visible, reset]);
 
+  // Load the portfolios to choose from, from the cache when offline
+  useEffect(() => {
+    if (!visible) return;
+
+    let cancelled = false;
+    portfolioService
+      .getPortfolios()
+      .then(async (remote) => {
+        await cachePortfolios(remote || []);
+        return remote || [];
+      })
+      .catch(async () => (await getCachedPortfolios()) || [])
+      .then((list: PortfolioOption[]) => {
+        if (cancelled) return;
+        setPortfolios(list);
+        setSelectedPortfolioIds(list.map((p) => p.id));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [visible]);
+
   // Close modal on success after brief delay
   useEffect(() => {
     if (success) {
@@ -87,10 +132,39 @@ export function DataExportModal({
     }
   }, [success, onClose]);
 
+  const togglePortfolio = (portfolioId: string) => {
+    setSelectedPortfolioIds((prev) =>
+      prev.includes(portfolioId) ? prev.filter((id) => id !== portfolioId) : [...prev, portfolioId]
+    );
+  };
+
   const handleExport = async () => {
-    await exportData(selectedFormat);
+    if (!isLocalFormat) {
+      await exportData(selectedFormat);
+      return;
+    }
+
+    const start = startDate.trim();
+    const end = endDate.trim();
+    if ((start && !DATE_PATTERN.test(start)) || (end && !DATE_PATTERN.test(end))) {
+      setRangeError('Enter dates as YYYY-MM-DD');
+      return;
+    }
+    if (start && end && start > end) {
+      setRangeError('Start date must be before the end date');
+      return;
+    }
+    setRangeError(null);
+
+    await exportData(selectedFormat, {
+      portfolioIds: portfolios.length > 0 ? selectedPortfolioIds : undefined,
+      startDate: start || undefined,
+      endDate: end || undefined,
+    });
   };
 
+  const noPortfolioSelected = isLocalFormat && portfolios.length > 0 && selectedPortfolioIds.length === 0;
+
   return (
     <Modal
       visible={visible}
@@ -115,7 +189,7 @@ export function DataExportModal({
         </View>
 
         {/* Content */}
-        <View style={styles.content}>
+        <ScrollView style={styles.content} contentContainerStyle={styles.contentContainer}>
           <Text style={styles.sectionTitle}>Select Format</Text>
           <Text style={styles.sectionDescription}>
             Choose the format for your portfolio export
@@ -154,11 +228,68 @@ export function DataExportModal({
             ))}
           </View>
 
+          {/* Portfolios and Date Range */}
+          {isLocalFormat && (
+            <>
+              {portfolios.length > 0 && (
+                <>
+                  <Text style={styles.fieldLabel}>Portfolios</Text>
+                  <View style={styles.chipRow}>
+                    {portfolios.map((portfolio) => {
+                      const selected = selectedPortfolioIds.includes(portfolio.id);
+                      return (
+                        <TouchableOpacity
+                          key={portfolio.id}
+                          style={[styles.chip, selected && styles.chipActive]}
+                          onPress={() => togglePortfolio(portfolio.id)}
+                          accessibilityRole="checkbox"
+                          accessibilityState={{ checked: selected }}
+                          disabled={isLoading}
+                        >
+                          <Text style={[styles.chipText, selected && styles.chipTextActive]}>
+                            {portfolio.name}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                </>
+              )}
+
+              <Text style={styles.fieldLabel}>Transaction Dates</Text>
+              <View style={styles.dateRow}>
+                <TextInput
+                  style={styles.dateInput}
+                  value={startDate}
+                  onChangeText={setStartDate}
+                  placeholder="From (YYYY-MM-DD)"
+                  placeholderTextColor="#9CA3AF"
+                  autoCapitalize="none"
+                  accessibilityLabel="Start date"
+                  editable={!isLoading}
+                />
+                <TextInput
+                  style={styles.dateInput}
+                  value={endDate}
+                  onChangeText={setEndDate}
+                  placeholder="To (YYYY-MM-DD)"
+                  placeholderTextColor="#9CA3AF"
+                  autoCapitalize="none"
+                  accessibilityLabel="End date"
+                  editable={!isLoading}
+                />
+              </View>
+              <Text style={styles.fieldHint}>
+                Leave empty to include all transactions. Works offline using saved data.
+              </Text>
+            </>
+          )}
+
           {/* Error Message */}
-          {error && (
+          {(rangeError || error) && (
             <View style={styles.errorContainer}>
               <Ionicons name="alert-circle" size={20} color="#DC2626" />
-              <Text style={styles.errorText}>{error}</Text>
+              <Text style={styles.errorText}>{rangeError || error}</Text>
             </View>
           )}
 
@@ -169,16 +300,16 @@ export function DataExportModal({
               <Text style={styles.successText}>Export successful!</Text>
             </View>
           )}
-        </View>
+        </ScrollView>
 
         {/* Footer */}
         <View style={styles.footer}>
           <TouchableOpacity
-            style={[styles.exportButton, isLoading && styles.exportButtonDisabled]}
+            style={[styles.exportButton, (isLoading || noPortfolioSelected) && styles.exportButtonDisabled]}
             onPress={handleExport}
             accessibilityLabel="Export portfolio data"
             accessibilityRole="button"
-            disabled={isLoading || success}
+            disabled={isLoading || success || noPortfolioSelected}
           >
             {isLoading ? (
               <ActivityIndicator color="#FFFFFF" size="small" />
@@ -240,8 +371,11 @@ const styles = StyleSheet.create({
   },
   content: {
     flex: 1,
+  },
+  contentContainer: {
     paddingHorizontal: 20,
     paddingTop: 24,
+    paddingBottom: 24,
   },
   sectionTitle: {
     fontSize: 20,
@@ -310,6 +444,57 @@ const styles = StyleSheet.create({
     fontSize: 13,
     color: '#687076',
   },
+  fieldLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#11181C',
+    marginTop: 24,
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    backgroundColor: '#FFFFFF',
+  },
+  chipActive: {
+    borderColor: '#0a7ea4',
+    backgroundColor: '#0a7ea4',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#687076',
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  dateRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  dateInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: '#11181C',
+  },
+  fieldHint: {
+    fontSize: 12,
+    color: '#687076',
+    marginTop: 8,
+  },
   errorContainer: {
     flexDirection: 'row',
     alignItems: 'center',
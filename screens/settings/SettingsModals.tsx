@@ -4,9 +4,11 @@
  * Provides settings UI components for the Investment Portfolio Tracker
  * - CurrencySelectionModal
  * - LanguageSelectionModal
+ * - CostBasisMethodModal
  * - NotificationToggle
  * - DarkModeToggle
  * - ChartViewSelector
+ * - Local settings load/save helpers used by account backups
  */
 
 import React, { useState, useEffect } from 'react';
@@ -23,6 +25,9 @@ import {
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Ionicons } from '@expo/vector-icons';
 import { profileService } from '@/services/api';
+import type { CostBasisMethod } from '@/services/offlineStorage';
+import { COST_BASIS_METHOD_LABELS } from '@/utils/ledger';
+import { SUPPORTED_CURRENCIES } from '@/utils/currency';
 
 // ============================================================================
 // Types
@@ -42,6 +47,13 @@ interface LanguageSelectionModalProps {
   onLanguageChange: (language: string) => void;
 }
 
+interface CostBasisMethodModalProps {
+  visible: boolean;
+  onClose: () => void;
+  currentMethod: CostBasisMethod;
+  onMethodChange: (method: CostBasisMethod) => void;
+}
+
 interface NotificationToggleProps {
   value: boolean;
   onValueChange: (value: boolean) => void;
@@ -57,20 +69,17 @@ interface ChartViewSelectorProps {
   onValueChange: (value: string) => void;
 }
 
+/** Settings kept on the device, included in account backups */
+export interface LocalSettings {
+  notifications_enabled: boolean;
+  dark_mode_enabled: boolean;
+  chart_view: string;
+}
+
 // ============================================================================
 // Constants
 // ============================================================================
 
-const CURRENCIES = [
-  { code: 'USD', name: 'US Dollar', symbol: '$' },
-  { code: 'EUR', name: 'Euro', symbol: '€' },
-  { code: 'GBP', name: 'British Pound', symbol: '£' },
-  { code: 'JPY', name: 'Japanese Yen', symbol: '¥' },
-  { code: 'CAD', name: 'Canadian Dollar', symbol: 'C$' },
-  { code: 'AUD', name: 'Australian Dollar', symbol: 'A$' },
-  { code: 'CHF', name: 'Swiss Franc', symbol: 'Fr' },
-];
-
 const LANGUAGES = [
   { code: 'en', name: 'English' },
   { code: 'es', name: 'Spanish' },
@@ -81,6 +90,13 @@ const LANGUAGES = [
   { code: 'ja', name: 'Japanese' },
 ];
 
+const COST_BASIS_METHODS: { value: CostBasisMethod; description: string }[] = [
+  { value: 'fifo', description: 'First in, first out: sells the oldest lots first' },
+  { value: 'lifo', description: 'Last in, first out: sells the newest lots first' },
+  { value: 'average', description: 'Uses the average cost of all lots' },
+  { value: 'specific', description: 'Choose the lot when recording a sale' },
+];
+
 const CHART_VIEWS = [
   { value: 'line', label: 'Line', icon: 'analytics-outline' as const },
   { value: 'candlestick', label: 'Candlestick', icon: 'bar-chart-outline' as const },
@@ -146,7 +162,7 @@ export function CurrencySelectionModal({
           </View>
 
           <ScrollView style={styles.optionsList}>
-            {CURRENCIES.map((currency) => (
+            {SUPPORTED_CURRENCIES.map((currency) => (
               <TouchableOpacity
                 key={currency.code}
                 style={styles.optionItem}
@@ -283,6 +299,101 @@ export function LanguageSelectionModal({
   );
 }
 
+// ============================================================================
+// CostBasisMethodModal
+// ============================================================================
+
+export function CostBasisMethodModal({
+  visible,
+  onClose,
+  currentMethod,
+  onMethodChange,
+}: CostBasisMethodModalProps) {
+  const [selectedMethod, setSelectedMethod] = useState(currentMethod);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setSelectedMethod(currentMethod);
+  }, [currentMethod, visible]);
+
+  const handleSave = async () => {
+    if (selectedMethod === currentMethod) {
+      onClose();
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await profileService.updateProfile({ cost_basis_method: selectedMethod });
+      onMethodChange(selectedMethod);
+      onClose();
+    } catch (error) {
+      console.error('Failed to update cost basis method:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={true}
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Cost Basis Method</Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Ionicons name="close" size={24} color="#11181C" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.optionsList}>
+            {COST_BASIS_METHODS.map((method) => (
+              <TouchableOpacity
+                key={method.value}
+                style={styles.optionItem}
+                onPress={() => setSelectedMethod(method.value)}
+              >
+                <View style={styles.optionInfo}>
+                  <Text style={styles.optionCode}>{COST_BASIS_METHOD_LABELS[method.value]}</Text>
+                  <Text style={styles.optionName}>{method.description}</Text>
+                </View>
+                <View style={styles.radioContainer}>
+                  <View
+                    style={[
+                      styles.radioOuter,
+                      selectedMethod === method.value && styles.radioOuterSelected,
+                    ]}
+                  >
+                    {selectedMethod === method.value && (
+                      <View style={styles.radioInner} />
+                    )}
+                  </View>
+                </View>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+
+          <TouchableOpacity
+            style={[styles.saveButton, isSaving && styles.saveButtonDisabled]}
+            onPress={handleSave}
+            disabled={isSaving}
+          >
+            {isSaving ? (
+              <ActivityIndicator size="small" color="#FFFFFF" />
+            ) : (
+              <Text style={styles.saveButtonText}>Save</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
 // ============================================================================
 // NotificationToggle
 // ============================================================================
@@ -440,6 +551,38 @@ export async function loadChartViewPreference(): Promise<string> {
   }
 }
 
+export async function loadLocalSettings(): Promise<LocalSettings> {
+  const [notifications, darkMode, chartView] = await Promise.all([
+    loadNotificationPreference(),
+    loadDarkModePreference(),
+    loadChartViewPreference(),
+  ]);
+  return {
+    notifications_enabled: notifications,
+    dark_mode_enabled: darkMode,
+    chart_view: chartView,
+  };
+}
+
+/**
+ * Save the given local settings, leaving any that are missing unchanged
+ */
+export async function saveLocalSettings(settings: Partial<LocalSettings>): Promise<void> {
+  const entries: [string, string][] = [];
+  if (typeof settings.notifications_enabled === 'boolean') {
+    entries.push([STORAGE_KEYS.NOTIFICATIONS_ENABLED, JSON.stringify(settings.notifications_enabled)]);
+  }
+  if (typeof settings.dark_mode_enabled === 'boolean') {
+    entries.push([STORAGE_KEYS.DARK_MODE_ENABLED, JSON.stringify(settings.dark_mode_enabled)]);
+  }
+  if (settings.chart_view && CHART_VIEWS.some((view) => view.value === settings.chart_view)) {
+    entries.push([STORAGE_KEYS.CHART_VIEW, settings.chart_view]);
+  }
+  if (entries.length > 0) {
+    await AsyncStorage.multiSet(entries);
+  }
+}
+
 // ============================================================================
 // Styles
 // ============================================================================
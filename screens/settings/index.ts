@@ -8,16 +8,23 @@
 export {
   CurrencySelectionModal,
   LanguageSelectionModal,
+  CostBasisMethodModal,
   NotificationToggle,
   DarkModeToggle,
   ChartViewSelector,
   loadNotificationPreference,
   loadDarkModePreference,
   loadChartViewPreference,
+  loadLocalSettings,
+  saveLocalSettings,
 } from './SettingsModals';
+export type { LocalSettings } from './SettingsModals';
 
 // Data Export Modal
 export { DataExportModal } from './DataExportModal';
 
+// Backup and Restore Modal
+export { BackupRestoreModal } from './BackupRestoreModal';
+
 // Account Deletion Modal
 export { default as AccountDeletionModal } from './AccountDeletionModal';
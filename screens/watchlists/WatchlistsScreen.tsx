@@ -0,0 +1,802 @@
+/**
+ * Watchlists Screen
+ *
+ * Named lists of symbols followed without holding them. Symbols are found
+ * with the same directory search as ticker search, priced from live quotes
+ * and kept current by realtime price updates. From a watched symbol the
+ * user can set a price alert or add it to a portfolio.
+ */
+
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  FlatList,
+  ActivityIndicator,
+  RefreshControl,
+  Modal,
+  TextInput,
+  Alert,
+  Keyboard,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { RootStackScreenProps } from '@/navigation/types';
+import { alertService, portfolioService, watchlistService } from '@/services/api';
+import { symbolSearchService } from '@/services/symbolSearch';
+import {
+  cacheAlerts,
+  cacheWatchlists,
+  getCachedAlerts,
+  getCachedWatchlists,
+} from '@/services/offlineStorage';
+import type { PriceAlert, SymbolListing, Watchlist, WatchlistItem } from '@/services/offlineStorage';
+import { useRealtimePrices } from '@/hooks/useRealtimePrices';
+import { formatMoney } from '@/utils/currency';
+import { getAssetTypeInfo } from '@/utils/assetTypes';
+import { SEARCH_DEBOUNCE_MS, formatListing, getListingKey } from '@/utils/symbolSearch';
+import {
+  applyPriceUpdate,
+  getLatestPrice,
+  getSymbolAlerts,
+  getWatchedListings,
+  isWatched,
+  validateWatchlistName,
+  type WatchedPrice,
+} from '@/utils/watchlists';
+
+type Props = RootStackScreenProps<'Watchlists'>;
+
+interface PortfolioOption {
+  id: string;
+  name: string;
+}
+
+export default function WatchlistsScreen({ navigation }: Props) {
+  const [watchlists, setWatchlists] = useState<Watchlist[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [alerts, setAlerts] = useState<PriceAlert[]>([]);
+  const [portfolios, setPortfolios] = useState<PortfolioOption[]>([]);
+  const [quotes, setQuotes] = useState<Record<string, WatchedPrice>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Name modal, for creating and renaming lists
+  const [nameModalVisible, setNameModalVisible] = useState(false);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [listName, setListName] = useState('');
+
+  // Symbol search modal
+  const [searchVisible, setSearchVisible] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<SymbolListing[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const searchIdRef = useRef(0);
+
+  const selectedList = watchlists.find((watchlist) => watchlist.id === selectedId) ?? watchlists[0];
+  const watchedListings = useMemo(() => getWatchedListings(watchlists), [watchlists]);
+
+  const { symbolPrices, isConnected } = useRealtimePrices({
+    enabled: watchedListings.length > 0,
+    watch: watchedListings,
+  });
+
+  const loadWatchlists = useCallback(async () => {
+    try {
+      setError(null);
+      const [lists, alertsData, portfolioData] = await Promise.all([
+        watchlistService
+          .getWatchlists()
+          .then(async (remote) => {
+            await cacheWatchlists(remote);
+            return remote;
+          })
+          .catch(() => getCachedWatchlists()),
+        alertService
+          .getAlerts()
+          .then(async (remote) => {
+            await cacheAlerts(remote || []);
+            return remote || [];
+          })
+          .catch(() => getCachedAlerts()),
+        portfolioService.getPortfolios().catch(() => []),
+      ]);
+      setWatchlists(lists);
+      setAlerts(alertsData);
+      setPortfolios(portfolioData || []);
+    } catch (err) {
+      console.error('Failed to load watchlists:', err);
+      setError('Failed to load watchlists. Please try again.');
+    } finally {
+      setIsLoading(false);
+      setIsRefreshing(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadWatchlists();
+  }, [loadWatchlists]);
+
+  // Live quotes for the symbols on the open list, refetched when it changes
+  const selectedItems = useMemo(() => selectedList?.items ?? [], [selectedList]);
+  useEffect(() => {
+    selectedItems.forEach((item) => {
+      symbolSearchService
+        .getQuote(item)
+        .then((quote) => {
+          setQuotes((prev) =>
+            applyPriceUpdate(prev, [item], {
+              symbol: quote.symbol,
+              exchange: quote.exchange,
+              price: quote.price,
+              currency: quote.currency,
+              timestamp: quote.as_of,
+            })
+          );
+        })
+        .catch(() => {
+          // Keep the last price seen, if any
+        });
+    });
+  }, [selectedItems]);
+
+  useEffect(() => {
+    const searchId = ++searchIdRef.current;
+    const query = searchQuery.trim();
+
+    if (!query) {
+      setSearchResults([]);
+      setIsSearching(false);
+      return;
+    }
+
+    symbolSearchService.searchLocal(query, '').then((listings) => {
+      if (searchId === searchIdRef.current) setSearchResults(listings);
+    });
+
+    setIsSearching(true);
+    const timer = setTimeout(async () => {
+      const result = await symbolSearchService.search(query, '');
+      if (searchId !== searchIdRef.current) return;
+      setSearchResults(result.listings);
+      setIsSearching(false);
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  const handleRefresh = () => {
+    setIsRefreshing(true);
+    setQuotes({});
+    loadWatchlists();
+  };
+
+  const openNameModal = (watchlist?: Watchlist) => {
+    setRenamingId(watchlist?.id ?? null);
+    setListName(watchlist?.name ?? '');
+    setNameModalVisible(true);
+  };
+
+  const handleSaveName = async () => {
+    const validationError = validateWatchlistName(listName, watchlists, renamingId ?? undefined);
+    if (validationError) {
+      Alert.alert('Invalid Name', validationError);
+      return;
+    }
+
+    try {
+      const name = listName.trim();
+      if (renamingId) {
+        await watchlistService.renameWatchlist(renamingId, name);
+        setWatchlists((prev) => prev.map((w) => (w.id === renamingId ? { ...w, name } : w)));
+      } else {
+        const created = await watchlistService.createWatchlist(name);
+        setWatchlists((prev) => [...prev, created]);
+        setSelectedId(created.id);
+      }
+      setNameModalVisible(false);
+    } catch (err: any) {
+      Alert.alert('Error', err.message || 'Failed to save watchlist');
+    }
+  };
+
+  const handleListOptions = (watchlist: Watchlist) => {
+    Alert.alert(watchlist.name, undefined, [
+      { text: 'Rename', onPress: () => openNameModal(watchlist) },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await watchlistService.deleteWatchlist(watchlist.id);
+            setWatchlists((prev) => prev.filter((w) => w.id !== watchlist.id));
+            setSelectedId(null);
+          } catch (err: any) {
+            Alert.alert('Error', err.message || 'Failed to delete watchlist');
+          }
+        },
+      },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const handleAddSymbol = async (listing: SymbolListing) => {
+    if (!selectedList) return;
+    if (isWatched(selectedList, listing)) {
+      Alert.alert('Already Watched', `${formatListing(listing)} is already on ${selectedList.name}.`);
+      return;
+    }
+
+    Keyboard.dismiss();
+    try {
+      const item = await watchlistService.addSymbol(selectedList.id, listing);
+      setWatchlists((prev) =>
+        prev.map((w) => (w.id === selectedList.id ? { ...w, items: [...w.items, item] } : w))
+      );
+      setSearchVisible(false);
+      setSearchQuery('');
+    } catch (err: any) {
+      Alert.alert('Error', err.message || 'Failed to add symbol');
+    }
+  };
+
+  const handleRemoveSymbol = (item: WatchlistItem) => {
+    Alert.alert('Remove Symbol', `Remove ${item.symbol} from ${selectedList?.name}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await watchlistService.removeSymbol(item.id);
+            setWatchlists((prev) =>
+              prev.map((w) => (w.id === item.watchlist_id ? { ...w, items: w.items.filter((i) => i.id !== item.id) } : w))
+            );
+          } catch (err: any) {
+            Alert.alert('Error', err.message || 'Failed to remove symbol');
+          }
+        },
+      },
+    ]);
+  };
+
+  const getPrice = (item: WatchlistItem): WatchedPrice | undefined => {
+    const key = getListingKey(item);
+    return getLatestPrice(quotes[key], symbolPrices[key]);
+  };
+
+  const handleCreateAlert = (item: WatchlistItem) => {
+    navigation.navigate('CreateAlert', {
+      watchedSymbol: {
+        symbol: item.symbol,
+        name: item.name,
+        asset_type: item.asset_type,
+        exchange: item.exchange ?? undefined,
+        currency: item.currency ?? undefined,
+        current_price: getPrice(item)?.price,
+      },
+    });
+  };
+
+  const handleAddToPortfolio = (item: WatchlistItem) => {
+    const price = getPrice(item);
+    const openDetails = (portfolioId: string) => {
+      navigation.navigate('AddAsset', {
+        screen: 'AssetDetails',
+        params: {
+          portfolioId,
+          assetType: item.asset_type,
+          symbol: item.symbol,
+          name: item.name,
+          exchange: item.exchange ?? undefined,
+          currentPrice: price?.price,
+          currency: price?.currency ?? item.currency ?? undefined,
+          priceAsOf: price?.as_of,
+        },
+      });
+    };
+
+    if (portfolios.length === 0) {
+      Alert.alert('No Portfolio', 'Create a portfolio first to add holdings.');
+    } else if (portfolios.length === 1) {
+      openDetails(portfolios[0].id);
+    } else {
+      Alert.alert('Add to Portfolio', `Which portfolio should ${item.symbol} be added to?`, [
+        ...portfolios.map((portfolio) => ({ text: portfolio.name, onPress: () => openDetails(portfolio.id) })),
+        { text: 'Cancel', style: 'cancel' as const },
+      ]);
+    }
+  };
+
+  const renderItem = ({ item }: { item: WatchlistItem }) => {
+    const price = getPrice(item);
+    const alertCount = getSymbolAlerts(alerts, item).length;
+
+    return (
+      <TouchableOpacity
+        style={styles.itemCard}
+        onLongPress={() => handleRemoveSymbol(item)}
+        accessibilityHint="Long press to remove from the watchlist"
+      >
+        <View style={styles.itemInfo}>
+          <View style={styles.itemSymbolRow}>
+            <Text style={styles.itemSymbol}>{item.symbol}</Text>
+            {!!item.exchange && (
+              <View style={styles.exchangeBadge}>
+                <Text style={styles.exchangeText}>{item.exchange}</Text>
+              </View>
+            )}
+          </View>
+          <Text style={styles.itemName} numberOfLines={1}>
+            {item.name} · {getAssetTypeInfo(item.asset_type).label}
+          </Text>
+        </View>
+        <View style={styles.itemPrice}>
+          <Text style={styles.priceText}>
+            {price ? formatMoney(price.price, price.currency || item.currency || undefined) : '—'}
+          </Text>
+          {price && (
+            <Text style={styles.asOfText}>
+              {new Date(price.as_of).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })}
+            </Text>
+          )}
+        </View>
+        <TouchableOpacity
+          style={styles.iconButton}
+          onPress={() => handleCreateAlert(item)}
+          accessibilityRole="button"
+          accessibilityLabel={`Create alert for ${item.symbol}`}
+        >
+          <Ionicons name={alertCount > 0 ? 'notifications' : 'notifications-outline'} size={20} color="#0a7ea4" />
+          {alertCount > 0 && <Text style={styles.alertCount}>{alertCount}</Text>}
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.iconButton}
+          onPress={() => handleAddToPortfolio(item)}
+          accessibilityRole="button"
+          accessibilityLabel={`Add ${item.symbol} to a portfolio`}
+        >
+          <Ionicons name="add-circle-outline" size={22} color="#0a7ea4" />
+        </TouchableOpacity>
+      </TouchableOpacity>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#0a7ea4" />
+        <Text style={styles.loadingText}>Loading watchlists...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.headerButton} onPress={() => navigation.goBack()}>
+          <Ionicons name="close" size={24} color="#11181C" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Watchlists</Text>
+        <TouchableOpacity
+          style={[styles.headerButton, styles.headerButtonRight]}
+          onPress={() => setSearchVisible(true)}
+          disabled={!selectedList}
+          accessibilityLabel="Add symbol"
+        >
+          <Ionicons name="add" size={24} color={selectedList ? '#0a7ea4' : '#D1D5DB'} />
+        </TouchableOpacity>
+      </View>
+
+      {error && (
+        <View style={styles.errorBanner}>
+          <Text style={styles.errorText}>{error}</Text>
+          <TouchableOpacity onPress={loadWatchlists}>
+            <Text style={styles.retryText}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      <View>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+          {watchlists.map((watchlist) => (
+            <TouchableOpacity
+              key={watchlist.id}
+              style={[styles.chip, selectedList?.id === watchlist.id && styles.chipActive]}
+              onPress={() => setSelectedId(watchlist.id)}
+              onLongPress={() => handleListOptions(watchlist)}
+            >
+              <Text style={[styles.chipText, selectedList?.id === watchlist.id && styles.chipTextActive]}>
+                {watchlist.name} ({watchlist.items.length})
+              </Text>
+            </TouchableOpacity>
+          ))}
+          <TouchableOpacity style={styles.chip} onPress={() => openNameModal()}>
+            <Text style={styles.chipText}>+ New List</Text>
+          </TouchableOpacity>
+        </ScrollView>
+      </View>
+
+      {watchedListings.length > 0 && (
+        <Text style={styles.statusText}>
+          {isConnected ? 'Live prices' : 'Prices update when you refresh'}
+        </Text>
+      )}
+
+      <FlatList
+        data={selectedItems}
+        keyExtractor={(item) => item.id}
+        renderItem={renderItem}
+        contentContainerStyle={styles.listContent}
+        refreshControl={<RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} />}
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Ionicons name="eye-outline" size={48} color="#9CA3AF" />
+            <Text style={styles.emptyTitle}>
+              {selectedList ? 'No symbols yet' : 'No watchlists yet'}
+            </Text>
+            <Text style={styles.emptySubtitle}>
+              {selectedList
+                ? 'Search for a symbol to follow its price without holding it.'
+                : 'Create a list to follow symbols you do not own.'}
+            </Text>
+            <TouchableOpacity
+              style={styles.primaryButton}
+              onPress={() => (selectedList ? setSearchVisible(true) : openNameModal())}
+            >
+              <Text style={styles.primaryButtonText}>{selectedList ? 'Add Symbol' : 'New Watchlist'}</Text>
+            </TouchableOpacity>
+          </View>
+        }
+      />
+
+      {/* Watchlist Name */}
+      <Modal
+        visible={nameModalVisible}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setNameModalVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>{renamingId ? 'Rename Watchlist' : 'New Watchlist'}</Text>
+            <TextInput
+              style={styles.input}
+              value={listName}
+              onChangeText={setListName}
+              placeholder="e.g., Tech Stocks"
+              placeholderTextColor="#9CA3AF"
+              autoFocus
+            />
+            <View style={styles.modalButtons}>
+              <TouchableOpacity style={styles.modalButton} onPress={() => setNameModalVisible(false)}>
+                <Text style={styles.cancelText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.modalButton} onPress={handleSaveName}>
+                <Text style={styles.saveText}>Save</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      {/* Symbol Search */}
+      <Modal
+        visible={searchVisible}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setSearchVisible(false)}
+      >
+        <View style={styles.container}>
+          <View style={styles.header}>
+            <TouchableOpacity style={styles.headerButton} onPress={() => setSearchVisible(false)}>
+              <Text style={styles.cancelText}>Cancel</Text>
+            </TouchableOpacity>
+            <Text style={styles.headerTitle}>Add to {selectedList?.name}</Text>
+            <View style={styles.headerButton} />
+          </View>
+
+          <View style={styles.searchContainer}>
+            <Ionicons name="search" size={20} color="#9CA3AF" style={styles.searchIcon} />
+            <TextInput
+              style={styles.searchInput}
+              placeholder="Symbol or name (e.g., AAPL)"
+              value={searchQuery}
+              onChangeText={setSearchQuery}
+              autoCapitalize="characters"
+              autoCorrect={false}
+              placeholderTextColor="#9CA3AF"
+              returnKeyType="search"
+              autoFocus
+            />
+            {isSearching && <ActivityIndicator size="small" color="#0a7ea4" />}
+          </View>
+
+          <FlatList
+            data={searchResults}
+            keyExtractor={(item) => getListingKey(item)}
+            contentContainerStyle={styles.listContent}
+            keyboardShouldPersistTaps="handled"
+            renderItem={({ item }) => {
+              const watched = !!selectedList && isWatched(selectedList, item);
+              return (
+                <TouchableOpacity style={styles.itemCard} onPress={() => handleAddSymbol(item)} disabled={watched}>
+                  <View style={styles.itemInfo}>
+                    <Text style={styles.itemSymbol}>{formatListing(item)}</Text>
+                    <Text style={styles.itemName} numberOfLines={1}>
+                      {item.name} · {getAssetTypeInfo(item.asset_type).label}
+                    </Text>
+                  </View>
+                  <Ionicons
+                    name={watched ? 'checkmark-circle' : 'add-circle-outline'}
+                    size={22}
+                    color={watched ? '#10B981' : '#0a7ea4'}
+                  />
+                </TouchableOpacity>
+              );
+            }}
+            ListEmptyComponent={
+              searchQuery.trim() && !isSearching ? (
+                <Text style={styles.emptySubtitle}>No symbols found</Text>
+              ) : null
+            }
+          />
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F5F5',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F5F5F5',
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#687076',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 16,
+    paddingBottom: 12,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  headerButton: {
+    minWidth: 60,
+  },
+  headerButtonRight: {
+    alignItems: 'flex-end',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#11181C',
+  },
+  cancelText: {
+    fontSize: 16,
+    color: '#687076',
+  },
+  saveText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#0a7ea4',
+  },
+  errorBanner: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: '#FEE2E2',
+    padding: 12,
+    marginHorizontal: 16,
+    marginTop: 12,
+    borderRadius: 8,
+  },
+  errorText: {
+    color: '#DC2626',
+    flex: 1,
+  },
+  retryText: {
+    color: '#0a7ea4',
+    fontWeight: '600',
+    marginLeft: 12,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    backgroundColor: '#FFFFFF',
+  },
+  chipActive: {
+    borderColor: '#0a7ea4',
+    backgroundColor: '#0a7ea4',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#687076',
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  statusText: {
+    fontSize: 12,
+    color: '#9CA3AF',
+    marginHorizontal: 16,
+    marginTop: 8,
+  },
+  listContent: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  itemCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 8,
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  itemSymbolRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 2,
+  },
+  itemSymbol: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#11181C',
+  },
+  exchangeBadge: {
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 4,
+    backgroundColor: '#F3F4F6',
+  },
+  exchangeText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#687076',
+  },
+  itemName: {
+    fontSize: 13,
+    color: '#687076',
+  },
+  itemPrice: {
+    alignItems: 'flex-end',
+    marginHorizontal: 8,
+  },
+  priceText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#11181C',
+  },
+  asOfText: {
+    fontSize: 11,
+    color: '#9CA3AF',
+    marginTop: 2,
+  },
+  iconButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 6,
+  },
+  alertCount: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#0a7ea4',
+    marginLeft: 2,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 40,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#11181C',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptySubtitle: {
+    fontSize: 14,
+    color: '#687076',
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+  primaryButton: {
+    backgroundColor: '#0a7ea4',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+  },
+  primaryButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  modalContent: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 20,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#11181C',
+    marginBottom: 16,
+  },
+  input: {
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#11181C',
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 16,
+    marginTop: 20,
+  },
+  modalButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 4,
+  },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    marginHorizontal: 16,
+    marginTop: 16,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  searchIcon: {
+    marginRight: 8,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#11181C',
+  },
+});
@@ -0,0 +1 @@
+export { default as WatchlistsScreen } from './WatchlistsScreen';
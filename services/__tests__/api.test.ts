@@ -34,6 +34,18 @@ describe('API Service Layer', () => {
       expect(api.portfolio.updatePortfolio).toBeDefined();
       expect(api.portfolio.deletePortfolio).toBeDefined();
     });
+
+    it('should have cash flow and snapshot methods', () => {
+      expect(api.portfolio.getCashFlows).toBeDefined();
+      expect(api.portfolio.addCashFlow).toBeDefined();
+      expect(api.portfolio.deleteCashFlow).toBeDefined();
+      expect(api.portfolio.getSnapshots).toBeDefined();
+      expect(api.portfolio.saveSnapshots).toBeDefined();
+    });
+
+    it('should have allocation target methods', () => {
+      expect(api.portfolio.updateAllocationTargets).toBeDefined();
+    });
   });
 
   describe('Asset Service', () => {
@@ -44,6 +56,21 @@ describe('API Service Layer', () => {
       expect(api.asset.updateAsset).toBeDefined();
       expect(api.asset.deleteAsset).toBeDefined();
     });
+
+    it('should have transaction ledger methods', () => {
+      expect(api.asset.getTransactions).toBeDefined();
+      expect(api.asset.getTransactionsForAssets).toBeDefined();
+      expect(api.asset.addTransaction).toBeDefined();
+      expect(api.asset.updateTransaction).toBeDefined();
+      expect(api.asset.deleteTransaction).toBeDefined();
+      expect(api.asset.recalculatePosition).toBeDefined();
+    });
+
+    it('should have income methods', () => {
+      expect(api.asset.getIncomeEvents).toBeDefined();
+      expect(api.asset.addIncomeEvent).toBeDefined();
+      expect(api.asset.deleteIncomeEvent).toBeDefined();
+    });
   });
 
   describe('Price History Service', () => {
@@ -52,6 +79,19 @@ describe('API Service Layer', () => {
     });
   });
 
+  describe('Benchmark Service', () => {
+    it('should have benchmark methods', () => {
+      expect(api.benchmark.getPriceHistory).toBeDefined();
+    });
+  });
+
+  describe('Symbol Directory Service', () => {
+    it('should have search and quote methods', () => {
+      expect(api.symbolDirectory.search).toBeDefined();
+      expect(api.symbolDirectory.getQuote).toBeDefined();
+    });
+  });
+
   describe('Alert Service', () => {
     it('should have all alert methods', () => {
       expect(api.alert.getAlerts).toBeDefined();
@@ -0,0 +1,87 @@
+import { realtimeService } from '../api';
+import { priceChannels } from '../priceChannels';
+
+jest.mock('../api', () => ({
+  realtimeService: {
+    subscribeToPriceUpdates: jest.fn(),
+    unsubscribe: jest.fn(),
+  },
+}));
+
+const subscribeToPriceUpdates = realtimeService.subscribeToPriceUpdates as jest.Mock;
+const unsubscribe = realtimeService.unsubscribe as jest.Mock;
+
+type StatusCallback = (status: string) => void;
+
+/** Channels handed out by the mocked service, with their price and status callbacks */
+let opened: { channel: object; onPrice: (payload: unknown) => void; onStatus: StatusCallback }[];
+
+function subscriber() {
+  return { onPrice: jest.fn(), onStatus: jest.fn() };
+}
+
+describe('Price Channels', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    opened = [];
+    subscribeToPriceUpdates.mockReset().mockImplementation((_listing, onPrice, onStatus) => {
+      const channel = {};
+      opened.push({ channel, onPrice, onStatus });
+      return channel;
+    });
+    // Removing a channel reports its close right away
+    unsubscribe.mockReset().mockImplementation((channel: object) => {
+      opened.find((entry) => entry.channel === channel)?.onStatus('CLOSED');
+    });
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  it('should share one channel between subscribers and fan prices out to each', () => {
+    const first = subscriber();
+    const second = subscriber();
+    const leaveFirst = priceChannels.subscribe({ symbol: 'AAPL' }, first);
+    const leaveSecond = priceChannels.subscribe({ symbol: 'AAPL' }, second);
+    expect(subscribeToPriceUpdates).toHaveBeenCalledTimes(1);
+
+    opened[0].onStatus('SUBSCRIBED');
+    expect(priceChannels.getState('price-updates:AAPL').joined).toBe(true);
+    expect(second.onStatus).toHaveBeenCalled();
+
+    opened[0].onPrice({ payload: { symbol: 'AAPL', price: 10 } });
+    expect(first.onPrice).toHaveBeenCalledTimes(1);
+    expect(second.onPrice).toHaveBeenCalledTimes(1);
+
+    leaveFirst();
+    expect(unsubscribe).not.toHaveBeenCalled();
+    leaveSecond();
+    expect(unsubscribe).toHaveBeenCalledTimes(1);
+    expect(priceChannels.getState('price-updates:AAPL').joined).toBe(false);
+  });
+
+  it('should rejoin a dropped channel once, even when dropping it reports a close', () => {
+    const leave = priceChannels.subscribe({ symbol: 'MSFT' }, subscriber());
+    opened[0].onStatus('CHANNEL_ERROR');
+    expect(priceChannels.getState('price-updates:MSFT').error).toBe('Failed to connect to price updates');
+
+    jest.advanceTimersByTime(60000);
+    expect(subscribeToPriceUpdates).toHaveBeenCalledTimes(2);
+
+    opened[1].onStatus('SUBSCRIBED');
+    expect(priceChannels.getState('price-updates:MSFT')).toEqual({ joined: true, error: null });
+    leave();
+  });
+
+  it('should rejoin right away on reconnect without retrying the replaced channel', () => {
+    const leave = priceChannels.subscribe({ symbol: 'BTC' }, subscriber());
+    opened[0].onStatus('SUBSCRIBED');
+    priceChannels.reconnect('price-updates:BTC');
+    expect(subscribeToPriceUpdates).toHaveBeenCalledTimes(2);
+
+    jest.advanceTimersByTime(60000);
+    expect(subscribeToPriceUpdates).toHaveBeenCalledTimes(2);
+
+    leave();
+    expect(unsubscribe).toHaveBeenCalledTimes(2);
+  });
+});
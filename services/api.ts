@@ -1,11 +1,54 @@
 import { supabase } from './supabase';
 import type { User, Session } from '@supabase/supabase-js';
+import type {
+  AlertCondition,
+  AlertFrequency,
+  AlertTrigger,
+  AllocationTargets,
+  AssetTransaction,
+  BenchmarkPrice,
+  CashFlowType,
+  CostBasisMethod,
+  FxRateTable,
+  IncomeEvent,
+  IncomeType,
+  Liability,
+  PortfolioAlertRule,
+  PortfolioCashFlow,
+  PortfolioSnapshot,
+  SymbolListing,
+  Watchlist,
+  WatchlistItem,
+} from './offlineStorage';
+import { DEFAULT_COST_BASIS_METHOD, derivePosition, type TransactionInput } from '../utils/ledger';
+import type { LiabilityInput } from '../utils/liabilities';
+import { getPriceTopic } from '../utils/realtimeSubscriptions';
 
 /**
  * API Service Layer
  * Provides typed methods for interacting with Supabase backend
  */
 
+/** Most rows the server returns for one request */
+const PAGE_SIZE = 1000;
+
+/**
+ * Fetch every row of a query a page at a time, so rows past the server's
+ * row limit are not silently cut off
+ * The query must be ordered down to a unique column so pages do not overlap.
+ */
+async function fetchAllRows<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
 // ============================================================================
 // Authentication Services
 // ============================================================================
@@ -114,10 +157,10 @@ export const portfolioService = {
   /**
    * Create a new portfolio
    */
-  async createPortfolio(name: string) {
+  async createPortfolio(name: string, benchmarkSymbols?: string[]) {
     const { data, error } = await supabase
       .from('portfolios')
-      .insert({ name })
+      .insert({ name, ...(benchmarkSymbols && { benchmark_symbols: benchmarkSymbols }) })
       .select()
       .single();
     
@@ -126,12 +169,27 @@ export const portfolioService = {
   },
 
   /**
-   * Update a portfolio
+   * Update a portfolio, and its benchmarks when given
    */
-  async updatePortfolio(portfolioId: string, name: string) {
+  async updatePortfolio(portfolioId: string, name: string, benchmarkSymbols?: string[]) {
     const { data, error } = await supabase
       .from('portfolios')
-      .update({ name })
+      .update({ name, ...(benchmarkSymbols && { benchmark_symbols: benchmarkSymbols }) })
+      .eq('id', portfolioId)
+      .select()
+      .single();
+    
+    if (error) throw error;
+    return data;
+  },
+
+  /**
+   * Save a portfolio's target allocation and drift bands
+   */
+  async updateAllocationTargets(portfolioId: string, allocationTargets: AllocationTargets) {
+    const { data, error } = await supabase
+      .from('portfolios')
+      .update({ allocation_targets: allocationTargets })
       .eq('id', portfolioId)
       .select()
       .single();
@@ -151,6 +209,91 @@ export const portfolioService = {
     
     if (error) throw error;
   },
+
+  /**
+   * Get contributions and withdrawals for the given portfolios
+   */
+  async getCashFlows(portfolioIds: string[]): Promise<PortfolioCashFlow[]> {
+    if (portfolioIds.length === 0) return [];
+
+    return fetchAllRows<PortfolioCashFlow>((from, to) =>
+      supabase
+        .from('portfolio_cash_flows')
+        .select('*')
+        .in('portfolio_id', portfolioIds)
+        .order('flow_date', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, to)
+    );
+  },
+
+  /**
+   * Record a contribution or withdrawal against a portfolio
+   */
+  async addCashFlow(portfolioId: string, cashFlow: {
+    flow_type: CashFlowType;
+    amount: number;
+    flow_date: string;
+    notes?: string;
+  }): Promise<PortfolioCashFlow> {
+    const { data, error } = await supabase
+      .from('portfolio_cash_flows')
+      .insert({ ...cashFlow, portfolio_id: portfolioId })
+      .select()
+      .single();
+    
+    if (error) throw error;
+    return data;
+  },
+
+  /**
+   * Delete a contribution or withdrawal
+   */
+  async deleteCashFlow(cashFlowId: string) {
+    const { error } = await supabase
+      .from('portfolio_cash_flows')
+      .delete()
+      .eq('id', cashFlowId);
+    
+    if (error) throw error;
+  },
+
+  /**
+   * Get daily value snapshots for the given portfolios, oldest first
+   */
+  async getSnapshots(portfolioIds: string[], since?: string): Promise<PortfolioSnapshot[]> {
+    if (portfolioIds.length === 0) return [];
+
+    return fetchAllRows<PortfolioSnapshot>((from, to) => {
+      let query = supabase
+        .from('portfolio_snapshots')
+        .select('portfolio_id, snapshot_date, total_value, currency, created_at')
+        .in('portfolio_id', portfolioIds);
+
+      if (since) {
+        query = query.gte('snapshot_date', since);
+      }
+
+      return query
+        .order('snapshot_date', { ascending: true })
+        .order('portfolio_id', { ascending: true })
+        .range(from, to);
+    });
+  },
+
+  /**
+   * Store daily value snapshots, replacing any existing snapshot for the
+   * same portfolio and day
+   */
+  async saveSnapshots(snapshots: PortfolioSnapshot[]) {
+    if (snapshots.length === 0) return;
+
+    const { error } = await supabase
+      .from('portfolio_snapshots')
+      .upsert(snapshots, { onConflict: 'portfolio_id,snapshot_date' });
+    
+    if (error) throw error;
+  },
 };
 
 // ============================================================================
@@ -198,6 +341,7 @@ export const assetService = {
     purchase_price: number;
     purchase_date: string;
     current_price?: number;
+    currency?: string;
     metadata?: Record<string, any>;
   }) {
     const { data, error } = await supabase
@@ -207,6 +351,29 @@ export const assetService = {
       .single();
     
     if (error) throw error;
+
+    // Record the opening position as the first entry in the ledger
+    if (assetData.quantity > 0) {
+      const { error: ledgerError } = await supabase
+        .from('asset_transactions')
+        .insert({
+          asset_id: data.id,
+          transaction_type: 'buy',
+          quantity: assetData.quantity,
+          price: assetData.purchase_price,
+          fees: 0,
+          transaction_date: assetData.purchase_date,
+        });
+
+      if (ledgerError) {
+        // An asset without its opening lot would be valued from the ledger
+        // as empty, so it is removed again rather than left behind
+        const { error: rollbackError } = await supabase.from('assets').delete().eq('id', data.id);
+        if (rollbackError) console.error('Failed to remove asset without opening lot:', rollbackError);
+        throw ledgerError;
+      }
+    }
+
     return data;
   },
 
@@ -219,6 +386,7 @@ export const assetService = {
     purchase_price: number;
     purchase_date: string;
     current_price: number;
+    currency: string;
     metadata: Record<string, any>;
   }>) {
     const { data, error } = await supabase
@@ -243,6 +411,221 @@ export const assetService = {
     
     if (error) throw error;
   },
+
+  /**
+   * Get the transaction ledger for an asset, oldest first
+   */
+  async getTransactions(assetId: string): Promise<AssetTransaction[]> {
+    const { data, error } = await supabase
+      .from('asset_transactions')
+      .select('*')
+      .eq('asset_id', assetId)
+      .order('transaction_date', { ascending: true })
+      .order('created_at', { ascending: true });
+    
+    if (error) throw error;
+    return data;
+  },
+
+  /**
+   * Get the transaction ledgers for several assets at once
+   */
+  async getTransactionsForAssets(assetIds: string[]): Promise<AssetTransaction[]> {
+    if (assetIds.length === 0) return [];
+
+    return fetchAllRows<AssetTransaction>((from, to) =>
+      supabase
+        .from('asset_transactions')
+        .select('*')
+        .in('asset_id', assetIds)
+        .order('transaction_date', { ascending: true })
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, to)
+    );
+  },
+
+  /**
+   * Record a buy, sell or transfer and update the derived position
+   */
+  async addTransaction(assetId: string, transaction: TransactionInput): Promise<AssetTransaction> {
+    const { data, error } = await supabase
+      .from('asset_transactions')
+      .insert({ ...transaction, asset_id: assetId })
+      .select()
+      .single();
+    
+    if (error) throw error;
+
+    await this.recalculatePosition(assetId);
+    return data;
+  },
+
+  /**
+   * Update a transaction and the derived position
+   */
+  async updateTransaction(
+    assetId: string,
+    transactionId: string,
+    updates: Partial<TransactionInput>
+  ): Promise<AssetTransaction> {
+    const { data, error } = await supabase
+      .from('asset_transactions')
+      .update(updates)
+      .eq('id', transactionId)
+      .select()
+      .single();
+    
+    if (error) throw error;
+
+    await this.recalculatePosition(assetId);
+    return data;
+  },
+
+  /**
+   * Delete a transaction and update the derived position
+   */
+  async deleteTransaction(assetId: string, transactionId: string) {
+    const { error } = await supabase
+      .from('asset_transactions')
+      .delete()
+      .eq('id', transactionId);
+    
+    if (error) throw error;
+
+    await this.recalculatePosition(assetId);
+  },
+
+  /**
+   * Re-derive quantity and average cost from the ledger and store them on
+   * the asset, so screens that read the asset row directly stay correct.
+   * Sales consume lots by the user's cost-basis method.
+   */
+  async recalculatePosition(assetId: string) {
+    const [transactions, method] = await Promise.all([
+      this.getTransactions(assetId),
+      profileService
+        .getProfile()
+        .then((profile) => (profile?.cost_basis_method as CostBasisMethod | null) || DEFAULT_COST_BASIS_METHOD)
+        .catch(() => DEFAULT_COST_BASIS_METHOD),
+    ]);
+    const position = derivePosition(transactions, method);
+
+    return this.updateAsset(assetId, {
+      quantity: position.quantity,
+      purchase_price: position.averageCost,
+      ...(position.firstAcquiredDate && { purchase_date: position.firstAcquiredDate }),
+    });
+  },
+
+  /**
+   * Get dividends, interest, rent and other income paid by the given assets
+   */
+  async getIncomeEvents(assetIds: string[]): Promise<IncomeEvent[]> {
+    if (assetIds.length === 0) return [];
+
+    return fetchAllRows<IncomeEvent>((from, to) =>
+      supabase
+        .from('income_events')
+        .select('*')
+        .in('asset_id', assetIds)
+        .order('payment_date', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, to)
+    );
+  },
+
+  /**
+   * Record income received from an asset
+   */
+  async addIncomeEvent(assetId: string, incomeEvent: {
+    income_type: IncomeType;
+    amount: number;
+    currency: string;
+    payment_date: string;
+    notes?: string;
+  }): Promise<IncomeEvent> {
+    const { data, error } = await supabase
+      .from('income_events')
+      .insert({ ...incomeEvent, asset_id: assetId })
+      .select()
+      .single();
+    
+    if (error) throw error;
+    return data;
+  },
+
+  /**
+   * Delete a recorded income payment
+   */
+  async deleteIncomeEvent(incomeEventId: string) {
+    const { error } = await supabase
+      .from('income_events')
+      .delete()
+      .eq('id', incomeEventId);
+    
+    if (error) throw error;
+  },
+};
+
+// ============================================================================
+// Liability Services
+// ============================================================================
+
+export const liabilityService = {
+  /**
+   * Get all liabilities for the current user
+   */
+  async getLiabilities(): Promise<Liability[]> {
+    const { data, error } = await supabase
+      .from('liabilities')
+      .select('*')
+      .order('created_at', { ascending: true });
+    
+    if (error) throw error;
+    return data || [];
+  },
+
+  /**
+   * Record a new loan, credit line or mortgage
+   */
+  async createLiability(liability: LiabilityInput): Promise<Liability> {
+    const { data, error } = await supabase
+      .from('liabilities')
+      .insert(liability)
+      .select()
+      .single();
+    
+    if (error) throw error;
+    return data;
+  },
+
+  /**
+   * Update a liability, e.g. with a new balance from a statement
+   */
+  async updateLiability(liabilityId: string, updates: Partial<LiabilityInput>): Promise<Liability> {
+    const { data, error } = await supabase
+      .from('liabilities')
+      .update(updates)
+      .eq('id', liabilityId)
+      .select()
+      .single();
+    
+    if (error) throw error;
+    return data;
+  },
+
+  /**
+   * Delete a liability
+   */
+  async deleteLiability(liabilityId: string) {
+    const { error } = await supabase
+      .from('liabilities')
+      .delete()
+      .eq('id', liabilityId);
+    
+    if (error) throw error;
+  },
 };
 
 // ============================================================================
@@ -293,6 +676,224 @@ export const priceHistoryService = {
     if (error) throw error;
     return data;
   },
+
+  /**
+   * Get the price history of several assets in one query, in full or since a time
+   */
+  async getPriceHistoryForAssets(
+    assetIds: string[],
+    since?: string
+  ): Promise<{ asset_id: string; price: number; timestamp: string }[]> {
+    if (assetIds.length === 0) return [];
+
+    return fetchAllRows((from, to) => {
+      let query = supabase
+        .from('price_history')
+        .select('asset_id, price, timestamp')
+        .in('asset_id', assetIds);
+
+      if (since) {
+        query = query.gte('timestamp', since);
+      }
+
+      return query
+        .order('timestamp', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, to);
+    });
+  },
+
+  /**
+   * Get the last recorded price before today for each asset
+   * Assets without history in the past week are omitted
+   */
+  async getPreviousCloses(assetIds: string[]): Promise<Record<string, number>> {
+    if (assetIds.length === 0) return {};
+
+    const startOfToday = new Date();
+    startOfToday.setHours(0, 0, 0, 0);
+    const lookbackStart = new Date(startOfToday.getTime() - 7 * 24 * 60 * 60 * 1000);
+
+    const rows = await fetchAllRows<{ asset_id: string; price: number }>((from, to) =>
+      supabase
+        .from('price_history')
+        .select('asset_id, price, timestamp')
+        .in('asset_id', assetIds)
+        .lt('timestamp', startOfToday.toISOString())
+        .gte('timestamp', lookbackStart.toISOString())
+        .order('timestamp', { ascending: false })
+        .order('id', { ascending: false })
+        .range(from, to)
+    );
+
+    // Rows are newest first, so the first row per asset is its previous close
+    const closes: Record<string, number> = {};
+    rows.forEach((row) => {
+      if (closes[row.asset_id] === undefined) {
+        closes[row.asset_id] = row.price;
+      }
+    });
+    return closes;
+  },
+
+  /**
+   * Get the latest recorded price of each asset, with when it was recorded
+   * Assets without history in the past week are omitted
+   */
+  async getLatestPrices(assetIds: string[]): Promise<{ asset_id: string; price: number; timestamp: string }[]> {
+    if (assetIds.length === 0) return [];
+
+    const lookbackStart = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+
+    const rows = await fetchAllRows<{ asset_id: string; price: number; timestamp: string }>((from, to) =>
+      supabase
+        .from('price_history')
+        .select('asset_id, price, timestamp')
+        .in('asset_id', assetIds)
+        .gte('timestamp', lookbackStart.toISOString())
+        .order('timestamp', { ascending: false })
+        .order('id', { ascending: false })
+        .range(from, to)
+    );
+
+    // Rows are newest first, so the first row per asset is its latest price
+    const seen = new Set<string>();
+    return rows.filter((row) => {
+      if (seen.has(row.asset_id)) return false;
+      seen.add(row.asset_id);
+      return true;
+    });
+  },
+
+  /**
+   * Record a price for an asset at a point in time, e.g. a manual valuation
+   */
+  async addPrice(assetId: string, price: number, timestamp: string) {
+    const { data, error } = await supabase
+      .from('price_history')
+      .insert({ asset_id: assetId, price, timestamp })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+};
+
+// ============================================================================
+// Benchmark Services
+// ============================================================================
+
+export const benchmarkService = {
+  /**
+   * Get the daily closes of benchmark symbols, oldest first
+   */
+  async getPriceHistory(symbols: string[], since?: string): Promise<BenchmarkPrice[]> {
+    if (symbols.length === 0) return [];
+
+    return fetchAllRows<BenchmarkPrice>((from, to) => {
+      let query = supabase
+        .from('benchmark_prices')
+        .select('symbol, price, price_date')
+        .in('symbol', symbols);
+
+      if (since) {
+        query = query.gte('price_date', since);
+      }
+
+      return query
+        .order('price_date', { ascending: true })
+        .order('symbol', { ascending: true })
+        .range(from, to);
+    });
+  },
+};
+
+// ============================================================================
+// Symbol Directory Services
+// ============================================================================
+
+export const symbolDirectoryService = {
+  /**
+   * Search listed symbols by ticker or name, optionally for one asset type
+   */
+  async search(query: string, assetType?: string, limit: number = 25): Promise<SymbolListing[]> {
+    const term = query.trim().replace(/[%,()]/g, '');
+    if (!term) return [];
+
+    let request = supabase
+      .from('symbol_directory')
+      .select('symbol, name, asset_type, exchange, currency')
+      .or(`symbol.ilike.${term}%,name.ilike.%${term}%`)
+      .limit(limit);
+
+    if (assetType) {
+      request = request.eq('asset_type', assetType);
+    }
+
+    const { data, error } = await request;
+    
+    if (error) throw error;
+    return (data || []).map((row: SymbolListing & { exchange: string | null; currency: string | null }) => ({
+      symbol: row.symbol,
+      name: row.name,
+      asset_type: row.asset_type,
+      ...(row.exchange && { exchange: row.exchange }),
+      ...(row.currency && { currency: row.currency }),
+    }));
+  },
+
+  /**
+   * Get the live price of a symbol on an exchange from the price handler
+   * Responds with { symbol, price, currency, timestamp }
+   */
+  async getQuote(symbol: string, assetType: string, exchange?: string) {
+    const { data, error } = await supabase.functions.invoke('stock-price-handler', {
+      body: { symbol, asset_type: assetType, ...(exchange && { exchange }) },
+    });
+    
+    if (error) throw error;
+    return data;
+  },
+};
+
+// ============================================================================
+// FX Rate Services
+// ============================================================================
+
+export const fxRateService = {
+  /**
+   * Get the USD-based rate table for a date (defaults to today)
+   * Each currency uses its latest rate on or before the date, within a week
+   */
+  async getRates(date?: string): Promise<FxRateTable> {
+    const day = date || new Date().toISOString().slice(0, 10);
+    const lookbackStart = new Date(new Date(day).getTime() - 7 * 24 * 60 * 60 * 1000);
+
+    const { data, error } = await supabase
+      .from('fx_rates')
+      .select('currency, rate, rate_date')
+      .lte('rate_date', day)
+      .gte('rate_date', lookbackStart.toISOString().slice(0, 10))
+      .order('rate_date', { ascending: false });
+    
+    if (error) throw error;
+
+    // Rows are newest first, so the first row per currency is the one in effect
+    const rates: Record<string, number> = {};
+    (data || []).forEach((row: { currency: string; rate: number }) => {
+      if (rates[row.currency] === undefined) {
+        rates[row.currency] = row.rate;
+      }
+    });
+
+    return {
+      base: 'USD',
+      date: day,
+      rates,
+      fetched_at: new Date().toISOString(),
+    };
+  },
 };
 
 // ============================================================================
@@ -317,10 +918,19 @@ export const alertService = {
    * Create a new alert
    */
   async createAlert(alertData: {
-    asset_id: string;
+    /** Omitted for an alert on a watched symbol, identified by symbol instead */
+    asset_id?: string | null;
+    symbol?: string | null;
+    exchange?: string | null;
+    asset_type?: string | null;
+    /** Set instead of an asset or symbol for a portfolio-level alert */
+    portfolio_id?: string | null;
     alert_type: string;
     condition_value: number;
+    condition?: AlertCondition | null;
+    portfolio_rule?: PortfolioAlertRule | null;
     is_active: boolean;
+    frequency?: AlertFrequency;
   }) {
     const { data, error } = await supabase
       .from('alerts')
@@ -337,7 +947,12 @@ export const alertService = {
    */
   async updateAlert(alertId: string, updates: Partial<{
     condition_value: number;
+    condition: AlertCondition | null;
+    portfolio_rule: PortfolioAlertRule | null;
     is_active: boolean;
+    frequency: AlertFrequency;
+    snoozed_until: string | null;
+    triggered_at: string | null;
   }>) {
     const { data, error } = await supabase
       .from('alerts')
@@ -361,6 +976,128 @@ export const alertService = {
     
     if (error) throw error;
   },
+
+  /**
+   * Get the times an alert fired, newest first
+   */
+  async getTriggers(alertId: string, limit: number = 50): Promise<AlertTrigger[]> {
+    const { data, error } = await supabase
+      .from('alert_triggers')
+      .select('*')
+      .eq('alert_id', alertId)
+      .order('triggered_at', { ascending: false })
+      .limit(limit);
+    
+    if (error) throw error;
+    return data || [];
+  },
+
+  /**
+   * Record that the notification for a trigger was opened on this device
+   */
+  async markTriggerOpened(triggerId: string) {
+    const { error } = await supabase
+      .from('alert_triggers')
+      .update({ delivery_status: 'opened', opened_at: new Date().toISOString() })
+      .eq('id', triggerId);
+    
+    if (error) throw error;
+  },
+};
+
+// ============================================================================
+// Watchlist Services
+// ============================================================================
+
+export const watchlistService = {
+  /**
+   * Get all watchlists for the current user with their symbols
+   */
+  async getWatchlists(): Promise<Watchlist[]> {
+    const { data, error } = await supabase
+      .from('watchlists')
+      .select('*, items:watchlist_items(*)')
+      .order('created_at', { ascending: true });
+    
+    if (error) throw error;
+    return (data || []).map((watchlist: any) => ({
+      ...watchlist,
+      items: [...(watchlist.items || [])].sort((a: WatchlistItem, b: WatchlistItem) =>
+        a.created_at.localeCompare(b.created_at)
+      ),
+    }));
+  },
+
+  /**
+   * Create an empty watchlist
+   */
+  async createWatchlist(name: string): Promise<Watchlist> {
+    const { data, error } = await supabase
+      .from('watchlists')
+      .insert({ name })
+      .select()
+      .single();
+    
+    if (error) throw error;
+    return { ...data, items: [] };
+  },
+
+  /**
+   * Rename a watchlist
+   */
+  async renameWatchlist(watchlistId: string, name: string) {
+    const { error } = await supabase
+      .from('watchlists')
+      .update({ name })
+      .eq('id', watchlistId);
+    
+    if (error) throw error;
+  },
+
+  /**
+   * Delete a watchlist and its symbols
+   */
+  async deleteWatchlist(watchlistId: string) {
+    const { error } = await supabase
+      .from('watchlists')
+      .delete()
+      .eq('id', watchlistId);
+    
+    if (error) throw error;
+  },
+
+  /**
+   * Add a symbol from the symbol directory to a watchlist
+   */
+  async addSymbol(watchlistId: string, listing: SymbolListing): Promise<WatchlistItem> {
+    const { data, error } = await supabase
+      .from('watchlist_items')
+      .insert({
+        watchlist_id: watchlistId,
+        symbol: listing.symbol,
+        name: listing.name,
+        asset_type: listing.asset_type,
+        exchange: listing.exchange ?? null,
+        currency: listing.currency ?? null,
+      })
+      .select()
+      .single();
+    
+    if (error) throw error;
+    return data;
+  },
+
+  /**
+   * Remove a symbol from a watchlist
+   */
+  async removeSymbol(itemId: string) {
+    const { error } = await supabase
+      .from('watchlist_items')
+      .delete()
+      .eq('id', itemId);
+    
+    if (error) throw error;
+  },
 };
 
 // ============================================================================
@@ -463,6 +1200,7 @@ export const profileService = {
     phone: string;
     currency_preference: string;
     language_preference: string;
+    cost_basis_method: CostBasisMethod;
     avatar_url: string;
   }>) {
     const { data, error } = await supabase
@@ -562,13 +1300,17 @@ export const subscriptionService = {
 
 export const realtimeService = {
   /**
-   * Subscribe to price updates for user's assets
+   * Subscribe to price updates for one listing, e.g. a held or watched symbol
    */
-  subscribeToPriceUpdates(callback: (payload: any) => void) {
+  subscribeToPriceUpdates(
+    listing: Pick<SymbolListing, 'symbol' | 'exchange'>,
+    callback: (payload: any) => void,
+    onStatus?: (status: string, error?: Error) => void
+  ) {
     return supabase
-      .channel('price-updates')
+      .channel(getPriceTopic(listing))
       .on('broadcast', { event: 'price-update' }, callback)
-      .subscribe();
+      .subscribe(onStatus);
   },
 
   /**
@@ -584,8 +1326,13 @@ export default {
   auth: authService,
   portfolio: portfolioService,
   asset: assetService,
+  liability: liabilityService,
   priceHistory: priceHistoryService,
+  benchmark: benchmarkService,
+  symbolDirectory: symbolDirectoryService,
+  fxRate: fxRateService,
   alert: alertService,
+  watchlist: watchlistService,
   insights: insightsService,
   chat: chatService,
   profile: profileService,
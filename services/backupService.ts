@@ -0,0 +1,350 @@
+/**
+ * Backup Service
+ *
+ * Creates account backups from the server (falling back to the offline cache)
+ * and restores them by recreating portfolios, assets, their ledgers and
+ * history, watchlists, liabilities and alerts through the API. See
+ * utils/backup for the file format.
+ */
+
+import {
+  alertService,
+  assetService,
+  liabilityService,
+  portfolioService,
+  priceHistoryService,
+  profileService,
+  watchlistService,
+} from './api';
+import { offlineStorage } from './offlineStorage';
+import {
+  createBackup,
+  planRestore,
+  remapAllocationTargets,
+  type AccountBackup,
+  type BackupSettings,
+  type RestoreMode,
+} from '../utils/backup';
+
+export interface RestoreResult {
+  portfolios: number;
+  assets: number;
+  transactions: number;
+  watchlists: number;
+  liabilities: number;
+  alerts: number;
+  skippedAssets: number;
+  skippedAlerts: number;
+  skippedWatchlists: number;
+  skippedLiabilities: number;
+}
+
+export interface BackupResult {
+  backup: AccountBackup;
+  /** Parts of the account that could not be read and are missing from the backup */
+  warnings: string[];
+}
+
+/** Called after each record is written, with the number done and the total */
+export type RestoreProgress = (done: number, total: number) => void;
+
+// ============================================================================
+// Backup Service
+// ============================================================================
+
+export const backupService = {
+  /**
+   * Back up the account together with the given local settings
+   */
+  async createBackup(settings: BackupSettings): Promise<BackupResult> {
+    const warnings: string[] = [];
+
+    const portfolios = await portfolioService
+      .getPortfolios()
+      .then(async (remote) => {
+        await offlineStorage.cachePortfolios(remote || []);
+        return remote || [];
+      })
+      .catch(async () => (await offlineStorage.getCachedPortfolios()) || []);
+
+    const assetLists = await Promise.all(
+      portfolios.map((p: { id: string }) =>
+        assetService
+          .getAssets(p.id)
+          .then(async (remote) => {
+            await offlineStorage.cacheAssets(p.id, remote || []);
+            return remote || [];
+          })
+          .catch(() => offlineStorage.getCachedAssets(p.id))
+      )
+    );
+    const assets = assetLists.flat();
+    const portfolioIds = portfolios.map((p: { id: string }) => p.id);
+    const assetIds = assets.map((a) => a.id);
+    // Assets with a market symbol are priced again after a restore
+    const valuedAssetIds = assets.filter((a) => !a.symbol).map((a) => a.id);
+
+    const [transactions, cashFlows, incomeEvents, snapshots, valuations, watchlists, liabilities, alerts, profile] =
+      await Promise.all([
+        assetService
+          .getTransactionsForAssets(assetIds)
+          .then((remote) => remote || [])
+          .catch(async () =>
+            ((await offlineStorage.getTransactions()) || []).filter((t) => assetIds.includes(t.asset_id))
+          ),
+        portfolioService
+          .getCashFlows(portfolioIds)
+          .catch(() => offlineStorage.getCachedCashFlows(portfolioIds)),
+        assetService
+          .getIncomeEvents(assetIds)
+          .catch(() => offlineStorage.getCachedIncomeEvents(assetIds)),
+        portfolioService
+          .getSnapshots(portfolioIds)
+          .catch(() => offlineStorage.getCachedSnapshots(portfolioIds)),
+        // Valuations are not cached, so an offline backup is made without them
+        priceHistoryService.getPriceHistoryForAssets(valuedAssetIds).catch(() => {
+          warnings.push('Manual valuations could not be loaded while offline and are not included');
+          return [];
+        }),
+        watchlistService.getWatchlists().catch(() => offlineStorage.getCachedWatchlists()),
+        liabilityService.getLiabilities().catch(() => offlineStorage.getCachedLiabilities()),
+        alertService
+          .getAlerts()
+          .then(async (remote) => {
+            await offlineStorage.cacheAlerts(remote || []);
+            return remote || [];
+          })
+          .catch(() => offlineStorage.getCachedAlerts()),
+        profileService.getProfile().catch(() => offlineStorage.getUserProfile()),
+      ]);
+
+    const backup = createBackup({
+      portfolios,
+      assets,
+      transactions,
+      cash_flows: cashFlows,
+      income_events: incomeEvents,
+      snapshots,
+      valuations,
+      watchlists,
+      liabilities,
+      alerts,
+      preferences: {
+        currency_preference: profile?.currency_preference ?? undefined,
+        language_preference: profile?.language_preference ?? undefined,
+        cost_basis_method: profile?.cost_basis_method ?? undefined,
+      },
+      settings,
+    });
+    return { backup, warnings };
+  },
+
+  /**
+   * Restore a validated backup into the signed-in account.
+   * Everything in the backup is created before anything is deleted, so a
+   * failed restore leaves the existing records in place.
+   * Local settings are not touched here; the caller applies backup.settings.
+   */
+  async restoreBackup(
+    backup: AccountBackup,
+    mode: RestoreMode,
+    onProgress?: RestoreProgress
+  ): Promise<RestoreResult> {
+    const portfolios = (await portfolioService.getPortfolios()) || [];
+    const assetLists = await Promise.all(
+      portfolios.map((p: { id: string }) => assetService.getAssets(p.id))
+    );
+    const [alerts, watchlists, liabilities] = await Promise.all([
+      alertService.getAlerts().then((remote) => remote || []),
+      watchlistService.getWatchlists(),
+      liabilityService.getLiabilities(),
+    ]);
+    const plan = planRestore(
+      backup,
+      { portfolios, assets: assetLists.flat().filter(Boolean), watchlists, liabilities, alerts },
+      mode
+    );
+
+    const total =
+      plan.portfolios.length +
+      plan.assets.length +
+      plan.transactions.length +
+      plan.income_events.length +
+      plan.cash_flows.length +
+      plan.valuations.length +
+      plan.watchlists.length +
+      plan.liabilities.length +
+      plan.alerts.length +
+      plan.deleteAlertIds.length +
+      plan.deletePortfolioIds.length +
+      plan.deleteWatchlistIds.length +
+      plan.deleteLiabilityIds.length +
+      2;
+    let done = 0;
+    const step = () => onProgress?.(++done, total);
+
+    // Backup ids to the ids of the restored (or matched) records
+    const portfolioIds: Record<string, string> = {};
+    const assetIds: Record<string, string> = {};
+    const transactionIds: Record<string, string> = {};
+    let createdPortfolios = 0;
+    let createdAssets = 0;
+
+    for (const { portfolio, existingId } of plan.portfolios) {
+      if (existingId) {
+        portfolioIds[portfolio.id] = existingId;
+      } else {
+        const created = await portfolioService.createPortfolio(portfolio.name, portfolio.benchmark_symbols);
+        portfolioIds[portfolio.id] = created.id;
+        createdPortfolios++;
+      }
+      step();
+    }
+
+    // Assets with a ledger start empty and take their position from it
+    const ledgerAssetIds = new Set(plan.transactions.map((t) => t.asset_id));
+    for (const { asset, existingId } of plan.assets) {
+      if (existingId) {
+        assetIds[asset.id] = existingId;
+      } else {
+        const created = await assetService.createAsset({
+          portfolio_id: portfolioIds[asset.portfolio_id],
+          asset_type: asset.asset_type,
+          symbol: asset.symbol,
+          name: asset.name,
+          quantity: ledgerAssetIds.has(asset.id) ? 0 : asset.quantity,
+          purchase_price: asset.purchase_price,
+          purchase_date: asset.purchase_date,
+          current_price: asset.current_price,
+          currency: asset.currency,
+          metadata: asset.metadata,
+        });
+        assetIds[asset.id] = created.id;
+        createdAssets++;
+      }
+      step();
+    }
+
+    for (const transaction of plan.transactions) {
+      const created = await assetService.addTransaction(assetIds[transaction.asset_id], {
+        transaction_type: transaction.transaction_type,
+        quantity: transaction.quantity,
+        price: transaction.price,
+        fees: transaction.fees ?? 0,
+        transaction_date: transaction.transaction_date,
+        notes: transaction.notes,
+        lot_id: transaction.lot_id ? transactionIds[transaction.lot_id] : undefined,
+      });
+      transactionIds[transaction.id] = created.id;
+      step();
+    }
+
+    // Allocation targets can only be saved once their assets exist
+    for (const { portfolio, existingId } of plan.portfolios) {
+      if (!existingId && portfolio.allocation_targets) {
+        await portfolioService.updateAllocationTargets(
+          portfolioIds[portfolio.id],
+          remapAllocationTargets(portfolio.allocation_targets, assetIds)
+        );
+      }
+    }
+
+    for (const { asset_id, ...incomeEvent } of plan.income_events) {
+      await assetService.addIncomeEvent(assetIds[asset_id], incomeEvent);
+      step();
+    }
+
+    for (const { portfolio_id, ...cashFlow } of plan.cash_flows) {
+      await portfolioService.addCashFlow(portfolioIds[portfolio_id], cashFlow);
+      step();
+    }
+
+    await portfolioService.saveSnapshots(
+      plan.snapshots.map((snapshot) => ({ ...snapshot, portfolio_id: portfolioIds[snapshot.portfolio_id] }))
+    );
+    step();
+
+    for (const valuation of plan.valuations) {
+      await priceHistoryService.addPrice(assetIds[valuation.asset_id], valuation.price, valuation.timestamp);
+      step();
+    }
+
+    for (const watchlist of plan.watchlists) {
+      const created = await watchlistService.createWatchlist(watchlist.name);
+      for (const item of watchlist.items) {
+        await watchlistService.addSymbol(created.id, item);
+      }
+      step();
+    }
+
+    for (const { id: _id, ...liability } of plan.liabilities) {
+      await liabilityService.createLiability({
+        ...liability,
+        asset_id: liability.asset_id ? assetIds[liability.asset_id] : null,
+      });
+      step();
+    }
+
+    for (const alert of plan.alerts) {
+      await alertService.createAlert({
+        asset_id: alert.asset_id ? assetIds[alert.asset_id] : null,
+        portfolio_id: alert.portfolio_id ? portfolioIds[alert.portfolio_id] : null,
+        symbol: alert.symbol ?? null,
+        exchange: alert.exchange ?? null,
+        asset_type: alert.asset_type ?? null,
+        alert_type: alert.alert_type,
+        condition_value: alert.condition_value,
+        condition: alert.condition ?? null,
+        portfolio_rule: alert.portfolio_rule ?? null,
+        is_active: alert.is_active,
+        frequency: alert.frequency,
+      });
+      step();
+    }
+
+    if (Object.keys(backup.preferences).length > 0) {
+      await profileService.updateProfile(backup.preferences);
+    }
+    step();
+
+    // Replacing removes the old records only once the backup is fully restored
+    for (const alertId of plan.deleteAlertIds) {
+      await alertService.deleteAlert(alertId);
+      step();
+    }
+    for (const portfolioId of plan.deletePortfolioIds) {
+      await portfolioService.deletePortfolio(portfolioId);
+      step();
+    }
+    for (const watchlistId of plan.deleteWatchlistIds) {
+      await watchlistService.deleteWatchlist(watchlistId);
+      step();
+    }
+    for (const liabilityId of plan.deleteLiabilityIds) {
+      await liabilityService.deleteLiability(liabilityId);
+      step();
+    }
+
+    // Refresh the caches the restore changed; queued offline changes are kept
+    await offlineStorage.cachePortfolios((await portfolioService.getPortfolios()) || []);
+    await offlineStorage.cacheAlerts((await alertService.getAlerts()) || []);
+    await offlineStorage.cacheWatchlists(await watchlistService.getWatchlists());
+    await offlineStorage.cacheLiabilities(await liabilityService.getLiabilities());
+    if (mode === 'replace') {
+      await offlineStorage.saveAssets([]);
+    }
+
+    return {
+      portfolios: createdPortfolios,
+      assets: createdAssets,
+      transactions: plan.transactions.length,
+      watchlists: plan.watchlists.length,
+      liabilities: plan.liabilities.length,
+      alerts: plan.alerts.length,
+      skippedAssets: plan.skippedAssets,
+      skippedAlerts: plan.skippedAlerts,
+      skippedWatchlists: plan.skippedWatchlists,
+      skippedLiabilities: plan.skippedLiabilities,
+    };
+  },
+};
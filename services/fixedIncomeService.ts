@@ -0,0 +1,124 @@
+/**
+ * Fixed Income Service
+ *
+ * Keeps the stored price of bonds and other fixed income holdings in line
+ * with their accrued value, and closes holdings that have matured by
+ * recording the redemption and final coupon in the ledger.
+ */
+
+import { assetService } from './api';
+import { DEFAULT_CURRENCY } from '../utils/currency';
+import { getCouponAmount, isFixedIncomeType, valueFixedIncome, type BondTerms } from '../utils/fixedIncome';
+
+/** Asset fields needed to value and close a fixed income holding */
+export interface FixedIncomeHolding {
+  id: string;
+  asset_type: string;
+  quantity: number;
+  purchase_price: number;
+  purchase_date: string;
+  current_price?: number;
+  currency?: string;
+  metadata?: Record<string, any>;
+}
+
+// Prices within this much of the accrued value are left alone
+const PRICE_TOLERANCE = 0.005;
+
+// ============================================================================
+// Fixed Income Service
+// ============================================================================
+
+export const fixedIncomeService = {
+  /**
+   * Revalue open fixed income holdings as of a date, closing any that have
+   * matured. Returns the assets with their updated rows; holdings that could
+   * not be updated (e.g. while offline) are returned unchanged.
+   */
+  async refreshValuations<T extends FixedIncomeHolding>(
+    assets: T[],
+    asOf: string = new Date().toISOString().slice(0, 10)
+  ): Promise<T[]> {
+    return Promise.all(
+      assets.map(async (asset) => {
+        if (!isFixedIncomeType(asset.asset_type) || asset.quantity <= 0 || asset.metadata?.closed_at) {
+          return asset;
+        }
+
+        const valuation = valueFixedIncome(asset, asOf);
+        if (!valuation) return asset;
+
+        try {
+          if (valuation.isMatured) {
+            return (await this.closeMaturedPosition(asset, valuation.terms)) as T;
+          }
+
+          const price = valuation.currentValue / asset.quantity;
+          if (Math.abs((asset.current_price ?? asset.purchase_price) - price) < PRICE_TOLERANCE) {
+            return asset;
+          }
+          return { ...asset, ...(await assetService.updateAsset(asset.id, { current_price: price })) };
+        } catch (error) {
+          console.error(`[FixedIncome] Failed to revalue asset ${asset.id}:`, error);
+          return asset;
+        }
+      })
+    );
+  },
+
+  /**
+   * Close a matured holding: redeem it at face value on the maturity date,
+   * record the final coupon and mark the asset closed
+   */
+  async closeMaturedPosition<T extends FixedIncomeHolding>(asset: T, terms: BondTerms): Promise<T> {
+    const transactions = await assetService.getTransactions(asset.id);
+
+    // Legacy assets have no stored ledger yet, so persist the opening lot first
+    if (transactions.length === 0) {
+      await assetService.addTransaction(asset.id, {
+        transaction_type: 'buy',
+        quantity: asset.quantity,
+        price: asset.purchase_price,
+        fees: 0,
+        transaction_date: asset.purchase_date.slice(0, 10),
+      });
+    }
+
+    await assetService.addTransaction(asset.id, {
+      transaction_type: 'sell',
+      quantity: asset.quantity,
+      price: terms.faceValue / asset.quantity,
+      fees: 0,
+      transaction_date: terms.maturityDate,
+      notes: 'Redeemed at maturity',
+    });
+
+    const finalCoupon = getCouponAmount(terms);
+    if (finalCoupon > 0) {
+      const recorded = await assetService.getIncomeEvents([asset.id]);
+      const alreadyPaid = recorded.some(
+        (event) => event.income_type === 'coupon' && event.payment_date.slice(0, 10) === terms.maturityDate
+      );
+      if (!alreadyPaid) {
+        await assetService.addIncomeEvent(asset.id, {
+          income_type: 'coupon',
+          amount: finalCoupon,
+          currency: asset.currency || DEFAULT_CURRENCY,
+          payment_date: terms.maturityDate,
+          notes: 'Final coupon at maturity',
+        });
+      }
+    }
+
+    const updated = await assetService.updateAsset(asset.id, {
+      current_price: terms.faceValue / asset.quantity,
+      metadata: {
+        ...asset.metadata,
+        face_value: terms.faceValue,
+        closed_at: terms.maturityDate,
+        redemption_proceeds: terms.faceValue + finalCoupon,
+      },
+    });
+    return { ...asset, ...updated };
+  },
+};
@@ -0,0 +1,82 @@
+/**
+ * FX Rate Service
+ *
+ * Serves exchange rates from the server, backed by the rate tables cached in
+ * offline storage. Historical tables never change, so they are fetched once;
+ * the latest table is refreshed when it is older than the cache TTL.
+ */
+
+import { fxRateService } from './api';
+import { offlineStorage, FxRateTable } from './offlineStorage';
+import type { FxRates } from '../utils/currency';
+
+// Latest rates are refreshed at most this often
+const LATEST_RATES_TTL_MS = 60 * 60 * 1000;
+
+const LATEST_KEY = 'latest';
+
+// ============================================================================
+// FX Service
+// ============================================================================
+
+export const fxService = {
+  /**
+   * Get the current rate table, falling back to the cached table when the
+   * server cannot be reached
+   */
+  async getLatestRates(): Promise<FxRateTable | null> {
+    const cached = await offlineStorage.getCachedFxRates(LATEST_KEY);
+    if (cached && Date.now() - new Date(cached.fetched_at).getTime() < LATEST_RATES_TTL_MS) {
+      return cached;
+    }
+
+    try {
+      const table = await fxRateService.getRates();
+      await offlineStorage.cacheFxRates(LATEST_KEY, table);
+      return table;
+    } catch (error) {
+      console.error('[FxService] Failed to fetch latest rates:', error);
+      return cached;
+    }
+  },
+
+  /**
+   * Get the rate table in effect on a date (YYYY-MM-DD)
+   */
+  async getRatesOn(date: string): Promise<FxRateTable | null> {
+    const day = date.slice(0, 10);
+    const cached = await offlineStorage.getCachedFxRates(day);
+    if (cached) return cached;
+
+    try {
+      const table = await fxRateService.getRates(day);
+      // An empty table may just mean the server has not backfilled yet
+      if (Object.keys(table.rates).length > 0) {
+        await offlineStorage.cacheFxRates(day, table);
+      }
+      return table;
+    } catch (error) {
+      console.error(`[FxService] Failed to fetch rates for ${day}:`, error);
+      return null;
+    }
+  },
+
+  /**
+   * Get the rates for each of the given dates, keyed by YYYY-MM-DD
+   * Dates whose rates are unavailable are omitted
+   */
+  async getRatesForDates(dates: string[]): Promise<Record<string, FxRates>> {
+    const days = Array.from(new Set(dates.map((date) => date.slice(0, 10))));
+    const tables = await Promise.all(days.map((day) => fxService.getRatesOn(day)));
+
+    const ratesByDate: Record<string, FxRates> = {};
+    tables.forEach((table, index) => {
+      if (table && Object.keys(table.rates).length > 0) {
+        ratesByDate[days[index]] = table.rates;
+      }
+    });
+    return ratesByDate;
+  },
+};
+
+export default fxService;
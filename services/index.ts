@@ -1,10 +1,21 @@
 // mobile/services/index.ts
 export { supabase } from './supabase';
-export { default as api, authService, portfolioService, assetService, priceHistoryService, alertService, insightsService, chatService, profileService, subscriptionService, realtimeService } from './api';
+export { default as api, authService, portfolioService, assetService, liabilityService, priceHistoryService, benchmarkService, symbolDirectoryService, fxRateService, alertService, watchlistService, insightsService, chatService, profileService, subscriptionService, realtimeService } from './api';
 export { secureStorage } from './secureStorage';
 export { purchasesService } from './purchases';
+export { fxService } from './fxService';
+export { backupService } from './backupService';
+export { fixedIncomeService } from './fixedIncomeService';
+export type { FixedIncomeHolding } from './fixedIncomeService';
+export { realEstateService } from './realEstateService';
+export type { PropertyHolding } from './realEstateService';
+export { priceChannels } from './priceChannels';
+export type { PriceChannelSubscriber, PriceChannelState } from './priceChannels';
+export { symbolSearchService } from './symbolSearch';
+export type { SymbolSearchResult } from './symbolSearch';
+export type { RestoreResult, RestoreProgress } from './backupService';
 export { notificationService, configureNotifications, setupPushNotifications } from './notifications';
-export type { NotificationType, NotificationData, PushNotificationState } from './notifications';
+export type { NotificationType, NotificationData, NotificationTarget, PushNotificationState } from './notifications';
 
 // Offline storage exports
 export {
@@ -12,6 +23,28 @@ export {
   getPortfolios,
   saveAssets,
   getAssets,
+  saveTransactions,
+  getTransactions,
+  saveCashFlows,
+  getCashFlows,
+  saveIncomeEvents,
+  getIncomeEvents,
+  saveLiabilities,
+  getLiabilities,
+  saveSnapshots,
+  getSnapshots,
+  saveBenchmarkPrices,
+  getBenchmarkPrices,
+  saveAlerts,
+  getAlerts,
+  saveAlertTriggers,
+  getAlertTriggers,
+  saveWatchlists,
+  getWatchlists,
+  saveSymbolIndex,
+  getSymbolIndex,
+  saveFxRates,
+  getFxRates,
   saveUserProfile,
   getUserProfile,
   getLastUpdated,
@@ -26,4 +59,4 @@ export {
   incrementRetryCount,
   storage,
 } from './offlineStorage';
-export type { Portfolio, Asset, UserProfile, OfflineChange, OfflineChangeType, AssetType } from './offlineStorage';
+export type { Portfolio, Asset, AssetTransaction, TransactionType, CostBasisMethod, CashFlowType, PortfolioCashFlow, IncomeType, IncomeEvent, Liability, LiabilityType, PortfolioSnapshot, BenchmarkPrice, PriceAlert, AlertFrequency, AlertDeliveryStatus, AlertTrigger, AlertCondition, AlertRule, AlertRuleKind, CrossDirection, PortfolioAlertRule, PortfolioAlertType, SymbolListing, Watchlist, WatchlistItem, AllocationTarget, AllocationTargets, AllocationTargetScope, FxRateTable, UserProfile, OfflineChange, OfflineChangeType, AssetType } from './offlineStorage';
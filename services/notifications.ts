@@ -12,12 +12,20 @@ import * as Device from 'expo-device';
 import { Platform } from 'react-native';
 import Constants from 'expo-constants';
 import { profileService } from './api';
+import { ALERT_NOTIFICATION_TYPES, createNotificationLedger } from '../utils/alertEngine';
 
 // ============================================================================
 // Types
 // ============================================================================
 
-export type NotificationType = 'price_alert' | 'insight_alert' | 'maturity_reminder';
+export type NotificationType =
+  | 'price_alert'
+  | 'insight_alert'
+  | 'maturity_reminder'
+  /** Portfolio value crossing a level or falling in a day */
+  | 'portfolio_alert'
+  /** Allocation drift or a concentrated holding */
+  | 'allocation_alert';
 
 export interface NotificationData {
   type: NotificationType;
@@ -25,12 +33,24 @@ export interface NotificationData {
   body: string;
   assetId?: string;
   alertId?: string;
+  /** The alert_triggers entry a price alert notification was sent for */
+  triggerId?: string;
+  /** 'device' for alerts fired by the on-device engine; pushes from the server leave it unset */
+  source?: 'server' | 'device';
   insightId?: string;
   portfolioId?: string;
   screen?: string;
   params?: Record<string, unknown>;
 }
 
+/** Screen a tapped notification opens, with the params that screen takes */
+export type NotificationTarget =
+  | { screen: 'AssetDetailView'; params: { assetId: string; portfolioId: string } }
+  | { screen: 'AlertHistory'; params: { alertId: string; triggerId?: string } }
+  | { screen: 'Rebalance'; params?: { portfolioId?: string } }
+  | { screen: 'Portfolio'; params?: { portfolioId?: string } }
+  | { screen: 'Alerts' | 'Insights' | 'Assets' | 'Dashboard' };
+
 export interface PushNotificationState {
   token: string | null;
   permissionStatus: Notifications.PermissionStatus | null;
@@ -47,16 +67,48 @@ export interface PushNotificationState {
  */
 export function configureNotifications(): void {
   Notifications.setNotificationHandler({
-    handleNotification: async () => ({
-      shouldShowAlert: true,
-      shouldPlaySound: true,
-      shouldSetBadge: true,
-      shouldShowBanner: true,
-      shouldShowList: true,
-    }),
+    handleNotification: async (notification) => {
+      // A push for an alert the device already notified is received silently
+      const show = !isDuplicateAlertNotification(parseNotificationData(notification));
+      return {
+        shouldShowAlert: show,
+        shouldPlaySound: show,
+        shouldSetBadge: show,
+        shouldShowBanner: show,
+        shouldShowList: show,
+      };
+    },
   });
 }
 
+// ============================================================================
+// Alert Deduplication
+// ============================================================================
+
+/**
+ * Alerts notified recently, by the server or by the on-device alert engine,
+ * shared so that each firing is shown once
+ */
+export const alertNotificationLedger = createNotificationLedger();
+
+/**
+ * Whether a pushed alert notification repeats one the device already showed
+ * Pushes that are not duplicates are recorded, so the device engine skips
+ * the same firing.
+ * @param data - Parsed notification data
+ * @param at - Time received, in milliseconds
+ */
+export function isDuplicateAlertNotification(data: NotificationData | null, at: number = Date.now()): boolean {
+  if (!data?.alertId || !ALERT_NOTIFICATION_TYPES.includes(data.type) || data.source === 'device') {
+    return false;
+  }
+  if (alertNotificationLedger.isRecent(data.alertId, data.type, at)) {
+    return true;
+  }
+  alertNotificationLedger.record(data.alertId, data.type, at);
+  return false;
+}
+
 // ============================================================================
 // Permission Management
 // ============================================================================
@@ -196,6 +248,16 @@ export async function configureAndroidChannel(): Promise<void> {
     sound: 'default',
   });
 
+  // Portfolio alerts channel
+  await Notifications.setNotificationChannelAsync('portfolio_alerts', {
+    name: 'Portfolio Alerts',
+    description: 'Notifications for portfolio value, drawdown and allocation alerts',
+    importance: Notifications.AndroidImportance.HIGH,
+    vibrationPattern: [0, 250, 250, 250],
+    lightColor: '#FF6B35',
+    sound: 'default',
+  });
+
   // Insights channel
   await Notifications.setNotificationChannelAsync('insights', {
     name: 'AI Insights',
@@ -238,6 +300,8 @@ export function parseNotificationData(
     body: notification.request.content.body || '',
     assetId: data.assetId as string | undefined,
     alertId: data.alertId as string | undefined,
+    triggerId: data.triggerId as string | undefined,
+    source: data.source as NotificationData['source'],
     insightId: data.insightId as string | undefined,
     portfolioId: data.portfolioId as string | undefined,
     screen: data.screen as string | undefined,
@@ -250,11 +314,15 @@ export function parseNotificationData(
  * @param data - Notification data
  * @returns Navigation screen name and params
  */
-export function getNavigationTarget(
-  data: NotificationData
-): { screen: string; params?: Record<string, unknown> } {
+export function getNavigationTarget(data: NotificationData): NotificationTarget {
   switch (data.type) {
     case 'price_alert':
+      if (data.alertId) {
+        return {
+          screen: 'AlertHistory',
+          params: { alertId: data.alertId, ...(data.triggerId && { triggerId: data.triggerId }) },
+        };
+      }
       if (data.assetId && data.portfolioId) {
         return {
           screen: 'AssetDetailView',
@@ -266,6 +334,12 @@ export function getNavigationTarget(
     case 'insight_alert':
       return { screen: 'Insights' };
 
+    case 'portfolio_alert':
+      return { screen: 'Portfolio', params: data.portfolioId ? { portfolioId: data.portfolioId } : undefined };
+
+    case 'allocation_alert':
+      return { screen: 'Rebalance', params: data.portfolioId ? { portfolioId: data.portfolioId } : undefined };
+
     case 'maturity_reminder':
       if (data.assetId && data.portfolioId) {
         return {
@@ -326,6 +400,8 @@ export async function scheduleLocalNotification(
 ): Promise<string> {
   const channelId = data?.type === 'price_alert' 
     ? 'price_alerts' 
+    : data?.type === 'portfolio_alert' || data?.type === 'allocation_alert'
+    ? 'portfolio_alerts'
     : data?.type === 'insight_alert'
     ? 'insights'
     : 'default';
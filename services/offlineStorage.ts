@@ -13,6 +13,17 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 const STORAGE_KEYS = {
   PORTFOLIOS: 'cached_portfolios',
   ASSETS: 'cached_assets',
+  TRANSACTIONS: 'cached_transactions',
+  FX_RATES: 'cached_fx_rates',
+  CASH_FLOWS: 'cached_cash_flows',
+  SNAPSHOTS: 'cached_portfolio_snapshots',
+  INCOME_EVENTS: 'cached_income_events',
+  LIABILITIES: 'cached_liabilities',
+  BENCHMARK_PRICES: 'cached_benchmark_prices',
+  ALERTS: 'cached_alerts',
+  ALERT_TRIGGERS: 'cached_alert_triggers',
+  WATCHLISTS: 'cached_watchlists',
+  SYMBOL_INDEX: 'cached_symbol_index',
   USER_PROFILE: 'cached_user_profile',
   LAST_UPDATED: 'last_updated_timestamp',
   OFFLINE_QUEUE: 'offline_change_queue',
@@ -25,11 +36,44 @@ export interface Portfolio {
   name: string;
   user_id: string;
   total_value: number;
+  /** Index or asset symbols the portfolio is compared against, e.g. SPY */
+  benchmark_symbols?: string[];
+  allocation_targets?: AllocationTargets;
   created_at: string;
   updated_at: string;
 }
 
-export type AssetType = 'stock' | 'crypto' | 'commodity' | 'real_estate' | 'fixed_income' | 'other';
+/** Whether a target weight applies to a whole asset type or a single asset */
+export type AllocationTargetScope = 'asset_type' | 'asset';
+
+export interface AllocationTarget {
+  scope: AllocationTargetScope;
+  /** Asset type for asset_type targets, asset id for asset targets */
+  key: string;
+  /** Percent of the portfolio */
+  weight: number;
+  /** Tolerated drift in percentage points; the portfolio band when absent */
+  drift_band?: number;
+}
+
+export interface AllocationTargets {
+  targets: AllocationTarget[];
+  /** Default tolerated drift in percentage points */
+  drift_band: number;
+}
+
+export type AssetType =
+  | 'stock'
+  | 'etf'
+  | 'mutual_fund'
+  | 'crypto'
+  | 'commodity'
+  | 'forex'
+  | 'option'
+  | 'bond'
+  | 'real_estate'
+  | 'fixed_income'
+  | 'other';
 
 export interface Asset {
   id: string;
@@ -41,11 +85,223 @@ export interface Asset {
   purchase_price: number;
   purchase_date: string;
   current_price?: number;
+  /** ISO code of the currency the asset is priced in; USD when absent */
+  currency?: string;
+  /** Last closing price before today, used for the daily change */
+  previous_close?: number;
   metadata?: Record<string, unknown>;
   created_at: string;
   updated_at: string;
 }
 
+export type TransactionType = 'buy' | 'sell' | 'transfer_in' | 'transfer_out';
+
+export type CostBasisMethod = 'fifo' | 'lifo' | 'average' | 'specific';
+
+export interface AssetTransaction {
+  id: string;
+  asset_id: string;
+  transaction_type: TransactionType;
+  quantity: number;
+  price: number;
+  fees?: number;
+  transaction_date: string;
+  notes?: string;
+  /** Lot (opening transaction ID) to sell from under the specific-lot method */
+  lot_id?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type CashFlowType = 'contribution' | 'withdrawal';
+
+/** Money moved into or out of a portfolio, in the user's preferred currency */
+export interface PortfolioCashFlow {
+  id: string;
+  portfolio_id: string;
+  flow_type: CashFlowType;
+  /** Always positive; the direction comes from flow_type */
+  amount: number;
+  flow_date: string;
+  notes?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type IncomeType = 'dividend' | 'interest' | 'coupon' | 'rent' | 'staking';
+
+/** Income paid out by a holding, in the currency it was received in */
+export interface IncomeEvent {
+  id: string;
+  asset_id: string;
+  income_type: IncomeType;
+  amount: number;
+  currency: string;
+  payment_date: string;
+  notes?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type LiabilityType = 'mortgage' | 'loan' | 'credit_line';
+
+/** Money owed, in the currency of the debt */
+export interface Liability {
+  id: string;
+  name: string;
+  liability_type: LiabilityType;
+  /** Outstanding balance on balance_date */
+  balance: number;
+  /** YYYY-MM-DD */
+  balance_date: string;
+  /** Annual interest rate in percent */
+  interest_rate: number;
+  /** Monthly payments left after balance_date; absent for interest-only loans and credit lines */
+  term_months?: number | null;
+  /** Limit of a credit line */
+  credit_limit?: number | null;
+  currency: string;
+  /** Real estate asset securing the debt */
+  asset_id?: string | null;
+  notes?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PortfolioSnapshot {
+  portfolio_id: string;
+  /** YYYY-MM-DD */
+  snapshot_date: string;
+  /** Market value of the holdings at the end of the day */
+  total_value: number;
+  currency: string;
+  created_at?: string;
+}
+
+/** Daily close of a benchmark index or asset */
+export interface BenchmarkPrice {
+  symbol: string;
+  price: number;
+  price_date: string;
+}
+
+export interface PriceAlert {
+  id: string;
+  /** Null for alerts on a watched symbol that is not held and for portfolio alerts */
+  asset_id: string | null;
+  /** Portfolio a portfolio-level alert watches as a whole */
+  portfolio_id?: string | null;
+  /** Symbol priced for the alert when it has no asset */
+  symbol?: string | null;
+  exchange?: string | null;
+  asset_type?: AssetType | null;
+  alert_type: string;
+  /** Threshold of alerts set before conditions; alerts with a condition keep its first value here */
+  condition_value: number;
+  /** Rules the alert checks; absent on alerts set before conditions */
+  condition?: AlertCondition | null;
+  /** Check a portfolio-level alert makes */
+  portfolio_rule?: PortfolioAlertRule | null;
+  is_active: boolean;
+  /** One-shot alerts switch off when they fire; recurring ones stay on */
+  frequency?: AlertFrequency;
+  /** The alert does not fire before this time */
+  snoozed_until?: string | null;
+  /** When the alert last fired */
+  triggered_at?: string | null;
+  created_at: string;
+  updated_at?: string;
+}
+
+export type AlertFrequency = 'once' | 'recurring';
+
+/** Crossing direction of a price or indicator */
+export type CrossDirection = 'above' | 'below';
+
+/** One check an alert makes against a symbol's daily closes and volumes */
+export type AlertRule =
+  | { kind: 'price_cross'; direction: CrossDirection; price: number }
+  /** Change from the previous close, in percent; negative for a fall */
+  | { kind: 'percent_change'; percent: number }
+  /** Fast simple moving average crossing the slow one, periods in days */
+  | { kind: 'ma_cross'; direction: CrossDirection; fast_period: number; slow_period: number }
+  | { kind: 'rsi'; direction: CrossDirection; threshold: number; period: number }
+  | { kind: 'week_52'; extreme: 'high' | 'low' }
+  /** Volume at least `multiple` times its average over `period` days */
+  | { kind: 'volume_spike'; multiple: number; period: number };
+
+export type AlertRuleKind = AlertRule['kind'];
+
+/** Rules combined with AND (all must hold) or OR (any may hold) */
+export interface AlertCondition {
+  operator: 'and' | 'or';
+  rules: AlertRule[];
+}
+
+/** Check a portfolio-level alert makes against the whole portfolio, in the preferred currency */
+export type PortfolioAlertRule =
+  | { kind: 'portfolio_value'; direction: CrossDirection; value: number }
+  /** Fall from the previous close, in percent */
+  | { kind: 'portfolio_drawdown'; percent: number }
+  /** An asset type's weight leaving target ± band, in percentage points */
+  | { kind: 'allocation_drift'; asset_type: string; target_weight: number; band: number }
+  /** Any single holding's weight going over the limit, in percent */
+  | { kind: 'concentration'; max_weight: number };
+
+export type PortfolioAlertType = PortfolioAlertRule['kind'];
+
+/** How far the push notification for a trigger got */
+export type AlertDeliveryStatus = 'pending' | 'sent' | 'delivered' | 'failed' | 'opened';
+
+/** One firing of an alert, with the price that met its condition */
+export interface AlertTrigger {
+  id: string;
+  alert_id: string;
+  triggered_at: string;
+  price: number;
+  /** Condition value the alert had when it fired */
+  condition_value: number;
+  delivery_status: AlertDeliveryStatus;
+  delivered_at?: string | null;
+  opened_at?: string | null;
+}
+
+/** A tradable symbol on one exchange, as listed in the symbol directory */
+export interface SymbolListing {
+  symbol: string;
+  name: string;
+  asset_type: AssetType;
+  /** Exchange or market code, e.g. NASDAQ or TSX; absent for crypto and spot commodities */
+  exchange?: string;
+  /** ISO code of the currency the symbol trades in */
+  currency?: string;
+}
+
+/** A symbol followed on a watchlist without being held */
+export interface WatchlistItem extends SymbolListing {
+  id: string;
+  watchlist_id: string;
+  created_at: string;
+}
+
+export interface Watchlist {
+  id: string;
+  name: string;
+  items: WatchlistItem[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface FxRateTable {
+  /** Currency the rates are quoted against */
+  base: string;
+  /** Date the rates apply to (YYYY-MM-DD) */
+  date: string;
+  /** Units of each currency per one unit of the base */
+  rates: Record<string, number>;
+  fetched_at: string;
+}
+
 export interface UserProfile {
   id: string;
   email: string;
@@ -55,6 +311,7 @@ export interface UserProfile {
   phone?: string;
   currency_preference?: string;
   language_preference?: string;
+  cost_basis_method?: CostBasisMethod;
   avatar_url?: string;
   subscription_tier?: 'free' | 'premium';
   push_token?: string;
@@ -69,6 +326,13 @@ export type OfflineChangeType =
   | 'CREATE_ASSET'
   | 'UPDATE_ASSET'
   | 'DELETE_ASSET'
+  | 'CREATE_TRANSACTION'
+  | 'UPDATE_TRANSACTION'
+  | 'DELETE_TRANSACTION'
+  | 'CREATE_CASH_FLOW'
+  | 'DELETE_CASH_FLOW'
+  | 'CREATE_INCOME_EVENT'
+  | 'DELETE_INCOME_EVENT'
   | 'UPDATE_PROFILE';
 
 export interface OfflineChange {
@@ -123,6 +387,241 @@ export async function getAssets(): Promise<Asset[] | null> {
   }
 }
 
+// Transaction functions
+export async function saveTransactions(transactions: AssetTransaction[]): Promise<void> {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEYS.TRANSACTIONS, JSON.stringify(transactions));
+    await setLastUpdated(new Date().toISOString());
+  } catch (error) {
+    console.error('[OfflineStorage] Failed to save transactions:', error);
+    throw error;
+  }
+}
+
+export async function getTransactions(): Promise<AssetTransaction[] | null> {
+  try {
+    const data = await AsyncStorage.getItem(STORAGE_KEYS.TRANSACTIONS);
+    if (!data) return null;
+    return JSON.parse(data) as AssetTransaction[];
+  } catch (error) {
+    console.error('[OfflineStorage] Failed to get transactions:', error);
+    return null;
+  }
+}
+
+// Cash flow functions
+export async function saveCashFlows(cashFlows: PortfolioCashFlow[]): Promise<void> {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEYS.CASH_FLOWS, JSON.stringify(cashFlows));
+    await setLastUpdated(new Date().toISOString());
+  } catch (error) {
+    console.error('[OfflineStorage] Failed to save cash flows:', error);
+    throw error;
+  }
+}
+
+export async function getCashFlows(): Promise<PortfolioCashFlow[] | null> {
+  try {
+    const data = await AsyncStorage.getItem(STORAGE_KEYS.CASH_FLOWS);
+    if (!data) return null;
+    return JSON.parse(data) as PortfolioCashFlow[];
+  } catch (error) {
+    console.error('[OfflineStorage] Failed to get cash flows:', error);
+    return null;
+  }
+}
+
+// Income event functions
+export async function saveIncomeEvents(incomeEvents: IncomeEvent[]): Promise<void> {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEYS.INCOME_EVENTS, JSON.stringify(incomeEvents));
+    await setLastUpdated(new Date().toISOString());
+  } catch (error) {
+    console.error('[OfflineStorage] Failed to save income events:', error);
+    throw error;
+  }
+}
+
+export async function getIncomeEvents(): Promise<IncomeEvent[] | null> {
+  try {
+    const data = await AsyncStorage.getItem(STORAGE_KEYS.INCOME_EVENTS);
+    if (!data) return null;
+    return JSON.parse(data) as IncomeEvent[];
+  } catch (error) {
+    console.error('[OfflineStorage] Failed to get income events:', error);
+    return null;
+  }
+}
+
+// Liability functions
+export async function saveLiabilities(liabilities: Liability[]): Promise<void> {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEYS.LIABILITIES, JSON.stringify(liabilities));
+    await setLastUpdated(new Date().toISOString());
+  } catch (error) {
+    console.error('[OfflineStorage] Failed to save liabilities:', error);
+    throw error;
+  }
+}
+
+export async function getLiabilities(): Promise<Liability[] | null> {
+  try {
+    const data = await AsyncStorage.getItem(STORAGE_KEYS.LIABILITIES);
+    if (!data) return null;
+    return JSON.parse(data) as Liability[];
+  } catch (error) {
+    console.error('[OfflineStorage] Failed to get liabilities:', error);
+    return null;
+  }
+}
+
+// Portfolio snapshot functions
+export async function saveSnapshots(snapshots: PortfolioSnapshot[]): Promise<void> {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEYS.SNAPSHOTS, JSON.stringify(snapshots));
+  } catch (error) {
+    console.error('[OfflineStorage] Failed to save snapshots:', error);
+    throw error;
+  }
+}
+
+export async function getSnapshots(): Promise<PortfolioSnapshot[] | null> {
+  try {
+    const data = await AsyncStorage.getItem(STORAGE_KEYS.SNAPSHOTS);
+    if (!data) return null;
+    return JSON.parse(data) as PortfolioSnapshot[];
+  } catch (error) {
+    console.error('[OfflineStorage] Failed to get snapshots:', error);
+    return null;
+  }
+}
+
+// Benchmark price functions
+export async function saveBenchmarkPrices(prices: BenchmarkPrice[]): Promise<void> {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEYS.BENCHMARK_PRICES, JSON.stringify(prices));
+  } catch (error) {
+    console.error('[OfflineStorage] Failed to save benchmark prices:', error);
+    throw error;
+  }
+}
+
+export async function getBenchmarkPrices(): Promise<BenchmarkPrice[] | null> {
+  try {
+    const data = await AsyncStorage.getItem(STORAGE_KEYS.BENCHMARK_PRICES);
+    if (!data) return null;
+    return JSON.parse(data) as BenchmarkPrice[];
+  } catch (error) {
+    console.error('[OfflineStorage] Failed to get benchmark prices:', error);
+    return null;
+  }
+}
+
+// Alert functions
+export async function saveAlerts(alerts: PriceAlert[]): Promise<void> {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEYS.ALERTS, JSON.stringify(alerts));
+  } catch (error) {
+    console.error('[OfflineStorage] Failed to save alerts:', error);
+    throw error;
+  }
+}
+
+export async function getAlerts(): Promise<PriceAlert[] | null> {
+  try {
+    const data = await AsyncStorage.getItem(STORAGE_KEYS.ALERTS);
+    if (!data) return null;
+    return JSON.parse(data) as PriceAlert[];
+  } catch (error) {
+    console.error('[OfflineStorage] Failed to get alerts:', error);
+    return null;
+  }
+}
+
+// Alert trigger functions, keyed by alert id
+export async function saveAlertTriggers(triggers: Record<string, AlertTrigger[]>): Promise<void> {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEYS.ALERT_TRIGGERS, JSON.stringify(triggers));
+  } catch (error) {
+    console.error('[OfflineStorage] Failed to save alert triggers:', error);
+    throw error;
+  }
+}
+
+export async function getAlertTriggers(): Promise<Record<string, AlertTrigger[]> | null> {
+  try {
+    const data = await AsyncStorage.getItem(STORAGE_KEYS.ALERT_TRIGGERS);
+    if (!data) return null;
+    return JSON.parse(data) as Record<string, AlertTrigger[]>;
+  } catch (error) {
+    console.error('[OfflineStorage] Failed to get alert triggers:', error);
+    return null;
+  }
+}
+
+// Watchlist functions
+export async function saveWatchlists(watchlists: Watchlist[]): Promise<void> {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEYS.WATCHLISTS, JSON.stringify(watchlists));
+  } catch (error) {
+    console.error('[OfflineStorage] Failed to save watchlists:', error);
+    throw error;
+  }
+}
+
+export async function getWatchlists(): Promise<Watchlist[] | null> {
+  try {
+    const data = await AsyncStorage.getItem(STORAGE_KEYS.WATCHLISTS);
+    if (!data) return null;
+    return JSON.parse(data) as Watchlist[];
+  } catch (error) {
+    console.error('[OfflineStorage] Failed to get watchlists:', error);
+    return null;
+  }
+}
+
+// Symbol index functions
+export async function saveSymbolIndex(listings: SymbolListing[]): Promise<void> {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEYS.SYMBOL_INDEX, JSON.stringify(listings));
+  } catch (error) {
+    console.error('[OfflineStorage] Failed to save symbol index:', error);
+    throw error;
+  }
+}
+
+export async function getSymbolIndex(): Promise<SymbolListing[] | null> {
+  try {
+    const data = await AsyncStorage.getItem(STORAGE_KEYS.SYMBOL_INDEX);
+    if (!data) return null;
+    return JSON.parse(data) as SymbolListing[];
+  } catch (error) {
+    console.error('[OfflineStorage] Failed to get symbol index:', error);
+    return null;
+  }
+}
+
+// FX rate functions
+export async function saveFxRates(rateTables: Record<string, FxRateTable>): Promise<void> {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEYS.FX_RATES, JSON.stringify(rateTables));
+  } catch (error) {
+    console.error('[OfflineStorage] Failed to save FX rates:', error);
+    throw error;
+  }
+}
+
+export async function getFxRates(): Promise<Record<string, FxRateTable> | null> {
+  try {
+    const data = await AsyncStorage.getItem(STORAGE_KEYS.FX_RATES);
+    if (!data) return null;
+    return JSON.parse(data) as Record<string, FxRateTable>;
+  } catch (error) {
+    console.error('[OfflineStorage] Failed to get FX rates:', error);
+    return null;
+  }
+}
+
 // User profile functions
 export async function saveUserProfile(profile: UserProfile): Promise<void> {
   try {
@@ -239,6 +738,17 @@ export async function clearAllCache(): Promise<void> {
     await AsyncStorage.multiRemove([
       STORAGE_KEYS.PORTFOLIOS,
       STORAGE_KEYS.ASSETS,
+      STORAGE_KEYS.TRANSACTIONS,
+      STORAGE_KEYS.FX_RATES,
+      STORAGE_KEYS.CASH_FLOWS,
+      STORAGE_KEYS.SNAPSHOTS,
+      STORAGE_KEYS.INCOME_EVENTS,
+      STORAGE_KEYS.LIABILITIES,
+      STORAGE_KEYS.BENCHMARK_PRICES,
+      STORAGE_KEYS.ALERTS,
+      STORAGE_KEYS.ALERT_TRIGGERS,
+      STORAGE_KEYS.WATCHLISTS,
+      STORAGE_KEYS.SYMBOL_INDEX,
       STORAGE_KEYS.USER_PROFILE,
       STORAGE_KEYS.LAST_UPDATED,
       STORAGE_KEYS.OFFLINE_QUEUE,
@@ -280,6 +790,140 @@ export async function cacheAssets(portfolioId: string, assets: Asset[]): Promise
   return saveAssets(mergedAssets);
 }
 
+export async function getCachedAssets(portfolioId: string): Promise<Asset[]> {
+  const assets = await getAssets() || [];
+  return assets.filter(a => a.portfolio_id === portfolioId);
+}
+
+export async function cacheTransactions(assetIds: string[], transactions: AssetTransaction[]): Promise<void> {
+  // Replace only the ledgers of the given assets
+  const existingTransactions = await getTransactions() || [];
+  const otherTransactions = existingTransactions.filter(t => !assetIds.includes(t.asset_id));
+  return saveTransactions([...otherTransactions, ...transactions]);
+}
+
+export async function getCachedTransactions(assetId: string): Promise<AssetTransaction[]> {
+  const transactions = await getTransactions() || [];
+  return transactions.filter(t => t.asset_id === assetId);
+}
+
+export async function cacheCashFlows(portfolioIds: string[], cashFlows: PortfolioCashFlow[]): Promise<void> {
+  // Replace only the cash flows of the given portfolios
+  const existingCashFlows = await getCashFlows() || [];
+  const otherCashFlows = existingCashFlows.filter(f => !portfolioIds.includes(f.portfolio_id));
+  return saveCashFlows([...otherCashFlows, ...cashFlows]);
+}
+
+export async function getCachedCashFlows(portfolioIds: string[]): Promise<PortfolioCashFlow[]> {
+  const cashFlows = await getCashFlows() || [];
+  return cashFlows.filter(f => portfolioIds.includes(f.portfolio_id));
+}
+
+export async function cacheIncomeEvents(assetIds: string[], incomeEvents: IncomeEvent[]): Promise<void> {
+  // Replace only the income of the given assets
+  const existingIncomeEvents = await getIncomeEvents() || [];
+  const otherIncomeEvents = existingIncomeEvents.filter(e => !assetIds.includes(e.asset_id));
+  return saveIncomeEvents([...otherIncomeEvents, ...incomeEvents]);
+}
+
+export async function getCachedIncomeEvents(assetIds: string[]): Promise<IncomeEvent[]> {
+  const incomeEvents = await getIncomeEvents() || [];
+  return incomeEvents.filter(e => assetIds.includes(e.asset_id));
+}
+
+export async function cacheLiabilities(liabilities: Liability[]): Promise<void> {
+  return saveLiabilities(liabilities);
+}
+
+export async function getCachedLiabilities(): Promise<Liability[]> {
+  return await getLiabilities() || [];
+}
+
+export async function cacheSnapshots(portfolioIds: string[], snapshots: PortfolioSnapshot[]): Promise<void> {
+  // Replace only the snapshots of the given portfolios
+  const existingSnapshots = await getSnapshots() || [];
+  const otherSnapshots = existingSnapshots.filter(s => !portfolioIds.includes(s.portfolio_id));
+  return saveSnapshots([...otherSnapshots, ...snapshots]);
+}
+
+export async function getCachedSnapshots(portfolioIds: string[]): Promise<PortfolioSnapshot[]> {
+  const snapshots = await getSnapshots() || [];
+  return snapshots.filter(s => portfolioIds.includes(s.portfolio_id));
+}
+
+export async function cacheBenchmarkPrices(symbols: string[], prices: BenchmarkPrice[]): Promise<void> {
+  // Replace only the history of the given symbols
+  const existingPrices = await getBenchmarkPrices() || [];
+  const otherPrices = existingPrices.filter(p => !symbols.includes(p.symbol));
+  return saveBenchmarkPrices([...otherPrices, ...prices]);
+}
+
+export async function getCachedBenchmarkPrices(symbols: string[]): Promise<BenchmarkPrice[]> {
+  const prices = await getBenchmarkPrices() || [];
+  return prices.filter(p => symbols.includes(p.symbol));
+}
+
+export async function cacheAlerts(alerts: PriceAlert[]): Promise<void> {
+  return saveAlerts(alerts);
+}
+
+export async function getCachedAlerts(): Promise<PriceAlert[]> {
+  return await getAlerts() || [];
+}
+
+export async function cacheAlertTriggers(alertId: string, triggers: AlertTrigger[]): Promise<void> {
+  const existingTriggers = await getAlertTriggers() || {};
+  return saveAlertTriggers({ ...existingTriggers, [alertId]: triggers });
+}
+
+export async function getCachedAlertTriggers(alertId: string): Promise<AlertTrigger[]> {
+  const triggers = await getAlertTriggers();
+  return triggers?.[alertId] ?? [];
+}
+
+export async function cacheWatchlists(watchlists: Watchlist[]): Promise<void> {
+  return saveWatchlists(watchlists);
+}
+
+export async function getCachedWatchlists(): Promise<Watchlist[]> {
+  return await getWatchlists() || [];
+}
+
+// Most recently seen listings kept for offline search
+const MAX_CACHED_SYMBOLS = 1000;
+
+export async function cacheSymbols(listings: SymbolListing[]): Promise<void> {
+  // Newer listings replace older copies of the same symbol and exchange
+  const key = (l: SymbolListing) => `${l.symbol}:${l.exchange ?? ''}`;
+  const incomingKeys = new Set(listings.map(key));
+  const existingListings = await getSymbolIndex() || [];
+  const otherListings = existingListings.filter(l => !incomingKeys.has(key(l)));
+  return saveSymbolIndex([...listings, ...otherListings].slice(0, MAX_CACHED_SYMBOLS));
+}
+
+export async function getCachedSymbols(): Promise<SymbolListing[]> {
+  return await getSymbolIndex() || [];
+}
+
+// Rate tables are cached for many dates at once; each write waits for the
+// previous one so none reads the tables before another has saved
+let fxRatesWrite: Promise<void> = Promise.resolve();
+
+export async function cacheFxRates(key: string, rateTable: FxRateTable): Promise<void> {
+  const write = fxRatesWrite.then(async () => {
+    // Tables are keyed by date, plus 'latest' for the current rates
+    const existingRates = await getFxRates() || {};
+    await saveFxRates({ ...existingRates, [key]: rateTable });
+  });
+  fxRatesWrite = write.catch(() => undefined);
+  return write;
+}
+
+export async function getCachedFxRates(key: string): Promise<FxRateTable | null> {
+  const rateTables = await getFxRates();
+  return rateTables?.[key] ?? null;
+}
+
 export async function cacheUserProfile(profile: UserProfile): Promise<void> {
   return saveUserProfile(profile);
 }
@@ -300,6 +944,28 @@ export const offlineStorage = {
   getPortfolios,
   saveAssets,
   getAssets,
+  saveTransactions,
+  getTransactions,
+  saveCashFlows,
+  getCashFlows,
+  saveIncomeEvents,
+  getIncomeEvents,
+  saveLiabilities,
+  getLiabilities,
+  saveSnapshots,
+  getSnapshots,
+  saveBenchmarkPrices,
+  getBenchmarkPrices,
+  saveAlerts,
+  getAlerts,
+  saveAlertTriggers,
+  getAlertTriggers,
+  saveWatchlists,
+  getWatchlists,
+  saveSymbolIndex,
+  getSymbolIndex,
+  saveFxRates,
+  getFxRates,
   saveUserProfile,
   getUserProfile,
   setLastUpdated,
@@ -315,6 +981,29 @@ export const offlineStorage = {
   cachePortfolios,
   getCachedPortfolios,
   cacheAssets,
+  getCachedAssets,
+  cacheTransactions,
+  getCachedTransactions,
+  cacheCashFlows,
+  getCachedCashFlows,
+  cacheIncomeEvents,
+  getCachedIncomeEvents,
+  cacheLiabilities,
+  getCachedLiabilities,
+  cacheSnapshots,
+  getCachedSnapshots,
+  cacheBenchmarkPrices,
+  getCachedBenchmarkPrices,
+  cacheAlerts,
+  getCachedAlerts,
+  cacheAlertTriggers,
+  getCachedAlertTriggers,
+  cacheWatchlists,
+  getCachedWatchlists,
+  cacheSymbols,
+  getCachedSymbols,
+  cacheFxRates,
+  getCachedFxRates,
   cacheUserProfile,
   removeFromQueue,
   removeFailedChanges,
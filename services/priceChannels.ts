@@ -0,0 +1,165 @@
+/**
+ * Price Channels
+ *
+ * Keeps one realtime channel per listing for the whole app, however many
+ * screens want its prices. Each channel is joined on its first subscriber
+ * and removed after its last one leaves; prices and status changes fan out
+ * to every subscriber. Dropped channels are rejoined with backoff.
+ */
+
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { realtimeService } from './api';
+import { getPriceTopic, getReconnectDelay, type ListingRef } from '../utils/realtimeSubscriptions';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface PriceChannelSubscriber {
+  /** Called with the payload of every price broadcast on the channel */
+  onPrice: (payload: unknown) => void;
+  /** Called when the channel joins, drops or fails */
+  onStatus: () => void;
+}
+
+export interface PriceChannelState {
+  joined: boolean;
+  /** Why the channel last dropped, until it rejoins */
+  error: string | null;
+}
+
+interface SharedChannel {
+  listing: ListingRef;
+  channel: RealtimeChannel | null;
+  joined: boolean;
+  error: string | null;
+  attempt: number;
+  retryTimer: ReturnType<typeof setTimeout> | null;
+  subscribers: Set<PriceChannelSubscriber>;
+}
+
+const channels = new Map<string, SharedChannel>();
+
+// ============================================================================
+// Channel Lifecycle
+// ============================================================================
+
+function notify(shared: SharedChannel): void {
+  Array.from(shared.subscribers).forEach((subscriber) => subscriber.onStatus());
+}
+
+function drop(shared: SharedChannel): void {
+  const dropped = shared.channel;
+  shared.channel = null;
+  shared.joined = false;
+  if (dropped) realtimeService.unsubscribe(dropped);
+}
+
+function join(topic: string, shared: SharedChannel): void {
+  const retry = (message: string) => {
+    if (channels.get(topic) !== shared || shared.retryTimer) return;
+    shared.error = message;
+
+    // Scheduled before the drop, so the CLOSED status the drop itself
+    // reports finds the retry already pending and is ignored
+    shared.retryTimer = setTimeout(() => {
+      shared.retryTimer = null;
+      if (channels.get(topic) === shared) join(topic, shared);
+    }, getReconnectDelay(shared.attempt));
+    shared.attempt += 1;
+
+    drop(shared);
+    notify(shared);
+  };
+
+  const broadcast = (payload: unknown) => {
+    Array.from(shared.subscribers).forEach((subscriber) => subscriber.onPrice(payload));
+  };
+
+  let channel: RealtimeChannel | null = null;
+  try {
+    channel = realtimeService.subscribeToPriceUpdates(shared.listing, broadcast, (status) => {
+      // A replaced channel can still report its own close
+      if (channel && shared.channel !== channel) return;
+      if (status === 'SUBSCRIBED') {
+        shared.joined = true;
+        shared.error = null;
+        shared.attempt = 0;
+        notify(shared);
+      } else if (status === 'CHANNEL_ERROR') {
+        retry('Failed to connect to price updates');
+      } else if (status === 'TIMED_OUT') {
+        retry('Connection timed out');
+      } else if (status === 'CLOSED') {
+        retry('Price updates disconnected');
+      }
+    });
+    shared.channel = channel;
+  } catch (error: unknown) {
+    retry(error instanceof Error ? error.message : 'Failed to subscribe to price updates');
+  }
+}
+
+function close(topic: string, shared: SharedChannel): void {
+  // Removed first, so the CLOSED status of its own removal is not retried
+  channels.delete(topic);
+  if (shared.retryTimer) clearTimeout(shared.retryTimer);
+  shared.retryTimer = null;
+  drop(shared);
+}
+
+// ============================================================================
+// Price Channels Service
+// ============================================================================
+
+export const priceChannels = {
+  /**
+   * Subscribe to a listing's prices, joining its channel if no one else has
+   * Returns the function that leaves it again.
+   */
+  subscribe(listing: ListingRef, subscriber: PriceChannelSubscriber): () => void {
+    const topic = getPriceTopic(listing);
+    let shared = channels.get(topic);
+    if (!shared) {
+      shared = { listing, channel: null, joined: false, error: null, attempt: 0, retryTimer: null, subscribers: new Set() };
+      channels.set(topic, shared);
+      shared.subscribers.add(subscriber);
+      join(topic, shared);
+    } else {
+      shared.subscribers.add(subscriber);
+    }
+
+    return () => {
+      // Looked up again, as a reconnect replaces the entry
+      const current = channels.get(topic);
+      if (!current || !current.subscribers.delete(subscriber)) return;
+      if (current.subscribers.size === 0) close(topic, current);
+    };
+  },
+
+  /**
+   * Whether a topic's channel is joined, and why it last dropped
+   */
+  getState(topic: string): PriceChannelState {
+    const shared = channels.get(topic);
+    return { joined: shared?.joined ?? false, error: shared?.error ?? null };
+  },
+
+  /**
+   * Rejoin a topic's channel now, without waiting for the backoff
+   */
+  reconnect(topic: string): void {
+    const shared = channels.get(topic);
+    if (!shared) return;
+    if (shared.retryTimer) clearTimeout(shared.retryTimer);
+    shared.retryTimer = null;
+    shared.attempt = 0;
+    shared.error = null;
+    // Replaced in the map first, so the old channel's close is not retried
+    const fresh: SharedChannel = { ...shared, channel: null, joined: false };
+    channels.set(topic, fresh);
+    drop(shared);
+    join(topic, fresh);
+    notify(fresh);
+  },
+};
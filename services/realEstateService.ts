@@ -0,0 +1,44 @@
+/**
+ * Real Estate Service
+ *
+ * Records dated manual valuations of property holdings. Each valuation is
+ * stored as a price history point so charts and returns pick it up, and the
+ * most recent one becomes the holding's current price.
+ */
+
+import { assetService, priceHistoryService } from './api';
+
+/** Asset fields needed to revalue a property */
+export interface PropertyHolding {
+  id: string;
+  quantity: number;
+  purchase_date: string;
+  current_price?: number;
+  metadata?: Record<string, any>;
+}
+
+// ============================================================================
+// Real Estate Service
+// ============================================================================
+
+export const realEstateService = {
+  /**
+   * Record the value of a whole property on a date (YYYY-MM-DD)
+   * Valuations dated before the latest one only fill in the history.
+   * Returns the asset with its updated row.
+   */
+  async recordRevaluation<T extends PropertyHolding>(asset: T, value: number, date: string): Promise<T> {
+    const price = value / (asset.quantity || 1);
+    // Midday UTC keeps the point on its calendar date in nearly every time zone
+    await priceHistoryService.addPrice(asset.id, price, `${date}T12:00:00.000Z`);
+
+    const latest = asset.metadata?.valued_at || asset.purchase_date.slice(0, 10);
+    if (date < latest) return asset;
+
+    const updated = await assetService.updateAsset(asset.id, {
+      current_price: price,
+      metadata: { ...asset.metadata, valued_at: date },
+    });
+    return { ...asset, ...updated };
+  },
+};
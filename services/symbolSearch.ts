@@ -0,0 +1,75 @@
+/**
+ * Symbol Search Service
+ *
+ * Searches the symbol directory on the server and keeps the listings it
+ * returns in a local index, so search keeps working offline. Also fetches
+ * validated live prices for a chosen listing.
+ */
+
+import { symbolDirectoryService } from './api';
+import { offlineStorage, SymbolListing } from './offlineStorage';
+import {
+  getPopularListings,
+  mergeListings,
+  parseQuote,
+  searchListings,
+  SEED_SYMBOLS,
+  type SymbolQuote,
+} from '../utils/symbolSearch';
+
+export interface SymbolSearchResult {
+  listings: SymbolListing[];
+  /** 'local' when the directory could not be reached */
+  source: 'remote' | 'local';
+}
+
+// ============================================================================
+// Symbol Search Service
+// ============================================================================
+
+export const symbolSearchService = {
+  /**
+   * Search the cached index and the built-in popular listings
+   */
+  async searchLocal(query: string, assetType: string): Promise<SymbolListing[]> {
+    if (!query.trim()) return getPopularListings(assetType);
+
+    const cached = await offlineStorage.getCachedSymbols();
+    return searchListings(mergeListings(cached, SEED_SYMBOLS), query, assetType);
+  },
+
+  /**
+   * Search the symbol directory, falling back to the local index when the
+   * server cannot be reached
+   */
+  async search(query: string, assetType: string): Promise<SymbolSearchResult> {
+    if (!query.trim()) {
+      return { listings: getPopularListings(assetType), source: 'local' };
+    }
+
+    try {
+      const remote = await symbolDirectoryService.search(query, assetType);
+      await offlineStorage.cacheSymbols(remote);
+      return { listings: searchListings(remote, query, assetType), source: 'remote' };
+    } catch (error) {
+      console.error('[SymbolSearch] Directory search failed, using local index:', error);
+      return { listings: await this.searchLocal(query, assetType), source: 'local' };
+    }
+  },
+
+  /**
+   * Get a validated live price for a listing
+   * Throws when the price handler does not return a usable price.
+   */
+  async getQuote(listing: SymbolListing): Promise<SymbolQuote> {
+    const data = await symbolDirectoryService.getQuote(listing.symbol, listing.asset_type, listing.exchange);
+    const quote = parseQuote(data, listing);
+    if (!quote) {
+      throw new Error(`No live price available for ${listing.symbol}`);
+    }
+
+    // Chosen listings stay searchable offline
+    await offlineStorage.cacheSymbols([listing]);
+    return quote;
+  },
+};
@@ -7,7 +7,14 @@
  * Requirements: Requirement 13 - Offline Mode (Data Sync)
  */
 
-import { offlineStorage, OfflineChange } from './offlineStorage';
+import {
+  offlineStorage,
+  OfflineChange,
+  TransactionType,
+  CostBasisMethod,
+  CashFlowType,
+  IncomeType,
+} from './offlineStorage';
 import { portfolioService, assetService, profileService } from './api';
 
 // ============================================================================
@@ -59,7 +66,8 @@ async function processChange(change: OfflineChange): Promise<boolean> {
       case 'UPDATE_PORTFOLIO': {
         await portfolioService.updatePortfolio(
           payload.portfolioId as string,
-          payload.name as string
+          payload.name as string,
+          payload.benchmark_symbols as string[] | undefined
         );
         return true;
       }
@@ -79,6 +87,7 @@ async function processChange(change: OfflineChange): Promise<boolean> {
           purchase_price: payload.purchase_price as number,
           purchase_date: payload.purchase_date as string,
           current_price: payload.current_price as number | undefined,
+          currency: payload.currency as string | undefined,
           metadata: payload.metadata as Record<string, unknown> | undefined,
         });
         return true;
@@ -91,6 +100,7 @@ async function processChange(change: OfflineChange): Promise<boolean> {
           purchase_price: payload.purchase_price as number | undefined,
           purchase_date: payload.purchase_date as string | undefined,
           current_price: payload.current_price as number | undefined,
+          currency: payload.currency as string | undefined,
           metadata: payload.metadata as Record<string, unknown> | undefined,
         });
         return true;
@@ -101,6 +111,75 @@ async function processChange(change: OfflineChange): Promise<boolean> {
         return true;
       }
 
+      case 'CREATE_TRANSACTION': {
+        await assetService.addTransaction(payload.assetId as string, {
+          transaction_type: payload.transaction_type as TransactionType,
+          quantity: payload.quantity as number,
+          price: payload.price as number,
+          fees: payload.fees as number | undefined,
+          transaction_date: payload.transaction_date as string,
+          notes: payload.notes as string | undefined,
+          lot_id: payload.lot_id as string | undefined,
+        });
+        return true;
+      }
+
+      case 'UPDATE_TRANSACTION': {
+        await assetService.updateTransaction(
+          payload.assetId as string,
+          payload.transactionId as string,
+          {
+            transaction_type: payload.transaction_type as TransactionType | undefined,
+            quantity: payload.quantity as number | undefined,
+            price: payload.price as number | undefined,
+            fees: payload.fees as number | undefined,
+            transaction_date: payload.transaction_date as string | undefined,
+            notes: payload.notes as string | undefined,
+            lot_id: payload.lot_id as string | undefined,
+          }
+        );
+        return true;
+      }
+
+      case 'DELETE_TRANSACTION': {
+        await assetService.deleteTransaction(
+          payload.assetId as string,
+          payload.transactionId as string
+        );
+        return true;
+      }
+
+      case 'CREATE_CASH_FLOW': {
+        await portfolioService.addCashFlow(payload.portfolioId as string, {
+          flow_type: payload.flow_type as CashFlowType,
+          amount: payload.amount as number,
+          flow_date: payload.flow_date as string,
+          notes: payload.notes as string | undefined,
+        });
+        return true;
+      }
+
+      case 'DELETE_CASH_FLOW': {
+        await portfolioService.deleteCashFlow(payload.cashFlowId as string);
+        return true;
+      }
+
+      case 'CREATE_INCOME_EVENT': {
+        await assetService.addIncomeEvent(payload.assetId as string, {
+          income_type: payload.income_type as IncomeType,
+          amount: payload.amount as number,
+          currency: payload.currency as string,
+          payment_date: payload.payment_date as string,
+          notes: payload.notes as string | undefined,
+        });
+        return true;
+      }
+
+      case 'DELETE_INCOME_EVENT': {
+        await assetService.deleteIncomeEvent(payload.incomeEventId as string);
+        return true;
+      }
+
       case 'UPDATE_PROFILE': {
         await profileService.updateProfile({
           first_name: payload.first_name as string | undefined,
@@ -108,6 +187,7 @@ async function processChange(change: OfflineChange): Promise<boolean> {
           phone: payload.phone as string | undefined,
           currency_preference: payload.currency_preference as string | undefined,
           language_preference: payload.language_preference as string | undefined,
+          cost_basis_method: payload.cost_basis_method as CostBasisMethod | undefined,
           avatar_url: payload.avatar_url as string | undefined,
         });
         return true;
@@ -235,6 +315,94 @@ export async function syncAssets(): Promise<boolean> {
   }
 }
 
+/**
+ * Sync transaction ledgers for all cached assets from server to local cache
+ * Server data takes priority (conflict resolution)
+ */
+export async function syncTransactions(): Promise<boolean> {
+  try {
+    const assets = await offlineStorage.getAssets();
+    if (!assets || assets.length === 0) {
+      return true; // No assets to sync transactions for
+    }
+
+    const assetIds = assets.map((asset) => asset.id);
+    const transactions = await assetService.getTransactionsForAssets(assetIds);
+    await offlineStorage.cacheTransactions(assetIds, transactions);
+    
+    return true;
+  } catch (error) {
+    console.error('Failed to sync transactions:', error);
+    return false;
+  }
+}
+
+/**
+ * Sync income events from server to local cache
+ * Server data takes priority (conflict resolution)
+ */
+export async function syncIncomeEvents(): Promise<boolean> {
+  try {
+    const assets = await offlineStorage.getAssets();
+    if (!assets || assets.length === 0) {
+      return true; // No assets to sync income for
+    }
+
+    const assetIds = assets.map((asset) => asset.id);
+    const incomeEvents = await assetService.getIncomeEvents(assetIds);
+    await offlineStorage.cacheIncomeEvents(assetIds, incomeEvents);
+    
+    return true;
+  } catch (error) {
+    console.error('Failed to sync income events:', error);
+    return false;
+  }
+}
+
+/**
+ * Sync portfolio contributions and withdrawals from server to local cache
+ * Server data takes priority (conflict resolution)
+ */
+export async function syncCashFlows(): Promise<boolean> {
+  try {
+    const portfolios = await offlineStorage.getCachedPortfolios();
+    if (!portfolios || portfolios.length === 0) {
+      return true; // No portfolios to sync cash flows for
+    }
+
+    const portfolioIds = portfolios.map((portfolio) => portfolio.id);
+    const cashFlows = await portfolioService.getCashFlows(portfolioIds);
+    await offlineStorage.cacheCashFlows(portfolioIds, cashFlows);
+    
+    return true;
+  } catch (error) {
+    console.error('Failed to sync cash flows:', error);
+    return false;
+  }
+}
+
+/**
+ * Sync portfolio value snapshots from server to local cache
+ * Server data takes priority (conflict resolution)
+ */
+export async function syncSnapshots(): Promise<boolean> {
+  try {
+    const portfolios = await offlineStorage.getCachedPortfolios();
+    if (!portfolios || portfolios.length === 0) {
+      return true; // No portfolios to sync snapshots for
+    }
+
+    const portfolioIds = portfolios.map((portfolio) => portfolio.id);
+    const snapshots = await portfolioService.getSnapshots(portfolioIds);
+    await offlineStorage.cacheSnapshots(portfolioIds, snapshots);
+    
+    return true;
+  } catch (error) {
+    console.error('Failed to sync snapshots:', error);
+    return false;
+  }
+}
+
 /**
  * Sync user profile from server to local cache
  * Server data takes priority (conflict resolution)
@@ -278,8 +446,18 @@ export async function fullSync(): Promise<SyncResult> {
 
   // Step 2: Sync data from server (pull latest data)
   const syncResults = await Promise.all([
-    syncPortfolios(),
-    syncAssets(),
+    // Cash flows and snapshots are cached per portfolio, so they sync after the portfolios
+    syncPortfolios().then(async (synced) => {
+      if (!synced) return false;
+      const results = await Promise.all([syncCashFlows(), syncSnapshots()]);
+      return results.every((result) => result === true);
+    }),
+    // Transactions and income are cached per asset, so they sync after the assets
+    syncAssets().then(async (synced) => {
+      if (!synced) return false;
+      const results = await Promise.all([syncTransactions(), syncIncomeEvents()]);
+      return results.every((result) => result === true);
+    }),
     syncUserProfile(),
   ]);
 
@@ -313,6 +491,10 @@ export const syncService = {
   processOfflineQueue,
   syncPortfolios,
   syncAssets,
+  syncTransactions,
+  syncIncomeEvents,
+  syncCashFlows,
+  syncSnapshots,
   syncUserProfile,
   fullSync,
   MAX_RETRY_ATTEMPTS,
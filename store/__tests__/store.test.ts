@@ -1,7 +1,7 @@
 import { store } from '../index';
 import { setCredentials, clearCredentials } from '../slices/authSlice';
 import { setPortfolios, selectPortfolio } from '../slices/portfolioSlice';
-import { setAssets, updateAssetPrice } from '../slices/assetsSlice';
+import { setAssets, setPriceQuotes, updateAssetPrice } from '../slices/assetsSlice';
 
 describe('Redux Store', () => {
   it('should have initial state', () => {
@@ -75,4 +75,16 @@ describe('Redux Store', () => {
     
     expect(state.assets.assets[0].current_price).toBe(190);
   });
+
+  it('should keep the newest quote of each asset', () => {
+    const at = (minutes: number) => new Date(Date.now() + minutes * 60 * 1000).toISOString();
+    const latest = at(60);
+    store.dispatch(updateAssetPrice({ id: '1', price: 200, timestamp: latest }));
+    store.dispatch(updateAssetPrice({ id: '1', price: 195, timestamp: at(30), source: 'polling' }));
+    store.dispatch(setPriceQuotes({ '1': { price: 198, as_of: at(45), source: 'polling' } }));
+    const state = store.getState();
+
+    expect(state.assets.assets[0].current_price).toBe(200);
+    expect(state.assets.quotes['1']).toEqual({ price: 200, as_of: latest, source: 'realtime' });
+  });
 });
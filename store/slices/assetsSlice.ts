@@ -1,6 +1,6 @@
 import { createSlice, PayloadAction } from '@reduxjs/toolkit';
-
-type AssetType = 'stock' | 'crypto' | 'commodity' | 'real_estate' | 'fixed_income' | 'other';
+import type { AssetType } from '../../services/offlineStorage';
+import { applyQuote, type PriceQuote, type PriceSource } from '../../utils/priceProvider';
 
 interface Asset {
   id: string;
@@ -12,6 +12,8 @@ interface Asset {
   purchase_price: number;
   purchase_date: string;
   current_price?: number;
+  currency?: string;
+  previous_close?: number;
   metadata?: Record<string, any>;
   created_at: string;
   updated_at: string;
@@ -22,6 +24,8 @@ interface AssetsState {
   isLoading: boolean;
   error: string | null;
   lastUpdated: string | null;
+  /** Latest quoted price of each asset and when it was quoted */
+  quotes: Record<string, PriceQuote>;
 }
 
 const initialState: AssetsState = {
@@ -29,6 +33,7 @@ const initialState: AssetsState = {
   isLoading: false,
   error: null,
   lastUpdated: null,
+  quotes: {},
 };
 
 const assetsSlice = createSlice({
@@ -37,6 +42,8 @@ const assetsSlice = createSlice({
   reducers: {
     setAssets: (state, action: PayloadAction<Asset[]>) => {
       state.assets = action.payload;
+      const ids = new Set(action.payload.map((asset) => asset.id));
+      state.quotes = Object.fromEntries(Object.entries(state.quotes).filter(([id]) => ids.has(id)));
       state.isLoading = false;
       state.error = null;
       state.lastUpdated = new Date().toISOString();
@@ -54,18 +61,29 @@ const assetsSlice = createSlice({
     },
     removeAsset: (state, action: PayloadAction<string>) => {
       state.assets = state.assets.filter(a => a.id !== action.payload);
+      delete state.quotes[action.payload];
       state.lastUpdated = new Date().toISOString();
     },
     updateAssetPrice: (
       state,
-      action: PayloadAction<{ id: string; price: number }>
+      action: PayloadAction<{ id: string; price: number; timestamp?: string; source?: PriceSource }>
     ) => {
-      const asset = state.assets.find(a => a.id === action.payload.id);
+      const { id, price, timestamp, source = 'realtime' } = action.payload;
+      const asset = state.assets.find(a => a.id === id);
       if (asset) {
-        asset.current_price = action.payload.price;
+        const quotes = applyQuote(state.quotes, id, { price, as_of: timestamp || new Date().toISOString(), source });
+        // Prices older than the one already shown are ignored
+        if (quotes === state.quotes) return;
+        state.quotes = quotes;
+        asset.current_price = price;
         state.lastUpdated = new Date().toISOString();
       }
     },
+    setPriceQuotes: (state, action: PayloadAction<Record<string, PriceQuote>>) => {
+      Object.entries(action.payload).forEach(([id, quote]) => {
+        state.quotes = applyQuote(state.quotes, id, quote);
+      });
+    },
     setLoading: (state, action: PayloadAction<boolean>) => {
       state.isLoading = action.payload;
     },
@@ -82,6 +100,7 @@ export const {
   updateAsset,
   removeAsset,
   updateAssetPrice,
+  setPriceQuotes,
   setLoading,
   setError,
 } = assetsSlice.actions;
@@ -1,10 +1,13 @@
 import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import type { AllocationTargets } from '../../services/offlineStorage';
 
 interface Portfolio {
   id: string;
   name: string;
   user_id: string;
   total_value: number;
+  benchmark_symbols?: string[];
+  allocation_targets?: AllocationTargets;
   created_at: string;
   updated_at: string;
 }
@@ -0,0 +1,180 @@
+/**
+ * Tests for alert condition validation, indicators and evaluation
+ *
+ * Property tests use fast-check with 100 iterations per property.
+ */
+
+import * as fc from 'fast-check';
+import type { AlertCondition, AlertRule } from '../../services/offlineStorage';
+import {
+  RULE_KINDS,
+  calculateRSI,
+  calculateSMA,
+  createRule,
+  describeCondition,
+  evaluateCondition,
+  evaluateRule,
+  getAlertCondition,
+  getConditionAlertType,
+  getConditionValue,
+  getHistoryStartDate,
+  getRequiredHistory,
+  TRADING_DAYS_PER_YEAR,
+  validateCondition,
+  validateRule,
+} from '../alertConditions';
+
+function condition(operator: 'and' | 'or', ...rules: AlertRule[]): AlertCondition {
+  return { operator, rules };
+}
+
+describe('Alert Condition Utilities', () => {
+  describe('validation', () => {
+    it('should accept the default rule of every kind', () => {
+      RULE_KINDS.forEach((kind) => expect(validateRule(createRule(kind, 100))).toBeNull());
+    });
+
+    it('should reject a price cross without a price', () => {
+      expect(validateRule(createRule('price_cross'))).toBe('Price must be greater than 0');
+    });
+
+    it('should need the fast average to be shorter than the slow one', () => {
+      expect(validateRule({ kind: 'ma_cross', direction: 'above', fast_period: 50, slow_period: 20 })).toBe(
+        'The fast average must be shorter than the slow one'
+      );
+      expect(validateRule({ kind: 'ma_cross', direction: 'above', fast_period: 1.5, slow_period: 20 })).not.toBeNull();
+    });
+
+    it('should keep RSI levels between 0 and 100', () => {
+      expect(validateRule({ kind: 'rsi', direction: 'below', threshold: 120, period: 14 })).not.toBeNull();
+      expect(validateRule({ kind: 'rsi', direction: 'below', threshold: 30, period: 14 })).toBeNull();
+    });
+
+    it('should need at least one rule and a known operator', () => {
+      expect(validateCondition(condition('and'))).toBe('Add at least one rule');
+      expect(validateCondition({ operator: 'xor' as 'and', rules: [createRule('week_52')] })).not.toBeNull();
+    });
+  });
+
+  describe('saved fields', () => {
+    it('should save single price and percentage rules under their old alert types', () => {
+      const price = condition('and', { kind: 'price_cross', direction: 'below', price: 90 });
+      expect(getConditionAlertType(price)).toBe('price_target');
+      expect(getConditionValue(price)).toBe(90);
+      expect(getConditionAlertType(condition('and', createRule('percent_change')))).toBe('percentage_change');
+    });
+
+    it('should save other conditions as custom conditions', () => {
+      const both = condition('or', createRule('price_cross', 100), createRule('week_52'));
+      expect(getConditionAlertType(both)).toBe('condition');
+      expect(getConditionAlertType(condition('and', createRule('rsi')))).toBe('condition');
+    });
+
+    it('should describe rules joined by the operator', () => {
+      const both = condition(
+        'and',
+        { kind: 'rsi', direction: 'below', threshold: 30, period: 14 },
+        { kind: 'volume_spike', multiple: 3, period: 20 }
+      );
+      expect(describeCondition(both)).toBe('14-day RSI below 30 and Volume 3× its 20-day average');
+    });
+
+    it('should turn alerts set before conditions into a single rule', () => {
+      const legacy = { alert_type: 'price_target', condition_value: 100, condition: null };
+      expect(getAlertCondition(legacy, 120)?.rules).toEqual([{ kind: 'price_cross', direction: 'below', price: 100 }]);
+      expect(getAlertCondition(legacy, 80)?.rules).toEqual([{ kind: 'price_cross', direction: 'above', price: 100 }]);
+      expect(getAlertCondition({ ...legacy, alert_type: 'maturity_reminder' })).toBeNull();
+    });
+
+    it('should ask for enough history for the longest indicator', () => {
+      expect(getRequiredHistory(condition('and', createRule('price_cross', 10)))).toBe(2);
+      expect(getRequiredHistory(condition('or', createRule('ma_cross'), createRule('rsi')))).toBe(201);
+    });
+
+    it('should read history far enough back for the closes, skipping weekends', () => {
+      const now = new Date('2024-06-30T12:00:00Z');
+      // 15 closes span three weeks, plus a margin for holidays
+      expect(getHistoryStartDate(15, now)).toBe('2024-05-30');
+      expect(getHistoryStartDate(TRADING_DAYS_PER_YEAR + 1, now)).toBe('2023-07-01');
+    });
+  });
+
+  describe('indicators', () => {
+    it('should average the last values', () => {
+      expect(calculateSMA([1, 2, 3, 4, 5], 3)).toBe(4);
+      expect(calculateSMA([1, 2], 3)).toBeNull();
+    });
+
+    it('should give an RSI of 100 for only gains and 0 for only losses', () => {
+      expect(calculateRSI([1, 2, 3, 4, 5, 6], 5)).toBe(100);
+      expect(calculateRSI([6, 5, 4, 3, 2, 1], 5)).toBe(0);
+      expect(calculateRSI([1, 2, 3], 5)).toBeNull();
+    });
+  });
+
+  describe('evaluation', () => {
+    it('should fire a price cross only on the day it crosses', () => {
+      const rule: AlertRule = { kind: 'price_cross', direction: 'above', price: 100 };
+      expect(evaluateRule(rule, { closes: [98, 101] })).toBe(true);
+      expect(evaluateRule(rule, { closes: [101, 102] })).toBe(false);
+      expect(evaluateRule({ ...rule, direction: 'below' }, { closes: [101, 99] })).toBe(true);
+    });
+
+    it('should fire a moving average crossover when the fast average moves past the slow one', () => {
+      const rule: AlertRule = { kind: 'ma_cross', direction: 'above', fast_period: 2, slow_period: 4 };
+      expect(evaluateRule(rule, { closes: [10, 10, 10, 9, 9, 12] })).toBe(true);
+      expect(evaluateRule(rule, { closes: [10, 10, 10, 9, 9, 9] })).toBe(false);
+      expect(evaluateRule(rule, { closes: [10, 12] })).toBeNull();
+    });
+
+    it('should compare the latest close with the last year for 52-week levels', () => {
+      expect(evaluateRule({ kind: 'week_52', extreme: 'high' }, { closes: [5, 8, 7, 9] })).toBe(true);
+      expect(evaluateRule({ kind: 'week_52', extreme: 'low' }, { closes: [5, 8, 7, 6] })).toBe(false);
+    });
+
+    it('should spot volume well above its average', () => {
+      const rule: AlertRule = { kind: 'volume_spike', multiple: 2, period: 3 };
+      expect(evaluateRule(rule, { closes: [1, 1, 1, 1], volumes: [100, 100, 100, 250] })).toBe(true);
+      expect(evaluateRule(rule, { closes: [1, 1, 1, 1], volumes: [100, 100, 100, 150] })).toBe(false);
+      expect(evaluateRule(rule, { closes: [1, 1, 1, 1] })).toBeNull();
+    });
+
+    it('should treat rules it cannot evaluate as not met', () => {
+      const history = { closes: [98, 101] };
+      const rsi = createRule('rsi');
+      const cross: AlertRule = { kind: 'price_cross', direction: 'above', price: 100 };
+      expect(evaluateCondition(condition('or', rsi, cross), history)).toBe(true);
+      expect(evaluateCondition(condition('and', rsi, cross), history)).toBe(false);
+    });
+  });
+
+  /**
+   * Property: AND is never met when OR is not
+   * For any rules and history, an AND condition holding implies the same
+   * rules combined with OR hold.
+   */
+  it('should never meet an AND condition without meeting the OR one', () => {
+    const rule = fc.oneof(
+      fc.record({
+        kind: fc.constant('price_cross' as const),
+        direction: fc.constantFrom('above' as const, 'below' as const),
+        price: fc.integer({ min: 1, max: 200 }),
+      }),
+      fc.record({ kind: fc.constant('week_52' as const), extreme: fc.constantFrom('high' as const, 'low' as const) }),
+      fc.record({
+        kind: fc.constant('percent_change' as const),
+        percent: fc.integer({ min: -50, max: 50 }).filter((p) => p !== 0),
+      })
+    );
+    fc.assert(
+      fc.property(
+        fc.array(rule, { minLength: 1, maxLength: 5 }),
+        fc.array(fc.integer({ min: 1, max: 200 }), { minLength: 2, maxLength: 30 }),
+        (rules, closes) =>
+          !evaluateCondition(condition('and', ...rules), { closes }) ||
+          evaluateCondition(condition('or', ...rules), { closes })
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
@@ -0,0 +1,227 @@
+/**
+ * Tests for the on-device alert engine, driven by a fake price stream
+ *
+ * Property tests use fast-check with 100 iterations per property.
+ */
+
+import * as fc from 'fast-check';
+import type { NotificationData } from '../../services/notifications';
+import type { PriceAlert } from '../../services/offlineStorage';
+import {
+  createAlertEngine,
+  createNotificationLedger,
+  createPriceStream,
+  toDailyCloses,
+  type AlertEngineOptions,
+} from '../alertEngine';
+
+const NOW = new Date('2024-03-01T15:00:00.000Z');
+
+function alert(overrides: Partial<PriceAlert> = {}): PriceAlert {
+  return {
+    id: 'alert-1',
+    asset_id: 'asset-1',
+    alert_type: 'price_target',
+    condition_value: 100,
+    is_active: true,
+    created_at: '2024-02-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function setup(alerts: PriceAlert[], options: Partial<AlertEngineOptions> = {}) {
+  const notifications: NotificationData[] = [];
+  const triggers: { alertId: string; updates: object; price: number }[] = [];
+  const stream = createPriceStream();
+  const engine = createAlertEngine({
+    alerts,
+    notify: (data) => notifications.push(data),
+    onTrigger: (a, updates, price) => triggers.push({ alertId: a.id, updates, price }),
+    getSubject: () => 'AAPL',
+    now: () => NOW,
+    ...options,
+  });
+  const disconnect = engine.connect(stream);
+  return { engine, stream, notifications, triggers, disconnect };
+}
+
+describe('Alert Engine', () => {
+  it('should fire when a price crosses the target between two prices', () => {
+    const { stream, notifications, triggers } = setup([alert()]);
+    stream.emit({ asset_id: 'asset-1', price: 98 });
+    stream.emit({ asset_id: 'asset-1', price: 99 });
+    expect(notifications).toHaveLength(0);
+
+    stream.emit({ asset_id: 'asset-1', price: 101 });
+    expect(notifications).toEqual([
+      {
+        type: 'price_alert',
+        title: 'AAPL alert',
+        body: 'Price crosses above 100.00 · now 101.00',
+        alertId: 'alert-1',
+        assetId: 'asset-1',
+        source: 'device',
+      },
+    ]);
+    expect(triggers).toEqual([
+      { alertId: 'alert-1', updates: { is_active: false, triggered_at: NOW.toISOString() }, price: 101 },
+    ]);
+  });
+
+  it('should only record where the condition stands on the first price', () => {
+    const { stream, notifications } = setup([alert()], {
+      history: { 'asset-1': { closes: [95, 98] } },
+    });
+    stream.emit({ asset_id: 'asset-1', price: 105 });
+    expect(notifications).toHaveLength(0);
+  });
+
+  it('should fire a one-shot alert once and a recurring alert on each new crossing', () => {
+    const once = setup([alert()]);
+    [98, 101, 97, 102].forEach((price) => once.stream.emit({ asset_id: 'asset-1', price }));
+    expect(once.notifications).toHaveLength(1);
+
+    const recurring = setup([alert({ frequency: 'recurring' })], { ledger: createNotificationLedger(0) });
+    [98, 101, 102, 97, 102].forEach((price) => recurring.stream.emit({ asset_id: 'asset-1', price }));
+    expect(recurring.notifications).toHaveLength(2);
+  });
+
+  it('should skip alerts that are snoozed or switched off', () => {
+    const { stream, notifications } = setup([
+      alert({ snoozed_until: '2024-03-01T18:00:00.000Z' }),
+      alert({ id: 'alert-2', is_active: false }),
+    ]);
+    [98, 101].forEach((price) => stream.emit({ asset_id: 'asset-1', price }));
+    expect(notifications).toHaveLength(0);
+  });
+
+  it('should not repeat an alert the server already pushed', () => {
+    const ledger = createNotificationLedger();
+    ledger.record('alert-1', 'price_alert', NOW.getTime() - 60 * 1000);
+    const { stream, notifications } = setup([alert({ frequency: 'recurring' })], { ledger });
+    [98, 101].forEach((price) => stream.emit({ asset_id: 'asset-1', price }));
+    expect(notifications).toHaveLength(0);
+  });
+
+  it('should match symbol alerts by symbol and exchange', () => {
+    const { stream, notifications } = setup([
+      alert({ asset_id: null, symbol: 'SHOP', exchange: 'TSX', alert_type: 'percentage_change', condition_value: 5 }),
+    ]);
+    stream.emit({ symbol: 'SHOP', exchange: 'NYSE', price: 100 });
+    stream.emit({ symbol: 'SHOP', exchange: 'NYSE', price: 110 });
+    expect(notifications).toHaveLength(0);
+
+    stream.emit({ symbol: 'SHOP', exchange: 'TSX', price: 100 });
+    stream.emit({ symbol: 'SHOP', exchange: 'TSX', price: 106 });
+    expect(notifications.map((n) => n.body)).toEqual(['Rises 5% in a day · now 106.00']);
+  });
+
+  it('should check conditions against daily closes when they are loaded', () => {
+    const { engine, stream, notifications } = setup([
+      alert({
+        alert_type: 'condition',
+        condition: { operator: 'and', rules: [{ kind: 'week_52', extreme: 'high' }] },
+      }),
+    ]);
+    engine.setHistory({ 'asset-1': { closes: [90, 95, 99] } });
+    stream.emit({ asset_id: 'asset-1', price: 98 });
+    stream.emit({ asset_id: 'asset-1', price: 100 });
+    expect(notifications.map((n) => n.body)).toEqual(['Hits a 52-week high · now 100.00']);
+  });
+
+  it('should ignore alerts that do not watch a price and stop when disconnected', () => {
+    const { stream, notifications, disconnect } = setup([
+      alert({ alert_type: 'maturity_reminder', condition_value: 30 }),
+      alert({ id: 'alert-2' }),
+    ]);
+    stream.emit({ asset_id: 'asset-1', price: 98 });
+    disconnect();
+    stream.emit({ asset_id: 'asset-1', price: 101 });
+    expect(notifications).toHaveLength(0);
+  });
+
+  it('should fire a portfolio alert when its rule becomes met', () => {
+    const rule = { kind: 'portfolio_value' as const, direction: 'above' as const, value: 10000 };
+    const { engine, notifications, triggers } = setup([
+      alert({ id: 'alert-2', asset_id: undefined, alert_type: 'portfolio_value', portfolio_id: 'p1', portfolio_rule: rule }),
+    ]);
+    const state = (value: number) => ({ holdings: [{ id: 'a', asset_type: 'stock', value, price: value }], previousValue: 9000 });
+
+    expect(engine.checkPortfolio('p1', state(9500))).toHaveLength(0);
+    expect(engine.checkPortfolio('p2', state(11000))).toHaveLength(0);
+    expect(engine.checkPortfolio('p1', state(11000))).toHaveLength(1);
+    expect(notifications).toEqual([
+      {
+        type: 'portfolio_alert',
+        title: 'AAPL alert',
+        body: 'Value crosses above 10,000.00 · now 11,000.00',
+        alertId: 'alert-2',
+        portfolioId: 'p1',
+        source: 'device',
+      },
+    ]);
+    expect(triggers).toEqual([
+      { alertId: 'alert-2', updates: { is_active: false, triggered_at: NOW.toISOString() }, price: 11000 },
+    ]);
+
+    engine.checkPortfolio('p1', state(9500));
+    engine.checkPortfolio('p1', state(11000));
+    expect(notifications).toHaveLength(1);
+  });
+
+  it('should not repeat a portfolio alert the server already pushed', () => {
+    const rule = { kind: 'concentration' as const, max_weight: 50 };
+    const ledger = createNotificationLedger();
+    // A push of another type for the same alert does not count
+    ledger.record('alert-2', 'allocation_alert', NOW.getTime() - 60 * 1000);
+    ledger.record('alert-3', 'price_alert', NOW.getTime() - 60 * 1000);
+    const { engine, notifications } = setup(
+      [
+        alert({ id: 'alert-2', asset_id: undefined, alert_type: 'concentration', portfolio_id: 'p1', portfolio_rule: rule }),
+        alert({ id: 'alert-3', asset_id: undefined, alert_type: 'concentration', portfolio_id: 'p1', portfolio_rule: rule }),
+      ],
+      { ledger }
+    );
+    const state = (weight: number) => ({
+      holdings: [
+        { id: 'a', asset_type: 'stock', value: weight, price: 1 },
+        { id: 'b', asset_type: 'bond', value: (100 - weight) / 2, price: 1 },
+        { id: 'c', asset_type: 'bond', value: (100 - weight) / 2, price: 1 },
+      ],
+    });
+
+    engine.checkPortfolio('p1', state(40));
+    engine.checkPortfolio('p1', state(70));
+    expect(notifications.map((n) => [n.alertId, n.type])).toEqual([['alert-3', 'allocation_alert']]);
+  });
+
+  it('should keep the last price of each day before today', () => {
+    expect(
+      toDailyCloses(
+        [
+          { price: 11, timestamp: '2024-02-28T20:00:00.000Z' },
+          { price: 10, timestamp: '2024-02-28T10:00:00.000Z' },
+          { price: 12, timestamp: '2024-02-29T20:00:00.000Z' },
+          { price: 13, timestamp: '2024-03-01T10:00:00.000Z' },
+        ],
+        '2024-03-01'
+      )
+    ).toEqual([11, 12]);
+  });
+
+  /**
+   * Property: one notification per firing
+   * However prices move, a one-shot alert notifies at most once and every
+   * notification comes from a crossing of the target.
+   */
+  it('should notify a one-shot alert at most once for any prices', () => {
+    fc.assert(
+      fc.property(fc.array(fc.integer({ min: 50, max: 150 }), { maxLength: 40 }), (prices) => {
+        const { stream, notifications } = setup([alert()]);
+        prices.forEach((price) => stream.emit({ asset_id: 'asset-1', price }));
+        return notifications.length <= 1;
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
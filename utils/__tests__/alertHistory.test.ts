@@ -0,0 +1,122 @@
+/**
+ * Tests for alert status, snoozing, re-arming and the trigger log
+ *
+ * Property tests use fast-check with 100 iterations per property.
+ */
+
+import * as fc from 'fast-check';
+import type { AlertDeliveryStatus, AlertTrigger } from '../../services/offlineStorage';
+import {
+  canTrigger,
+  getAlertFrequency,
+  getAlertStatus,
+  getRearmUpdates,
+  getSnoozeUpdates,
+  getTriggerUpdates,
+  sortTriggers,
+  summarizeTriggers,
+} from '../alertHistory';
+
+const NOW = '2024-03-01T12:00:00.000Z';
+
+function trigger(id: string, triggeredAt: string, status: AlertDeliveryStatus = 'delivered'): AlertTrigger {
+  return {
+    id,
+    alert_id: 'alert-1',
+    triggered_at: triggeredAt,
+    price: 150,
+    condition_value: 145,
+    delivery_status: status,
+  };
+}
+
+describe('Alert History Utilities', () => {
+  describe('getAlertStatus', () => {
+    it('should treat alerts without a frequency as one-shot', () => {
+      expect(getAlertFrequency({})).toBe('once');
+      expect(getAlertFrequency({ frequency: 'recurring' })).toBe('recurring');
+    });
+
+    it('should tell active, snoozed, fired and paused alerts apart', () => {
+      expect(getAlertStatus({ is_active: true }, NOW)).toBe('active');
+      expect(getAlertStatus({ is_active: true, snoozed_until: '2024-03-01T13:00:00.000Z' }, NOW)).toBe('snoozed');
+      expect(getAlertStatus({ is_active: false, triggered_at: '2024-02-28T10:00:00.000Z' }, NOW)).toBe('fired');
+      expect(getAlertStatus({ is_active: false, triggered_at: null }, NOW)).toBe('paused');
+    });
+
+    it('should wake a snoozed alert once the snooze ends', () => {
+      const alert = { is_active: true, snoozed_until: '2024-03-01T11:00:00.000Z' };
+      expect(getAlertStatus(alert, NOW)).toBe('active');
+      expect(canTrigger(alert, NOW)).toBe(true);
+    });
+
+    it('should call a switched-off recurring alert paused even after it fired', () => {
+      expect(
+        getAlertStatus({ is_active: false, frequency: 'recurring', triggered_at: '2024-02-28T10:00:00.000Z' }, NOW)
+      ).toBe('paused');
+    });
+  });
+
+  describe('state updates', () => {
+    it('should switch one-shot alerts off when they fire', () => {
+      expect(getTriggerUpdates({ frequency: 'once' }, NOW)).toEqual({ is_active: false, triggered_at: NOW });
+      expect(getTriggerUpdates({ frequency: 'recurring' }, NOW)).toEqual({ triggered_at: NOW });
+    });
+
+    it('should snooze from now for the given hours', () => {
+      expect(getSnoozeUpdates(24, new Date(NOW))).toEqual({ snoozed_until: '2024-03-02T12:00:00.000Z' });
+    });
+
+    it('should clear the fired and snoozed state when re-armed', () => {
+      expect(getRearmUpdates()).toEqual({ is_active: true, triggered_at: null, snoozed_until: null });
+    });
+  });
+
+  describe('trigger log', () => {
+    const triggers = [
+      trigger('a', '2024-02-01T10:00:00.000Z', 'opened'),
+      trigger('b', '2024-02-03T10:00:00.000Z', 'failed'),
+      trigger('c', '2024-02-02T10:00:00.000Z', 'delivered'),
+      trigger('d', '2024-02-04T10:00:00.000Z', 'pending'),
+    ];
+
+    it('should list newest triggers first', () => {
+      expect(sortTriggers(triggers).map((t) => t.id)).toEqual(['d', 'b', 'c', 'a']);
+    });
+
+    it('should count deliveries that finished', () => {
+      expect(summarizeTriggers(triggers)).toEqual({
+        count: 4,
+        lastTriggeredAt: '2024-02-04T10:00:00.000Z',
+        deliveryRate: (2 / 3) * 100,
+      });
+    });
+
+    it('should have no delivery rate while nothing has finished', () => {
+      expect(summarizeTriggers([])).toEqual({ count: 0, lastTriggeredAt: null, deliveryRate: null });
+      expect(summarizeTriggers([trigger('a', NOW, 'sent')]).deliveryRate).toBeNull();
+    });
+  });
+
+  /**
+   * Property: one-shot alerts fire once per arming
+   * After firing, a one-shot alert cannot fire again until re-armed,
+   * while a recurring alert can.
+   */
+  it('should hold a fired one-shot alert until it is re-armed', () => {
+    fc.assert(
+      fc.property(
+        fc.constantFrom('once' as const, 'recurring' as const),
+        fc.integer({ min: 0, max: 1000 }),
+        (frequency, minutesLater) => {
+          const alert = { is_active: true, frequency, snoozed_until: null, triggered_at: null };
+          const fired = { ...alert, ...getTriggerUpdates(alert, NOW) };
+          const later = new Date(new Date(NOW).getTime() + minutesLater * 60 * 1000).toISOString();
+          const rearmed = { ...fired, ...getRearmUpdates() };
+          return canTrigger(fired, later) === (frequency === 'recurring') && canTrigger(rearmed, later);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Tests for asset type metadata, defaults and metadata field validation
+ *
+ * Property tests use fast-check with 100 iterations per property.
+ */
+
+import * as fc from 'fast-check';
+import {
+  ASSET_TYPES,
+  ASSET_TYPE_INFO,
+  getAssetTypeInfo,
+  getDefaultMetadataValues,
+  parseAssetMetadata,
+} from '../assetTypes';
+
+describe('Asset Type Utilities', () => {
+  it('should describe every asset type', () => {
+    expect(ASSET_TYPES).toHaveLength(Object.keys(ASSET_TYPE_INFO).length);
+    expect(ASSET_TYPES).toEqual(expect.arrayContaining(['etf', 'mutual_fund', 'bond', 'option', 'forex']));
+    expect(getAssetTypeInfo('ETF').label).toBe('ETF');
+    expect(getAssetTypeInfo('warrant')).toBe(ASSET_TYPE_INFO.other);
+    expect(getAssetTypeInfo(undefined)).toBe(ASSET_TYPE_INFO.other);
+  });
+
+  describe('getDefaultMetadataValues', () => {
+    it('should start from field defaults', () => {
+      expect(getDefaultMetadataValues('option')).toEqual({
+        underlying_symbol: '',
+        option_type: 'call',
+        strike_price: '',
+        expiration_date: '',
+        contract_size: '100',
+      });
+      expect(getDefaultMetadataValues('stock')).toEqual({});
+    });
+
+    it('should prefill forex currencies from the pair', () => {
+      expect(getDefaultMetadataValues('forex', 'EUR/USD')).toEqual({ base_currency: 'EUR', quote_currency: 'USD' });
+      expect(getDefaultMetadataValues('forex', 'usdjpy')).toEqual({ base_currency: 'USD', quote_currency: 'JPY' });
+      expect(getDefaultMetadataValues('forex', 'BTC')).toEqual({ base_currency: '', quote_currency: '' });
+    });
+  });
+
+  describe('parseAssetMetadata', () => {
+    it('should convert option fields', () => {
+      const { metadata, errors } = parseAssetMetadata(
+        'option',
+        { underlying_symbol: ' aapl ', option_type: 'put', strike_price: '150', expiration_date: '2025-01-17', contract_size: '100' },
+        '2024-06-01'
+      );
+      expect(errors).toEqual({});
+      expect(metadata).toEqual({
+        underlying_symbol: 'AAPL',
+        option_type: 'put',
+        strike_price: 150,
+        expiration_date: '2025-01-17',
+        contract_size: 100,
+      });
+    });
+
+    it('should report missing and invalid option fields', () => {
+      const { errors } = parseAssetMetadata(
+        'option',
+        { underlying_symbol: '', option_type: 'straddle', strike_price: '-5', expiration_date: '2024-05-01' },
+        '2024-06-01'
+      );
+      expect(errors).toEqual({
+        underlying_symbol: 'Underlying is required',
+        option_type: 'Option Type must be one of: Call, Put',
+        strike_price: 'Strike Price must be a positive number',
+        expiration_date: 'Expiration Date must be after purchase date',
+      });
+    });
+
+    it('should leave out empty optional fields', () => {
+      const { metadata, errors } = parseAssetMetadata(
+        'bond',
+        { issuer: '', face_value: '1000', maturity_date: '2030-05-15', interest_rate: '4.25', payment_frequency: 'semiannual', day_count: '30/360' },
+        '2024-06-01'
+      );
+      expect(errors).toEqual({});
+      expect(metadata).toEqual({
+        face_value: 1000, maturity_date: '2030-05-15', interest_rate: 4.25, payment_frequency: 'semiannual', day_count: '30/360',
+      });
+    });
+
+    it('should validate ranges, dates and codes', () => {
+      expect(parseAssetMetadata('etf', { expense_ratio: '120' }, '2024-06-01').errors).toEqual({
+        expense_ratio: 'Expense Ratio must be between 0 and 100',
+      });
+      expect(parseAssetMetadata('fixed_income', { maturity_date: '15/05/2030' }, '2024-06-01').errors).toEqual({
+        maturity_date: 'Invalid date format (use YYYY-MM-DD)',
+      });
+      expect(parseAssetMetadata('forex', { base_currency: 'EURO', quote_currency: 'usd' }, '2024-06-01')).toEqual({
+        metadata: { quote_currency: 'USD' },
+        errors: { base_currency: 'Use a 3-letter currency code' },
+      });
+    });
+  });
+
+  /**
+   * Property: defaults are consistent
+   * For any asset type, its default metadata values contain only its own
+   * fields and report no errors other than required fields left empty.
+   */
+  it('should only require required fields in the defaults', () => {
+    fc.assert(
+      fc.property(fc.constantFrom(...ASSET_TYPES), (type) => {
+        const fields = ASSET_TYPE_INFO[type].metadataFields;
+        const { errors } = parseAssetMetadata(type, getDefaultMetadataValues(type), '2024-06-01');
+        return (
+          Object.keys(getDefaultMetadataValues(type)).length === fields.length &&
+          Object.keys(errors).every((key) => fields.some((field) => field.key === key && field.required))
+        );
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
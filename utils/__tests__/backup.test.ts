@@ -0,0 +1,290 @@
+/**
+ * Tests for account backup files, schema migration and restore planning
+ *
+ * Property tests use fast-check with 100 iterations per property.
+ */
+
+import * as fc from 'fast-check';
+import {
+  BACKUP_VERSION,
+  createBackup,
+  parseBackup,
+  planRestore,
+  remapAllocationTargets,
+  validateBackup,
+  type AccountBackup,
+  type BackupSource,
+  type RestoreTarget,
+} from '../backup';
+import { buildExportData, toJson } from '../dataExport';
+
+const stamp = '2024-01-01T00:00:00Z';
+
+// Server fields such as triggered_at are not part of a backup
+const triggeredAlerts = [
+  { id: 'l1', asset_id: 'a1', alert_type: 'price_target', condition_value: 450, is_active: true, triggered_at: stamp },
+];
+
+const source: BackupSource = {
+  portfolios: [
+    {
+      id: 'p1',
+      name: 'Growth',
+      benchmark_symbols: ['SPY'],
+      allocation_targets: {
+        targets: [{ scope: 'asset_type', key: 'stock', weight: 60 }, { scope: 'asset', key: 'a2', weight: 40 }],
+        drift_band: 5,
+      },
+    },
+    { id: 'p2', name: 'Income' },
+  ],
+  assets: [
+    {
+      id: 'a1', portfolio_id: 'p1', asset_type: 'stock', symbol: 'MSFT', name: 'Microsoft',
+      quantity: 10, purchase_price: 300, purchase_date: '2023-05-01T00:00:00Z', current_price: 400,
+    },
+    { id: 'a2', portfolio_id: 'p1', asset_type: 'crypto', symbol: 'BTC', name: 'Bitcoin', quantity: 0.5, purchase_price: 30000, purchase_date: '2023-06-01' },
+    { id: 'a3', portfolio_id: 'p2', asset_type: 'real_estate', name: 'Flat', quantity: 1, purchase_price: 200000, purchase_date: '2020-01-01' },
+  ],
+  transactions: [
+    { id: 't1', asset_id: 'a1', transaction_type: 'buy', quantity: 15, price: 280, transaction_date: '2023-05-01' },
+    { id: 't2', asset_id: 'a1', transaction_type: 'sell', quantity: 5, price: 350, fees: 2, transaction_date: '2023-09-01', lot_id: 't1' },
+  ],
+  cash_flows: [{ portfolio_id: 'p1', flow_type: 'contribution', amount: 5000, flow_date: '2023-04-30' }],
+  income_events: [{ asset_id: 'a1', income_type: 'dividend', amount: 7.5, currency: 'USD', payment_date: '2023-06-15' }],
+  snapshots: [{ portfolio_id: 'p2', snapshot_date: '2023-12-31', total_value: 210000, currency: 'USD' }],
+  valuations: [{ asset_id: 'a3', price: 210000, timestamp: '2023-12-31T00:00:00Z' }],
+  watchlists: [
+    {
+      id: 'w1',
+      name: 'Tech',
+      items: [{ id: 'i1', watchlist_id: 'w1', symbol: 'NVDA', name: 'Nvidia', asset_type: 'stock', exchange: 'NASDAQ', created_at: stamp }],
+    },
+  ],
+  liabilities: [
+    {
+      id: 'd1', name: 'Mortgage', liability_type: 'mortgage', balance: 150000, balance_date: '2023-01-01',
+      interest_rate: 3.5, term_months: 240, currency: 'USD', asset_id: 'a3',
+    },
+  ],
+  alerts: [
+    ...triggeredAlerts,
+    { id: 'l2', asset_id: null, symbol: 'NVDA', exchange: 'NASDAQ', asset_type: 'stock', alert_type: 'price_target', condition_value: 900, is_active: true },
+    {
+      id: 'l3', asset_id: null, portfolio_id: 'p1', alert_type: 'portfolio_value', condition_value: 50000, is_active: true,
+      portfolio_rule: { kind: 'portfolio_value', direction: 'above', value: 50000 },
+    },
+  ],
+  preferences: { currency_preference: 'EUR', cost_basis_method: 'fifo' },
+  settings: { notifications_enabled: false, dark_mode_enabled: true, chart_view: 'area' },
+};
+
+const backup = createBackup(source, stamp);
+
+const emptyTarget: RestoreTarget = { portfolios: [], assets: [], watchlists: [], liabilities: [], alerts: [] };
+
+const toV2 = ({ transactions, cash_flows, income_events, snapshots, valuations, watchlists, liabilities, ...rest }: AccountBackup) => ({
+  ...rest,
+  version: 2,
+  alerts: rest.alerts.filter((a) => a.asset_id),
+});
+
+describe('Backup Utilities', () => {
+  describe('createBackup', () => {
+    it('should keep only restorable fields', () => {
+      expect(backup.version).toBe(BACKUP_VERSION);
+      expect(backup.portfolios[1]).toEqual({ id: 'p2', name: 'Income' });
+      expect(backup.assets[0]).toEqual({
+        id: 'a1', portfolio_id: 'p1', asset_type: 'stock', symbol: 'MSFT', name: 'Microsoft',
+        quantity: 10, purchase_price: 300, purchase_date: '2023-05-01', current_price: 400, currency: 'USD',
+      });
+      expect(backup.alerts[0]).not.toHaveProperty('triggered_at');
+      expect(backup.settings).toEqual(source.settings);
+    });
+
+    it('should keep ledgers, history, watchlists, liabilities and every alert', () => {
+      expect(backup.transactions[1]).toEqual({
+        id: 't2', asset_id: 'a1', transaction_type: 'sell', quantity: 5, price: 350, fees: 2, transaction_date: '2023-09-01', lot_id: 't1',
+      });
+      expect(backup.watchlists[0].items).toEqual([{ symbol: 'NVDA', name: 'Nvidia', asset_type: 'stock', exchange: 'NASDAQ' }]);
+      expect(backup.liabilities[0]).toMatchObject({ id: 'd1', asset_id: 'a3', term_months: 240, credit_limit: null });
+      expect(backup.alerts.map((a) => a.asset_id ?? a.symbol ?? a.portfolio_id)).toEqual(['a1', 'NVDA', 'p1']);
+      expect(backup.alerts[1]).not.toHaveProperty('asset_id');
+    });
+  });
+
+  describe('parseBackup', () => {
+    it('should read back a written backup', () => {
+      expect(parseBackup(JSON.stringify(backup))).toEqual({ backup, errors: [] });
+    });
+
+    it('should reject files that are not backups', () => {
+      expect(parseBackup('{oops').errors).toEqual(['File is not valid JSON']);
+      expect(parseBackup('{"portfolios": []}').errors[0]).toMatch('missing schema version');
+      expect(parseBackup(JSON.stringify({ ...backup, version: BACKUP_VERSION + 1 })).errors[0]).toMatch('newer version');
+    });
+
+    it('should migrate a version 1 JSON export', () => {
+      const exported = buildExportData(
+        {
+          portfolios: source.portfolios.map((p) => ({ ...p, user_id: 'u1', total_value: 0, created_at: stamp, updated_at: stamp })),
+          assets: backup.assets.map((a) => ({ ...a, asset_type: a.asset_type as 'stock', created_at: stamp, updated_at: stamp })),
+          transactions: [],
+          alerts: [{ id: 'l1', asset_id: 'a1', alert_type: 'price_target', condition_value: 450, is_active: true, created_at: stamp }],
+        },
+        { portfolioIds: ['p1', 'p2'] },
+        stamp
+      );
+      const parsed = parseBackup(toJson(exported));
+
+      expect(parsed.errors).toEqual([]);
+      expect(parsed.migratedFrom).toBe(1);
+      expect(parsed.backup!.incomplete).toBe(true);
+      expect(parsed.backup!.assets).toHaveLength(3);
+      const msft = parsed.backup!.assets.find((a) => a.symbol === 'MSFT')!;
+      expect(msft).toMatchObject({ portfolio_id: 'p1', quantity: 10, purchase_price: 300 });
+      expect(parsed.backup!.alerts).toEqual([
+        { id: 'alert-1', asset_id: msft.id, alert_type: 'price_target', condition_value: 450, is_active: true },
+      ]);
+    });
+
+    it('should migrate a version 2 backup without history', () => {
+      const parsed = parseBackup(JSON.stringify(toV2(backup)));
+
+      expect(parsed.errors).toEqual([]);
+      expect(parsed.migratedFrom).toBe(2);
+      expect(parsed.backup).toMatchObject({ version: BACKUP_VERSION, incomplete: true, transactions: [], watchlists: [] });
+      expect(parsed.backup!.assets).toEqual(backup.assets);
+    });
+
+    it('should reject records that are not objects', () => {
+      const parsed = parseBackup(JSON.stringify({ ...backup, assets: ['Microsoft'], transactions: 'none' }));
+      expect(parsed.backup).toBeNull();
+      expect(parsed.errors).toEqual(['Backup is missing its transactions']);
+      expect(parseBackup(JSON.stringify({ ...backup, assets: [null] })).errors).toContain('Asset 1 is missing an id, name or type');
+    });
+  });
+
+  it('should report broken records and links', () => {
+    const broken: AccountBackup = {
+      ...backup,
+      assets: [{ ...backup.assets[0], portfolio_id: 'missing', quantity: -1, purchase_date: '05/01/2023' }],
+      transactions: [{ ...backup.transactions[0], asset_id: 'a9' }, { ...backup.transactions[1], transaction_type: 'gift' as never }],
+      cash_flows: [{ ...backup.cash_flows[0], portfolio_id: 'p9' }],
+      liabilities: [{ ...backup.liabilities[0], asset_id: 'a9' }],
+      alerts: [
+        { ...backup.alerts[0], asset_id: 'a9' },
+        { ...backup.alerts[2], portfolio_id: 'p9' },
+        { id: 'l4', alert_type: 'price_target', condition_value: 1, is_active: true },
+      ],
+      preferences: { cost_basis_method: 'hifo' as never },
+    };
+    expect(validateBackup(broken)).toEqual([
+      'Asset 1 (Microsoft) belongs to an unknown portfolio',
+      'Asset 1 (Microsoft) has an invalid quantity',
+      'Asset 1 (Microsoft) has an invalid purchase date',
+      'Transaction 1 refers to an unknown asset',
+      'Transaction 2 has an invalid id, type, quantity, price or date',
+      'Cash flow 1 refers to an unknown portfolio',
+      'Valuation 1 refers to an unknown asset',
+      'Liability 1 (Mortgage) is secured by an unknown asset',
+      'Alert 1 refers to an unknown asset',
+      'Alert 2 refers to an unknown portfolio',
+      'Alert 3 has no asset, portfolio or symbol',
+      'Unknown cost basis method "hifo"',
+    ]);
+  });
+
+  describe('planRestore', () => {
+    const target: RestoreTarget = {
+      portfolios: [{ id: 'x1', name: ' growth ' }, { id: 'x2', name: 'Trading' }],
+      assets: [{ id: 'y1', portfolio_id: 'x1', asset_type: 'stock', symbol: 'msft', name: 'MSFT' }],
+      watchlists: [{ id: 'v1', name: 'tech' }],
+      liabilities: [{ id: 'k1', name: 'Car loan', liability_type: 'loan' }],
+      alerts: [
+        { id: 'z1', asset_id: 'y1', alert_type: 'price_target', condition_value: 450 },
+        { id: 'z2', asset_id: null, portfolio_id: 'x1', alert_type: 'portfolio_value', condition_value: 50000 },
+      ],
+    };
+
+    it('should create everything when restoring into an empty account', () => {
+      const plan = planRestore(backup, emptyTarget, 'merge');
+      expect(plan.portfolios.every((p) => !p.existingId)).toBe(true);
+      expect(plan.assets).toHaveLength(3);
+      expect(plan.transactions).toEqual(backup.transactions);
+      expect(plan.alerts).toHaveLength(3);
+    });
+
+    it('should merge into matching portfolios and skip duplicates', () => {
+      const plan = planRestore(backup, target, 'merge');
+      expect(plan.portfolios.map((p) => p.existingId)).toEqual(['x1', undefined]);
+      expect(plan.assets.map((a) => a.existingId)).toEqual(['y1', undefined, undefined]);
+      expect(plan.alerts.map((a) => a.id)).toEqual(['l2']);
+      expect(plan.watchlists).toEqual([]);
+      expect(plan.liabilities).toEqual(backup.liabilities);
+      expect(plan).toMatchObject({ deletePortfolioIds: [], skippedAssets: 1, skippedAlerts: 2, skippedWatchlists: 1 });
+    });
+
+    it('should only restore the history of records it creates', () => {
+      const plan = planRestore(backup, target, 'merge');
+      // Microsoft and the Growth portfolio are already in the account
+      expect(plan.transactions).toEqual([]);
+      expect(plan.income_events).toEqual([]);
+      expect(plan.cash_flows).toEqual([]);
+      expect(plan.snapshots).toEqual(backup.snapshots);
+      expect(plan.valuations).toEqual(backup.valuations);
+    });
+
+    it('should delete existing data when replacing', () => {
+      const plan = planRestore(backup, target, 'replace');
+      expect(plan.deletePortfolioIds).toEqual(['x1', 'x2']);
+      expect(plan.deleteAlertIds).toEqual(['z1', 'z2']);
+      expect(plan.deleteWatchlistIds).toEqual(['v1']);
+      expect(plan.deleteLiabilityIds).toEqual(['k1']);
+      expect(plan.portfolios.every((p) => !p.existingId)).toBe(true);
+      expect(plan.assets.every((a) => !a.existingId)).toBe(true);
+      expect(plan.transactions).toEqual(backup.transactions);
+      expect(plan.alerts).toHaveLength(3);
+    });
+
+    it('should only merge backups without history', () => {
+      const migrated = parseBackup(JSON.stringify(toV2(backup))).backup!;
+      expect(() => planRestore(migrated, target, 'replace')).toThrow('can only be merged');
+      expect(planRestore(migrated, emptyTarget, 'merge').assets).toHaveLength(3);
+    });
+  });
+
+  it('should point asset targets at restored assets', () => {
+    const remapped = remapAllocationTargets(backup.portfolios[0].allocation_targets!, { a2: 'new-a2' });
+    expect(remapped.targets).toEqual([
+      { scope: 'asset_type', key: 'stock', weight: 60 },
+      { scope: 'asset', key: 'new-a2', weight: 40 },
+    ]);
+    expect(remapAllocationTargets(backup.portfolios[0].allocation_targets!, {}).targets).toHaveLength(1);
+  });
+
+  /**
+   * Property: replace restores everything
+   * For any existing account, a replace plan deletes every existing
+   * portfolio and creates every record in the backup.
+   */
+  it('should plan a full restore in replace mode', () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.record({ id: fc.uuid(), name: fc.string() }), { maxLength: 5 }),
+        (portfolios) => {
+          const plan = planRestore(backup, { ...emptyTarget, portfolios }, 'replace');
+          return (
+            plan.deletePortfolioIds.length === portfolios.length &&
+            plan.portfolios.length === backup.portfolios.length &&
+            plan.assets.length === backup.assets.length &&
+            plan.transactions.length === backup.transactions.length &&
+            plan.snapshots.length === backup.snapshots.length &&
+            plan.alerts.length === backup.alerts.length
+          );
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Tests for benchmark overlays and alpha
+ *
+ * Property tests use fast-check with 100 iterations per property.
+ */
+
+import * as fc from 'fast-check';
+import type { BenchmarkPrice } from '../../services/offlineStorage';
+import {
+  BENCHMARK_COLORS,
+  buildBenchmarkSeries,
+  calculateAlpha,
+  getBenchmarkColor,
+  getBenchmarkName,
+  getBenchmarkReturn,
+  normalizeBenchmark,
+} from '../benchmarks';
+
+function price(symbol: string, date: string, value: number): BenchmarkPrice {
+  return { symbol, price_date: date, price: value };
+}
+
+const prices: BenchmarkPrice[] = [
+  price('SPY', '2024-01-01', 400),
+  price('SPY', '2024-01-03', 440),
+  price('SPY', '2024-01-04', 420),
+  price('QQQ', '2024-01-01', 1),
+];
+
+const series = [
+  { timestamp: '2024-01-01T12:00:00.000Z', value: 1000 },
+  { timestamp: '2024-01-02T12:00:00.000Z', value: 1050 },
+  { timestamp: '2024-01-03T12:00:00.000Z', value: 1200 },
+  { timestamp: '2024-01-04T12:00:00.000Z', value: 1100 },
+];
+
+describe('Benchmark Utilities', () => {
+  it('should name known benchmarks and fall back to the symbol', () => {
+    expect(getBenchmarkName('SPY')).toBe('S&P 500');
+    expect(getBenchmarkName('EWJ')).toBe('EWJ');
+  });
+
+  it('should color benchmarks by their position, cycling through the palette', () => {
+    expect(getBenchmarkColor(1)).toBe(BENCHMARK_COLORS[1]);
+    expect(getBenchmarkColor(BENCHMARK_COLORS.length)).toBe(BENCHMARK_COLORS[0]);
+  });
+
+  describe('normalizeBenchmark', () => {
+    it('should start at the first portfolio value and carry prices across gaps', () => {
+      const rebased = normalizeBenchmark(prices, 'SPY', series);
+      expect(rebased.map((point) => point.value)).toEqual([1000, 1000, 1100, 1050]);
+      expect(rebased.map((point) => point.timestamp)).toEqual(series.map((point) => point.timestamp));
+    });
+
+    it('should be empty without prices for the symbol', () => {
+      expect(normalizeBenchmark(prices, 'VT', series)).toEqual([]);
+      expect(normalizeBenchmark(prices, 'SPY', [])).toEqual([]);
+    });
+
+    /**
+     * Property: the rebased series tracks the benchmark's return
+     * For any prices and starting value, the last point divided by the
+     * first equals the benchmark's return over the same days.
+     */
+    it('should grow by the benchmark return for any prices', () => {
+      fc.assert(
+        fc.property(
+          fc.array(fc.double({ min: 1, max: 1000, noNaN: true }), { minLength: 4, maxLength: 4 }),
+          fc.double({ min: 1, max: 1e6, noNaN: true }),
+          (closes, start) => {
+            const spy = closes.map((close, i) => price('SPY', `2024-01-0${i + 1}`, close));
+            const rebased = normalizeBenchmark(spy, 'SPY', series.map((point) => ({ ...point, value: start })));
+            const growth = rebased[rebased.length - 1].value / rebased[0].value - 1;
+            const expected = getBenchmarkReturn(spy, 'SPY', '2024-01-01', '2024-01-04')!;
+            return Math.abs(rebased[0].value - start) < 1e-6 && Math.abs(growth - expected) < 1e-9;
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+  });
+
+  describe('alpha', () => {
+    it('should measure the benchmark return between two days', () => {
+      expect(getBenchmarkReturn(prices, 'SPY', '2024-01-01', '2024-01-03')).toBeCloseTo(0.1);
+      expect(getBenchmarkReturn(prices, 'VT', '2024-01-01', '2024-01-03')).toBeNull();
+    });
+
+    it('should subtract the benchmark return from the portfolio return', () => {
+      expect(calculateAlpha(0.15, 0.1)).toBeCloseTo(0.05);
+      expect(calculateAlpha(null, 0.1)).toBeNull();
+      expect(calculateAlpha(0.15, null)).toBeNull();
+    });
+
+    it('should build overlays only for benchmarks with prices', () => {
+      const overlays = buildBenchmarkSeries(['SPY', 'VT'], prices, series, {
+        startDate: '2024-01-01',
+        endDate: '2024-01-04',
+        twr: 0.1,
+      });
+      expect(overlays).toHaveLength(1);
+      expect(overlays[0].symbol).toBe('SPY');
+      expect(overlays[0].alpha).toBeCloseTo(0.05);
+    });
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Tests for broker CSV import parsing, mapping and validation
+ *
+ * Property tests use fast-check with 100 iterations per property.
+ */
+
+import * as fc from 'fast-check';
+import {
+  buildImportPreview,
+  detectDateOrder,
+  isAmbiguousDate,
+  isImportable,
+  normalizeAssetType,
+  parseCsv,
+  parseCsvRows,
+  parseDate,
+  parseNumber,
+  suggestMapping,
+  type ImportOptions,
+} from '../csvImport';
+
+const options: ImportOptions = {
+  portfolioId: 'p1',
+  defaultAssetType: 'stock',
+  today: '2024-06-01',
+};
+
+describe('CSV Import Utilities', () => {
+  describe('parseCsv', () => {
+    it('should handle quoted cells, escaped quotes and blank lines', () => {
+      const rows = parseCsv('Symbol,Description,Quantity\r\nAAPL,"Apple, Inc.",10\r\n\r\nX,"The ""X"" Co",1.5\r\n');
+      expect(rows).toEqual([
+        ['Symbol', 'Description', 'Quantity'],
+        ['AAPL', 'Apple, Inc.', '10'],
+        ['X', 'The "X" Co', '1.5'],
+      ]);
+    });
+
+    it('should keep the line each row starts on past blank lines and quoted line breaks', () => {
+      const rows = parseCsvRows('Symbol,Note\r\n\r\nAAPL,"two\nlines"\nMSFT,x\n');
+      expect(rows.map((row) => row.line)).toEqual([1, 3, 5]);
+      expect(rows[1].cells).toEqual(['AAPL', 'two\nlines']);
+    });
+
+    it('should detect semicolon and tab delimiters', () => {
+      expect(parseCsv('Symbol;Qty\nSAP;3')).toEqual([['Symbol', 'Qty'], ['SAP', '3']]);
+      expect(parseCsv('\uFEFFSymbol\tQty\nBTC\t0.5')).toEqual([['Symbol', 'Qty'], ['BTC', '0.5']]);
+    });
+
+    /**
+     * Property: quoting round-trips
+     * For any grid of cells, writing it as quoted CSV and parsing it back
+     * returns the same (trimmed) cells.
+     */
+    it('should read back any quoted grid', () => {
+      fc.assert(
+        fc.property(
+          fc.array(fc.array(fc.string({ minLength: 1 }), { minLength: 2, maxLength: 2 }), { minLength: 1, maxLength: 5 }),
+          (grid) => {
+            const rows = grid.map((row) => row.map((cell) => (cell.trim() === '' ? 'x' : cell)));
+            const text = rows.map((row) => row.map((cell) => `"${cell.replace(/"/g, '""')}"`).join(',')).join('\n');
+            return JSON.stringify(parseCsv(text)) === JSON.stringify(rows.map((row) => row.map((cell) => cell.trim())));
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+  });
+
+  it('should suggest columns from broker headers', () => {
+    expect(suggestMapping(['Account Name', 'Symbol', 'Description', 'Quantity', 'Last Price', 'Average Cost Basis', 'Date Acquired']))
+      .toEqual({ symbol: 1, name: 2, quantity: 3, current_price: 4, purchase_price: 5, purchase_date: 6 });
+    expect(suggestMapping(['Ticker', 'Shares', 'Avg Price'])).toEqual({ symbol: 0, quantity: 1, purchase_price: 2 });
+  });
+
+  describe('parseNumber', () => {
+    it('should read broker number formats', () => {
+      expect(parseNumber('$1,234.50')).toBe(1234.5);
+      expect(parseNumber('1.234,56 €')).toBeCloseTo(1234.56);
+      expect(parseNumber('12,5')).toBe(12.5);
+      expect(parseNumber('1,000')).toBe(1000);
+      expect(parseNumber('(42.10)')).toBe(-42.1);
+      expect(parseNumber('n/a')).toBeNull();
+      expect(parseNumber('')).toBeNull();
+    });
+  });
+
+  describe('parseDate', () => {
+    it('should read common date formats', () => {
+      expect(parseDate('2024-03-05')).toBe('2024-03-05');
+      expect(parseDate('2024-03-05T10:00:00Z')).toBe('2024-03-05');
+      expect(parseDate('3/5/2024')).toBe('2024-03-05');
+      expect(parseDate('05.03.2024')).toBe('2024-03-05');
+      expect(parseDate('02/30/2024')).toBeNull();
+      expect(parseDate('yesterday')).toBeNull();
+    });
+
+    it('should read slash dates day first when asked', () => {
+      expect(parseDate('3/5/2024', 'dmy')).toBe('2024-05-03');
+      expect(parseDate('25/12/2023', 'dmy')).toBe('2023-12-25');
+      expect(parseDate('25/12/2023')).toBeNull();
+    });
+
+    it('should tell the date order from days over 12 and flag dates that read either way', () => {
+      expect(detectDateOrder(['03/05/2024', '25/12/2023'])).toBe('dmy');
+      expect(detectDateOrder(['03/05/2024', '12/25/2023', undefined])).toBe('mdy');
+      expect(detectDateOrder(['03/05/2024'])).toBeNull();
+      expect(detectDateOrder(['25/12/2023', '12/25/2023'])).toBeNull();
+      expect(isAmbiguousDate('03/05/2024')).toBe(true);
+      expect(isAmbiguousDate('05/05/2024')).toBe(false);
+      expect(isAmbiguousDate('2024-03-05')).toBe(false);
+    });
+  });
+
+  it('should map asset classes to asset types', () => {
+    expect(normalizeAssetType('Equity')).toBe('stock');
+    expect(normalizeAssetType('Bonds')).toBe('bond');
+    expect(normalizeAssetType('Mutual Fund')).toBe('mutual_fund');
+    expect(normalizeAssetType('Warrant')).toBeNull();
+  });
+
+  describe('buildImportPreview', () => {
+    const mapping = { symbol: 0, quantity: 1, purchase_price: 2, purchase_date: 3 };
+
+    it('should build assets from valid rows with defaults', () => {
+      const [row] = buildImportPreview([{ line: 2, cells: ['aapl', '10', '150', '01/15/2024'] }], mapping, options);
+      expect(row.errors).toEqual([]);
+      expect(row.asset).toEqual({
+        portfolio_id: 'p1',
+        asset_type: 'stock',
+        symbol: 'AAPL',
+        name: 'AAPL',
+        quantity: 10,
+        purchase_price: 150,
+        purchase_date: '2024-01-15',
+        currency: 'USD',
+      });
+    });
+
+    it('should flag invalid rows', () => {
+      const [row] = buildImportPreview([{ line: 4, cells: ['', '-1', 'abc', '2025-01-01'] }], mapping, options);
+      expect(row.asset).toBeNull();
+      expect(row.errors).toEqual([
+        'Missing symbol or name',
+        'Quantity must be greater than zero',
+        'Missing or invalid purchase price',
+        'Purchase date is in the future',
+      ]);
+      expect(row.line).toBe(4);
+    });
+
+    it('should flag ambiguous dates until the date order is known', () => {
+      const rows = [
+        { line: 2, cells: ['AAPL', '1', '100', '03/05/2024'] },
+        { line: 3, cells: ['MSFT', '1', '100', '04/06/2024'] },
+      ];
+      expect(buildImportPreview(rows, mapping, options)[0].errors).toEqual([
+        'Ambiguous purchase date "03/05/2024": choose the date format',
+      ]);
+      const [row] = buildImportPreview(rows, mapping, { ...options, dateOrder: 'dmy' });
+      expect(row.asset?.purchase_date).toBe('2024-05-03');
+      const [detected] = buildImportPreview(
+        [...rows, { line: 4, cells: ['SAP', '1', '100', '20/05/2024'] }],
+        mapping,
+        options
+      );
+      expect(detected.asset?.purchase_date).toBe('2024-05-03');
+    });
+
+    it('should flag duplicates of existing assets and earlier rows', () => {
+      const rows = buildImportPreview(
+        [
+          { line: 2, cells: ['AAPL', '1', '100', ''] },
+          { line: 3, cells: ['MSFT', '1', '100', ''] },
+          { line: 4, cells: ['msft', '2', '110', ''] },
+        ],
+        mapping,
+        options,
+        [{ id: 'a1', asset_type: 'stock', symbol: 'AAPL', name: 'Apple' }]
+      );
+      expect(rows[0].duplicateOfAssetId).toBe('a1');
+      expect(rows[1].duplicateOfLine).toBeUndefined();
+      expect(rows[2].duplicateOfLine).toBe(3);
+      expect(rows.filter((row) => isImportable(row, false))).toHaveLength(1);
+      expect(rows.filter((row) => isImportable(row, true))).toHaveLength(3);
+    });
+  });
+});
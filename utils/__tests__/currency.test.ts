@@ -0,0 +1,126 @@
+/**
+ * Tests for the currency and FX utilities
+ *
+ * Property tests use fast-check with 100 iterations per property.
+ */
+
+import * as fc from 'fast-check';
+import {
+  calculateFxBreakdown,
+  convertAmount,
+  formatMoney,
+  getCurrencySymbol,
+  getFxRate,
+  getMissingRates,
+  getRatesOnDate,
+} from '../currency';
+
+const rates = { EUR: 0.9, GBP: 0.8, JPY: 150 };
+
+describe('Currency Utilities', () => {
+  describe('getFxRate', () => {
+    it('should return 1 for the same currency', () => {
+      expect(getFxRate('EUR', 'EUR', {})).toBe(1);
+    });
+
+    it('should convert from and to the base currency', () => {
+      expect(getFxRate('USD', 'EUR', rates)).toBe(0.9);
+      expect(getFxRate('EUR', 'USD', rates)).toBeCloseTo(1 / 0.9);
+    });
+
+    it('should cross through the base currency', () => {
+      expect(getFxRate('EUR', 'GBP', rates)).toBeCloseTo(0.8 / 0.9);
+    });
+
+    it('should return null when a currency is missing', () => {
+      expect(getFxRate('CHF', 'USD', rates)).toBeNull();
+    });
+  });
+
+  describe('convertAmount', () => {
+    it('should not convert amounts whose rate is unknown', () => {
+      expect(convertAmount(100, 'CHF', 'USD', rates)).toBeNull();
+    });
+
+    it('should list the currencies that cannot be converted', () => {
+      expect(getMissingRates(['USD', 'SEK', 'EUR', 'CHF', 'SEK'], { currency: 'USD', rates })).toEqual(['CHF', 'SEK']);
+    });
+
+    /**
+     * Property: round trip
+     * Converting to another currency and back returns the original amount.
+     */
+    it('should round-trip any amount between supported currencies', () => {
+      fc.assert(
+        fc.property(
+          fc.double({ min: 0, max: 1e9, noNaN: true }),
+          fc.constantFrom('USD', 'EUR', 'GBP', 'JPY'),
+          fc.constantFrom('USD', 'EUR', 'GBP', 'JPY'),
+          (amount, from, to) => {
+            const back = convertAmount(convertAmount(amount, from, to, rates)!, to, from, rates)!;
+            return Math.abs(back - amount) <= 1e-9 * Math.max(1, amount);
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+  });
+
+  describe('getRatesOnDate', () => {
+    const history = { '2024-01-05': { EUR: 0.91 }, '2024-01-08': { EUR: 0.92 } };
+
+    it('should use the latest earlier table when the date has none', () => {
+      expect(getRatesOnDate(history, '2024-01-06')).toEqual({ EUR: 0.91 });
+      expect(getRatesOnDate(history, '2024-01-08T12:00:00Z')).toEqual({ EUR: 0.92 });
+    });
+
+    it('should return null before the first table', () => {
+      expect(getRatesOnDate(history, '2024-01-01')).toBeNull();
+    });
+  });
+
+  describe('calculateFxBreakdown', () => {
+    const lots = [{ acquiredDate: '2024-01-05', quantity: 10, costPerUnit: 100 }];
+
+    it('should split the gain into price and FX effects', () => {
+      // Bought 1,000 EUR of stock at 1.10 USD/EUR; now worth 1,200 EUR at 1.25 USD/EUR
+      const breakdown = calculateFxBreakdown(lots, 120, 'EUR', {
+        currency: 'USD',
+        rates: { EUR: 0.8 },
+        historicalRates: { '2024-01-05': { EUR: 1 / 1.1 } },
+      })!;
+
+      expect(breakdown.costBasis).toBeCloseTo(1100);
+      expect(breakdown.marketValue).toBeCloseTo(1500);
+      expect(breakdown.priceGain).toBeCloseTo(250);
+      expect(breakdown.fxGain).toBeCloseTo(150);
+    });
+
+    it('should report no FX gain without historical rates', () => {
+      const breakdown = calculateFxBreakdown(lots, 120, 'EUR', { currency: 'USD', rates: { EUR: 0.8 } })!;
+      expect(breakdown.fxGain).toBeCloseTo(0);
+      expect(breakdown.priceGain).toBeCloseTo(250);
+    });
+
+    it('should report no FX gain for holdings in the reporting currency', () => {
+      const breakdown = calculateFxBreakdown(lots, 120, 'USD', { currency: 'USD', rates });
+      expect(breakdown).toEqual({ costBasis: 1000, marketValue: 1200, priceGain: 200, fxGain: 0 });
+    });
+
+    it('should not value holdings in a currency without a rate', () => {
+      expect(calculateFxBreakdown(lots, 120, 'CHF', { currency: 'USD', rates })).toBeNull();
+    });
+  });
+
+  describe('formatting', () => {
+    it('should format amounts in the given currency', () => {
+      expect(formatMoney(1234.5, 'USD')).toBe('$1,234.50');
+      expect(formatMoney(1234.5, 'EUR')).toBe('€1,234.50');
+    });
+
+    it('should fall back to the code for unknown symbols', () => {
+      expect(getCurrencySymbol('GBP')).toBe('£');
+      expect(getCurrencySymbol('SEK')).toBe('SEK');
+    });
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Tests for on-device CSV and JSON exports
+ *
+ * Property tests use fast-check with 100 iterations per property.
+ */
+
+import * as fc from 'fast-check';
+import type { Asset, AssetTransaction, Portfolio, PriceAlert } from '../../services/offlineStorage';
+import { parseCsv } from '../csvImport';
+import {
+  buildExportData,
+  EXPORT_VERSION,
+  formatCsv,
+  getExportFilename,
+  isInDateRange,
+  toCsv,
+  toJson,
+  type ExportSource,
+} from '../dataExport';
+
+const stamp = '2024-01-01T00:00:00Z';
+
+const portfolio = (id: string, name: string): Portfolio => ({
+  id, name, user_id: 'u1', total_value: 0, created_at: stamp, updated_at: stamp,
+});
+
+const asset = (id: string, portfolioId: string, symbol: string, extra: Partial<Asset> = {}): Asset => ({
+  id,
+  portfolio_id: portfolioId,
+  asset_type: 'stock',
+  symbol,
+  name: symbol,
+  quantity: 10,
+  purchase_price: 100,
+  purchase_date: '2023-06-01',
+  created_at: stamp,
+  updated_at: stamp,
+  ...extra,
+});
+
+const transaction = (id: string, assetId: string, date: string): AssetTransaction => ({
+  id,
+  asset_id: assetId,
+  transaction_type: 'buy',
+  quantity: 5,
+  price: 100,
+  transaction_date: date,
+  created_at: stamp,
+  updated_at: stamp,
+});
+
+const alert = (id: string, assetId: string): PriceAlert => ({
+  id, asset_id: assetId, alert_type: 'price_target', condition_value: 150, is_active: true, created_at: stamp,
+});
+
+const source: ExportSource = {
+  portfolios: [portfolio('p1', 'Growth'), portfolio('p2', 'Income')],
+  assets: [
+    asset('a1', 'p1', 'MSFT', { current_price: 120, currency: 'EUR' }),
+    asset('a2', 'p1', 'AAPL'),
+    asset('a3', 'p2', 'AGG'),
+  ],
+  transactions: [
+    transaction('t1', 'a1', '2024-03-01'),
+    transaction('t2', 'a1', '2023-12-31'),
+    transaction('t3', 'a2', '2024-02-01'),
+    transaction('t4', 'a3', '2024-02-01'),
+  ],
+  alerts: [alert('l1', 'a1'), alert('l2', 'a3')],
+};
+
+describe('Data Export Utilities', () => {
+  it('should treat range bounds as inclusive and missing bounds as open', () => {
+    expect(isInDateRange('2024-01-01', { startDate: '2024-01-01', endDate: '2024-01-31' })).toBe(true);
+    expect(isInDateRange('2024-01-31T23:00:00Z', { endDate: '2024-01-31' })).toBe(true);
+    expect(isInDateRange('2023-12-31', { startDate: '2024-01-01' })).toBe(false);
+    expect(isInDateRange('1999-01-01', {})).toBe(true);
+  });
+
+  describe('buildExportData', () => {
+    const data = buildExportData(source, { portfolioIds: ['p1'], startDate: '2024-01-01' }, stamp);
+
+    it('should export only the selected portfolios', () => {
+      expect(data.portfolios).toEqual([{ id: 'p1', name: 'Growth' }]);
+      expect(data.holdings.map((h) => h.symbol)).toEqual(['AAPL', 'MSFT']);
+      expect(data.alerts.map((a) => a.symbol)).toEqual(['MSFT']);
+    });
+
+    it('should value holdings and fall back to the purchase price', () => {
+      const [aapl, msft] = data.holdings;
+      expect(aapl).toMatchObject({ portfolio: 'Growth', current_price: 100, currency: 'USD', market_value: 1000 });
+      expect(msft).toMatchObject({ current_price: 120, currency: 'EUR', market_value: 1200 });
+    });
+
+    it('should limit transactions to the date range, oldest first', () => {
+      expect(data.transactions.map((t) => [t.symbol, t.transaction_date])).toEqual([
+        ['AAPL', '2024-02-01'],
+        ['MSFT', '2024-03-01'],
+      ]);
+      expect(data).toMatchObject({ version: EXPORT_VERSION, start_date: '2024-01-01', end_date: null });
+    });
+  });
+
+  it('should write a titled CSV section per table', () => {
+    const rows = parseCsv(toCsv(buildExportData(source, { portfolioIds: ['p2'] }, stamp)));
+    expect(rows[0]).toEqual(['Holdings']);
+    expect(rows[1][0]).toBe('portfolio');
+    expect(rows[2].slice(0, 3)).toEqual(['Income', 'AGG', 'AGG']);
+    expect(rows.map((row) => row[0])).toEqual(expect.arrayContaining(['Transactions', 'Alerts']));
+  });
+
+  it('should write JSON that parses back to the export', () => {
+    const data = buildExportData(source, { portfolioIds: ['p1', 'p2'] }, stamp);
+    expect(JSON.parse(toJson(data))).toEqual(data);
+  });
+
+  it('should name files by date and format', () => {
+    expect(getExportFilename('csv', '2024-05-06T07:08:09Z')).toBe('portfolio-export-2024-05-06.csv');
+  });
+
+  /**
+   * Property: CSV cells round-trip
+   * For any grid of cells, the written CSV parses back to the same cells,
+   * including commas, quotes and line breaks inside cells. Semicolons are
+   * left out because the reader would take them for the delimiter.
+   */
+  it('should read back any written grid', () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.array(fc.string({ minLength: 1 }).map((s) => s.replace(/;/g, '.')), { minLength: 3, maxLength: 3 }), { minLength: 1, maxLength: 5 }),
+        (grid) => {
+          const rows = grid.map((row) => row.map((cell) => (cell.trim() === '' ? 'x' : cell.trim())));
+          return JSON.stringify(parseCsv(formatCsv(rows))) === JSON.stringify(rows);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Tests for fixed income accrued interest, yield to maturity, valuation and
+ * cash-flow schedules
+ *
+ * Property tests use fast-check with 100 iterations per property.
+ */
+
+import * as fc from 'fast-check';
+import {
+  buildCashFlowSchedule,
+  calculateAccruedInterest,
+  calculateYieldToMaturity,
+  countDays,
+  getBondTerms,
+  getCouponPeriod,
+  valueAtYield,
+  valueFixedIncome,
+  type BondTerms,
+} from '../fixedIncome';
+
+const bond = {
+  asset_type: 'bond',
+  quantity: 1,
+  purchase_price: 1000,
+  purchase_date: '2024-06-15',
+  metadata: {
+    face_value: 1000,
+    interest_rate: 5,
+    payment_frequency: 'semiannual',
+    day_count: '30/360',
+    maturity_date: '2030-06-15',
+  },
+};
+
+const terms = getBondTerms(bond)!;
+
+describe('Fixed Income Utilities', () => {
+  it('should read terms from metadata', () => {
+    expect(terms).toEqual({
+      faceValue: 1000,
+      couponRate: 5,
+      frequency: 'semiannual',
+      dayCount: '30/360',
+      maturityDate: '2030-06-15',
+    });
+    expect(getBondTerms({ ...bond, metadata: { interest_rate: 5 } })).toBeNull();
+
+    // A deposit without a face value or day count is principal at the default convention
+    const deposit = getBondTerms({
+      asset_type: 'fixed_income', quantity: 1, purchase_price: 10000, metadata: { maturity_date: '2026-01-01' },
+    });
+    expect(deposit).toMatchObject({ faceValue: 10000, couponRate: 0, dayCount: '30/360' });
+  });
+
+  it('should count days by convention', () => {
+    expect(countDays('2024-01-31', '2024-03-01', '30/360')).toBe(31);
+    expect(countDays('2024-01-30', '2024-01-31', '30/360')).toBe(0);
+    expect(countDays('2024-01-31', '2024-03-01', 'actual/365')).toBe(30);
+  });
+
+  describe('calculateAccruedInterest', () => {
+    it('should accrue a share of the coupon period', () => {
+      expect(getCouponPeriod(terms, '2024-09-15')).toEqual({ start: '2024-06-15', end: '2024-12-15' });
+      expect(calculateAccruedInterest(terms, '2024-09-15')).toBeCloseTo(12.5, 6);
+      expect(calculateAccruedInterest(terms, '2024-06-15')).toBe(0);
+    });
+
+    it('should accrue by the day for actual/360 and actual/365', () => {
+      expect(calculateAccruedInterest({ ...terms, dayCount: 'actual/360' }, '2024-09-15')).toBeCloseTo(50 * 92 / 360, 6);
+      expect(calculateAccruedInterest({ ...terms, dayCount: 'actual/365' }, '2024-09-15')).toBeCloseTo(50 * 92 / 365, 6);
+    });
+  });
+
+  it('should list coupons and principal until maturity', () => {
+    expect(buildCashFlowSchedule(terms, '2029-01-01')).toEqual([
+      { date: '2029-06-15', coupon: 25, principal: 0, total: 25 },
+      { date: '2029-12-15', coupon: 25, principal: 0, total: 25 },
+      { date: '2030-06-15', coupon: 25, principal: 1000, total: 1025 },
+    ]);
+    expect(buildCashFlowSchedule(terms, '2030-06-15')).toEqual([]);
+  });
+
+  describe('valueFixedIncome', () => {
+    it('should value a bond bought at par at its coupon rate', () => {
+      const valuation = valueFixedIncome(bond, '2024-09-15')!;
+      expect(valuation.yieldToMaturity).toBeCloseTo(5, 6);
+      expect(valuation.accruedInterest).toBeCloseTo(12.5, 6);
+      expect(valuation.currentValue).toBeCloseTo(1000 * Math.sqrt(1.025), 4);
+      expect(valuation.nextCouponDate).toBe('2024-12-15');
+      expect(valuation.isMatured).toBe(false);
+    });
+
+    it('should accrete a discount bond towards face value', () => {
+      const discounted = { ...bond, purchase_price: 900 };
+      const early = valueFixedIncome(discounted, '2025-06-15')!;
+      const late = valueFixedIncome(discounted, '2029-06-15')!;
+      expect(early.yieldToMaturity!).toBeGreaterThan(5);
+      expect(early.cleanValue).toBeGreaterThan(900);
+      expect(late.cleanValue).toBeGreaterThan(early.cleanValue);
+      expect(late.cleanValue).toBeLessThan(1000);
+    });
+
+    it('should be worth face value once matured', () => {
+      expect(valueFixedIncome(bond, '2030-07-01')).toMatchObject({
+        currentValue: 1000,
+        accruedInterest: 0,
+        nextCouponDate: null,
+        isMatured: true,
+      });
+    });
+  });
+
+  /**
+   * Property: yield round trip
+   * For any price paid on any date before maturity, valuing the bond at
+   * the yield that price implies gives back the price.
+   */
+  it('should reproduce the price from its yield to maturity', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 600, max: 1400 }),
+        fc.integer({ min: 0, max: 2000 }),
+        fc.constantFrom<BondTerms['dayCount']>('30/360', 'actual/360', 'actual/365', 'actual/actual'),
+        (price, offsetDays, dayCount) => {
+          const bondTerms = { ...terms, dayCount };
+          const date = new Date(Date.UTC(2024, 5, 15) + offsetDays * 86400000).toISOString().slice(0, 10);
+          const ytm = calculateYieldToMaturity(bondTerms, price, date);
+          return ytm !== null && Math.abs(valueAtYield(bondTerms, ytm, date) - price) < 0.01;
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
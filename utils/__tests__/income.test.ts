@@ -0,0 +1,113 @@
+/**
+ * Tests for income totals and projections
+ *
+ * Property tests use fast-check with 100 iterations per property.
+ */
+
+import * as fc from 'fast-check';
+import {
+  addMonths,
+  buildIncomeCalendar,
+  getDefaultIncomeType,
+  getPaymentFrequency,
+  projectIncome,
+  sumIncome,
+  type IncomeAsset,
+} from '../income';
+
+const fx = { currency: 'USD', rates: { EUR: 0.5 } };
+
+const bond: IncomeAsset = {
+  id: 'bond-1',
+  asset_type: 'fixed_income',
+  quantity: 1,
+  purchase_price: 10000,
+  purchase_date: '2023-03-15',
+  currency: 'USD',
+  metadata: { interest_rate: 5, maturity_date: '2025-09-30' },
+};
+
+describe('Income Utilities', () => {
+  describe('addMonths', () => {
+    it('should clamp to the end of shorter months', () => {
+      expect(addMonths('2024-01-31', 1)).toBe('2024-02-29');
+      expect(addMonths('2024-03-31', -6)).toBe('2023-09-30');
+      expect(addMonths('2024-11-15', 3)).toBe('2025-02-15');
+    });
+  });
+
+  describe('defaults', () => {
+    it('should pick the usual income for each asset type', () => {
+      expect(getDefaultIncomeType('stock')).toBe('dividend');
+      expect(getDefaultIncomeType('fixed_income')).toBe('coupon');
+      expect(getDefaultIncomeType('real_estate')).toBe('rent');
+      expect(getDefaultIncomeType('crypto')).toBe('staking');
+    });
+
+    it('should default bonds to semi-annual payments', () => {
+      expect(getPaymentFrequency({ asset_type: 'fixed_income' })).toBe('semiannual');
+      expect(getPaymentFrequency({ asset_type: 'other' })).toBe('annual');
+      expect(getPaymentFrequency({ asset_type: 'other', metadata: { payment_frequency: 'monthly' } })).toBe('monthly');
+    });
+  });
+
+  it('should total income in the reporting currency', () => {
+    expect(sumIncome([{ amount: 10, currency: 'USD' }, { amount: 10, currency: 'EUR' }], fx)).toBeCloseTo(30);
+  });
+
+  it('should leave out income in a currency without a rate', () => {
+    expect(sumIncome([{ amount: 10, currency: 'USD' }, { amount: 10, currency: 'SEK' }], fx)).toBeCloseTo(10);
+  });
+
+  describe('projectIncome', () => {
+    it('should pay coupons on dates counted back from maturity', () => {
+      const payments = projectIncome(bond, '2024-01-01', '2025-12-31');
+      expect(payments.map((p) => p.date)).toEqual(['2024-03-30', '2024-09-30', '2025-03-30', '2025-09-30']);
+      expect(payments[0].amount).toBe(250);
+      expect(payments[0].income_type).toBe('coupon');
+    });
+
+    it('should count forward from the purchase date without a maturity', () => {
+      const deposit: IncomeAsset = {
+        ...bond,
+        asset_type: 'other',
+        metadata: { interest_rate: 12, payment_frequency: 'quarterly', face_value: 1000 },
+      };
+      const payments = projectIncome(deposit, '2024-01-01', '2024-06-30');
+      expect(payments.map((p) => p.date)).toEqual(['2024-03-15', '2024-06-15']);
+      expect(payments[0].amount).toBe(30);
+    });
+
+    it('should project nothing without an interest rate', () => {
+      expect(projectIncome({ ...bond, metadata: {} }, '2024-01-01', '2025-01-01')).toEqual([]);
+    });
+
+    /**
+     * Property: a full year pays the annual coupon
+     * For any rate and frequency, the payments in the year before maturity
+     * add up to the rate applied to the principal.
+     */
+    it('should pay the annual rate over any full year before maturity', () => {
+      fc.assert(
+        fc.property(
+          fc.double({ min: 0.1, max: 20, noNaN: true }),
+          fc.constantFrom('monthly', 'quarterly', 'semiannual', 'annual'),
+          (rate, frequency) => {
+            const asset = { ...bond, metadata: { interest_rate: rate, payment_frequency: frequency, maturity_date: '2030-06-15' } };
+            const total = projectIncome(asset, '2029-06-15', '2030-06-15').reduce((sum, p) => sum + p.amount, 0);
+            return Math.abs(total - (10000 * rate) / 100) < 1e-6;
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+  });
+
+  it('should list every month of the calendar, including empty ones', () => {
+    const payments = projectIncome(bond, '2024-01-01', '2024-12-31');
+    const calendar = buildIncomeCalendar(payments, '2024-01-01', '2024-12-31', fx);
+    expect(calendar).toHaveLength(12);
+    expect(calendar[2]).toMatchObject({ month: '2024-03', total: 250 });
+    expect(calendar[3].payments).toEqual([]);
+  });
+});
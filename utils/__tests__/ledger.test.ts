@@ -0,0 +1,322 @@
+/**
+ * Tests for the transaction ledger utilities
+ *
+ * Property tests use fast-check with 100 iterations per property.
+ */
+
+import * as fc from 'fast-check';
+import type { AssetTransaction, CostBasisMethod, TransactionType } from '../../services/offlineStorage';
+import {
+  calculateUnrealizedGain,
+  derivePosition,
+  getAssetLedger,
+  sortTransactions,
+  validateDeletion,
+  validateTransaction,
+} from '../ledger';
+
+function transaction(
+  id: string,
+  type: TransactionType,
+  quantity: number,
+  price: number,
+  date: string,
+  fees = 0
+): AssetTransaction {
+  return {
+    id,
+    asset_id: 'asset-1',
+    transaction_type: type,
+    quantity,
+    price,
+    fees,
+    transaction_date: date,
+    created_at: `${date}T00:00:00.000Z`,
+    updated_at: `${date}T00:00:00.000Z`,
+  };
+}
+
+describe('Ledger Utilities', () => {
+  describe('derivePosition', () => {
+    it('should return an empty position for an empty ledger', () => {
+      const position = derivePosition([]);
+      expect(position.quantity).toBe(0);
+      expect(position.costBasis).toBe(0);
+      expect(position.averageCost).toBe(0);
+      expect(position.firstAcquiredDate).toBeNull();
+      expect(position.lots).toEqual([]);
+    });
+
+    it('should keep one lot per buy of the same asset', () => {
+      const position = derivePosition([
+        transaction('t1', 'buy', 10, 100, '2024-01-01'),
+        transaction('t2', 'buy', 10, 200, '2024-02-01'),
+      ]);
+
+      expect(position.quantity).toBe(20);
+      expect(position.costBasis).toBe(3000);
+      expect(position.averageCost).toBe(150);
+      expect(position.lots).toHaveLength(2);
+    });
+
+    it('should include fees in the cost per unit', () => {
+      const position = derivePosition([transaction('t1', 'buy', 4, 25, '2024-01-01', 10)]);
+      expect(position.lots[0].costPerUnit).toBe(27.5);
+      expect(position.costBasis).toBe(110);
+    });
+
+    it('should consume the oldest lots first on sells and transfers out', () => {
+      const position = derivePosition([
+        transaction('t1', 'buy', 10, 100, '2024-01-01'),
+        transaction('t2', 'buy', 10, 200, '2024-02-01'),
+        transaction('t3', 'sell', 12, 250, '2024-03-01'),
+        transaction('t4', 'transfer_out', 3, 0, '2024-04-01'),
+      ]);
+
+      expect(position.quantity).toBe(5);
+      expect(position.lots).toHaveLength(1);
+      expect(position.lots[0].transactionId).toBe('t2');
+      expect(position.costBasis).toBe(1000);
+      expect(position.firstAcquiredDate).toBe('2024-02-01');
+    });
+
+    it('should process transactions in date order regardless of input order', () => {
+      const ordered = [
+        transaction('t1', 'buy', 10, 100, '2024-01-01'),
+        transaction('t2', 'sell', 5, 120, '2024-02-01'),
+        transaction('t3', 'transfer_in', 5, 90, '2024-03-01'),
+      ];
+      const shuffled = [ordered[2], ordered[0], ordered[1]];
+
+      expect(derivePosition(shuffled)).toEqual(derivePosition(ordered));
+    });
+
+    /**
+     * Property: quantity conservation
+     * For any ledger of buys followed by partial sells, the position quantity
+     * equals total units acquired minus total units disposed.
+     */
+    it('should conserve quantity across any sequence of buys and sells', () => {
+      fc.assert(
+        fc.property(
+          fc.array(fc.integer({ min: 1, max: 1000 }), { minLength: 1, maxLength: 20 }),
+          fc.double({ min: 0, max: 1, noNaN: true }),
+          (buys, sellFraction) => {
+            const bought = buys.reduce((sum, qty) => sum + qty, 0);
+            const sold = Math.floor(bought * sellFraction);
+            const ledger = buys.map((qty, i) =>
+              transaction(`b${i}`, 'buy', qty, 10 + i, `2024-01-${String(i + 1).padStart(2, '0')}`)
+            );
+            if (sold > 0) {
+              ledger.push(transaction('s', 'sell', sold, 50, '2024-02-01'));
+            }
+
+            const position = derivePosition(ledger);
+            return Math.abs(position.quantity - (bought - sold)) < 1e-6;
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+  });
+
+  describe('cost-basis methods', () => {
+    const ledger = [
+      transaction('t1', 'buy', 10, 100, '2024-01-01'),
+      transaction('t2', 'buy', 10, 200, '2024-02-01'),
+      transaction('t3', 'sell', 10, 300, '2024-03-01', 20),
+    ];
+
+    it('should realize gains against the oldest lot under FIFO', () => {
+      const position = derivePosition(ledger, 'fifo');
+      expect(position.realizedProceeds).toBe(2980);
+      expect(position.realizedCostBasis).toBe(1000);
+      expect(position.realizedGain).toBe(1980);
+      expect(position.costBasis).toBe(2000);
+    });
+
+    it('should realize gains against the newest lot under LIFO', () => {
+      const position = derivePosition(ledger, 'lifo');
+      expect(position.realizedGain).toBe(980);
+      expect(position.lots[0].transactionId).toBe('t1');
+      expect(position.costBasis).toBe(1000);
+    });
+
+    it('should realize gains against the average cost under average cost', () => {
+      const position = derivePosition(ledger, 'average');
+      expect(position.realizedGain).toBeCloseTo(1480);
+      expect(position.averageCost).toBeCloseTo(150);
+      expect(position.quantity).toBeCloseTo(10);
+    });
+
+    it('should sell from the chosen lot under specific lot', () => {
+      const specific = [
+        ...ledger.slice(0, 2),
+        { ...ledger[2], lot_id: 't2' },
+      ];
+      const position = derivePosition(specific, 'specific');
+      expect(position.realizedGain).toBe(980);
+      expect(position.lots.map((lot) => lot.transactionId)).toEqual(['t1']);
+    });
+
+    it('should fall back to FIFO for specific lot sells without a lot', () => {
+      expect(derivePosition(ledger, 'specific')).toEqual(derivePosition(ledger, 'fifo'));
+    });
+
+    it('should not realize gains on transfers out', () => {
+      const position = derivePosition([
+        transaction('t1', 'buy', 10, 100, '2024-01-01'),
+        transaction('t2', 'transfer_out', 4, 0, '2024-02-01'),
+      ]);
+      expect(position.realizedGain).toBe(0);
+      expect(position.costBasis).toBe(600);
+    });
+
+    /**
+     * Property: gain conservation
+     * For any method, realized plus unrealized gain equals proceeds plus
+     * market value minus everything paid, since the method only decides
+     * which lots are sold.
+     */
+    it('should split the same total gain between realized and unrealized for every method', () => {
+      fc.assert(
+        fc.property(
+          fc.array(
+            fc.record({
+              quantity: fc.integer({ min: 1, max: 100 }),
+              price: fc.integer({ min: 1, max: 1000 }),
+            }),
+            { minLength: 1, maxLength: 10 }
+          ),
+          fc.double({ min: 0, max: 1, noNaN: true }),
+          fc.integer({ min: 1, max: 1000 }),
+          fc.constantFrom<CostBasisMethod>('fifo', 'lifo', 'average', 'specific'),
+          (buys, sellFraction, marketPrice, method) => {
+            const bought = buys.reduce((sum, buy) => sum + buy.quantity, 0);
+            const paid = buys.reduce((sum, buy) => sum + buy.quantity * buy.price, 0);
+            const sold = Math.floor(bought * sellFraction);
+            const ledger = buys.map((buy, i) =>
+              transaction(`b${i}`, 'buy', buy.quantity, buy.price, `2024-01-${String(i + 1).padStart(2, '0')}`)
+            );
+            if (sold > 0) {
+              ledger.push({ ...transaction('s', 'sell', sold, marketPrice, '2024-02-01'), lot_id: 'b0' });
+            }
+
+            const position = derivePosition(ledger, method);
+            const totalGain = position.realizedGain + calculateUnrealizedGain(position, marketPrice);
+            const expected = bought * marketPrice - paid;
+            return Math.abs(totalGain - expected) < 1e-6 * Math.max(1, Math.abs(expected));
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+  });
+
+  describe('getAssetLedger', () => {
+    const asset = {
+      id: 'asset-1',
+      quantity: 8,
+      purchase_price: 50,
+      purchase_date: '2023-06-01',
+      created_at: '2023-06-01T00:00:00.000Z',
+      updated_at: '2023-06-01T00:00:00.000Z',
+    };
+
+    it('should synthesize an opening buy for assets without transactions', () => {
+      const ledger = getAssetLedger(asset, []);
+      expect(ledger).toHaveLength(1);
+      expect(ledger[0].transaction_type).toBe('buy');
+      expect(ledger[0].quantity).toBe(8);
+      expect(ledger[0].price).toBe(50);
+    });
+
+    it('should use stored transactions for this asset only', () => {
+      const other = { ...transaction('x', 'buy', 1, 1, '2024-01-01'), asset_id: 'asset-2' };
+      const ledger = getAssetLedger(asset, [transaction('t1', 'buy', 3, 10, '2024-01-01'), other]);
+      expect(ledger.map((t) => t.id)).toEqual(['t1']);
+    });
+  });
+
+  describe('sortTransactions', () => {
+    it('should order same-day transactions by creation time', () => {
+      const first = { ...transaction('a', 'buy', 1, 1, '2024-01-01'), created_at: '2024-01-01T09:00:00Z' };
+      const second = { ...transaction('b', 'sell', 1, 1, '2024-01-01'), created_at: '2024-01-01T10:00:00Z' };
+      expect(sortTransactions([second, first]).map((t) => t.id)).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('validateDeletion', () => {
+    it('should reject deleting a buy that a later sell depends on', () => {
+      const ledger = [
+        transaction('t1', 'buy', 10, 100, '2024-01-01'),
+        transaction('t2', 'buy', 5, 100, '2024-02-01'),
+        transaction('t3', 'transfer_out', 12, 0, '2024-03-01'),
+      ];
+      expect(validateDeletion(ledger, 't2')).toBe('Too few units would be left for the transfer out on 2024-03-01');
+      expect(validateDeletion(ledger, 't3')).toBeNull();
+    });
+  });
+
+  describe('validateTransaction', () => {
+    const ledger = [transaction('t1', 'buy', 10, 100, '2024-01-01')];
+
+    it('should accept a sell within the held quantity', () => {
+      expect(validateTransaction(ledger, {
+        transaction_type: 'sell',
+        quantity: 10,
+        price: 120,
+        transaction_date: '2024-02-01',
+      })).toBeNull();
+    });
+
+    it('should reject selling more than is held', () => {
+      expect(validateTransaction(ledger, {
+        transaction_type: 'sell',
+        quantity: 11,
+        price: 120,
+        transaction_date: '2024-02-01',
+      })).toMatch(/Only 10 units/);
+    });
+
+    it('should reject selling before the units were acquired', () => {
+      expect(validateTransaction(ledger, {
+        transaction_type: 'transfer_out',
+        quantity: 1,
+        price: 0,
+        transaction_date: '2023-12-31',
+      })).not.toBeNull();
+    });
+
+    it('should reject a sell that leaves too few units for a later one', () => {
+      const withSale = [...ledger, transaction('t2', 'sell', 8, 120, '2024-03-01')];
+      expect(validateTransaction(withSale, {
+        transaction_type: 'sell',
+        quantity: 5,
+        price: 110,
+        transaction_date: '2024-02-01',
+      })).toBe('Too few units would be left for the sell on 2024-03-01');
+      expect(validateTransaction(withSale, {
+        transaction_type: 'sell',
+        quantity: 2,
+        price: 110,
+        transaction_date: '2024-02-01',
+      })).toBeNull();
+    });
+
+    it('should reject non-positive quantities and malformed dates', () => {
+      expect(validateTransaction(ledger, {
+        transaction_type: 'buy',
+        quantity: 0,
+        price: 1,
+        transaction_date: '2024-01-01',
+      })).toMatch(/Quantity/);
+      expect(validateTransaction(ledger, {
+        transaction_type: 'buy',
+        quantity: 1,
+        price: 1,
+        transaction_date: '01/01/2024',
+      })).toMatch(/date/);
+    });
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Tests for liability balances and net worth
+ *
+ * Property tests use fast-check with 100 iterations per property.
+ */
+
+import * as fc from 'fast-check';
+import type { Liability } from '../../services/offlineStorage';
+import {
+  buildNetWorthSeries,
+  calculateNetWorth,
+  collectLiabilities,
+  getLiabilityBalance,
+  getLiabilityTerms,
+  validateLiability,
+  type LiabilityInput,
+} from '../liabilities';
+
+function liability(overrides: Partial<Liability> = {}): Liability {
+  return {
+    id: 'liability-1',
+    name: 'Car Loan',
+    liability_type: 'loan',
+    balance: 12000,
+    balance_date: '2024-01-01',
+    interest_rate: 0,
+    term_months: 12,
+    credit_limit: null,
+    currency: 'USD',
+    asset_id: null,
+    created_at: '2024-01-01T00:00:00.000Z',
+    updated_at: '2024-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+const house = {
+  id: 'house-1',
+  name: 'Beach House',
+  asset_type: 'real_estate',
+  purchase_date: '2020-03-10',
+  currency: 'USD',
+  metadata: { mortgage_balance: 200000, mortgage_balance_date: '2024-01-01', mortgage_rate: 6 },
+};
+
+const fx = { currency: 'USD', rates: { EUR: 0.8 } };
+
+describe('Liability Utilities', () => {
+  it('should hold credit lines flat', () => {
+    expect(getLiabilityTerms(liability()).remainingPayments).toBe(12);
+    expect(getLiabilityTerms(liability({ liability_type: 'credit_line' })).remainingPayments).toBeNull();
+    expect(getLiabilityTerms(liability({ term_months: null })).remainingPayments).toBeNull();
+  });
+
+  describe('getLiabilityBalance', () => {
+    it('should count a liability from its balance date', () => {
+      expect(getLiabilityBalance(liability(), '2023-12-31')).toBe(0);
+      expect(getLiabilityBalance(liability(), '2024-01-01')).toBe(12000);
+    });
+
+    it('should amortize the balance by each payment', () => {
+      expect(getLiabilityBalance(liability(), '2024-02-01')).toBe(11000);
+      expect(getLiabilityBalance(liability(), '2025-01-01')).toBe(0);
+      expect(getLiabilityBalance(liability({ liability_type: 'credit_line' }), '2025-01-01')).toBe(12000);
+    });
+  });
+
+  describe('collectLiabilities', () => {
+    it('should add mortgages entered on properties', () => {
+      const debts = collectLiabilities([liability()], [house]);
+      expect(debts).toHaveLength(2);
+      expect(debts[1]).toMatchObject({
+        id: 'asset:house-1', liability_type: 'mortgage', balance: 200000, asset_id: 'house-1', term_months: null,
+      });
+    });
+
+    it('should not count a property mortgage twice', () => {
+      const linked = liability({ liability_type: 'mortgage', asset_id: 'house-1' });
+      expect(collectLiabilities([linked], [house])).toEqual([linked]);
+      expect(collectLiabilities([], [{ ...house, asset_type: 'stock' }])).toEqual([]);
+    });
+  });
+
+  describe('calculateNetWorth', () => {
+    it('should subtract liabilities converted to the display currency', () => {
+      const netWorth = calculateNetWorth(
+        50000,
+        [liability(), liability({ id: 'card', liability_type: 'credit_line', balance: 800, currency: 'EUR' })],
+        '2024-01-15',
+        fx
+      );
+      expect(netWorth.byType).toEqual({ mortgage: 0, loan: 12000, credit_line: 1000 });
+      expect(netWorth.totalLiabilities).toBe(13000);
+      expect(netWorth.netWorth).toBe(37000);
+    });
+
+    it('should deduct what was owed on each day of the series', () => {
+      const series = buildNetWorthSeries(
+        [
+          { timestamp: '2023-12-31T00:00:00.000Z', value: 20000 },
+          { timestamp: '2024-01-01T00:00:00.000Z', value: 20000 },
+          { timestamp: '2024-03-01T00:00:00.000Z', value: 21000 },
+        ],
+        [liability()],
+        fx
+      );
+      expect(series.map((point) => point.value)).toEqual([20000, 8000, 11000]);
+    });
+  });
+
+  describe('validateLiability', () => {
+    const input: LiabilityInput = {
+      name: 'Car Loan',
+      liability_type: 'loan',
+      balance: 12000,
+      balance_date: '2024-01-01',
+      interest_rate: 4.5,
+      term_months: 48,
+      credit_limit: null,
+      currency: 'USD',
+      asset_id: null,
+    };
+
+    it('should accept a valid liability', () => {
+      expect(validateLiability(input)).toBeNull();
+    });
+
+    it('should reject invalid fields', () => {
+      expect(validateLiability({ ...input, name: ' ' })).toBe('Name is required');
+      expect(validateLiability({ ...input, balance: -1 })).toBe('Balance must be a non-negative number');
+      expect(validateLiability({ ...input, balance_date: '01/01/2024' })).toBe('Invalid date format (use YYYY-MM-DD)');
+      expect(validateLiability({ ...input, interest_rate: 120 })).toBe('Interest rate must be between 0 and 100');
+      expect(validateLiability({ ...input, term_months: 1.5 })).toBe('Remaining term must be a whole number of months');
+      expect(validateLiability({ ...input, credit_limit: 5000 })).toBe('Credit limit must be at least the balance');
+    });
+  });
+
+  /**
+   * Property: net worth identity
+   * For any holdings and liabilities, net worth is the holdings less the
+   * liabilities, and the liabilities are the sum of the per-type balances.
+   */
+  it('should always equal holdings less liabilities', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 0, max: 1000000 }),
+        fc.array(
+          fc.record({
+            balance: fc.integer({ min: 0, max: 500000 }),
+            type: fc.constantFrom('mortgage' as const, 'loan' as const, 'credit_line' as const),
+            term: fc.option(fc.integer({ min: 1, max: 360 }), { nil: null }),
+          }),
+          { maxLength: 5 }
+        ),
+        (totalAssets, debts) => {
+          const liabilities = debts.map((debt, i) =>
+            liability({ id: `l-${i}`, balance: debt.balance, liability_type: debt.type, term_months: debt.term })
+          );
+          const netWorth = calculateNetWorth(totalAssets, liabilities, '2024-06-01', fx);
+          const byTypeTotal = netWorth.byType.mortgage + netWorth.byType.loan + netWorth.byType.credit_line;
+          return (
+            Math.abs(netWorth.totalLiabilities - byTypeTotal) < 1e-6 &&
+            Math.abs(netWorth.netWorth - (totalAssets - netWorth.totalLiabilities)) < 1e-6 &&
+            netWorth.totalLiabilities <= debts.reduce((sum, debt) => sum + debt.balance, 0) + 1e-6
+          );
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
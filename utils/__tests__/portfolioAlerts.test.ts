@@ -0,0 +1,160 @@
+/**
+ * Tests for portfolio value, drawdown, drift and concentration alerts
+ *
+ * Property tests use fast-check with 100 iterations per property.
+ */
+
+import * as fc from 'fast-check';
+import type { AllocationTargets, PortfolioAlertRule, PortfolioSnapshot } from '../../services/offlineStorage';
+import type { RebalanceHolding } from '../rebalancing';
+import {
+  PORTFOLIO_ALERT_TYPES,
+  createPortfolioRule,
+  describePortfolioRule,
+  evaluatePortfolioRule,
+  getDriftDefaults,
+  getLargestHolding,
+  getPortfolioNotificationType,
+  getPortfolioRuleValue,
+  getPreviousValue,
+  getTypeWeights,
+  isPortfolioAlertType,
+  measurePortfolioRule,
+  validatePortfolioRule,
+} from '../portfolioAlerts';
+
+function holding(id: string, assetType: string, value: number): RebalanceHolding {
+  return { id, asset_type: assetType, value, price: value };
+}
+
+const holdings = [holding('a', 'stock', 6000), holding('b', 'stock', 1000), holding('c', 'crypto', 3000)];
+
+describe('Portfolio Alert Utilities', () => {
+  describe('weights', () => {
+    it('should weigh asset types and find the largest holding', () => {
+      expect(getTypeWeights(holdings)).toEqual({ stock: 70, crypto: 30 });
+      expect(getLargestHolding(holdings)).toEqual({ id: 'a', weight: 60 });
+      expect(getLargestHolding([])).toBeNull();
+    });
+
+    it('should start drift alerts from the allocation target when there is one', () => {
+      const allocation: AllocationTargets = {
+        targets: [{ scope: 'asset_type', key: 'stock', weight: 60, drift_band: 3 }],
+        drift_band: 10,
+      };
+      expect(getDriftDefaults('stock', holdings, allocation)).toEqual({ target_weight: 60, band: 3 });
+      expect(getDriftDefaults('crypto', holdings, allocation)).toEqual({ target_weight: 30, band: 10 });
+      expect(getDriftDefaults('crypto', holdings)).toEqual({ target_weight: 30, band: 5 });
+    });
+  });
+
+  describe('rules', () => {
+    it('should create a valid rule of every type', () => {
+      PORTFOLIO_ALERT_TYPES.forEach((kind) => {
+        expect(validatePortfolioRule(createPortfolioRule(kind, holdings))).toBeNull();
+      });
+    });
+
+    it('should start a drift alert on the largest asset type', () => {
+      expect(createPortfolioRule('allocation_drift', holdings)).toEqual({
+        kind: 'allocation_drift',
+        asset_type: 'stock',
+        target_weight: 70,
+        band: 5,
+      });
+    });
+
+    it('should reject out-of-range levels', () => {
+      expect(validatePortfolioRule({ kind: 'portfolio_value', direction: 'above', value: 0 })).not.toBeNull();
+      expect(validatePortfolioRule({ kind: 'portfolio_drawdown', percent: 100 })).not.toBeNull();
+      expect(validatePortfolioRule({ kind: 'concentration', max_weight: NaN })).not.toBeNull();
+      expect(
+        validatePortfolioRule({ kind: 'allocation_drift', asset_type: '', target_weight: 50, band: 5 })
+      ).toBe('Choose an asset type');
+    });
+
+    it('should save the main level and describe the rule', () => {
+      const rule: PortfolioAlertRule = { kind: 'allocation_drift', asset_type: 'stock', target_weight: 60, band: 5 };
+      expect(getPortfolioRuleValue(rule)).toBe(5);
+      expect(describePortfolioRule(rule, undefined, () => 'Stocks')).toBe('Stocks outside 60% ± 5 pts');
+      expect(describePortfolioRule({ kind: 'portfolio_value', direction: 'below', value: 9000 }, (v) => `$${v}`)).toBe(
+        'Value crosses below $9000'
+      );
+    });
+
+    it('should tell portfolio alert types apart', () => {
+      expect(isPortfolioAlertType('concentration')).toBe(true);
+      expect(isPortfolioAlertType('price_target')).toBe(false);
+      expect(getPortfolioNotificationType('portfolio_drawdown')).toBe('portfolio_alert');
+      expect(getPortfolioNotificationType('allocation_drift')).toBe('allocation_alert');
+    });
+  });
+
+  describe('evaluation', () => {
+    it('should fire a value alert only when the value crossed since the previous close', () => {
+      const rule: PortfolioAlertRule = { kind: 'portfolio_value', direction: 'above', value: 9500 };
+      expect(evaluatePortfolioRule(rule, { holdings, previousValue: 9000 })).toBe(true);
+      expect(evaluatePortfolioRule(rule, { holdings, previousValue: 9800 })).toBe(false);
+      expect(evaluatePortfolioRule(rule, { holdings })).toBeNull();
+    });
+
+    it('should measure the daily drawdown from the previous close', () => {
+      const rule: PortfolioAlertRule = { kind: 'portfolio_drawdown', percent: 5 };
+      expect(measurePortfolioRule(rule, { holdings, previousValue: 12500 })).toBe(20);
+      expect(evaluatePortfolioRule(rule, { holdings, previousValue: 12500 })).toBe(true);
+      expect(evaluatePortfolioRule(rule, { holdings, previousValue: 10200 })).toBe(false);
+    });
+
+    it('should fire when a type leaves its band or a holding passes the limit', () => {
+      const drift: PortfolioAlertRule = { kind: 'allocation_drift', asset_type: 'crypto', target_weight: 20, band: 5 };
+      expect(evaluatePortfolioRule(drift, { holdings })).toBe(true);
+      expect(evaluatePortfolioRule({ ...drift, band: 10 }, { holdings })).toBe(false);
+      expect(evaluatePortfolioRule({ kind: 'concentration', max_weight: 50 }, { holdings })).toBe(true);
+      expect(evaluatePortfolioRule({ kind: 'concentration', max_weight: 60 }, { holdings })).toBe(false);
+    });
+
+    it('should not evaluate an empty portfolio', () => {
+      expect(evaluatePortfolioRule({ kind: 'concentration', max_weight: 50 }, { holdings: [] })).toBeNull();
+    });
+    it('should take the previous value from the last snapshot before today', () => {
+      const snapshots: PortfolioSnapshot[] = [
+        { portfolio_id: 'p1', snapshot_date: '2024-02-28', total_value: 9000, currency: 'USD' },
+        { portfolio_id: 'p1', snapshot_date: '2024-02-29', total_value: 9500, currency: 'USD' },
+        { portfolio_id: 'p1', snapshot_date: '2024-03-01', total_value: 9900, currency: 'USD' },
+        { portfolio_id: 'p2', snapshot_date: '2024-02-29', total_value: 100, currency: 'GBP' },
+      ];
+      const fx = { currency: 'USD', rates: {} };
+      expect(getPreviousValue(snapshots, 'p1', '2024-03-01', fx)).toBe(9500);
+      expect(getPreviousValue(snapshots, 'p2', '2024-03-01', fx)).toBeNull();
+      expect(getPreviousValue(snapshots, 'p3', '2024-03-01', fx)).toBeNull();
+    });
+  });
+
+  /**
+   * Property: type weights add up to 100%
+   * For any non-empty portfolio with value, the asset type weights sum to
+   * 100 and the largest holding weighs no more than its type.
+   */
+  it('should split the whole portfolio between asset types', () => {
+    fc.assert(
+      fc.property(
+        fc.array(
+          fc.record({
+            type: fc.constantFrom('stock', 'etf', 'crypto', 'bond'),
+            value: fc.integer({ min: 1, max: 100000 }),
+          }),
+          { minLength: 1, maxLength: 20 }
+        ),
+        (rows) => {
+          const generated = rows.map((row, i) => holding(`h${i}`, row.type, row.value));
+          const weights = getTypeWeights(generated);
+          const total = Object.values(weights).reduce((sum, weight) => sum + weight, 0);
+          const largest = getLargestHolding(generated)!;
+          const largestType = generated.find((h) => h.id === largest.id)!.asset_type;
+          return Math.abs(total - 100) < 1e-9 && largest.weight <= weights[largestType] + 1e-9;
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
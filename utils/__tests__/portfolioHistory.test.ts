@@ -0,0 +1,167 @@
+/**
+ * Tests for the portfolio value history
+ *
+ * Property tests use fast-check with 100 iterations per property.
+ */
+
+import * as fc from 'fast-check';
+import type { AssetTransaction, PortfolioSnapshot, TransactionType } from '../../services/offlineStorage';
+import {
+  fillSnapshotGaps,
+  getFirstActivityDate,
+  getHistoryDates,
+  getPriceHistoryStart,
+  rebuildValueHistory,
+  sumSnapshots,
+} from '../portfolioHistory';
+import { getValueOn, type ReturnsInput } from '../returns';
+
+const NOW = new Date('2024-01-10T12:00:00Z');
+
+function transaction(id: string, type: TransactionType, quantity: number, price: number, date: string): AssetTransaction {
+  return {
+    id,
+    asset_id: 'asset-1',
+    transaction_type: type,
+    quantity,
+    price,
+    fees: 0,
+    transaction_date: date,
+    created_at: `${date}T00:00:00.000Z`,
+    updated_at: `${date}T00:00:00.000Z`,
+  };
+}
+
+function snapshot(portfolioId: string, date: string, value: number, currency = 'USD'): PortfolioSnapshot {
+  return { portfolio_id: portfolioId, snapshot_date: date, total_value: value, currency };
+}
+
+const input: ReturnsInput = {
+  holdings: [{
+    transactions: [
+      transaction('t1', 'buy', 10, 100, '2024-01-02'),
+      transaction('t2', 'sell', 4, 110, '2024-01-06'),
+    ],
+    prices: [
+      { date: '2024-01-04T16:00:00Z', price: 105 },
+      { date: '2024-01-08T16:00:00Z', price: 120 },
+    ],
+    currentPrice: 125,
+  }],
+};
+
+const fx = { currency: 'USD', rates: { EUR: 0.5 } };
+
+describe('Portfolio History', () => {
+  describe('getHistoryDates', () => {
+    it('should list every day inclusive', () => {
+      expect(getHistoryDates('2024-02-27', '2024-03-01')).toEqual(['2024-02-27', '2024-02-28', '2024-02-29', '2024-03-01']);
+    });
+
+    it('should be empty when the range is reversed', () => {
+      expect(getHistoryDates('2024-03-02', '2024-03-01')).toEqual([]);
+    });
+  });
+
+  it('should find the first acquisition day', () => {
+    expect(getFirstActivityDate(input)).toBe('2024-01-02');
+    expect(getFirstActivityDate({ holdings: [] })).toBeNull();
+  });
+
+  describe('rebuildValueHistory', () => {
+    it('should value holdings from the ledger and price history', () => {
+      const dates = getHistoryDates('2024-01-01', '2024-01-10');
+      expect(rebuildValueHistory(input, dates, NOW)).toEqual([
+        0, 1000, 1000, 1050, 1050, 660, 660, 720, 720, 750,
+      ]);
+    });
+
+    /**
+     * Property: the single-pass rebuild agrees with getValueOn
+     * For any ledger and price history, each day's rebuilt value equals the
+     * returns engine's valuation of the same holdings.
+     */
+    it('should match getValueOn for any ledger', () => {
+      const day = fc.integer({ min: 1, max: 28 }).map((d) => `2024-02-${String(d).padStart(2, '0')}`);
+      fc.assert(
+        fc.property(
+          fc.array(fc.tuple(fc.constantFrom<TransactionType>('buy', 'sell', 'transfer_in'), fc.integer({ min: 1, max: 50 }), fc.integer({ min: 1, max: 500 }), day), { maxLength: 6 }),
+          fc.array(fc.tuple(fc.integer({ min: 1, max: 500 }), day), { maxLength: 6 }),
+          (trades, prices) => {
+            const series: ReturnsInput = {
+              holdings: [{
+                transactions: trades.map(([type, quantity, price, date], i) => transaction(`t${i}`, type, quantity, price, date)),
+                prices: prices.map(([price, date]) => ({ date: `${date}T16:00:00Z`, price })),
+                currentPrice: 250,
+                fxRate: 1.5,
+              }],
+            };
+            const now = new Date('2024-02-28T12:00:00Z');
+            const dates = getHistoryDates('2024-01-31', '2024-02-28');
+            const rebuilt = rebuildValueHistory(series, dates, now);
+            return dates.every((date, i) => Math.abs(rebuilt[i] - getValueOn(series, date, now)) < 1e-6);
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+  });
+
+  describe('fillSnapshotGaps', () => {
+    const dates = getHistoryDates('2024-01-07', '2024-01-10');
+
+    it('should prefer stored snapshots and rebuild the missing days', () => {
+      const filled = fillSnapshotGaps('p1', [snapshot('p1', '2024-01-08', 700), snapshot('p2', '2024-01-09', 1)], input, dates, fx, NOW);
+      expect(filled.map((s) => s.total_value)).toEqual([660, 700, 720, 750]);
+      expect(filled.every((s) => s.portfolio_id === 'p1' && s.currency === 'USD')).toBe(true);
+    });
+
+    it('should convert stored snapshots into the reporting currency', () => {
+      const filled = fillSnapshotGaps('p1', [snapshot('p1', '2024-01-07', 300, 'EUR')], input, dates, fx, NOW);
+      expect(filled[0].total_value).toBeCloseTo(600);
+    });
+
+    it('should rebuild stored snapshots in a currency without a rate', () => {
+      const filled = fillSnapshotGaps('p1', [snapshot('p1', '2024-01-07', 300, 'SEK')], input, dates, fx, NOW);
+      expect(filled[0].total_value).toBe(660);
+    });
+
+    it('should always value today live', () => {
+      const filled = fillSnapshotGaps('p1', [snapshot('p1', '2024-01-10', 1)], input, dates, fx, NOW);
+      expect(filled[3].total_value).toBe(750);
+    });
+  });
+
+  describe('getPriceHistoryStart', () => {
+    const dates = getHistoryDates('2024-01-01', '2024-01-10');
+    const stored = dates.filter((date) => date < '2024-01-10').map((date) => snapshot('p1', date, 700));
+
+    it('should start a lookback before the period when every day is stored', () => {
+      expect(getPriceHistoryStart('2024-01-09', ['p1'], stored, dates, fx, NOW)).toBe('2024-01-02');
+    });
+
+    it('should reach back to the first day that has to be rebuilt', () => {
+      const gappy = stored.filter((s) => s.snapshot_date !== '2024-01-04');
+      expect(getPriceHistoryStart('2024-01-09', ['p1'], gappy, dates, fx, NOW)).toBe('2023-12-28');
+      // Another portfolio without snapshots needs the whole range
+      expect(getPriceHistoryStart('2024-01-09', ['p1', 'p2'], stored, dates, fx, NOW)).toBe('2023-12-25');
+      // Snapshots that cannot be converted are rebuilt too
+      const unconverted = [stored[0], snapshot('p1', '2024-01-02', 1, 'SEK'), ...stored.slice(2)];
+      expect(getPriceHistoryStart('2024-01-09', ['p1'], unconverted, dates, fx, NOW)).toBe('2023-12-26');
+    });
+
+    it('should need the whole history for ALL', () => {
+      expect(getPriceHistoryStart(null, ['p1'], stored, dates, fx, NOW)).toBeNull();
+    });
+  });
+
+  it('should total snapshots per day across portfolios', () => {
+    const series = sumSnapshots([
+      snapshot('p2', '2024-01-02', 5),
+      snapshot('p1', '2024-01-01', 10),
+      snapshot('p1', '2024-01-02', 20),
+    ]);
+    expect(series.map((point) => point.value)).toEqual([10, 25]);
+    expect(series[0].timestamp.slice(0, 10)).toBe('2024-01-01');
+  });
+});
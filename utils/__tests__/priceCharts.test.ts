@@ -0,0 +1,121 @@
+/**
+ * Tests for price chart downsampling, candles and crosshair positions
+ *
+ * Property tests use fast-check with 100 iterations per property.
+ */
+
+import * as fc from 'fast-check';
+import {
+  buildCandles,
+  buildSparklinePath,
+  downsampleLine,
+  findExtremes,
+  getBucketSize,
+  getCandleIndex,
+  getNearestIndex,
+  getSparklines,
+  type PricePoint,
+} from '../priceCharts';
+
+const START = new Date('2024-03-04T00:00:00.000Z').getTime();
+const MINUTE = 60 * 1000;
+
+function at(minutes: number, price: number, volume?: number): PricePoint {
+  return { timestamp: new Date(START + minutes * MINUTE).toISOString(), price, volume };
+}
+
+describe('Price Chart Utilities', () => {
+  describe('candles', () => {
+    it('should size candles to fit the span of the period', () => {
+      const day = [at(0, 1), at(24 * 60, 1)];
+      expect(getBucketSize(day)).toBe(30 * MINUTE);
+      const year = [at(0, 1), at(365 * 24 * 60, 1)];
+      expect(getBucketSize(year)).toBe(7 * 24 * 60 * MINUTE);
+    });
+
+    it('should group prices into open, high, low and close with summed volume', () => {
+      const candles = buildCandles([at(20, 12, 5), at(0, 10, 100), at(10, 15), at(35, 9, 50)], 30 * MINUTE);
+      expect(candles).toEqual([
+        { start: '2024-03-04T00:00:00.000Z', open: 10, high: 15, low: 10, close: 12, volume: 105 },
+        { start: '2024-03-04T00:30:00.000Z', open: 9, high: 9, low: 9, close: 9, volume: 50 },
+      ]);
+    });
+
+    it('should leave volume empty when none was recorded', () => {
+      expect(buildCandles([at(0, 10), at(1, 11)], 30 * MINUTE)[0].volume).toBeNull();
+    });
+  });
+
+  describe('line', () => {
+    it('should keep every point when they fit', () => {
+      const points = [at(2, 3), at(0, 1), at(1, 2)];
+      expect(downsampleLine(points, 10).map((p) => p.price)).toEqual([1, 2, 3]);
+    });
+
+    it('should keep the highs, lows and both ends when thinning', () => {
+      const points = Array.from({ length: 500 }, (_, i) => at(i, 100 + Math.sin(i / 10) * 10));
+      points[250] = at(250, 500);
+      points[300] = at(300, 1);
+      const thinned = downsampleLine(points, 40);
+      expect(thinned.length).toBeLessThanOrEqual(40);
+      expect(thinned[0]).toBe(points[0]);
+      expect(thinned[thinned.length - 1]).toBe(points[499]);
+      expect(thinned.map((p) => p.price)).toEqual(expect.arrayContaining([500, 1]));
+    });
+
+    it('should find the highest and lowest points', () => {
+      const extremes = findExtremes([at(0, 5), at(1, 9), at(2, 2), at(3, 9)]);
+      expect(extremes?.max.index).toBe(1);
+      expect(extremes?.min.point.price).toBe(2);
+      expect(findExtremes([])).toBeNull();
+    });
+
+    it('should thin each asset into its own sparkline', () => {
+      const rows = [
+        { asset_id: 'a1', price: 1, timestamp: at(0, 1).timestamp },
+        { asset_id: 'a2', price: 5, timestamp: at(0, 5).timestamp },
+        { asset_id: 'a1', price: 2, timestamp: at(1, 2).timestamp },
+      ];
+      expect(getSparklines(rows)).toEqual({ a1: [1, 2], a2: [5] });
+      expect(buildSparklinePath([1, 2], 10, 10)).toBe('M0.0,10.0 L10.0,0.0');
+    });
+  });
+
+  describe('crosshair', () => {
+    it('should snap to the nearest point', () => {
+      expect(getNearestIndex(0, 100, 5)).toBe(0);
+      expect(getNearestIndex(40, 100, 5)).toBe(2);
+      expect(getNearestIndex(140, 100, 5)).toBe(4);
+    });
+
+    it('should pick the candle under the finger', () => {
+      expect(getCandleIndex(19, 100, 5)).toBe(0);
+      expect(getCandleIndex(20, 100, 5)).toBe(1);
+      expect(getCandleIndex(-5, 100, 5)).toBe(0);
+    });
+  });
+
+  /**
+   * Property: thinning keeps the range
+   * For any prices, the thinned line has the same highest and lowest
+   * price as the original and never more points than asked for.
+   */
+  it('should keep the range of any line it thins', () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.integer({ min: 1, max: 10000 }), { minLength: 1, maxLength: 400 }),
+        fc.integer({ min: 4, max: 120 }),
+        (prices, maxPoints) => {
+          const points = prices.map((price, i) => at(i, price));
+          const thinned = downsampleLine(points, maxPoints).map((p) => p.price);
+          return (
+            thinned.length <= maxPoints &&
+            Math.max(...thinned) === Math.max(...prices) &&
+            Math.min(...thinned) === Math.min(...prices)
+          );
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
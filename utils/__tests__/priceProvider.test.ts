@@ -0,0 +1,127 @@
+/**
+ * Tests for the polling price provider, quotes and staleness
+ *
+ * Property tests use fast-check with 100 iterations per property.
+ */
+
+import * as fc from 'fast-check';
+import type { PriceTick } from '../alertEngine';
+import {
+  applyQuote,
+  createPollingProvider,
+  getLatestQuotes,
+  getTradingTimeBetween,
+  isQuoteStale,
+  needsFallback,
+  summarizeQuotes,
+  type PriceQuote,
+} from '../priceProvider';
+
+const HOUR = 60 * 60 * 1000;
+
+function quote(as_of: string, price = 100): PriceQuote {
+  return { price, as_of, source: 'polling' };
+}
+
+describe('Price Provider Utilities', () => {
+  describe('polling', () => {
+    beforeEach(() => jest.useFakeTimers());
+    afterEach(() => jest.useRealTimers());
+
+    it('should poll right away and then on the interval until stopped', async () => {
+      const fetchPrices = jest.fn(async (): Promise<PriceTick[]> => [{ asset_id: 'a1', price: 10 }]);
+      const ticks: PriceTick[] = [];
+      const stop = createPollingProvider({ fetchPrices, intervalMs: 1000 }).start((tick) => ticks.push(tick));
+      await Promise.resolve();
+      expect(ticks).toHaveLength(1);
+
+      jest.advanceTimersByTime(1000);
+      await Promise.resolve();
+      expect(fetchPrices).toHaveBeenCalledTimes(2);
+
+      stop();
+      jest.advanceTimersByTime(5000);
+      expect(fetchPrices).toHaveBeenCalledTimes(2);
+    });
+
+    it('should report failed polls and keep polling', async () => {
+      const onError = jest.fn();
+      const fetchPrices = jest.fn(async (): Promise<PriceTick[]> => {
+        throw new Error('offline');
+      });
+      const stop = createPollingProvider({ fetchPrices, intervalMs: 1000, onError }).start(() => undefined);
+      await Promise.resolve();
+      await Promise.resolve();
+      jest.advanceTimersByTime(1000);
+      await Promise.resolve();
+      await Promise.resolve();
+      stop();
+      expect(onError).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  it('should fall back while realtime is reconnecting or a first join has stalled', () => {
+    expect(needsFallback('reconnecting')).toBe(true);
+    expect(needsFallback('connecting')).toBe(false);
+    expect(needsFallback('connecting', true)).toBe(true);
+    expect(needsFallback('live')).toBe(false);
+    expect(needsFallback('offline')).toBe(false);
+    expect(needsFallback('paused')).toBe(false);
+  });
+
+  describe('quotes', () => {
+    it('should keep the newest quote of each asset', () => {
+      const quotes = getLatestQuotes([
+        { asset_id: 'a1', price: 11, timestamp: '2024-03-01T15:00:00.000Z' },
+        { asset_id: 'a1', price: 10, timestamp: '2024-03-01T14:00:00.000Z' },
+        { asset_id: 'a2', price: 5, timestamp: '2024-03-01T12:00:00.000Z' },
+      ]);
+      expect(quotes.a1.price).toBe(11);
+      expect(applyQuote(quotes, 'a1', quote('2024-03-01T13:00:00+00:00', 9))).toBe(quotes);
+    });
+
+    it('should not count weekends towards the age of a price', () => {
+      // Friday 20:00 to Monday 10:00 UTC
+      expect(getTradingTimeBetween('2024-03-01T20:00:00.000Z', new Date('2024-03-04T10:00:00.000Z'))).toBe(14 * HOUR);
+    });
+
+    it('should flag crypto within the hour and listed prices after a trading day', () => {
+      const now = new Date('2024-03-04T10:00:00.000Z');
+      expect(isQuoteStale(quote('2024-03-04T09:00:00.000Z'), 'crypto', now)).toBe(true);
+      expect(isQuoteStale(quote('2024-03-01T20:00:00.000Z'), 'stock', now)).toBe(false);
+      expect(isQuoteStale(quote('2024-02-29T20:00:00.000Z'), 'stock', now)).toBe(true);
+    });
+
+    it('should summarize the oldest quote and count the stale ones', () => {
+      const now = new Date('2024-03-04T10:00:00.000Z');
+      const quotes = {
+        a1: quote('2024-03-04T09:50:00.000Z'),
+        a2: quote('2024-03-04T08:00:00.000Z'),
+      };
+      const assets = [
+        { id: 'a1', asset_type: 'crypto' },
+        { id: 'a2', asset_type: 'crypto' },
+        { id: 'a3', asset_type: 'stock' },
+      ];
+      expect(summarizeQuotes(assets, quotes, now)).toEqual({ asOf: '2024-03-04T08:00:00.000Z', staleCount: 1 });
+    });
+  });
+
+  /**
+   * Property: quotes never go back in time
+   * Applying quotes in any order leaves each asset with its newest one.
+   */
+  it('should end with the newest quote whatever order quotes arrive in', () => {
+    const base = new Date('2024-03-01T00:00:00.000Z').getTime();
+    fc.assert(
+      fc.property(fc.array(fc.integer({ min: 0, max: 100000 }), { minLength: 1, maxLength: 20 }), (offsets) => {
+        const quotes = offsets.reduce<Record<string, PriceQuote>>(
+          (acc, offset) => applyQuote(acc, 'a1', quote(new Date(base + offset * 1000).toISOString(), offset)),
+          {}
+        );
+        return quotes.a1.price === Math.max(...offsets);
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
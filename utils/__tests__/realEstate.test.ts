@@ -0,0 +1,143 @@
+/**
+ * Tests for mortgage amortization, property equity and rental metrics
+ *
+ * Property tests use fast-check with 100 iterations per property.
+ */
+
+import * as fc from 'fast-check';
+import {
+  buildAmortizationSchedule,
+  calculateMonthlyPayment,
+  getMortgageTerms,
+  getRemainingBalance,
+  summarizeAmortization,
+  valueRealEstate,
+  type MortgageTerms,
+} from '../realEstate';
+
+const property = {
+  asset_type: 'real_estate',
+  quantity: 1,
+  purchase_price: 300000,
+  purchase_date: '2020-03-10',
+  current_price: 400000,
+  metadata: {
+    mortgage_balance: 200000,
+    mortgage_balance_date: '2024-01-01',
+    mortgage_rate: 6,
+    mortgage_term_years: 30,
+    monthly_rent: 2500,
+    monthly_expenses: 500,
+  },
+};
+
+const terms = getMortgageTerms(property)!;
+
+describe('Real Estate Utilities', () => {
+  it('should read mortgage terms from metadata', () => {
+    expect(terms).toEqual({ balance: 200000, balanceDate: '2024-01-01', annualRate: 6, remainingPayments: 360 });
+    expect(getMortgageTerms({ ...property, metadata: { monthly_rent: 2500 } })).toBeNull();
+    expect(getMortgageTerms({ ...property, metadata: { mortgage_balance: 1000 } })).toEqual({
+      balance: 1000, balanceDate: '2020-03-10', annualRate: 0, remainingPayments: null,
+    });
+  });
+
+  it('should calculate level and interest-only payments', () => {
+    expect(calculateMonthlyPayment(200000, 6, 360)).toBeCloseTo(1199.1, 2);
+    expect(calculateMonthlyPayment(12000, 0, 12)).toBe(1000);
+    expect(calculateMonthlyPayment(200000, 6, null)).toBeCloseTo(1000, 6);
+  });
+
+  describe('getRemainingBalance', () => {
+    it('should reduce the balance by each payment made', () => {
+      expect(getRemainingBalance(terms, '2024-01-31')).toBe(200000);
+      expect(getRemainingBalance(terms, '2024-02-01')).toBeCloseTo(200000 * 1.005 - 1199.101, 2);
+      expect(getRemainingBalance(terms, '2054-01-01')).toBe(0);
+    });
+
+    it('should keep an interest-only balance', () => {
+      expect(getRemainingBalance({ ...terms, remainingPayments: null }, '2030-01-01')).toBe(200000);
+    });
+  });
+
+  it('should split payments into interest and principal', () => {
+    const schedule = buildAmortizationSchedule(terms, '2024-01-01');
+    expect(schedule).toHaveLength(360);
+    expect(schedule[0].interest).toBeCloseTo(1000, 6);
+    expect(schedule[0].principal).toBeCloseTo(199.1, 2);
+    expect(schedule[359].balance).toBe(0);
+    expect(schedule.reduce((sum, row) => sum + row.principal, 0)).toBeCloseTo(200000, 6);
+
+    const years = summarizeAmortization(schedule);
+    expect(years).toHaveLength(31);
+    expect(years[0]).toMatchObject({ year: 2024 });
+    expect(years[0].balance).toBeCloseTo(schedule[10].balance, 6);
+    expect(buildAmortizationSchedule({ ...terms, remainingPayments: null }, '2024-01-01')).toEqual([]);
+  });
+
+  describe('valueRealEstate', () => {
+    it('should value equity and rental metrics', () => {
+      const valuation = valueRealEstate(property, '2024-01-15');
+      expect(valuation.propertyValue).toBe(400000);
+      expect(valuation.equity).toBe(200000);
+      expect(valuation.loanToValue).toBe(50);
+      expect(valuation.netOperatingIncome).toBe(24000);
+      expect(valuation.capRate).toBeCloseTo(6, 6);
+      expect(valuation.annualDebtService).toBeCloseTo(1199.101 * 12, 2);
+      expect(valuation.netYield).toBeCloseTo(((24000 - 1199.101 * 12) / 200000) * 100, 4);
+      expect(valuation.payoffDate).toBe('2054-01-01');
+    });
+
+    it('should leave out rental metrics without rent', () => {
+      const valuation = valueRealEstate({ ...property, metadata: {} }, '2024-01-15');
+      expect(valuation).toMatchObject({
+        mortgageBalance: 0, equity: 400000, capRate: null, netYield: null, loanToValue: null, payoffDate: null,
+      });
+    });
+
+    it('should value the property net of every loan passed in', () => {
+      const secondLoan: MortgageTerms = { balance: 20000, balanceDate: '2024-01-01', annualRate: 0, remainingPayments: 24 };
+      const valuation = valueRealEstate(property, '2024-01-15', [terms, secondLoan]);
+      expect(valuation.loans).toHaveLength(2);
+      expect(valuation.mortgageBalance).toBe(220000);
+      expect(valuation.equity).toBe(180000);
+      expect(valuation.monthlyPayment).toBeCloseTo(1199.101 + 833.333, 2);
+      expect(valuation.payoffDate).toBe('2054-01-01');
+
+      const interestOnly = valueRealEstate(property, '2024-01-15', [terms, { ...secondLoan, remainingPayments: null }]);
+      expect(interestOnly.payoffDate).toBeNull();
+
+      const first = buildAmortizationSchedule(terms, '2024-01-15');
+      const years = summarizeAmortization(first, buildAmortizationSchedule(secondLoan, '2024-01-15'));
+      expect(years[1]).toMatchObject({ year: 2025 });
+      expect(years[1].balance).toBeCloseTo(first[22].balance + 20000 / 24, 6);
+      expect(years[2].balance).toBeCloseTo(first[34].balance, 6);
+    });
+  });
+
+  /**
+   * Property: balance matches the schedule
+   * For any loan and any number of payments made, the closed-form balance
+   * equals the balance left in the amortization schedule.
+   */
+  it('should agree with the amortization schedule', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 1000, max: 1000000 }),
+        fc.integer({ min: 0, max: 1500 }),
+        fc.integer({ min: 1, max: 360 }),
+        fc.integer({ min: 0, max: 400 }),
+        (balance, rateBps, payments, made) => {
+          const loan: MortgageTerms = {
+            balance, balanceDate: '2024-01-31', annualRate: rateBps / 100, remainingPayments: payments,
+          };
+          const schedule = buildAmortizationSchedule(loan, '2024-01-31');
+          const date = schedule[Math.min(made, payments) - 1]?.date ?? '2024-01-31';
+          const expected = made === 0 ? balance : schedule[Math.min(made, payments) - 1].balance;
+          return Math.abs(getRemainingBalance(loan, date) - expected) < 0.01;
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
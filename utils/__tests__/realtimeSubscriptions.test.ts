@@ -0,0 +1,110 @@
+/**
+ * Tests for realtime subscription scoping, backoff and health
+ *
+ * Property tests use fast-check with 100 iterations per property.
+ */
+
+import * as fc from 'fast-check';
+import {
+  DEFAULT_BACKOFF,
+  diffTopics,
+  getAssetIdsForPrice,
+  getPriceTopic,
+  getRealtimeHealth,
+  getReconnectDelay,
+  getSubscriptionListings,
+  updateLatency,
+} from '../realtimeSubscriptions';
+
+const assets = [
+  { id: 'a1', portfolio_id: 'p1', symbol: 'aapl' },
+  { id: 'a2', portfolio_id: 'p1', symbol: 'SHOP', metadata: { exchange: 'TSX' } },
+  { id: 'a3', portfolio_id: 'p2', symbol: 'AAPL' },
+  { id: 'a4', portfolio_id: 'p2' },
+];
+
+const connected = { enabled: true, isOnline: true, isActive: true, wanted: 2, joined: 2, hasDropped: false };
+
+describe('Realtime Subscription Utilities', () => {
+  describe('scoping', () => {
+    it('should give each listing its own topic', () => {
+      expect(getPriceTopic({ symbol: 'aapl' })).toBe('price-updates:AAPL');
+      expect(getPriceTopic({ symbol: 'SHOP', exchange: 'TSX' })).toBe('price-updates:SHOP:TSX');
+    });
+
+    it('should join each held symbol once, skipping assets without one', () => {
+      expect(getSubscriptionListings(assets)).toEqual([
+        { symbol: 'AAPL', exchange: undefined },
+        { symbol: 'SHOP', exchange: 'TSX' },
+      ]);
+    });
+
+    it('should only join the selected portfolio and the watched symbols', () => {
+      expect(getSubscriptionListings(assets, 'p2', [{ symbol: 'msft' }])).toEqual([
+        { symbol: 'AAPL', exchange: undefined },
+        { symbol: 'MSFT', exchange: undefined },
+      ]);
+    });
+
+    it('should apply a symbol price to every matching holding', () => {
+      expect(getAssetIdsForPrice(assets, { symbol: 'AAPL' })).toEqual(['a1', 'a3']);
+      expect(getAssetIdsForPrice(assets, { symbol: 'SHOP', exchange: 'NYSE' })).toEqual([]);
+      expect(getAssetIdsForPrice(assets, { symbol: 'shop', exchange: 'TSX' })).toEqual(['a2']);
+    });
+
+    it('should join new topics and leave dropped ones', () => {
+      expect(diffTopics(['a', 'b'], ['b', 'c'])).toEqual({ join: ['c'], leave: ['a'] });
+    });
+  });
+
+  describe('backoff', () => {
+    it('should double the delay up to the cap', () => {
+      const top = () => 1;
+      expect([0, 1, 2, 3].map((attempt) => getReconnectDelay(attempt, DEFAULT_BACKOFF, top))).toEqual([
+        1000, 2000, 4000, 8000,
+      ]);
+      expect(getReconnectDelay(10, DEFAULT_BACKOFF, top)).toBe(30000);
+    });
+
+    it('should wait at least half the ceiling', () => {
+      expect(getReconnectDelay(2, DEFAULT_BACKOFF, () => 0)).toBe(2000);
+    });
+  });
+
+  describe('health', () => {
+    it('should be live once every channel is joined', () => {
+      expect(getRealtimeHealth(connected)).toBe('live');
+    });
+
+    it('should tell a first connection from a dropped one', () => {
+      expect(getRealtimeHealth({ ...connected, joined: 1 })).toBe('connecting');
+      expect(getRealtimeHealth({ ...connected, joined: 1, hasDropped: true })).toBe('reconnecting');
+    });
+
+    it('should pause in the background and report being offline', () => {
+      expect(getRealtimeHealth({ ...connected, isActive: false, isOnline: false })).toBe('paused');
+      expect(getRealtimeHealth({ ...connected, isOnline: false })).toBe('offline');
+    });
+
+    it('should smooth latency and ignore samples from skewed clocks', () => {
+      expect(updateLatency(null, 100)).toBe(100);
+      expect(updateLatency(100, 200)).toBe(120);
+      expect(updateLatency(100, -50)).toBe(100);
+    });
+  });
+
+  /**
+   * Property: backoff stays within bounds
+   * For any attempt and jitter, the delay is at least half the base and
+   * never more than the cap.
+   */
+  it('should keep every delay between half the base and the cap', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 0, max: 60 }), fc.double({ min: 0, max: 1, noNaN: true }), (attempt, jitter) => {
+        const delay = getReconnectDelay(attempt, DEFAULT_BACKOFF, () => jitter);
+        return delay >= DEFAULT_BACKOFF.baseMs / 2 && delay <= DEFAULT_BACKOFF.maxMs;
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
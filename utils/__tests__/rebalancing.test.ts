@@ -0,0 +1,169 @@
+/**
+ * Tests for target allocation drift and rebalancing plans
+ *
+ * Property tests use fast-check with 100 iterations per property.
+ */
+
+import * as fc from 'fast-check';
+import type { AllocationTarget } from '../../services/offlineStorage';
+import {
+  buildRebalanceRecommendation,
+  calculateDrift,
+  needsRebalance,
+  planRebalance,
+  resolveAssetWeights,
+  toRebalanceHoldings,
+  validateTargets,
+  type RebalanceHolding,
+} from '../rebalancing';
+
+const holdings: RebalanceHolding[] = [
+  { id: 'spy', asset_type: 'stock', value: 7000, price: 100 },
+  { id: 'qqq', asset_type: 'stock', value: 1000, price: 50 },
+  { id: 'agg', asset_type: 'fixed_income', value: 2000, price: 100 },
+];
+
+const targets: AllocationTarget[] = [
+  { scope: 'asset_type', key: 'stock', weight: 60 },
+  { scope: 'asset_type', key: 'fixed_income', weight: 40 },
+];
+
+describe('Rebalancing Utilities', () => {
+  it('should value holdings in the reporting currency', () => {
+    const [holding] = toRebalanceHoldings(
+      [{ id: 'a', asset_type: 'stock', quantity: 2, purchase_price: 10, current_price: 20, currency: 'EUR' }],
+      { currency: 'USD', rates: { EUR: 0.5 } }
+    );
+    expect(holding.price).toBeCloseTo(40);
+    expect(holding.value).toBeCloseTo(80);
+  });
+
+  describe('resolveAssetWeights', () => {
+    it('should share a type target by value', () => {
+      const weights = resolveAssetWeights(holdings, targets);
+      expect(weights.spy).toBeCloseTo(52.5);
+      expect(weights.qqq).toBeCloseTo(7.5);
+      expect(weights.agg).toBeCloseTo(40);
+    });
+
+    it('should carve asset targets out of their type', () => {
+      const weights = resolveAssetWeights(holdings, [...targets, { scope: 'asset', key: 'qqq', weight: 20 }]);
+      expect(weights.qqq).toBe(20);
+      expect(weights.spy).toBeCloseTo(40);
+    });
+
+    it('should plan untargeted types at zero', () => {
+      const weights = resolveAssetWeights(holdings, [{ scope: 'asset_type', key: 'stock', weight: 100 }]);
+      expect(weights.agg).toBe(0);
+    });
+  });
+
+  describe('validateTargets', () => {
+    it('should accept targets adding up to 100%', () => {
+      expect(validateTargets(holdings, targets)).toBeNull();
+      expect(validateTargets(holdings, [
+        { scope: 'asset_type', key: 'stock', weight: 60 },
+        { scope: 'asset', key: 'agg', weight: 40 },
+      ])).toBeNull();
+    });
+
+    it('should reject totals other than 100%', () => {
+      expect(validateTargets(holdings, [{ scope: 'asset_type', key: 'stock', weight: 90 }])).toMatch('90.0%');
+    });
+
+    it('should reject asset targets larger than their type', () => {
+      expect(validateTargets(holdings, [...targets, { scope: 'asset', key: 'spy', weight: 70 }])).not.toBeNull();
+    });
+  });
+
+  describe('calculateDrift', () => {
+    it('should flag targets outside their band', () => {
+      const drift = calculateDrift(holdings, { targets, drift_band: 5 });
+      const stock = drift.find((item) => item.key === 'stock')!;
+      expect(stock.currentWeight).toBeCloseTo(80);
+      expect(stock.drift).toBeCloseTo(20);
+      expect(stock.outOfBand).toBe(true);
+      expect(needsRebalance(drift)).toBe(true);
+    });
+
+    it('should prefer a target band over the portfolio band', () => {
+      const drift = calculateDrift(holdings, {
+        targets: [{ ...targets[0], drift_band: 25 }, { ...targets[1], drift_band: 25 }],
+        drift_band: 5,
+      });
+      expect(needsRebalance(drift)).toBe(false);
+    });
+  });
+
+  describe('planRebalance', () => {
+    it('should sell overweight holdings to fund underweight ones', () => {
+      const trades = planRebalance(holdings, targets, 'full');
+      expect(trades.map((t) => [t.asset_id, t.side])).toEqual([['spy', 'sell'], ['qqq', 'sell'], ['agg', 'buy']]);
+      expect(trades[0].value).toBeCloseTo(1750);
+      expect(trades[0].quantity).toBeCloseTo(17.5);
+      expect(trades[2].value).toBeCloseTo(2000);
+    });
+
+    it('should spend contributions on underweight holdings without selling', () => {
+      const trades = planRebalance(holdings, targets, 'contributions_only', 1000);
+      expect(trades).toEqual([{ asset_id: 'agg', side: 'buy', value: 1000, quantity: 10 }]);
+    });
+
+    it('should plan nothing without a contribution in contributions-only mode', () => {
+      expect(planRebalance(holdings, targets, 'contributions_only', 0)).toEqual([]);
+    });
+
+    /**
+     * Property: a full rebalance lands on target
+     * For any holdings and contribution, applying the planned trades leaves
+     * every holding at its target weight of the new total.
+     */
+    it('should reach the target weights after a full rebalance', () => {
+      fc.assert(
+        fc.property(
+          fc.array(fc.integer({ min: 0, max: 100000 }), { minLength: 3, maxLength: 3 }),
+          fc.integer({ min: 0, max: 10000 }),
+          (values, contribution) => {
+            const current = holdings.map((holding, i) => ({ ...holding, value: values[i] }));
+            const trades = planRebalance(current, targets, 'full', contribution);
+            const after = current.map((holding) => {
+              const trade = trades.find((t) => t.asset_id === holding.id);
+              return holding.value + (trade ? (trade.side === 'buy' ? trade.value : -trade.value) : 0);
+            });
+            const total = values.reduce((a, b) => a + b, 0) + contribution;
+            const weights = resolveAssetWeights(current, targets);
+            return current.every((holding, i) => Math.abs(after[i] - (weights[holding.id] / 100) * total) < 0.02);
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+
+    /**
+     * Property: contributions-only never sells
+     * For any holdings and contribution, every trade is a buy and the buys
+     * spend exactly the contribution.
+     */
+    it('should only buy and spend the whole contribution', () => {
+      fc.assert(
+        fc.property(
+          fc.array(fc.integer({ min: 1, max: 100000 }), { minLength: 3, maxLength: 3 }),
+          fc.integer({ min: 1, max: 10000 }),
+          (values, contribution) => {
+            const current = holdings.map((holding, i) => ({ ...holding, value: values[i] }));
+            const trades = planRebalance(current, targets, 'contributions_only', contribution);
+            const spent = trades.reduce((sum, trade) => sum + trade.value, 0);
+            return trades.every((trade) => trade.side === 'buy') && Math.abs(spent - contribution) < 0.02;
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+  });
+
+  it('should recommend rebalancing only when drifted', () => {
+    const drifted = buildRebalanceRecommendation('p1', 'Retirement', calculateDrift(holdings, { targets, drift_band: 5 }));
+    expect(drifted).toMatchObject({ id: 'rebalance-p1', type: 'rebalance', priority: 'high' });
+    expect(buildRebalanceRecommendation('p1', 'Retirement', calculateDrift(holdings, { targets, drift_band: 25 }))).toBeNull();
+  });
+});
@@ -0,0 +1,279 @@
+/**
+ * Tests for the returns engine
+ *
+ * Property tests use fast-check with 100 iterations per property.
+ */
+
+import * as fc from 'fast-check';
+import type { AssetTransaction, PortfolioCashFlow, TransactionType } from '../../services/offlineStorage';
+import {
+  buildReturnsInput,
+  calculatePeriodReturn,
+  calculateReturns,
+  calculateTwr,
+  calculateXirr,
+  getPeriodStartDate,
+  getPriceOn,
+  getValueOn,
+  type ReturnsInput,
+} from '../returns';
+
+const NOW = new Date('2024-12-31T12:00:00Z');
+
+function transaction(
+  id: string,
+  type: TransactionType,
+  quantity: number,
+  price: number,
+  date: string,
+  fees = 0
+): AssetTransaction {
+  return {
+    id,
+    asset_id: 'asset-1',
+    transaction_type: type,
+    quantity,
+    price,
+    fees,
+    transaction_date: date,
+    created_at: `${date}T00:00:00.000Z`,
+    updated_at: `${date}T00:00:00.000Z`,
+  };
+}
+
+function cashFlow(type: PortfolioCashFlow['flow_type'], amount: number, date: string): PortfolioCashFlow {
+  return {
+    id: `${type}-${date}`,
+    portfolio_id: 'portfolio-1',
+    flow_type: type,
+    amount,
+    flow_date: date,
+    created_at: `${date}T00:00:00.000Z`,
+    updated_at: `${date}T00:00:00.000Z`,
+  };
+}
+
+describe('Returns Engine', () => {
+  describe('getPeriodStartDate', () => {
+    it('should count back the period length from now', () => {
+      expect(getPeriodStartDate('1D', NOW)).toBe('2024-12-30');
+      expect(getPeriodStartDate('1W', NOW)).toBe('2024-12-24');
+      expect(getPeriodStartDate('1Y', NOW)).toBe('2024-01-01');
+    });
+
+    it('should have no start for ALL', () => {
+      expect(getPeriodStartDate('ALL', NOW)).toBeNull();
+    });
+  });
+
+  describe('getPriceOn', () => {
+    const points = [
+      { date: '2024-01-10T16:00:00Z', price: 10 },
+      { date: '2024-02-10T16:00:00Z', price: 20 },
+    ];
+
+    it('should use the latest price on or before the date', () => {
+      expect(getPriceOn(points, '2024-02-01')).toBe(10);
+      expect(getPriceOn(points, '2024-02-10')).toBe(20);
+    });
+
+    it('should fall back to the earliest price before any data', () => {
+      expect(getPriceOn(points, '2023-12-01')).toBe(10);
+      expect(getPriceOn([], '2024-01-01')).toBeNull();
+    });
+  });
+
+  describe('calculateTwr', () => {
+    it('should chain-link sub-period returns and ignore flow timing', () => {
+      // +10% on 100, then 100 is added, then +10% on 210
+      const twr = calculateTwr(
+        [
+          { date: '2024-01-01', value: 100 },
+          { date: '2024-02-01', value: 210 },
+          { date: '2024-03-01', value: 231 },
+        ],
+        [{ date: '2024-02-01', amount: 100 }]
+      );
+      expect(twr).toBeCloseTo(0.21);
+    });
+
+    it('should skip sub-periods with nothing invested', () => {
+      const twr = calculateTwr(
+        [
+          { date: '2024-01-01', value: 0 },
+          { date: '2024-01-02', value: 100 },
+          { date: '2024-03-01', value: 120 },
+        ],
+        [{ date: '2024-01-02', amount: 100 }]
+      );
+      expect(twr).toBeCloseTo(0.2);
+    });
+
+    it('should return null when nothing was ever invested', () => {
+      expect(calculateTwr([{ date: '2024-01-01', value: 0 }, { date: '2024-02-01', value: 0 }], [])).toBeNull();
+    });
+  });
+
+  describe('calculateXirr', () => {
+    it('should return the annual rate for a one-year investment', () => {
+      expect(calculateXirr([
+        { date: '2023-01-01', amount: -1000 },
+        { date: '2024-01-01', amount: 1100 },
+      ])).toBeCloseTo(0.1, 3);
+    });
+
+    it('should return null without both payments and receipts', () => {
+      expect(calculateXirr([{ date: '2024-01-01', amount: -100 }])).toBeNull();
+    });
+
+    /**
+     * Property: XIRR discounts the flows to zero
+     * For any single investment grown by a factor over a span of days, the
+     * solved rate reproduces that factor.
+     */
+    it('should recover the growth rate of any single investment', () => {
+      fc.assert(
+        fc.property(
+          fc.double({ min: 0.5, max: 3, noNaN: true }),
+          fc.integer({ min: 30, max: 3650 }),
+          (factor, days) => {
+            const end = new Date(Date.UTC(2020, 0, 1) + days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+            const rate = calculateXirr([
+              { date: '2020-01-01', amount: -1000 },
+              { date: end, amount: 1000 * factor },
+            ]);
+            if (rate === null) return false;
+            return Math.abs(Math.pow(1 + rate, days / 365) - factor) < 1e-6;
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+  });
+
+  describe('holdings without recorded cash flows', () => {
+    const input: ReturnsInput = {
+      holdings: [{
+        transactions: [
+          transaction('t1', 'buy', 10, 100, '2024-01-01'),
+          transaction('t2', 'buy', 10, 150, '2024-07-01'),
+        ],
+        prices: [],
+        currentPrice: 165,
+      }],
+    };
+
+    it('should treat buys as money coming in', () => {
+      const result = calculatePeriodReturn(input, 'ALL', NOW);
+      expect(result.startValue).toBe(0);
+      expect(result.netFlows).toBe(2500);
+      expect(result.endValue).toBe(3300);
+      // 100 -> 150 (+50%), then 150 -> 165 (+10%)
+      expect(result.twr).toBeCloseTo(0.65);
+      expect(result.xirr).not.toBeNull();
+    });
+
+    it('should only count flows inside the period', () => {
+      const result = calculatePeriodReturn(input, '3M', NOW);
+      expect(result.netFlows).toBe(0);
+      expect(result.twr).toBeCloseTo(0.1);
+    });
+  });
+
+  describe('holdings in portfolios with recorded cash flows', () => {
+    const input: ReturnsInput = {
+      holdings: [{
+        transactions: [transaction('t1', 'buy', 10, 100, '2024-01-02')],
+        prices: [],
+        currentPrice: 120,
+        cashFunded: true,
+      }],
+      cashFlows: [cashFlow('contribution', 1500, '2024-01-01')],
+    };
+
+    it('should include uninvested cash in the value', () => {
+      expect(getValueOn(input, '2024-01-01', NOW)).toBe(1500);
+      expect(getValueOn(input, '2024-06-01', NOW)).toBe(1500);
+      expect(getValueOn(input, '2024-12-31', NOW)).toBe(1700);
+    });
+
+    it('should not treat buys as external flows', () => {
+      const result = calculatePeriodReturn(input, 'ALL', NOW);
+      expect(result.netFlows).toBe(1500);
+      expect(result.twr).toBeCloseTo(200 / 1500);
+    });
+  });
+
+  describe('income', () => {
+    const holding = {
+      transactions: [transaction('t1', 'buy', 10, 100, '2024-01-02')],
+      prices: [],
+      currentPrice: 100,
+      income: [{ date: '2024-06-01', amount: 50 }],
+    };
+
+    it('should count income paid out of a holding towards its return', () => {
+      const result = calculatePeriodReturn({ holdings: [holding] }, 'ALL', NOW);
+      expect(result.twr).toBeCloseTo(0.05);
+      expect(result.netFlows).toBe(950);
+    });
+
+    it('should keep income as cash in portfolios with recorded cash flows', () => {
+      const input: ReturnsInput = {
+        holdings: [{ ...holding, cashFunded: true }],
+        cashFlows: [cashFlow('contribution', 1000, '2024-01-01')],
+      };
+      expect(getValueOn(input, '2024-12-31', NOW)).toBe(1050);
+      expect(calculatePeriodReturn(input, 'ALL', NOW).twr).toBeCloseTo(0.05);
+    });
+  });
+
+  describe('buildReturnsInput', () => {
+    const asset = {
+      id: 'asset-1',
+      portfolio_id: 'portfolio-1',
+      quantity: 5,
+      purchase_price: 10,
+      purchase_date: '2024-01-01',
+      created_at: '2024-01-01T00:00:00.000Z',
+      updated_at: '2024-01-01T00:00:00.000Z',
+      current_price: 12,
+      currency: 'EUR',
+    };
+
+    it('should use the opening lot, matching prices and the FX rate', () => {
+      const input = buildReturnsInput(
+        [asset],
+        [],
+        [{ asset_id: 'asset-1', price: 11, timestamp: '2024-06-01T00:00:00Z' }, { asset_id: 'other', price: 1, timestamp: '2024-06-01T00:00:00Z' }],
+        [],
+        { currency: 'USD', rates: { EUR: 0.5 } }
+      );
+
+      expect(input.holdings[0].transactions).toHaveLength(1);
+      expect(input.holdings[0].prices).toEqual([{ date: '2024-06-01T00:00:00Z', price: 11 }]);
+      expect(input.holdings[0].fxRate).toBe(2);
+      expect(input.holdings[0].cashFunded).toBe(false);
+    });
+
+    it('should convert the asset\'s income into the reporting currency', () => {
+      const input = buildReturnsInput([asset], [], [], [], { currency: 'USD', rates: { EUR: 0.5 } }, [{
+        id: 'income-1',
+        asset_id: 'asset-1',
+        income_type: 'dividend',
+        amount: 5,
+        currency: 'EUR',
+        payment_date: '2024-06-01',
+        created_at: '2024-06-01T00:00:00.000Z',
+        updated_at: '2024-06-01T00:00:00.000Z',
+      }]);
+      expect(input.holdings[0].income).toEqual([{ date: '2024-06-01', amount: 10 }]);
+    });
+  });
+
+  it('should compute every period', () => {
+    const results = calculateReturns({ holdings: [] }, NOW);
+    expect(Object.keys(results)).toEqual(['1D', '1W', '1M', '3M', '1Y', 'ALL']);
+    expect(results.ALL.twr).toBeNull();
+  });
+});
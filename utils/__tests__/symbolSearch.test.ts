@@ -0,0 +1,104 @@
+/**
+ * Tests for symbol search ranking, listing disambiguation and quote validation
+ *
+ * Property tests use fast-check with 100 iterations per property.
+ */
+
+import * as fc from 'fast-check';
+import type { SymbolListing } from '../../services/offlineStorage';
+import {
+  formatListing,
+  getAmbiguousSymbols,
+  getPopularListings,
+  mergeListings,
+  parseQuote,
+  scoreListing,
+  searchListings,
+  SEED_SYMBOLS,
+} from '../symbolSearch';
+
+const shopTsx: SymbolListing = { symbol: 'SHOP', name: 'Shopify Inc.', asset_type: 'stock', exchange: 'TSX', currency: 'CAD' };
+const shopNyse: SymbolListing = { symbol: 'SHOP', name: 'Shopify Inc.', asset_type: 'stock', exchange: 'NYSE', currency: 'USD' };
+
+const listings: SymbolListing[] = [
+  ...SEED_SYMBOLS,
+  shopTsx,
+  shopNyse,
+  { symbol: 'SHOO', name: 'Steven Madden Ltd.', asset_type: 'stock', exchange: 'NASDAQ', currency: 'USD' },
+  { symbol: 'WMT', name: 'Walmart Inc.', asset_type: 'stock', exchange: 'NYSE', currency: 'USD' },
+];
+
+describe('Symbol Search Utilities', () => {
+  describe('searchListings', () => {
+    it('should rank exact tickers before prefixes and names', () => {
+      expect(searchListings(listings, 'shop', 'stock').map(formatListing)).toEqual(['SHOP · TSX', 'SHOP · NYSE']);
+      expect(searchListings(listings, 'sho', 'stock').map((l) => l.symbol)).toEqual(['SHOO', 'SHOP', 'SHOP']);
+      expect(searchListings(listings, 'walmart', 'stock').map((l) => l.symbol)).toEqual(['WMT']);
+    });
+
+    it('should match words inside names', () => {
+      expect(searchListings(listings, 'chase').map((l) => l.symbol)).toEqual(['JPM']);
+      expect(scoreListing(listings[0], 'xyz')).toBe(0);
+    });
+
+    it('should filter by asset type', () => {
+      expect(searchListings(listings, 'gold', 'stock')).toEqual([]);
+      expect(searchListings(listings, 'gold', 'commodity').map((l) => l.symbol)).toEqual(['XAU']);
+    });
+
+    /**
+     * Property: every result matches
+     * For any query, every listing returned contains the query in its
+     * symbol or name, and no more than the limit is returned.
+     */
+    it('should only return matching listings', () => {
+      fc.assert(
+        fc.property(fc.string({ minLength: 1, maxLength: 4 }), (query) => {
+          const term = query.trim().toUpperCase();
+          const results = searchListings(listings, query, undefined, 5);
+          return (
+            results.length <= 5 &&
+            results.every((l) => !term || l.symbol.includes(term) || l.name.toUpperCase().includes(term))
+          );
+        }),
+        { numRuns: 100 }
+      );
+    });
+  });
+
+  it('should flag symbols listed on several exchanges', () => {
+    expect([...getAmbiguousSymbols(listings)]).toEqual(['SHOP']);
+    expect(formatListing({ symbol: 'BTC' })).toBe('BTC');
+  });
+
+  it('should keep the first copy of each listing when merging', () => {
+    const renamed = { ...shopTsx, name: 'Shopify (new)' };
+    const merged = mergeListings([renamed], [shopTsx, shopNyse]);
+    expect(merged).toEqual([renamed, shopNyse]);
+  });
+
+  it('should offer popular listings for a type', () => {
+    expect(getPopularListings('crypto').map((l) => l.symbol)).toContain('BTC');
+    expect(getPopularListings('real_estate')).toEqual([]);
+  });
+
+  describe('parseQuote', () => {
+    const now = '2024-06-01T12:00:00.000Z';
+
+    it('should accept a positive price for the listing', () => {
+      expect(parseQuote({ symbol: 'SHOP', price: '98.5', currency: 'cad', timestamp: '2024-06-01T11:59:00Z' }, shopTsx, now))
+        .toEqual({ symbol: 'SHOP', exchange: 'TSX', price: 98.5, currency: 'CAD', as_of: '2024-06-01T11:59:00Z' });
+      expect(parseQuote({ price: 72 }, shopNyse, now)).toEqual({
+        symbol: 'SHOP', exchange: 'NYSE', price: 72, currency: 'USD', as_of: now,
+      });
+    });
+
+    it('should reject missing, non-positive or mismatched prices', () => {
+      expect(parseQuote(null, shopTsx)).toBeNull();
+      expect(parseQuote({ error: 'Unknown symbol' }, shopTsx)).toBeNull();
+      expect(parseQuote({ price: 0 }, shopTsx)).toBeNull();
+      expect(parseQuote({ price: 'n/a' }, shopTsx)).toBeNull();
+      expect(parseQuote({ symbol: 'SHOO', price: 40 }, shopTsx)).toBeNull();
+    });
+  });
+});
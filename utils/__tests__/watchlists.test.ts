@@ -0,0 +1,145 @@
+/**
+ * Tests for watchlist names, watched prices and symbol alerts
+ *
+ * Property tests use fast-check with 100 iterations per property.
+ */
+
+import * as fc from 'fast-check';
+import type { Watchlist, WatchlistItem } from '../../services/offlineStorage';
+import {
+  applyPriceUpdate,
+  getAlertSubject,
+  getLatestPrice,
+  getSymbolAlerts,
+  getWatchedListings,
+  isWatched,
+  validateWatchlistName,
+  type WatchedPrice,
+} from '../watchlists';
+
+function item(symbol: string, exchange?: string, watchlistId = 'list-1'): WatchlistItem {
+  return {
+    id: `${watchlistId}-${symbol}-${exchange ?? ''}`,
+    watchlist_id: watchlistId,
+    symbol,
+    name: symbol,
+    asset_type: 'stock',
+    exchange,
+    currency: 'USD',
+    created_at: '2024-01-01T00:00:00.000Z',
+  };
+}
+
+function watchlist(id: string, name: string, items: WatchlistItem[]): Watchlist {
+  return { id, name, items, created_at: '2024-01-01T00:00:00.000Z', updated_at: '2024-01-01T00:00:00.000Z' };
+}
+
+const tech = watchlist('list-1', 'Tech', [item('AAPL', 'NASDAQ'), item('SHOP', 'TSX')]);
+const energy = watchlist('list-2', 'Energy', [item('XOM', 'NYSE', 'list-2'), item('SHOP', 'TSX', 'list-2')]);
+
+describe('Watchlist Utilities', () => {
+  describe('validateWatchlistName', () => {
+    it('should accept a new name', () => {
+      expect(validateWatchlistName('Dividends', [tech, energy])).toBeNull();
+    });
+
+    it('should reject empty, long and duplicate names', () => {
+      expect(validateWatchlistName('  ', [])).toBe('Name is required');
+      expect(validateWatchlistName('x'.repeat(41), [])).toBe('Name must be at most 40 characters');
+      expect(validateWatchlistName(' tech ', [tech])).toBe('A watchlist with this name already exists');
+    });
+
+    it('should let a list keep its own name when renamed', () => {
+      expect(validateWatchlistName('Tech', [tech], 'list-1')).toBeNull();
+    });
+  });
+
+  it('should match watched listings by symbol and exchange', () => {
+    expect(isWatched(tech, { symbol: 'SHOP', exchange: 'TSX' })).toBe(true);
+    expect(isWatched(tech, { symbol: 'SHOP', exchange: 'NYSE' })).toBe(false);
+    expect(getWatchedListings([tech, energy]).map((l) => l.symbol)).toEqual(['AAPL', 'SHOP', 'XOM']);
+  });
+
+  describe('applyPriceUpdate', () => {
+    const listings = [{ symbol: 'SHOP', exchange: 'TSX' }, { symbol: 'SHOP', exchange: 'NYSE' }];
+
+    it('should price every exchange when the update has none', () => {
+      const prices = applyPriceUpdate({}, listings, { symbol: 'shop', price: 100, timestamp: '2024-01-02T10:00:00Z' });
+      expect(Object.keys(prices).sort()).toEqual(['SHOP:NYSE', 'SHOP:TSX']);
+    });
+
+    it('should only price the named exchange', () => {
+      const prices = applyPriceUpdate({}, listings, { symbol: 'SHOP', exchange: 'TSX', price: 140, currency: 'CAD' });
+      expect(Object.keys(prices)).toEqual(['SHOP:TSX']);
+      expect(prices['SHOP:TSX']).toMatchObject({ price: 140, currency: 'CAD' });
+    });
+
+    it('should ignore stale and invalid prices', () => {
+      const prices = { 'SHOP:TSX': { price: 140, as_of: '2024-01-02T10:00:00Z' } };
+      expect(applyPriceUpdate(prices, listings, { symbol: 'SHOP', exchange: 'TSX', price: 1, timestamp: '2024-01-01T00:00:00Z' })).toBe(prices);
+      expect(applyPriceUpdate(prices, listings, { symbol: 'SHOP', exchange: 'TSX', price: 0 })).toBe(prices);
+    });
+  });
+
+  describe('symbol alerts', () => {
+    const alerts = [
+      { id: '1', asset_id: 'asset-1', symbol: null, exchange: null },
+      { id: '2', asset_id: null, symbol: 'SHOP', exchange: 'TSX' },
+      { id: '3', asset_id: null, symbol: 'SHOP', exchange: 'NYSE' },
+    ];
+
+    it('should find alerts set on a watched symbol', () => {
+      expect(getSymbolAlerts(alerts, { symbol: 'SHOP', exchange: 'TSX' }).map((a) => a.id)).toEqual(['2']);
+    });
+
+    it('should name the holding, else the symbol', () => {
+      const assets = new Map([['asset-1', { symbol: 'AAPL', name: 'Apple Inc.' }]]);
+      expect(getAlertSubject(alerts[0], assets)).toBe('AAPL');
+      expect(getAlertSubject(alerts[1], assets)).toBe('SHOP (TSX)');
+      expect(getAlertSubject({ asset_id: 'gone', symbol: null, exchange: null }, assets)).toBe('Unknown Asset');
+    });
+
+    it('should name the portfolio of a portfolio alert', () => {
+      const portfolios = new Map([['p1', { name: 'Retirement' }]]);
+      const alert = { asset_id: null, symbol: null, exchange: null, portfolio_id: 'p1' };
+      expect(getAlertSubject(alert, new Map(), portfolios)).toBe('Retirement');
+    });
+  });
+
+  /**
+   * Property: the latest price wins
+   * Applying updates in any order leaves the price with the latest timestamp.
+   */
+  it('should keep the latest price whatever order updates arrive in', () => {
+    fc.assert(
+      fc.property(
+        fc.array(
+          fc.record({
+            price: fc.integer({ min: 1, max: 100000 }),
+            minute: fc.integer({ min: 0, max: 59 }),
+          }),
+          { minLength: 1, maxLength: 10 }
+        ),
+        (updates) => {
+          const listings = [{ symbol: 'AAPL', exchange: 'NASDAQ' }];
+          const prices = updates.reduce(
+            (acc, update) =>
+              applyPriceUpdate(acc, listings, {
+                symbol: 'AAPL',
+                price: update.price,
+                timestamp: `2024-01-02T10:${String(update.minute).padStart(2, '0')}:00Z`,
+              }),
+            {} as Record<string, WatchedPrice>
+          );
+          const latestMinute = Math.max(...updates.map((u) => u.minute));
+          const latest = prices['AAPL:NASDAQ'];
+          return (
+            latest.as_of === `2024-01-02T10:${String(latestMinute).padStart(2, '0')}:00Z` &&
+            getLatestPrice(undefined, latest) === latest
+          );
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
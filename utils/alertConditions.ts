@@ -0,0 +1,373 @@
+/**
+ * Alert Condition Utilities
+ *
+ * Typed alert conditions: price crossings, daily changes, moving average
+ * crossovers, RSI levels, 52-week highs and lows and volume spikes,
+ * combined with AND or OR. Validates and describes conditions for the
+ * condition builder and evaluates them against a symbol's daily history.
+ */
+
+import type { AlertCondition, AlertRule, AlertRuleKind, PriceAlert } from '../services/offlineStorage';
+
+export const RULE_KINDS: AlertRuleKind[] = [
+  'price_cross',
+  'percent_change',
+  'ma_cross',
+  'rsi',
+  'week_52',
+  'volume_spike',
+];
+
+export const RULE_KIND_LABELS: Record<AlertRuleKind, string> = {
+  price_cross: 'Price crosses',
+  percent_change: 'Daily change',
+  ma_cross: 'MA crossover',
+  rsi: 'RSI',
+  week_52: '52-week high/low',
+  volume_spike: 'Volume spike',
+};
+
+export const MAX_CONDITION_RULES = 5;
+
+export const TRADING_DAYS_PER_YEAR = 252;
+
+/** Extra calendar days read before a history window, for market holidays */
+const HOLIDAY_MARGIN_DAYS = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** A number the builder asks for, keyed by the rule field it sets */
+export interface RuleField {
+  key: string;
+  label: string;
+  /** Whole numbers only, e.g. a period in days */
+  integer?: boolean;
+}
+
+export const RULE_FIELDS: Record<AlertRuleKind, RuleField[]> = {
+  price_cross: [{ key: 'price', label: 'Price' }],
+  percent_change: [{ key: 'percent', label: 'Change (%)' }],
+  ma_cross: [
+    { key: 'fast_period', label: 'Fast (days)', integer: true },
+    { key: 'slow_period', label: 'Slow (days)', integer: true },
+  ],
+  rsi: [
+    { key: 'threshold', label: 'Level' },
+    { key: 'period', label: 'Period (days)', integer: true },
+  ],
+  week_52: [],
+  volume_spike: [
+    { key: 'multiple', label: 'Times average' },
+    { key: 'period', label: 'Average (days)', integer: true },
+  ],
+};
+
+/** Daily history of a symbol, oldest first; the last close is the latest price */
+export interface MarketHistory {
+  closes: number[];
+  volumes?: number[];
+}
+
+/**
+ * A rule of the given kind with common defaults, crossing the current
+ * price when one is known
+ */
+export function createRule(kind: AlertRuleKind, currentPrice?: number): AlertRule {
+  switch (kind) {
+    case 'price_cross':
+      return { kind, direction: 'above', price: currentPrice ? Math.round(currentPrice * 100) / 100 : 0 };
+    case 'percent_change':
+      return { kind, percent: 5 };
+    case 'ma_cross':
+      return { kind, direction: 'above', fast_period: 50, slow_period: 200 };
+    case 'rsi':
+      return { kind, direction: 'above', threshold: 70, period: 14 };
+    case 'week_52':
+      return { kind, extreme: 'high' };
+    case 'volume_spike':
+      return { kind, multiple: 2, period: 20 };
+  }
+}
+
+/**
+ * Sets one numeric field of a rule
+ */
+export function setRuleField(rule: AlertRule, key: string, value: number): AlertRule {
+  return { ...rule, [key]: value } as AlertRule;
+}
+
+function isPeriod(value: number): boolean {
+  return Number.isInteger(value) && value >= 2;
+}
+
+/**
+ * Validates one rule
+ * Returns an error message, or null when the rule is valid
+ */
+export function validateRule(rule: AlertRule): string | null {
+  switch (rule.kind) {
+    case 'price_cross':
+      return Number.isFinite(rule.price) && rule.price > 0 ? null : 'Price must be greater than 0';
+    case 'percent_change':
+      return Number.isFinite(rule.percent) && rule.percent !== 0 && rule.percent > -100
+        ? null
+        : 'Percentage change must be non-zero and greater than -100%';
+    case 'ma_cross':
+      if (!isPeriod(rule.fast_period) || !isPeriod(rule.slow_period)) {
+        return 'Moving average periods must be whole numbers of at least 2 days';
+      }
+      return rule.fast_period < rule.slow_period ? null : 'The fast average must be shorter than the slow one';
+    case 'rsi':
+      if (!Number.isFinite(rule.threshold) || rule.threshold <= 0 || rule.threshold >= 100) {
+        return 'RSI level must be between 0 and 100';
+      }
+      return isPeriod(rule.period) ? null : 'RSI period must be a whole number of at least 2 days';
+    case 'week_52':
+      return rule.extreme === 'high' || rule.extreme === 'low' ? null : 'Choose a 52-week high or low';
+    case 'volume_spike':
+      if (!Number.isFinite(rule.multiple) || rule.multiple <= 1) {
+        return 'Volume multiple must be greater than 1';
+      }
+      return isPeriod(rule.period) ? null : 'Volume period must be a whole number of at least 2 days';
+    default:
+      return 'Unknown rule';
+  }
+}
+
+/**
+ * Validates a condition and each of its rules
+ * Returns an error message, or null when the condition is valid
+ */
+export function validateCondition(condition: AlertCondition): string | null {
+  if (condition.operator !== 'and' && condition.operator !== 'or') {
+    return 'Choose whether all or any rules must match';
+  }
+  if (!Array.isArray(condition.rules) || condition.rules.length === 0) {
+    return 'Add at least one rule';
+  }
+  if (condition.rules.length > MAX_CONDITION_RULES) {
+    return `A condition can have at most ${MAX_CONDITION_RULES} rules`;
+  }
+  for (const rule of condition.rules) {
+    const error = validateRule(rule);
+    if (error) return error;
+  }
+  return null;
+}
+
+function formatLevel(value: number): string {
+  return value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+export function describeRule(rule: AlertRule): string {
+  switch (rule.kind) {
+    case 'price_cross':
+      return `Price crosses ${rule.direction} ${formatLevel(rule.price)}`;
+    case 'percent_change':
+      return `${rule.percent > 0 ? 'Rises' : 'Falls'} ${Math.abs(rule.percent)}% in a day`;
+    case 'ma_cross':
+      return `${rule.fast_period}-day average crosses ${rule.direction} ${rule.slow_period}-day`;
+    case 'rsi':
+      return `${rule.period}-day RSI ${rule.direction} ${rule.threshold}`;
+    case 'week_52':
+      return `Hits a 52-week ${rule.extreme}`;
+    case 'volume_spike':
+      return `Volume ${rule.multiple}× its ${rule.period}-day average`;
+  }
+}
+
+export function describeCondition(condition: AlertCondition): string {
+  return condition.rules.map(describeRule).join(condition.operator === 'and' ? ' and ' : ' or ');
+}
+
+/**
+ * Alert type saved with a condition, so older clients still recognize
+ * single price and percentage alerts
+ */
+export function getConditionAlertType(condition: AlertCondition): string {
+  if (condition.rules.length === 1) {
+    if (condition.rules[0].kind === 'price_cross') return 'price_target';
+    if (condition.rules[0].kind === 'percent_change') return 'percentage_change';
+  }
+  return 'condition';
+}
+
+/**
+ * The bare number saved alongside a condition: the first rule's level
+ */
+export function getConditionValue(condition: AlertCondition): number {
+  const rule = condition.rules[0];
+  switch (rule?.kind) {
+    case 'price_cross':
+      return rule.price;
+    case 'percent_change':
+      return rule.percent;
+    case 'ma_cross':
+      return rule.slow_period;
+    case 'rsi':
+      return rule.threshold;
+    case 'volume_spike':
+      return rule.multiple;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * The condition an alert checks. Alerts set before conditions become a
+ * single rule: a daily change, or a price cross towards the target from
+ * the reference price. Null for alerts that do not watch a price.
+ */
+export function getAlertCondition(
+  alert: Pick<PriceAlert, 'alert_type' | 'condition_value' | 'condition'>,
+  referencePrice?: number
+): AlertCondition | null {
+  if (alert.condition) return alert.condition;
+  switch (alert.alert_type) {
+    case 'price_target':
+      return {
+        operator: 'and',
+        rules: [
+          {
+            kind: 'price_cross',
+            direction: referencePrice !== undefined && referencePrice > alert.condition_value ? 'below' : 'above',
+            price: alert.condition_value,
+          },
+        ],
+      };
+    case 'percentage_change':
+      return { operator: 'and', rules: [{ kind: 'percent_change', percent: alert.condition_value }] };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Number of daily closes needed to evaluate every rule of a condition
+ */
+export function getRequiredHistory(condition: AlertCondition): number {
+  return Math.max(
+    2,
+    ...condition.rules.map((rule) => {
+      switch (rule.kind) {
+        case 'ma_cross':
+          return rule.slow_period + 1;
+        case 'rsi':
+        case 'volume_spike':
+          return rule.period + 1;
+        case 'week_52':
+          return TRADING_DAYS_PER_YEAR + 1;
+        default:
+          return 2;
+      }
+    })
+  );
+}
+
+/**
+ * First day (YYYY-MM-DD) of the price history holding a number of daily
+ * closes before today, counting five trading days to a week
+ */
+export function getHistoryStartDate(closes: number, now: Date = new Date()): string {
+  const days = Math.ceil((closes * 7) / 5) + HOLIDAY_MARGIN_DAYS;
+  return new Date(now.getTime() - days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Simple moving average of the last `period` values, or null without enough values
+ */
+export function calculateSMA(values: number[], period: number): number | null {
+  if (period <= 0 || values.length < period) return null;
+  return values.slice(-period).reduce((sum, value) => sum + value, 0) / period;
+}
+
+/**
+ * Relative strength index of the closes with Wilder's smoothing, from 0 to 100,
+ * or null without at least period + 1 closes
+ */
+export function calculateRSI(closes: number[], period: number): number | null {
+  if (period <= 0 || closes.length < period + 1) return null;
+
+  let avgGain = 0;
+  let avgLoss = 0;
+  for (let i = 1; i <= period; i++) {
+    const change = closes[i] - closes[i - 1];
+    if (change > 0) avgGain += change;
+    else avgLoss -= change;
+  }
+  avgGain /= period;
+  avgLoss /= period;
+
+  for (let i = period + 1; i < closes.length; i++) {
+    const change = closes[i] - closes[i - 1];
+    avgGain = (avgGain * (period - 1) + Math.max(change, 0)) / period;
+    avgLoss = (avgLoss * (period - 1) + Math.max(-change, 0)) / period;
+  }
+
+  if (avgLoss === 0) return avgGain === 0 ? 50 : 100;
+  return 100 - 100 / (1 + avgGain / avgLoss);
+}
+
+function crossed(direction: 'above' | 'below', before: number, after: number, level: number): boolean {
+  return direction === 'above' ? before < level && after >= level : before > level && after <= level;
+}
+
+/**
+ * Whether a rule holds on the latest day of the history; null when the
+ * history is too short to tell
+ */
+export function evaluateRule(rule: AlertRule, history: MarketHistory): boolean | null {
+  const { closes } = history;
+  if (closes.length < 2) return null;
+  const latest = closes[closes.length - 1];
+  const previous = closes[closes.length - 2];
+
+  switch (rule.kind) {
+    case 'price_cross':
+      return crossed(rule.direction, previous, latest, rule.price);
+    case 'percent_change': {
+      if (previous <= 0) return null;
+      const change = ((latest - previous) / previous) * 100;
+      return rule.percent > 0 ? change >= rule.percent : change <= rule.percent;
+    }
+    case 'ma_cross': {
+      const earlier = closes.slice(0, -1);
+      const fastNow = calculateSMA(closes, rule.fast_period);
+      const slowNow = calculateSMA(closes, rule.slow_period);
+      const fastBefore = calculateSMA(earlier, rule.fast_period);
+      const slowBefore = calculateSMA(earlier, rule.slow_period);
+      if (fastNow === null || slowNow === null || fastBefore === null || slowBefore === null) return null;
+      return rule.direction === 'above'
+        ? fastBefore <= slowBefore && fastNow > slowNow
+        : fastBefore >= slowBefore && fastNow < slowNow;
+    }
+    case 'rsi': {
+      const rsi = calculateRSI(closes, rule.period);
+      if (rsi === null) return null;
+      return rule.direction === 'above' ? rsi >= rule.threshold : rsi <= rule.threshold;
+    }
+    case 'week_52': {
+      const year = closes.slice(-(TRADING_DAYS_PER_YEAR + 1), -1);
+      return rule.extreme === 'high' ? latest > Math.max(...year) : latest < Math.min(...year);
+    }
+    case 'volume_spike': {
+      const volumes = history.volumes ?? [];
+      if (volumes.length < rule.period + 1) return null;
+      const average = calculateSMA(volumes.slice(0, -1), rule.period);
+      if (!average) return null;
+      return volumes[volumes.length - 1] >= rule.multiple * average;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Whether a condition holds on the latest day; rules that cannot be
+ * evaluated count as not met
+ */
+export function evaluateCondition(condition: AlertCondition, history: MarketHistory): boolean {
+  if (condition.rules.length === 0) return false;
+  const results = condition.rules.map((rule) => evaluateRule(rule, history) === true);
+  return condition.operator === 'and' ? results.every(Boolean) : results.some(Boolean);
+}
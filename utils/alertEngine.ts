@@ -0,0 +1,283 @@
+/**
+ * Alert Engine
+ *
+ * Checks active price alerts on the device against each realtime price
+ * while the app is open, alongside the server's own checks. An alert fires
+ * when its condition goes from not met to met between two prices seen on
+ * the device; the first price only records where the condition stands.
+ * Every notification, local or pushed, is noted in a ledger so the same
+ * firing is not shown twice.
+ *
+ * Prices arrive through a PriceStream, so the engine can be driven by the
+ * realtime channel in the app and by a fake stream in tests. Portfolio
+ * alerts are checked the same way whenever a portfolio is revalued.
+ */
+
+import type { NotificationData, NotificationType } from '../services/notifications';
+import type { AlertCondition, PortfolioAlertRule, PriceAlert } from '../services/offlineStorage';
+import {
+  describeCondition,
+  evaluateCondition,
+  getAlertCondition,
+  type MarketHistory,
+} from './alertConditions';
+import { canTrigger, getTriggerUpdates, type AlertStateUpdates } from './alertHistory';
+import { matchesPriceUpdate } from './watchlists';
+import {
+  describePortfolioRule,
+  evaluatePortfolioRule,
+  getPortfolioNotificationType,
+  isPortfolioAlertType,
+  measurePortfolioRule,
+  type PortfolioAlertState,
+} from './portfolioAlerts';
+
+/** How long a notification for an alert stands in for any other of the same alert */
+export const ALERT_DEDUPE_WINDOW_MS = 10 * 60 * 1000;
+
+/** A price for a held asset or a symbol, as broadcast on the realtime channel */
+export interface PriceTick {
+  asset_id?: string;
+  symbol?: string;
+  exchange?: string;
+  price: number;
+  timestamp?: string;
+}
+
+export type PriceListener = (tick: PriceTick) => void;
+
+export interface PriceStream {
+  /** Returns a function that stops the listener */
+  subscribe(listener: PriceListener): () => void;
+}
+
+/**
+ * A stream whose prices are pushed in by hand, e.g. from a realtime hook
+ */
+export function createPriceStream(): PriceStream & { emit: (tick: PriceTick) => void } {
+  const listeners = new Set<PriceListener>();
+  return {
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    emit(tick) {
+      listeners.forEach((listener) => listener(tick));
+    },
+  };
+}
+
+/** Notification types alerts are delivered as, by the device or the server */
+export const ALERT_NOTIFICATION_TYPES: NotificationType[] = ['price_alert', 'portfolio_alert', 'allocation_alert'];
+
+/** When each alert was last notified as each type, from the device or the server */
+export interface NotificationLedger {
+  record(alertId: string, type: NotificationType, at: number): void;
+  isRecent(alertId: string, type: NotificationType, at: number): boolean;
+}
+
+export function createNotificationLedger(windowMs: number = ALERT_DEDUPE_WINDOW_MS): NotificationLedger {
+  const notifiedAt = new Map<string, number>();
+  return {
+    record(alertId, type, at) {
+      notifiedAt.set(`${type}|${alertId}`, at);
+    },
+    isRecent(alertId, type, at) {
+      const last = notifiedAt.get(`${type}|${alertId}`);
+      return last !== undefined && at - last < windowMs;
+    },
+  };
+}
+
+export interface AlertEngineOptions {
+  alerts?: PriceAlert[];
+  /** Daily closes before today keyed by asset id, oldest first */
+  history?: Record<string, MarketHistory>;
+  /** Shows the notification for a firing, e.g. as a local notification */
+  notify: (data: NotificationData) => unknown;
+  /** Called with the alert state to save once an alert fires */
+  onTrigger?: (alert: PriceAlert, updates: AlertStateUpdates, price: number) => unknown;
+  /** Name of what an alert watches, for the notification title */
+  getSubject?: (alert: PriceAlert) => string;
+  ledger?: NotificationLedger;
+  now?: () => Date;
+}
+
+export interface AlertEngine {
+  setAlerts(alerts: PriceAlert[]): void;
+  setHistory(history: Record<string, MarketHistory>): void;
+  /** Checks the alerts on the tick's asset or symbol and returns those that fired */
+  handleTick(tick: PriceTick): PriceAlert[];
+  /** Checks every price of a stream until the returned function is called */
+  connect(stream: PriceStream): () => void;
+  /** Checks the alerts on a portfolio against its holdings now and returns those that fired */
+  checkPortfolio(portfolioId: string, state: PortfolioAlertState): PriceAlert[];
+}
+
+function formatPrice(price: number): string {
+  return price.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function matchesTick(alert: PriceAlert, tick: PriceTick): boolean {
+  if (alert.asset_id) return alert.asset_id === tick.asset_id;
+  if (!alert.symbol || !tick.symbol) return false;
+  return matchesPriceUpdate(
+    { symbol: alert.symbol, exchange: alert.exchange ?? undefined },
+    { symbol: tick.symbol, exchange: tick.exchange }
+  );
+}
+
+export function createAlertEngine(options: AlertEngineOptions): AlertEngine {
+  const {
+    notify,
+    onTrigger,
+    getSubject = (alert) => alert.symbol || 'Price alert',
+    ledger = createNotificationLedger(),
+    now = () => new Date(),
+  } = options;
+
+  let alerts = options.alerts ?? [];
+  let history = options.history ?? {};
+  // Last price and whether the condition was met, per alert
+  const lastPrices = new Map<string, number>();
+  const lastResults = new Map<string, boolean>();
+
+  const fire = (alert: PriceAlert, condition: AlertCondition, price: number, at: Date): PriceAlert => {
+    const updates = getTriggerUpdates(alert, at.toISOString());
+    ledger.record(alert.id, 'price_alert', at.getTime());
+
+    const body = `${describeCondition(condition)} · now ${formatPrice(price)}`;
+    const title = `${getSubject(alert)} alert`;
+    notify({
+      type: 'price_alert',
+      title,
+      body,
+      alertId: alert.id,
+      ...(alert.asset_id && { assetId: alert.asset_id }),
+      source: 'device',
+    });
+    onTrigger?.(alert, updates, price);
+    return { ...alert, ...updates };
+  };
+
+  const firePortfolio = (
+    alert: PriceAlert,
+    rule: PortfolioAlertRule,
+    type: NotificationType,
+    level: number,
+    at: Date
+  ): PriceAlert => {
+    const updates = getTriggerUpdates(alert, at.toISOString());
+    ledger.record(alert.id, type, at.getTime());
+
+    const now = rule.kind === 'portfolio_value' ? formatPrice(level) : `${level.toFixed(1)}%`;
+    notify({
+      type,
+      title: `${getSubject(alert)} alert`,
+      body: `${describePortfolioRule(rule, formatPrice)} · now ${now}`,
+      alertId: alert.id,
+      ...(alert.portfolio_id && { portfolioId: alert.portfolio_id }),
+      source: 'device',
+    });
+    onTrigger?.(alert, updates, level);
+    return { ...alert, ...updates };
+  };
+
+  const handleTick = (tick: PriceTick): PriceAlert[] => {
+    if (!Number.isFinite(tick.price) || tick.price <= 0) return [];
+    const at = now();
+    const fired: PriceAlert[] = [];
+
+    alerts = alerts.map((alert) => {
+      if (!matchesTick(alert, tick)) return alert;
+
+      const previous = lastPrices.get(alert.id);
+      lastPrices.set(alert.id, tick.price);
+      const base = alert.asset_id ? history[alert.asset_id] : undefined;
+      const condition = getAlertCondition(alert, base?.closes[base.closes.length - 1] ?? previous);
+      if (!condition) return alert;
+
+      // Daily closes when known, else the last price seen on the device
+      const closes = base
+        ? [...base.closes, tick.price]
+        : previous !== undefined
+        ? [previous, tick.price]
+        : [tick.price];
+      const met = evaluateCondition(condition, { closes, volumes: base?.volumes });
+      const wasMet = lastResults.get(alert.id);
+      lastResults.set(alert.id, met);
+
+      if (!met || wasMet !== false) return alert;
+      if (!canTrigger(alert, at.toISOString()) || ledger.isRecent(alert.id, 'price_alert', at.getTime())) return alert;
+
+      const updated = fire(alert, condition, tick.price, at);
+      fired.push(updated);
+      return updated;
+    });
+
+    return fired;
+  };
+
+  return {
+    setAlerts(next) {
+      alerts = next;
+    },
+    setHistory(next) {
+      history = next;
+    },
+    handleTick,
+    connect(stream) {
+      return stream.subscribe((tick) => {
+        handleTick(tick);
+      });
+    },
+    checkPortfolio(portfolioId, state) {
+      const at = now();
+      const fired: PriceAlert[] = [];
+
+      alerts = alerts.map((alert) => {
+        const rule = alert.portfolio_rule;
+        if (!rule || alert.portfolio_id !== portfolioId) return alert;
+
+        // Like prices, the first check only records where the rule stands
+        const met = evaluatePortfolioRule(rule, state);
+        const level = measurePortfolioRule(rule, state);
+        if (met === null || level === null) return alert;
+        const wasMet = lastResults.get(alert.id);
+        lastResults.set(alert.id, met);
+
+        if (!met || wasMet !== false) return alert;
+        const type = isPortfolioAlertType(alert.alert_type)
+          ? getPortfolioNotificationType(alert.alert_type)
+          : 'portfolio_alert';
+        if (!canTrigger(alert, at.toISOString()) || ledger.isRecent(alert.id, type, at.getTime())) return alert;
+
+        const updated = firePortfolio(alert, rule, type, level, at);
+        fired.push(updated);
+        return updated;
+      });
+
+      return fired;
+    },
+  };
+}
+
+/**
+ * Daily closes before a day from timestamped prices, oldest first: the
+ * last price of each day
+ */
+export function toDailyCloses(
+  prices: { price: number; timestamp: string }[],
+  before: string = new Date().toISOString().slice(0, 10)
+): number[] {
+  const closes = new Map<string, number>();
+  [...prices]
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+    .forEach((row) => {
+      const day = row.timestamp.slice(0, 10);
+      if (day < before) closes.set(day, row.price);
+    });
+  return Array.from(closes.values());
+}
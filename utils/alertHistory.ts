@@ -0,0 +1,113 @@
+/**
+ * Alert History Utilities
+ *
+ * What happens to a price alert once it fires: one-shot alerts switch off
+ * until re-armed, recurring alerts stay on, and any alert can be snoozed
+ * for a while. Also summarizes the trigger log kept per alert, including
+ * whether each push notification reached the device.
+ */
+
+import type {
+  AlertDeliveryStatus,
+  AlertFrequency,
+  AlertTrigger,
+  PriceAlert,
+} from '../services/offlineStorage';
+
+export const ALERT_FREQUENCIES: AlertFrequency[] = ['once', 'recurring'];
+
+export const ALERT_FREQUENCY_LABELS: Record<AlertFrequency, string> = {
+  once: 'Once',
+  recurring: 'Every time',
+};
+
+export const DELIVERY_STATUS_LABELS: Record<AlertDeliveryStatus, string> = {
+  pending: 'Sending',
+  sent: 'Sent',
+  delivered: 'Delivered',
+  failed: 'Not delivered',
+  opened: 'Opened',
+};
+
+export const SNOOZE_OPTIONS: { label: string; hours: number }[] = [
+  { label: '1 hour', hours: 1 },
+  { label: '1 day', hours: 24 },
+  { label: '1 week', hours: 24 * 7 },
+];
+
+/**
+ * - active: will fire when its condition is met
+ * - snoozed: on, but held back until snoozed_until
+ * - fired: a one-shot alert that fired and waits to be re-armed
+ * - paused: switched off by the user
+ */
+export type AlertStatus = 'active' | 'snoozed' | 'fired' | 'paused';
+
+type AlertState = Pick<PriceAlert, 'is_active' | 'frequency' | 'snoozed_until' | 'triggered_at'>;
+
+/** Alert fields changed by firing, snoozing or re-arming */
+export type AlertStateUpdates = Partial<Pick<PriceAlert, 'is_active' | 'snoozed_until' | 'triggered_at'>>;
+
+export function getAlertFrequency(alert: Pick<PriceAlert, 'frequency'>): AlertFrequency {
+  return alert.frequency === 'recurring' ? 'recurring' : 'once';
+}
+
+export function getAlertStatus(alert: AlertState, now: string = new Date().toISOString()): AlertStatus {
+  if (!alert.is_active) {
+    return alert.triggered_at && getAlertFrequency(alert) === 'once' ? 'fired' : 'paused';
+  }
+  return alert.snoozed_until && alert.snoozed_until > now ? 'snoozed' : 'active';
+}
+
+/**
+ * Whether the alert may fire now
+ */
+export function canTrigger(alert: AlertState, now: string = new Date().toISOString()): boolean {
+  return getAlertStatus(alert, now) === 'active';
+}
+
+/**
+ * Updates to save when an alert fires; one-shot alerts switch off
+ */
+export function getTriggerUpdates(alert: Pick<PriceAlert, 'frequency'>, triggeredAt: string): AlertStateUpdates {
+  return getAlertFrequency(alert) === 'once'
+    ? { is_active: false, triggered_at: triggeredAt }
+    : { triggered_at: triggeredAt };
+}
+
+/**
+ * Updates that hold an alert back for a number of hours
+ */
+export function getSnoozeUpdates(hours: number, now: Date = new Date()): AlertStateUpdates {
+  return { snoozed_until: new Date(now.getTime() + hours * 60 * 60 * 1000).toISOString() };
+}
+
+/**
+ * Updates that switch an alert back on so it can fire again
+ */
+export function getRearmUpdates(): AlertStateUpdates {
+  return { is_active: true, triggered_at: null, snoozed_until: null };
+}
+
+export function sortTriggers(triggers: AlertTrigger[]): AlertTrigger[] {
+  return [...triggers].sort((a, b) => b.triggered_at.localeCompare(a.triggered_at));
+}
+
+export interface TriggerSummary {
+  count: number;
+  lastTriggeredAt: string | null;
+  /** Share of finished deliveries that reached the device, in percent */
+  deliveryRate: number | null;
+}
+
+export function summarizeTriggers(triggers: AlertTrigger[]): TriggerSummary {
+  const sorted = sortTriggers(triggers);
+  const finished = triggers.filter((t) => t.delivery_status !== 'pending' && t.delivery_status !== 'sent');
+  const reached = finished.filter((t) => t.delivery_status === 'delivered' || t.delivery_status === 'opened');
+
+  return {
+    count: triggers.length,
+    lastTriggeredAt: sorted[0]?.triggered_at ?? null,
+    deliveryRate: finished.length > 0 ? (reached.length / finished.length) * 100 : null,
+  };
+}
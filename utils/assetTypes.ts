@@ -0,0 +1,447 @@
+/**
+ * Asset Type Utilities
+ *
+ * Describes every supported asset type in one place: how it is labelled and
+ * coloured, whether it is found through ticker search or entered by hand,
+ * its risk weight, and the metadata fields collected when adding it (e.g.
+ * strike, expiry and underlying for options).
+ */
+
+import type { Ionicons } from '@expo/vector-icons';
+import type { AssetType } from '../services/offlineStorage';
+import { DAY_COUNTS, DAY_COUNT_LABELS, DEFAULT_DAY_COUNT } from './fixedIncome';
+import { PAYMENT_FREQUENCIES, PAYMENT_FREQUENCY_LABELS } from './income';
+
+/**
+ * How an asset is added:
+ * - 'search': picked from the symbol directory, priced per unit
+ * - 'units': entered by hand as a quantity at a price per unit
+ * - 'value': entered by hand as a single current value
+ */
+export type AssetEntryMode = 'search' | 'units' | 'value';
+
+export type MetadataFieldKind = 'text' | 'number' | 'date' | 'choice';
+
+/** A metadata field collected for an asset type */
+export interface MetadataField {
+  key: string;
+  label: string;
+  kind: MetadataFieldKind;
+  required?: boolean;
+  placeholder?: string;
+  hint?: string;
+  /** Shown after number inputs, e.g. '%' */
+  unit?: string;
+  /** Choices for 'choice' fields */
+  options?: { value: string; label: string }[];
+  defaultValue?: string;
+  /** Inclusive bounds for 'number' fields */
+  min?: number;
+  max?: number;
+  /** Require a number above zero */
+  positive?: boolean;
+  /** Require a date after the purchase date */
+  afterPurchase?: boolean;
+  /** Store text upper-cased, e.g. tickers and currency codes */
+  uppercase?: boolean;
+  /** Format 'text' fields must match, with the message shown otherwise */
+  pattern?: RegExp;
+  patternMessage?: string;
+  multiline?: boolean;
+}
+
+export interface AssetTypeInfo {
+  /** Singular label, e.g. 'Mutual Fund' */
+  label: string;
+  /** Label for a group of holdings, e.g. 'Mutual Funds' */
+  groupLabel: string;
+  description: string;
+  icon: keyof typeof Ionicons.glyphMap;
+  color: string;
+  entry: AssetEntryMode;
+  /** Risk from 0 (safest) to 10 (riskiest), used by the dashboard risk score */
+  riskWeight: number;
+  /** Example ticker for search placeholders */
+  symbolExample?: string;
+  /** Example name for hand-entered assets */
+  nameExample?: string;
+  /** Form labels for 'units' entry, e.g. contracts at a premium */
+  quantityLabel?: string;
+  priceLabel?: string;
+  metadataFields: MetadataField[];
+}
+
+/** Display order of asset types */
+export const ASSET_TYPES: AssetType[] = [
+  'stock',
+  'etf',
+  'mutual_fund',
+  'crypto',
+  'commodity',
+  'forex',
+  'option',
+  'bond',
+  'fixed_income',
+  'real_estate',
+  'other',
+];
+
+const PAYMENT_FREQUENCY_OPTIONS = PAYMENT_FREQUENCIES.map((frequency) => ({
+  value: frequency,
+  label: PAYMENT_FREQUENCY_LABELS[frequency],
+}));
+
+const DAY_COUNT_OPTIONS = DAY_COUNTS.map((dayCount) => ({
+  value: dayCount,
+  label: DAY_COUNT_LABELS[dayCount],
+}));
+
+const EXPENSE_RATIO_FIELD: MetadataField = {
+  key: 'expense_ratio',
+  label: 'Expense Ratio',
+  kind: 'number',
+  unit: '%',
+  placeholder: '0.00',
+  min: 0,
+  max: 100,
+};
+
+/** Coupon-paying fields shared by bonds and other fixed income */
+const COUPON_FIELDS: MetadataField[] = [
+  {
+    key: 'maturity_date',
+    label: 'Maturity Date',
+    kind: 'date',
+    placeholder: 'YYYY-MM-DD',
+    hint: 'A reminder will be created 30 days before maturity',
+    afterPurchase: true,
+  },
+  {
+    key: 'interest_rate',
+    label: 'Interest Rate',
+    kind: 'number',
+    unit: '%',
+    placeholder: '0.00',
+    min: 0,
+    max: 100,
+  },
+  {
+    key: 'payment_frequency',
+    label: 'Payment Frequency',
+    kind: 'choice',
+    options: PAYMENT_FREQUENCY_OPTIONS,
+    defaultValue: 'semiannual',
+    hint: 'Used to project coupon payments in your income calendar',
+  },
+  {
+    key: 'day_count',
+    label: 'Day Count',
+    kind: 'choice',
+    options: DAY_COUNT_OPTIONS,
+    defaultValue: DEFAULT_DAY_COUNT,
+    hint: 'How interest accrues between coupon dates',
+  },
+];
+
+const CURRENCY_CODE_FIELD: Omit<MetadataField, 'key' | 'label'> = {
+  kind: 'text',
+  required: true,
+  placeholder: 'e.g., USD',
+  uppercase: true,
+  pattern: /^[A-Za-z]{3}$/,
+  patternMessage: 'Use a 3-letter currency code',
+};
+
+export const ASSET_TYPE_INFO: Record<AssetType, AssetTypeInfo> = {
+  stock: {
+    label: 'Stock',
+    groupLabel: 'Stocks',
+    description: 'Public company shares',
+    icon: 'trending-up',
+    color: '#4CAF50',
+    entry: 'search',
+    riskWeight: 6,
+    symbolExample: 'AAPL',
+    metadataFields: [],
+  },
+  etf: {
+    label: 'ETF',
+    groupLabel: 'ETFs',
+    description: 'Exchange-traded funds',
+    icon: 'layers',
+    color: '#009688',
+    entry: 'search',
+    riskWeight: 5,
+    symbolExample: 'SPY',
+    metadataFields: [
+      EXPENSE_RATIO_FIELD,
+      { key: 'underlying_index', label: 'Tracked Index', kind: 'text', placeholder: 'e.g., S&P 500' },
+    ],
+  },
+  mutual_fund: {
+    label: 'Mutual Fund',
+    groupLabel: 'Mutual Funds',
+    description: 'Managed funds priced once a day',
+    icon: 'pie-chart',
+    color: '#3F51B5',
+    entry: 'search',
+    riskWeight: 5,
+    symbolExample: 'VFIAX',
+    metadataFields: [
+      EXPENSE_RATIO_FIELD,
+      { key: 'fund_family', label: 'Fund Family', kind: 'text', placeholder: 'e.g., Vanguard' },
+      { key: 'share_class', label: 'Share Class', kind: 'text', placeholder: 'e.g., Admiral' },
+    ],
+  },
+  crypto: {
+    label: 'Cryptocurrency',
+    groupLabel: 'Crypto',
+    description: 'Bitcoin, Ethereum, etc.',
+    icon: 'logo-bitcoin',
+    color: '#FF9800',
+    entry: 'search',
+    riskWeight: 9,
+    symbolExample: 'BTC',
+    metadataFields: [],
+  },
+  commodity: {
+    label: 'Commodity',
+    groupLabel: 'Commodities',
+    description: 'Gold, Silver, Oil, etc.',
+    icon: 'diamond',
+    color: '#9C27B0',
+    entry: 'search',
+    riskWeight: 5,
+    symbolExample: 'XAU',
+    metadataFields: [],
+  },
+  forex: {
+    label: 'Forex',
+    groupLabel: 'Forex',
+    description: 'Currency pairs',
+    icon: 'swap-horizontal',
+    color: '#00BCD4',
+    entry: 'search',
+    riskWeight: 7,
+    symbolExample: 'EURUSD',
+    metadataFields: [
+      { ...CURRENCY_CODE_FIELD, key: 'base_currency', label: 'Base Currency', placeholder: 'e.g., EUR' },
+      { ...CURRENCY_CODE_FIELD, key: 'quote_currency', label: 'Quote Currency' },
+    ],
+  },
+  option: {
+    label: 'Option',
+    groupLabel: 'Options',
+    description: 'Calls and puts on a listed security',
+    icon: 'git-branch',
+    color: '#E91E63',
+    entry: 'units',
+    riskWeight: 10,
+    nameExample: 'e.g., AAPL Jan 2026 200 Call',
+    quantityLabel: 'Contracts',
+    priceLabel: 'Premium per Contract',
+    metadataFields: [
+      { key: 'underlying_symbol', label: 'Underlying', kind: 'text', required: true, placeholder: 'e.g., AAPL', uppercase: true },
+      {
+        key: 'option_type',
+        label: 'Option Type',
+        kind: 'choice',
+        required: true,
+        options: [
+          { value: 'call', label: 'Call' },
+          { value: 'put', label: 'Put' },
+        ],
+        defaultValue: 'call',
+      },
+      { key: 'strike_price', label: 'Strike Price', kind: 'number', required: true, placeholder: '0.00', positive: true },
+      { key: 'expiration_date', label: 'Expiration Date', kind: 'date', required: true, placeholder: 'YYYY-MM-DD', afterPurchase: true },
+      {
+        key: 'contract_size',
+        label: 'Contract Size',
+        kind: 'number',
+        placeholder: '100',
+        defaultValue: '100',
+        positive: true,
+        hint: 'Shares of the underlying per contract',
+      },
+    ],
+  },
+  bond: {
+    label: 'Bond',
+    groupLabel: 'Bonds',
+    description: 'Government and corporate bonds',
+    icon: 'document-text',
+    color: '#607D8B',
+    entry: 'value',
+    riskWeight: 2,
+    nameExample: 'e.g., Treasury Bond 2030',
+    metadataFields: [
+      { key: 'issuer', label: 'Issuer', kind: 'text', placeholder: 'e.g., US Treasury' },
+      { key: 'cusip', label: 'CUSIP / ISIN', kind: 'text', placeholder: 'e.g., 912828XG0', uppercase: true },
+      { key: 'face_value', label: 'Face Value', kind: 'number', placeholder: '1000.00', positive: true },
+      ...COUPON_FIELDS,
+    ],
+  },
+  fixed_income: {
+    label: 'Fixed Income',
+    groupLabel: 'Fixed Income',
+    description: 'CDs, notes, etc.',
+    icon: 'cash',
+    color: '#78909C',
+    entry: 'value',
+    riskWeight: 2,
+    nameExample: 'e.g., 12-Month CD',
+    metadataFields: COUPON_FIELDS,
+  },
+  real_estate: {
+    label: 'Real Estate',
+    groupLabel: 'Real Estate',
+    description: 'Property investments',
+    icon: 'home',
+    color: '#2196F3',
+    entry: 'value',
+    riskWeight: 4,
+    nameExample: 'e.g., Downtown Apartment',
+    metadataFields: [
+      { key: 'property_address', label: 'Property Address', kind: 'text', placeholder: 'Enter property address', multiline: true },
+      { key: 'property_type', label: 'Property Type', kind: 'text', placeholder: 'e.g., Residential, Commercial, Land' },
+      {
+        key: 'mortgage_balance',
+        label: 'Mortgage Balance',
+        kind: 'number',
+        placeholder: '0.00',
+        hint: 'Leave empty if the property is owned outright',
+        positive: true,
+      },
+      {
+        key: 'mortgage_balance_date',
+        label: 'Balance As Of',
+        kind: 'date',
+        placeholder: 'YYYY-MM-DD',
+        hint: 'Defaults to the purchase date',
+      },
+      { key: 'mortgage_rate', label: 'Mortgage Rate', kind: 'number', unit: '%', placeholder: '0.00', min: 0, max: 100 },
+      {
+        key: 'mortgage_term_years',
+        label: 'Remaining Term',
+        kind: 'number',
+        unit: 'years',
+        placeholder: '25',
+        hint: 'Leave empty for an interest-only loan',
+        min: 0,
+        max: 50,
+      },
+      { key: 'monthly_rent', label: 'Monthly Rent', kind: 'number', placeholder: '0.00', positive: true },
+      {
+        key: 'monthly_expenses',
+        label: 'Monthly Expenses',
+        kind: 'number',
+        placeholder: '0.00',
+        hint: 'Taxes, insurance, maintenance and management, excluding the mortgage',
+        positive: true,
+      },
+    ],
+  },
+  other: {
+    label: 'Other Asset',
+    groupLabel: 'Other',
+    description: 'Custom assets',
+    icon: 'ellipsis-horizontal',
+    color: '#795548',
+    entry: 'value',
+    riskWeight: 5,
+    metadataFields: [],
+  },
+};
+
+/**
+ * Looks up an asset type, treating unknown types as 'other'
+ */
+export function getAssetTypeInfo(type: string | undefined): AssetTypeInfo {
+  return ASSET_TYPE_INFO[(type || '').toLowerCase() as AssetType] ?? ASSET_TYPE_INFO.other;
+}
+
+export function isAssetType(type: string): type is AssetType {
+  return type in ASSET_TYPE_INFO;
+}
+
+/**
+ * Initial form values for an asset type's metadata fields
+ * Forex pairs such as EURUSD or EUR/USD prefill their two currencies.
+ */
+export function getDefaultMetadataValues(type: string, symbol?: string): Record<string, string> {
+  const values: Record<string, string> = {};
+  getAssetTypeInfo(type).metadataFields.forEach((field) => {
+    values[field.key] = field.defaultValue ?? '';
+  });
+
+  const pair = type === 'forex' && symbol ? symbol.toUpperCase().match(/^([A-Z]{3})\/?([A-Z]{3})$/) : null;
+  if (pair) {
+    values.base_currency = pair[1];
+    values.quote_currency = pair[2];
+  }
+  return values;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Validates metadata form values and converts them to stored metadata
+ * Empty optional fields are left out. Returns errors keyed by field.
+ */
+export function parseAssetMetadata(
+  type: string,
+  values: Record<string, string>,
+  purchaseDate: string
+): { metadata: Record<string, string | number>; errors: Record<string, string> } {
+  const metadata: Record<string, string | number> = {};
+  const errors: Record<string, string> = {};
+
+  getAssetTypeInfo(type).metadataFields.forEach((field) => {
+    const raw = (values[field.key] ?? '').trim();
+    if (!raw) {
+      if (field.required) errors[field.key] = `${field.label} is required`;
+      return;
+    }
+
+    switch (field.kind) {
+      case 'number': {
+        const value = Number(raw);
+        if (isNaN(value)) {
+          errors[field.key] = `${field.label} must be a number`;
+        } else if (field.positive && value <= 0) {
+          errors[field.key] = `${field.label} must be a positive number`;
+        } else if ((field.min !== undefined && value < field.min) || (field.max !== undefined && value > field.max)) {
+          errors[field.key] = `${field.label} must be between ${field.min ?? 0} and ${field.max}`;
+        } else {
+          metadata[field.key] = value;
+        }
+        break;
+      }
+      case 'date':
+        if (!DATE_PATTERN.test(raw) || isNaN(Date.parse(raw))) {
+          errors[field.key] = 'Invalid date format (use YYYY-MM-DD)';
+        } else if (field.afterPurchase && DATE_PATTERN.test(purchaseDate) && raw <= purchaseDate) {
+          errors[field.key] = `${field.label} must be after purchase date`;
+        } else {
+          metadata[field.key] = raw;
+        }
+        break;
+      case 'choice':
+        if (!field.options?.some((option) => option.value === raw)) {
+          errors[field.key] = `${field.label} must be one of: ${field.options?.map((option) => option.label).join(', ')}`;
+        } else {
+          metadata[field.key] = raw;
+        }
+        break;
+      default:
+        if (field.pattern && !field.pattern.test(raw)) {
+          errors[field.key] = field.patternMessage ?? `${field.label} is invalid`;
+        } else {
+          metadata[field.key] = field.uppercase ? raw.toUpperCase() : raw;
+        }
+    }
+  });
+
+  return { metadata, errors };
+}
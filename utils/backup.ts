@@ -0,0 +1,749 @@
+/**
+ * Account Backup Utilities
+ *
+ * Defines the versioned JSON backup file and plans how to restore it into an
+ * account.
+ *
+ * Schema versions:
+ * - 1: the JSON export from Export Data (holdings, transactions and alerts
+ *   keyed by portfolio name and symbol, without ids or settings)
+ * - 2: portfolios, assets and alerts with their ids and links, profile
+ *   preferences and local app settings
+ * - 3: adds transaction ledgers, cash flows, income, value snapshots, manual
+ *   valuations, watchlists, liabilities, and alerts on watched symbols and
+ *   portfolios
+ *
+ * Older files are migrated step by step to the current version before they
+ * are validated. Ids in a backup only link its own records together; every
+ * record is created afresh on restore, so a backup can move between accounts.
+ */
+
+import type {
+  AlertCondition,
+  AlertFrequency,
+  AllocationTargets,
+  AssetType,
+  CashFlowType,
+  CostBasisMethod,
+  IncomeType,
+  PortfolioAlertRule,
+  PriceAlert,
+  SymbolListing,
+  TransactionType,
+  Watchlist,
+} from '../services/offlineStorage';
+import { DEFAULT_CURRENCY } from './currency';
+import { TRANSACTION_TYPE_LABELS } from './ledger';
+import { LIABILITY_TYPES, type LiabilityInput } from './liabilities';
+
+export const BACKUP_VERSION = 3;
+
+/** Replace deletes the account's records once the backup is restored; merge keeps them */
+export type RestoreMode = 'merge' | 'replace';
+
+export interface BackupPortfolio {
+  id: string;
+  name: string;
+  benchmark_symbols?: string[];
+  allocation_targets?: AllocationTargets;
+}
+
+export interface BackupAsset {
+  id: string;
+  portfolio_id: string;
+  asset_type: string;
+  symbol?: string;
+  name: string;
+  quantity: number;
+  purchase_price: number;
+  purchase_date: string;
+  current_price?: number;
+  currency?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface BackupTransaction {
+  id: string;
+  asset_id: string;
+  transaction_type: TransactionType;
+  quantity: number;
+  price: number;
+  fees?: number;
+  transaction_date: string;
+  notes?: string;
+  /** Backup id of the transaction that opened the lot sold from */
+  lot_id?: string;
+}
+
+export interface BackupCashFlow {
+  portfolio_id: string;
+  flow_type: CashFlowType;
+  amount: number;
+  flow_date: string;
+  notes?: string;
+}
+
+export interface BackupIncomeEvent {
+  asset_id: string;
+  income_type: IncomeType;
+  amount: number;
+  currency: string;
+  payment_date: string;
+  notes?: string;
+}
+
+export interface BackupSnapshot {
+  portfolio_id: string;
+  snapshot_date: string;
+  total_value: number;
+  currency: string;
+}
+
+/** Price recorded by hand for an asset without a market symbol */
+export interface BackupValuation {
+  asset_id: string;
+  price: number;
+  timestamp: string;
+}
+
+export interface BackupWatchlist {
+  id: string;
+  name: string;
+  items: SymbolListing[];
+}
+
+export type BackupLiability = LiabilityInput & { id: string };
+
+export interface BackupAlert {
+  id: string;
+  /** Set on alerts on a holding */
+  asset_id?: string;
+  /** Set on portfolio-level alerts */
+  portfolio_id?: string;
+  /** Set on alerts on a watched symbol */
+  symbol?: string;
+  exchange?: string;
+  asset_type?: AssetType;
+  alert_type: string;
+  condition_value: number;
+  /** Rules of alerts set with a condition */
+  condition?: AlertCondition;
+  portfolio_rule?: PortfolioAlertRule;
+  is_active: boolean;
+  frequency?: AlertFrequency;
+}
+
+export interface BackupPreferences {
+  currency_preference?: string;
+  language_preference?: string;
+  cost_basis_method?: CostBasisMethod;
+}
+
+/** App settings kept on the device rather than in the profile */
+export interface BackupSettings {
+  notifications_enabled?: boolean;
+  dark_mode_enabled?: boolean;
+  chart_view?: string;
+}
+
+export interface AccountBackup {
+  version: number;
+  created_at: string;
+  /**
+   * Set on backups migrated from before version 3, which lack ledgers and
+   * the other account history; they can only be merged
+   */
+  incomplete?: boolean;
+  portfolios: BackupPortfolio[];
+  assets: BackupAsset[];
+  /** In ledger order */
+  transactions: BackupTransaction[];
+  cash_flows: BackupCashFlow[];
+  income_events: BackupIncomeEvent[];
+  snapshots: BackupSnapshot[];
+  valuations: BackupValuation[];
+  watchlists: BackupWatchlist[];
+  liabilities: BackupLiability[];
+  alerts: BackupAlert[];
+  preferences: BackupPreferences;
+  settings: BackupSettings;
+}
+
+export interface ParsedBackup {
+  backup: AccountBackup | null;
+  errors: string[];
+  /** Schema version of the file when it had to be migrated */
+  migratedFrom?: number;
+}
+
+/** Account data a backup is made from */
+export interface BackupSource {
+  portfolios: BackupPortfolio[];
+  assets: BackupAsset[];
+  /** In ledger order */
+  transactions: BackupTransaction[];
+  cash_flows: BackupCashFlow[];
+  income_events: BackupIncomeEvent[];
+  snapshots: BackupSnapshot[];
+  valuations: BackupValuation[];
+  watchlists: Pick<Watchlist, 'id' | 'name' | 'items'>[];
+  liabilities: BackupLiability[];
+  alerts: Pick<
+    PriceAlert,
+    | 'id'
+    | 'asset_id'
+    | 'portfolio_id'
+    | 'symbol'
+    | 'exchange'
+    | 'asset_type'
+    | 'alert_type'
+    | 'condition_value'
+    | 'condition'
+    | 'portfolio_rule'
+    | 'is_active'
+    | 'frequency'
+  >[];
+  preferences: BackupPreferences;
+  settings: BackupSettings;
+}
+
+/** Records already in the account, used to skip duplicates when merging */
+export interface RestoreTarget {
+  portfolios: { id: string; name: string }[];
+  assets: { id: string; portfolio_id: string; asset_type: string; symbol?: string; name: string }[];
+  watchlists: { id: string; name: string }[];
+  liabilities: { id: string; name: string; liability_type: string }[];
+  alerts: Pick<PriceAlert, 'id' | 'asset_id' | 'portfolio_id' | 'symbol' | 'exchange' | 'alert_type' | 'condition_value'>[];
+}
+
+export interface RestorePlan {
+  mode: RestoreMode;
+  /** Existing records to delete once everything in the backup is restored */
+  deletePortfolioIds: string[];
+  deleteAlertIds: string[];
+  deleteWatchlistIds: string[];
+  deleteLiabilityIds: string[];
+  /** Portfolios to restore; existingId is set when merging into one of the same name */
+  portfolios: { portfolio: BackupPortfolio; existingId?: string }[];
+  /** Assets to restore; existingId is set when the holding is already in the account */
+  assets: { asset: BackupAsset; existingId?: string }[];
+  /** Ledgers, income and valuations of the assets to create */
+  transactions: BackupTransaction[];
+  income_events: BackupIncomeEvent[];
+  valuations: BackupValuation[];
+  /** Cash flows and snapshots of the portfolios to create */
+  cash_flows: BackupCashFlow[];
+  snapshots: BackupSnapshot[];
+  watchlists: BackupWatchlist[];
+  liabilities: BackupLiability[];
+  alerts: BackupAlert[];
+  skippedAssets: number;
+  skippedAlerts: number;
+  skippedWatchlists: number;
+  skippedLiabilities: number;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const COST_BASIS_METHODS: CostBasisMethod[] = ['fifo', 'lifo', 'average', 'specific'];
+
+const TRANSACTION_TYPES = Object.keys(TRANSACTION_TYPE_LABELS);
+
+const CASH_FLOW_TYPES: CashFlowType[] = ['contribution', 'withdrawal'];
+
+const INCOME_TYPES: IncomeType[] = ['dividend', 'interest', 'coupon', 'rent', 'staking'];
+
+/** Record sections every current backup has, after its settings */
+const SECTIONS = [
+  'portfolios',
+  'assets',
+  'transactions',
+  'cash_flows',
+  'income_events',
+  'snapshots',
+  'valuations',
+  'watchlists',
+  'liabilities',
+  'alerts',
+] as const;
+
+// ============================================================================
+// Creating
+// ============================================================================
+
+/**
+ * Build a backup from account data, keeping only the fields a restore needs
+ */
+export function createBackup(source: BackupSource, createdAt: string = new Date().toISOString()): AccountBackup {
+  return {
+    version: BACKUP_VERSION,
+    created_at: createdAt,
+    portfolios: source.portfolios.map((p) => ({
+      id: p.id,
+      name: p.name,
+      ...(p.benchmark_symbols && { benchmark_symbols: p.benchmark_symbols }),
+      ...(p.allocation_targets && { allocation_targets: p.allocation_targets }),
+    })),
+    assets: source.assets.map((a) => ({
+      id: a.id,
+      portfolio_id: a.portfolio_id,
+      asset_type: a.asset_type,
+      ...(a.symbol && { symbol: a.symbol }),
+      name: a.name,
+      quantity: a.quantity,
+      purchase_price: a.purchase_price,
+      purchase_date: a.purchase_date.slice(0, 10),
+      ...(a.current_price !== undefined && a.current_price !== null && { current_price: a.current_price }),
+      currency: a.currency || DEFAULT_CURRENCY,
+      ...(a.metadata && { metadata: a.metadata }),
+    })),
+    transactions: source.transactions.map((t) => ({
+      id: t.id,
+      asset_id: t.asset_id,
+      transaction_type: t.transaction_type,
+      quantity: t.quantity,
+      price: t.price,
+      ...(t.fees && { fees: t.fees }),
+      transaction_date: t.transaction_date.slice(0, 10),
+      ...(t.notes && { notes: t.notes }),
+      ...(t.lot_id && { lot_id: t.lot_id }),
+    })),
+    cash_flows: source.cash_flows.map((f) => ({
+      portfolio_id: f.portfolio_id,
+      flow_type: f.flow_type,
+      amount: f.amount,
+      flow_date: f.flow_date.slice(0, 10),
+      ...(f.notes && { notes: f.notes }),
+    })),
+    income_events: source.income_events.map((e) => ({
+      asset_id: e.asset_id,
+      income_type: e.income_type,
+      amount: e.amount,
+      currency: e.currency,
+      payment_date: e.payment_date.slice(0, 10),
+      ...(e.notes && { notes: e.notes }),
+    })),
+    snapshots: source.snapshots.map((s) => ({
+      portfolio_id: s.portfolio_id,
+      snapshot_date: s.snapshot_date.slice(0, 10),
+      total_value: s.total_value,
+      currency: s.currency,
+    })),
+    valuations: source.valuations.map((v) => ({ asset_id: v.asset_id, price: v.price, timestamp: v.timestamp })),
+    watchlists: source.watchlists.map((w) => ({
+      id: w.id,
+      name: w.name,
+      items: w.items.map((item) => ({
+        symbol: item.symbol,
+        name: item.name,
+        asset_type: item.asset_type,
+        ...(item.exchange && { exchange: item.exchange }),
+        ...(item.currency && { currency: item.currency }),
+      })),
+    })),
+    liabilities: source.liabilities.map((l) => ({
+      id: l.id,
+      name: l.name,
+      liability_type: l.liability_type,
+      balance: l.balance,
+      balance_date: l.balance_date.slice(0, 10),
+      interest_rate: l.interest_rate,
+      term_months: l.term_months ?? null,
+      credit_limit: l.credit_limit ?? null,
+      currency: l.currency,
+      asset_id: l.asset_id ?? null,
+      ...(l.notes && { notes: l.notes }),
+    })),
+    alerts: source.alerts.map((a) => ({
+      id: a.id,
+      ...(a.asset_id && { asset_id: a.asset_id }),
+      ...(a.portfolio_id && { portfolio_id: a.portfolio_id }),
+      ...(a.symbol && { symbol: a.symbol }),
+      ...(a.exchange && { exchange: a.exchange }),
+      ...(a.asset_type && { asset_type: a.asset_type }),
+      alert_type: a.alert_type,
+      condition_value: a.condition_value,
+      ...(a.condition && { condition: a.condition }),
+      ...(a.portfolio_rule && { portfolio_rule: a.portfolio_rule }),
+      is_active: a.is_active,
+      ...(a.frequency && { frequency: a.frequency }),
+    })),
+    preferences: {
+      ...(source.preferences.currency_preference && { currency_preference: source.preferences.currency_preference }),
+      ...(source.preferences.language_preference && { language_preference: source.preferences.language_preference }),
+      ...(source.preferences.cost_basis_method && { cost_basis_method: source.preferences.cost_basis_method }),
+    },
+    settings: { ...source.settings },
+  };
+}
+
+export function getBackupFilename(createdAt: string): string {
+  return `vestpod-backup-${createdAt.slice(0, 10)}.json`;
+}
+
+// ============================================================================
+// Migrations
+// ============================================================================
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** Entries of an array read as objects; anything else reads as an empty record */
+const toRecords = (value: unknown): JsonObject[] =>
+  Array.isArray(value) ? value.map((entry) => (isObject(entry) ? entry : {})) : [];
+
+/**
+ * Version 1 (the JSON export) refers to portfolios and assets by name, so
+ * records are linked by portfolio name and symbol and given new ids
+ */
+function migrateFromExport(file: JsonObject): JsonObject {
+  const portfolios = toRecords(file.portfolios);
+  const portfolioIds = new Map(portfolios.map((p) => [p.name, p.id]));
+
+  const assetKey = (row: JsonObject) => `${row.portfolio}|${row.symbol ?? ''}|${row.name}`;
+  const assetIds = new Map<string, string>();
+  const assets = toRecords(file.holdings).map((h, index) => {
+    const id = `asset-${index + 1}`;
+    assetIds.set(assetKey(h), id);
+    return {
+      id,
+      portfolio_id: portfolioIds.get(h.portfolio),
+      asset_type: h.asset_type,
+      ...(isText(h.symbol) && { symbol: h.symbol }),
+      name: h.name,
+      quantity: h.quantity,
+      purchase_price: h.purchase_price,
+      purchase_date: h.purchase_date,
+      current_price: h.current_price,
+      currency: h.currency,
+    };
+  });
+
+  const alerts = toRecords(file.alerts).map((a, index) => ({
+    id: `alert-${index + 1}`,
+    asset_id: assetIds.get(assetKey(a)),
+    alert_type: a.alert_type,
+    condition_value: a.condition_value,
+    is_active: a.is_active,
+  }));
+
+  return {
+    version: 2,
+    created_at: file.generated_at,
+    portfolios: portfolios.map((p) => ({ id: p.id, name: p.name })),
+    assets,
+    alerts,
+    preferences: {},
+    settings: {},
+  };
+}
+
+/**
+ * Version 2 backed up holdings without their ledgers or history; each is
+ * restored as a single lot at its average cost
+ */
+function addAccountHistory(file: JsonObject): JsonObject {
+  return {
+    ...file,
+    version: 3,
+    incomplete: true,
+    transactions: [],
+    cash_flows: [],
+    income_events: [],
+    snapshots: [],
+    valuations: [],
+    watchlists: [],
+    liabilities: [],
+  };
+}
+
+/** Upgrades a file from the keyed version to the next one */
+const MIGRATIONS: Record<number, (file: JsonObject) => JsonObject> = {
+  1: migrateFromExport,
+  2: addAccountHistory,
+};
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+const isDate = (value: unknown): boolean => typeof value === 'string' && DATE_PATTERN.test(value);
+
+const isOneOf = (value: unknown, options: readonly string[]): boolean =>
+  typeof value === 'string' && options.includes(value);
+
+const linksTo = (ids: Set<string>, value: unknown): boolean => typeof value === 'string' && ids.has(value);
+
+/**
+ * Check that every record is complete and links to records in the backup
+ */
+export function validateBackup(backup: unknown): string[] {
+  if (!isObject(backup)) return ['Backup is empty'];
+  const missing = SECTIONS.filter((section) => !Array.isArray(backup[section]));
+  if (missing.length > 0) {
+    return [`Backup is missing its ${missing.map((section) => section.replace('_', ' ')).join(', ')}`];
+  }
+  const errors: string[] = [];
+
+  const portfolioIds = new Set<string>();
+  toRecords(backup.portfolios).forEach((p, i) => {
+    if (!isText(p.id) || !isText(p.name)) errors.push(`Portfolio ${i + 1} is missing an id or name`);
+    else portfolioIds.add(p.id);
+  });
+
+  const assetIds = new Set<string>();
+  toRecords(backup.assets).forEach((a, i) => {
+    const label = `Asset ${i + 1}${isText(a.name) ? ` (${a.name})` : ''}`;
+    if (!isText(a.id) || !isText(a.name) || !isText(a.asset_type)) {
+      errors.push(`${label} is missing an id, name or type`);
+      return;
+    }
+    if (!linksTo(portfolioIds, a.portfolio_id)) errors.push(`${label} belongs to an unknown portfolio`);
+    if (!isNumber(a.quantity) || a.quantity < 0) errors.push(`${label} has an invalid quantity`);
+    if (!isNumber(a.purchase_price) || a.purchase_price < 0) errors.push(`${label} has an invalid purchase price`);
+    if (!isDate(a.purchase_date)) errors.push(`${label} has an invalid purchase date`);
+    assetIds.add(a.id);
+  });
+
+  toRecords(backup.transactions).forEach((t, i) => {
+    if (!linksTo(assetIds, t.asset_id)) errors.push(`Transaction ${i + 1} refers to an unknown asset`);
+    else if (
+      !isText(t.id) ||
+      !isOneOf(t.transaction_type, TRANSACTION_TYPES) ||
+      !isNumber(t.quantity) ||
+      t.quantity <= 0 ||
+      !isNumber(t.price) ||
+      !isDate(t.transaction_date)
+    ) {
+      errors.push(`Transaction ${i + 1} has an invalid id, type, quantity, price or date`);
+    }
+  });
+
+  toRecords(backup.cash_flows).forEach((f, i) => {
+    if (!linksTo(portfolioIds, f.portfolio_id)) errors.push(`Cash flow ${i + 1} refers to an unknown portfolio`);
+    else if (!isOneOf(f.flow_type, CASH_FLOW_TYPES) || !isNumber(f.amount) || !isDate(f.flow_date)) {
+      errors.push(`Cash flow ${i + 1} has an invalid type, amount or date`);
+    }
+  });
+
+  toRecords(backup.income_events).forEach((e, i) => {
+    if (!linksTo(assetIds, e.asset_id)) errors.push(`Income ${i + 1} refers to an unknown asset`);
+    else if (!isOneOf(e.income_type, INCOME_TYPES) || !isNumber(e.amount) || !isText(e.currency) || !isDate(e.payment_date)) {
+      errors.push(`Income ${i + 1} has an invalid type, amount, currency or date`);
+    }
+  });
+
+  toRecords(backup.snapshots).forEach((s, i) => {
+    if (!linksTo(portfolioIds, s.portfolio_id)) errors.push(`Snapshot ${i + 1} refers to an unknown portfolio`);
+    else if (!isDate(s.snapshot_date) || !isNumber(s.total_value) || !isText(s.currency)) {
+      errors.push(`Snapshot ${i + 1} has an invalid date, value or currency`);
+    }
+  });
+
+  toRecords(backup.valuations).forEach((v, i) => {
+    if (!linksTo(assetIds, v.asset_id)) errors.push(`Valuation ${i + 1} refers to an unknown asset`);
+    else if (!isNumber(v.price) || typeof v.timestamp !== 'string' || Number.isNaN(Date.parse(v.timestamp))) {
+      errors.push(`Valuation ${i + 1} has an invalid price or time`);
+    }
+  });
+
+  toRecords(backup.watchlists).forEach((w, i) => {
+    if (!isText(w.id) || !isText(w.name) || !Array.isArray(w.items)) {
+      errors.push(`Watchlist ${i + 1} is missing an id, name or symbols`);
+    } else if (toRecords(w.items).some((item) => !isText(item.symbol) || !isText(item.asset_type))) {
+      errors.push(`Watchlist ${i + 1} (${w.name}) has a symbol without its type`);
+    }
+  });
+
+  toRecords(backup.liabilities).forEach((l, i) => {
+    const label = `Liability ${i + 1}${isText(l.name) ? ` (${l.name})` : ''}`;
+    if (!isText(l.id) || !isText(l.name) || !isOneOf(l.liability_type, LIABILITY_TYPES)) {
+      errors.push(`${label} is missing an id, name or type`);
+    } else if (!isNumber(l.balance) || !isDate(l.balance_date) || !isText(l.currency)) {
+      errors.push(`${label} has an invalid balance, date or currency`);
+    } else if (l.asset_id != null && !linksTo(assetIds, l.asset_id)) {
+      errors.push(`${label} is secured by an unknown asset`);
+    }
+  });
+
+  toRecords(backup.alerts).forEach((a, i) => {
+    if (!isText(a.alert_type) || !isNumber(a.condition_value)) {
+      errors.push(`Alert ${i + 1} is missing its type or value`);
+    } else if (a.asset_id != null) {
+      if (!linksTo(assetIds, a.asset_id)) errors.push(`Alert ${i + 1} refers to an unknown asset`);
+    } else if (a.portfolio_id != null) {
+      if (!linksTo(portfolioIds, a.portfolio_id)) errors.push(`Alert ${i + 1} refers to an unknown portfolio`);
+    } else if (!isText(a.symbol)) {
+      errors.push(`Alert ${i + 1} has no asset, portfolio or symbol`);
+    }
+  });
+
+  const method = isObject(backup.preferences) ? backup.preferences.cost_basis_method : undefined;
+  if (method !== undefined && !isOneOf(method, COST_BASIS_METHODS)) {
+    errors.push(`Unknown cost basis method "${method}"`);
+  }
+
+  return errors;
+}
+
+/**
+ * Read a backup file, migrating older schema versions and validating the
+ * result
+ */
+export function parseBackup(text: string): ParsedBackup {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { backup: null, errors: ['File is not valid JSON'] };
+  }
+
+  if (!isObject(parsed) || !Number.isInteger(parsed.version) || (parsed.version as number) < 1) {
+    return { backup: null, errors: ['File is not a backup: missing schema version'] };
+  }
+  const version = parsed.version as number;
+  if (version > BACKUP_VERSION) {
+    return { backup: null, errors: ['Backup was made by a newer version of the app. Update the app to restore it.'] };
+  }
+
+  let file = parsed;
+  for (let step = version; step < BACKUP_VERSION; step++) {
+    file = MIGRATIONS[step](file);
+  }
+  file = {
+    ...file,
+    preferences: isObject(file.preferences) ? file.preferences : {},
+    settings: isObject(file.settings) ? file.settings : {},
+  };
+
+  const errors = validateBackup(file);
+  const migratedFrom = version < BACKUP_VERSION ? version : undefined;
+  return {
+    // Every record was checked above, so the file has the backup's shape
+    backup: errors.length === 0 ? (file as unknown as AccountBackup) : null,
+    errors,
+    ...(migratedFrom && { migratedFrom }),
+  };
+}
+
+// ============================================================================
+// Restoring
+// ============================================================================
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+const holdingKey = (asset: { asset_type: string; symbol?: string; name: string }) =>
+  `${asset.asset_type}|${asset.symbol ? asset.symbol.trim().toUpperCase() : normalizeName(asset.name)}`;
+
+/** What an alert watches: a holding or portfolio id, or a symbol on an exchange */
+const alertSubject = (
+  alert: { asset_id?: string | null; portfolio_id?: string | null; symbol?: string | null; exchange?: string | null },
+  assetId?: string,
+  portfolioId?: string
+) => {
+  if (alert.asset_id) return assetId ? `asset|${assetId}` : undefined;
+  if (alert.portfolio_id) return portfolioId ? `portfolio|${portfolioId}` : undefined;
+  return `symbol|${(alert.symbol ?? '').trim().toUpperCase()}|${alert.exchange ?? ''}`;
+};
+
+/**
+ * Work out what to create, skip and delete to restore a backup.
+ * When merging, portfolios and watchlists are matched by name, holdings by
+ * type and symbol (or name) within a portfolio, liabilities by name and type,
+ * and alerts by what they watch, type and value; matches are kept as they
+ * are, along with their ledgers and history, instead of being created again.
+ * Backups without ledgers cannot recreate everything a replace would
+ * delete, so they can only be merged.
+ */
+export function planRestore(backup: AccountBackup, target: RestoreTarget, mode: RestoreMode): RestorePlan {
+  if (mode === 'replace' && backup.incomplete) {
+    throw new Error('This backup was made before transaction history was backed up, so it can only be merged');
+  }
+  const merging = mode === 'merge';
+
+  const existingPortfolios = new Map(target.portfolios.map((p) => [normalizeName(p.name), p.id]));
+  const portfolios = backup.portfolios.map((portfolio) => ({
+    portfolio,
+    existingId: merging ? existingPortfolios.get(normalizeName(portfolio.name)) : undefined,
+  }));
+  const portfolioMatches = new Map(portfolios.map((p) => [p.portfolio.id, p.existingId]));
+
+  const existingAssets = new Map(target.assets.map((a) => [`${a.portfolio_id}|${holdingKey(a)}`, a.id]));
+  const assets = backup.assets.map((asset) => {
+    const existingPortfolioId = portfolioMatches.get(asset.portfolio_id);
+    const existingId = existingPortfolioId
+      ? existingAssets.get(`${existingPortfolioId}|${holdingKey(asset)}`)
+      : undefined;
+    return { asset, existingId };
+  });
+  const assetMatches = new Map(assets.map((a) => [a.asset.id, a.existingId]));
+
+  const existingWatchlists = new Set(target.watchlists.map((w) => normalizeName(w.name)));
+  const watchlists = backup.watchlists.filter((w) => !merging || !existingWatchlists.has(normalizeName(w.name)));
+
+  const liabilityKey = (l: { name: string; liability_type: string }) => `${l.liability_type}|${normalizeName(l.name)}`;
+  const existingLiabilities = new Set(target.liabilities.map(liabilityKey));
+  const liabilities = backup.liabilities.filter((l) => !merging || !existingLiabilities.has(liabilityKey(l)));
+
+  const alertKey = (subject: string, alert: { alert_type: string; condition_value: number }) =>
+    `${subject}|${alert.alert_type}|${alert.condition_value}`;
+  const existingAlerts = new Set(
+    target.alerts.map((a) => alertKey(alertSubject(a, a.asset_id ?? undefined, a.portfolio_id ?? undefined)!, a))
+  );
+  const alerts = backup.alerts.filter((alert) => {
+    if (!merging) return true;
+    const subject = alertSubject(
+      alert,
+      alert.asset_id && assetMatches.get(alert.asset_id),
+      alert.portfolio_id && portfolioMatches.get(alert.portfolio_id)
+    );
+    return !subject || !existingAlerts.has(alertKey(subject, alert));
+  });
+
+  const createdAssets = new Set(assets.filter((a) => !a.existingId).map((a) => a.asset.id));
+  const createdPortfolios = new Set(portfolios.filter((p) => !p.existingId).map((p) => p.portfolio.id));
+
+  return {
+    mode,
+    deletePortfolioIds: merging ? [] : target.portfolios.map((p) => p.id),
+    deleteAlertIds: merging ? [] : target.alerts.map((a) => a.id),
+    deleteWatchlistIds: merging ? [] : target.watchlists.map((w) => w.id),
+    deleteLiabilityIds: merging ? [] : target.liabilities.map((l) => l.id),
+    portfolios,
+    assets,
+    transactions: backup.transactions.filter((t) => createdAssets.has(t.asset_id)),
+    income_events: backup.income_events.filter((e) => createdAssets.has(e.asset_id)),
+    valuations: backup.valuations.filter((v) => createdAssets.has(v.asset_id)),
+    cash_flows: backup.cash_flows.filter((f) => createdPortfolios.has(f.portfolio_id)),
+    snapshots: backup.snapshots.filter((s) => createdPortfolios.has(s.portfolio_id)),
+    watchlists,
+    liabilities,
+    alerts,
+    skippedAssets: assets.length - createdAssets.size,
+    skippedAlerts: backup.alerts.length - alerts.length,
+    skippedWatchlists: backup.watchlists.length - watchlists.length,
+    skippedLiabilities: backup.liabilities.length - liabilities.length,
+  };
+}
+
+/**
+ * Point asset targets at the restored assets, dropping targets for assets
+ * that were not restored
+ */
+export function remapAllocationTargets(
+  allocationTargets: AllocationTargets,
+  assetIds: Record<string, string>
+): AllocationTargets {
+  return {
+    ...allocationTargets,
+    targets: allocationTargets.targets
+      .filter((t) => t.scope !== 'asset' || assetIds[t.key])
+      .map((t) => (t.scope === 'asset' ? { ...t, key: assetIds[t.key] } : t)),
+  };
+}
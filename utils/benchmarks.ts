@@ -0,0 +1,120 @@
+/**
+ * Benchmark Utilities
+ *
+ * Rebases benchmark price history onto a portfolio's value series so both
+ * can be drawn on the same chart, and measures the portfolio's over- or
+ * under-performance (alpha) against each benchmark over a period.
+ */
+
+import type { BenchmarkPrice } from '../services/offlineStorage';
+import type { ValuePoint } from './portfolioHistory';
+import { getPriceOn, toDay, type PricePoint } from './returns';
+
+export interface BenchmarkOption {
+  symbol: string;
+  name: string;
+}
+
+/** Benchmarks offered when setting up a portfolio */
+export const BENCHMARK_OPTIONS: BenchmarkOption[] = [
+  { symbol: 'SPY', name: 'S&P 500' },
+  { symbol: 'QQQ', name: 'Nasdaq 100' },
+  { symbol: 'VT', name: 'Total World' },
+  { symbol: 'AGG', name: 'US Bonds' },
+  { symbol: 'BTC', name: 'Bitcoin' },
+];
+
+/** Overlay line colors (rgb triplets), assigned in benchmark order */
+export const BENCHMARK_COLORS = ['99, 102, 241', '245, 158, 11', '236, 72, 153', '107, 114, 128'];
+
+/**
+ * Line color of a benchmark by its position in the list, so its line and
+ * legend match even when another benchmark has no data to draw
+ */
+export function getBenchmarkColor(index: number): string {
+  return BENCHMARK_COLORS[index % BENCHMARK_COLORS.length];
+}
+
+/** A benchmark's rebased series and its alpha over the selected period */
+export interface BenchmarkSeries {
+  symbol: string;
+  /** One point per portfolio point, starting at the portfolio's first value */
+  data: ValuePoint[];
+  /** Portfolio return minus benchmark return, or null when either is unknown */
+  alpha: number | null;
+}
+
+function toPricePoints(prices: BenchmarkPrice[], symbol: string): PricePoint[] {
+  return prices
+    .filter((price) => price.symbol === symbol)
+    .map((price) => ({ date: price.price_date, price: price.price }));
+}
+
+/**
+ * Returns the benchmark's name, or the symbol for custom benchmarks
+ */
+export function getBenchmarkName(symbol: string): string {
+  return BENCHMARK_OPTIONS.find((option) => option.symbol === symbol)?.name ?? symbol;
+}
+
+/**
+ * Rebases a benchmark onto a value series
+ * Each point is what the series' first value would be worth had it tracked
+ * the benchmark. Empty when the benchmark has no usable prices.
+ */
+export function normalizeBenchmark(prices: BenchmarkPrice[], symbol: string, series: ValuePoint[]): ValuePoint[] {
+  const points = toPricePoints(prices, symbol);
+  if (points.length === 0 || series.length === 0) return [];
+
+  const basePrice = getPriceOn(points, toDay(series[0].timestamp));
+  if (!basePrice) return [];
+  const baseValue = series[0].value;
+
+  return series.map((point) => ({
+    timestamp: point.timestamp,
+    value: (baseValue * (getPriceOn(points, toDay(point.timestamp)) ?? basePrice)) / basePrice,
+  }));
+}
+
+/**
+ * Simple return of a benchmark between two days, or null without prices
+ */
+export function getBenchmarkReturn(
+  prices: BenchmarkPrice[],
+  symbol: string,
+  startDate: string,
+  endDate: string
+): number | null {
+  const points = toPricePoints(prices, symbol);
+  const startPrice = getPriceOn(points, startDate);
+  const endPrice = getPriceOn(points, endDate);
+  if (!startPrice || endPrice === null) return null;
+  return endPrice / startPrice - 1;
+}
+
+/**
+ * Over- or under-performance of the portfolio against a benchmark
+ */
+export function calculateAlpha(portfolioReturn: number | null, benchmarkReturn: number | null): number | null {
+  if (portfolioReturn === null || benchmarkReturn === null) return null;
+  return portfolioReturn - benchmarkReturn;
+}
+
+/**
+ * Builds the chart overlay and alpha for each benchmark
+ * The portfolio return and dates are those of the selected period.
+ */
+export function buildBenchmarkSeries(
+  symbols: string[],
+  prices: BenchmarkPrice[],
+  series: ValuePoint[],
+  period: { startDate: string; endDate: string; twr: number | null }
+): BenchmarkSeries[] {
+  return symbols
+    .map((symbol) => ({
+      symbol,
+      data: normalizeBenchmark(prices, symbol, series),
+      alpha: calculateAlpha(period.twr, getBenchmarkReturn(prices, symbol, period.startDate, period.endDate)),
+    }))
+    .filter((benchmark) => benchmark.data.length > 0);
+}
@@ -0,0 +1,445 @@
+/**
+ * CSV Import Utilities
+ *
+ * Parses holdings exported from brokers and exchanges, suggests which
+ * column holds each asset field, and validates the mapped rows before they
+ * are saved. Rows that match an asset already in the portfolio (or an
+ * earlier row of the same file) are flagged as duplicates, and slash dates
+ * that read either way are flagged until the day and month order is known.
+ */
+
+import type { AssetType } from '../services/offlineStorage';
+import { DEFAULT_CURRENCY } from './currency';
+
+export type ImportField =
+  | 'symbol'
+  | 'name'
+  | 'asset_type'
+  | 'quantity'
+  | 'purchase_price'
+  | 'purchase_date'
+  | 'current_price'
+  | 'currency';
+
+export const IMPORT_FIELDS: ImportField[] = [
+  'symbol',
+  'name',
+  'asset_type',
+  'quantity',
+  'purchase_price',
+  'purchase_date',
+  'current_price',
+  'currency',
+];
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  symbol: 'Symbol',
+  name: 'Name',
+  asset_type: 'Asset Type',
+  quantity: 'Quantity',
+  purchase_price: 'Purchase Price',
+  purchase_date: 'Purchase Date',
+  current_price: 'Current Price',
+  currency: 'Currency',
+};
+
+/** Column index for each mapped field */
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+/** Order of the day and month in slash dates: 03/05/2024 is March 5 (mdy) or May 3 (dmy) */
+export type DateOrder = 'mdy' | 'dmy';
+
+/** A parsed row of cells */
+export interface CsvRow {
+  /** 1-based line of the file the row starts on */
+  line: number;
+  cells: string[];
+}
+
+/**
+ * Header names used by common broker and exchange exports, normalized to
+ * lowercase letters, digits and single spaces
+ */
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  symbol: ['symbol', 'ticker', 'ticker symbol', 'instrument', 'asset', 'coin', 'code'],
+  name: ['name', 'description', 'security', 'security name', 'security description', 'asset name', 'instrument name'],
+  asset_type: ['type', 'asset type', 'asset class', 'security type', 'category'],
+  quantity: ['quantity', 'qty', 'shares', 'units', 'amount', 'balance', 'position', 'holdings'],
+  purchase_price: [
+    'purchase price', 'average cost', 'avg cost', 'average price', 'avg price', 'cost per share',
+    'cost basis per share', 'unit cost', 'cost price', 'buy price', 'price paid',
+  ],
+  purchase_date: ['purchase date', 'date acquired', 'acquired', 'open date', 'trade date', 'date'],
+  current_price: ['current price', 'last price', 'market price', 'price', 'last', 'close'],
+  currency: ['currency', 'ccy', 'price currency'],
+};
+
+const ASSET_TYPE_ALIASES: Record<string, AssetType> = {
+  stock: 'stock',
+  stocks: 'stock',
+  equity: 'stock',
+  equities: 'stock',
+  share: 'stock',
+  shares: 'stock',
+  etf: 'etf',
+  etfs: 'etf',
+  'exchange traded fund': 'etf',
+  'mutual fund': 'mutual_fund',
+  'mutual funds': 'mutual_fund',
+  mutual_fund: 'mutual_fund',
+  fund: 'mutual_fund',
+  crypto: 'crypto',
+  cryptocurrency: 'crypto',
+  coin: 'crypto',
+  commodity: 'commodity',
+  commodities: 'commodity',
+  forex: 'forex',
+  fx: 'forex',
+  option: 'option',
+  options: 'option',
+  call: 'option',
+  put: 'option',
+  bond: 'bond',
+  bonds: 'bond',
+  'fixed income': 'fixed_income',
+  fixed_income: 'fixed_income',
+  'real estate': 'real_estate',
+  real_estate: 'real_estate',
+  property: 'real_estate',
+  other: 'other',
+};
+
+/** A validated row ready for assetService.createAsset */
+export interface ImportedAsset {
+  portfolio_id: string;
+  asset_type: string;
+  symbol?: string;
+  name: string;
+  quantity: number;
+  purchase_price: number;
+  purchase_date: string;
+  current_price?: number;
+  currency?: string;
+}
+
+export interface ImportRow {
+  /** 1-based line in the file, counting the header */
+  line: number;
+  asset: ImportedAsset | null;
+  errors: string[];
+  /** Existing asset the row duplicates */
+  duplicateOfAssetId?: string;
+  /** Earlier line of the file the row duplicates */
+  duplicateOfLine?: number;
+}
+
+export interface ImportOptions {
+  portfolioId: string;
+  /** Used when no asset type column is mapped or the value is unknown */
+  defaultAssetType: string;
+  /** Used when no currency column is mapped */
+  defaultCurrency?: string;
+  /** Used when no purchase date column is mapped (YYYY-MM-DD) */
+  today: string;
+  /** How slash dates are read; detected from the date column when absent */
+  dateOrder?: DateOrder;
+}
+
+/** Existing asset fields used to detect duplicates */
+export interface ExistingAsset {
+  id: string;
+  asset_type: string;
+  symbol?: string;
+  name: string;
+}
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * Picks the delimiter that splits the first line into the most columns,
+ * ignoring anything inside quotes
+ */
+function detectDelimiter(text: string): string {
+  const firstLine = (text.split(/\r?\n/)[0] ?? '').replace(/"[^"]*"/g, '');
+  const candidates = [',', ';', '\t'];
+  return candidates.reduce((best, delimiter) =>
+    firstLine.split(delimiter).length > firstLine.split(best).length ? delimiter : best
+  );
+}
+
+/**
+ * Parses CSV text into rows of cells, each with the line it starts on
+ * Handles quoted cells with embedded delimiters, quotes and line breaks, and
+ * comma, semicolon or tab delimiters. Blank lines are skipped, but still
+ * counted, so errors point at the right line of the file.
+ */
+export function parseCsvRows(text: string): CsvRow[] {
+  // Excel prefixes UTF-8 exports with a byte order mark
+  const input = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(input);
+  const rows: CsvRow[] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some((value) => value.trim() !== '')) {
+      rows.push({ line: rowLine, cells: row.map((value) => value.trim()) });
+    }
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        // Line breaks inside quotes belong to the cell but still move the line on
+        if (char === '\n' || (char === '\r' && input[i + 1] !== '\n')) line++;
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      cell += char;
+    }
+  }
+  endRow();
+
+  return rows;
+}
+
+/**
+ * Parses CSV text into rows of cells
+ */
+export function parseCsv(text: string): string[][] {
+  return parseCsvRows(text).map((row) => row.cells);
+}
+
+/**
+ * Suggests a column for each field from the header names
+ * Exact alias matches win over partial ones, and each column is used once.
+ */
+export function suggestMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: ColumnMapping = {};
+  const used = new Set<number>();
+
+  const assign = (matches: (header: string, alias: string) => boolean) => {
+    IMPORT_FIELDS.forEach((field) => {
+      if (mapping[field] !== undefined) return;
+      for (const alias of HEADER_ALIASES[field]) {
+        const index = normalized.findIndex((header, i) => !used.has(i) && matches(header, alias));
+        if (index !== -1) {
+          mapping[field] = index;
+          used.add(index);
+          return;
+        }
+      }
+    });
+  };
+
+  assign((header, alias) => header === alias);
+  assign((header, alias) => header.split(' ').includes(alias) || (alias.includes(' ') && header.includes(alias)));
+  return mapping;
+}
+
+/**
+ * Parses a number as brokers format it: currency symbols, thousands
+ * separators, trailing percent signs and accounting-style negatives
+ */
+export function parseNumber(text: string | undefined): number | null {
+  if (!text) return null;
+  let value = text.trim();
+  const negative = /^\(.*\)$/.test(value) || value.startsWith('-');
+  value = value.replace(/[()\s$€£¥%+-]/g, '').replace(/[A-Za-z]/g, '');
+  if (value === '') return null;
+
+  // The last separator is the decimal one when both appear (1.234,56); a
+  // lone comma before one or two digits is a decimal comma too (12,5)
+  const lastComma = value.lastIndexOf(',');
+  const isDecimalComma = value.includes('.')
+    ? lastComma > value.lastIndexOf('.')
+    : lastComma !== -1 && value.indexOf(',') === lastComma && /,\d{1,2}$/.test(value);
+  value = isDecimalComma
+    ? value.replace(/\./g, '').replace(',', '.')
+    : value.replace(/,/g, '');
+
+  const number = Number(value);
+  if (!Number.isFinite(number)) return null;
+  return negative ? -number : number;
+}
+
+function matchSlashDate(text: string): [number, number, number] | null {
+  const match = text.trim().match(/^(\d{1,2})\/(\d{1,2})\/(\d{2,4})$/);
+  return match ? [Number(match[1]), Number(match[2]), Number(match[3])] : null;
+}
+
+/**
+ * Whether a slash date reads as two different days, e.g. 03/05/2024
+ */
+export function isAmbiguousDate(text: string): boolean {
+  const parts = matchSlashDate(text);
+  return !!parts && parts[0] <= 12 && parts[1] <= 12 && parts[0] !== parts[1];
+}
+
+/**
+ * Works out the day and month order of a column of dates from any slash
+ * date whose day is over 12. Null when none settles it, or they disagree.
+ */
+export function detectDateOrder(texts: (string | undefined)[]): DateOrder | null {
+  const orders = new Set<DateOrder>();
+  texts.forEach((text) => {
+    const parts = text ? matchSlashDate(text) : null;
+    if (!parts) return;
+    if (parts[0] > 12) orders.add('dmy');
+    else if (parts[1] > 12) orders.add('mdy');
+  });
+  return orders.size === 1 ? Array.from(orders)[0] : null;
+}
+
+/**
+ * Parses YYYY-MM-DD, slash dates in the given order, DD.MM.YYYY and ISO
+ * timestamps into YYYY-MM-DD, or null when the date is not valid
+ */
+export function parseDate(text: string | undefined, order: DateOrder = 'mdy'): string | null {
+  if (!text) return null;
+  const value = text.trim();
+  let year: number;
+  let month: number;
+  let day: number;
+
+  let match = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  const slash = matchSlashDate(value);
+  if (match) {
+    [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else if (slash) {
+    [month, day, year] = order === 'mdy' ? slash : [slash[1], slash[0], slash[2]];
+  } else if ((match = value.match(/^(\d{1,2})\.(\d{1,2})\.(\d{4})$/))) {
+    [day, month, year] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else {
+    return null;
+  }
+  if (year < 100) year += 2000;
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Maps a broker's asset class to an asset type, or null when unknown
+ */
+export function normalizeAssetType(text: string | undefined): AssetType | null {
+  if (!text) return null;
+  return ASSET_TYPE_ALIASES[text.trim().toLowerCase()] ?? null;
+}
+
+function duplicateKey(assetType: string, symbol: string | undefined, name: string): string {
+  return symbol ? `${assetType}:symbol:${symbol.toUpperCase()}` : `${assetType}:name:${name.trim().toLowerCase()}`;
+}
+
+/**
+ * Validates the data rows against the mapping and flags duplicates
+ * Duplicates match on asset type plus symbol, or plus name for assets
+ * without a symbol.
+ */
+export function buildImportPreview(
+  dataRows: CsvRow[],
+  mapping: ColumnMapping,
+  options: ImportOptions,
+  existingAssets: ExistingAsset[] = []
+): ImportRow[] {
+  const existing = new Map(existingAssets.map((asset) => [duplicateKey(asset.asset_type, asset.symbol, asset.name), asset.id]));
+  const seen = new Map<string, number>();
+  const cell = (row: string[], field: ImportField) => {
+    const index = mapping[field];
+    return index === undefined ? undefined : row[index]?.trim() || undefined;
+  };
+  const dateOrder = options.dateOrder ?? detectDateOrder(dataRows.map((row) => cell(row.cells, 'purchase_date')));
+
+  return dataRows.map(({ line, cells: row }) => {
+    const errors: string[] = [];
+
+    const symbol = cell(row, 'symbol')?.toUpperCase();
+    const name = cell(row, 'name') || symbol;
+    if (!name) errors.push('Missing symbol or name');
+
+    const quantity = parseNumber(cell(row, 'quantity'));
+    if (quantity === null) errors.push('Missing or invalid quantity');
+    else if (quantity <= 0) errors.push('Quantity must be greater than zero');
+
+    const purchasePrice = parseNumber(cell(row, 'purchase_price'));
+    if (purchasePrice === null) errors.push('Missing or invalid purchase price');
+    else if (purchasePrice < 0) errors.push('Purchase price cannot be negative');
+
+    const dateText = cell(row, 'purchase_date');
+    const purchaseDate = dateText ? parseDate(dateText, dateOrder ?? undefined) : options.today;
+    if (dateText && !dateOrder && isAmbiguousDate(dateText)) {
+      errors.push(`Ambiguous purchase date "${dateText}": choose the date format`);
+    } else if (!purchaseDate) errors.push(`Invalid purchase date "${dateText}"`);
+    else if (purchaseDate > options.today) errors.push('Purchase date is in the future');
+
+    const currentPriceText = cell(row, 'current_price');
+    const currentPrice = currentPriceText ? parseNumber(currentPriceText) : null;
+    if (currentPriceText && currentPrice === null) errors.push('Invalid current price');
+
+    const typeText = cell(row, 'asset_type');
+    const assetType = normalizeAssetType(typeText) ?? options.defaultAssetType;
+    const currency = (cell(row, 'currency') || options.defaultCurrency || DEFAULT_CURRENCY).toUpperCase();
+    if (!/^[A-Z]{3}$/.test(currency)) errors.push(`Invalid currency "${currency}"`);
+
+    if (errors.length > 0) {
+      return { line, asset: null, errors };
+    }
+
+    const asset: ImportedAsset = {
+      portfolio_id: options.portfolioId,
+      asset_type: assetType,
+      ...(symbol && { symbol }),
+      name: name!,
+      quantity: quantity!,
+      purchase_price: purchasePrice!,
+      purchase_date: purchaseDate!,
+      ...(currentPrice !== null && { current_price: currentPrice }),
+      currency,
+    };
+
+    const key = duplicateKey(asset.asset_type, asset.symbol, asset.name);
+    const result: ImportRow = { line, asset, errors };
+    if (existing.has(key)) result.duplicateOfAssetId = existing.get(key);
+    if (seen.has(key)) result.duplicateOfLine = seen.get(key);
+    else seen.set(key, line);
+    return result;
+  });
+}
+
+/**
+ * Whether a row would be saved: valid, and not a duplicate unless
+ * duplicates are included
+ */
+export function isImportable(row: ImportRow, includeDuplicates: boolean): boolean {
+  if (!row.asset) return false;
+  if (includeDuplicates) return true;
+  return row.duplicateOfAssetId === undefined && row.duplicateOfLine === undefined;
+}
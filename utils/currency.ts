@@ -0,0 +1,159 @@
+/**
+ * Currency Utilities
+ *
+ * Supported currencies, FX conversion against a USD-based rate table, and
+ * the split of a holding's gain into price and currency effects.
+ */
+
+/** Currency assumed for assets and profiles that have none recorded */
+export const DEFAULT_CURRENCY = 'USD';
+
+/** Currency the FX rate tables are quoted against */
+export const FX_BASE_CURRENCY = 'USD';
+
+export interface CurrencyInfo {
+  code: string;
+  name: string;
+  symbol: string;
+}
+
+export const SUPPORTED_CURRENCIES: CurrencyInfo[] = [
+  { code: 'USD', name: 'US Dollar', symbol: '$' },
+  { code: 'EUR', name: 'Euro', symbol: '€' },
+  { code: 'GBP', name: 'British Pound', symbol: '£' },
+  { code: 'JPY', name: 'Japanese Yen', symbol: '¥' },
+  { code: 'CAD', name: 'Canadian Dollar', symbol: 'C$' },
+  { code: 'AUD', name: 'Australian Dollar', symbol: 'A$' },
+  { code: 'CHF', name: 'Swiss Franc', symbol: 'Fr' },
+];
+
+/** Units of each currency per one unit of the base currency */
+export type FxRates = Record<string, number>;
+
+/** What is needed to convert holdings into the user's currency */
+export interface FxContext {
+  currency: string;
+  rates: FxRates;
+  /** Rate tables keyed by YYYY-MM-DD, used to value cost at acquisition */
+  historicalRates?: Record<string, FxRates>;
+}
+
+/** Lot fields needed to value cost basis at the acquisition-date rate */
+export interface FxLot {
+  acquiredDate: string;
+  quantity: number;
+  costPerUnit: number;
+}
+
+export interface FxBreakdown {
+  /** Cost of the units held, converted at the rates on their acquisition dates */
+  costBasis: number;
+  /** Value of the units held at today's rate */
+  marketValue: number;
+  /** Gain from the asset's price moving in its own currency */
+  priceGain: number;
+  /** Gain from the exchange rate moving since acquisition */
+  fxGain: number;
+}
+
+export function getCurrencySymbol(code: string): string {
+  return SUPPORTED_CURRENCIES.find((currency) => currency.code === code)?.symbol ?? code;
+}
+
+/**
+ * Formats an amount in the given currency with two decimals
+ */
+export function formatMoney(value: number, currency: string = DEFAULT_CURRENCY): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(value);
+}
+
+/**
+ * Returns how many units of `to` one unit of `from` buys,
+ * or null when either currency is missing from the table
+ */
+export function getFxRate(from: string, to: string, rates: FxRates): number | null {
+  if (from === to) return 1;
+  const fromRate = from === FX_BASE_CURRENCY ? 1 : rates[from];
+  const toRate = to === FX_BASE_CURRENCY ? 1 : rates[to];
+  if (!fromRate || !toRate) return null;
+  return toRate / fromRate;
+}
+
+/**
+ * Converts an amount between currencies
+ * Returns null when the rate is unknown, so callers leave the amount out
+ * of totals rather than add it in the wrong currency
+ */
+export function convertAmount(amount: number, from: string, to: string, rates: FxRates): number | null {
+  const rate = getFxRate(from, to, rates);
+  return rate === null ? null : amount * rate;
+}
+
+/**
+ * Currencies among the given ones that cannot be converted into
+ * fx.currency, sorted, so a screen can say which amounts its totals leave out
+ */
+export function getMissingRates(currencies: string[], fx: Pick<FxContext, 'currency' | 'rates'>): string[] {
+  return Array.from(new Set(currencies))
+    .filter((code) => getFxRate(code, fx.currency, fx.rates) === null)
+    .sort();
+}
+
+/**
+ * Finds the rate table for a date, taking the latest earlier table when the
+ * date itself (e.g. a weekend) has none
+ */
+export function getRatesOnDate(
+  historicalRates: Record<string, FxRates>,
+  date: string
+): FxRates | null {
+  const day = date.slice(0, 10);
+  if (historicalRates[day]) return historicalRates[day];
+  const earlier = Object.keys(historicalRates)
+    .filter((key) => key <= day)
+    .sort();
+  return earlier.length > 0 ? historicalRates[earlier[earlier.length - 1]] : null;
+}
+
+/**
+ * Splits the unrealized gain of a holding into price and FX effects
+ * Each lot's cost is converted at the rate on its acquisition date; lots
+ * without a historical rate use today's rate and so carry no FX gain.
+ * Returns null when there is no rate for the holding's currency today.
+ */
+export function calculateFxBreakdown(
+  lots: FxLot[],
+  currentPrice: number,
+  assetCurrency: string,
+  fx: FxContext
+): FxBreakdown | null {
+  const currentRate = getFxRate(assetCurrency, fx.currency, fx.rates);
+  if (currentRate === null) return null;
+
+  let costBasis = 0;
+  let nativeCost = 0;
+  let quantity = 0;
+  lots.forEach((lot) => {
+    const historical = fx.historicalRates ? getRatesOnDate(fx.historicalRates, lot.acquiredDate) : null;
+    const purchaseRate = (historical && getFxRate(assetCurrency, fx.currency, historical)) ?? currentRate;
+    const lotCost = lot.quantity * lot.costPerUnit;
+    costBasis += lotCost * purchaseRate;
+    nativeCost += lotCost;
+    quantity += lot.quantity;
+  });
+
+  const marketValue = quantity * currentPrice * currentRate;
+  const priceGain = (quantity * currentPrice - nativeCost) * currentRate;
+
+  return {
+    costBasis,
+    marketValue,
+    priceGain,
+    fxGain: marketValue - costBasis - priceGain,
+  };
+}
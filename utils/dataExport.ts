@@ -0,0 +1,218 @@
+/**
+ * Data Export Utilities
+ *
+ * Builds CSV and JSON exports of holdings, transactions and alerts on the
+ * device, so exports work from cached data without reaching the server.
+ * The date range limits the transactions; holdings and alerts are exported
+ * as they currently stand.
+ */
+
+import type { Asset, AssetTransaction, Portfolio, PriceAlert } from '../services/offlineStorage';
+import { DEFAULT_CURRENCY } from './currency';
+
+/** Bumped whenever the JSON layout changes */
+export const EXPORT_VERSION = 1;
+
+export type LocalExportFormat = 'csv' | 'json';
+
+/** Which portfolios and dates to export; an empty range is unbounded */
+export interface ExportFilter {
+  portfolioIds: string[];
+  /** YYYY-MM-DD, inclusive */
+  startDate?: string;
+  /** YYYY-MM-DD, inclusive */
+  endDate?: string;
+}
+
+export interface ExportSource {
+  portfolios: Portfolio[];
+  assets: Asset[];
+  transactions: AssetTransaction[];
+  alerts: PriceAlert[];
+}
+
+export interface ExportHolding {
+  portfolio: string;
+  symbol: string;
+  name: string;
+  asset_type: string;
+  quantity: number;
+  purchase_price: number;
+  purchase_date: string;
+  current_price: number;
+  currency: string;
+  market_value: number;
+}
+
+export interface ExportTransaction {
+  portfolio: string;
+  symbol: string;
+  name: string;
+  transaction_date: string;
+  transaction_type: string;
+  quantity: number;
+  price: number;
+  fees: number;
+  notes: string;
+}
+
+export interface ExportAlert {
+  portfolio: string;
+  symbol: string;
+  name: string;
+  alert_type: string;
+  condition_value: number;
+  is_active: boolean;
+  triggered_at: string;
+  created_at: string;
+}
+
+export interface ExportData {
+  version: number;
+  generated_at: string;
+  start_date: string | null;
+  end_date: string | null;
+  portfolios: { id: string; name: string }[];
+  holdings: ExportHolding[];
+  transactions: ExportTransaction[];
+  alerts: ExportAlert[];
+}
+
+type CsvValue = string | number | boolean | null | undefined;
+
+/**
+ * Whether a YYYY-MM-DD (or ISO timestamp) date falls inside the filter range
+ */
+export function isInDateRange(date: string, filter: Pick<ExportFilter, 'startDate' | 'endDate'>): boolean {
+  const day = date.slice(0, 10);
+  if (filter.startDate && day < filter.startDate) return false;
+  if (filter.endDate && day > filter.endDate) return false;
+  return true;
+}
+
+/**
+ * Collect the selected portfolios' holdings, their transactions inside the
+ * date range and their alerts, ready to be written as CSV or JSON
+ */
+export function buildExportData(
+  source: ExportSource,
+  filter: ExportFilter,
+  generatedAt: string = new Date().toISOString()
+): ExportData {
+  const portfolios = source.portfolios.filter((p) => filter.portfolioIds.includes(p.id));
+  const portfolioNames = new Map(portfolios.map((p) => [p.id, p.name]));
+  const assets = source.assets
+    .filter((a) => portfolioNames.has(a.portfolio_id))
+    .sort((a, b) =>
+      portfolios.findIndex((p) => p.id === a.portfolio_id) - portfolios.findIndex((p) => p.id === b.portfolio_id) ||
+      a.name.localeCompare(b.name)
+    );
+  const assetsById = new Map(assets.map((a) => [a.id, a]));
+
+  const describe = (assetId: string) => {
+    const asset = assetsById.get(assetId)!;
+    return {
+      portfolio: portfolioNames.get(asset.portfolio_id) ?? '',
+      symbol: asset.symbol ?? '',
+      name: asset.name,
+    };
+  };
+
+  const holdings: ExportHolding[] = assets.map((asset) => {
+    const currentPrice = asset.current_price ?? asset.purchase_price;
+    return {
+      ...describe(asset.id),
+      asset_type: asset.asset_type,
+      quantity: asset.quantity,
+      purchase_price: asset.purchase_price,
+      purchase_date: asset.purchase_date,
+      current_price: currentPrice,
+      currency: asset.currency || DEFAULT_CURRENCY,
+      market_value: asset.quantity * currentPrice,
+    };
+  });
+
+  const transactions: ExportTransaction[] = source.transactions
+    .filter((t) => assetsById.has(t.asset_id) && isInDateRange(t.transaction_date, filter))
+    .sort((a, b) => a.transaction_date.localeCompare(b.transaction_date))
+    .map((t) => ({
+      ...describe(t.asset_id),
+      transaction_date: t.transaction_date,
+      transaction_type: t.transaction_type,
+      quantity: t.quantity,
+      price: t.price,
+      fees: t.fees ?? 0,
+      notes: t.notes ?? '',
+    }));
+
+  const alerts: ExportAlert[] = source.alerts
+    .filter((a): a is PriceAlert & { asset_id: string } => !!a.asset_id && assetsById.has(a.asset_id))
+    .map((a) => ({
+      ...describe(a.asset_id),
+      alert_type: a.alert_type,
+      condition_value: a.condition_value,
+      is_active: a.is_active,
+      triggered_at: a.triggered_at ?? '',
+      created_at: a.created_at,
+    }));
+
+  return {
+    version: EXPORT_VERSION,
+    generated_at: generatedAt,
+    start_date: filter.startDate || null,
+    end_date: filter.endDate || null,
+    portfolios: portfolios.map((p) => ({ id: p.id, name: p.name })),
+    holdings,
+    transactions,
+    alerts,
+  };
+}
+
+/**
+ * Quote a cell when it contains a delimiter, quote, line break or
+ * surrounding whitespace
+ */
+function formatCsvCell(value: CsvValue): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Write rows as comma-separated lines
+ */
+export function formatCsv(rows: CsvValue[][]): string {
+  return rows.map((row) => row.map(formatCsvCell).join(',')).join('\r\n');
+}
+
+function csvSection<T extends object>(title: string, items: T[], columns: (keyof T & string)[]): CsvValue[][] {
+  return [[title], columns, ...items.map((item) => columns.map((column) => item[column] as CsvValue))];
+}
+
+/**
+ * Write the export as one CSV file with a titled section per table,
+ * separated by blank lines
+ */
+export function toCsv(data: ExportData): string {
+  const sections = [
+    csvSection('Holdings', data.holdings, [
+      'portfolio', 'symbol', 'name', 'asset_type', 'quantity', 'purchase_price',
+      'purchase_date', 'current_price', 'currency', 'market_value',
+    ]),
+    csvSection('Transactions', data.transactions, [
+      'portfolio', 'symbol', 'name', 'transaction_date', 'transaction_type', 'quantity', 'price', 'fees', 'notes',
+    ]),
+    csvSection('Alerts', data.alerts, [
+      'portfolio', 'symbol', 'name', 'alert_type', 'condition_value', 'is_active', 'triggered_at', 'created_at',
+    ]),
+  ];
+  return sections.map(formatCsv).join('\r\n\r\n') + '\r\n';
+}
+
+export function toJson(data: ExportData): string {
+  return JSON.stringify(data, null, 2);
+}
+
+export function getExportFilename(format: LocalExportFormat, generatedAt: string): string {
+  return `portfolio-export-${generatedAt.slice(0, 10)}.${format}`;
+}
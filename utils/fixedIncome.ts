@@ -0,0 +1,256 @@
+/**
+ * Fixed Income Utilities
+ *
+ * Values bonds and other fixed income holdings from their coupon rate,
+ * payment frequency, day-count convention and maturity date: accrued
+ * interest, yield to maturity, current value and the remaining cash-flow
+ * schedule. Holdings are valued at the yield implied by what was paid, so
+ * the value accretes towards face value as maturity approaches.
+ */
+
+import { addMonths, getPaymentFrequency, PAYMENTS_PER_YEAR, type IncomeAsset, type PaymentFrequency } from './income';
+
+export type DayCount = '30/360' | 'actual/360' | 'actual/365' | 'actual/actual';
+
+export const DAY_COUNTS: DayCount[] = ['30/360', 'actual/360', 'actual/365', 'actual/actual'];
+
+export const DAY_COUNT_LABELS: Record<DayCount, string> = {
+  '30/360': '30/360',
+  'actual/360': 'Actual/360',
+  'actual/365': 'Actual/365',
+  'actual/actual': 'Actual/Actual',
+};
+
+export const DEFAULT_DAY_COUNT: DayCount = '30/360';
+
+/** Asset types valued as coupon-paying fixed income */
+export const FIXED_INCOME_TYPES = ['bond', 'fixed_income'];
+
+/** Terms of a fixed income holding, for the whole position */
+export interface BondTerms {
+  faceValue: number;
+  /** Annual coupon rate in percent */
+  couponRate: number;
+  frequency: PaymentFrequency;
+  dayCount: DayCount;
+  /** YYYY-MM-DD */
+  maturityDate: string;
+}
+
+/** A coupon and/or principal payment */
+export interface CashFlow {
+  date: string;
+  coupon: number;
+  principal: number;
+  total: number;
+}
+
+export interface FixedIncomeValuation {
+  terms: BondTerms;
+  accruedInterest: number;
+  /** Value excluding accrued interest */
+  cleanValue: number;
+  /** Value including accrued interest */
+  currentValue: number;
+  /** Annual yield to maturity in percent, at the price paid */
+  yieldToMaturity: number | null;
+  nextCouponDate: string | null;
+  isMatured: boolean;
+}
+
+export function isFixedIncomeType(assetType: string): boolean {
+  return FIXED_INCOME_TYPES.includes(assetType);
+}
+
+/**
+ * Reads the terms of a fixed income holding from its metadata
+ * Returns null without a valid maturity date. Without a face value the
+ * amount paid is treated as the principal, as for a deposit.
+ */
+export function getBondTerms(
+  asset: Pick<IncomeAsset, 'asset_type' | 'quantity' | 'purchase_price' | 'metadata'>
+): BondTerms | null {
+  const maturity = asset.metadata?.maturity_date;
+  if (typeof maturity !== 'string' || !/^\d{4}-\d{2}-\d{2}/.test(maturity)) return null;
+
+  const rate = Number(asset.metadata?.interest_rate);
+  const dayCount = asset.metadata?.day_count;
+  return {
+    faceValue: Number(asset.metadata?.face_value) || asset.quantity * asset.purchase_price,
+    couponRate: Number.isFinite(rate) && rate > 0 ? rate : 0,
+    frequency: getPaymentFrequency(asset),
+    dayCount: DAY_COUNTS.includes(dayCount as DayCount) ? (dayCount as DayCount) : DEFAULT_DAY_COUNT,
+    maturityDate: maturity.slice(0, 10),
+  };
+}
+
+function toUtc(date: string): number {
+  const [year, month, day] = date.slice(0, 10).split('-').map(Number);
+  return Date.UTC(year, month - 1, day);
+}
+
+/**
+ * Days between two dates under a day-count convention
+ * 30/360 uses the US bond basis; the others count actual days.
+ */
+export function countDays(start: string, end: string, dayCount: DayCount): number {
+  if (dayCount !== '30/360') {
+    return Math.round((toUtc(end) - toUtc(start)) / 86400000);
+  }
+
+  const [y1, m1, startDay] = start.slice(0, 10).split('-').map(Number);
+  const [y2, m2, endDay] = end.slice(0, 10).split('-').map(Number);
+  const d1 = Math.min(startDay, 30);
+  const d2 = endDay === 31 && d1 === 30 ? 30 : endDay;
+  return 360 * (y2 - y1) + 30 * (m2 - m1) + (d2 - d1);
+}
+
+/** Coupon amount paid each period */
+export function getCouponAmount(terms: BondTerms): number {
+  return (terms.faceValue * terms.couponRate) / 100 / PAYMENTS_PER_YEAR[terms.frequency];
+}
+
+/**
+ * The coupon period containing a date: the last coupon date on or before
+ * it and the next one after it. Coupon dates are counted back from maturity.
+ */
+export function getCouponPeriod(terms: BondTerms, date: string): { start: string; end: string } {
+  const interval = 12 / PAYMENTS_PER_YEAR[terms.frequency];
+  let end = terms.maturityDate;
+  for (let k = 1; ; k++) {
+    const start = addMonths(terms.maturityDate, -k * interval);
+    if (start <= date.slice(0, 10)) return { start, end };
+    end = start;
+  }
+}
+
+/**
+ * Interest accrued since the last coupon date
+ * Actual/Actual and 30/360 accrue a share of the period's coupon; Actual/360
+ * and Actual/365 accrue the annual rate by the day.
+ */
+export function calculateAccruedInterest(terms: BondTerms, date: string): number {
+  if (date.slice(0, 10) >= terms.maturityDate || terms.couponRate === 0) return 0;
+
+  const period = getCouponPeriod(terms, date);
+  switch (terms.dayCount) {
+    case 'actual/360':
+    case 'actual/365': {
+      const basis = terms.dayCount === 'actual/360' ? 360 : 365;
+      return (terms.faceValue * terms.couponRate) / 100 * (countDays(period.start, date, terms.dayCount) / basis);
+    }
+    default:
+      return (
+        getCouponAmount(terms) *
+        (countDays(period.start, date, terms.dayCount) / countDays(period.start, period.end, terms.dayCount))
+      );
+  }
+}
+
+/**
+ * Payments due after `from` up to and including maturity, oldest first
+ */
+export function buildCashFlowSchedule(terms: BondTerms, from: string): CashFlow[] {
+  const interval = 12 / PAYMENTS_PER_YEAR[terms.frequency];
+  const coupon = getCouponAmount(terms);
+  const flows: CashFlow[] = [];
+
+  for (let k = 0; ; k++) {
+    const date = addMonths(terms.maturityDate, -k * interval);
+    if (date <= from.slice(0, 10)) break;
+    const principal = k === 0 ? terms.faceValue : 0;
+    flows.unshift({ date, coupon, principal, total: coupon + principal });
+  }
+  return flows;
+}
+
+/**
+ * Value including accrued interest at an annual yield (in percent),
+ * discounting each remaining payment per coupon period
+ */
+export function valueAtYield(terms: BondTerms, yieldPercent: number, date: string): number {
+  const flows = buildCashFlowSchedule(terms, date);
+  if (flows.length === 0) return 0;
+
+  const periodsPerYear = PAYMENTS_PER_YEAR[terms.frequency];
+  const periodRate = yieldPercent / 100 / periodsPerYear;
+  const period = getCouponPeriod(terms, date);
+  // Share of the current period left until the next payment
+  const remaining =
+    countDays(date, period.end, terms.dayCount) / countDays(period.start, period.end, terms.dayCount);
+
+  return flows.reduce((sum, flow, k) => sum + flow.total / Math.pow(1 + periodRate, k + remaining), 0);
+}
+
+/**
+ * Annual yield to maturity (in percent) implied by a value including
+ * accrued interest, or null when no yield reproduces it
+ */
+export function calculateYieldToMaturity(terms: BondTerms, dirtyValue: number, date: string): number | null {
+  if (!(dirtyValue > 0) || date.slice(0, 10) >= terms.maturityDate) return null;
+
+  // Value falls as yield rises, so bisect between a deep negative and a very high yield
+  const periodsPerYear = PAYMENTS_PER_YEAR[terms.frequency];
+  let low = -99 * periodsPerYear;
+  let high = 1000;
+  if (valueAtYield(terms, low, date) < dirtyValue || valueAtYield(terms, high, date) > dirtyValue) {
+    return null;
+  }
+
+  for (let i = 0; i < 200 && high - low > 1e-9; i++) {
+    const mid = (low + high) / 2;
+    if (valueAtYield(terms, mid, date) > dirtyValue) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return (low + high) / 2;
+}
+
+/**
+ * Values a fixed income holding on a date
+ * The amount paid is taken as the clean price on the purchase date; the
+ * yield it implies is used to value the holding on `asOf`. Matured
+ * holdings are worth their face value.
+ */
+export function valueFixedIncome(
+  asset: Pick<IncomeAsset, 'asset_type' | 'quantity' | 'purchase_price' | 'purchase_date' | 'metadata'>,
+  asOf: string
+): FixedIncomeValuation | null {
+  const terms = getBondTerms(asset);
+  if (!terms) return null;
+
+  const date = asOf.slice(0, 10);
+  if (date >= terms.maturityDate) {
+    return {
+      terms,
+      accruedInterest: 0,
+      cleanValue: terms.faceValue,
+      currentValue: terms.faceValue,
+      yieldToMaturity: null,
+      nextCouponDate: null,
+      isMatured: true,
+    };
+  }
+
+  const purchased = (asset.purchase_date || date).slice(0, 10);
+  const cost = asset.quantity * asset.purchase_price;
+  const yieldToMaturity =
+    purchased < terms.maturityDate
+      ? calculateYieldToMaturity(terms, cost + calculateAccruedInterest(terms, purchased), purchased)
+      : null;
+
+  const accruedInterest = calculateAccruedInterest(terms, date);
+  const currentValue = yieldToMaturity !== null ? valueAtYield(terms, yieldToMaturity, date) : cost + accruedInterest;
+
+  return {
+    terms,
+    accruedInterest,
+    cleanValue: currentValue - accruedInterest,
+    currentValue,
+    yieldToMaturity,
+    nextCouponDate: getCouponPeriod(terms, date).end,
+    isMatured: false,
+  };
+}
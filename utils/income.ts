@@ -0,0 +1,183 @@
+/**
+ * Income Utilities
+ *
+ * Totals recorded income (dividends, coupons, rent, staking rewards) and
+ * projects future payments from an asset's interest rate and payment
+ * frequency into a monthly income calendar.
+ */
+
+import type { IncomeEvent, IncomeType } from '../services/offlineStorage';
+import { convertAmount, DEFAULT_CURRENCY, type FxContext } from './currency';
+
+export type PaymentFrequency = 'monthly' | 'quarterly' | 'semiannual' | 'annual';
+
+export const PAYMENT_FREQUENCIES: PaymentFrequency[] = ['monthly', 'quarterly', 'semiannual', 'annual'];
+
+export const PAYMENT_FREQUENCY_LABELS: Record<PaymentFrequency, string> = {
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+  semiannual: 'Semi-annual',
+  annual: 'Annual',
+};
+
+export const PAYMENTS_PER_YEAR: Record<PaymentFrequency, number> = {
+  monthly: 12,
+  quarterly: 4,
+  semiannual: 2,
+  annual: 1,
+};
+
+export const INCOME_TYPES: IncomeType[] = ['dividend', 'interest', 'coupon', 'rent', 'staking'];
+
+export const INCOME_TYPE_LABELS: Record<IncomeType, string> = {
+  dividend: 'Dividend',
+  interest: 'Interest',
+  coupon: 'Coupon',
+  rent: 'Rent',
+  staking: 'Staking Reward',
+};
+
+/** A payment expected from an asset, in the asset's currency */
+export interface ProjectedPayment {
+  asset_id: string;
+  income_type: IncomeType;
+  date: string;
+  amount: number;
+  currency: string;
+}
+
+/** One month of the income calendar, totalled in the reporting currency */
+export interface IncomeMonth {
+  /** YYYY-MM */
+  month: string;
+  total: number;
+  payments: ProjectedPayment[];
+}
+
+/** Asset fields needed to project its income */
+export interface IncomeAsset {
+  id: string;
+  asset_type: string;
+  quantity: number;
+  purchase_price: number;
+  purchase_date: string;
+  currency?: string;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Returns the kind of income an asset type usually pays
+ */
+export function getDefaultIncomeType(assetType: string): IncomeType {
+  switch (assetType) {
+    case 'bond':
+    case 'fixed_income': return 'coupon';
+    case 'real_estate': return 'rent';
+    case 'crypto': return 'staking';
+    case 'stock':
+    case 'etf':
+    case 'mutual_fund': return 'dividend';
+    default: return 'interest';
+  }
+}
+
+/**
+ * Reads the payment frequency from metadata; bonds default to semi-annual
+ * coupons and everything else to a single annual payment
+ */
+export function getPaymentFrequency(asset: Pick<IncomeAsset, 'asset_type' | 'metadata'>): PaymentFrequency {
+  const frequency = asset.metadata?.payment_frequency;
+  if (typeof frequency === 'string' && frequency in PAYMENTS_PER_YEAR) {
+    return frequency as PaymentFrequency;
+  }
+  return asset.asset_type === 'fixed_income' || asset.asset_type === 'bond' ? 'semiannual' : 'annual';
+}
+
+/**
+ * Totals income in the reporting currency
+ * Payments in a currency without a rate are left out
+ */
+export function sumIncome(events: Pick<IncomeEvent, 'amount' | 'currency'>[], fx: FxContext): number {
+  return events.reduce(
+    (sum, event) => sum + (convertAmount(event.amount, event.currency || DEFAULT_CURRENCY, fx.currency, fx.rates) ?? 0),
+    0
+  );
+}
+
+/**
+ * Adds whole months to a date (YYYY-MM-DD), clamping to the month's last day
+ */
+export function addMonths(date: string, months: number): string {
+  const [year, month, day] = date.slice(0, 10).split('-').map(Number);
+  const target = new Date(Date.UTC(year, month - 1 + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return target.toISOString().slice(0, 10);
+}
+
+/**
+ * Projects an asset's payments after `from` up to and including `until`
+ * Payments are interest_rate percent of the face value (or the cost when no
+ * face value is stored) per year, split by the payment frequency. Bonds pay on
+ * dates counted back from maturity and stop there; other assets pay on dates
+ * counted forward from the purchase date.
+ */
+export function projectIncome(asset: IncomeAsset, from: string, until: string): ProjectedPayment[] {
+  const rate = Number(asset.metadata?.interest_rate);
+  if (!Number.isFinite(rate) || rate <= 0) return [];
+
+  const frequency = getPaymentFrequency(asset);
+  const interval = 12 / PAYMENTS_PER_YEAR[frequency];
+  const principal = Number(asset.metadata?.face_value) || asset.quantity * asset.purchase_price;
+  const amount = (principal * rate) / 100 / PAYMENTS_PER_YEAR[frequency];
+
+  const start = from.slice(0, 10);
+  const purchased = (asset.purchase_date || '').slice(0, 10);
+  const maturity = typeof asset.metadata?.maturity_date === 'string' ? asset.metadata.maturity_date.slice(0, 10) : null;
+  if (!maturity && !purchased) return [];
+  const end = maturity && maturity < until.slice(0, 10) ? maturity : until.slice(0, 10);
+
+  const dates: string[] = [];
+  if (maturity) {
+    for (let k = 0; ; k++) {
+      const date = addMonths(maturity, -k * interval);
+      if (date <= start || date <= purchased) break;
+      if (date <= end) dates.unshift(date);
+    }
+  } else {
+    for (let k = 1; ; k++) {
+      const date = addMonths(purchased, k * interval);
+      if (date > end) break;
+      if (date > start) dates.push(date);
+    }
+  }
+
+  return dates.map((date) => ({
+    asset_id: asset.id,
+    income_type: getDefaultIncomeType(asset.asset_type),
+    date,
+    amount,
+    currency: asset.currency || DEFAULT_CURRENCY,
+  }));
+}
+
+/**
+ * Groups projected payments into calendar months between two dates,
+ * including months without payments
+ */
+export function buildIncomeCalendar(
+  payments: ProjectedPayment[],
+  from: string,
+  until: string,
+  fx: FxContext
+): IncomeMonth[] {
+  const months: IncomeMonth[] = [];
+  for (let date = `${from.slice(0, 7)}-01`; date.slice(0, 7) <= until.slice(0, 7); date = addMonths(date, 1)) {
+    const month = date.slice(0, 7);
+    const monthPayments = payments
+      .filter((payment) => payment.date.slice(0, 7) === month)
+      .sort((a, b) => a.date.localeCompare(b.date));
+    months.push({ month, total: sumIncome(monthPayments, fx), payments: monthPayments });
+  }
+  return months;
+}
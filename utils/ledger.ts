@@ -0,0 +1,298 @@
+/**
+ * Transaction Ledger Utilities
+ *
+ * Derives position quantity, cost basis, open tax lots and realized gains
+ * from the buy/sell/transfer ledger recorded under each asset.
+ */
+
+import type {
+  Asset,
+  AssetTransaction,
+  CostBasisMethod,
+  TransactionType,
+} from '../services/offlineStorage';
+
+export type { CostBasisMethod };
+
+/** Default method when the user has not chosen one */
+export const DEFAULT_COST_BASIS_METHOD: CostBasisMethod = 'fifo';
+
+/** Display labels for each cost-basis method */
+export const COST_BASIS_METHOD_LABELS: Record<CostBasisMethod, string> = {
+  fifo: 'FIFO',
+  lifo: 'LIFO',
+  average: 'Average Cost',
+  specific: 'Specific Lot',
+};
+
+/** Transaction types that add units to a position */
+export const INFLOW_TYPES: TransactionType[] = ['buy', 'transfer_in'];
+
+/** Transaction types that remove units from a position */
+export const OUTFLOW_TYPES: TransactionType[] = ['sell', 'transfer_out'];
+
+/** Display labels for each transaction type */
+export const TRANSACTION_TYPE_LABELS: Record<TransactionType, string> = {
+  buy: 'Buy',
+  sell: 'Sell',
+  transfer_in: 'Transfer In',
+  transfer_out: 'Transfer Out',
+};
+
+/** Fields needed to create a transaction, before the server assigns ids */
+export type TransactionInput = Pick<
+  AssetTransaction,
+  'transaction_type' | 'quantity' | 'price' | 'fees' | 'transaction_date' | 'notes' | 'lot_id'
+>;
+
+/** Open lot of units acquired by a single buy or transfer in */
+export interface TaxLot {
+  /** ID of the transaction that opened the lot */
+  transactionId: string;
+  acquiredDate: string;
+  originalQuantity: number;
+  /** Units still held from this lot */
+  quantity: number;
+  /** Cost per unit including the acquisition fees */
+  costPerUnit: number;
+}
+
+export interface Position {
+  quantity: number;
+  /** Cost basis of the units still held */
+  costBasis: number;
+  averageCost: number;
+  firstAcquiredDate: string | null;
+  lots: TaxLot[];
+  /** Sale proceeds net of fees */
+  realizedProceeds: number;
+  /** Cost basis of the units sold */
+  realizedCostBasis: number;
+  realizedGain: number;
+}
+
+// Quantities below this are treated as zero to absorb floating point drift
+const QUANTITY_EPSILON = 1e-9;
+
+export function isInflow(type: TransactionType): boolean {
+  return INFLOW_TYPES.includes(type);
+}
+
+/**
+ * Sorts transactions chronologically
+ * Same-day transactions keep the order they were recorded in
+ */
+export function sortTransactions<T extends Pick<AssetTransaction, 'transaction_date' | 'created_at'>>(
+  transactions: T[]
+): T[] {
+  return [...transactions].sort((a, b) => {
+    const byDate = new Date(a.transaction_date).getTime() - new Date(b.transaction_date).getTime();
+    if (byDate !== 0) return byDate;
+    return (a.created_at || '').localeCompare(b.created_at || '');
+  });
+}
+
+/**
+ * Builds the synthetic opening transaction for assets created before the
+ * ledger existed, so every asset can be treated as having a ledger
+ */
+export function getOpeningTransaction(
+  asset: Pick<Asset, 'id' | 'quantity' | 'purchase_price' | 'purchase_date' | 'created_at' | 'updated_at'>
+): AssetTransaction {
+  return {
+    id: `${asset.id}-opening`,
+    asset_id: asset.id,
+    transaction_type: 'buy',
+    quantity: asset.quantity,
+    price: asset.purchase_price,
+    fees: 0,
+    transaction_date: asset.purchase_date,
+    created_at: asset.created_at,
+    updated_at: asset.updated_at,
+  };
+}
+
+/**
+ * Returns the asset's ledger, falling back to the opening transaction
+ * when no transactions have been recorded yet
+ */
+export function getAssetLedger(
+  asset: Pick<Asset, 'id' | 'quantity' | 'purchase_price' | 'purchase_date' | 'created_at' | 'updated_at'>,
+  transactions: AssetTransaction[]
+): AssetTransaction[] {
+  const own = transactions.filter((t) => t.asset_id === asset.id);
+  if (own.length > 0) return sortTransactions(own);
+  if (asset.quantity > 0) return [getOpeningTransaction(asset)];
+  return [];
+}
+
+/**
+ * Removes units from the open lots according to the cost-basis method
+ * Returns the cost basis of the removed units
+ */
+function consumeLots(
+  lots: TaxLot[],
+  quantity: number,
+  method: CostBasisMethod,
+  lotId?: string
+): number {
+  const open = lots.filter((lot) => lot.quantity > QUANTITY_EPSILON);
+  const held = open.reduce((sum, lot) => sum + lot.quantity, 0);
+  if (held <= QUANTITY_EPSILON) return 0;
+
+  if (method === 'average') {
+    // Every lot shrinks proportionally, so the average cost is unchanged
+    const fraction = Math.min(quantity / held, 1);
+    return open.reduce((cost, lot) => {
+      const consumed = lot.quantity * fraction;
+      lot.quantity -= consumed;
+      return cost + consumed * lot.costPerUnit;
+    }, 0);
+  }
+
+  let ordered = method === 'lifo' ? [...open].reverse() : open;
+  if (method === 'specific' && lotId) {
+    // The chosen lot goes first; any remainder falls back to FIFO
+    ordered = [
+      ...open.filter((lot) => lot.transactionId === lotId),
+      ...open.filter((lot) => lot.transactionId !== lotId),
+    ];
+  }
+
+  let remaining = quantity;
+  let cost = 0;
+  for (const lot of ordered) {
+    if (remaining <= QUANTITY_EPSILON) break;
+    const consumed = Math.min(lot.quantity, remaining);
+    lot.quantity -= consumed;
+    remaining -= consumed;
+    cost += consumed * lot.costPerUnit;
+  }
+  return cost;
+}
+
+/**
+ * Derives the current position and realized gains from a ledger
+ * Outflows consume open lots according to the cost-basis method
+ */
+export function derivePosition(
+  transactions: AssetTransaction[],
+  method: CostBasisMethod = DEFAULT_COST_BASIS_METHOD
+): Position {
+  const lots: TaxLot[] = [];
+  let realizedProceeds = 0;
+  let realizedCostBasis = 0;
+
+  sortTransactions(transactions).forEach((transaction) => {
+    if (transaction.quantity <= 0) return;
+    const fees = transaction.fees || 0;
+
+    if (isInflow(transaction.transaction_type)) {
+      lots.push({
+        transactionId: transaction.id,
+        acquiredDate: transaction.transaction_date,
+        originalQuantity: transaction.quantity,
+        quantity: transaction.quantity,
+        costPerUnit: transaction.price + fees / transaction.quantity,
+      });
+      return;
+    }
+
+    const cost = consumeLots(lots, transaction.quantity, method, transaction.lot_id);
+
+    // Transfers move the cost basis out of the account without realizing a gain
+    if (transaction.transaction_type === 'sell') {
+      realizedProceeds += transaction.quantity * transaction.price - fees;
+      realizedCostBasis += cost;
+    }
+  });
+
+  const openLots = lots.filter((lot) => lot.quantity > QUANTITY_EPSILON);
+  const quantity = openLots.reduce((sum, lot) => sum + lot.quantity, 0);
+  const costBasis = openLots.reduce((sum, lot) => sum + lot.quantity * lot.costPerUnit, 0);
+
+  return {
+    quantity,
+    costBasis,
+    averageCost: quantity > 0 ? costBasis / quantity : 0,
+    firstAcquiredDate: openLots.length > 0 ? openLots[0].acquiredDate : null,
+    lots: openLots,
+    realizedProceeds,
+    realizedCostBasis,
+    realizedGain: realizedProceeds - realizedCostBasis,
+  };
+}
+
+/**
+ * Unrealized gain of the units still held at the given price
+ */
+export function calculateUnrealizedGain(position: Position, currentPrice: number): number {
+  return position.quantity * currentPrice - position.costBasis;
+}
+
+/**
+ * First sale or transfer out in an ordered ledger that removes more units
+ * than are held at that point, or null when holdings never go negative
+ */
+function findOversold<T extends Pick<AssetTransaction, 'transaction_type' | 'quantity'>>(ordered: T[]): T | null {
+  let held = 0;
+  for (const transaction of ordered) {
+    if (transaction.quantity <= 0) continue;
+    held += isInflow(transaction.transaction_type) ? transaction.quantity : -transaction.quantity;
+    if (held < -QUANTITY_EPSILON) return transaction;
+  }
+  return null;
+}
+
+/**
+ * Validates a new transaction against the existing ledger
+ * Returns an error message, or null when the transaction is valid
+ */
+export function validateTransaction(
+  ledger: AssetTransaction[],
+  input: TransactionInput
+): string | null {
+  if (!Number.isFinite(input.quantity) || input.quantity <= 0) {
+    return 'Quantity must be a positive number';
+  }
+  if (!Number.isFinite(input.price) || input.price < 0) {
+    return 'Price must be a non-negative number';
+  }
+  if (input.fees !== undefined && (!Number.isFinite(input.fees) || input.fees < 0)) {
+    return 'Fees must be a non-negative number';
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(input.transaction_date)) {
+    return 'Invalid date format (use YYYY-MM-DD)';
+  }
+
+  if (!isInflow(input.transaction_type)) {
+    // Only units held on the transaction date can be sold or transferred out
+    const ordered = sortTransactions(ledger);
+    const heldBefore = ordered.filter(
+      (t) => new Date(t.transaction_date).getTime() <= new Date(input.transaction_date).getTime()
+    );
+    const available = derivePosition(heldBefore).quantity;
+    if (input.quantity > available + QUANTITY_EPSILON) {
+      return `Only ${available.toLocaleString()} units are held on ${input.transaction_date}`;
+    }
+
+    // Later sales and transfers out must still be covered once this one is recorded
+    const oversold = findOversold([...heldBefore, input, ...ordered.slice(heldBefore.length)]);
+    if (oversold && oversold !== input) {
+      return `Too few units would be left for the ${TRANSACTION_TYPE_LABELS[oversold.transaction_type].toLowerCase()} on ${oversold.transaction_date}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Validates deleting a transaction from the ledger
+ * Returns an error message when a later sale or transfer out would remove
+ * more units than are held, or null when it can be deleted
+ */
+export function validateDeletion(ledger: AssetTransaction[], transactionId: string): string | null {
+  const oversold = findOversold(sortTransactions(ledger.filter((t) => t.id !== transactionId)));
+  if (!oversold) return null;
+  return `Too few units would be left for the ${TRANSACTION_TYPE_LABELS[oversold.transaction_type].toLowerCase()} on ${oversold.transaction_date}`;
+}
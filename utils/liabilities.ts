@@ -0,0 +1,155 @@
+/**
+ * Liability Utilities
+ *
+ * Balances of loans, credit lines and mortgages over time, and the net worth
+ * they leave: holdings at market value less everything owed. Mortgages
+ * entered on a real estate holding count as liabilities unless a recorded
+ * liability is already linked to that property.
+ */
+
+import type { Liability, LiabilityType } from '../services/offlineStorage';
+import { convertAmount, DEFAULT_CURRENCY, type FxContext } from './currency';
+import type { ValuePoint } from './portfolioHistory';
+import { getMortgageTerms, getRemainingBalance, isRealEstateType, type MortgageTerms } from './realEstate';
+import { toDay } from './returns';
+
+export const LIABILITY_TYPES: LiabilityType[] = ['mortgage', 'loan', 'credit_line'];
+
+export const LIABILITY_TYPE_LABELS: Record<LiabilityType, string> = {
+  mortgage: 'Mortgage',
+  loan: 'Loan',
+  credit_line: 'Credit Line',
+};
+
+/** Fields set when recording or editing a liability */
+export type LiabilityInput = Omit<Liability, 'id' | 'created_at' | 'updated_at'>;
+
+/** Asset fields needed to read a mortgage entered on a property */
+export interface DebtAsset {
+  id: string;
+  name: string;
+  asset_type: string;
+  purchase_date: string;
+  currency?: string;
+  metadata?: Record<string, any>;
+}
+
+export interface NetWorth {
+  totalAssets: number;
+  totalLiabilities: number;
+  netWorth: number;
+  /** Outstanding balances per kind of liability */
+  byType: Record<LiabilityType, number>;
+}
+
+/**
+ * Repayment terms of a liability
+ * Credit lines revolve, so their balance is held flat like an interest-only loan.
+ */
+export function getLiabilityTerms(liability: Liability): MortgageTerms {
+  const term = Number(liability.term_months);
+  return {
+    balance: liability.balance,
+    balanceDate: liability.balance_date.slice(0, 10),
+    annualRate: liability.interest_rate || 0,
+    remainingPayments: liability.liability_type !== 'credit_line' && term > 0 ? Math.round(term) : null,
+  };
+}
+
+/**
+ * Balance owed on a date, in the liability's currency
+ * Nothing is known before the balance date, so the liability counts from then.
+ */
+export function getLiabilityBalance(liability: Liability, date: string): number {
+  if (toDay(date) < liability.balance_date.slice(0, 10)) return 0;
+  return getRemainingBalance(getLiabilityTerms(liability), toDay(date));
+}
+
+/**
+ * Lists every debt to count against net worth: the recorded liabilities
+ * plus mortgages entered on real estate holdings with no linked liability
+ */
+export function collectLiabilities(liabilities: Liability[], assets: DebtAsset[]): Liability[] {
+  const linkedAssetIds = new Set(liabilities.map((liability) => liability.asset_id).filter(Boolean));
+
+  const propertyMortgages = assets
+    .filter((asset) => isRealEstateType(asset.asset_type) && !linkedAssetIds.has(asset.id))
+    .flatMap((asset): Liability[] => {
+      const terms = getMortgageTerms(asset);
+      if (!terms) return [];
+      return [{
+        id: `asset:${asset.id}`,
+        name: `${asset.name} mortgage`,
+        liability_type: 'mortgage',
+        balance: terms.balance,
+        balance_date: terms.balanceDate,
+        interest_rate: terms.annualRate,
+        term_months: terms.remainingPayments,
+        currency: asset.currency || DEFAULT_CURRENCY,
+        asset_id: asset.id,
+        created_at: terms.balanceDate,
+        updated_at: terms.balanceDate,
+      }];
+    });
+
+  return [...liabilities, ...propertyMortgages];
+}
+
+/**
+ * Net worth on a date from the value of all holdings (already in
+ * fx.currency) and the liabilities, converted at the latest rates
+ * Liabilities in a currency without a rate are left out
+ */
+export function calculateNetWorth(
+  totalAssets: number,
+  liabilities: Liability[],
+  date: string,
+  fx: FxContext
+): NetWorth {
+  const byType: Record<LiabilityType, number> = { mortgage: 0, loan: 0, credit_line: 0 };
+  liabilities.forEach((liability) => {
+    byType[liability.liability_type] +=
+      convertAmount(getLiabilityBalance(liability, date), liability.currency || DEFAULT_CURRENCY, fx.currency, fx.rates) ??
+      0;
+  });
+
+  const totalLiabilities = byType.mortgage + byType.loan + byType.credit_line;
+  return { totalAssets, totalLiabilities, netWorth: totalAssets - totalLiabilities, byType };
+}
+
+/**
+ * Net worth series from the portfolio value series, deducting what was owed
+ * on each day
+ */
+export function buildNetWorthSeries(history: ValuePoint[], liabilities: Liability[], fx: FxContext): ValuePoint[] {
+  return history.map((point) => ({
+    timestamp: point.timestamp,
+    value: calculateNetWorth(point.value, liabilities, point.timestamp, fx).netWorth,
+  }));
+}
+
+/**
+ * Validates a liability before it is saved
+ * Returns an error message, or null when the liability is valid
+ */
+export function validateLiability(input: LiabilityInput): string | null {
+  if (!input.name.trim()) {
+    return 'Name is required';
+  }
+  if (!Number.isFinite(input.balance) || input.balance < 0) {
+    return 'Balance must be a non-negative number';
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(input.balance_date) || isNaN(Date.parse(input.balance_date))) {
+    return 'Invalid date format (use YYYY-MM-DD)';
+  }
+  if (!Number.isFinite(input.interest_rate) || input.interest_rate < 0 || input.interest_rate > 100) {
+    return 'Interest rate must be between 0 and 100';
+  }
+  if (input.term_months != null && (!Number.isInteger(input.term_months) || input.term_months <= 0)) {
+    return 'Remaining term must be a whole number of months';
+  }
+  if (input.credit_limit != null && (!Number.isFinite(input.credit_limit) || input.credit_limit < input.balance)) {
+    return 'Credit limit must be at least the balance';
+  }
+  return null;
+}
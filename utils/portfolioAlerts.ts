@@ -0,0 +1,264 @@
+/**
+ * Portfolio Alert Utilities
+ *
+ * Alerts on a whole portfolio rather than one holding: its total value
+ * crossing a level, a daily drawdown, an asset type's weight leaving its
+ * band and a single holding growing past a concentration limit. Validates
+ * and describes the rules for the alert wizard and evaluates them against
+ * the portfolio's holdings valued in the preferred currency.
+ */
+
+import type {
+  AllocationTargets,
+  PortfolioAlertRule,
+  PortfolioAlertType,
+  PortfolioSnapshot,
+} from '../services/offlineStorage';
+import type { NotificationType } from '../services/notifications';
+import { convertAmount, type FxContext } from './currency';
+import { DEFAULT_DRIFT_BAND, type RebalanceHolding } from './rebalancing';
+import type { RuleField } from './alertConditions';
+
+export const PORTFOLIO_ALERT_TYPES: PortfolioAlertType[] = [
+  'portfolio_value',
+  'portfolio_drawdown',
+  'allocation_drift',
+  'concentration',
+];
+
+export const PORTFOLIO_ALERT_LABELS: Record<PortfolioAlertType, string> = {
+  portfolio_value: 'Portfolio Value',
+  portfolio_drawdown: 'Daily Drawdown',
+  allocation_drift: 'Allocation Drift',
+  concentration: 'Concentration',
+};
+
+/** Largest single holding, in percent, a new concentration alert allows */
+export const DEFAULT_CONCENTRATION_LIMIT = 25;
+
+export const PORTFOLIO_RULE_FIELDS: Record<PortfolioAlertType, RuleField[]> = {
+  portfolio_value: [{ key: 'value', label: 'Value' }],
+  portfolio_drawdown: [{ key: 'percent', label: 'Fall (%)' }],
+  allocation_drift: [
+    { key: 'target_weight', label: 'Target (%)' },
+    { key: 'band', label: 'Band (± pts)' },
+  ],
+  concentration: [{ key: 'max_weight', label: 'Limit (%)' }],
+};
+
+/** A portfolio at the time an alert is checked */
+export interface PortfolioAlertState {
+  holdings: RebalanceHolding[];
+  /** Total value at the previous close, e.g. the last daily snapshot */
+  previousValue?: number | null;
+}
+
+export function isPortfolioAlertType(alertType: string): alertType is PortfolioAlertType {
+  return (PORTFOLIO_ALERT_TYPES as string[]).includes(alertType);
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+function round(value: number, digits: number = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Weight of each asset type in percent of the portfolio
+ */
+export function getTypeWeights(holdings: RebalanceHolding[]): Record<string, number> {
+  const total = sum(holdings.map((holding) => holding.value));
+  const weights: Record<string, number> = {};
+  if (total <= 0) return weights;
+  holdings.forEach((holding) => {
+    weights[holding.asset_type] = (weights[holding.asset_type] ?? 0) + (holding.value / total) * 100;
+  });
+  return weights;
+}
+
+/**
+ * The holding with the largest weight, or null for an empty portfolio
+ */
+export function getLargestHolding(holdings: RebalanceHolding[]): { id: string; weight: number } | null {
+  const total = sum(holdings.map((holding) => holding.value));
+  if (total <= 0) return null;
+  const largest = holdings.reduce((top, holding) => (holding.value > top.value ? holding : top));
+  return { id: largest.id, weight: (largest.value / total) * 100 };
+}
+
+/**
+ * Target and band a drift alert on an asset type starts from: the
+ * portfolio's allocation target when it has one, else the current weight
+ */
+export function getDriftDefaults(
+  assetType: string,
+  holdings: RebalanceHolding[],
+  allocation?: AllocationTargets
+): { target_weight: number; band: number } {
+  const target = allocation?.targets.find((t) => t.scope === 'asset_type' && t.key === assetType);
+  return {
+    target_weight: target ? target.weight : round(getTypeWeights(holdings)[assetType] ?? 0, 1),
+    band: target?.drift_band ?? allocation?.drift_band ?? DEFAULT_DRIFT_BAND,
+  };
+}
+
+/**
+ * A rule of the given kind with common defaults for the portfolio
+ */
+export function createPortfolioRule(
+  kind: PortfolioAlertType,
+  holdings: RebalanceHolding[] = [],
+  allocation?: AllocationTargets
+): PortfolioAlertRule {
+  switch (kind) {
+    case 'portfolio_value':
+      return { kind, direction: 'above', value: round(sum(holdings.map((holding) => holding.value))) };
+    case 'portfolio_drawdown':
+      return { kind, percent: 3 };
+    case 'allocation_drift': {
+      const types = Object.entries(getTypeWeights(holdings)).sort((a, b) => b[1] - a[1]);
+      const assetType = types[0]?.[0] ?? 'stock';
+      return { kind, asset_type: assetType, ...getDriftDefaults(assetType, holdings, allocation) };
+    }
+    case 'concentration':
+      return { kind, max_weight: DEFAULT_CONCENTRATION_LIMIT };
+  }
+}
+
+function isPercent(value: number): boolean {
+  return Number.isFinite(value) && value > 0 && value < 100;
+}
+
+/**
+ * Validates a portfolio rule
+ * Returns an error message, or null when the rule is valid
+ */
+export function validatePortfolioRule(rule: PortfolioAlertRule): string | null {
+  switch (rule.kind) {
+    case 'portfolio_value':
+      return Number.isFinite(rule.value) && rule.value > 0 ? null : 'Portfolio value must be greater than 0';
+    case 'portfolio_drawdown':
+      return isPercent(rule.percent) ? null : 'Drawdown must be between 0 and 100%';
+    case 'allocation_drift':
+      if (!rule.asset_type) return 'Choose an asset type';
+      if (!Number.isFinite(rule.target_weight) || rule.target_weight < 0 || rule.target_weight > 100) {
+        return 'Target weight must be between 0 and 100%';
+      }
+      return isPercent(rule.band) ? null : 'Band must be between 0 and 100 points';
+    case 'concentration':
+      return isPercent(rule.max_weight) ? null : 'Concentration limit must be between 0 and 100%';
+    default:
+      return 'Unknown rule';
+  }
+}
+
+/**
+ * The bare number saved alongside a portfolio rule
+ */
+export function getPortfolioRuleValue(rule: PortfolioAlertRule): number {
+  switch (rule.kind) {
+    case 'portfolio_value':
+      return rule.value;
+    case 'portfolio_drawdown':
+      return rule.percent;
+    case 'allocation_drift':
+      return rule.band;
+    case 'concentration':
+      return rule.max_weight;
+  }
+}
+
+/**
+ * Describes a rule; formatMoney formats portfolio values in the preferred currency
+ */
+export function describePortfolioRule(
+  rule: PortfolioAlertRule,
+  formatMoney: (amount: number) => string = (amount) => amount.toFixed(2),
+  typeLabel: (assetType: string) => string = (assetType) => assetType
+): string {
+  switch (rule.kind) {
+    case 'portfolio_value':
+      return `Value crosses ${rule.direction} ${formatMoney(rule.value)}`;
+    case 'portfolio_drawdown':
+      return `Falls ${rule.percent}% in a day`;
+    case 'allocation_drift':
+      return `${typeLabel(rule.asset_type)} outside ${rule.target_weight}% ± ${rule.band} pts`;
+    case 'concentration':
+      return `A holding goes over ${rule.max_weight}%`;
+  }
+}
+
+/**
+ * Level a rule watches, as it stands now: the value, the daily fall in
+ * percent, the type's weight or the largest holding's weight. Null when
+ * it cannot be measured.
+ */
+export function measurePortfolioRule(rule: PortfolioAlertRule, state: PortfolioAlertState): number | null {
+  const value = sum(state.holdings.map((holding) => holding.value));
+  switch (rule.kind) {
+    case 'portfolio_value':
+      return value;
+    case 'portfolio_drawdown':
+      if (!state.previousValue || state.previousValue <= 0) return null;
+      return ((state.previousValue - value) / state.previousValue) * 100;
+    case 'allocation_drift':
+      return value > 0 ? getTypeWeights(state.holdings)[rule.asset_type] ?? 0 : null;
+    case 'concentration':
+      return getLargestHolding(state.holdings)?.weight ?? null;
+  }
+}
+
+/**
+ * Whether a rule holds; null when the portfolio cannot be measured.
+ * Value alerts fire when the value crossed the level since the previous close.
+ */
+export function evaluatePortfolioRule(rule: PortfolioAlertRule, state: PortfolioAlertState): boolean | null {
+  const level = measurePortfolioRule(rule, state);
+  if (level === null) return null;
+
+  switch (rule.kind) {
+    case 'portfolio_value': {
+      const before = state.previousValue;
+      if (before === null || before === undefined) return null;
+      return rule.direction === 'above'
+        ? before < rule.value && level >= rule.value
+        : before > rule.value && level <= rule.value;
+    }
+    case 'portfolio_drawdown':
+      return level >= rule.percent;
+    case 'allocation_drift':
+      return Math.abs(level - rule.target_weight) > rule.band;
+    case 'concentration':
+      return level > rule.max_weight;
+  }
+}
+
+/**
+ * Value at the previous close: the portfolio's last snapshot before today,
+ * in the reporting currency. Null without one, or without its rate.
+ */
+export function getPreviousValue(
+  snapshots: PortfolioSnapshot[],
+  portfolioId: string,
+  today: string,
+  fx: FxContext
+): number | null {
+  const previous = snapshots
+    .filter((snapshot) => snapshot.portfolio_id === portfolioId && snapshot.snapshot_date < today)
+    .reduce<PortfolioSnapshot | null>(
+      (latest, snapshot) => (!latest || snapshot.snapshot_date > latest.snapshot_date ? snapshot : latest),
+      null
+    );
+  return previous ? convertAmount(previous.total_value, previous.currency, fx.currency, fx.rates) : null;
+}
+
+/**
+ * Notification type a portfolio alert is sent with: value and drawdown
+ * alerts open the portfolio, allocation alerts open the rebalancer
+ */
+export function getPortfolioNotificationType(alertType: PortfolioAlertType): NotificationType {
+  return alertType === 'allocation_drift' || alertType === 'concentration' ? 'allocation_alert' : 'portfolio_alert';
+}
@@ -0,0 +1,176 @@
+/**
+ * Portfolio History
+ *
+ * Builds the daily value series behind the dashboard performance chart.
+ * Each portfolio's stored daily snapshots are used where they exist; missing
+ * days are rebuilt from the holdings' ledgers and price history. Today is
+ * always valued live so the chart ends at the current total.
+ */
+
+import type { PortfolioSnapshot } from '../services/offlineStorage';
+import { convertAmount, type FxContext } from './currency';
+import { isInflow } from './ledger';
+import { toDay, type HoldingSeries, type ReturnsInput } from './returns';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Days of prices read before a window, for the close carried into its first day */
+export const PRICE_LOOKBACK_DAYS = 7;
+
+/** One point of the chart series, in the reporting currency */
+export interface ValuePoint {
+  timestamp: string;
+  value: number;
+}
+
+/**
+ * Lists every day from startDate to endDate inclusive (YYYY-MM-DD)
+ */
+export function getHistoryDates(startDate: string, endDate: string): string[] {
+  const dates: string[] = [];
+  const end = new Date(toDay(endDate)).getTime();
+  for (let time = new Date(toDay(startDate)).getTime(); time <= end; time += DAY_MS) {
+    dates.push(new Date(time).toISOString().slice(0, 10));
+  }
+  return dates;
+}
+
+/**
+ * Finds the first day any holding was acquired, or null without a ledger
+ */
+export function getFirstActivityDate(input: ReturnsInput): string | null {
+  let first: string | null = null;
+  input.holdings.forEach((holding) => {
+    holding.transactions.forEach((t) => {
+      const day = toDay(t.transaction_date);
+      if (!first || day < first) first = day;
+    });
+  });
+  return first;
+}
+
+/**
+ * Values one holding on each of the given ascending days in a single pass
+ * Matches getValueOn: the latest price on or before the day, the earliest
+ * price before any data, and the current price from today on
+ */
+function sweepHoldingValues(holding: HoldingSeries, dates: string[], today: string): number[] {
+  const transactions = [...holding.transactions].sort((a, b) =>
+    toDay(a.transaction_date).localeCompare(toDay(b.transaction_date))
+  );
+  const allPoints = [
+    ...holding.prices,
+    ...holding.transactions.map((t) => ({ date: t.transaction_date, price: t.price })),
+  ];
+  // Stable sort keeps later entries last within a day, so they win
+  const points = [...allPoints].sort((a, b) => toDay(a.date).localeCompare(toDay(b.date)));
+  const earliest = [...allPoints].sort((a, b) => a.date.localeCompare(b.date))[0]?.price ?? null;
+
+  let quantity = 0;
+  let transactionIndex = 0;
+  let price: number | null = null;
+  let pointIndex = 0;
+
+  return dates.map((day) => {
+    while (transactionIndex < transactions.length && toDay(transactions[transactionIndex].transaction_date) <= day) {
+      const t = transactions[transactionIndex++];
+      quantity += isInflow(t.transaction_type) ? t.quantity : -t.quantity;
+    }
+    while (pointIndex < points.length && toDay(points[pointIndex].date) <= day) {
+      price = points[pointIndex++].price;
+    }
+
+    if (quantity <= 0) return 0;
+    const dayPrice = day >= today && holding.currentPrice ? holding.currentPrice : price ?? earliest;
+    return quantity * (dayPrice ?? 0) * (holding.fxRate ?? 1);
+  });
+}
+
+/**
+ * Rebuilds the holdings value on each of the given ascending days
+ * Uninvested cash is not included, matching the dashboard total
+ */
+export function rebuildValueHistory(input: ReturnsInput, dates: string[], now: Date = new Date()): number[] {
+  const today = toDay(now);
+  const totals = dates.map(() => 0);
+  input.holdings.forEach((holding) => {
+    sweepHoldingValues(holding, dates, today).forEach((value, index) => {
+      totals[index] += value;
+    });
+  });
+  return totals;
+}
+
+/**
+ * Produces one snapshot per day for a portfolio, preferring stored snapshots
+ * and rebuilding the days that have none
+ * Stored values are converted into fx.currency; today is always rebuilt live.
+ */
+export function fillSnapshotGaps(
+  portfolioId: string,
+  snapshots: PortfolioSnapshot[],
+  input: ReturnsInput,
+  dates: string[],
+  fx: FxContext,
+  now: Date = new Date()
+): PortfolioSnapshot[] {
+  const today = toDay(now);
+  const stored = new Map<string, PortfolioSnapshot>();
+  snapshots
+    .filter((snapshot) => snapshot.portfolio_id === portfolioId)
+    .forEach((snapshot) => stored.set(toDay(snapshot.snapshot_date), snapshot));
+
+  const rebuilt = rebuildValueHistory(input, dates, now);
+
+  return dates.map((date, index) => {
+    const snapshot = stored.get(date);
+    // A snapshot in a currency without a rate is rebuilt like a missing one
+    const converted = snapshot && date < today
+      ? convertAmount(snapshot.total_value, snapshot.currency, fx.currency, fx.rates)
+      : null;
+    const value = converted ?? rebuilt[index];
+    return { portfolio_id: portfolioId, snapshot_date: date, total_value: value, currency: fx.currency };
+  });
+}
+
+/**
+ * First day of price history needed to value a period and rebuild the days
+ * without a usable stored snapshot, less a lookback for the close carried
+ * into that day; null for ALL, whose returns value every flow since the first
+ */
+export function getPriceHistoryStart(
+  periodStart: string | null,
+  portfolioIds: string[],
+  snapshots: PortfolioSnapshot[],
+  dates: string[],
+  fx: FxContext,
+  now: Date = new Date()
+): string | null {
+  if (!periodStart) return null;
+  const today = toDay(now);
+  const stored = new Set(
+    snapshots
+      .filter((snapshot) => convertAmount(snapshot.total_value, snapshot.currency, fx.currency, fx.rates) !== null)
+      .map((snapshot) => `${snapshot.portfolio_id}|${toDay(snapshot.snapshot_date)}`)
+  );
+  const firstMissing = dates.find(
+    (date) => date >= today || portfolioIds.some((portfolioId) => !stored.has(`${portfolioId}|${date}`))
+  );
+  const start = firstMissing && firstMissing < periodStart ? firstMissing : periodStart;
+  return toDay(new Date(new Date(start).getTime() - PRICE_LOOKBACK_DAYS * DAY_MS));
+}
+
+/**
+ * Totals snapshots across portfolios into a chart series, oldest first
+ */
+export function sumSnapshots(snapshots: PortfolioSnapshot[]): ValuePoint[] {
+  const totals = new Map<string, number>();
+  snapshots.forEach((snapshot) => {
+    const day = toDay(snapshot.snapshot_date);
+    totals.set(day, (totals.get(day) ?? 0) + snapshot.total_value);
+  });
+  return Array.from(totals.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    // Midday keeps the label on the same calendar day in every time zone
+    .map(([date, value]) => ({ timestamp: `${date}T12:00:00.000Z`, value }));
+}
@@ -0,0 +1,241 @@
+/**
+ * Price Chart Utilities
+ *
+ * Turns recorded prices into what the price charts draw: a line thinned to
+ * what fits on screen without losing its highs and lows, OHLC candles with
+ * their volume over time buckets sized to the period, the highest and
+ * lowest points, and the point under the crosshair.
+ */
+
+/** A recorded price, with the volume traded since the previous one when known */
+export interface PricePoint {
+  timestamp: string;
+  price: number;
+  volume?: number | null;
+}
+
+export interface Candle {
+  /** Start of the bucket */
+  start: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  /** Null when none of the bucket's prices came with a volume */
+  volume: number | null;
+}
+
+export interface PriceExtremes {
+  min: { index: number; point: PricePoint };
+  max: { index: number; point: PricePoint };
+}
+
+/** Most candles a chart draws; beyond this they are too thin to read */
+export const MAX_CANDLES = 60;
+
+/** Most line points a chart draws */
+export const MAX_LINE_POINTS = 120;
+
+/** Points in a list sparkline */
+export const SPARKLINE_POINTS = 24;
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+const WEEK_MS = 7 * DAY_MS;
+
+/** Candle sizes to pick from, smallest first */
+const BUCKET_SIZES_MS = [
+  5 * MINUTE_MS,
+  15 * MINUTE_MS,
+  30 * MINUTE_MS,
+  HOUR_MS,
+  4 * HOUR_MS,
+  DAY_MS,
+  WEEK_MS,
+  4 * WEEK_MS,
+  13 * WEEK_MS,
+];
+
+/** Buckets start on Monday 00:00 UTC; the epoch was a Thursday */
+const BUCKET_ORIGIN_MS = 4 * DAY_MS;
+
+function sortByTime(points: PricePoint[]): PricePoint[] {
+  return [...points].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+}
+
+/**
+ * Smallest candle size that keeps the points' time span within the most
+ * candles a chart can draw
+ */
+export function getBucketSize(points: PricePoint[], maxCandles: number = MAX_CANDLES): number {
+  if (points.length < 2) return BUCKET_SIZES_MS[0];
+  const times = points.map((point) => new Date(point.timestamp).getTime());
+  const span = Math.max(...times) - Math.min(...times);
+  return (
+    BUCKET_SIZES_MS.find((size) => Math.ceil(span / size) + 1 <= maxCandles) ??
+    BUCKET_SIZES_MS[BUCKET_SIZES_MS.length - 1]
+  );
+}
+
+/**
+ * OHLC candles over time buckets, oldest first; buckets without prices are skipped
+ */
+export function buildCandles(points: PricePoint[], bucketMs: number = getBucketSize(points)): Candle[] {
+  const candles = new Map<number, Candle>();
+  sortByTime(points).forEach((point) => {
+    const time = new Date(point.timestamp).getTime();
+    const start = Math.floor((time - BUCKET_ORIGIN_MS) / bucketMs) * bucketMs + BUCKET_ORIGIN_MS;
+    const volume = typeof point.volume === 'number' ? point.volume : null;
+    const candle = candles.get(start);
+    if (!candle) {
+      candles.set(start, {
+        start: new Date(start).toISOString(),
+        open: point.price,
+        high: point.price,
+        low: point.price,
+        close: point.price,
+        volume,
+      });
+      return;
+    }
+    candle.high = Math.max(candle.high, point.price);
+    candle.low = Math.min(candle.low, point.price);
+    candle.close = point.price;
+    if (volume !== null) candle.volume = (candle.volume ?? 0) + volume;
+  });
+  return Array.from(candles.values());
+}
+
+/**
+ * Thins a line to at most `maxPoints` by keeping the lowest and highest
+ * point of each stretch, in time order, so peaks and troughs survive.
+ * The first and last points are always kept.
+ */
+export function downsampleLine(points: PricePoint[], maxPoints: number = MAX_LINE_POINTS): PricePoint[] {
+  const sorted = sortByTime(points);
+  if (sorted.length <= maxPoints || maxPoints < 4) return sorted;
+
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+  const middle = sorted.slice(1, -1);
+  const buckets = Math.floor((maxPoints - 2) / 2);
+  const result: PricePoint[] = [first];
+
+  for (let bucket = 0; bucket < buckets; bucket++) {
+    const slice = middle.slice(
+      Math.floor((bucket * middle.length) / buckets),
+      Math.floor(((bucket + 1) * middle.length) / buckets)
+    );
+    if (slice.length === 0) continue;
+    let lowIndex = 0;
+    let highIndex = 0;
+    slice.forEach((point, index) => {
+      if (point.price < slice[lowIndex].price) lowIndex = index;
+      if (point.price > slice[highIndex].price) highIndex = index;
+    });
+    [lowIndex, highIndex]
+      .filter((index, position, list) => list.indexOf(index) === position)
+      .sort((a, b) => a - b)
+      .forEach((index) => result.push(slice[index]));
+  }
+
+  result.push(last);
+  return result;
+}
+
+/**
+ * The lowest and highest points; the earliest wins a tie
+ */
+export function findExtremes(points: PricePoint[]): PriceExtremes | null {
+  if (points.length === 0) return null;
+  let min = 0;
+  let max = 0;
+  points.forEach((point, index) => {
+    if (point.price < points[min].price) min = index;
+    if (point.price > points[max].price) max = index;
+  });
+  return {
+    min: { index: min, point: points[min] },
+    max: { index: max, point: points[max] },
+  };
+}
+
+/**
+ * Index of the point nearest a position across a chart of `count` evenly spaced points
+ */
+export function getNearestIndex(x: number, width: number, count: number): number {
+  if (count <= 1 || width <= 0) return 0;
+  const index = Math.round((x / width) * (count - 1));
+  return Math.min(count - 1, Math.max(0, index));
+}
+
+/**
+ * Index of the candle under a position across a chart of `count` equal slots
+ */
+export function getCandleIndex(x: number, width: number, count: number): number {
+  if (count <= 1 || width <= 0) return 0;
+  return Math.min(count - 1, Math.max(0, Math.floor((x / width) * count)));
+}
+
+/**
+ * Vertical position of a value in a chart of the given height, highest at the top
+ */
+export function toChartY(value: number, min: number, max: number, height: number): number {
+  if (max === min) return height / 2;
+  return height - ((value - min) / (max - min)) * height;
+}
+
+/**
+ * SVG path through values spread evenly across a box
+ */
+export function buildSparklinePath(values: number[], width: number, height: number): string {
+  if (values.length === 0) return '';
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const step = values.length > 1 ? width / (values.length - 1) : 0;
+  return values
+    .map((value, index) => {
+      const x = values.length > 1 ? index * step : width / 2;
+      const y = toChartY(value, min, max, height);
+      return `${index === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+}
+
+/**
+ * Recent prices of each asset, thinned for a list sparkline
+ */
+export function getSparklines(
+  rows: { asset_id: string; price: number; timestamp: string }[],
+  maxPoints: number = SPARKLINE_POINTS
+): Record<string, number[]> {
+  const byAsset = new Map<string, PricePoint[]>();
+  rows.forEach((row) => {
+    const points = byAsset.get(row.asset_id) ?? [];
+    points.push({ timestamp: row.timestamp, price: row.price });
+    byAsset.set(row.asset_id, points);
+  });
+  const sparklines: Record<string, number[]> = {};
+  byAsset.forEach((points, assetId) => {
+    sparklines[assetId] = downsampleLine(points, maxPoints).map((point) => point.price);
+  });
+  return sparklines;
+}
+
+/**
+ * Label for a point in time, finer for shorter periods
+ */
+export function formatChartTime(timestamp: string, period: string): string {
+  const date = new Date(timestamp);
+  if (period === '1D') {
+    return date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+  }
+  if (period === '1W') {
+    return date.toLocaleString('en-US', { weekday: 'short', hour: 'numeric' });
+  }
+  if (period === '1Y' || period === 'ALL') {
+    return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+  }
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
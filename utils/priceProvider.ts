@@ -0,0 +1,180 @@
+/**
+ * Price Providers
+ *
+ * Where live prices come from. Realtime broadcast is the primary provider;
+ * while its channels are down, prices are polled in batches instead so
+ * they keep updating. Each asset's latest price is kept with the time it
+ * was quoted, so screens can show how old a price is and flag stale ones.
+ */
+
+import type { PriceListener, PriceTick } from './alertEngine';
+import type { RealtimeHealth } from './realtimeSubscriptions';
+
+export type PriceSource = 'realtime' | 'polling';
+
+export interface PriceProvider {
+  source: PriceSource;
+  /** Sends prices to the listener until the returned function is called */
+  start(listener: PriceListener): () => void;
+}
+
+/** A price and when it was quoted */
+export interface PriceQuote {
+  price: number;
+  as_of: string;
+  source: PriceSource;
+}
+
+export const DEFAULT_POLL_INTERVAL_MS = 60 * 1000;
+
+/** How long a first join may go unanswered before prices are polled instead */
+export const CONNECT_FALLBACK_AFTER_MS = 15 * 1000;
+
+/** Crypto trades around the clock, so its prices go stale quickly */
+const CRYPTO_STALE_AFTER_MS = 30 * 60 * 1000;
+
+/** Other listed prices only move on trading days; weekends are not counted */
+const MARKET_STALE_AFTER_MS = 24 * 60 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PollingProviderOptions {
+  /** Latest prices of everything being tracked, fetched in one batch */
+  fetchPrices: () => Promise<PriceTick[]>;
+  intervalMs?: number;
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * A provider that fetches prices right away and then on an interval,
+ * skipping a poll while the previous one is still running
+ */
+export function createPollingProvider(options: PollingProviderOptions): PriceProvider {
+  const { fetchPrices, intervalMs = DEFAULT_POLL_INTERVAL_MS, onError } = options;
+
+  return {
+    source: 'polling',
+    start(listener) {
+      let stopped = false;
+      let polling = false;
+
+      const poll = async () => {
+        if (stopped || polling) return;
+        polling = true;
+        try {
+          const ticks = await fetchPrices();
+          if (!stopped) ticks.forEach(listener);
+        } catch (error) {
+          onError?.(error);
+        } finally {
+          polling = false;
+        }
+      };
+
+      poll();
+      const timer = setInterval(poll, intervalMs);
+      return () => {
+        stopped = true;
+        clearInterval(timer);
+      };
+    },
+  };
+}
+
+/**
+ * Whether to poll for prices: while realtime channels are failing to
+ * join or rejoin, or a first join has gone unanswered for too long; not
+ * while offline or paused, when polling would fail too
+ */
+export function needsFallback(health: RealtimeHealth, connectStalled: boolean = false): boolean {
+  return health === 'reconnecting' || (health === 'connecting' && connectStalled);
+}
+
+/**
+ * Records a price for an asset unless a newer one is already known
+ */
+export function applyQuote(
+  quotes: Record<string, PriceQuote>,
+  assetId: string,
+  quote: PriceQuote
+): Record<string, PriceQuote> {
+  const existing = quotes[assetId];
+  if (existing && new Date(existing.as_of).getTime() > new Date(quote.as_of).getTime()) return quotes;
+  return { ...quotes, [assetId]: quote };
+}
+
+/**
+ * Each asset's latest price from timestamped price rows
+ */
+export function getLatestQuotes(
+  rows: { asset_id: string; price: number; timestamp: string }[],
+  source: PriceSource = 'polling'
+): Record<string, PriceQuote> {
+  return rows.reduce<Record<string, PriceQuote>>(
+    (quotes, row) => applyQuote(quotes, row.asset_id, { price: row.price, as_of: row.timestamp, source }),
+    {}
+  );
+}
+
+function isWeekend(time: number): boolean {
+  const day = new Date(time).getUTCDay();
+  return day === 0 || day === 6;
+}
+
+/**
+ * Time between two instants, leaving out Saturdays and Sundays (UTC)
+ */
+export function getTradingTimeBetween(from: string, to: Date): number {
+  const start = new Date(from).getTime();
+  const end = to.getTime();
+  let elapsed = 0;
+  let cursor = start;
+  while (cursor < end) {
+    const nextDay = (Math.floor(cursor / DAY_MS) + 1) * DAY_MS;
+    const segmentEnd = Math.min(nextDay, end);
+    if (!isWeekend(cursor)) elapsed += segmentEnd - cursor;
+    cursor = segmentEnd;
+  }
+  return elapsed;
+}
+
+/**
+ * Whether a quote is too old to trust, given how the asset trades
+ */
+export function isQuoteStale(quote: PriceQuote, assetType: string, now: Date = new Date()): boolean {
+  if (assetType === 'crypto') {
+    return now.getTime() - new Date(quote.as_of).getTime() > CRYPTO_STALE_AFTER_MS;
+  }
+  return getTradingTimeBetween(quote.as_of, now) > MARKET_STALE_AFTER_MS;
+}
+
+/**
+ * "as of" label for a quote: the time today, else the date
+ */
+export function formatPriceAsOf(asOf: string, now: Date = new Date()): string {
+  const date = new Date(asOf);
+  if (date.toDateString() === now.toDateString()) {
+    return `as of ${date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}`;
+  }
+  return `as of ${date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`;
+}
+
+/**
+ * How current a set of holdings' prices are: the oldest quote among them
+ * and how many are stale. Holdings without a quote are left out.
+ */
+export function summarizeQuotes(
+  assets: { id: string; asset_type: string }[],
+  quotes: Record<string, PriceQuote>,
+  now: Date = new Date()
+): { asOf: string | null; staleCount: number } {
+  let asOf: string | null = null;
+  let staleCount = 0;
+  assets.forEach((asset) => {
+    const quote = quotes[asset.id];
+    if (!quote) return;
+    if (asOf === null || new Date(quote.as_of).getTime() < new Date(asOf).getTime()) asOf = quote.as_of;
+    if (isQuoteStale(quote, asset.asset_type, now)) staleCount += 1;
+  });
+  return { asOf, staleCount };
+}
@@ -0,0 +1,250 @@
+/**
+ * Real Estate Utilities
+ *
+ * Values property holdings net of their mortgage: the outstanding balance
+ * from the loan's rate and remaining term, the amortization schedule, the
+ * equity that counts towards net worth, and rental metrics (cap rate and
+ * net yield on equity) from the monthly rent and running costs.
+ */
+
+import { addMonths, type IncomeAsset } from './income';
+
+/** Mortgage terms as entered, for the whole property */
+export interface MortgageTerms {
+  /** Outstanding balance on `balanceDate` */
+  balance: number;
+  /** YYYY-MM-DD */
+  balanceDate: string;
+  /** Annual interest rate in percent */
+  annualRate: number;
+  /** Monthly payments left after `balanceDate`, or null for an interest-only loan */
+  remainingPayments: number | null;
+}
+
+/** A monthly mortgage payment split into interest and principal */
+export interface AmortizationPayment {
+  date: string;
+  payment: number;
+  interest: number;
+  principal: number;
+  /** Balance left after the payment */
+  balance: number;
+}
+
+/** Mortgage payments totalled per calendar year, across loans */
+export interface AmortizationYear {
+  year: number;
+  interest: number;
+  principal: number;
+  /** Balance left at the end of the year */
+  balance: number;
+}
+
+export interface RealEstateValuation {
+  propertyValue: number;
+  /** Loans secured on the property */
+  loans: MortgageTerms[];
+  mortgageBalance: number;
+  /** Value less the outstanding mortgage, counted towards net worth */
+  equity: number;
+  monthlyPayment: number;
+  /** Date of the last mortgage payment, null while any loan is interest-only */
+  payoffDate: string | null;
+  annualRent: number;
+  annualExpenses: number;
+  /** Rent less running costs, before mortgage payments */
+  netOperatingIncome: number;
+  annualDebtService: number;
+  /** Net operating income over the property value, in percent */
+  capRate: number | null;
+  /** Cash left after running costs and mortgage payments over the equity, in percent */
+  netYield: number | null;
+  /** Mortgage balance over the property value, in percent */
+  loanToValue: number | null;
+}
+
+type PropertyAsset = Pick<IncomeAsset, 'quantity' | 'purchase_price' | 'purchase_date' | 'metadata'> & {
+  asset_type: string;
+  current_price?: number;
+};
+
+export function isRealEstateType(assetType: string): boolean {
+  return assetType === 'real_estate';
+}
+
+function readAmount(value: unknown): number {
+  const amount = Number(value);
+  return Number.isFinite(amount) && amount > 0 ? amount : 0;
+}
+
+/**
+ * Reads the mortgage on a property from its metadata
+ * Returns null when no balance is stored. The balance is taken as of
+ * mortgage_balance_date, else the purchase date.
+ */
+export function getMortgageTerms(asset: Pick<PropertyAsset, 'purchase_date' | 'metadata'>): MortgageTerms | null {
+  const balance = readAmount(asset.metadata?.mortgage_balance);
+  if (balance === 0) return null;
+
+  const balanceDate = asset.metadata?.mortgage_balance_date;
+  const years = readAmount(asset.metadata?.mortgage_term_years);
+  return {
+    balance,
+    balanceDate:
+      typeof balanceDate === 'string' && /^\d{4}-\d{2}-\d{2}/.test(balanceDate)
+        ? balanceDate.slice(0, 10)
+        : (asset.purchase_date || '').slice(0, 10),
+    annualRate: readAmount(asset.metadata?.mortgage_rate),
+    remainingPayments: years > 0 ? Math.round(years * 12) : null,
+  };
+}
+
+/**
+ * Level monthly payment that repays a balance over a number of months
+ * Without a number of months the loan is interest-only.
+ */
+export function calculateMonthlyPayment(balance: number, annualRate: number, months: number | null): number {
+  const monthlyRate = annualRate / 100 / 12;
+  if (months === null) return balance * monthlyRate;
+  if (months <= 0) return balance;
+  if (monthlyRate === 0) return balance / months;
+  return (balance * monthlyRate) / (1 - Math.pow(1 + monthlyRate, -months));
+}
+
+/** Monthly payments due on or before a date, counted from the balance date */
+function countPaymentsMade(terms: MortgageTerms, date: string): number {
+  let made = 0;
+  const limit = terms.remainingPayments ?? Infinity;
+  while (made < limit && addMonths(terms.balanceDate, made + 1) <= date.slice(0, 10)) {
+    made++;
+  }
+  return made;
+}
+
+/**
+ * Outstanding balance on a date, after the payments due by then
+ */
+export function getRemainingBalance(terms: MortgageTerms, date: string): number {
+  if (terms.remainingPayments === null) return terms.balance;
+
+  const made = countPaymentsMade(terms, date);
+  if (made >= terms.remainingPayments) return 0;
+
+  const monthlyRate = terms.annualRate / 100 / 12;
+  const payment = calculateMonthlyPayment(terms.balance, terms.annualRate, terms.remainingPayments);
+  if (monthlyRate === 0) return Math.max(terms.balance - payment * made, 0);
+
+  const growth = Math.pow(1 + monthlyRate, made);
+  return Math.max(terms.balance * growth - (payment * (growth - 1)) / monthlyRate, 0);
+}
+
+/**
+ * Payments due after `from` until the loan is repaid, oldest first
+ * Interest-only loans have no schedule.
+ */
+export function buildAmortizationSchedule(terms: MortgageTerms, from: string): AmortizationPayment[] {
+  if (terms.remainingPayments === null) return [];
+
+  const monthlyRate = terms.annualRate / 100 / 12;
+  const payment = calculateMonthlyPayment(terms.balance, terms.annualRate, terms.remainingPayments);
+  const rows: AmortizationPayment[] = [];
+  let balance = terms.balance;
+
+  for (let k = 1; k <= terms.remainingPayments; k++) {
+    const interest = balance * monthlyRate;
+    // The last payment clears whatever rounding has left over
+    const principal = k === terms.remainingPayments ? balance : Math.min(payment - interest, balance);
+    balance -= principal;
+
+    const date = addMonths(terms.balanceDate, k);
+    if (date > from.slice(0, 10)) {
+      rows.push({ date, payment: interest + principal, interest, principal, balance });
+    }
+  }
+  return rows;
+}
+
+/**
+ * Totals scheduled payments per calendar year across one or more loans
+ * Each year's balance is what all the loans have left at its end.
+ */
+export function summarizeAmortization(...schedules: AmortizationPayment[][]): AmortizationYear[] {
+  const years = Array.from(
+    new Set(schedules.flatMap((schedule) => schedule.map((row) => Number(row.date.slice(0, 4)))))
+  ).sort((a, b) => a - b);
+
+  return years.map((year) => {
+    const totals: AmortizationYear = { year, interest: 0, principal: 0, balance: 0 };
+    schedules.forEach((schedule) => {
+      if (schedule.length === 0) return;
+      const rows = schedule.filter((row) => Number(row.date.slice(0, 4)) === year);
+      rows.forEach((row) => {
+        totals.interest += row.interest;
+        totals.principal += row.principal;
+      });
+      // Loans without payments this year still owe their balance
+      const paid = schedule.filter((row) => Number(row.date.slice(0, 4)) <= year);
+      totals.balance += paid.length > 0 ? paid[paid.length - 1].balance : schedule[0].balance + schedule[0].principal;
+    });
+    return totals;
+  });
+}
+
+/**
+ * Values a property on a date net of the loans secured on it, with its
+ * rental metrics. Loans default to the mortgage stored on the asset. Debt
+ * service is the next twelve months of loan payments.
+ */
+export function valueRealEstate(
+  asset: PropertyAsset,
+  asOf: string,
+  loans: MortgageTerms[] = [getMortgageTerms(asset)].filter((terms): terms is MortgageTerms => terms !== null)
+): RealEstateValuation {
+  const propertyValue = asset.quantity * (asset.current_price ?? asset.purchase_price);
+  let mortgageBalance = 0;
+  let monthlyPayment = 0;
+  let annualDebtService = 0;
+  let payoffDate: string | null = null;
+  let interestOnly = false;
+
+  loans.forEach((loan) => {
+    const balance = getRemainingBalance(loan, asOf);
+    if (balance <= 0) return;
+    mortgageBalance += balance;
+
+    if (loan.remainingPayments === null) {
+      const payment = calculateMonthlyPayment(loan.balance, loan.annualRate, null);
+      interestOnly = true;
+      monthlyPayment += payment;
+      annualDebtService += payment * 12;
+    } else {
+      const schedule = buildAmortizationSchedule(loan, asOf);
+      monthlyPayment += schedule.length > 0 ? schedule[0].payment : 0;
+      annualDebtService += schedule.slice(0, 12).reduce((sum, row) => sum + row.payment, 0);
+      const lastPayment = schedule.length > 0 ? schedule[schedule.length - 1].date : null;
+      if (lastPayment && (!payoffDate || lastPayment > payoffDate)) payoffDate = lastPayment;
+    }
+  });
+  const equity = propertyValue - mortgageBalance;
+
+  const annualRent = readAmount(asset.metadata?.monthly_rent) * 12;
+  const annualExpenses = readAmount(asset.metadata?.monthly_expenses) * 12;
+  const netOperatingIncome = annualRent - annualExpenses;
+  const hasRent = annualRent > 0;
+
+  return {
+    propertyValue,
+    loans,
+    mortgageBalance,
+    equity,
+    monthlyPayment,
+    payoffDate: interestOnly ? null : payoffDate,
+    annualRent,
+    annualExpenses,
+    netOperatingIncome,
+    annualDebtService,
+    capRate: hasRent && propertyValue > 0 ? (netOperatingIncome / propertyValue) * 100 : null,
+    netYield: hasRent && equity > 0 ? ((netOperatingIncome - annualDebtService) / equity) * 100 : null,
+    loanToValue: propertyValue > 0 && loans.length > 0 ? (mortgageBalance / propertyValue) * 100 : null,
+  };
+}
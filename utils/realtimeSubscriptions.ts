@@ -0,0 +1,148 @@
+/**
+ * Realtime Subscription Utilities
+ *
+ * Which price channels to join and how to keep them joined. Prices are
+ * broadcast on one topic per listing, so the app joins only the symbols it
+ * holds (in the selected portfolio, when one is given) or watches. Dropped
+ * channels are rejoined with exponential backoff, and the connection's
+ * health and latency are summarized for the status bar.
+ */
+
+import type { SymbolListing } from '../services/offlineStorage';
+import { getListingKey } from './symbolSearch';
+
+/** A listing to price; its asset type lets it be polled while realtime is down */
+export type ListingRef = Pick<SymbolListing, 'symbol' | 'exchange'> & Partial<Pick<SymbolListing, 'asset_type'>>;
+
+/**
+ * - live: every channel joined
+ * - connecting: joining for the first time
+ * - reconnecting: a channel dropped and is waiting to rejoin
+ * - offline: no network
+ * - paused: the app is in the background or updates are disabled
+ */
+export type RealtimeHealth = 'live' | 'connecting' | 'reconnecting' | 'offline' | 'paused';
+
+export interface BackoffOptions {
+  baseMs: number;
+  maxMs: number;
+}
+
+export const DEFAULT_BACKOFF: BackoffOptions = { baseMs: 1000, maxMs: 30000 };
+
+/** Weight of the newest sample in the latency average */
+const LATENCY_SMOOTHING = 0.2;
+
+/** Held asset fields needed to find its listing */
+export interface SubscribedAsset {
+  id: string;
+  portfolio_id: string;
+  symbol?: string;
+  metadata?: Record<string, any>;
+}
+
+export function getPriceTopic(listing: ListingRef): string {
+  return `price-updates:${listing.symbol.toUpperCase()}${listing.exchange ? `:${listing.exchange}` : ''}`;
+}
+
+function getAssetListing(asset: SubscribedAsset): ListingRef | null {
+  if (!asset.symbol) return null;
+  const exchange = typeof asset.metadata?.exchange === 'string' ? asset.metadata.exchange : undefined;
+  return { symbol: asset.symbol.toUpperCase(), exchange };
+}
+
+/**
+ * Listings to subscribe to, once each and in a stable order: the symbols of
+ * the held assets (only the portfolio's when one is given) and the watched ones
+ */
+export function getSubscriptionListings(
+  assets: SubscribedAsset[],
+  portfolioId?: string,
+  watch: ListingRef[] = []
+): ListingRef[] {
+  const listings = new Map<string, ListingRef>();
+  assets
+    .filter((asset) => !portfolioId || asset.portfolio_id === portfolioId)
+    .forEach((asset) => {
+      const listing = getAssetListing(asset);
+      if (listing) listings.set(getListingKey(listing), listing);
+    });
+  watch.forEach((listing) => {
+    const ref = { symbol: listing.symbol.toUpperCase(), exchange: listing.exchange };
+    listings.set(getListingKey(ref), ref);
+  });
+  return Array.from(listings.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([, listing]) => listing);
+}
+
+/**
+ * Held assets a symbol price applies to; a price without an exchange
+ * applies on every exchange
+ */
+export function getAssetIdsForPrice(
+  assets: SubscribedAsset[],
+  update: { symbol: string; exchange?: string }
+): string[] {
+  return assets
+    .filter((asset) => {
+      const listing = getAssetListing(asset);
+      return (
+        !!listing &&
+        listing.symbol === update.symbol.toUpperCase() &&
+        (!update.exchange || update.exchange === listing.exchange)
+      );
+    })
+    .map((asset) => asset.id);
+}
+
+/**
+ * Topics to join and to leave to go from the current subscriptions to the wanted ones
+ */
+export function diffTopics(current: string[], wanted: string[]): { join: string[]; leave: string[] } {
+  const currentSet = new Set(current);
+  const wantedSet = new Set(wanted);
+  return {
+    join: wanted.filter((topic) => !currentSet.has(topic)),
+    leave: current.filter((topic) => !wantedSet.has(topic)),
+  };
+}
+
+/**
+ * Delay before rejoin attempt `attempt` (0 for the first): doubling from
+ * the base up to the cap, with jitter so clients do not retry together
+ */
+export function getReconnectDelay(
+  attempt: number,
+  options: BackoffOptions = DEFAULT_BACKOFF,
+  random: () => number = Math.random
+): number {
+  const ceiling = Math.min(options.maxMs, options.baseMs * 2 ** Math.max(0, attempt));
+  return Math.round(ceiling / 2 + (ceiling / 2) * random());
+}
+
+/**
+ * Folds a new latency sample into the running average
+ */
+export function updateLatency(average: number | null, sampleMs: number): number | null {
+  if (!Number.isFinite(sampleMs) || sampleMs < 0) return average;
+  return average === null ? sampleMs : average + LATENCY_SMOOTHING * (sampleMs - average);
+}
+
+/**
+ * Health of the connection from its channels and the app's state
+ */
+export function getRealtimeHealth(state: {
+  enabled: boolean;
+  isOnline: boolean;
+  isActive: boolean;
+  wanted: number;
+  joined: number;
+  /** Whether any channel dropped since it was last joined */
+  hasDropped: boolean;
+}): RealtimeHealth {
+  if (!state.enabled || !state.isActive) return 'paused';
+  if (!state.isOnline) return 'offline';
+  if (state.joined >= state.wanted) return 'live';
+  return state.hasDropped ? 'reconnecting' : 'connecting';
+}
@@ -0,0 +1,286 @@
+/**
+ * Rebalancing Utilities
+ *
+ * Compares a portfolio's holdings with its target allocation, measures how
+ * far each asset type and asset has drifted from its target, and plans the
+ * trades that bring it back. Asset targets are carved out of their type's
+ * target; the rest of the type's weight is shared by its other assets in
+ * proportion to their value. Assets without a target of any kind are
+ * planned at 0%.
+ */
+
+import type { AllocationTarget, AllocationTargets } from '../services/offlineStorage';
+import { DEFAULT_CURRENCY, getFxRate, type FxContext } from './currency';
+
+export type RebalanceMode = 'full' | 'contributions_only';
+
+/** Tolerated drift in percentage points when none is set */
+export const DEFAULT_DRIFT_BAND = 5;
+
+/** Trades smaller than this (in the reporting currency) are not listed */
+const MIN_TRADE_VALUE = 0.01;
+
+/** A holding valued in the reporting currency */
+export interface RebalanceHolding {
+  id: string;
+  asset_type: string;
+  value: number;
+  /** Price per unit in the reporting currency */
+  price: number;
+}
+
+/** Asset fields needed to value a holding */
+export interface RebalanceAsset {
+  id: string;
+  asset_type: string;
+  quantity: number;
+  purchase_price: number;
+  current_price?: number;
+  currency?: string;
+}
+
+export interface DriftItem {
+  scope: AllocationTarget['scope'];
+  key: string;
+  currentWeight: number;
+  targetWeight: number;
+  /** Current minus target, in percentage points */
+  drift: number;
+  band: number;
+  outOfBand: boolean;
+}
+
+export interface RebalanceTrade {
+  asset_id: string;
+  side: 'buy' | 'sell';
+  /** Amount to trade in the reporting currency */
+  value: number;
+  quantity: number;
+}
+
+/** Matches the recommendation cards shown in InsightsScreen */
+export interface RebalanceRecommendation {
+  id: string;
+  type: 'rebalance';
+  title: string;
+  description: string;
+  priority: 'high' | 'medium' | 'low';
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+function splitTargets(targets: AllocationTarget[]) {
+  const typeTargets = new Map<string, AllocationTarget>();
+  const assetTargets = new Map<string, AllocationTarget>();
+  targets.forEach((target) => {
+    (target.scope === 'asset_type' ? typeTargets : assetTargets).set(target.key, target);
+  });
+  return { typeTargets, assetTargets };
+}
+
+/**
+ * Values assets in the reporting currency at their current price, falling
+ * back to the purchase price like the allocation chart
+ * Assets in a currency without a rate are left out
+ */
+export function toRebalanceHoldings(
+  assets: RebalanceAsset[],
+  fx: FxContext
+): RebalanceHolding[] {
+  return assets.flatMap((asset) => {
+    const rate = getFxRate(asset.currency || DEFAULT_CURRENCY, fx.currency, fx.rates);
+    if (rate === null) return [];
+    const price = (asset.current_price || asset.purchase_price) * rate;
+    return [{ id: asset.id, asset_type: asset.asset_type || 'other', value: price * asset.quantity, price }];
+  });
+}
+
+/**
+ * Resolves the target weight (percent) of every holding
+ */
+export function resolveAssetWeights(holdings: RebalanceHolding[], targets: AllocationTarget[]): Record<string, number> {
+  const { typeTargets, assetTargets } = splitTargets(targets);
+  const weights: Record<string, number> = {};
+
+  const types = Array.from(new Set(holdings.map((holding) => holding.asset_type)));
+  types.forEach((type) => {
+    const typeHoldings = holdings.filter((holding) => holding.asset_type === type);
+    const targeted = typeHoldings.filter((holding) => assetTargets.has(holding.id));
+    const untargeted = typeHoldings.filter((holding) => !assetTargets.has(holding.id));
+
+    targeted.forEach((holding) => {
+      weights[holding.id] = assetTargets.get(holding.id)!.weight;
+    });
+
+    // Without a type target, the type is only what its asset targets add up to
+    const typeWeight = typeTargets.get(type)?.weight ?? sum(targeted.map((holding) => weights[holding.id]));
+    const remaining = Math.max(0, typeWeight - sum(targeted.map((holding) => weights[holding.id])));
+    const untargetedValue = sum(untargeted.map((holding) => holding.value));
+    untargeted.forEach((holding) => {
+      const share = untargetedValue > 0 ? holding.value / untargetedValue : 1 / untargeted.length;
+      weights[holding.id] = remaining * share;
+    });
+  });
+
+  return weights;
+}
+
+/**
+ * Total weight the targets allocate, which should be 100
+ * Asset targets count toward the total only when their type has no target.
+ */
+export function getTargetTotal(holdings: RebalanceHolding[], targets: AllocationTarget[]): number {
+  const { typeTargets, assetTargets } = splitTargets(targets);
+  const typeOf = new Map(holdings.map((holding) => [holding.id, holding.asset_type]));
+  const looseAssetWeight = sum(
+    Array.from(assetTargets.values())
+      .filter((target) => !typeTargets.has(typeOf.get(target.key) ?? ''))
+      .map((target) => target.weight)
+  );
+  return sum(Array.from(typeTargets.values()).map((target) => target.weight)) + looseAssetWeight;
+}
+
+/**
+ * Checks targets before they are saved, returning an error message or null
+ */
+export function validateTargets(holdings: RebalanceHolding[], targets: AllocationTarget[]): string | null {
+  if (targets.some((target) => !Number.isFinite(target.weight) || target.weight < 0 || target.weight > 100)) {
+    return 'Target weights must be between 0% and 100%';
+  }
+  if (targets.some((target) => target.drift_band !== undefined && (!Number.isFinite(target.drift_band) || target.drift_band < 0))) {
+    return 'Drift bands cannot be negative';
+  }
+
+  const { typeTargets, assetTargets } = splitTargets(targets);
+  const typeOf = new Map(holdings.map((holding) => [holding.id, holding.asset_type]));
+
+  for (const [type, typeTarget] of typeTargets) {
+    const carved = sum(
+      Array.from(assetTargets.values())
+        .filter((target) => typeOf.get(target.key) === type)
+        .map((target) => target.weight)
+    );
+    if (carved > typeTarget.weight + 0.01) {
+      return 'Asset targets cannot add up to more than their type target';
+    }
+  }
+
+  const total = getTargetTotal(holdings, targets);
+  if (Math.abs(total - 100) > 0.01) {
+    return `Targets add up to ${total.toFixed(1)}% instead of 100%`;
+  }
+  return null;
+}
+
+/**
+ * Measures each asset type's and targeted asset's drift from its target
+ * Types are listed when they are held or have a target.
+ */
+export function calculateDrift(holdings: RebalanceHolding[], allocation: AllocationTargets): DriftItem[] {
+  const { typeTargets, assetTargets } = splitTargets(allocation.targets);
+  const weights = resolveAssetWeights(holdings, allocation.targets);
+  const total = sum(holdings.map((holding) => holding.value));
+  const weightOf = (value: number) => (total > 0 ? (value / total) * 100 : 0);
+
+  const toItem = (scope: DriftItem['scope'], key: string, currentWeight: number, targetWeight: number): DriftItem => {
+    const target = (scope === 'asset_type' ? typeTargets : assetTargets).get(key);
+    const band = target?.drift_band ?? allocation.drift_band ?? DEFAULT_DRIFT_BAND;
+    const drift = currentWeight - targetWeight;
+    return { scope, key, currentWeight, targetWeight, drift, band, outOfBand: Math.abs(drift) > band };
+  };
+
+  const types = Array.from(new Set([
+    ...holdings.map((holding) => holding.asset_type),
+    ...typeTargets.keys(),
+  ]));
+  const typeItems = types.map((type) => {
+    const typeHoldings = holdings.filter((holding) => holding.asset_type === type);
+    const targetWeight = typeTargets.get(type)?.weight ?? sum(typeHoldings.map((holding) => weights[holding.id] ?? 0));
+    return toItem('asset_type', type, weightOf(sum(typeHoldings.map((holding) => holding.value))), targetWeight);
+  });
+
+  const assetItems = holdings
+    .filter((holding) => assetTargets.has(holding.id))
+    .map((holding) => toItem('asset', holding.id, weightOf(holding.value), assetTargets.get(holding.id)!.weight));
+
+  return [...typeItems, ...assetItems];
+}
+
+/**
+ * Whether any type or asset has drifted outside its band
+ */
+export function needsRebalance(drift: DriftItem[]): boolean {
+  return drift.some((item) => item.outOfBand);
+}
+
+/**
+ * Plans the trades that move holdings to their targets
+ * A full rebalance buys and sells until every holding is on target after
+ * adding the contribution. The contributions-only mode never sells: it
+ * spends the contribution on the most underweight holdings first, in
+ * proportion to how far each is below target.
+ */
+export function planRebalance(
+  holdings: RebalanceHolding[],
+  targets: AllocationTarget[],
+  mode: RebalanceMode,
+  contribution: number = 0
+): RebalanceTrade[] {
+  const weights = resolveAssetWeights(holdings, targets);
+  const newTotal = sum(holdings.map((holding) => holding.value)) + contribution;
+  const gaps = holdings.map((holding) => ((weights[holding.id] ?? 0) / 100) * newTotal - holding.value);
+
+  let amounts: number[];
+  if (mode === 'full') {
+    amounts = gaps;
+  } else {
+    if (contribution <= 0) return [];
+    const deficits = gaps.map((gap) => Math.max(0, gap));
+    const totalDeficit = sum(deficits);
+    if (totalDeficit > contribution) {
+      amounts = deficits.map((deficit) => (contribution * deficit) / totalDeficit);
+    } else {
+      // Everything underweight is topped up; the rest follows the targets
+      const leftover = contribution - totalDeficit;
+      const totalWeight = sum(holdings.map((holding) => weights[holding.id] ?? 0));
+      amounts = deficits.map((deficit, index) =>
+        deficit + (totalWeight > 0 ? (leftover * (weights[holdings[index].id] ?? 0)) / totalWeight : 0)
+      );
+    }
+  }
+
+  return holdings
+    .map((holding, index): RebalanceTrade => ({
+      asset_id: holding.id,
+      side: amounts[index] >= 0 ? 'buy' : 'sell',
+      value: Math.abs(amounts[index]),
+      quantity: holding.price > 0 ? Math.abs(amounts[index]) / holding.price : 0,
+    }))
+    .filter((trade) => trade.value >= MIN_TRADE_VALUE)
+    // Sells first, since they fund the buys
+    .sort((a, b) => (a.side === b.side ? b.value - a.value : a.side === 'sell' ? -1 : 1));
+}
+
+/**
+ * Builds a rebalance recommendation when a portfolio has drifted outside
+ * its bands, rated high once any drift is twice its band
+ */
+export function buildRebalanceRecommendation(
+  portfolioId: string,
+  portfolioName: string,
+  drift: DriftItem[]
+): RebalanceRecommendation | null {
+  const drifted = drift.filter((item) => item.outOfBand);
+  if (drifted.length === 0) return null;
+
+  const worst = drifted.reduce((a, b) => (Math.abs(b.drift) > Math.abs(a.drift) ? b : a));
+  return {
+    id: `rebalance-${portfolioId}`,
+    type: 'rebalance',
+    title: `Rebalance ${portfolioName}`,
+    description: `${drifted.length} ${drifted.length === 1 ? 'target has' : 'targets have'} drifted outside their band, up to ${Math.abs(worst.drift).toFixed(1)} percentage points.`,
+    priority: drifted.some((item) => Math.abs(item.drift) > 2 * item.band) ? 'high' : 'medium',
+  };
+}
@@ -0,0 +1,372 @@
+/**
+ * Returns Engine
+ *
+ * Computes time-weighted return (TWR) and money-weighted return (XIRR) for a
+ * single holding or a whole portfolio over the dashboard time periods.
+ *
+ * A portfolio is valued as its holdings plus the cash left over from recorded
+ * contributions and withdrawals. Holdings in portfolios without recorded cash
+ * flows treat each buy and sell as money moving in and out instead. Income
+ * paid by a holding counts towards its return either way.
+ */
+
+import type { Asset, AssetTransaction, IncomeEvent, PortfolioCashFlow } from '../services/offlineStorage';
+import { convertAmount, DEFAULT_CURRENCY, getFxRate, type FxContext } from './currency';
+import { getAssetLedger, isInflow } from './ledger';
+
+export type ReturnPeriod = '1D' | '1W' | '1M' | '3M' | '1Y' | 'ALL';
+
+export const RETURN_PERIODS: ReturnPeriod[] = ['1D', '1W', '1M', '3M', '1Y', 'ALL'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const PERIOD_DAYS: Record<Exclude<ReturnPeriod, 'ALL'>, number> = {
+  '1D': 1,
+  '1W': 7,
+  '1M': 30,
+  '3M': 90,
+  '1Y': 365,
+};
+
+/** Money moving into (positive) or out of (negative) a holding or portfolio */
+export interface CashFlow {
+  date: string;
+  amount: number;
+}
+
+export interface PricePoint {
+  date: string;
+  price: number;
+}
+
+/** One asset's ledger and prices, as input to the engine */
+export interface HoldingSeries {
+  transactions: AssetTransaction[];
+  /** Historical prices, any order */
+  prices: PricePoint[];
+  /** Latest price, used to value the holding today */
+  currentPrice?: number;
+  /** Multiplier into the reporting currency; defaults to 1 */
+  fxRate?: number;
+  /** Income paid out, already in the reporting currency */
+  income?: CashFlow[];
+  /**
+   * True when the holding's portfolio records cash flows, so its trades move
+   * cash within the portfolio rather than money in and out of it
+   */
+  cashFunded?: boolean;
+}
+
+export interface ReturnsInput {
+  holdings: HoldingSeries[];
+  /** Recorded contributions and withdrawals, in the reporting currency */
+  cashFlows?: PortfolioCashFlow[];
+}
+
+export interface PeriodReturn {
+  period: ReturnPeriod;
+  startDate: string;
+  endDate: string;
+  startValue: number;
+  endValue: number;
+  /** Contributions minus withdrawals during the period */
+  netFlows: number;
+  /** Compounded sub-period return, or null when nothing was invested */
+  twr: number | null;
+  /** Annualized internal rate of return, or null when it has no solution */
+  xirr: number | null;
+}
+
+/** Asset fields the engine needs to rebuild a holding's history */
+export type ReturnsAsset = Pick<
+  Asset,
+  'id' | 'portfolio_id' | 'quantity' | 'purchase_price' | 'purchase_date' | 'created_at' | 'updated_at' | 'current_price' | 'currency'
+>;
+
+/**
+ * Truncates a date or timestamp to its day (YYYY-MM-DD)
+ */
+export function toDay(date: string | Date): string {
+  return (typeof date === 'string' ? date : date.toISOString()).slice(0, 10);
+}
+
+function daysBetween(from: string, to: string): number {
+  return (new Date(to).getTime() - new Date(from).getTime()) / DAY_MS;
+}
+
+/**
+ * Returns the first day of a period (YYYY-MM-DD), or null for ALL
+ */
+export function getPeriodStartDate(period: ReturnPeriod, now: Date = new Date()): string | null {
+  if (period === 'ALL') return null;
+  return toDay(new Date(now.getTime() - PERIOD_DAYS[period] * DAY_MS));
+}
+
+/**
+ * Finds the latest price on or before a date, falling back to the earliest
+ * known price for dates before any data
+ */
+export function getPriceOn(points: PricePoint[], date: string): number | null {
+  if (points.length === 0) return null;
+  const day = toDay(date);
+  let match: PricePoint | null = null;
+  for (const point of points) {
+    if (toDay(point.date) > day) continue;
+    if (!match || toDay(point.date) >= toDay(match.date)) match = point;
+  }
+  if (match) return match.price;
+  return [...points].sort((a, b) => a.date.localeCompare(b.date))[0].price;
+}
+
+function quantityOn(holding: HoldingSeries, day: string): number {
+  return holding.transactions.reduce((quantity, t) => {
+    if (toDay(t.transaction_date) > day) return quantity;
+    return quantity + (isInflow(t.transaction_type) ? t.quantity : -t.quantity);
+  }, 0);
+}
+
+function holdingValueOn(holding: HoldingSeries, day: string, today: string): number {
+  const quantity = quantityOn(holding, day);
+  if (quantity <= 0) return 0;
+
+  // Trade prices fill the gaps between recorded price history
+  const points = [
+    ...holding.prices,
+    ...holding.transactions.map((t) => ({ date: t.transaction_date, price: t.price })),
+  ];
+  const price = day >= today && holding.currentPrice ? holding.currentPrice : getPriceOn(points, day);
+  return quantity * (price ?? 0) * (holding.fxRate ?? 1);
+}
+
+/**
+ * Cash effect of a ledger entry: negative for money spent on buys,
+ * positive for sale proceeds, zero for transfers
+ */
+function tradeCash(transaction: AssetTransaction): number {
+  const gross = transaction.quantity * transaction.price;
+  const fees = transaction.fees || 0;
+  if (transaction.transaction_type === 'buy') return -(gross + fees);
+  if (transaction.transaction_type === 'sell') return gross - fees;
+  return 0;
+}
+
+/**
+ * Lists the flows that cross the boundary of the holdings being measured
+ * Transfers are always external; buys and sells are external only for
+ * holdings that are not cash funded
+ */
+export function getExternalFlows(input: ReturnsInput): CashFlow[] {
+  const recorded = input.cashFlows ?? [];
+  const flows: CashFlow[] = recorded.map((flow) => ({
+    date: toDay(flow.flow_date),
+    amount: flow.flow_type === 'contribution' ? flow.amount : -flow.amount,
+  }));
+
+  input.holdings.forEach((holding) => {
+    const rate = holding.fxRate ?? 1;
+    holding.transactions.forEach((t) => {
+      const value = t.quantity * t.price * rate;
+      if (t.transaction_type === 'transfer_in') {
+        flows.push({ date: toDay(t.transaction_date), amount: value });
+      } else if (t.transaction_type === 'transfer_out') {
+        flows.push({ date: toDay(t.transaction_date), amount: -value });
+      } else if (!holding.cashFunded) {
+        flows.push({ date: toDay(t.transaction_date), amount: -tradeCash(t) * rate });
+      }
+    });
+    // Income leaves the holding unless the portfolio keeps it as cash
+    if (!holding.cashFunded) {
+      (holding.income ?? []).forEach((income) => {
+        flows.push({ date: toDay(income.date), amount: -income.amount });
+      });
+    }
+  });
+
+  return flows.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Values the portfolio at the end of a day, including uninvested cash
+ */
+export function getValueOn(input: ReturnsInput, date: string, now: Date = new Date()): number {
+  const day = toDay(date);
+  const today = toDay(now);
+  const holdingsValue = input.holdings.reduce((sum, holding) => sum + holdingValueOn(holding, day, today), 0);
+
+  let cash = 0;
+  (input.cashFlows ?? []).forEach((flow) => {
+    if (toDay(flow.flow_date) <= day) {
+      cash += flow.flow_type === 'contribution' ? flow.amount : -flow.amount;
+    }
+  });
+  input.holdings.forEach((holding) => {
+    if (!holding.cashFunded) return;
+    holding.transactions.forEach((t) => {
+      if (toDay(t.transaction_date) <= day) cash += tradeCash(t) * (holding.fxRate ?? 1);
+    });
+    (holding.income ?? []).forEach((income) => {
+      if (toDay(income.date) <= day) cash += income.amount;
+    });
+  });
+  return holdingsValue + cash;
+}
+
+/**
+ * Chain-links sub-period returns between valuations
+ * Each valuation is the end-of-day value including that day's flows; a
+ * sub-period starting from a zero value has nothing at risk and is skipped
+ */
+export function calculateTwr(valuations: { date: string; value: number }[], flows: CashFlow[]): number | null {
+  if (valuations.length < 2) return null;
+
+  let growth = 1;
+  let linked = false;
+  for (let i = 1; i < valuations.length; i++) {
+    const previous = valuations[i - 1];
+    const current = valuations[i];
+    if (previous.value <= 0) continue;
+
+    const flow = flows
+      .filter((f) => f.date > previous.date && f.date <= current.date)
+      .reduce((sum, f) => sum + f.amount, 0);
+    growth *= (current.value - flow) / previous.value;
+    linked = true;
+  }
+
+  return linked ? growth - 1 : null;
+}
+
+/**
+ * Solves for the annual rate that discounts the flows to zero
+ * Flows use the investor's sign: money paid in is negative, money
+ * received (including the final value) is positive
+ */
+export function calculateXirr(flows: CashFlow[]): number | null {
+  const active = flows.filter((f) => f.amount !== 0);
+  if (!active.some((f) => f.amount > 0) || !active.some((f) => f.amount < 0)) return null;
+
+  const start = active.reduce((min, f) => (f.date < min ? f.date : min), active[0].date);
+  const years = active.map((f) => daysBetween(start, f.date) / 365);
+  const npv = (rate: number) =>
+    active.reduce((sum, f, i) => sum + f.amount / Math.pow(1 + rate, years[i]), 0);
+  const derivative = (rate: number) =>
+    active.reduce((sum, f, i) => sum - (years[i] * f.amount) / Math.pow(1 + rate, years[i] + 1), 0);
+
+  // Newton's method from a 10% guess converges for typical portfolios
+  let rate = 0.1;
+  for (let i = 0; i < 50; i++) {
+    const value = npv(rate);
+    const slope = derivative(rate);
+    if (!Number.isFinite(value) || !Number.isFinite(slope) || slope === 0) break;
+    const next = rate - value / slope;
+    if (next <= -1) break;
+    if (Math.abs(next - rate) < 1e-10) return next;
+    rate = next;
+  }
+
+  // Otherwise fall back to bisection over a bracket with a sign change
+  let low = -0.9999;
+  let high = 10;
+  while (npv(high) > 0 && high < 1e6) high *= 10;
+  if (Math.sign(npv(low)) === Math.sign(npv(high))) return null;
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    if (Math.sign(npv(mid)) === Math.sign(npv(low))) low = mid;
+    else high = mid;
+  }
+  return (low + high) / 2;
+}
+
+/**
+ * Assembles engine input from assets, their ledgers, price history rows and
+ * income; values are converted into fx.currency at today's rates when given,
+ * leaving out holdings and income in a currency without a rate
+ */
+export function buildReturnsInput(
+  assets: ReturnsAsset[],
+  transactions: AssetTransaction[],
+  priceRows: { asset_id: string; price: number; timestamp: string }[],
+  cashFlows: PortfolioCashFlow[] = [],
+  fx?: FxContext,
+  incomeEvents: IncomeEvent[] = []
+): ReturnsInput {
+  return {
+    holdings: assets.flatMap((asset) => {
+      const fxRate = fx ? getFxRate(asset.currency || DEFAULT_CURRENCY, fx.currency, fx.rates) : 1;
+      if (fxRate === null) return [];
+      return [{
+        transactions: getAssetLedger(asset, transactions),
+        prices: priceRows
+          .filter((row) => row.asset_id === asset.id)
+          .map((row) => ({ date: row.timestamp, price: row.price })),
+        currentPrice: asset.current_price,
+        fxRate,
+        income: incomeEvents
+          .filter((event) => event.asset_id === asset.id)
+          .flatMap((event) => {
+            const amount = fx
+              ? convertAmount(event.amount, event.currency || DEFAULT_CURRENCY, fx.currency, fx.rates)
+              : event.amount;
+            return amount === null ? [] : [{ date: event.payment_date, amount }];
+          }),
+        cashFunded: cashFlows.some((flow) => flow.portfolio_id === asset.portfolio_id),
+      }];
+    }),
+    cashFlows,
+  };
+}
+
+/**
+ * Computes TWR and XIRR over one period
+ */
+export function calculatePeriodReturn(
+  input: ReturnsInput,
+  period: ReturnPeriod,
+  now: Date = new Date()
+): PeriodReturn {
+  const endDate = toDay(now);
+  const allFlows = getExternalFlows(input);
+
+  // ALL starts the day before the first activity, when the value was zero
+  let startDate = getPeriodStartDate(period, now);
+  if (!startDate) {
+    const first = allFlows[0]?.date ?? endDate;
+    startDate = toDay(new Date(new Date(first).getTime() - DAY_MS));
+  }
+
+  const flows = allFlows.filter((f) => f.date > startDate! && f.date <= endDate);
+  const dates = Array.from(new Set([startDate, ...flows.map((f) => f.date), endDate])).sort();
+  const valuations = dates.map((date) => ({ date, value: getValueOn(input, date, now) }));
+  const startValue = valuations[0].value;
+  const endValue = valuations[valuations.length - 1].value;
+
+  const investorFlows: CashFlow[] = [
+    { date: startDate, amount: -startValue },
+    ...flows.map((f) => ({ date: f.date, amount: -f.amount })),
+    { date: endDate, amount: endValue },
+  ];
+
+  return {
+    period,
+    startDate,
+    endDate,
+    startValue,
+    endValue,
+    netFlows: flows.reduce((sum, f) => sum + f.amount, 0),
+    twr: calculateTwr(valuations, flows),
+    xirr: calculateXirr(investorFlows),
+  };
+}
+
+/**
+ * Computes returns for every dashboard period
+ */
+export function calculateReturns(
+  input: ReturnsInput,
+  now: Date = new Date()
+): Record<ReturnPeriod, PeriodReturn> {
+  return RETURN_PERIODS.reduce((results, period) => {
+    results[period] = calculatePeriodReturn(input, period, now);
+    return results;
+  }, {} as Record<ReturnPeriod, PeriodReturn>);
+}
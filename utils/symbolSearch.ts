@@ -0,0 +1,181 @@
+/**
+ * Symbol Search Utilities
+ *
+ * Ranks symbol directory listings against a search query, merges remote
+ * results into the local index used for offline search, and tells apart
+ * the same ticker listed on several exchanges (e.g. SHOP on TSX and NYSE).
+ */
+
+import type { AssetType, SymbolListing } from '../services/offlineStorage';
+import { DEFAULT_CURRENCY } from './currency';
+
+/** Wait this long after the last keystroke before searching the directory */
+export const SEARCH_DEBOUNCE_MS = 300;
+
+export const MAX_SEARCH_RESULTS = 25;
+
+/** A validated live price for a listing */
+export interface SymbolQuote {
+  symbol: string;
+  exchange?: string;
+  price: number;
+  currency: string;
+  /** When the price was observed (ISO timestamp) */
+  as_of: string;
+}
+
+/** Popular listings, searchable before anything has been cached */
+export const SEED_SYMBOLS: SymbolListing[] = [
+  { symbol: 'AAPL', name: 'Apple Inc.', asset_type: 'stock', exchange: 'NASDAQ', currency: 'USD' },
+  { symbol: 'GOOGL', name: 'Alphabet Inc.', asset_type: 'stock', exchange: 'NASDAQ', currency: 'USD' },
+  { symbol: 'MSFT', name: 'Microsoft Corporation', asset_type: 'stock', exchange: 'NASDAQ', currency: 'USD' },
+  { symbol: 'AMZN', name: 'Amazon.com Inc.', asset_type: 'stock', exchange: 'NASDAQ', currency: 'USD' },
+  { symbol: 'TSLA', name: 'Tesla Inc.', asset_type: 'stock', exchange: 'NASDAQ', currency: 'USD' },
+  { symbol: 'META', name: 'Meta Platforms Inc.', asset_type: 'stock', exchange: 'NASDAQ', currency: 'USD' },
+  { symbol: 'NVDA', name: 'NVIDIA Corporation', asset_type: 'stock', exchange: 'NASDAQ', currency: 'USD' },
+  { symbol: 'JPM', name: 'JPMorgan Chase & Co.', asset_type: 'stock', exchange: 'NYSE', currency: 'USD' },
+  { symbol: 'SPY', name: 'SPDR S&P 500 ETF Trust', asset_type: 'etf', exchange: 'NYSE', currency: 'USD' },
+  { symbol: 'VOO', name: 'Vanguard S&P 500 ETF', asset_type: 'etf', exchange: 'NYSE', currency: 'USD' },
+  { symbol: 'QQQ', name: 'Invesco QQQ Trust', asset_type: 'etf', exchange: 'NASDAQ', currency: 'USD' },
+  { symbol: 'VTI', name: 'Vanguard Total Stock Market ETF', asset_type: 'etf', exchange: 'NYSE', currency: 'USD' },
+  { symbol: 'AGG', name: 'iShares Core US Aggregate Bond ETF', asset_type: 'etf', exchange: 'NYSE', currency: 'USD' },
+  { symbol: 'VFIAX', name: 'Vanguard 500 Index Fund Admiral Shares', asset_type: 'mutual_fund', currency: 'USD' },
+  { symbol: 'FXAIX', name: 'Fidelity 500 Index Fund', asset_type: 'mutual_fund', currency: 'USD' },
+  { symbol: 'VTSAX', name: 'Vanguard Total Stock Market Index Fund Admiral Shares', asset_type: 'mutual_fund', currency: 'USD' },
+  { symbol: 'BTC', name: 'Bitcoin', asset_type: 'crypto', currency: 'USD' },
+  { symbol: 'ETH', name: 'Ethereum', asset_type: 'crypto', currency: 'USD' },
+  { symbol: 'SOL', name: 'Solana', asset_type: 'crypto', currency: 'USD' },
+  { symbol: 'XRP', name: 'Ripple', asset_type: 'crypto', currency: 'USD' },
+  { symbol: 'ADA', name: 'Cardano', asset_type: 'crypto', currency: 'USD' },
+  { symbol: 'DOGE', name: 'Dogecoin', asset_type: 'crypto', currency: 'USD' },
+  { symbol: 'DOT', name: 'Polkadot', asset_type: 'crypto', currency: 'USD' },
+  { symbol: 'MATIC', name: 'Polygon', asset_type: 'crypto', currency: 'USD' },
+  { symbol: 'XAU', name: 'Gold', asset_type: 'commodity', currency: 'USD' },
+  { symbol: 'XAG', name: 'Silver', asset_type: 'commodity', currency: 'USD' },
+  { symbol: 'XPT', name: 'Platinum', asset_type: 'commodity', currency: 'USD' },
+  { symbol: 'XPD', name: 'Palladium', asset_type: 'commodity', currency: 'USD' },
+  { symbol: 'EURUSD', name: 'Euro / US Dollar', asset_type: 'forex', currency: 'USD' },
+  { symbol: 'GBPUSD', name: 'British Pound / US Dollar', asset_type: 'forex', currency: 'USD' },
+  { symbol: 'USDJPY', name: 'US Dollar / Japanese Yen', asset_type: 'forex', currency: 'JPY' },
+  { symbol: 'USDCAD', name: 'US Dollar / Canadian Dollar', asset_type: 'forex', currency: 'CAD' },
+];
+
+/**
+ * Identify a listing by symbol and exchange
+ */
+export function getListingKey(listing: Pick<SymbolListing, 'symbol' | 'exchange'>): string {
+  return `${listing.symbol}:${listing.exchange ?? ''}`;
+}
+
+/**
+ * Score how well a listing matches a query; 0 means no match.
+ * Exact tickers beat ticker prefixes, which beat names starting with the
+ * query, which beat names merely containing it.
+ */
+export function scoreListing(listing: SymbolListing, query: string): number {
+  const term = query.trim().toUpperCase();
+  if (!term) return 1;
+
+  const symbol = listing.symbol.toUpperCase();
+  const name = listing.name.toUpperCase();
+  if (symbol === term) return 100;
+  if (symbol.startsWith(term)) return 80 - Math.min(symbol.length - term.length, 20);
+  if (name.startsWith(term)) return 50;
+  if (name.split(/[\s.,&-]+/).some((word) => word.startsWith(term))) return 40;
+  if (name.includes(term)) return 20;
+  return 0;
+}
+
+/**
+ * Find the listings matching a query, best matches first
+ * Listings of the same symbol keep their order, e.g. the directory ranking.
+ */
+export function searchListings(
+  listings: SymbolListing[],
+  query: string,
+  assetType?: string,
+  limit: number = MAX_SEARCH_RESULTS
+): SymbolListing[] {
+  return listings
+    .filter((listing) => !assetType || listing.asset_type === assetType)
+    .map((listing) => ({ listing, score: scoreListing(listing, query) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || a.listing.symbol.localeCompare(b.listing.symbol))
+    .slice(0, limit)
+    .map(({ listing }) => listing);
+}
+
+/**
+ * Combine listings, keeping the first copy of each symbol and exchange
+ */
+export function mergeListings(...lists: SymbolListing[][]): SymbolListing[] {
+  const seen = new Set<string>();
+  const merged: SymbolListing[] = [];
+  lists.flat().forEach((listing) => {
+    const key = getListingKey(listing);
+    if (!seen.has(key)) {
+      seen.add(key);
+      merged.push(listing);
+    }
+  });
+  return merged;
+}
+
+/**
+ * Symbols that appear on more than one exchange in the given listings
+ */
+export function getAmbiguousSymbols(listings: SymbolListing[]): Set<string> {
+  const exchanges = new Map<string, Set<string>>();
+  listings.forEach((listing) => {
+    const set = exchanges.get(listing.symbol) ?? new Set<string>();
+    set.add(listing.exchange ?? '');
+    exchanges.set(listing.symbol, set);
+  });
+  return new Set([...exchanges].filter(([, set]) => set.size > 1).map(([symbol]) => symbol));
+}
+
+/**
+ * Label a listing with its exchange, e.g. "SHOP · TSX"
+ */
+export function formatListing(listing: Pick<SymbolListing, 'symbol' | 'exchange'>): string {
+  return listing.exchange ? `${listing.symbol} · ${listing.exchange}` : listing.symbol;
+}
+
+/**
+ * Listings offered before the user has typed anything
+ */
+export function getPopularListings(assetType: AssetType | string): SymbolListing[] {
+  return SEED_SYMBOLS.filter((listing) => listing.asset_type === assetType);
+}
+
+/**
+ * Validate a price handler response for a listing.
+ * Returns null unless it carries a positive price for the same symbol.
+ */
+export function parseQuote(data: unknown, listing: SymbolListing, now: string = new Date().toISOString()): SymbolQuote | null {
+  if (!data || typeof data !== 'object') return null;
+  const response = data as Record<string, unknown>;
+
+  const price = typeof response.price === 'string' ? Number(response.price) : response.price;
+  if (typeof price !== 'number' || !Number.isFinite(price) || price <= 0) return null;
+
+  if (typeof response.symbol === 'string' && response.symbol.toUpperCase() !== listing.symbol.toUpperCase()) {
+    return null;
+  }
+
+  const currency =
+    typeof response.currency === 'string' && /^[A-Za-z]{3}$/.test(response.currency)
+      ? response.currency.toUpperCase()
+      : listing.currency || DEFAULT_CURRENCY;
+  const timestamp = typeof response.timestamp === 'string' && !isNaN(Date.parse(response.timestamp))
+    ? response.timestamp
+    : now;
+
+  return {
+    symbol: listing.symbol,
+    ...(listing.exchange && { exchange: listing.exchange }),
+    price,
+    currency,
+    as_of: timestamp,
+  };
+}
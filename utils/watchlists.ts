@@ -0,0 +1,161 @@
+/**
+ * Watchlist Utilities
+ *
+ * Symbols followed on named watchlists without being held: which listings
+ * are watched, their latest prices from quotes and realtime updates, and
+ * the price alerts set on them, which carry a symbol instead of an asset.
+ */
+
+import type { PriceAlert, SymbolListing, Watchlist } from '../services/offlineStorage';
+import { getListingKey } from './symbolSearch';
+
+/** Alert types that only need a price, so they work on symbols not held */
+export const WATCHLIST_ALERT_TYPES = ['price_target', 'percentage_change'] as const;
+
+export const MAX_WATCHLIST_NAME_LENGTH = 40;
+
+type ListingRef = Pick<SymbolListing, 'symbol' | 'exchange'>;
+
+/** Latest price seen for a watched symbol */
+export interface WatchedPrice {
+  price: number;
+  currency?: string;
+  /** ISO timestamp of the price */
+  as_of: string;
+}
+
+/** A price pushed for a symbol; without an exchange it applies on every exchange */
+export interface SymbolPriceUpdate {
+  symbol: string;
+  exchange?: string;
+  price: number;
+  currency?: string;
+  timestamp?: string;
+}
+
+/**
+ * Validates a watchlist name, which must be unique among the user's lists
+ * Returns an error message, or null when the name is valid
+ */
+export function validateWatchlistName(
+  name: string,
+  watchlists: Pick<Watchlist, 'id' | 'name'>[],
+  watchlistId?: string
+): string | null {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    return 'Name is required';
+  }
+  if (trimmed.length > MAX_WATCHLIST_NAME_LENGTH) {
+    return `Name must be at most ${MAX_WATCHLIST_NAME_LENGTH} characters`;
+  }
+  const taken = watchlists.some(
+    (watchlist) => watchlist.id !== watchlistId && watchlist.name.trim().toLowerCase() === trimmed.toLowerCase()
+  );
+  return taken ? 'A watchlist with this name already exists' : null;
+}
+
+export function isWatched(watchlist: Pick<Watchlist, 'items'>, listing: ListingRef): boolean {
+  const key = getListingKey(listing);
+  return watchlist.items.some((item) => getListingKey(item) === key);
+}
+
+/**
+ * Every listing on any watchlist, once each
+ */
+export function getWatchedListings(watchlists: Pick<Watchlist, 'items'>[]): SymbolListing[] {
+  const seen = new Map<string, SymbolListing>();
+  watchlists.forEach((watchlist) =>
+    watchlist.items.forEach((item) => {
+      const key = getListingKey(item);
+      if (!seen.has(key)) {
+        seen.set(key, {
+          symbol: item.symbol,
+          name: item.name,
+          asset_type: item.asset_type,
+          exchange: item.exchange,
+          currency: item.currency,
+        });
+      }
+    })
+  );
+  return Array.from(seen.values());
+}
+
+export function matchesPriceUpdate(listing: ListingRef, update: Pick<SymbolPriceUpdate, 'symbol' | 'exchange'>): boolean {
+  return (
+    listing.symbol.toUpperCase() === update.symbol.toUpperCase() &&
+    (!update.exchange || update.exchange === listing.exchange)
+  );
+}
+
+/**
+ * Applies a realtime price update to the prices of the watched listings,
+ * keyed by listing key. Older prices never replace newer ones.
+ */
+export function applyPriceUpdate(
+  prices: Record<string, WatchedPrice>,
+  listings: ListingRef[],
+  update: SymbolPriceUpdate,
+  receivedAt: string = new Date().toISOString()
+): Record<string, WatchedPrice> {
+  if (!Number.isFinite(update.price) || update.price <= 0) return prices;
+
+  const asOf = update.timestamp || receivedAt;
+  let next = prices;
+  listings.forEach((listing) => {
+    if (!matchesPriceUpdate(listing, update)) return;
+    const key = getListingKey(listing);
+    const current = prices[key];
+    if (current && current.as_of > asOf) return;
+    next = {
+      ...next,
+      [key]: { price: update.price, currency: update.currency ?? current?.currency, as_of: asOf },
+    };
+  });
+  return next;
+}
+
+/**
+ * Alerts set on a watched symbol rather than on a holding
+ */
+export function getSymbolAlerts<T extends Pick<PriceAlert, 'asset_id' | 'symbol' | 'exchange'>>(
+  alerts: T[],
+  listing: ListingRef
+): T[] {
+  return alerts.filter(
+    (alert) =>
+      !alert.asset_id &&
+      !!alert.symbol &&
+      alert.symbol === listing.symbol &&
+      (alert.exchange ?? undefined) === (listing.exchange ?? undefined)
+  );
+}
+
+/**
+ * Name to show for what an alert watches: the portfolio, the holding, else the symbol
+ */
+export function getAlertSubject(
+  alert: Pick<PriceAlert, 'asset_id' | 'symbol' | 'exchange' | 'portfolio_id'>,
+  assets: Map<string, { symbol?: string; name: string }>,
+  portfolios: Map<string, { name: string }> = new Map()
+): string {
+  const portfolio = alert.portfolio_id ? portfolios.get(alert.portfolio_id) : undefined;
+  if (portfolio) return portfolio.name;
+  const asset = alert.asset_id ? assets.get(alert.asset_id) : undefined;
+  if (asset) return asset.symbol || asset.name;
+  if (alert.symbol) return alert.exchange ? `${alert.symbol} (${alert.exchange})` : alert.symbol;
+  return 'Unknown Asset';
+}
+
+/**
+ * The more recent of two prices for the same listing
+ */
+export function getLatestPrice(
+  a: WatchedPrice | undefined,
+  b: WatchedPrice | undefined
+): WatchedPrice | undefined {
+  if (!a) return b;
+  if (!b) return a;
+  return b.as_of > a.as_of ? b : a;
+}